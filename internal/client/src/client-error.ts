@@ -0,0 +1,32 @@
+export interface ClientValidationError {
+  location: "query" | "body";
+  path: (string | number)[];
+  message: string;
+}
+
+interface ClientErrorOptions {
+  status: number;
+  hint?: string | null;
+  errors?: ClientValidationError[];
+  response: Response;
+}
+
+export class ClientError extends Error {
+  public readonly status: number;
+
+  public readonly hint: string | null;
+
+  public readonly errors: ClientValidationError[];
+
+  public readonly response: Response;
+
+  constructor(message: string, options: ClientErrorOptions) {
+    super(message);
+
+    this.name = "ClientError";
+    this.status = options.status;
+    this.hint = options.hint ?? null;
+    this.errors = options.errors ?? [];
+    this.response = options.response;
+  }
+}
@@ -0,0 +1,247 @@
+import { type DeepPartial } from "@workertown/internal-types";
+
+import { ClientError, type ClientValidationError } from "./client-error.js";
+
+export type ClientFetch = (
+  input: string,
+  init?: RequestInit,
+) => Promise<Response>;
+
+export interface ClientOptions<Endpoints> {
+  // The base URL of the service. This can be omitted when `fetch` resolves
+  // relative paths itself (e.g. `service()` or `server.request`)
+  url?: string;
+  fetch?: ClientFetch;
+  // Sent as a `Bearer` token, so works for both API keys and JWTs
+  token?: string;
+  basic?: {
+    username: string;
+    password: string;
+  };
+  headers?: Record<string, string>;
+  endpoints?: DeepPartial<Endpoints>;
+}
+
+export interface ClientResponse<T> {
+  status: number;
+  success: boolean;
+  data: T;
+}
+
+export interface ClientPagination {
+  hasNextPage: boolean;
+  endCursor: string | null;
+}
+
+export interface ClientPage<T> {
+  data: T[];
+  pagination: ClientPagination;
+}
+
+export type ClientQuery = Record<
+  string,
+  string | number | boolean | string[] | null | undefined
+>;
+
+export interface ClientRequestOptions {
+  query?: ClientQuery;
+  body?: unknown;
+  headers?: Record<string, string>;
+  signal?: AbortSignal;
+}
+
+// Dates are serialized to ISO strings when they pass through `ctx.json()`
+export type Serialized<T> = T extends Date
+  ? string
+  : T extends (infer U)[]
+  ? Serialized<U>[]
+  : T extends object
+  ? { [K in keyof T]: Serialized<T[K]> }
+  : T;
+
+function mergeEndpoints<T>(defaults: T, overrides?: DeepPartial<T>): T {
+  const result = { ...defaults };
+
+  if (!overrides) {
+    return result;
+  }
+
+  for (const [key, value] of Object.entries(overrides)) {
+    const defaultValue = defaults[key as keyof T];
+
+    if (
+      value !== null &&
+      typeof value === "object" &&
+      typeof defaultValue === "object"
+    ) {
+      result[key as keyof T] = mergeEndpoints(defaultValue, value);
+    } else if (value !== undefined) {
+      result[key as keyof T] = value as T[keyof T];
+    }
+  }
+
+  return result;
+}
+
+function isBodyInit(body: unknown): body is BodyInit {
+  return (
+    typeof body === "string" ||
+    body instanceof FormData ||
+    body instanceof Blob ||
+    body instanceof ArrayBuffer ||
+    body instanceof Uint8Array ||
+    body instanceof ReadableStream ||
+    body instanceof URLSearchParams
+  );
+}
+
+async function readJson(response: Response) {
+  if (!response.headers.get("Content-Type")?.includes("application/json")) {
+    return null;
+  }
+
+  try {
+    return await response.clone().json();
+  } catch (_) {
+    return null;
+  }
+}
+
+export function encodePath(path: string) {
+  return path
+    .replace(/^\//, "")
+    .split("/")
+    .map((segment) => encodeURIComponent(segment))
+    .join("/");
+}
+
+export class Client<Endpoints> {
+  protected readonly endpoints: Endpoints;
+
+  private readonly _url: string;
+
+  private readonly _fetch: ClientFetch;
+
+  private readonly _headers: Record<string, string>;
+
+  constructor(defaultEndpoints: Endpoints, options: ClientOptions<Endpoints>) {
+    const { url = "", fetch, token, basic, headers = {}, endpoints } = options;
+
+    this.endpoints = mergeEndpoints(defaultEndpoints, endpoints);
+    this._url = url.replace(/\/$/, "");
+    this._fetch = fetch ?? ((input, init) => globalThis.fetch(input, init));
+    this._headers = { ...headers };
+
+    if (token) {
+      this._headers.Authorization = `Bearer ${token}`;
+    } else if (basic) {
+      this._headers.Authorization = `Basic ${btoa(
+        `${basic.username}:${basic.password}`,
+      )}`;
+    }
+  }
+
+  // Returns the raw `Response`, throwing a `ClientError` for anything that
+  // isn't a successful response from the service
+  protected async fetch(
+    method: string,
+    path: string,
+    { query, body, headers, signal }: ClientRequestOptions = {},
+  ) {
+    const searchParams = new URLSearchParams();
+    const requestHeaders: Record<string, string> = {
+      ...this._headers,
+      ...headers,
+    };
+    let requestBody: BodyInit | undefined;
+
+    for (const [key, value] of Object.entries(query ?? {})) {
+      if (value !== undefined && value !== null) {
+        searchParams.set(
+          key,
+          Array.isArray(value) ? value.join(",") : `${value}`,
+        );
+      }
+    }
+
+    if (body !== undefined) {
+      if (isBodyInit(body)) {
+        requestBody = body;
+      } else {
+        requestBody = JSON.stringify(body);
+        requestHeaders["Content-Type"] ??= "application/json";
+      }
+    }
+
+    const queryString = searchParams.toString();
+    const response = await this._fetch(
+      `${this._url}${path}${queryString ? `?${queryString}` : ""}`,
+      { method, headers: requestHeaders, body: requestBody, signal },
+    );
+
+    // A `304` is only ever sent in reply to a conditional request (e.g. with an
+    // `If-None-Match` header), so the caller is expecting it
+    if (!response.ok && response.status !== 304) {
+      const json = await readJson(response);
+
+      // A `404` that is still flagged as successful means the route exists but
+      // the requested resource does not, so we let the caller deal with it
+      if (response.status === 404 && json?.success === true) {
+        return response;
+      }
+
+      const errors: ClientValidationError[] = Array.isArray(json?.errors)
+        ? json.errors
+        : [];
+      let message: string = response.statusText || "Request failed";
+
+      if (typeof json?.error === "string") {
+        message = json.error;
+      } else if (errors.length > 0) {
+        message = errors
+          .map((error) => `${error.path.join(".")}: ${error.message}`)
+          .join(", ");
+      }
+
+      throw new ClientError(message, {
+        status: response.status,
+        hint: response.headers.get("X-Workertown-Hint"),
+        errors,
+        response,
+      });
+    }
+
+    return response;
+  }
+
+  protected async request<T, R extends object = ClientResponse<T>>(
+    method: string,
+    path: string,
+    options?: ClientRequestOptions,
+  ): Promise<R> {
+    const response = await this.fetch(method, path, options);
+
+    return response.json() as Promise<R>;
+  }
+
+  // Walks every page of a cursor paginated endpoint, passing the `endCursor`
+  // of each page back in as `after`
+  protected async *paginate<T>(
+    getPage: (after?: string) => Promise<ClientPage<T>>,
+    after?: string,
+  ): AsyncGenerator<T, void, undefined> {
+    let cursor = after;
+
+    while (true) {
+      const { data, pagination } = await getPage(cursor);
+
+      yield* data;
+
+      if (!pagination.hasNextPage || !pagination.endCursor) {
+        break;
+      }
+
+      cursor = pagination.endCursor;
+    }
+  }
+}
@@ -0,0 +1,28 @@
+import { ClientError, type ClientValidationError } from "./client-error.js";
+import {
+  Client,
+  type ClientFetch,
+  type ClientOptions,
+  type ClientPage,
+  type ClientPagination,
+  type ClientQuery,
+  type ClientRequestOptions,
+  type ClientResponse,
+  type Serialized,
+  encodePath,
+} from "./client.js";
+
+export {
+  Client,
+  ClientError,
+  encodePath,
+  type ClientFetch,
+  type ClientOptions,
+  type ClientPage,
+  type ClientPagination,
+  type ClientQuery,
+  type ClientRequestOptions,
+  type ClientResponse,
+  type ClientValidationError,
+  type Serialized,
+};
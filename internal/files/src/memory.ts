@@ -1,11 +1,24 @@
 import { FilesAdapter } from "./files-adapter.js";
 
 export class MemoryFilesAdapter extends FilesAdapter {
-  private readonly _fileStore = new Map<string, ReadableStream>();
+  // The files are kept as bytes (rather than the stream they were put with),
+  // as a stream can only be read once
+  private readonly _fileStore = new Map<string, Uint8Array>();
   private readonly _metadataStore = new Map<string, Record<string, string>>();
 
   async get(key: string) {
-    return this._fileStore.get(key) ?? null;
+    const file = this._fileStore.get(key);
+
+    if (!file) {
+      return null;
+    }
+
+    return new ReadableStream({
+      start(controller) {
+        controller.enqueue(file);
+        controller.close();
+      },
+    });
   }
 
   async getMetadata(key: string) {
@@ -17,20 +30,12 @@ export class MemoryFilesAdapter extends FilesAdapter {
     stream: ReadableStream | Uint8Array | Blob,
     metadata?: Record<string, string>,
   ) {
-    let realStream: ReadableStream = stream as ReadableStream;
-
-    if (stream instanceof Blob) {
-      realStream = stream.stream();
-    } else if (stream instanceof Uint8Array) {
-      realStream = new ReadableStream({
-        start(controller) {
-          controller.enqueue(stream);
-          controller.close();
-        },
-      });
-    }
-
-    this._fileStore.set(key, realStream);
+    this._fileStore.set(
+      key,
+      stream instanceof Uint8Array
+        ? stream
+        : new Uint8Array(await new Response(stream).arrayBuffer()),
+    );
     this._metadataStore.set(key, metadata ?? {});
   }
 
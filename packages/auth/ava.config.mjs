@@ -0,0 +1,7 @@
+export default {
+  extensions: {
+    ts: "module",
+  },
+  nodeArguments: ["--loader=tsx", "--no-warnings"],
+  timeout: "30s",
+};
@@ -0,0 +1,221 @@
+import {
+  Client,
+  ClientError,
+  type ClientFetch,
+  type ClientOptions,
+  type Serialized,
+} from "@workertown/internal-client";
+import { type JSONWebKeySet } from "jose";
+
+import { type Session, type User } from "../storage/storage-adapter.js";
+
+export interface AuthClientEndpoints {
+  v1: {
+    admin: string;
+    auth: string;
+    users: string;
+  };
+  public: string;
+}
+
+export type AuthClientOptions = ClientOptions<AuthClientEndpoints>;
+
+export type AuthClientUser = Serialized<User>;
+
+export type AuthClientSession = Serialized<Session>;
+
+export interface AuthClientTokens {
+  user: AuthClientUser;
+  accessToken: string;
+  refreshToken: string;
+  expiresIn: number;
+}
+
+const DEFAULT_ENDPOINTS: AuthClientEndpoints = {
+  v1: {
+    admin: "/v1/admin",
+    auth: "/v1/auth",
+    users: "/v1/users",
+  },
+  public: "/",
+};
+
+function withAccessToken(accessToken: string) {
+  return { Authorization: `Bearer ${accessToken}` };
+}
+
+export class AuthClient extends Client<AuthClientEndpoints> {
+  constructor(options: AuthClientOptions = {}) {
+    super(DEFAULT_ENDPOINTS, options);
+  }
+
+  async signUp(email: string, password: string) {
+    const { data } = await this.request<AuthClientTokens>(
+      "POST",
+      `${this.endpoints.v1.auth}/sign-up`,
+      { body: { email, password } },
+    );
+
+    return data;
+  }
+
+  async signIn(email: string, password: string) {
+    const { data } = await this.request<AuthClientTokens>(
+      "POST",
+      `${this.endpoints.v1.auth}/sign-in`,
+      { body: { email, password } },
+    );
+
+    return data;
+  }
+
+  async refresh(refreshToken: string) {
+    const { data } = await this.request<AuthClientTokens>(
+      "POST",
+      `${this.endpoints.v1.auth}/refresh`,
+      { body: { refreshToken } },
+    );
+
+    return data;
+  }
+
+  async signOut(refreshToken: string) {
+    const { data } = await this.request<boolean>(
+      "POST",
+      `${this.endpoints.v1.auth}/sign-out`,
+      { body: { refreshToken } },
+    );
+
+    return data;
+  }
+
+  // The following are called on behalf of a signed in user, so use their
+  // access token instead of the client's `token`
+  async getCurrentUser(accessToken: string) {
+    const { data } = await this.request<AuthClientUser>(
+      "GET",
+      `${this.endpoints.v1.auth}/user`,
+      { headers: withAccessToken(accessToken) },
+    );
+
+    return data;
+  }
+
+  async changePassword(
+    accessToken: string,
+    password: string,
+    newPassword: string,
+  ) {
+    const { data } = await this.request<boolean>(
+      "PUT",
+      `${this.endpoints.v1.auth}/user/password`,
+      {
+        body: { password, newPassword },
+        headers: withAccessToken(accessToken),
+      },
+    );
+
+    return data;
+  }
+
+  async getSessions(accessToken: string) {
+    const { data } = await this.request<AuthClientSession[]>(
+      "GET",
+      `${this.endpoints.v1.auth}/sessions`,
+      { headers: withAccessToken(accessToken) },
+    );
+
+    return data;
+  }
+
+  async revokeSession(accessToken: string, id: string) {
+    const { data } = await this.request<{ id: string }>(
+      "DELETE",
+      `${this.endpoints.v1.auth}/sessions/${encodeURIComponent(id)}`,
+      { headers: withAccessToken(accessToken) },
+    );
+
+    return data;
+  }
+
+  async createUser(email: string, password: string) {
+    const { data } = await this.request<AuthClientUser>(
+      "POST",
+      this.endpoints.v1.users,
+      { body: { email, password } },
+    );
+
+    return data;
+  }
+
+  async getUser(id: string) {
+    const { data } = await this.request<AuthClientUser | null>(
+      "GET",
+      `${this.endpoints.v1.users}/${encodeURIComponent(id)}`,
+    );
+
+    return data;
+  }
+
+  async deleteUser(id: string) {
+    const { data } = await this.request<{ id: string }>(
+      "DELETE",
+      `${this.endpoints.v1.users}/${encodeURIComponent(id)}`,
+    );
+
+    return data;
+  }
+
+  async getUserSessions(id: string) {
+    const { data } = await this.request<AuthClientSession[]>(
+      "GET",
+      `${this.endpoints.v1.users}/${encodeURIComponent(id)}/sessions`,
+    );
+
+    return data;
+  }
+
+  async revokeUserSessions(id: string) {
+    const { data } = await this.request<{ id: string }>(
+      "DELETE",
+      `${this.endpoints.v1.users}/${encodeURIComponent(id)}/sessions`,
+    );
+
+    return data;
+  }
+
+  // The JWKS is returned as is, rather than wrapped in a response envelope
+  async getJwks() {
+    const publicPrefix =
+      this.endpoints.public === "/" ? "" : this.endpoints.public;
+
+    return this.request<never, JSONWebKeySet>(
+      "GET",
+      `${publicPrefix}/.well-known/jwks.json`,
+    );
+  }
+
+  async info() {
+    const { data } = await this.request<Record<string, unknown>>(
+      "GET",
+      `${this.endpoints.v1.admin}/info`,
+    );
+
+    return data;
+  }
+
+  async migrate() {
+    const { data } = await this.request<unknown[]>(
+      "POST",
+      `${this.endpoints.v1.admin}/migrate`,
+    );
+
+    return data;
+  }
+}
+
+export function createAuthClient(options?: AuthClientOptions) {
+  return new AuthClient(options);
+}
+
+export { ClientError, type ClientFetch };
@@ -0,0 +1,990 @@
+import { type OpenApiSpec } from "@workertown/internal-open-api";
+
+export const OPEN_API_SPEC: OpenApiSpec = {
+  openapi: "3.0.0",
+  info: {
+    version: "1.0.0",
+    title: "Workertown Auth",
+    license: {
+      name: "MIT",
+    },
+  },
+  servers: [
+    {
+      url: "http://localhost:8787",
+    },
+  ],
+  paths: {
+    "/v1/auth/sign-up": {
+      post: {
+        summary: "Sign up a new user",
+        security: [],
+        operationId: "signUp",
+        tags: ["Auth"],
+        requestBody: {
+          description: "The user's credentials",
+          required: true,
+          content: {
+            "application/json": {
+              schema: {
+                $ref: "#/components/schemas/CredentialsBody",
+              },
+            },
+          },
+        },
+        responses: {
+          "200": {
+            description: "The new user and their tokens",
+            content: {
+              "application/json": {
+                schema: {
+                  $ref: "#/components/schemas/TokensResponse",
+                },
+              },
+            },
+          },
+          default: {
+            description: "Unexpected error",
+            content: {
+              "application/json": {
+                schema: {
+                  $ref: "#/components/schemas/InternalServerErrorResponse",
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    "/v1/auth/sign-in": {
+      post: {
+        summary: "Sign in an existing user",
+        security: [],
+        operationId: "signIn",
+        tags: ["Auth"],
+        requestBody: {
+          description: "The user's credentials",
+          required: true,
+          content: {
+            "application/json": {
+              schema: {
+                $ref: "#/components/schemas/CredentialsBody",
+              },
+            },
+          },
+        },
+        responses: {
+          "200": {
+            description: "The user and their tokens",
+            content: {
+              "application/json": {
+                schema: {
+                  $ref: "#/components/schemas/TokensResponse",
+                },
+              },
+            },
+          },
+          default: {
+            description: "Unexpected error",
+            content: {
+              "application/json": {
+                schema: {
+                  $ref: "#/components/schemas/InternalServerErrorResponse",
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    "/v1/auth/refresh": {
+      post: {
+        summary: "Exchange a refresh token for new tokens",
+        security: [],
+        operationId: "refresh",
+        tags: ["Auth"],
+        requestBody: {
+          description: "The refresh token",
+          required: true,
+          content: {
+            "application/json": {
+              schema: {
+                $ref: "#/components/schemas/RefreshTokenBody",
+              },
+            },
+          },
+        },
+        responses: {
+          "200": {
+            description: "The user and their new tokens",
+            content: {
+              "application/json": {
+                schema: {
+                  $ref: "#/components/schemas/TokensResponse",
+                },
+              },
+            },
+          },
+          default: {
+            description: "Unexpected error",
+            content: {
+              "application/json": {
+                schema: {
+                  $ref: "#/components/schemas/InternalServerErrorResponse",
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    "/v1/auth/sign-out": {
+      post: {
+        summary: "Sign out, revoking the refresh token's session",
+        security: [],
+        operationId: "signOut",
+        tags: ["Auth"],
+        requestBody: {
+          description: "The refresh token",
+          required: true,
+          content: {
+            "application/json": {
+              schema: {
+                $ref: "#/components/schemas/RefreshTokenBody",
+              },
+            },
+          },
+        },
+        responses: {
+          "200": {
+            description: "The result",
+            content: {
+              "application/json": {
+                schema: {
+                  $ref: "#/components/schemas/BooleanResponse",
+                },
+              },
+            },
+          },
+          default: {
+            description: "Unexpected error",
+            content: {
+              "application/json": {
+                schema: {
+                  $ref: "#/components/schemas/InternalServerErrorResponse",
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    "/v1/auth/user": {
+      get: {
+        summary: "Get the signed in user",
+        security: [{ BearerAuth: [] }],
+        operationId: "getCurrentUser",
+        tags: ["Auth"],
+        responses: {
+          "200": {
+            description: "The signed in user",
+            content: {
+              "application/json": {
+                schema: {
+                  $ref: "#/components/schemas/UserResponse",
+                },
+              },
+            },
+          },
+          default: {
+            description: "Unexpected error",
+            content: {
+              "application/json": {
+                schema: {
+                  $ref: "#/components/schemas/InternalServerErrorResponse",
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    "/v1/auth/user/password": {
+      put: {
+        summary: "Change the signed in user's password",
+        security: [{ BearerAuth: [] }],
+        operationId: "changePassword",
+        tags: ["Auth"],
+        requestBody: {
+          description: "The current and new passwords",
+          required: true,
+          content: {
+            "application/json": {
+              schema: {
+                $ref: "#/components/schemas/ChangePasswordBody",
+              },
+            },
+          },
+        },
+        responses: {
+          "200": {
+            description: "The result",
+            content: {
+              "application/json": {
+                schema: {
+                  $ref: "#/components/schemas/BooleanResponse",
+                },
+              },
+            },
+          },
+          default: {
+            description: "Unexpected error",
+            content: {
+              "application/json": {
+                schema: {
+                  $ref: "#/components/schemas/InternalServerErrorResponse",
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    "/v1/auth/sessions": {
+      get: {
+        summary: "Get the signed in user's active sessions",
+        security: [{ BearerAuth: [] }],
+        operationId: "getSessions",
+        tags: ["Auth"],
+        responses: {
+          "200": {
+            description: "The active sessions",
+            content: {
+              "application/json": {
+                schema: {
+                  $ref: "#/components/schemas/SessionsResponse",
+                },
+              },
+            },
+          },
+          default: {
+            description: "Unexpected error",
+            content: {
+              "application/json": {
+                schema: {
+                  $ref: "#/components/schemas/InternalServerErrorResponse",
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    "/v1/auth/sessions/{id}": {
+      delete: {
+        summary: "Revoke one of the signed in user's sessions",
+        security: [{ BearerAuth: [] }],
+        operationId: "revokeSession",
+        tags: ["Auth"],
+        parameters: [
+          {
+            name: "id",
+            in: "path",
+            required: true,
+            description: "The ID of the session",
+            schema: {
+              type: "string",
+            },
+          },
+        ],
+        responses: {
+          "200": {
+            description: "The revoked session",
+            content: {
+              "application/json": {
+                schema: {
+                  $ref: "#/components/schemas/IdResponse",
+                },
+              },
+            },
+          },
+          default: {
+            description: "Unexpected error",
+            content: {
+              "application/json": {
+                schema: {
+                  $ref: "#/components/schemas/InternalServerErrorResponse",
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    "/v1/users": {
+      post: {
+        summary: "Create a user (without signing them in)",
+        security: [{ BasicAuth: [] }, { BearerAuth: [] }],
+        operationId: "createUser",
+        tags: ["Users"],
+        requestBody: {
+          description: "The user's credentials",
+          required: true,
+          content: {
+            "application/json": {
+              schema: {
+                $ref: "#/components/schemas/CredentialsBody",
+              },
+            },
+          },
+        },
+        responses: {
+          "200": {
+            description: "The new user",
+            content: {
+              "application/json": {
+                schema: {
+                  $ref: "#/components/schemas/UserResponse",
+                },
+              },
+            },
+          },
+          default: {
+            description: "Unexpected error",
+            content: {
+              "application/json": {
+                schema: {
+                  $ref: "#/components/schemas/InternalServerErrorResponse",
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    "/v1/users/{id}": {
+      get: {
+        summary: "Get a user",
+        security: [{ BasicAuth: [] }, { BearerAuth: [] }],
+        operationId: "getUser",
+        tags: ["Users"],
+        parameters: [
+          {
+            name: "id",
+            in: "path",
+            required: true,
+            description: "The ID of the user",
+            schema: {
+              type: "string",
+            },
+          },
+        ],
+        responses: {
+          "200": {
+            description: "The user",
+            content: {
+              "application/json": {
+                schema: {
+                  $ref: "#/components/schemas/UserResponse",
+                },
+              },
+            },
+          },
+          default: {
+            description: "Unexpected error",
+            content: {
+              "application/json": {
+                schema: {
+                  $ref: "#/components/schemas/InternalServerErrorResponse",
+                },
+              },
+            },
+          },
+        },
+      },
+      delete: {
+        summary: "Delete a user and all of their sessions",
+        security: [{ BasicAuth: [] }, { BearerAuth: [] }],
+        operationId: "deleteUser",
+        tags: ["Users"],
+        parameters: [
+          {
+            name: "id",
+            in: "path",
+            required: true,
+            description: "The ID of the user",
+            schema: {
+              type: "string",
+            },
+          },
+        ],
+        responses: {
+          "200": {
+            description: "The deleted user",
+            content: {
+              "application/json": {
+                schema: {
+                  $ref: "#/components/schemas/IdResponse",
+                },
+              },
+            },
+          },
+          default: {
+            description: "Unexpected error",
+            content: {
+              "application/json": {
+                schema: {
+                  $ref: "#/components/schemas/InternalServerErrorResponse",
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    "/v1/users/{id}/sessions": {
+      get: {
+        summary: "Get a user's active sessions",
+        security: [{ BasicAuth: [] }, { BearerAuth: [] }],
+        operationId: "getUserSessions",
+        tags: ["Users"],
+        parameters: [
+          {
+            name: "id",
+            in: "path",
+            required: true,
+            description: "The ID of the user",
+            schema: {
+              type: "string",
+            },
+          },
+        ],
+        responses: {
+          "200": {
+            description: "The active sessions",
+            content: {
+              "application/json": {
+                schema: {
+                  $ref: "#/components/schemas/SessionsResponse",
+                },
+              },
+            },
+          },
+          default: {
+            description: "Unexpected error",
+            content: {
+              "application/json": {
+                schema: {
+                  $ref: "#/components/schemas/InternalServerErrorResponse",
+                },
+              },
+            },
+          },
+        },
+      },
+      delete: {
+        summary: "Revoke all of a user's sessions",
+        security: [{ BasicAuth: [] }, { BearerAuth: [] }],
+        operationId: "revokeUserSessions",
+        tags: ["Users"],
+        parameters: [
+          {
+            name: "id",
+            in: "path",
+            required: true,
+            description: "The ID of the user",
+            schema: {
+              type: "string",
+            },
+          },
+        ],
+        responses: {
+          "200": {
+            description: "The user",
+            content: {
+              "application/json": {
+                schema: {
+                  $ref: "#/components/schemas/IdResponse",
+                },
+              },
+            },
+          },
+          default: {
+            description: "Unexpected error",
+            content: {
+              "application/json": {
+                schema: {
+                  $ref: "#/components/schemas/InternalServerErrorResponse",
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    "/v1/admin/info": {
+      get: {
+        summary: "Get configuration information",
+        security: [{ BasicAuth: [] }, { BearerAuth: [] }],
+        operationId: "adminInfo",
+        tags: ["Admin"],
+        responses: {
+          "200": {
+            description: "The current configuration",
+            content: {
+              "application/json": {
+                schema: {
+                  $ref: "#/components/schemas/AdminInfoResponse",
+                },
+              },
+            },
+          },
+          default: {
+            description: "Unexpected error",
+            content: {
+              "application/json": {
+                schema: {
+                  $ref: "#/components/schemas/InternalServerErrorResponse",
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    "/v1/admin/migrate": {
+      post: {
+        summary: "Run database migrations",
+        security: [{ BasicAuth: [] }, { BearerAuth: [] }],
+        operationId: "adminMigrate",
+        tags: ["Admin"],
+        responses: {
+          "200": {
+            description: "The successfully run migrations",
+            content: {
+              "application/json": {
+                schema: {
+                  $ref: "#/components/schemas/AdminMigrateResponse",
+                },
+              },
+            },
+          },
+          default: {
+            description: "Unexpected error",
+            content: {
+              "application/json": {
+                schema: {
+                  $ref: "#/components/schemas/InternalServerErrorResponse",
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    "/.well-known/jwks.json": {
+      get: {
+        summary: "Get the JSON Web Key Set used to sign access tokens",
+        security: [],
+        operationId: "jwks",
+        tags: ["Public"],
+        responses: {
+          "200": {
+            description: "The JSON Web Key Set",
+            content: {
+              "application/json": {
+                schema: {
+                  $ref: "#/components/schemas/JwksResponse",
+                },
+              },
+            },
+          },
+          default: {
+            description: "Unexpected error",
+            content: {
+              "application/json": {
+                schema: {
+                  $ref: "#/components/schemas/InternalServerErrorResponse",
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    "/health": {
+      get: {
+        summary: "Get service health",
+        security: [],
+        operationId: "health",
+        tags: ["Public"],
+        responses: {
+          "200": {
+            description: "The service health status",
+            content: {
+              "application/json": {
+                schema: {
+                  $ref: "#/components/schemas/PublicHealthResponse",
+                },
+              },
+            },
+          },
+          default: {
+            description: "Unexpected error",
+            content: {
+              "application/json": {
+                schema: {
+                  $ref: "#/components/schemas/InternalServerErrorResponse",
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+  },
+  components: {
+    securitySchemes: {
+      BasicAuth: {
+        type: "http",
+        scheme: "basic",
+      },
+      BearerAuth: {
+        type: "http",
+        scheme: "bearer",
+      },
+    },
+    schemas: {
+      CredentialsBody: {
+        required: ["email", "password"],
+        properties: {
+          email: {
+            type: "string",
+            format: "email",
+            example: "test@example.com",
+          },
+          password: {
+            type: "string",
+            minLength: 8,
+            example: "password",
+          },
+        },
+      },
+      RefreshTokenBody: {
+        required: ["refreshToken"],
+        properties: {
+          refreshToken: {
+            type: "string",
+          },
+        },
+      },
+      ChangePasswordBody: {
+        required: ["password", "newPassword"],
+        properties: {
+          password: {
+            type: "string",
+          },
+          newPassword: {
+            type: "string",
+            minLength: 8,
+          },
+        },
+      },
+      TokensResponse: {
+        properties: {
+          status: {
+            type: "integer",
+            format: "int32",
+            example: 200,
+          },
+          success: {
+            type: "boolean",
+            example: true,
+          },
+          data: {
+            type: "object",
+            properties: {
+              user: {
+                type: "object",
+                properties: {
+                  id: {
+                    type: "string",
+                    example: "7b1a1d6e-3c3b-4a3e-9c1a-1a2b3c4d5e6f",
+                  },
+                  email: {
+                    type: "string",
+                    example: "test@example.com",
+                  },
+                  createdAt: {
+                    type: "string",
+                    format: "date-time",
+                  },
+                  updatedAt: {
+                    type: "string",
+                    format: "date-time",
+                  },
+                },
+              },
+              accessToken: {
+                type: "string",
+              },
+              refreshToken: {
+                type: "string",
+              },
+              expiresIn: {
+                type: "integer",
+                format: "int32",
+                example: 900,
+              },
+            },
+          },
+        },
+      },
+      UserResponse: {
+        properties: {
+          status: {
+            type: "integer",
+            format: "int32",
+            example: 200,
+          },
+          success: {
+            type: "boolean",
+            example: true,
+          },
+          data: {
+            type: "object",
+            properties: {
+              id: {
+                type: "string",
+                example: "7b1a1d6e-3c3b-4a3e-9c1a-1a2b3c4d5e6f",
+              },
+              email: {
+                type: "string",
+                example: "test@example.com",
+              },
+              createdAt: {
+                type: "string",
+                format: "date-time",
+              },
+              updatedAt: {
+                type: "string",
+                format: "date-time",
+              },
+            },
+          },
+        },
+      },
+      SessionsResponse: {
+        properties: {
+          status: {
+            type: "integer",
+            format: "int32",
+            example: 200,
+          },
+          success: {
+            type: "boolean",
+            example: true,
+          },
+          data: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: {
+                id: {
+                  type: "string",
+                  example: "0f8fad5b-d9cb-469f-a165-70867728950e",
+                },
+                userId: {
+                  type: "string",
+                  example: "7b1a1d6e-3c3b-4a3e-9c1a-1a2b3c4d5e6f",
+                },
+                expiresAt: {
+                  type: "string",
+                  format: "date-time",
+                },
+                revokedAt: {
+                  type: "string",
+                  format: "date-time",
+                  nullable: true,
+                },
+                createdAt: {
+                  type: "string",
+                  format: "date-time",
+                },
+                updatedAt: {
+                  type: "string",
+                  format: "date-time",
+                },
+              },
+            },
+          },
+        },
+      },
+      IdResponse: {
+        properties: {
+          status: {
+            type: "integer",
+            format: "int32",
+            example: 200,
+          },
+          success: {
+            type: "boolean",
+            example: true,
+          },
+          data: {
+            type: "object",
+            properties: {
+              id: {
+                type: "string",
+                example: "7b1a1d6e-3c3b-4a3e-9c1a-1a2b3c4d5e6f",
+              },
+            },
+          },
+        },
+      },
+      BooleanResponse: {
+        properties: {
+          status: {
+            type: "integer",
+            format: "int32",
+            example: 200,
+          },
+          success: {
+            type: "boolean",
+            example: true,
+          },
+          data: {
+            type: "boolean",
+            example: true,
+          },
+        },
+      },
+      JwksResponse: {
+        properties: {
+          keys: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: {
+                kty: {
+                  type: "string",
+                  example: "EC",
+                },
+                crv: {
+                  type: "string",
+                  example: "P-256",
+                },
+                x: {
+                  type: "string",
+                },
+                y: {
+                  type: "string",
+                },
+                kid: {
+                  type: "string",
+                },
+                alg: {
+                  type: "string",
+                  example: "ES256",
+                },
+                use: {
+                  type: "string",
+                  example: "sig",
+                },
+              },
+            },
+          },
+        },
+      },
+      AdminInfoResponse: {
+        properties: {
+          status: {
+            type: "integer",
+            format: "int32",
+            example: 200,
+          },
+          success: {
+            type: "boolean",
+            example: true,
+          },
+          data: {
+            type: "object",
+          },
+        },
+      },
+      AdminMigrateResponse: {
+        properties: {
+          status: {
+            type: "integer",
+            format: "int32",
+            example: 200,
+          },
+          success: {
+            type: "boolean",
+            example: true,
+          },
+          data: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: {
+                migrationName: {
+                  type: "string",
+                  example: "1688823193041_add_initial_tables_and_indexes",
+                },
+                direction: {
+                  type: "string",
+                  example: "Up",
+                },
+                status: {
+                  type: "string",
+                  example: "Success",
+                },
+              },
+            },
+          },
+        },
+      },
+      PublicHealthResponse: {
+        properties: {
+          status: {
+            type: "integer",
+            format: "int32",
+            example: 200,
+          },
+          success: {
+            type: "boolean",
+            example: true,
+          },
+          data: {
+            type: "string",
+            example: "OK",
+          },
+        },
+      },
+      InternalServerErrorResponse: {
+        type: "object",
+        required: ["status", "success", "data", "error"],
+        properties: {
+          status: {
+            type: "integer",
+            format: "int32",
+            example: 500,
+          },
+          success: {
+            type: "boolean",
+            example: false,
+          },
+          data: {
+            type: "object",
+            example: null,
+          },
+          error: {
+            type: "string",
+            example: "Internal server error",
+          },
+        },
+      },
+    },
+  },
+};
@@ -0,0 +1,138 @@
+// PBKDF2 is available in every runtime via WebCrypto, and Cloudflare Workers
+// cap the number of iterations at 100,000
+const PASSWORD_HASH_ITERATIONS = 100_000;
+
+const encoder = new TextEncoder();
+
+function toBase64(bytes: Uint8Array) {
+  return btoa(String.fromCharCode(...bytes));
+}
+
+function fromBase64(value: string) {
+  return Uint8Array.from(atob(value), (char) => char.charCodeAt(0));
+}
+
+function toBase64Url(bytes: Uint8Array) {
+  return toBase64(bytes)
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+function toHex(buffer: ArrayBuffer) {
+  return Array.from(new Uint8Array(buffer))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+// Compares every character so that the time taken doesn't leak how much of the
+// string matched
+function timingSafeEqual(a: string, b: string) {
+  if (a.length !== b.length) {
+    return false;
+  }
+
+  let result = 0;
+
+  for (let i = 0; i < a.length; i++) {
+    result |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+
+  return result === 0;
+}
+
+async function derivePasswordHash(
+  password: string,
+  salt: Uint8Array,
+  iterations: number,
+) {
+  const key = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(password),
+    "PBKDF2",
+    false,
+    ["deriveBits"],
+  );
+  const bits = await crypto.subtle.deriveBits(
+    { name: "PBKDF2", hash: "SHA-256", salt, iterations },
+    key,
+    256,
+  );
+
+  return new Uint8Array(bits);
+}
+
+// Hashes are stored as `pbkdf2$sha256$<iterations>$<salt>$<hash>` so that the
+// number of iterations can be increased later without breaking existing users
+export async function hashPassword(password: string) {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const hash = await derivePasswordHash(
+    password,
+    salt,
+    PASSWORD_HASH_ITERATIONS,
+  );
+
+  return [
+    "pbkdf2",
+    "sha256",
+    PASSWORD_HASH_ITERATIONS,
+    toBase64(salt),
+    toBase64(hash),
+  ].join("$");
+}
+
+export async function verifyPassword(password: string, passwordHash: string) {
+  const [algorithm, digest, iterations, salt, hash] = passwordHash.split("$");
+
+  if (
+    algorithm !== "pbkdf2" ||
+    digest !== "sha256" ||
+    !iterations ||
+    !salt ||
+    !hash
+  ) {
+    return false;
+  }
+
+  const derivedHash = await derivePasswordHash(
+    password,
+    fromBase64(salt),
+    parseInt(iterations, 10),
+  );
+
+  return timingSafeEqual(toBase64(derivedHash), hash);
+}
+
+// Refresh tokens are `<session id>.<secret>`, and only a hash of the secret is
+// ever stored
+export function createRefreshTokenSecret() {
+  return toBase64Url(crypto.getRandomValues(new Uint8Array(32)));
+}
+
+export function formatRefreshToken(sessionId: string, secret: string) {
+  return `${sessionId}.${secret}`;
+}
+
+export function parseRefreshToken(refreshToken: string) {
+  const [sessionId, secret] = refreshToken.split(".");
+
+  if (!sessionId || !secret) {
+    return null;
+  }
+
+  return { sessionId, secret };
+}
+
+export async function hashRefreshTokenSecret(secret: string) {
+  return toHex(await crypto.subtle.digest("SHA-256", encoder.encode(secret)));
+}
+
+export async function verifyRefreshTokenSecret(
+  secret: string,
+  refreshTokenHash: string,
+) {
+  return timingSafeEqual(
+    await hashRefreshTokenSecret(secret),
+    refreshTokenHash,
+  );
+}
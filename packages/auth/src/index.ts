@@ -0,0 +1,13 @@
+import { type ServerOptionsOptional, createAuthServer } from "./server.js";
+import { type Session, type User } from "./storage/index.js";
+import { type RuntimeResolver } from "./types.js";
+
+export default createAuthServer;
+export {
+  createAuthServer,
+  createAuthServer as auth,
+  type ServerOptionsOptional as ServerOptions,
+  type RuntimeResolver,
+  type Session,
+  type User,
+};
@@ -0,0 +1,70 @@
+import { generateOpenApiSpec } from "@workertown/internal-open-api";
+import { createRouter } from "@workertown/internal-server";
+
+import { OPEN_API_SPEC } from "../constants.js";
+import { getJwks } from "../tokens.js";
+import { type Context } from "../types.js";
+
+const CORS_HEADERS = {
+  "access-control-allow-origin": "*",
+  "access-control-allow-methods": "GET, OPTIONS",
+  "access-control-allow-private-network": "true",
+};
+
+const router = createRouter<Context>({ public: true });
+
+router.options("/open-api.json", (ctx) =>
+  ctx.text("OK", {
+    headers: CORS_HEADERS,
+  }),
+);
+
+router.get("/open-api.json", (ctx) => {
+  const { basePath = "/", endpoints } = ctx.get("config");
+  const url = new URL(ctx.req.url);
+  const replacementPaths: Record<string, string | false> = {
+    "/v1/auth": endpoints.v1.auth,
+    "/v1/users": endpoints.v1.users,
+    "/v1/admin": endpoints.v1.admin,
+    "/.well-known/jwks.json": endpoints.public
+      ? `${
+          endpoints.public === "/" ? "" : endpoints.public
+        }/.well-known/jwks.json`
+      : false,
+    "/health": endpoints.public
+      ? `${endpoints.public === "/" ? "" : endpoints.public}/health`
+      : false,
+  };
+  const spec = generateOpenApiSpec(OPEN_API_SPEC, {
+    basePath,
+    urls: [`${url.protocol}//${url.host}`],
+    endpoints: replacementPaths,
+  });
+
+  return ctx.json(spec, {
+    headers: CORS_HEADERS,
+  });
+});
+
+router.options("/.well-known/jwks.json", (ctx) =>
+  ctx.text("OK", {
+    headers: CORS_HEADERS,
+  }),
+);
+
+// The other Workertown services can point `AUTH_JWKS` (or their own
+// `<SERVICE>_JWKS_URL`) at this endpoint to verify the issued access tokens
+router.get("/.well-known/jwks.json", async (ctx) => {
+  const storage = ctx.get("storage");
+  const jwks = await getJwks(storage);
+
+  return ctx.json(jwks, {
+    headers: CORS_HEADERS,
+  });
+});
+
+router.get("/health", async (ctx) =>
+  ctx.json({ status: 200, success: true, data: "OK" }),
+);
+
+export { router };
@@ -0,0 +1,393 @@
+import { createRouter, validate } from "@workertown/internal-server";
+import { z } from "zod";
+
+import {
+  createRefreshTokenSecret,
+  formatRefreshToken,
+  hashPassword,
+  hashRefreshTokenSecret,
+  parseRefreshToken,
+  verifyPassword,
+  verifyRefreshTokenSecret,
+} from "../../crypto.js";
+import { type User } from "../../storage/index.js";
+import { createAccessToken, verifyAccessToken } from "../../tokens.js";
+import { type Context } from "../../types.js";
+
+// These routes are called by end users rather than other services, so they
+// authenticate via the credentials in the request instead of `auth`
+const router = createRouter<Context>({ public: true });
+
+const INVALID_CREDENTIALS = {
+  status: 401,
+  success: false,
+  data: null,
+  error: "Invalid credentials",
+};
+
+const INVALID_REFRESH_TOKEN = {
+  status: 401,
+  success: false,
+  data: null,
+  error: "Invalid refresh token",
+};
+
+const USER_ALREADY_EXISTS = {
+  status: 409,
+  success: false,
+  data: null,
+  error: "User already exists",
+};
+
+const SIGN_UP_DISABLED = {
+  status: 403,
+  success: false,
+  data: null,
+  error: "Sign up is disabled",
+};
+
+const UNAUTHORIZED = {
+  status: 401,
+  success: false,
+  data: null,
+  error: "Unauthorized",
+};
+
+async function createSession(
+  storage: Context["storage"],
+  config: Context["config"],
+  user: User,
+) {
+  const secret = createRefreshTokenSecret();
+  const session = await storage.createSession({
+    userId: user.id,
+    refreshTokenHash: await hashRefreshTokenSecret(secret),
+    expiresAt: new Date(Date.now() + config.tokens.refreshTokenTtl * 1000),
+  });
+
+  return {
+    user,
+    accessToken: await createAccessToken(storage, config.tokens, user, session),
+    refreshToken: formatRefreshToken(session.id, secret),
+    expiresIn: config.tokens.accessTokenTtl,
+  };
+}
+
+// Resolves the session for the access token in the `Authorization` header,
+// making sure that it hasn't been revoked since the token was issued
+async function getCurrentSession(
+  storage: Context["storage"],
+  config: Context["config"],
+  authHeader?: string,
+) {
+  const [type, accessToken] = authHeader?.split(" ") ?? [];
+
+  if (type !== "Bearer" || !accessToken) {
+    return null;
+  }
+
+  const payload = await verifyAccessToken(storage, config.tokens, accessToken);
+
+  if (!payload) {
+    return null;
+  }
+
+  const session = await storage.getSession(payload.sid);
+
+  if (!session || session.revokedAt || session.userId !== payload.sub) {
+    return null;
+  }
+
+  return session;
+}
+
+const credentialsBodySchema = z.object({
+  email: z
+    .string()
+    .email()
+    .transform((val) => val.toLowerCase()),
+  password: z.string().min(8).max(256),
+});
+
+router.post(
+  "/sign-up",
+  validate("json", credentialsBodySchema),
+  async (ctx) => {
+    const config = ctx.get("config");
+    const storage = ctx.get("storage");
+    const { email, password } = ctx.req.valid("json" as never) as z.infer<
+      typeof credentialsBodySchema
+    >;
+    const signUp =
+      typeof config.signUp === "function"
+        ? await config.signUp(ctx.req as unknown as Request)
+        : config.signUp;
+
+    if (!signUp) {
+      return ctx.json(SIGN_UP_DISABLED, 403);
+    }
+
+    if (await storage.getUserByEmail(email)) {
+      return ctx.json(USER_ALREADY_EXISTS, 409);
+    }
+
+    let user: User;
+
+    try {
+      user = await storage.createUser({
+        email,
+        passwordHash: await hashPassword(password),
+      });
+    } catch (error) {
+      // The same email may have signed up concurrently, in which case the
+      // unique constraint on it stops the second user from being created
+      if (await storage.getUserByEmail(email)) {
+        return ctx.json(USER_ALREADY_EXISTS, 409);
+      }
+
+      throw error;
+    }
+
+    return ctx.json({
+      status: 200,
+      success: true,
+      data: await createSession(storage, config, user),
+    });
+  },
+);
+
+router.post(
+  "/sign-in",
+  validate("json", credentialsBodySchema),
+  async (ctx) => {
+    const config = ctx.get("config");
+    const storage = ctx.get("storage");
+    const { email, password } = ctx.req.valid("json" as never) as z.infer<
+      typeof credentialsBodySchema
+    >;
+    const userWithPassword = await storage.getUserByEmail(email);
+
+    if (
+      !userWithPassword ||
+      !(await verifyPassword(password, userWithPassword.passwordHash))
+    ) {
+      return ctx.json(INVALID_CREDENTIALS, 401);
+    }
+
+    const { passwordHash: _, ...user } = userWithPassword;
+
+    return ctx.json({
+      status: 200,
+      success: true,
+      data: await createSession(storage, config, user),
+    });
+  },
+);
+
+const refreshTokenBodySchema = z.object({
+  refreshToken: z.string(),
+});
+
+router.post(
+  "/refresh",
+  validate("json", refreshTokenBodySchema),
+  async (ctx) => {
+    const config = ctx.get("config");
+    const storage = ctx.get("storage");
+    const { refreshToken } = ctx.req.valid("json" as never) as z.infer<
+      typeof refreshTokenBodySchema
+    >;
+    const parsed = parseRefreshToken(refreshToken);
+    const session = parsed ? await storage.getSession(parsed.sessionId) : null;
+
+    if (
+      !parsed ||
+      !session ||
+      session.revokedAt ||
+      session.expiresAt.getTime() <= Date.now()
+    ) {
+      return ctx.json(INVALID_REFRESH_TOKEN, 401);
+    }
+
+    // Refresh tokens are rotated on every use, so seeing an old one again means
+    // that it has leaked and the whole session can no longer be trusted
+    if (
+      !(await verifyRefreshTokenSecret(parsed.secret, session.refreshTokenHash))
+    ) {
+      await storage.revokeSession(session.id);
+
+      return ctx.json(INVALID_REFRESH_TOKEN, 401);
+    }
+
+    const user = await storage.getUser(session.userId);
+
+    if (!user) {
+      return ctx.json(INVALID_REFRESH_TOKEN, 401);
+    }
+
+    const secret = createRefreshTokenSecret();
+    const rotated = await storage.updateSession(
+      session.id,
+      session.refreshTokenHash,
+      {
+        refreshTokenHash: await hashRefreshTokenSecret(secret),
+        expiresAt: new Date(Date.now() + config.tokens.refreshTokenTtl * 1000),
+      },
+    );
+
+    // Another request rotated the refresh token first, so it was used twice
+    if (!rotated) {
+      await storage.revokeSession(session.id);
+
+      return ctx.json(INVALID_REFRESH_TOKEN, 401);
+    }
+
+    return ctx.json({
+      status: 200,
+      success: true,
+      data: {
+        user,
+        accessToken: await createAccessToken(
+          storage,
+          config.tokens,
+          user,
+          session,
+        ),
+        refreshToken: formatRefreshToken(session.id, secret),
+        expiresIn: config.tokens.accessTokenTtl,
+      },
+    });
+  },
+);
+
+router.post(
+  "/sign-out",
+  validate("json", refreshTokenBodySchema),
+  async (ctx) => {
+    const storage = ctx.get("storage");
+    const { refreshToken } = ctx.req.valid("json" as never) as z.infer<
+      typeof refreshTokenBodySchema
+    >;
+    const parsed = parseRefreshToken(refreshToken);
+    const session = parsed ? await storage.getSession(parsed.sessionId) : null;
+
+    if (
+      parsed &&
+      session &&
+      (await verifyRefreshTokenSecret(parsed.secret, session.refreshTokenHash))
+    ) {
+      await storage.revokeSession(session.id);
+    }
+
+    return ctx.json({ status: 200, success: true, data: true });
+  },
+);
+
+router.get("/user", async (ctx) => {
+  const config = ctx.get("config");
+  const storage = ctx.get("storage");
+  const session = await getCurrentSession(
+    storage,
+    config,
+    ctx.req.header("Authorization"),
+  );
+  const user = session ? await storage.getUser(session.userId) : null;
+
+  if (!user) {
+    return ctx.json(UNAUTHORIZED, 401);
+  }
+
+  return ctx.json({ status: 200, success: true, data: user });
+});
+
+const changePasswordBodySchema = z.object({
+  password: z.string(),
+  newPassword: z.string().min(8).max(256),
+});
+
+router.put(
+  "/user/password",
+  validate("json", changePasswordBodySchema),
+  async (ctx) => {
+    const config = ctx.get("config");
+    const storage = ctx.get("storage");
+    const { password, newPassword } = ctx.req.valid("json" as never) as z.infer<
+      typeof changePasswordBodySchema
+    >;
+    const session = await getCurrentSession(
+      storage,
+      config,
+      ctx.req.header("Authorization"),
+    );
+    const user = session ? await storage.getUser(session.userId) : null;
+
+    if (!session || !user) {
+      return ctx.json(UNAUTHORIZED, 401);
+    }
+
+    const userWithPassword = await storage.getUserByEmail(user.email);
+
+    if (
+      !userWithPassword ||
+      !(await verifyPassword(password, userWithPassword.passwordHash))
+    ) {
+      return ctx.json(INVALID_CREDENTIALS, 401);
+    }
+
+    await storage.updateUserPassword(user.id, await hashPassword(newPassword));
+
+    // Every other session is signed out, as they may belong to whoever knew the
+    // old password
+    for (const userSession of await storage.getUserSessions(user.id)) {
+      if (userSession.id !== session.id) {
+        await storage.revokeSession(userSession.id);
+      }
+    }
+
+    return ctx.json({ status: 200, success: true, data: true });
+  },
+);
+
+router.get("/sessions", async (ctx) => {
+  const config = ctx.get("config");
+  const storage = ctx.get("storage");
+  const session = await getCurrentSession(
+    storage,
+    config,
+    ctx.req.header("Authorization"),
+  );
+
+  if (!session) {
+    return ctx.json(UNAUTHORIZED, 401);
+  }
+
+  const sessions = await storage.getUserSessions(session.userId);
+
+  return ctx.json({ status: 200, success: true, data: sessions });
+});
+
+router.delete("/sessions/:id", async (ctx) => {
+  const config = ctx.get("config");
+  const storage = ctx.get("storage");
+  const id = ctx.req.param("id");
+  const session = await getCurrentSession(
+    storage,
+    config,
+    ctx.req.header("Authorization"),
+  );
+
+  if (!session) {
+    return ctx.json(UNAUTHORIZED, 401);
+  }
+
+  const sessionToRevoke = await storage.getSession(id);
+
+  // Users can only revoke their own sessions
+  if (sessionToRevoke?.userId === session.userId) {
+    await storage.revokeSession(id);
+  }
+
+  return ctx.json({ status: 200, success: true, data: { id } });
+});
+
+export { router };
@@ -0,0 +1,5 @@
+import { router as adminRouter } from "./admin.js";
+import { router as authRouter } from "./auth.js";
+import { router as usersRouter } from "./users.js";
+
+export { adminRouter, authRouter, usersRouter };
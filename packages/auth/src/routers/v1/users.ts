@@ -0,0 +1,91 @@
+import { createRouter, validate } from "@workertown/internal-server";
+import { z } from "zod";
+
+import { hashPassword } from "../../crypto.js";
+import { type User } from "../../storage/index.js";
+import { type Context } from "../../types.js";
+
+const router = createRouter<Context>();
+
+const USER_ALREADY_EXISTS = {
+  status: 409,
+  success: false,
+  data: null,
+  error: "User already exists",
+};
+
+const createUserBodySchema = z.object({
+  email: z
+    .string()
+    .email()
+    .transform((val) => val.toLowerCase()),
+  password: z.string().min(8).max(256),
+});
+
+// Lets users be created when `signUp` is disabled, without signing them in
+router.post("/", validate("json", createUserBodySchema), async (ctx) => {
+  const storage = ctx.get("storage");
+  const { email, password } = ctx.req.valid("json" as never) as z.infer<
+    typeof createUserBodySchema
+  >;
+
+  if (await storage.getUserByEmail(email)) {
+    return ctx.json(USER_ALREADY_EXISTS, 409);
+  }
+
+  let user: User;
+
+  try {
+    user = await storage.createUser({
+      email,
+      passwordHash: await hashPassword(password),
+    });
+  } catch (error) {
+    // The unique constraint on the email stops concurrent requests from
+    // creating the same user twice
+    if (await storage.getUserByEmail(email)) {
+      return ctx.json(USER_ALREADY_EXISTS, 409);
+    }
+
+    throw error;
+  }
+
+  return ctx.json({ status: 200, success: true, data: user });
+});
+
+router.get("/:id", async (ctx) => {
+  const storage = ctx.get("storage");
+  const user = await storage.getUser(ctx.req.param("id"));
+  const status = user ? 200 : 404;
+
+  return ctx.json({ status, success: true, data: user }, status);
+});
+
+router.delete("/:id", async (ctx) => {
+  const storage = ctx.get("storage");
+  const id = ctx.req.param("id");
+
+  await storage.deleteUser(id);
+
+  return ctx.json({ status: 200, success: true, data: { id } });
+});
+
+router.get("/:id/sessions", async (ctx) => {
+  const storage = ctx.get("storage");
+  const sessions = await storage.getUserSessions(ctx.req.param("id"));
+
+  return ctx.json({ status: 200, success: true, data: sessions });
+});
+
+// Revoking every session stops the user's refresh tokens from working, but any
+// access tokens that have already been issued remain valid until they expire
+router.delete("/:id/sessions", async (ctx) => {
+  const storage = ctx.get("storage");
+  const id = ctx.req.param("id");
+
+  await storage.revokeUserSessions(id);
+
+  return ctx.json({ status: 200, success: true, data: { id } });
+});
+
+export { router };
@@ -0,0 +1,15 @@
+import { SqliteStorageAdapter } from "../storage/sqlite.js";
+import { type Runtime, type ServerOptions } from "../types.js";
+
+export function runtime(
+  config: ServerOptions,
+  env: Record<string, unknown>,
+): Runtime {
+  const db = env[config.env.db] as string;
+
+  return {
+    storage: new SqliteStorageAdapter(
+      db.endsWith(".sqlite") ? { db } : undefined,
+    ),
+  };
+}
@@ -0,0 +1,33 @@
+import { MemoryStorageAdapter } from "../storage/memory.js";
+import {
+  type SessionWithRefreshToken,
+  type SigningKey,
+  type UserWithPassword,
+} from "../storage/storage-adapter.js";
+import { type Runtime, type ServerOptions } from "../types.js";
+
+interface TestGetRuntimeOptions {
+  initialUsers: UserWithPassword[];
+  initialSessions: SessionWithRefreshToken[];
+  initialSigningKeys: SigningKey[];
+}
+
+export function runtime(
+  // biome-ignore lint/correctness/noUnusedVariables: not needed for this runtime
+  config: ServerOptions,
+  // biome-ignore lint/correctness/noUnusedVariables: not needed for this runtime
+  env: Record<string, unknown>,
+  options: TestGetRuntimeOptions = {
+    initialUsers: [],
+    initialSessions: [],
+    initialSigningKeys: [],
+  },
+): Runtime {
+  return {
+    storage: new MemoryStorageAdapter({
+      initialUsers: options.initialUsers,
+      initialSessions: options.initialSessions,
+      initialSigningKeys: options.initialSigningKeys,
+    }),
+  };
+}
@@ -0,0 +1,97 @@
+import { type Server, createServer } from "@workertown/internal-server";
+import { type DeepPartial } from "@workertown/internal-types";
+import merge from "lodash.merge";
+
+import { publicRouter, v1 } from "./routers/index.js";
+import { runtime as cloudflareWorkersRuntime } from "./runtime/cloudflare-workers.js";
+import { type StorageAdapter } from "./storage/storage-adapter.js";
+import { type Context, type ServerOptions } from "./types.js";
+
+export type ServerOptionsOptional = DeepPartial<ServerOptions>;
+
+const DEFAULT_OPTIONS: ServerOptions = {
+  auth: {
+    apiKey: {
+      env: {
+        apiKey: "AUTH_API_KEY",
+      },
+    },
+    basic: {
+      env: {
+        username: "AUTH_USERNAME",
+        password: "AUTH_PASSWORD",
+      },
+    },
+    jwt: {
+      env: {
+        jwksUrl: "AUTH_JWKS_URL",
+        secret: "AUTH_JWT_SECRET",
+        audience: "AUTH_JWT_AUDIENCE",
+        issuer: "AUTH_JWT_ISSUER",
+      },
+    },
+  },
+  endpoints: {
+    v1: {
+      admin: "/v1/admin",
+      auth: "/v1/auth",
+      users: "/v1/users",
+    },
+    public: "/",
+  },
+  env: {
+    db: "AUTH_DB",
+  },
+  signUp: true,
+  tokens: {
+    accessTokenTtl: 900,
+    refreshTokenTtl: 2592000,
+    audience: "workertown-auth",
+  },
+};
+
+export function createAuthServer(
+  options?: ServerOptionsOptional,
+): Server<Context> {
+  const config = merge({}, DEFAULT_OPTIONS, options);
+  const {
+    endpoints,
+    runtime = cloudflareWorkersRuntime,
+    ...baseConfig
+  } = config;
+
+  const server = createServer<Context>(baseConfig);
+  let storage: StorageAdapter;
+
+  server.use("*", async (ctx, next) => {
+    if (!storage) {
+      ({ storage } =
+        typeof runtime === "function"
+          ? runtime(config, ctx.env)
+          : runtime ?? cloudflareWorkersRuntime(config, ctx.env));
+    }
+
+    ctx.set("config", config);
+    ctx.set("storage", storage);
+
+    return next();
+  });
+
+  if (endpoints.v1.admin !== false) {
+    server.route(endpoints.v1.admin, v1.adminRouter);
+  }
+
+  if (endpoints.v1.auth !== false) {
+    server.route(endpoints.v1.auth, v1.authRouter);
+  }
+
+  if (endpoints.v1.users !== false) {
+    server.route(endpoints.v1.users, v1.usersRouter);
+  }
+
+  if (endpoints.public !== false) {
+    server.route(endpoints.public, publicRouter);
+  }
+
+  return server;
+}
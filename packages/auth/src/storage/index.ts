@@ -0,0 +1,25 @@
+import {
+  type CreateSessionBody,
+  type CreateSigningKeyBody,
+  type CreateUserBody,
+  type Session,
+  type SessionWithRefreshToken,
+  type SigningKey,
+  StorageAdapter,
+  type UpdateSessionBody,
+  type User,
+  type UserWithPassword,
+} from "./storage-adapter.js";
+
+export {
+  StorageAdapter,
+  type CreateSessionBody,
+  type CreateSigningKeyBody,
+  type CreateUserBody,
+  type Session,
+  type SessionWithRefreshToken,
+  type SigningKey,
+  type UpdateSessionBody,
+  type User,
+  type UserWithPassword,
+};
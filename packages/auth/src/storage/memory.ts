@@ -0,0 +1,209 @@
+import { MemoryStorageAdapter as BaseMemoryStorageAdapter } from "@workertown/internal-storage/memory";
+
+import {
+  type CreateSessionBody,
+  type CreateSigningKeyBody,
+  type CreateUserBody,
+  type Session,
+  type SessionWithRefreshToken,
+  type SigningKey,
+  type StorageAdapter,
+  type UpdateSessionBody,
+  type User,
+  type UserWithPassword,
+} from "./storage-adapter.js";
+
+interface MemoryStorageAdapterOptions {
+  initialUsers?: UserWithPassword[];
+  initialSessions?: SessionWithRefreshToken[];
+  initialSigningKeys?: SigningKey[];
+}
+
+function formatUser({ passwordHash: _, ...user }: UserWithPassword): User {
+  return user;
+}
+
+function formatSession({
+  refreshTokenHash: _,
+  ...session
+}: SessionWithRefreshToken): Session {
+  return session;
+}
+
+export class MemoryStorageAdapter
+  extends BaseMemoryStorageAdapter
+  implements StorageAdapter
+{
+  private readonly _userStore = new Map<string, UserWithPassword>();
+
+  private readonly _sessionStore = new Map<string, SessionWithRefreshToken>();
+
+  private readonly _signingKeyStore = new Map<string, SigningKey>();
+
+  constructor(options: MemoryStorageAdapterOptions = {}) {
+    super();
+
+    const {
+      initialUsers = [],
+      initialSessions = [],
+      initialSigningKeys = [],
+    } = options;
+
+    initialUsers.forEach((user) => {
+      this._userStore.set(user.id, { ...user });
+    });
+
+    initialSessions.forEach((session) => {
+      this._sessionStore.set(session.id, { ...session });
+    });
+
+    initialSigningKeys.forEach((key) => {
+      this._signingKeyStore.set(key.id, key);
+    });
+  }
+
+  async getUser(id: string) {
+    const user = this._userStore.get(id);
+
+    return user ? formatUser(user) : null;
+  }
+
+  async getUserByEmail(email: string) {
+    for (const user of this._userStore.values()) {
+      if (user.email === email) {
+        return { ...user };
+      }
+    }
+
+    return null;
+  }
+
+  async createUser(user: CreateUserBody) {
+    // Mirrors the unique constraint on the email in the other adapters
+    if (await this.getUserByEmail(user.email)) {
+      throw new Error(`User with email '${user.email}' already exists`);
+    }
+
+    const now = new Date();
+    const userRecord = {
+      id: crypto.randomUUID(),
+      email: user.email,
+      passwordHash: user.passwordHash,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    this._userStore.set(userRecord.id, userRecord);
+
+    return formatUser(userRecord);
+  }
+
+  async updateUserPassword(id: string, passwordHash: string) {
+    const user = this._userStore.get(id);
+
+    if (user) {
+      user.passwordHash = passwordHash;
+      user.updatedAt = new Date();
+    }
+  }
+
+  async deleteUser(id: string) {
+    for (const session of this._sessionStore.values()) {
+      if (session.userId === id) {
+        this._sessionStore.delete(session.id);
+      }
+    }
+
+    this._userStore.delete(id);
+  }
+
+  async getSession(id: string) {
+    const session = this._sessionStore.get(id);
+
+    return session ? { ...session } : null;
+  }
+
+  async getUserSessions(userId: string) {
+    const now = Date.now();
+
+    return Array.from(this._sessionStore.values())
+      .filter(
+        (session) =>
+          session.userId === userId &&
+          !session.revokedAt &&
+          session.expiresAt.getTime() > now,
+      )
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+      .map((session) => formatSession(session));
+  }
+
+  async createSession(session: CreateSessionBody) {
+    const now = new Date();
+    const sessionRecord = {
+      id: crypto.randomUUID(),
+      userId: session.userId,
+      refreshTokenHash: session.refreshTokenHash,
+      expiresAt: session.expiresAt,
+      revokedAt: null,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    this._sessionStore.set(sessionRecord.id, sessionRecord);
+
+    return formatSession(sessionRecord);
+  }
+
+  async updateSession(
+    id: string,
+    refreshTokenHash: string,
+    session: UpdateSessionBody,
+  ) {
+    const sessionRecord = this._sessionStore.get(id);
+
+    if (
+      !sessionRecord ||
+      sessionRecord.revokedAt ||
+      sessionRecord.refreshTokenHash !== refreshTokenHash
+    ) {
+      return false;
+    }
+
+    sessionRecord.refreshTokenHash = session.refreshTokenHash;
+    sessionRecord.expiresAt = session.expiresAt;
+    sessionRecord.updatedAt = new Date();
+
+    return true;
+  }
+
+  async revokeSession(id: string) {
+    const session = this._sessionStore.get(id);
+
+    if (session && !session.revokedAt) {
+      session.revokedAt = new Date();
+      session.updatedAt = session.revokedAt;
+    }
+  }
+
+  async revokeUserSessions(userId: string) {
+    for (const session of this._sessionStore.values()) {
+      if (session.userId === userId) {
+        await this.revokeSession(session.id);
+      }
+    }
+  }
+
+  async getSigningKeys() {
+    return Array.from(this._signingKeyStore.values()).sort(
+      (a, b) => b.createdAt.getTime() - a.createdAt.getTime(),
+    );
+  }
+
+  async createSigningKey(key: CreateSigningKeyBody) {
+    const keyRecord = { ...key, createdAt: new Date() };
+
+    this._signingKeyStore.set(keyRecord.id, keyRecord);
+
+    return keyRecord;
+  }
+}
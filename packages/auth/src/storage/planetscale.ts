@@ -0,0 +1,414 @@
+import {
+  type ColumnType,
+  type Migrations,
+  type Selectable,
+} from "@workertown/internal-storage";
+import { PlanetscaleStorageAdapter as BasePlanetscaleStorageAdapter } from "@workertown/internal-storage/planetscale";
+
+import {
+  type CreateSessionBody,
+  type CreateSigningKeyBody,
+  type CreateUserBody,
+  type Session,
+  type SessionWithRefreshToken,
+  type SigningKey,
+  type StorageAdapter,
+  type UpdateSessionBody,
+  type User,
+  type UserWithPassword,
+} from "./storage-adapter.js";
+
+interface UsersTable {
+  id: string;
+  email: string;
+  password_hash: string;
+  created_at: ColumnType<number, number, never>;
+  updated_at: ColumnType<number, number, number>;
+}
+
+type UserRow = Selectable<UsersTable>;
+
+interface SessionsTable {
+  id: string;
+  user_id: string;
+  refresh_token_hash: string;
+  expires_at: number;
+  revoked_at: number | null;
+  created_at: ColumnType<number, number, never>;
+  updated_at: ColumnType<number, number, number>;
+}
+
+type SessionRow = Selectable<SessionsTable>;
+
+interface SigningKeysTable {
+  id: string;
+  algorithm: string;
+  public_key: string;
+  private_key: string;
+  created_at: ColumnType<number, number, never>;
+}
+
+type SigningKeyRow = Selectable<SigningKeysTable>;
+
+export interface DatabaseSchema {
+  wt_auth_users: UsersTable;
+  wt_auth_sessions: SessionsTable;
+  wt_auth_signing_keys: SigningKeysTable;
+}
+
+const MIGRATIONS: Migrations = [
+  {
+    name: "1688823193041_add_initial_tables_and_indexes",
+    migration: {
+      async up(db) {
+        await db.schema
+          .createTable("wt_auth_users")
+          .ifNotExists()
+          .addColumn("id", "varchar(255)", (col) => col.notNull())
+          .addColumn("email", "varchar(255)", (col) => col.notNull())
+          .addColumn("password_hash", "text", (col) => col.notNull())
+          .addColumn("created_at", "bigint", (col) => col.notNull())
+          .addColumn("updated_at", "bigint", (col) => col.notNull())
+          .execute();
+
+        await db.schema
+          .createIndex("wt_auth_users_id_idx")
+          .unique()
+          .ifNotExists()
+          .on("wt_auth_users")
+          .columns(["id"])
+          .execute();
+
+        await db.schema
+          .createIndex("wt_auth_users_email_idx")
+          .unique()
+          .ifNotExists()
+          .on("wt_auth_users")
+          .columns(["email"])
+          .execute();
+
+        await db.schema
+          .createTable("wt_auth_sessions")
+          .ifNotExists()
+          .addColumn("id", "varchar(255)", (col) => col.notNull())
+          .addColumn("user_id", "varchar(255)", (col) => col.notNull())
+          .addColumn("refresh_token_hash", "text", (col) => col.notNull())
+          .addColumn("expires_at", "bigint", (col) => col.notNull())
+          .addColumn("revoked_at", "bigint")
+          .addColumn("created_at", "bigint", (col) => col.notNull())
+          .addColumn("updated_at", "bigint", (col) => col.notNull())
+          .execute();
+
+        await db.schema
+          .createIndex("wt_auth_sessions_id_idx")
+          .unique()
+          .ifNotExists()
+          .on("wt_auth_sessions")
+          .columns(["id"])
+          .execute();
+
+        await db.schema
+          .createIndex("wt_auth_sessions_user_id_idx")
+          .ifNotExists()
+          .on("wt_auth_sessions")
+          .columns(["user_id"])
+          .execute();
+
+        await db.schema
+          .createTable("wt_auth_signing_keys")
+          .ifNotExists()
+          .addColumn("id", "varchar(255)", (col) => col.notNull())
+          .addColumn("algorithm", "varchar(255)", (col) => col.notNull())
+          .addColumn("public_key", "text", (col) => col.notNull())
+          .addColumn("private_key", "text", (col) => col.notNull())
+          .addColumn("created_at", "bigint", (col) => col.notNull())
+          .execute();
+
+        await db.schema
+          .createIndex("wt_auth_signing_keys_id_idx")
+          .unique()
+          .ifNotExists()
+          .on("wt_auth_signing_keys")
+          .columns(["id"])
+          .execute();
+      },
+      async down(db) {
+        await db.schema
+          .dropIndex("wt_auth_signing_keys_id_idx")
+          .ifExists()
+          .execute();
+
+        await db.schema.dropTable("wt_auth_signing_keys").ifExists().execute();
+
+        await db.schema
+          .dropIndex("wt_auth_sessions_user_id_idx")
+          .ifExists()
+          .execute();
+
+        await db.schema
+          .dropIndex("wt_auth_sessions_id_idx")
+          .ifExists()
+          .execute();
+
+        await db.schema.dropTable("wt_auth_sessions").ifExists().execute();
+
+        await db.schema
+          .dropIndex("wt_auth_users_email_idx")
+          .ifExists()
+          .execute();
+
+        await db.schema.dropIndex("wt_auth_users_id_idx").ifExists().execute();
+
+        await db.schema.dropTable("wt_auth_users").ifExists().execute();
+      },
+    },
+  },
+];
+
+export class PlanetscaleStorageAdapter
+  extends BasePlanetscaleStorageAdapter<DatabaseSchema>
+  implements StorageAdapter
+{
+  public readonly migrations = MIGRATIONS;
+
+  public readonly migrationsPrefix = "wt_auth";
+
+  private _formatUser(user: UserRow): User {
+    return {
+      id: user.id,
+      email: user.email,
+      createdAt: new Date(Number(user.created_at)),
+      updatedAt: new Date(Number(user.updated_at)),
+    };
+  }
+
+  private _formatUserWithPassword(user: UserRow): UserWithPassword {
+    return { ...this._formatUser(user), passwordHash: user.password_hash };
+  }
+
+  private _formatSession(session: SessionRow): Session {
+    return {
+      id: session.id,
+      userId: session.user_id,
+      expiresAt: new Date(Number(session.expires_at)),
+      revokedAt: session.revoked_at
+        ? new Date(Number(session.revoked_at))
+        : null,
+      createdAt: new Date(Number(session.created_at)),
+      updatedAt: new Date(Number(session.updated_at)),
+    };
+  }
+
+  private _formatSessionWithRefreshToken(
+    session: SessionRow,
+  ): SessionWithRefreshToken {
+    return {
+      ...this._formatSession(session),
+      refreshTokenHash: session.refresh_token_hash,
+    };
+  }
+
+  private _formatSigningKey(key: SigningKeyRow): SigningKey {
+    return {
+      id: key.id,
+      algorithm: key.algorithm,
+      publicKey: JSON.parse(key.public_key),
+      privateKey: JSON.parse(key.private_key),
+      createdAt: new Date(Number(key.created_at)),
+    };
+  }
+
+  public async getUser(id: string) {
+    const record = await this.client
+      .selectFrom("wt_auth_users")
+      .selectAll()
+      .where("id", "=", id)
+      .executeTakeFirst();
+
+    if (!record) {
+      return null;
+    }
+
+    return this._formatUser(record);
+  }
+
+  public async getUserByEmail(email: string) {
+    const record = await this.client
+      .selectFrom("wt_auth_users")
+      .selectAll()
+      .where("email", "=", email)
+      .executeTakeFirst();
+
+    if (!record) {
+      return null;
+    }
+
+    return this._formatUserWithPassword(record);
+  }
+
+  public async createUser(user: CreateUserBody) {
+    const now = Date.now();
+    const id = crypto.randomUUID();
+
+    await this.client
+      .insertInto("wt_auth_users")
+      .values({
+        id,
+        email: user.email,
+        password_hash: user.passwordHash,
+        created_at: now,
+        updated_at: now,
+      })
+      .execute();
+
+    return {
+      id,
+      email: user.email,
+      createdAt: new Date(now),
+      updatedAt: new Date(now),
+    };
+  }
+
+  public async updateUserPassword(id: string, passwordHash: string) {
+    await this.client
+      .updateTable("wt_auth_users")
+      .set({ password_hash: passwordHash, updated_at: Date.now() })
+      .where("id", "=", id)
+      .execute();
+  }
+
+  public async deleteUser(id: string) {
+    await this.client
+      .deleteFrom("wt_auth_sessions")
+      .where("user_id", "=", id)
+      .execute();
+
+    await this.client
+      .deleteFrom("wt_auth_users")
+      .where("id", "=", id)
+      .execute();
+  }
+
+  public async getSession(id: string) {
+    const record = await this.client
+      .selectFrom("wt_auth_sessions")
+      .selectAll()
+      .where("id", "=", id)
+      .executeTakeFirst();
+
+    if (!record) {
+      return null;
+    }
+
+    return this._formatSessionWithRefreshToken(record);
+  }
+
+  public async getUserSessions(userId: string) {
+    const records = await this.client
+      .selectFrom("wt_auth_sessions")
+      .selectAll()
+      .where("user_id", "=", userId)
+      .where("revoked_at", "is", null)
+      .where("expires_at", ">", Date.now())
+      .orderBy("created_at", "asc")
+      .execute();
+
+    return records.map((record) => this._formatSession(record));
+  }
+
+  public async createSession(session: CreateSessionBody) {
+    const now = Date.now();
+    const id = crypto.randomUUID();
+
+    await this.client
+      .insertInto("wt_auth_sessions")
+      .values({
+        id,
+        user_id: session.userId,
+        refresh_token_hash: session.refreshTokenHash,
+        expires_at: session.expiresAt.getTime(),
+        revoked_at: null,
+        created_at: now,
+        updated_at: now,
+      })
+      .execute();
+
+    return {
+      id,
+      userId: session.userId,
+      expiresAt: session.expiresAt,
+      revokedAt: null,
+      createdAt: new Date(now),
+      updatedAt: new Date(now),
+    };
+  }
+
+  public async updateSession(
+    id: string,
+    refreshTokenHash: string,
+    session: UpdateSessionBody,
+  ) {
+    const result = await this.client
+      .updateTable("wt_auth_sessions")
+      .set({
+        refresh_token_hash: session.refreshTokenHash,
+        expires_at: session.expiresAt.getTime(),
+        updated_at: Date.now(),
+      })
+      .where("id", "=", id)
+      .where("refresh_token_hash", "=", refreshTokenHash)
+      .where("revoked_at", "is", null)
+      .executeTakeFirst();
+
+    return Number(result.numUpdatedRows) > 0;
+  }
+
+  public async revokeSession(id: string) {
+    const now = Date.now();
+
+    await this.client
+      .updateTable("wt_auth_sessions")
+      .set({ revoked_at: now, updated_at: now })
+      .where("id", "=", id)
+      .where("revoked_at", "is", null)
+      .execute();
+  }
+
+  public async revokeUserSessions(userId: string) {
+    const now = Date.now();
+
+    await this.client
+      .updateTable("wt_auth_sessions")
+      .set({ revoked_at: now, updated_at: now })
+      .where("user_id", "=", userId)
+      .where("revoked_at", "is", null)
+      .execute();
+  }
+
+  public async getSigningKeys() {
+    const records = await this.client
+      .selectFrom("wt_auth_signing_keys")
+      .selectAll()
+      .orderBy("created_at", "desc")
+      .execute();
+
+    return records.map((record) => this._formatSigningKey(record));
+  }
+
+  public async createSigningKey(key: CreateSigningKeyBody) {
+    const now = Date.now();
+
+    await this.client
+      .insertInto("wt_auth_signing_keys")
+      .values({
+        id: key.id,
+        algorithm: key.algorithm,
+        public_key: JSON.stringify(key.publicKey),
+        private_key: JSON.stringify(key.privateKey),
+        created_at: now,
+      })
+      .execute();
+
+    return { ...key, createdAt: new Date(now) };
+  }
+}
@@ -0,0 +1,141 @@
+import { StorageAdapter as BaseStorageAdapter } from "@workertown/internal-storage";
+
+export interface User {
+  id: string;
+  email: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface UserWithPassword extends User {
+  passwordHash: string;
+}
+
+export interface Session {
+  id: string;
+  userId: string;
+  expiresAt: Date;
+  revokedAt?: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface SessionWithRefreshToken extends Session {
+  refreshTokenHash: string;
+}
+
+export interface SigningKey {
+  id: string;
+  algorithm: string;
+  publicKey: Record<string, unknown>;
+  privateKey: Record<string, unknown>;
+  createdAt: Date;
+}
+
+export interface CreateUserBody {
+  email: string;
+  passwordHash: string;
+}
+
+export interface CreateSessionBody {
+  userId: string;
+  refreshTokenHash: string;
+  expiresAt: Date;
+}
+
+export interface UpdateSessionBody {
+  refreshTokenHash: string;
+  expiresAt: Date;
+}
+
+export interface CreateSigningKeyBody {
+  id: string;
+  algorithm: string;
+  publicKey: Record<string, unknown>;
+  privateKey: Record<string, unknown>;
+}
+
+export class StorageAdapter extends BaseStorageAdapter {
+  // biome-ignore lint/correctness/noUnusedVariables: Stub class
+  public async getUser(id: string): Promise<User | null> {
+    throw new Error("'getUser()' not implemented");
+  }
+
+  public async getUserByEmail(
+    // biome-ignore lint/correctness/noUnusedVariables: Stub class
+    email: string,
+  ): Promise<UserWithPassword | null> {
+    throw new Error("'getUserByEmail()' not implemented");
+  }
+
+  // biome-ignore lint/correctness/noUnusedVariables: Stub class
+  public async createUser(user: CreateUserBody): Promise<User> {
+    throw new Error("'createUser()' not implemented");
+  }
+
+  public async updateUserPassword(
+    // biome-ignore lint/correctness/noUnusedVariables: Stub class
+    id: string,
+    // biome-ignore lint/correctness/noUnusedVariables: Stub class
+    passwordHash: string,
+  ): Promise<void> {
+    throw new Error("'updateUserPassword()' not implemented");
+  }
+
+  // biome-ignore lint/correctness/noUnusedVariables: Stub class
+  public async deleteUser(id: string): Promise<void> {
+    throw new Error("'deleteUser()' not implemented");
+  }
+
+  public async getSession(
+    // biome-ignore lint/correctness/noUnusedVariables: Stub class
+    id: string,
+  ): Promise<SessionWithRefreshToken | null> {
+    throw new Error("'getSession()' not implemented");
+  }
+
+  // biome-ignore lint/correctness/noUnusedVariables: Stub class
+  public async getUserSessions(userId: string): Promise<Session[]> {
+    throw new Error("'getUserSessions()' not implemented");
+  }
+
+  // biome-ignore lint/correctness/noUnusedVariables: Stub class
+  public async createSession(session: CreateSessionBody): Promise<Session> {
+    throw new Error("'createSession()' not implemented");
+  }
+
+  // Only updates the session if its refresh token hasn't changed since it was
+  // read (and it hasn't been revoked), returning whether it did, so that each
+  // refresh token can only be used once
+  public async updateSession(
+    // biome-ignore lint/correctness/noUnusedVariables: Stub class
+    id: string,
+    // biome-ignore lint/correctness/noUnusedVariables: Stub class
+    refreshTokenHash: string,
+    // biome-ignore lint/correctness/noUnusedVariables: Stub class
+    session: UpdateSessionBody,
+  ): Promise<boolean> {
+    throw new Error("'updateSession()' not implemented");
+  }
+
+  // biome-ignore lint/correctness/noUnusedVariables: Stub class
+  public async revokeSession(id: string): Promise<void> {
+    throw new Error("'revokeSession()' not implemented");
+  }
+
+  // biome-ignore lint/correctness/noUnusedVariables: Stub class
+  public async revokeUserSessions(userId: string): Promise<void> {
+    throw new Error("'revokeUserSessions()' not implemented");
+  }
+
+  public async getSigningKeys(): Promise<SigningKey[]> {
+    throw new Error("'getSigningKeys()' not implemented");
+  }
+
+  public async createSigningKey(
+    // biome-ignore lint/correctness/noUnusedVariables: Stub class
+    key: CreateSigningKeyBody,
+  ): Promise<SigningKey> {
+    throw new Error("'createSigningKey()' not implemented");
+  }
+}
@@ -0,0 +1,136 @@
+import {
+  type JSONWebKeySet,
+  type JWTPayload,
+  SignJWT,
+  createLocalJWKSet,
+  exportJWK,
+  generateKeyPair,
+  importJWK,
+  jwtVerify,
+} from "jose";
+
+import {
+  type Session,
+  type SigningKey,
+  type StorageAdapter,
+  type User,
+} from "./storage/index.js";
+import { type ServerOptions } from "./types.js";
+
+// ES256 keys are small, fast to verify and supported by WebCrypto everywhere
+const SIGNING_ALGORITHM = "ES256";
+
+export interface AccessTokenPayload extends JWTPayload {
+  sub: string;
+  sid: string;
+  email: string;
+}
+
+// The signing keys that are being created, so that concurrent requests wait for
+// the same key rather than each creating one of their own
+const pendingSigningKeys = new WeakMap<StorageAdapter, Promise<SigningKey>>();
+
+async function createSigningKey(storage: StorageAdapter) {
+  const { publicKey, privateKey } = await generateKeyPair(SIGNING_ALGORITHM, {
+    extractable: true,
+  });
+  const key = await storage.createSigningKey({
+    id: crypto.randomUUID(),
+    algorithm: SIGNING_ALGORITHM,
+    publicKey: { ...(await exportJWK(publicKey)) },
+    privateKey: { ...(await exportJWK(privateKey)) },
+  });
+  // Another instance of the service may have created a key at the same time, so
+  // the key is read back to make sure that they all settle on the newest one
+  const [newestKey] = await storage.getSigningKeys();
+
+  return newestKey ?? key;
+}
+
+// The first signing key is generated on demand, so a fresh deployment works
+// without any keys having to be configured
+async function getSigningKey(storage: StorageAdapter) {
+  const [key] = await storage.getSigningKeys();
+
+  if (key) {
+    return key;
+  }
+
+  let pendingSigningKey = pendingSigningKeys.get(storage);
+
+  if (!pendingSigningKey) {
+    pendingSigningKey = createSigningKey(storage).finally(() => {
+      pendingSigningKeys.delete(storage);
+    });
+
+    pendingSigningKeys.set(storage, pendingSigningKey);
+  }
+
+  return pendingSigningKey;
+}
+
+export async function getJwks(storage: StorageAdapter): Promise<JSONWebKeySet> {
+  await getSigningKey(storage);
+
+  const keys = await storage.getSigningKeys();
+
+  return {
+    keys: keys.map((key) => ({
+      ...key.publicKey,
+      kid: key.id,
+      alg: key.algorithm,
+      use: "sig",
+    })),
+  };
+}
+
+export async function createAccessToken(
+  storage: StorageAdapter,
+  config: ServerOptions["tokens"],
+  user: User,
+  session: Session,
+) {
+  const key = await getSigningKey(storage);
+  const privateKey = await importJWK(key.privateKey, key.algorithm);
+  const token = new SignJWT({ sid: session.id, email: user.email })
+    .setProtectedHeader({ alg: key.algorithm, kid: key.id })
+    .setSubject(user.id)
+    .setIssuedAt()
+    .setExpirationTime(Math.floor(Date.now() / 1000) + config.accessTokenTtl);
+
+  if (config.issuer) {
+    token.setIssuer(config.issuer);
+  }
+
+  if (config.audience) {
+    token.setAudience(config.audience);
+  }
+
+  return token.sign(privateKey);
+}
+
+export async function verifyAccessToken(
+  storage: StorageAdapter,
+  config: ServerOptions["tokens"],
+  accessToken: string,
+) {
+  try {
+    const jwks = createLocalJWKSet(await getJwks(storage));
+    const { payload } = await jwtVerify(accessToken, jwks, {
+      issuer: config.issuer,
+      audience: config.audience,
+    });
+
+    if (
+      typeof payload.sub !== "string" ||
+      typeof payload.sid !== "string" ||
+      typeof payload.email !== "string"
+    ) {
+      return null;
+    }
+
+    return payload as AccessTokenPayload;
+  } catch (_) {
+    return null;
+  }
+}
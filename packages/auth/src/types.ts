@@ -0,0 +1,43 @@
+import { type ServerOptions as BaseServerOptions } from "@workertown/internal-server";
+
+import { type StorageAdapter } from "./storage/index.js";
+
+export interface ServerOptions extends BaseServerOptions {
+  endpoints: {
+    v1: {
+      admin: string | false;
+      auth: string | false;
+      users: string | false;
+    };
+    public: string | false;
+  };
+  env: {
+    db: string;
+  };
+  // Whether anyone can sign up, set this to `false` to only create users via
+  // `POST /v1/users` (or to a function to decide per request, e.g. for invites)
+  signUp: boolean | ((req: Request) => boolean | Promise<boolean>);
+  tokens: {
+    // Both TTLs are in seconds
+    accessTokenTtl: number;
+    refreshTokenTtl: number;
+    // Set these to match `AUTH_JWT_ISSUER`/`AUTH_JWT_AUDIENCE` in the services
+    // that verify the issued tokens
+    issuer?: string;
+    audience: string;
+  };
+  runtime?: RuntimeResolver;
+}
+
+export type Context = {
+  config: ServerOptions;
+  storage: StorageAdapter;
+};
+
+export interface Runtime {
+  storage: StorageAdapter;
+}
+
+export type RuntimeResolver =
+  | Runtime
+  | ((config: ServerOptions, env: Record<string, unknown>) => Runtime);
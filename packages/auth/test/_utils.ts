@@ -0,0 +1,56 @@
+import auth, { type ServerOptions } from "../src";
+import { runtime } from "../src/runtime/test";
+import { type UserWithPassword } from "../src/storage/storage-adapter";
+
+// The hash for "password", so that tests don't have to wait for it to be hashed
+const USERS: UserWithPassword[] = [
+  {
+    id: "user_1",
+    email: "test@example.com",
+    passwordHash:
+      "pbkdf2$sha256$100000$oXO0puHQ65Pq+SEgnMNtvw==$X6GXZR5bJan4RTJ+vd7FvBxoKnwR+2pmn8halnpY+r4=",
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  },
+];
+
+export function createTestService(
+  options: ServerOptions = {},
+  initialUsers: UserWithPassword[] = USERS,
+) {
+  return auth({
+    ...options,
+    auth: { apiKey: { apiKey: "test" } },
+    logger: false,
+
+    runtime: (config, env) =>
+      runtime(config, env, {
+        initialUsers,
+        initialSessions: [],
+        initialSigningKeys: [],
+      }),
+  });
+}
+
+export function makeRequest(
+  service: ReturnType<typeof auth>,
+  path: string,
+  {
+    method = "GET",
+    body,
+    token = "test",
+  }: {
+    method?: "GET" | "POST" | "PUT" | "DELETE";
+    body?: unknown;
+    token?: string;
+  } = {},
+) {
+  return service.request(path, {
+    method,
+    headers: {
+      Authorization: `Bearer ${token}`,
+      "Content-Type": "application/json",
+    },
+    body: body ? JSON.stringify(body) : undefined,
+  });
+}
@@ -0,0 +1,91 @@
+import test from "ava";
+
+import { ClientError, createAuthClient } from "../src/client";
+import { createTestService } from "./_utils";
+
+function createTestClient(service = createTestService()) {
+  return createAuthClient({ fetch: service.request, token: "test" });
+}
+
+test("client sign up, sign in, sign out", async (t) => {
+  const client = createTestClient();
+  const signedUp = await client.signUp("other@example.com", "password");
+
+  t.is(signedUp.user.email, "other@example.com");
+
+  const signedIn = await client.signIn("other@example.com", "password");
+
+  t.is(signedIn.user.id, signedUp.user.id);
+  t.true(await client.signOut(signedIn.refreshToken));
+
+  const error = await t.throwsAsync(client.refresh(signedIn.refreshToken), {
+    instanceOf: ClientError,
+  });
+
+  t.is(error?.status, 401);
+});
+
+test("client refresh, current user", async (t) => {
+  const client = createTestClient();
+  const { refreshToken } = await client.signIn("test@example.com", "password");
+  const refreshed = await client.refresh(refreshToken);
+  const user = await client.getCurrentUser(refreshed.accessToken);
+
+  t.is(user.id, "user_1");
+  t.is(user.email, "test@example.com");
+});
+
+test("client change password, sessions", async (t) => {
+  const client = createTestClient();
+  const other = await client.signIn("test@example.com", "password");
+  const { accessToken } = await client.signIn("test@example.com", "password");
+
+  t.is((await client.getSessions(accessToken)).length, 2);
+  t.true(await client.changePassword(accessToken, "password", "new password"));
+
+  const sessions = await client.getSessions(accessToken);
+
+  t.is(sessions.length, 1);
+  t.deepEqual(await client.revokeSession(accessToken, sessions[0]?.id ?? ""), {
+    id: sessions[0]?.id,
+  });
+  await t.throwsAsync(client.getCurrentUser(other.accessToken), {
+    instanceOf: ClientError,
+  });
+});
+
+test("client users", async (t) => {
+  const client = createTestClient();
+
+  await client.signIn("test@example.com", "password");
+
+  t.is((await client.getUser("user_1"))?.email, "test@example.com");
+  t.is(await client.getUser("other"), null);
+  t.is((await client.getUserSessions("user_1")).length, 1);
+
+  await client.revokeUserSessions("user_1");
+
+  t.is((await client.getUserSessions("user_1")).length, 0);
+  t.deepEqual(await client.deleteUser("user_1"), { id: "user_1" });
+  t.is(await client.getUser("user_1"), null);
+
+  const user = await client.createUser("other@example.com", "password");
+
+  t.is((await client.getUser(user.id))?.email, "other@example.com");
+});
+
+test("client jwks", async (t) => {
+  const client = createTestClient();
+  const jwks = await client.getJwks();
+
+  t.is(jwks.keys.length, 1);
+  t.is(jwks.keys[0]?.use, "sig");
+});
+
+test("client admin", async (t) => {
+  const client = createTestClient();
+  const info = await client.info();
+
+  t.truthy(info.endpoints);
+  t.deepEqual(await client.migrate(), []);
+});
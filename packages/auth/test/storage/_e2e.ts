@@ -0,0 +1,109 @@
+import { type ExecutionContext } from "ava";
+
+import { StorageAdapter } from "../../src/storage";
+
+export async function testStorageAdapterE2E(
+  t: ExecutionContext,
+  storage: StorageAdapter,
+) {
+  // Create tables
+  await storage.runMigrations();
+
+  // Create user
+  const user = await storage.createUser({
+    email: "test@example.com",
+    passwordHash: "hash",
+  });
+
+  t.is(user.email, "test@example.com");
+
+  // Get user
+  const getUserResult = await storage.getUser(user.id);
+
+  t.is(getUserResult?.email, "test@example.com");
+  t.false("passwordHash" in (getUserResult ?? {}));
+
+  const getUserByEmailResult = await storage.getUserByEmail("test@example.com");
+
+  t.is(getUserByEmailResult?.id, user.id);
+  t.is(getUserByEmailResult?.passwordHash, "hash");
+  t.is(await storage.getUser("other"), null);
+  t.is(await storage.getUserByEmail("other@example.com"), null);
+
+  // Update password
+  await storage.updateUserPassword(user.id, "other");
+
+  t.is(
+    (await storage.getUserByEmail("test@example.com"))?.passwordHash,
+    "other",
+  );
+
+  // Create sessions
+  const session = await storage.createSession({
+    userId: user.id,
+    refreshTokenHash: "hash",
+    expiresAt: new Date(Date.now() + 60000),
+  });
+  const otherSession = await storage.createSession({
+    userId: user.id,
+    refreshTokenHash: "hash",
+    expiresAt: new Date(Date.now() + 60000),
+  });
+
+  t.is(session.userId, user.id);
+  t.is((await storage.getSession(session.id))?.refreshTokenHash, "hash");
+  t.is((await storage.getUserSessions(user.id)).length, 2);
+
+  // Update session
+  t.true(
+    await storage.updateSession(session.id, "hash", {
+      refreshTokenHash: "other",
+      expiresAt: new Date(Date.now() + 120000),
+    }),
+  );
+  t.is((await storage.getSession(session.id))?.refreshTokenHash, "other");
+
+  // The session can only be updated from its current refresh token
+  t.false(
+    await storage.updateSession(session.id, "hash", {
+      refreshTokenHash: "another",
+      expiresAt: new Date(Date.now() + 120000),
+    }),
+  );
+  t.is((await storage.getSession(session.id))?.refreshTokenHash, "other");
+
+  // Revoke sessions
+  await storage.revokeSession(session.id);
+
+  t.truthy((await storage.getSession(session.id))?.revokedAt);
+  t.is((await storage.getUserSessions(user.id)).length, 1);
+
+  await storage.revokeUserSessions(user.id);
+
+  t.truthy((await storage.getSession(otherSession.id))?.revokedAt);
+  t.is((await storage.getUserSessions(user.id)).length, 0);
+
+  // Signing keys
+  t.is((await storage.getSigningKeys()).length, 0);
+
+  await storage.createSigningKey({
+    id: "key_1",
+    algorithm: "ES256",
+    publicKey: { kty: "EC" },
+    privateKey: { kty: "EC", d: "secret" },
+  });
+
+  const signingKeys = await storage.getSigningKeys();
+
+  t.is(signingKeys.length, 1);
+  t.deepEqual(signingKeys[0]?.publicKey, { kty: "EC" });
+
+  // Delete user
+  await storage.deleteUser(user.id);
+
+  t.is(await storage.getUser(user.id), null);
+  t.is(await storage.getSession(session.id), null);
+
+  // Drop tables
+  await storage.runMigrations(true);
+}
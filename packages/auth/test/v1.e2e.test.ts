@@ -0,0 +1,483 @@
+import test from "ava";
+import { type JSONWebKeySet, createLocalJWKSet, jwtVerify } from "jose";
+
+import { createTestService, makeRequest } from "./_utils";
+
+interface SuccessfulResponse {
+  status: 200;
+  success: true;
+}
+
+interface ErrorResponse {
+  status: number;
+  success: false;
+  data: null;
+  error: string;
+}
+
+interface UserResponse {
+  id: string;
+  email: string;
+}
+
+interface SessionResponse {
+  id: string;
+  userId: string;
+  revokedAt?: string | null;
+}
+
+// Auth
+interface TokensResponse extends SuccessfulResponse {
+  data: {
+    user: UserResponse;
+    accessToken: string;
+    refreshToken: string;
+    expiresIn: number;
+  };
+}
+
+interface CurrentUserResponse extends SuccessfulResponse {
+  data: UserResponse;
+}
+
+interface SessionsResponse extends SuccessfulResponse {
+  data: SessionResponse[];
+}
+
+async function signIn(
+  service: ReturnType<typeof createTestService>,
+  password = "password",
+) {
+  const res = await makeRequest(service, "/v1/auth/sign-in", {
+    method: "POST",
+    body: { email: "test@example.com", password },
+  });
+
+  return (await res.json()) as TokensResponse;
+}
+
+test("v1 auth sign up", async (t) => {
+  const service = createTestService();
+  const res1 = await makeRequest(service, "/v1/auth/sign-up", {
+    method: "POST",
+    body: { email: "Other@Example.com", password: "password" },
+  });
+
+  t.is(res1.status, 200);
+
+  const result1 = (await res1.json()) as TokensResponse;
+
+  t.is(result1.data.user.email, "other@example.com");
+  t.false("passwordHash" in result1.data.user);
+  t.truthy(result1.data.accessToken);
+  t.truthy(result1.data.refreshToken);
+  t.is(result1.data.expiresIn, 900);
+
+  const res2 = await makeRequest(service, "/v1/auth/sign-up", {
+    method: "POST",
+    body: { email: "other@example.com", password: "password" },
+  });
+
+  t.is(res2.status, 409);
+
+  const result2 = (await res2.json()) as ErrorResponse;
+
+  t.is(result2.error, "User already exists");
+});
+
+test("v1 auth sign up w/ concurrent requests", async (t) => {
+  const service = createTestService();
+  const responses = await Promise.all(
+    [1, 2].map(() =>
+      makeRequest(service, "/v1/auth/sign-up", {
+        method: "POST",
+        body: { email: "other@example.com", password: "password" },
+      }),
+    ),
+  );
+
+  t.deepEqual(responses.map((res) => res.status).sort(), [200, 409]);
+});
+
+test("v1 auth sign up w/ sign up disabled", async (t) => {
+  const service = createTestService({ signUp: false });
+  const res = await makeRequest(service, "/v1/auth/sign-up", {
+    method: "POST",
+    body: { email: "other@example.com", password: "password" },
+  });
+
+  t.is(res.status, 403);
+
+  const result = (await res.json()) as ErrorResponse;
+
+  t.is(result.error, "Sign up is disabled");
+});
+
+test("v1 auth sign up w/ invalid body", async (t) => {
+  const service = createTestService();
+  const res = await makeRequest(service, "/v1/auth/sign-up", {
+    method: "POST",
+    body: { email: "not an email", password: "short" },
+  });
+
+  t.is(res.status, 400);
+});
+
+test("v1 auth sign in", async (t) => {
+  const service = createTestService();
+  const result1 = await signIn(service);
+
+  t.is(result1.status, 200);
+  t.is(result1.data.user.id, "user_1");
+
+  const result2 = await signIn(service, "incorrect");
+
+  t.is(result2.status, 401 as never);
+  t.is((result2 as unknown as ErrorResponse).error, "Invalid credentials");
+});
+
+test("v1 auth user", async (t) => {
+  const service = createTestService();
+  const { data } = await signIn(service);
+  const res1 = await makeRequest(service, "/v1/auth/user", {
+    token: data.accessToken,
+  });
+
+  t.is(res1.status, 200);
+
+  const result1 = (await res1.json()) as CurrentUserResponse;
+
+  t.is(result1.data.id, "user_1");
+
+  const res2 = await makeRequest(service, "/v1/auth/user", {
+    token: "invalid",
+  });
+
+  t.is(res2.status, 401);
+});
+
+test("v1 auth refresh", async (t) => {
+  const service = createTestService();
+  const { data } = await signIn(service);
+  const res1 = await makeRequest(service, "/v1/auth/refresh", {
+    method: "POST",
+    body: { refreshToken: data.refreshToken },
+  });
+
+  t.is(res1.status, 200);
+
+  const result1 = (await res1.json()) as TokensResponse;
+
+  t.not(result1.data.refreshToken, data.refreshToken);
+
+  // Re-using a rotated refresh token revokes the whole session
+  const res2 = await makeRequest(service, "/v1/auth/refresh", {
+    method: "POST",
+    body: { refreshToken: data.refreshToken },
+  });
+
+  t.is(res2.status, 401);
+
+  const res3 = await makeRequest(service, "/v1/auth/refresh", {
+    method: "POST",
+    body: { refreshToken: result1.data.refreshToken },
+  });
+
+  t.is(res3.status, 401);
+
+  const res4 = await makeRequest(service, "/v1/auth/user", {
+    token: result1.data.accessToken,
+  });
+
+  t.is(res4.status, 401);
+});
+
+test("v1 auth refresh w/ concurrent requests", async (t) => {
+  const service = createTestService();
+  const { data } = await signIn(service);
+  const responses = await Promise.all(
+    [1, 2].map(() =>
+      makeRequest(service, "/v1/auth/refresh", {
+        method: "POST",
+        body: { refreshToken: data.refreshToken },
+      }),
+    ),
+  );
+
+  t.deepEqual(responses.map((res) => res.status).sort(), [200, 401]);
+});
+
+test("v1 auth sign out", async (t) => {
+  const service = createTestService();
+  const { data } = await signIn(service);
+  const res1 = await makeRequest(service, "/v1/auth/sign-out", {
+    method: "POST",
+    body: { refreshToken: data.refreshToken },
+  });
+
+  t.is(res1.status, 200);
+
+  const res2 = await makeRequest(service, "/v1/auth/refresh", {
+    method: "POST",
+    body: { refreshToken: data.refreshToken },
+  });
+
+  t.is(res2.status, 401);
+});
+
+test("v1 auth change password", async (t) => {
+  const service = createTestService();
+  const { data: other } = await signIn(service);
+  const { data } = await signIn(service);
+  const res1 = await makeRequest(service, "/v1/auth/user/password", {
+    method: "PUT",
+    body: { password: "password", newPassword: "new password" },
+    token: data.accessToken,
+  });
+
+  t.is(res1.status, 200);
+
+  // Every other session is revoked
+  const res2 = await makeRequest(service, "/v1/auth/user", {
+    token: other.accessToken,
+  });
+
+  t.is(res2.status, 401);
+
+  const res3 = await makeRequest(service, "/v1/auth/user", {
+    token: data.accessToken,
+  });
+
+  t.is(res3.status, 200);
+  t.is((await signIn(service, "new password")).status, 200);
+});
+
+test("v1 auth sessions", async (t) => {
+  const service = createTestService();
+  const { data: other } = await signIn(service);
+  const { data } = await signIn(service);
+  const res1 = await makeRequest(service, "/v1/auth/sessions", {
+    token: data.accessToken,
+  });
+
+  t.is(res1.status, 200);
+
+  const result1 = (await res1.json()) as SessionsResponse;
+
+  t.is(result1.data.length, 2);
+
+  const otherSessionId = other.refreshToken.split(".")[0] as string;
+  const res2 = await makeRequest(
+    service,
+    `/v1/auth/sessions/${otherSessionId}`,
+    { method: "DELETE", token: data.accessToken },
+  );
+
+  t.is(res2.status, 200);
+
+  const res3 = await makeRequest(service, "/v1/auth/sessions", {
+    token: data.accessToken,
+  });
+  const result3 = (await res3.json()) as SessionsResponse;
+
+  t.is(result3.data.length, 1);
+  t.not(result3.data[0]?.id, otherSessionId);
+});
+
+// Users
+interface UserGetResponse extends SuccessfulResponse {
+  data: UserResponse | null;
+}
+
+test("v1 users create", async (t) => {
+  const service = createTestService({ signUp: false });
+  const res1 = await makeRequest(service, "/v1/users", {
+    method: "POST",
+    body: { email: "Other@Example.com", password: "password" },
+  });
+
+  t.is(res1.status, 200);
+
+  const result1 = (await res1.json()) as UserGetResponse;
+
+  t.is(result1.data?.email, "other@example.com");
+
+  const signInRes = await makeRequest(service, "/v1/auth/sign-in", {
+    method: "POST",
+    body: { email: "other@example.com", password: "password" },
+  });
+
+  t.is(signInRes.status, 200);
+
+  const res2 = await makeRequest(service, "/v1/users", {
+    method: "POST",
+    body: { email: "other@example.com", password: "password" },
+  });
+
+  t.is(res2.status, 409);
+});
+
+test("v1 users get", async (t) => {
+  const service = createTestService();
+  const res1 = await makeRequest(service, "/v1/users/user_1");
+
+  t.is(res1.status, 200);
+
+  const result1 = (await res1.json()) as UserGetResponse;
+
+  t.is(result1.data?.email, "test@example.com");
+
+  const res2 = await makeRequest(service, "/v1/users/other");
+
+  t.is(res2.status, 404);
+
+  const result2 = (await res2.json()) as UserGetResponse;
+
+  t.is(result2.data, null);
+});
+
+test("v1 users sessions", async (t) => {
+  const service = createTestService();
+  const { data } = await signIn(service);
+  const res1 = await makeRequest(service, "/v1/users/user_1/sessions");
+  const result1 = (await res1.json()) as SessionsResponse;
+
+  t.is(result1.data.length, 1);
+
+  const res2 = await makeRequest(service, "/v1/users/user_1/sessions", {
+    method: "DELETE",
+  });
+
+  t.is(res2.status, 200);
+
+  const res3 = await makeRequest(service, "/v1/auth/refresh", {
+    method: "POST",
+    body: { refreshToken: data.refreshToken },
+  });
+
+  t.is(res3.status, 401);
+});
+
+test("v1 users delete", async (t) => {
+  const service = createTestService();
+  const res1 = await makeRequest(service, "/v1/users/user_1", {
+    method: "DELETE",
+  });
+
+  t.is(res1.status, 200);
+
+  const res2 = await makeRequest(service, "/v1/users/user_1");
+
+  t.is(res2.status, 404);
+  t.is((await signIn(service)).status, 401 as never);
+});
+
+// Admin
+interface AdminInfoResponse extends SuccessfulResponse {
+  data: {
+    endpoints: {
+      v1: {
+        auth: string;
+      };
+    };
+  };
+}
+
+interface AdminMigrateResponse extends SuccessfulResponse {
+  data: true;
+}
+
+test("v1 admin info", async (t) => {
+  const service = createTestService({
+    endpoints: {
+      v1: {
+        auth: "/custom-auth",
+      },
+    },
+  });
+  const res = await makeRequest(service, "/v1/admin/info");
+
+  t.is(res.status, 200);
+
+  const result = (await res.json()) as AdminInfoResponse;
+
+  t.is(result.data.endpoints.v1.auth, "/custom-auth");
+});
+
+test("v1 admin migrate", async (t) => {
+  const service = createTestService();
+  const res = await makeRequest(service, "/v1/admin/migrate", {
+    method: "POST",
+  });
+
+  t.is(res.status, 200);
+
+  const result = (await res.json()) as AdminMigrateResponse;
+
+  t.deepEqual(result.data, []);
+});
+
+// Public
+interface PublicResponse {
+  openapi: "3.0.0";
+}
+
+test("v1 public open-api.json", async (t) => {
+  const service = createTestService();
+  const res = await makeRequest(service, "/open-api.json");
+
+  t.is(res.status, 200);
+
+  const result = (await res.json()) as PublicResponse;
+
+  t.is(result.openapi, "3.0.0");
+});
+
+test("v1 public jwks.json", async (t) => {
+  const service = createTestService({
+    tokens: { issuer: "https://auth.example.com", audience: "workertown" },
+  });
+  const res = await makeRequest(service, "/.well-known/jwks.json");
+
+  t.is(res.status, 200);
+
+  const jwks = (await res.json()) as JSONWebKeySet;
+
+  t.is(jwks.keys.length, 1);
+  t.is(jwks.keys[0]?.alg, "ES256");
+  t.is(jwks.keys[0]?.d, undefined);
+
+  // This is how the other services verify the issued access tokens
+  const { data } = await signIn(service);
+  const { payload } = await jwtVerify(
+    data.accessToken,
+    createLocalJWKSet(jwks),
+    { issuer: "https://auth.example.com", audience: "workertown" },
+  );
+
+  t.is(payload.sub, "user_1");
+  t.is(payload.email, "test@example.com");
+});
+
+test("v1 public jwks.json w/ concurrent requests", async (t) => {
+  const service = createTestService();
+
+  await Promise.all(
+    [1, 2, 3].map(() => makeRequest(service, "/.well-known/jwks.json")),
+  );
+
+  const res = await makeRequest(service, "/.well-known/jwks.json");
+  const jwks = (await res.json()) as JSONWebKeySet;
+
+  // Only one signing key is created, however many requests need it at once
+  t.is(jwks.keys.length, 1);
+
+  const { data } = await signIn(service);
+  const { payload } = await jwtVerify(
+    data.accessToken,
+    createLocalJWKSet(jwks),
+    { audience: "workertown-auth" },
+  );
+
+  t.is(payload.sub, "user_1");
+});
@@ -0,0 +1,246 @@
+import {
+  Client,
+  ClientError,
+  type ClientFetch,
+  type ClientOptions,
+  type Serialized,
+} from "@workertown/internal-client";
+
+import {
+  type ConsumerGroup,
+  type Stream,
+  type StreamEvent,
+} from "../storage/storage-adapter.js";
+
+export interface EventsClientEndpoints {
+  v1: {
+    admin: string;
+    streams: string;
+  };
+}
+
+export type EventsClientOptions = ClientOptions<EventsClientEndpoints>;
+
+export type EventsClientStream = Serialized<Stream>;
+
+export type EventsClientEvent<T = unknown> = Serialized<
+  Omit<StreamEvent, "data">
+> & {
+  data: T;
+};
+
+export type EventsClientConsumerGroup = Serialized<ConsumerGroup> & {
+  lag: number;
+};
+
+export interface UpsertStreamOptions {
+  types?: string[] | null;
+}
+
+export interface GetEventsOptions {
+  offset?: number;
+  from?: Date;
+  to?: Date;
+  types?: string[];
+  limit?: number;
+}
+
+export interface UpsertConsumerGroupOptions {
+  offset?: number | "earliest" | "latest";
+}
+
+export interface GetConsumerGroupEventsOptions {
+  types?: string[];
+  limit?: number;
+}
+
+const DEFAULT_ENDPOINTS: EventsClientEndpoints = {
+  v1: {
+    admin: "/v1/admin",
+    streams: "/v1/streams",
+  },
+};
+
+export class EventsClient extends Client<EventsClientEndpoints> {
+  constructor(options: EventsClientOptions = {}) {
+    super(DEFAULT_ENDPOINTS, options);
+  }
+
+  private _getStreamPath(stream: string, path = "") {
+    return `${this.endpoints.v1.streams}/${encodeURIComponent(stream)}${path}`;
+  }
+
+  private _getConsumerGroupPath(stream: string, group: string, path = "") {
+    return this._getStreamPath(
+      stream,
+      `/consumers/${encodeURIComponent(group)}${path}`,
+    );
+  }
+
+  async getStreams() {
+    const { data } = await this.request<EventsClientStream[]>(
+      "GET",
+      this.endpoints.v1.streams,
+    );
+
+    return data;
+  }
+
+  async getStream(stream: string) {
+    const { data } = await this.request<EventsClientStream | null>(
+      "GET",
+      this._getStreamPath(stream),
+    );
+
+    return data;
+  }
+
+  async upsertStream(stream: string, options: UpsertStreamOptions = {}) {
+    const { data } = await this.request<EventsClientStream>(
+      "PUT",
+      this._getStreamPath(stream),
+      { body: options },
+    );
+
+    return data;
+  }
+
+  async deleteStream(stream: string) {
+    const { data } = await this.request<{ name: string }>(
+      "DELETE",
+      this._getStreamPath(stream),
+    );
+
+    return data;
+  }
+
+  async appendEvent<T = unknown>(stream: string, type: string, data: T) {
+    const { data: event } = await this.request<EventsClientEvent<T>>(
+      "POST",
+      this._getStreamPath(stream, "/events"),
+      { body: { type, data } },
+    );
+
+    return event;
+  }
+
+  async appendEvents<T = unknown>(
+    stream: string,
+    events: { type: string; data: T }[],
+  ) {
+    const { data } = await this.request<EventsClientEvent<T>[]>(
+      "POST",
+      this._getStreamPath(stream, "/events"),
+      { body: { events } },
+    );
+
+    return data;
+  }
+
+  async getEvents<T = unknown>(stream: string, options: GetEventsOptions = {}) {
+    const { data } = await this.request<EventsClientEvent<T>[]>(
+      "GET",
+      this._getStreamPath(stream, "/events"),
+      {
+        query: {
+          offset: options.offset,
+          from: options.from?.toISOString(),
+          to: options.to?.toISOString(),
+          types: options.types,
+          limit: options.limit,
+        },
+      },
+    );
+
+    return data;
+  }
+
+  async getConsumerGroups(stream: string) {
+    const { data } = await this.request<EventsClientConsumerGroup[]>(
+      "GET",
+      this._getStreamPath(stream, "/consumers"),
+    );
+
+    return data;
+  }
+
+  async getConsumerGroup(stream: string, group: string) {
+    const { data } = await this.request<EventsClientConsumerGroup | null>(
+      "GET",
+      this._getConsumerGroupPath(stream, group),
+    );
+
+    return data;
+  }
+
+  async upsertConsumerGroup(
+    stream: string,
+    group: string,
+    options: UpsertConsumerGroupOptions = {},
+  ) {
+    const { data } = await this.request<EventsClientConsumerGroup>(
+      "PUT",
+      this._getConsumerGroupPath(stream, group),
+      { body: options },
+    );
+
+    return data;
+  }
+
+  async deleteConsumerGroup(stream: string, group: string) {
+    const { data } = await this.request<{ name: string }>(
+      "DELETE",
+      this._getConsumerGroupPath(stream, group),
+    );
+
+    return data;
+  }
+
+  async getConsumerGroupEvents<T = unknown>(
+    stream: string,
+    group: string,
+    options: GetConsumerGroupEventsOptions = {},
+  ) {
+    const { data } = await this.request<EventsClientEvent<T>[]>(
+      "GET",
+      this._getConsumerGroupPath(stream, group, "/events"),
+      { query: { types: options.types, limit: options.limit } },
+    );
+
+    return data;
+  }
+
+  async commitOffset(stream: string, group: string, offset: number) {
+    const { data } = await this.request<EventsClientConsumerGroup>(
+      "POST",
+      this._getConsumerGroupPath(stream, group, "/commit"),
+      { body: { offset } },
+    );
+
+    return data;
+  }
+
+  async info() {
+    const { data } = await this.request<Record<string, unknown>>(
+      "GET",
+      `${this.endpoints.v1.admin}/info`,
+    );
+
+    return data;
+  }
+
+  async migrate() {
+    const { data } = await this.request<unknown[]>(
+      "POST",
+      `${this.endpoints.v1.admin}/migrate`,
+    );
+
+    return data;
+  }
+}
+
+export function createEventsClient(options?: EventsClientOptions) {
+  return new EventsClient(options);
+}
+
+export { ClientError, type ClientFetch };
@@ -0,0 +1,1170 @@
+import { type OpenApiSpec } from "@workertown/internal-open-api";
+
+export const OPEN_API_SPEC: OpenApiSpec = {
+  openapi: "3.0.0",
+  info: {
+    version: "1.0.0",
+    title: "Workertown Events",
+    license: {
+      name: "MIT",
+    },
+  },
+  servers: [
+    {
+      url: "http://localhost:8787",
+    },
+  ],
+  paths: {
+    "/v1/streams": {
+      get: {
+        summary: "Get all streams",
+        security: [{ BasicAuth: [] }, { BearerAuth: [] }],
+        operationId: "getStreams",
+        tags: ["Streams"],
+        responses: {
+          "200": {
+            description: "The streams",
+            content: {
+              "application/json": {
+                schema: {
+                  $ref: "#/components/schemas/GetStreamsResponse",
+                },
+              },
+            },
+          },
+          default: {
+            description: "Unexpected error",
+            content: {
+              "application/json": {
+                schema: {
+                  $ref: "#/components/schemas/InternalServerErrorResponse",
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    "/v1/streams/{stream}": {
+      get: {
+        summary: "Get a stream",
+        security: [{ BasicAuth: [] }, { BearerAuth: [] }],
+        operationId: "getStream",
+        tags: ["Streams"],
+        parameters: [
+          {
+            name: "stream",
+            in: "path",
+            required: true,
+            description: "The name of the stream",
+            schema: {
+              type: "string",
+            },
+          },
+        ],
+        responses: {
+          "200": {
+            description: "The stream",
+            content: {
+              "application/json": {
+                schema: {
+                  $ref: "#/components/schemas/GetStreamResponse",
+                },
+              },
+            },
+          },
+          default: {
+            description: "Unexpected error",
+            content: {
+              "application/json": {
+                schema: {
+                  $ref: "#/components/schemas/InternalServerErrorResponse",
+                },
+              },
+            },
+          },
+        },
+      },
+      put: {
+        summary: "Create or update a stream",
+        security: [{ BasicAuth: [] }, { BearerAuth: [] }],
+        operationId: "upsertStream",
+        tags: ["Streams"],
+        parameters: [
+          {
+            name: "stream",
+            in: "path",
+            required: true,
+            description: "The name of the stream",
+            schema: {
+              type: "string",
+            },
+          },
+        ],
+        requestBody: {
+          description: "The stream options",
+          required: false,
+          content: {
+            "application/json": {
+              schema: {
+                $ref: "#/components/schemas/UpsertStreamRequest",
+              },
+            },
+          },
+        },
+        responses: {
+          "200": {
+            description: "The created/updated stream",
+            content: {
+              "application/json": {
+                schema: {
+                  $ref: "#/components/schemas/UpsertStreamResponse",
+                },
+              },
+            },
+          },
+          default: {
+            description: "Unexpected error",
+            content: {
+              "application/json": {
+                schema: {
+                  $ref: "#/components/schemas/InternalServerErrorResponse",
+                },
+              },
+            },
+          },
+        },
+      },
+      delete: {
+        summary: "Delete a stream, and all of its events and consumer groups",
+        security: [{ BasicAuth: [] }, { BearerAuth: [] }],
+        operationId: "deleteStream",
+        tags: ["Streams"],
+        parameters: [
+          {
+            name: "stream",
+            in: "path",
+            required: true,
+            description: "The name of the stream",
+            schema: {
+              type: "string",
+            },
+          },
+        ],
+        responses: {
+          "200": {
+            description: "The deleted stream name",
+            content: {
+              "application/json": {
+                schema: {
+                  $ref: "#/components/schemas/DeleteStreamResponse",
+                },
+              },
+            },
+          },
+          default: {
+            description: "Unexpected error",
+            content: {
+              "application/json": {
+                schema: {
+                  $ref: "#/components/schemas/InternalServerErrorResponse",
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    "/v1/streams/{stream}/events": {
+      get: {
+        summary: "Read events by offset and/or time range",
+        security: [{ BasicAuth: [] }, { BearerAuth: [] }],
+        operationId: "getEvents",
+        tags: ["Streams"],
+        parameters: [
+          {
+            name: "stream",
+            in: "path",
+            required: true,
+            description: "The name of the stream",
+            schema: {
+              type: "string",
+            },
+          },
+          {
+            name: "offset",
+            in: "query",
+            required: false,
+            description: "Only return events at or after this offset",
+            schema: {
+              type: "integer",
+            },
+          },
+          {
+            name: "from",
+            in: "query",
+            required: false,
+            description:
+              "Only return events created at or after this time (ISO 8601)",
+            schema: {
+              type: "string",
+              format: "date-time",
+            },
+          },
+          {
+            name: "to",
+            in: "query",
+            required: false,
+            description:
+              "Only return events created before this time (ISO 8601)",
+            schema: {
+              type: "string",
+              format: "date-time",
+            },
+          },
+          {
+            name: "types",
+            in: "query",
+            required: false,
+            description: "Comma separated event types to return",
+            schema: {
+              type: "string",
+            },
+          },
+          {
+            name: "limit",
+            in: "query",
+            required: false,
+            description: "The maximum number of events to return",
+            schema: {
+              type: "integer",
+              default: 100,
+            },
+          },
+        ],
+        responses: {
+          "200": {
+            description: "The events, in offset order",
+            content: {
+              "application/json": {
+                schema: {
+                  $ref: "#/components/schemas/GetEventsResponse",
+                },
+              },
+            },
+          },
+          default: {
+            description: "Unexpected error",
+            content: {
+              "application/json": {
+                schema: {
+                  $ref: "#/components/schemas/InternalServerErrorResponse",
+                },
+              },
+            },
+          },
+        },
+      },
+      post: {
+        summary: "Append one or more events to a stream",
+        security: [{ BasicAuth: [] }, { BearerAuth: [] }],
+        operationId: "appendEvents",
+        tags: ["Streams"],
+        parameters: [
+          {
+            name: "stream",
+            in: "path",
+            required: true,
+            description: "The name of the stream",
+            schema: {
+              type: "string",
+            },
+          },
+        ],
+        requestBody: {
+          description: "A single event, or a batch of events",
+          required: true,
+          content: {
+            "application/json": {
+              schema: {
+                $ref: "#/components/schemas/AppendEventsRequest",
+              },
+            },
+          },
+        },
+        responses: {
+          "200": {
+            description: "The appended event(s)",
+            content: {
+              "application/json": {
+                schema: {
+                  $ref: "#/components/schemas/AppendEventsResponse",
+                },
+              },
+            },
+          },
+          default: {
+            description: "Unexpected error",
+            content: {
+              "application/json": {
+                schema: {
+                  $ref: "#/components/schemas/InternalServerErrorResponse",
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    "/v1/streams/{stream}/consumers": {
+      get: {
+        summary: "Get the consumer groups for a stream",
+        security: [{ BasicAuth: [] }, { BearerAuth: [] }],
+        operationId: "getConsumerGroups",
+        tags: ["Consumer groups"],
+        parameters: [
+          {
+            name: "stream",
+            in: "path",
+            required: true,
+            description: "The name of the stream",
+            schema: {
+              type: "string",
+            },
+          },
+        ],
+        responses: {
+          "200": {
+            description: "The consumer groups",
+            content: {
+              "application/json": {
+                schema: {
+                  $ref: "#/components/schemas/GetConsumerGroupsResponse",
+                },
+              },
+            },
+          },
+          default: {
+            description: "Unexpected error",
+            content: {
+              "application/json": {
+                schema: {
+                  $ref: "#/components/schemas/InternalServerErrorResponse",
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    "/v1/streams/{stream}/consumers/{group}": {
+      get: {
+        summary: "Get a consumer group",
+        security: [{ BasicAuth: [] }, { BearerAuth: [] }],
+        operationId: "getConsumerGroup",
+        tags: ["Consumer groups"],
+        parameters: [
+          {
+            name: "stream",
+            in: "path",
+            required: true,
+            description: "The name of the stream",
+            schema: {
+              type: "string",
+            },
+          },
+          {
+            name: "group",
+            in: "path",
+            required: true,
+            description: "The name of the consumer group",
+            schema: {
+              type: "string",
+            },
+          },
+        ],
+        responses: {
+          "200": {
+            description: "The consumer group",
+            content: {
+              "application/json": {
+                schema: {
+                  $ref: "#/components/schemas/GetConsumerGroupResponse",
+                },
+              },
+            },
+          },
+          default: {
+            description: "Unexpected error",
+            content: {
+              "application/json": {
+                schema: {
+                  $ref: "#/components/schemas/InternalServerErrorResponse",
+                },
+              },
+            },
+          },
+        },
+      },
+      put: {
+        summary: "Create or reset a consumer group",
+        security: [{ BasicAuth: [] }, { BearerAuth: [] }],
+        operationId: "upsertConsumerGroup",
+        tags: ["Consumer groups"],
+        parameters: [
+          {
+            name: "stream",
+            in: "path",
+            required: true,
+            description: "The name of the stream",
+            schema: {
+              type: "string",
+            },
+          },
+          {
+            name: "group",
+            in: "path",
+            required: true,
+            description: "The name of the consumer group",
+            schema: {
+              type: "string",
+            },
+          },
+        ],
+        requestBody: {
+          description: "The consumer group options",
+          required: false,
+          content: {
+            "application/json": {
+              schema: {
+                $ref: "#/components/schemas/UpsertConsumerGroupRequest",
+              },
+            },
+          },
+        },
+        responses: {
+          "200": {
+            description: "The created/updated consumer group",
+            content: {
+              "application/json": {
+                schema: {
+                  $ref: "#/components/schemas/UpsertConsumerGroupResponse",
+                },
+              },
+            },
+          },
+          default: {
+            description: "Unexpected error",
+            content: {
+              "application/json": {
+                schema: {
+                  $ref: "#/components/schemas/InternalServerErrorResponse",
+                },
+              },
+            },
+          },
+        },
+      },
+      delete: {
+        summary: "Delete a consumer group",
+        security: [{ BasicAuth: [] }, { BearerAuth: [] }],
+        operationId: "deleteConsumerGroup",
+        tags: ["Consumer groups"],
+        parameters: [
+          {
+            name: "stream",
+            in: "path",
+            required: true,
+            description: "The name of the stream",
+            schema: {
+              type: "string",
+            },
+          },
+          {
+            name: "group",
+            in: "path",
+            required: true,
+            description: "The name of the consumer group",
+            schema: {
+              type: "string",
+            },
+          },
+        ],
+        responses: {
+          "200": {
+            description: "The deleted consumer group name",
+            content: {
+              "application/json": {
+                schema: {
+                  $ref: "#/components/schemas/DeleteConsumerGroupResponse",
+                },
+              },
+            },
+          },
+          default: {
+            description: "Unexpected error",
+            content: {
+              "application/json": {
+                schema: {
+                  $ref: "#/components/schemas/InternalServerErrorResponse",
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    "/v1/streams/{stream}/consumers/{group}/events": {
+      get: {
+        summary: "Read events from the consumer group's committed offset",
+        security: [{ BasicAuth: [] }, { BearerAuth: [] }],
+        operationId: "getConsumerGroupEvents",
+        tags: ["Consumer groups"],
+        parameters: [
+          {
+            name: "stream",
+            in: "path",
+            required: true,
+            description: "The name of the stream",
+            schema: {
+              type: "string",
+            },
+          },
+          {
+            name: "group",
+            in: "path",
+            required: true,
+            description: "The name of the consumer group",
+            schema: {
+              type: "string",
+            },
+          },
+          {
+            name: "types",
+            in: "query",
+            required: false,
+            description: "Comma separated event types to return",
+            schema: {
+              type: "string",
+            },
+          },
+          {
+            name: "limit",
+            in: "query",
+            required: false,
+            description: "The maximum number of events to return",
+            schema: {
+              type: "integer",
+              default: 100,
+            },
+          },
+        ],
+        responses: {
+          "200": {
+            description: "The events, in offset order",
+            content: {
+              "application/json": {
+                schema: {
+                  $ref: "#/components/schemas/GetEventsResponse",
+                },
+              },
+            },
+          },
+          default: {
+            description: "Unexpected error",
+            content: {
+              "application/json": {
+                schema: {
+                  $ref: "#/components/schemas/InternalServerErrorResponse",
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    "/v1/streams/{stream}/consumers/{group}/commit": {
+      post: {
+        summary: "Commit the consumer group's offset",
+        security: [{ BasicAuth: [] }, { BearerAuth: [] }],
+        operationId: "commitOffset",
+        tags: ["Consumer groups"],
+        parameters: [
+          {
+            name: "stream",
+            in: "path",
+            required: true,
+            description: "The name of the stream",
+            schema: {
+              type: "string",
+            },
+          },
+          {
+            name: "group",
+            in: "path",
+            required: true,
+            description: "The name of the consumer group",
+            schema: {
+              type: "string",
+            },
+          },
+        ],
+        requestBody: {
+          description: "The offset of the next event to read",
+          required: true,
+          content: {
+            "application/json": {
+              schema: {
+                $ref: "#/components/schemas/CommitOffsetRequest",
+              },
+            },
+          },
+        },
+        responses: {
+          "200": {
+            description: "The updated consumer group",
+            content: {
+              "application/json": {
+                schema: {
+                  $ref: "#/components/schemas/UpsertConsumerGroupResponse",
+                },
+              },
+            },
+          },
+          default: {
+            description: "Unexpected error",
+            content: {
+              "application/json": {
+                schema: {
+                  $ref: "#/components/schemas/InternalServerErrorResponse",
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    "/v1/admin/info": {
+      get: {
+        summary: "Get configuration information",
+        security: [{ BasicAuth: [] }, { BearerAuth: [] }],
+        operationId: "adminInfo",
+        tags: ["Admin"],
+        responses: {
+          "200": {
+            description: "The current configuration",
+            content: {
+              "application/json": {
+                schema: {
+                  $ref: "#/components/schemas/AdminInfoResponse",
+                },
+              },
+            },
+          },
+          default: {
+            description: "Unexpected error",
+            content: {
+              "application/json": {
+                schema: {
+                  $ref: "#/components/schemas/InternalServerErrorResponse",
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    "/v1/admin/migrate": {
+      post: {
+        summary: "Run database migrations",
+        security: [{ BasicAuth: [] }, { BearerAuth: [] }],
+        operationId: "adminMigrate",
+        tags: ["Admin"],
+        responses: {
+          "200": {
+            description: "The successfully run migrations",
+            content: {
+              "application/json": {
+                schema: {
+                  $ref: "#/components/schemas/AdminMigrateResponse",
+                },
+              },
+            },
+          },
+          default: {
+            description: "Unexpected error",
+            content: {
+              "application/json": {
+                schema: {
+                  $ref: "#/components/schemas/InternalServerErrorResponse",
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    "/health": {
+      get: {
+        summary: "Get service health",
+        security: [],
+        operationId: "health",
+        tags: ["Public"],
+        responses: {
+          "200": {
+            description: "The service health status",
+            content: {
+              "application/json": {
+                schema: {
+                  $ref: "#/components/schemas/PublicHealthResponse",
+                },
+              },
+            },
+          },
+          default: {
+            description: "Unexpected error",
+            content: {
+              "application/json": {
+                schema: {
+                  $ref: "#/components/schemas/InternalServerErrorResponse",
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+  },
+  components: {
+    securitySchemes: {
+      BasicAuth: {
+        type: "http",
+        scheme: "basic",
+      },
+      BearerAuth: {
+        type: "http",
+        scheme: "bearer",
+      },
+    },
+    schemas: {
+      Stream: {
+        type: "object",
+        properties: {
+          name: {
+            type: "string",
+          },
+          types: {
+            type: "array",
+            nullable: true,
+            items: {
+              type: "string",
+            },
+          },
+          nextOffset: {
+            type: "integer",
+          },
+          createdAt: {
+            type: "string",
+            format: "date-time",
+          },
+          updatedAt: {
+            type: "string",
+            format: "date-time",
+          },
+        },
+      },
+      Event: {
+        type: "object",
+        properties: {
+          stream: {
+            type: "string",
+          },
+          offset: {
+            type: "integer",
+          },
+          type: {
+            type: "string",
+          },
+          data: {},
+          createdAt: {
+            type: "string",
+            format: "date-time",
+          },
+        },
+      },
+      ConsumerGroup: {
+        type: "object",
+        properties: {
+          name: {
+            type: "string",
+          },
+          stream: {
+            type: "string",
+          },
+          offset: {
+            type: "integer",
+          },
+          lag: {
+            type: "integer",
+          },
+          createdAt: {
+            type: "string",
+            format: "date-time",
+          },
+          updatedAt: {
+            type: "string",
+            format: "date-time",
+          },
+        },
+      },
+      GetStreamsResponse: {
+        properties: {
+          status: {
+            type: "integer",
+            format: "int32",
+            example: 200,
+          },
+          success: {
+            type: "boolean",
+            example: true,
+          },
+          data: {
+            type: "array",
+            items: {
+              $ref: "#/components/schemas/Stream",
+            },
+          },
+        },
+      },
+      GetStreamResponse: {
+        properties: {
+          status: {
+            type: "integer",
+            format: "int32",
+            example: 200,
+          },
+          success: {
+            type: "boolean",
+            example: true,
+          },
+          data: {
+            $ref: "#/components/schemas/Stream",
+          },
+        },
+      },
+      UpsertStreamRequest: {
+        type: "object",
+        properties: {
+          types: {
+            type: "array",
+            nullable: true,
+            items: {
+              type: "string",
+            },
+          },
+        },
+      },
+      UpsertStreamResponse: {
+        properties: {
+          status: {
+            type: "integer",
+            format: "int32",
+            example: 200,
+          },
+          success: {
+            type: "boolean",
+            example: true,
+          },
+          data: {
+            $ref: "#/components/schemas/Stream",
+          },
+        },
+      },
+      DeleteStreamResponse: {
+        properties: {
+          status: {
+            type: "integer",
+            format: "int32",
+            example: 200,
+          },
+          success: {
+            type: "boolean",
+            example: true,
+          },
+          data: {
+            type: "object",
+            properties: {
+              name: {
+                type: "string",
+              },
+            },
+          },
+        },
+      },
+      AppendEventsRequest: {
+        oneOf: [
+          {
+            type: "object",
+            required: ["type"],
+            properties: {
+              type: {
+                type: "string",
+              },
+              data: {},
+            },
+          },
+          {
+            type: "object",
+            required: ["events"],
+            properties: {
+              events: {
+                type: "array",
+                items: {
+                  type: "object",
+                  required: ["type"],
+                  properties: {
+                    type: {
+                      type: "string",
+                    },
+                    data: {},
+                  },
+                },
+              },
+            },
+          },
+        ],
+      },
+      AppendEventsResponse: {
+        properties: {
+          status: {
+            type: "integer",
+            format: "int32",
+            example: 200,
+          },
+          success: {
+            type: "boolean",
+            example: true,
+          },
+          data: {
+            oneOf: [
+              {
+                $ref: "#/components/schemas/Event",
+              },
+              {
+                type: "array",
+                items: {
+                  $ref: "#/components/schemas/Event",
+                },
+              },
+            ],
+          },
+        },
+      },
+      GetEventsResponse: {
+        properties: {
+          status: {
+            type: "integer",
+            format: "int32",
+            example: 200,
+          },
+          success: {
+            type: "boolean",
+            example: true,
+          },
+          data: {
+            type: "array",
+            items: {
+              $ref: "#/components/schemas/Event",
+            },
+          },
+        },
+      },
+      GetConsumerGroupsResponse: {
+        properties: {
+          status: {
+            type: "integer",
+            format: "int32",
+            example: 200,
+          },
+          success: {
+            type: "boolean",
+            example: true,
+          },
+          data: {
+            type: "array",
+            items: {
+              $ref: "#/components/schemas/ConsumerGroup",
+            },
+          },
+        },
+      },
+      GetConsumerGroupResponse: {
+        properties: {
+          status: {
+            type: "integer",
+            format: "int32",
+            example: 200,
+          },
+          success: {
+            type: "boolean",
+            example: true,
+          },
+          data: {
+            $ref: "#/components/schemas/ConsumerGroup",
+          },
+        },
+      },
+      UpsertConsumerGroupRequest: {
+        type: "object",
+        properties: {
+          offset: {
+            oneOf: [
+              {
+                type: "integer",
+              },
+              {
+                type: "string",
+                enum: ["earliest", "latest"],
+              },
+            ],
+          },
+        },
+      },
+      UpsertConsumerGroupResponse: {
+        properties: {
+          status: {
+            type: "integer",
+            format: "int32",
+            example: 200,
+          },
+          success: {
+            type: "boolean",
+            example: true,
+          },
+          data: {
+            $ref: "#/components/schemas/ConsumerGroup",
+          },
+        },
+      },
+      DeleteConsumerGroupResponse: {
+        properties: {
+          status: {
+            type: "integer",
+            format: "int32",
+            example: 200,
+          },
+          success: {
+            type: "boolean",
+            example: true,
+          },
+          data: {
+            type: "object",
+            properties: {
+              name: {
+                type: "string",
+              },
+            },
+          },
+        },
+      },
+      CommitOffsetRequest: {
+        type: "object",
+        required: ["offset"],
+        properties: {
+          offset: {
+            type: "integer",
+          },
+        },
+      },
+      AdminInfoResponse: {
+        properties: {
+          status: {
+            type: "integer",
+            format: "int32",
+            example: 200,
+          },
+          success: {
+            type: "boolean",
+            example: true,
+          },
+          data: {
+            type: "object",
+          },
+        },
+      },
+      AdminMigrateResponse: {
+        properties: {
+          status: {
+            type: "integer",
+            format: "int32",
+            example: 200,
+          },
+          success: {
+            type: "boolean",
+            example: true,
+          },
+          data: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: {
+                migrationName: {
+                  type: "string",
+                  example: "1688823193041_add_initial_tables_and_indexes",
+                },
+                direction: {
+                  type: "string",
+                  example: "Up",
+                },
+                status: {
+                  type: "string",
+                  example: "Success",
+                },
+              },
+            },
+          },
+        },
+      },
+      PublicHealthResponse: {
+        properties: {
+          status: {
+            type: "integer",
+            format: "int32",
+            example: 200,
+          },
+          success: {
+            type: "boolean",
+            example: true,
+          },
+          data: {
+            type: "string",
+            example: "OK",
+          },
+        },
+      },
+      InternalServerErrorResponse: {
+        type: "object",
+        required: ["status", "success", "data", "error"],
+        properties: {
+          status: {
+            type: "integer",
+            format: "int32",
+            example: 500,
+          },
+          success: {
+            type: "boolean",
+            example: false,
+          },
+          data: {
+            type: "object",
+            example: null,
+          },
+          error: {
+            type: "string",
+            example: "Internal server error",
+          },
+        },
+      },
+    },
+  },
+};
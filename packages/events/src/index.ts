@@ -0,0 +1,18 @@
+import { type ServerOptionsOptional, createEventsServer } from "./server.js";
+import {
+  type ConsumerGroup,
+  type Stream,
+  type StreamEvent,
+} from "./storage/index.js";
+import { type RuntimeResolver } from "./types.js";
+
+export default createEventsServer;
+export {
+  createEventsServer,
+  createEventsServer as events,
+  type ServerOptionsOptional as ServerOptions,
+  type RuntimeResolver,
+  type ConsumerGroup,
+  type Stream,
+  type StreamEvent,
+};
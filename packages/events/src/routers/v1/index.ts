@@ -0,0 +1,4 @@
+import { router as adminRouter } from "./admin.js";
+import { router as streamsRouter } from "./streams.js";
+
+export { adminRouter, streamsRouter };
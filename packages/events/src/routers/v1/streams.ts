@@ -0,0 +1,381 @@
+import { createRouter, validate } from "@workertown/internal-server";
+import { z } from "zod";
+
+import { type ConsumerGroup, type Stream } from "../../storage/index.js";
+import { type Context } from "../../types.js";
+
+const router = createRouter<Context>();
+
+const STREAM_NOT_FOUND = {
+  status: 404,
+  success: false,
+  data: null,
+  error: "Stream not found",
+};
+
+const CONSUMER_GROUP_NOT_FOUND = {
+  status: 404,
+  success: false,
+  data: null,
+  error: "Consumer group not found",
+};
+
+const OFFSET_OUT_OF_RANGE = {
+  status: 400,
+  success: false,
+  data: null,
+  error: "Offset is beyond the end of the stream",
+};
+
+// Batches are capped so that a single request can't hold the database for
+// too long
+const MAX_BATCH_SIZE = 100;
+
+// How far behind the end of the stream the consumer group is
+function withLag(stream: Stream, group: ConsumerGroup) {
+  return { ...group, lag: Math.max(stream.nextOffset - group.offset, 0) };
+}
+
+function parseInteger(val: string | undefined) {
+  if (val === undefined) {
+    return undefined;
+  }
+
+  const int = parseInt(val, 10);
+
+  return Number.isNaN(int) ? undefined : int;
+}
+
+router.get("/", async (ctx) => {
+  const storage = ctx.get("storage");
+  const streams = await storage.getStreams();
+
+  return ctx.json({ status: 200, success: true, data: streams });
+});
+
+router.get("/:stream", async (ctx) => {
+  const storage = ctx.get("storage");
+  const stream = await storage.getStream(ctx.req.param("stream"));
+  const status = stream ? 200 : 404;
+
+  return ctx.json({ status, success: true, data: stream }, status);
+});
+
+const upsertStreamBodySchema = z.object({
+  types: z.array(z.string().min(1)).nonempty().nullable().optional(),
+});
+
+router.put(
+  "/:stream",
+  validate("json", upsertStreamBodySchema),
+  async (ctx) => {
+    const storage = ctx.get("storage");
+    const name = ctx.req.param("stream");
+    const { types } = ctx.req.valid("json" as never) as z.infer<
+      typeof upsertStreamBodySchema
+    >;
+    const existing = await storage.getStream(name);
+    const stream = await storage.upsertStream({
+      name,
+      types: types === undefined ? existing?.types ?? null : types,
+    });
+
+    return ctx.json({ status: 200, success: true, data: stream });
+  },
+);
+
+router.delete("/:stream", async (ctx) => {
+  const storage = ctx.get("storage");
+  const name = ctx.req.param("stream");
+
+  await storage.deleteStream(name);
+
+  return ctx.json({ status: 200, success: true, data: { name } });
+});
+
+const eventSchema = z.object({
+  type: z.string().min(1),
+  data: z.unknown(),
+});
+
+// The batch schema has to come first, as `{ events: [] }` would otherwise fail
+// validation as a single event without a `type`
+const appendEventsBodySchema = z.union([
+  z.object({
+    events: z.array(eventSchema).nonempty().max(MAX_BATCH_SIZE),
+  }),
+  eventSchema,
+]);
+
+router.post(
+  "/:stream/events",
+  validate("json", appendEventsBodySchema),
+  async (ctx) => {
+    const storage = ctx.get("storage");
+    const body = ctx.req.valid("json" as never) as z.infer<
+      typeof appendEventsBodySchema
+    >;
+    const stream = await storage.getStream(ctx.req.param("stream"));
+
+    if (!stream) {
+      return ctx.json(STREAM_NOT_FOUND, 404);
+    }
+
+    const events = "events" in body ? body.events : [body];
+    const invalidEvent = events.find(
+      (event) => stream.types && !stream.types.includes(event.type),
+    );
+
+    if (invalidEvent) {
+      return ctx.json(
+        {
+          status: 400,
+          success: false,
+          data: null,
+          error: `Invalid event type "${invalidEvent.type}"`,
+        },
+        400,
+      );
+    }
+
+    const appended = await storage.appendEvents(stream, events);
+
+    return ctx.json({
+      status: 200,
+      success: true,
+      data: "events" in body ? appended : appended[0],
+    });
+  },
+);
+
+const getEventsQuerySchema = z.object({
+  offset: z.string().optional().transform(parseInteger),
+  from: z.string().optional().pipe(z.coerce.date().optional()),
+  to: z.string().optional().pipe(z.coerce.date().optional()),
+  types: z
+    .string()
+    .optional()
+    .transform((val) => val?.split(/,\s?/)),
+  limit: z
+    .string()
+    .optional()
+    .transform((val) => parseInteger(val) ?? 100),
+});
+
+router.get(
+  "/:stream/events",
+  validate("query", getEventsQuerySchema),
+  async (ctx) => {
+    const config = ctx.get("config");
+    const storage = ctx.get("storage");
+    const { offset, from, to, types, limit } = ctx.req.valid(
+      "query" as never,
+    ) as z.infer<typeof getEventsQuerySchema>;
+    const stream = await storage.getStream(ctx.req.param("stream"));
+
+    if (!stream) {
+      return ctx.json(STREAM_NOT_FOUND, 404);
+    }
+
+    const events = await storage.getEvents(stream, {
+      offset,
+      from,
+      to,
+      types,
+      limit: Math.min(limit, config.events.maxReadLimit),
+    });
+
+    return ctx.json({ status: 200, success: true, data: events });
+  },
+);
+
+router.get("/:stream/consumers", async (ctx) => {
+  const storage = ctx.get("storage");
+  const stream = await storage.getStream(ctx.req.param("stream"));
+
+  if (!stream) {
+    return ctx.json(STREAM_NOT_FOUND, 404);
+  }
+
+  const groups = await storage.getConsumerGroups(stream);
+
+  return ctx.json({
+    status: 200,
+    success: true,
+    data: groups.map((group) => withLag(stream, group)),
+  });
+});
+
+router.get("/:stream/consumers/:group", async (ctx) => {
+  const storage = ctx.get("storage");
+  const stream = await storage.getStream(ctx.req.param("stream"));
+
+  if (!stream) {
+    return ctx.json(STREAM_NOT_FOUND, 404);
+  }
+
+  const group = await storage.getConsumerGroup(stream, ctx.req.param("group"));
+  const status = group ? 200 : 404;
+
+  return ctx.json(
+    { status, success: true, data: group ? withLag(stream, group) : null },
+    status,
+  );
+});
+
+const upsertConsumerGroupBodySchema = z.object({
+  offset: z
+    .union([z.number().int().nonnegative(), z.enum(["earliest", "latest"])])
+    .optional(),
+});
+
+router.put(
+  "/:stream/consumers/:group",
+  validate("json", upsertConsumerGroupBodySchema),
+  async (ctx) => {
+    const storage = ctx.get("storage");
+    const name = ctx.req.param("group");
+    const { offset } = ctx.req.valid("json" as never) as z.infer<
+      typeof upsertConsumerGroupBodySchema
+    >;
+    const stream = await storage.getStream(ctx.req.param("stream"));
+
+    if (!stream) {
+      return ctx.json(STREAM_NOT_FOUND, 404);
+    }
+
+    const existing = await storage.getConsumerGroup(stream, name);
+    let groupOffset = existing?.offset ?? 0;
+
+    if (offset === "earliest") {
+      groupOffset = 0;
+    } else if (offset === "latest") {
+      groupOffset = stream.nextOffset;
+    } else if (offset !== undefined) {
+      groupOffset = offset;
+    }
+
+    if (groupOffset > stream.nextOffset) {
+      return ctx.json(OFFSET_OUT_OF_RANGE, 400);
+    }
+
+    const group = await storage.upsertConsumerGroup(stream, {
+      name,
+      offset: groupOffset,
+    });
+
+    return ctx.json({
+      status: 200,
+      success: true,
+      data: withLag(stream, group),
+    });
+  },
+);
+
+router.delete("/:stream/consumers/:group", async (ctx) => {
+  const storage = ctx.get("storage");
+  const name = ctx.req.param("group");
+  const stream = await storage.getStream(ctx.req.param("stream"));
+
+  if (!stream) {
+    return ctx.json(STREAM_NOT_FOUND, 404);
+  }
+
+  await storage.deleteConsumerGroup(stream, name);
+
+  return ctx.json({ status: 200, success: true, data: { name } });
+});
+
+const getConsumerGroupEventsQuerySchema = z.object({
+  types: z
+    .string()
+    .optional()
+    .transform((val) => val?.split(/,\s?/)),
+  limit: z
+    .string()
+    .optional()
+    .transform((val) => parseInteger(val) ?? 100),
+});
+
+// Reading does not move the committed offset on - consumers commit once they
+// have processed the events, so that a crashed consumer picks up where it left
+// off
+router.get(
+  "/:stream/consumers/:group/events",
+  validate("query", getConsumerGroupEventsQuerySchema),
+  async (ctx) => {
+    const config = ctx.get("config");
+    const storage = ctx.get("storage");
+    const { types, limit } = ctx.req.valid("query" as never) as z.infer<
+      typeof getConsumerGroupEventsQuerySchema
+    >;
+    const stream = await storage.getStream(ctx.req.param("stream"));
+
+    if (!stream) {
+      return ctx.json(STREAM_NOT_FOUND, 404);
+    }
+
+    const group = await storage.getConsumerGroup(
+      stream,
+      ctx.req.param("group"),
+    );
+
+    if (!group) {
+      return ctx.json(CONSUMER_GROUP_NOT_FOUND, 404);
+    }
+
+    const events = await storage.getEvents(stream, {
+      offset: group.offset,
+      types,
+      limit: Math.min(limit, config.events.maxReadLimit),
+    });
+
+    return ctx.json({ status: 200, success: true, data: events });
+  },
+);
+
+const commitOffsetBodySchema = z.object({
+  offset: z.number().int().nonnegative(),
+});
+
+router.post(
+  "/:stream/consumers/:group/commit",
+  validate("json", commitOffsetBodySchema),
+  async (ctx) => {
+    const storage = ctx.get("storage");
+    const { offset } = ctx.req.valid("json" as never) as z.infer<
+      typeof commitOffsetBodySchema
+    >;
+    const stream = await storage.getStream(ctx.req.param("stream"));
+
+    if (!stream) {
+      return ctx.json(STREAM_NOT_FOUND, 404);
+    }
+
+    const existing = await storage.getConsumerGroup(
+      stream,
+      ctx.req.param("group"),
+    );
+
+    if (!existing) {
+      return ctx.json(CONSUMER_GROUP_NOT_FOUND, 404);
+    }
+
+    if (offset > stream.nextOffset) {
+      return ctx.json(OFFSET_OUT_OF_RANGE, 400);
+    }
+
+    const group = await storage.upsertConsumerGroup(stream, {
+      name: existing.name,
+      offset,
+    });
+
+    return ctx.json({
+      status: 200,
+      success: true,
+      data: withLag(stream, group),
+    });
+  },
+);
+
+export { router };
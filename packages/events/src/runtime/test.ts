@@ -0,0 +1,33 @@
+import { MemoryStorageAdapter } from "../storage/memory.js";
+import {
+  type ConsumerGroup,
+  type Stream,
+  type StreamEvent,
+} from "../storage/storage-adapter.js";
+import { type Runtime, type ServerOptions } from "../types.js";
+
+interface TestGetRuntimeOptions {
+  initialStreams: Stream[];
+  initialEvents: StreamEvent[];
+  initialConsumerGroups: ConsumerGroup[];
+}
+
+export function runtime(
+  // biome-ignore lint/correctness/noUnusedVariables: not needed for this runtime
+  config: ServerOptions,
+  // biome-ignore lint/correctness/noUnusedVariables: not needed for this runtime
+  env: Record<string, unknown>,
+  options: TestGetRuntimeOptions = {
+    initialStreams: [],
+    initialEvents: [],
+    initialConsumerGroups: [],
+  },
+): Runtime {
+  return {
+    storage: new MemoryStorageAdapter({
+      initialStreams: options.initialStreams,
+      initialEvents: options.initialEvents,
+      initialConsumerGroups: options.initialConsumerGroups,
+    }),
+  };
+}
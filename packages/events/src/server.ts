@@ -0,0 +1,89 @@
+import { type Server, createServer } from "@workertown/internal-server";
+import { type DeepPartial } from "@workertown/internal-types";
+import merge from "lodash.merge";
+
+import { publicRouter, v1 } from "./routers/index.js";
+import { runtime as cloudflareWorkersRuntime } from "./runtime/cloudflare-workers.js";
+import { type StorageAdapter } from "./storage/storage-adapter.js";
+import { type Context, type ServerOptions } from "./types.js";
+
+export type ServerOptionsOptional = DeepPartial<ServerOptions>;
+
+const DEFAULT_OPTIONS: ServerOptions = {
+  auth: {
+    apiKey: {
+      env: {
+        apiKey: "EVENTS_API_KEY",
+      },
+    },
+    basic: {
+      env: {
+        username: "EVENTS_USERNAME",
+        password: "EVENTS_PASSWORD",
+      },
+    },
+    jwt: {
+      env: {
+        jwksUrl: "EVENTS_JWKS_URL",
+        secret: "EVENTS_JWT_SECRET",
+        audience: "EVENTS_JWT_AUDIENCE",
+        issuer: "EVENTS_JWT_ISSUER",
+      },
+    },
+  },
+  endpoints: {
+    v1: {
+      admin: "/v1/admin",
+      streams: "/v1/streams",
+    },
+    public: "/",
+  },
+  env: {
+    db: "EVENTS_DB",
+  },
+  events: {
+    maxReadLimit: 1000,
+  },
+};
+
+export function createEventsServer(
+  options?: ServerOptionsOptional,
+): Server<Context> {
+  const config = merge({}, DEFAULT_OPTIONS, options);
+  const {
+    endpoints,
+    runtime = cloudflareWorkersRuntime,
+    ...baseConfig
+  } = config;
+
+  const server = createServer<Context>(baseConfig);
+  let storage: StorageAdapter;
+
+  server.use("*", async (ctx, next) => {
+    if (!storage) {
+      ({ storage } =
+        typeof runtime === "function"
+          ? runtime(config, ctx.env)
+          : runtime ?? cloudflareWorkersRuntime(config, ctx.env));
+    }
+
+    ctx.set("config", config);
+    ctx.set("storage", storage);
+
+    return next();
+  });
+
+  if (endpoints.v1.admin !== false) {
+    server.route(endpoints.v1.admin, v1.adminRouter);
+  }
+
+  if (endpoints.v1.streams !== false) {
+    server.route(endpoints.v1.streams, v1.streamsRouter);
+  }
+
+  if (endpoints.public !== false) {
+    server.route(endpoints.public, publicRouter);
+  }
+
+  return server;
+}
@@ -0,0 +1,21 @@
+import {
+  type AppendEventBody,
+  type ConsumerGroup,
+  type GetEventsOptions,
+  StorageAdapter,
+  type Stream,
+  type StreamEvent,
+  type UpsertConsumerGroupBody,
+  type UpsertStreamBody,
+} from "./storage-adapter.js";
+
+export {
+  StorageAdapter,
+  type AppendEventBody,
+  type ConsumerGroup,
+  type GetEventsOptions,
+  type Stream,
+  type StreamEvent,
+  type UpsertConsumerGroupBody,
+  type UpsertStreamBody,
+};
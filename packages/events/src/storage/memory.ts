@@ -0,0 +1,184 @@
+import { MemoryStorageAdapter as BaseMemoryStorageAdapter } from "@workertown/internal-storage/memory";
+
+import {
+  type AppendEventBody,
+  type ConsumerGroup,
+  type GetEventsOptions,
+  type StorageAdapter,
+  type Stream,
+  type StreamEvent,
+  type UpsertConsumerGroupBody,
+  type UpsertStreamBody,
+} from "./storage-adapter.js";
+
+interface MemoryStorageAdapterOptions {
+  initialStreams?: Stream[];
+  initialEvents?: StreamEvent[];
+  initialConsumerGroups?: ConsumerGroup[];
+}
+
+export class MemoryStorageAdapter
+  extends BaseMemoryStorageAdapter
+  implements StorageAdapter
+{
+  private readonly _streamStore = new Map<string, Stream>();
+
+  private readonly _eventStore = new Map<string, StreamEvent[]>();
+
+  private readonly _consumerGroupStore = new Map<string, ConsumerGroup>();
+
+  constructor(options: MemoryStorageAdapterOptions = {}) {
+    super();
+
+    const {
+      initialStreams = [],
+      initialEvents = [],
+      initialConsumerGroups = [],
+    } = options;
+
+    initialStreams.forEach((stream) => {
+      this._streamStore.set(stream.name, { ...stream });
+    });
+
+    initialEvents.forEach((event) => {
+      this._getEvents(event.stream).push(event);
+    });
+
+    initialConsumerGroups.forEach((group) => {
+      this._consumerGroupStore.set(
+        this._getConsumerGroupKey(group.stream, group.name),
+        group,
+      );
+    });
+  }
+
+  private _getEvents(stream: string) {
+    let events = this._eventStore.get(stream);
+
+    if (!events) {
+      events = [];
+      this._eventStore.set(stream, events);
+    }
+
+    return events;
+  }
+
+  private _getConsumerGroupKey(stream: string, name: string) {
+    return `${stream}:${name}`;
+  }
+
+  async getStreams() {
+    return Array.from(this._streamStore.values()).sort((a, b) =>
+      a.name.localeCompare(b.name),
+    );
+  }
+
+  async getStream(name: string) {
+    const stream = this._streamStore.get(name);
+
+    return stream ? { ...stream } : null;
+  }
+
+  async upsertStream(stream: UpsertStreamBody) {
+    const now = new Date();
+    const existing = this._streamStore.get(stream.name);
+    const streamRecord = {
+      ...stream,
+      nextOffset: existing?.nextOffset ?? 0,
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now,
+    };
+
+    this._streamStore.set(stream.name, streamRecord);
+
+    return { ...streamRecord };
+  }
+
+  async deleteStream(name: string) {
+    for (const group of this._consumerGroupStore.values()) {
+      if (group.stream === name) {
+        this._consumerGroupStore.delete(
+          this._getConsumerGroupKey(group.stream, group.name),
+        );
+      }
+    }
+
+    this._eventStore.delete(name);
+    this._streamStore.delete(name);
+  }
+
+  async appendEvents(stream: Stream, events: AppendEventBody[]) {
+    const now = new Date();
+    const streamRecord = this._streamStore.get(stream.name);
+
+    if (!streamRecord) {
+      throw new Error(`Stream "${stream.name}" not found`);
+    }
+
+    const offset = streamRecord.nextOffset;
+    const eventRecords = events.map((event, index) => ({
+      stream: stream.name,
+      offset: offset + index,
+      type: event.type,
+      data: event.data ?? null,
+      createdAt: now,
+    }));
+
+    streamRecord.nextOffset += events.length;
+    this._getEvents(stream.name).push(...eventRecords);
+
+    return eventRecords;
+  }
+
+  async getEvents(stream: Stream, options: GetEventsOptions) {
+    return this._getEvents(stream.name)
+      .filter(
+        (event) =>
+          (options.offset === undefined || event.offset >= options.offset) &&
+          (!options.from ||
+            event.createdAt.getTime() >= options.from.getTime()) &&
+          (!options.to || event.createdAt.getTime() < options.to.getTime()) &&
+          (!options.types ||
+            options.types.length === 0 ||
+            options.types.includes(event.type)),
+      )
+      .sort((a, b) => a.offset - b.offset)
+      .slice(0, options.limit);
+  }
+
+  async getConsumerGroups(stream: Stream) {
+    return Array.from(this._consumerGroupStore.values())
+      .filter((group) => group.stream === stream.name)
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async getConsumerGroup(stream: Stream, name: string) {
+    return (
+      this._consumerGroupStore.get(
+        this._getConsumerGroupKey(stream.name, name),
+      ) ?? null
+    );
+  }
+
+  async upsertConsumerGroup(stream: Stream, group: UpsertConsumerGroupBody) {
+    const now = new Date();
+    const key = this._getConsumerGroupKey(stream.name, group.name);
+    const existing = this._consumerGroupStore.get(key);
+    const groupRecord = {
+      ...group,
+      stream: stream.name,
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now,
+    };
+
+    this._consumerGroupStore.set(key, groupRecord);
+
+    return groupRecord;
+  }
+
+  async deleteConsumerGroup(stream: Stream, name: string) {
+    this._consumerGroupStore.delete(
+      this._getConsumerGroupKey(stream.name, name),
+    );
+  }
+}
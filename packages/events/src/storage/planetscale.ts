@@ -0,0 +1,444 @@
+import {
+  type ColumnType,
+  type CompiledQuery,
+  type Migrations,
+  type Selectable,
+} from "@workertown/internal-storage";
+import { PlanetscaleStorageAdapter as BasePlanetscaleStorageAdapter } from "@workertown/internal-storage/planetscale";
+
+import {
+  type AppendEventBody,
+  type ConsumerGroup,
+  type GetEventsOptions,
+  type StorageAdapter,
+  type Stream,
+  type StreamEvent,
+  type UpsertConsumerGroupBody,
+  type UpsertStreamBody,
+} from "./storage-adapter.js";
+
+interface StreamsTable {
+  name: string;
+  types: string | null;
+  next_offset: number;
+  created_at: ColumnType<number, number, never>;
+  updated_at: ColumnType<number, number, number>;
+}
+
+type StreamRow = Selectable<StreamsTable>;
+
+interface EventsTable {
+  stream: string;
+  offset: number;
+  type: string;
+  data: string;
+  created_at: ColumnType<number, number, never>;
+}
+
+type EventRow = Selectable<EventsTable>;
+
+interface ConsumerGroupsTable {
+  stream: string;
+  name: string;
+  offset: number;
+  created_at: ColumnType<number, number, never>;
+  updated_at: ColumnType<number, number, number>;
+}
+
+type ConsumerGroupRow = Selectable<ConsumerGroupsTable>;
+
+// Keeps the number of bound parameters per query at a sensible size
+const CHUNK_SIZE = 10;
+
+// How many times an append retries reserving offsets when it loses a race
+// with a concurrent append to the same stream
+const MAX_RESERVE_ATTEMPTS = 10;
+
+function chunk<T>(items: T[]) {
+  const chunks: T[][] = [];
+
+  for (let i = 0; i < items.length; i += CHUNK_SIZE) {
+    chunks.push(items.slice(i, i + CHUNK_SIZE));
+  }
+
+  return chunks;
+}
+
+export interface DatabaseSchema {
+  wt_events_streams: StreamsTable;
+  wt_events_events: EventsTable;
+  wt_events_consumer_groups: ConsumerGroupsTable;
+}
+
+const MIGRATIONS: Migrations = [
+  {
+    name: "1688823193041_add_initial_tables_and_indexes",
+    migration: {
+      async up(db) {
+        await db.schema
+          .createTable("wt_events_streams")
+          .ifNotExists()
+          .addColumn("name", "varchar(255)", (col) => col.notNull())
+          .addColumn("types", "text")
+          .addColumn("next_offset", "bigint", (col) => col.notNull())
+          .addColumn("created_at", "bigint", (col) => col.notNull())
+          .addColumn("updated_at", "bigint", (col) => col.notNull())
+          .execute();
+
+        await db.schema
+          .createIndex("wt_events_streams_name_idx")
+          .unique()
+          .ifNotExists()
+          .on("wt_events_streams")
+          .columns(["name"])
+          .execute();
+
+        await db.schema
+          .createTable("wt_events_events")
+          .ifNotExists()
+          .addColumn("stream", "varchar(255)", (col) => col.notNull())
+          .addColumn("offset", "bigint", (col) => col.notNull())
+          .addColumn("type", "varchar(255)", (col) => col.notNull())
+          .addColumn("data", "text", (col) => col.notNull())
+          .addColumn("created_at", "bigint", (col) => col.notNull())
+          .execute();
+
+        await db.schema
+          .createIndex("wt_events_events_stream_offset_idx")
+          .unique()
+          .ifNotExists()
+          .on("wt_events_events")
+          .columns(["stream", "offset"])
+          .execute();
+
+        await db.schema
+          .createIndex("wt_events_events_stream_created_at_idx")
+          .ifNotExists()
+          .on("wt_events_events")
+          .columns(["stream", "created_at"])
+          .execute();
+
+        await db.schema
+          .createTable("wt_events_consumer_groups")
+          .ifNotExists()
+          .addColumn("stream", "varchar(255)", (col) => col.notNull())
+          .addColumn("name", "varchar(255)", (col) => col.notNull())
+          .addColumn("offset", "bigint", (col) => col.notNull())
+          .addColumn("created_at", "bigint", (col) => col.notNull())
+          .addColumn("updated_at", "bigint", (col) => col.notNull())
+          .execute();
+
+        await db.schema
+          .createIndex("wt_events_consumer_groups_stream_name_idx")
+          .unique()
+          .ifNotExists()
+          .on("wt_events_consumer_groups")
+          .columns(["stream", "name"])
+          .execute();
+      },
+      async down(db) {
+        await db.schema
+          .dropIndex("wt_events_consumer_groups_stream_name_idx")
+          .ifExists()
+          .execute();
+
+        await db.schema
+          .dropTable("wt_events_consumer_groups")
+          .ifExists()
+          .execute();
+
+        await db.schema
+          .dropIndex("wt_events_events_stream_created_at_idx")
+          .ifExists()
+          .execute();
+
+        await db.schema
+          .dropIndex("wt_events_events_stream_offset_idx")
+          .ifExists()
+          .execute();
+
+        await db.schema.dropTable("wt_events_events").ifExists().execute();
+
+        await db.schema
+          .dropIndex("wt_events_streams_name_idx")
+          .ifExists()
+          .execute();
+
+        await db.schema.dropTable("wt_events_streams").ifExists().execute();
+      },
+    },
+  },
+];
+
+export class PlanetscaleStorageAdapter
+  extends BasePlanetscaleStorageAdapter<DatabaseSchema>
+  implements StorageAdapter
+{
+  public readonly migrations = MIGRATIONS;
+
+  public readonly migrationsPrefix = "wt_events";
+
+  private _formatStream(stream: StreamRow): Stream {
+    return {
+      name: stream.name,
+      types: stream.types ? JSON.parse(stream.types) : null,
+      nextOffset: Number(stream.next_offset),
+      createdAt: new Date(Number(stream.created_at)),
+      updatedAt: new Date(Number(stream.updated_at)),
+    };
+  }
+
+  private _formatEvent(event: EventRow): StreamEvent {
+    return {
+      stream: event.stream,
+      offset: Number(event.offset),
+      type: event.type,
+      data: JSON.parse(event.data),
+      createdAt: new Date(Number(event.created_at)),
+    };
+  }
+
+  private _formatConsumerGroup(group: ConsumerGroupRow): ConsumerGroup {
+    return {
+      name: group.name,
+      stream: group.stream,
+      offset: Number(group.offset),
+      createdAt: new Date(Number(group.created_at)),
+      updatedAt: new Date(Number(group.updated_at)),
+    };
+  }
+
+  async getStreams() {
+    const records = await this.client
+      .selectFrom("wt_events_streams")
+      .selectAll()
+      .orderBy("name", "asc")
+      .execute();
+
+    return records.map((record) => this._formatStream(record));
+  }
+
+  async getStream(name: string) {
+    const record = await this.client
+      .selectFrom("wt_events_streams")
+      .selectAll()
+      .where("name", "=", name)
+      .executeTakeFirst();
+
+    if (!record) {
+      return null;
+    }
+
+    return this._formatStream(record);
+  }
+
+  async upsertStream(stream: UpsertStreamBody) {
+    const now = Date.now();
+    const existing = await this.getStream(stream.name);
+    const types = stream.types ? JSON.stringify(stream.types) : null;
+
+    if (existing) {
+      await this.client
+        .updateTable("wt_events_streams")
+        .set({ types, updated_at: now })
+        .where("name", "=", stream.name)
+        .execute();
+    } else {
+      await this.client
+        .insertInto("wt_events_streams")
+        .values({
+          name: stream.name,
+          types,
+          next_offset: 0,
+          created_at: now,
+          updated_at: now,
+        })
+        .execute();
+    }
+
+    return {
+      ...stream,
+      nextOffset: existing?.nextOffset ?? 0,
+      createdAt: existing?.createdAt ?? new Date(now),
+      updatedAt: new Date(now),
+    };
+  }
+
+  async deleteStream(name: string) {
+    await this.client
+      .deleteFrom("wt_events_consumer_groups")
+      .where("stream", "=", name)
+      .execute();
+
+    await this.client
+      .deleteFrom("wt_events_events")
+      .where("stream", "=", name)
+      .execute();
+
+    await this.client
+      .deleteFrom("wt_events_streams")
+      .where("name", "=", name)
+      .execute();
+  }
+
+  // Runs the queries in a single transaction
+  protected async _executeQueries(queries: CompiledQuery[]) {
+    await this.client.transaction().execute(async (trx) => {
+      for (const query of queries) {
+        await trx.executeQuery(query);
+      }
+    });
+  }
+
+  private async _getNextOffset(stream: Stream) {
+    const record = await this.client
+      .selectFrom("wt_events_streams")
+      .select("next_offset")
+      .where("name", "=", stream.name)
+      .executeTakeFirstOrThrow();
+
+    return Number(record.next_offset);
+  }
+
+  async appendEvents(stream: Stream, events: AppendEventBody[]) {
+    const now = Date.now();
+
+    // Offsets are reserved by only moving `next_offset` on from the value that
+    // was just read, in the same transaction as the events are inserted. If a
+    // concurrent append got there first, it has already inserted an event at
+    // that offset, so the unique index fails the whole transaction, and the
+    // loser of the race reads the new value and retries
+    for (let attempt = 0; attempt < MAX_RESERVE_ATTEMPTS; attempt++) {
+      const offset = await this._getNextOffset(stream);
+      const records = events.map((event, index) => ({
+        stream: stream.name,
+        offset: offset + index,
+        type: event.type,
+        data: JSON.stringify(event.data ?? null),
+        created_at: now,
+      }));
+
+      try {
+        await this._executeQueries([
+          this.client
+            .updateTable("wt_events_streams")
+            .set({ next_offset: offset + events.length })
+            .where("name", "=", stream.name)
+            .where("next_offset", "=", offset)
+            .compile(),
+          ...chunk(records).map((recordsChunk) =>
+            this.client
+              .insertInto("wt_events_events")
+              .values(recordsChunk)
+              .compile(),
+          ),
+        ]);
+
+        return records.map((record) => this._formatEvent(record));
+      } catch (error) {
+        // Anything other than losing the race is passed on
+        if ((await this._getNextOffset(stream)) === offset) {
+          throw error;
+        }
+      }
+    }
+
+    throw new Error(`Unable to reserve offsets for stream "${stream.name}"`);
+  }
+
+  async getEvents(stream: Stream, options: GetEventsOptions) {
+    let query = this.client
+      .selectFrom("wt_events_events")
+      .selectAll()
+      .where("stream", "=", stream.name);
+
+    if (options.offset !== undefined) {
+      query = query.where("offset", ">=", options.offset);
+    }
+
+    if (options.from) {
+      query = query.where("created_at", ">=", options.from.getTime());
+    }
+
+    if (options.to) {
+      query = query.where("created_at", "<", options.to.getTime());
+    }
+
+    if (options.types && options.types.length > 0) {
+      query = query.where("type", "in", options.types);
+    }
+
+    const records = await query
+      .orderBy("offset", "asc")
+      .limit(options.limit)
+      .execute();
+
+    return records.map((record) => this._formatEvent(record));
+  }
+
+  async getConsumerGroups(stream: Stream) {
+    const records = await this.client
+      .selectFrom("wt_events_consumer_groups")
+      .selectAll()
+      .where("stream", "=", stream.name)
+      .orderBy("name", "asc")
+      .execute();
+
+    return records.map((record) => this._formatConsumerGroup(record));
+  }
+
+  async getConsumerGroup(stream: Stream, name: string) {
+    const record = await this.client
+      .selectFrom("wt_events_consumer_groups")
+      .selectAll()
+      .where("stream", "=", stream.name)
+      .where("name", "=", name)
+      .executeTakeFirst();
+
+    if (!record) {
+      return null;
+    }
+
+    return this._formatConsumerGroup(record);
+  }
+
+  async upsertConsumerGroup(stream: Stream, group: UpsertConsumerGroupBody) {
+    const now = Date.now();
+    const existing = await this.getConsumerGroup(stream, group.name);
+
+    if (existing) {
+      await this.client
+        .updateTable("wt_events_consumer_groups")
+        .set({ offset: group.offset, updated_at: now })
+        .where("stream", "=", stream.name)
+        .where("name", "=", group.name)
+        .execute();
+    } else {
+      await this.client
+        .insertInto("wt_events_consumer_groups")
+        .values({
+          stream: stream.name,
+          name: group.name,
+          offset: group.offset,
+          created_at: now,
+          updated_at: now,
+        })
+        .execute();
+    }
+
+    return {
+      ...group,
+      stream: stream.name,
+      createdAt: existing?.createdAt ?? new Date(now),
+      updatedAt: new Date(now),
+    };
+  }
+
+  async deleteConsumerGroup(stream: Stream, name: string) {
+    await this.client
+      .deleteFrom("wt_events_consumer_groups")
+      .where("stream", "=", stream.name)
+      .where("name", "=", name)
+      .execute();
+  }
+}
@@ -0,0 +1,122 @@
+import { StorageAdapter as BaseStorageAdapter } from "@workertown/internal-storage";
+
+export interface Stream {
+  name: string;
+  // The event types that can be appended to the stream, or `null` for any
+  types: string[] | null;
+  // The offset that the next appended event will be given
+  nextOffset: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface StreamEvent {
+  stream: string;
+  offset: number;
+  type: string;
+  data: unknown;
+  createdAt: Date;
+}
+
+export interface ConsumerGroup {
+  name: string;
+  stream: string;
+  // The committed offset, i.e. the offset of the next event to be read
+  offset: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface UpsertStreamBody {
+  name: string;
+  types: string[] | null;
+}
+
+export interface AppendEventBody {
+  type: string;
+  data?: unknown;
+}
+
+export interface GetEventsOptions {
+  offset?: number;
+  from?: Date;
+  to?: Date;
+  types?: string[];
+  limit: number;
+}
+
+export interface UpsertConsumerGroupBody {
+  name: string;
+  offset: number;
+}
+
+export class StorageAdapter extends BaseStorageAdapter {
+  public async getStreams(): Promise<Stream[]> {
+    throw new Error("'getStreams()' not implemented");
+  }
+
+  // biome-ignore lint/correctness/noUnusedVariables: Stub class
+  public async getStream(name: string): Promise<Stream | null> {
+    throw new Error("'getStream()' not implemented");
+  }
+
+  // biome-ignore lint/correctness/noUnusedVariables: Stub class
+  public async upsertStream(stream: UpsertStreamBody): Promise<Stream> {
+    throw new Error("'upsertStream()' not implemented");
+  }
+
+  // biome-ignore lint/correctness/noUnusedVariables: Stub class
+  public async deleteStream(name: string): Promise<void> {
+    throw new Error("'deleteStream()' not implemented");
+  }
+
+  public async appendEvents(
+    // biome-ignore lint/correctness/noUnusedVariables: Stub class
+    stream: Stream,
+    // biome-ignore lint/correctness/noUnusedVariables: Stub class
+    events: AppendEventBody[],
+  ): Promise<StreamEvent[]> {
+    throw new Error("'appendEvents()' not implemented");
+  }
+
+  public async getEvents(
+    // biome-ignore lint/correctness/noUnusedVariables: Stub class
+    stream: Stream,
+    // biome-ignore lint/correctness/noUnusedVariables: Stub class
+    options: GetEventsOptions,
+  ): Promise<StreamEvent[]> {
+    throw new Error("'getEvents()' not implemented");
+  }
+
+  // biome-ignore lint/correctness/noUnusedVariables: Stub class
+  public async getConsumerGroups(stream: Stream): Promise<ConsumerGroup[]> {
+    throw new Error("'getConsumerGroups()' not implemented");
+  }
+
+  public async getConsumerGroup(
+    // biome-ignore lint/correctness/noUnusedVariables: Stub class
+    stream: Stream,
+    // biome-ignore lint/correctness/noUnusedVariables: Stub class
+    name: string,
+  ): Promise<ConsumerGroup | null> {
+    throw new Error("'getConsumerGroup()' not implemented");
+  }
+
+  public async upsertConsumerGroup(
+    // biome-ignore lint/correctness/noUnusedVariables: Stub class
+    stream: Stream,
+    // biome-ignore lint/correctness/noUnusedVariables: Stub class
+    group: UpsertConsumerGroupBody,
+  ): Promise<ConsumerGroup> {
+    throw new Error("'upsertConsumerGroup()' not implemented");
+  }
+
+  public async deleteConsumerGroup(
+    // biome-ignore lint/correctness/noUnusedVariables: Stub class
+    stream: Stream,
+    // biome-ignore lint/correctness/noUnusedVariables: Stub class
+    name: string,
+  ): Promise<void> {
+    throw new Error("'deleteConsumerGroup()' not implemented");
+  }
+}
@@ -0,0 +1,34 @@
+import { type ServerOptions as BaseServerOptions } from "@workertown/internal-server";
+
+import { type StorageAdapter } from "./storage/index.js";
+
+export interface ServerOptions extends BaseServerOptions {
+  endpoints: {
+    v1: {
+      admin: string | false;
+      streams: string | false;
+    };
+    public: string | false;
+  };
+  env: {
+    db: string;
+  };
+  events: {
+    // The maximum number of events that can be read in a single request
+    maxReadLimit: number;
+  };
+  runtime?: RuntimeResolver;
+}
+
+export type Context = {
+  config: ServerOptions;
+  storage: StorageAdapter;
+};
+
+export interface Runtime {
+  storage: StorageAdapter;
+}
+
+export type RuntimeResolver =
+  | Runtime
+  | ((config: ServerOptions, env: Record<string, unknown>) => Runtime);
@@ -0,0 +1,89 @@
+import events, {
+  type ConsumerGroup,
+  type ServerOptions,
+  type Stream,
+  type StreamEvent,
+} from "../src";
+import { runtime } from "../src/runtime/test";
+
+const STREAMS: Stream[] = [
+  {
+    name: "test",
+    types: ["created", "updated"],
+    nextOffset: 3,
+    createdAt: new Date(Date.now() - 5000),
+    updatedAt: new Date(Date.now() - 5000),
+  },
+];
+
+const EVENTS: StreamEvent[] = [
+  {
+    stream: "test",
+    offset: 0,
+    type: "created",
+    data: { test: 1 },
+    createdAt: new Date(Date.now() - 3000),
+  },
+  {
+    stream: "test",
+    offset: 1,
+    type: "updated",
+    data: { test: 2 },
+    createdAt: new Date(Date.now() - 2000),
+  },
+  {
+    stream: "test",
+    offset: 2,
+    type: "updated",
+    data: { test: 3 },
+    createdAt: new Date(Date.now() - 1000),
+  },
+];
+
+const CONSUMER_GROUPS: ConsumerGroup[] = [
+  {
+    name: "group",
+    stream: "test",
+    offset: 1,
+    createdAt: new Date(Date.now() - 5000),
+    updatedAt: new Date(Date.now() - 5000),
+  },
+];
+
+export function createTestService(
+  options: ServerOptions = {},
+  initialStreams: Stream[] = STREAMS,
+  initialEvents: StreamEvent[] = EVENTS,
+  initialConsumerGroups: ConsumerGroup[] = CONSUMER_GROUPS,
+) {
+  return events({
+    ...options,
+    auth: { apiKey: { apiKey: "test" } },
+    logger: false,
+
+    runtime: (config, env) =>
+      runtime(config, env, {
+        initialStreams,
+        initialEvents,
+        initialConsumerGroups,
+      }),
+  });
+}
+
+export function makeRequest(
+  service: ReturnType<typeof events>,
+  path: string,
+  {
+    method = "GET",
+    body,
+  }: { method?: "GET" | "POST" | "PUT" | "DELETE"; body?: unknown } = {},
+) {
+  return service.request(path, {
+    method,
+    headers: {
+      Authorization: "Bearer test",
+      "Content-Type": "application/json",
+    },
+    body: body ? JSON.stringify(body) : undefined,
+  });
+}
@@ -0,0 +1,110 @@
+import test from "ava";
+
+import { ClientError, createEventsClient } from "../src/client";
+import { createTestService } from "./_utils";
+
+function createTestClient(service = createTestService()) {
+  return createEventsClient({ fetch: service.request, token: "test" });
+}
+
+test("client streams", async (t) => {
+  const client = createTestClient();
+  const streams = await client.getStreams();
+
+  t.is(streams.length, 1);
+  t.is(streams[0]?.name, "test");
+});
+
+test("client streams get, upsert, delete", async (t) => {
+  const client = createTestClient();
+
+  t.is(await client.getStream("other"), null);
+
+  const stream = await client.upsertStream("other", { types: ["created"] });
+
+  t.is(stream.name, "other");
+  t.deepEqual(stream.types, ["created"]);
+  t.is((await client.getStream("other"))?.nextOffset, 0);
+  t.deepEqual(await client.deleteStream("other"), { name: "other" });
+  t.is(await client.getStream("other"), null);
+});
+
+test("client append, read", async (t) => {
+  const client = createTestClient();
+  const event = await client.appendEvent("test", "created", { test: 4 });
+
+  t.is(event.offset, 3);
+
+  const events = await client.appendEvents("test", [
+    { type: "updated", data: { test: 5 } },
+    { type: "updated", data: { test: 6 } },
+  ]);
+
+  t.is(events.length, 2);
+
+  const read = await client.getEvents<{ test: number }>("test", {
+    offset: 2,
+    types: ["updated"],
+  });
+
+  t.deepEqual(
+    read.map((event) => event.data.test),
+    [3, 5, 6],
+  );
+
+  const ranged = await client.getEvents("test", {
+    from: new Date(Date.now() - 2500),
+    to: new Date(Date.now() - 1500),
+  });
+
+  t.deepEqual(
+    ranged.map((event) => event.offset),
+    [1],
+  );
+});
+
+test("client consumer groups", async (t) => {
+  const client = createTestClient();
+
+  t.is((await client.getConsumerGroups("test")).length, 1);
+  t.is(await client.getConsumerGroup("test", "other"), null);
+
+  const group = await client.upsertConsumerGroup("test", "other", {
+    offset: "latest",
+  });
+
+  t.is(group.offset, 3);
+  t.is(group.lag, 0);
+
+  const events = await client.getConsumerGroupEvents("test", "group");
+
+  t.deepEqual(
+    events.map((event) => event.offset),
+    [1, 2],
+  );
+
+  const committed = await client.commitOffset("test", "group", 3);
+
+  t.is(committed.lag, 0);
+  t.is((await client.getConsumerGroupEvents("test", "group")).length, 0);
+  t.deepEqual(await client.deleteConsumerGroup("test", "other"), {
+    name: "other",
+  });
+});
+
+test("client missing stream", async (t) => {
+  const client = createTestClient();
+  const error = await t.throwsAsync(client.getEvents("other"), {
+    instanceOf: ClientError,
+  });
+
+  t.is(error?.status, 404);
+});
+
+test("client admin", async (t) => {
+  const client = createTestClient();
+  const info = await client.info();
+
+  t.truthy(info.endpoints);
+  t.deepEqual(await client.migrate(), []);
+});
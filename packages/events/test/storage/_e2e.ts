@@ -0,0 +1,187 @@
+import { type ExecutionContext } from "ava";
+
+import { StorageAdapter } from "../../src/storage";
+
+export async function testStorageAdapterE2E(
+  t: ExecutionContext,
+  storage: StorageAdapter,
+) {
+  // Create tables
+  await storage.runMigrations();
+
+  // Create stream
+  const stream = await storage.upsertStream({
+    name: "test",
+    types: null,
+  });
+
+  t.is(stream.name, "test");
+  t.is(stream.nextOffset, 0);
+
+  // Get streams
+  const getStreamResult = await storage.getStream("test");
+
+  t.is(getStreamResult?.types, null);
+
+  const dontGetStreamResult = await storage.getStream("other");
+
+  t.is(dontGetStreamResult, null);
+
+  const getStreamsResult = await storage.getStreams();
+
+  t.is(getStreamsResult.length, 1);
+
+  // Update stream
+  const updateStreamResult = await storage.upsertStream({
+    name: "test",
+    types: ["created", "updated"],
+  });
+
+  t.deepEqual(updateStreamResult.types, ["created", "updated"]);
+  t.deepEqual((await storage.getStream("test"))?.types, ["created", "updated"]);
+
+  // Append events
+  const appendResult = await storage.appendEvents(updateStreamResult, [
+    { type: "created", data: { test: 1 } },
+    { type: "updated", data: { test: 2 } },
+  ]);
+
+  t.deepEqual(
+    appendResult.map((event) => event.offset),
+    [0, 1],
+  );
+  t.deepEqual(appendResult[0]?.data, { test: 1 });
+
+  const appendAgainResult = await storage.appendEvents(updateStreamResult, [
+    { type: "updated" },
+  ]);
+
+  t.is(appendAgainResult[0]?.offset, 2);
+  t.is(appendAgainResult[0]?.data, null);
+  t.is((await storage.getStream("test"))?.nextOffset, 3);
+
+  // Read events
+  const getEventsResult = await storage.getEvents(updateStreamResult, {
+    limit: 10,
+  });
+
+  t.deepEqual(
+    getEventsResult.map((event) => event.offset),
+    [0, 1, 2],
+  );
+
+  const getEventsByOffsetResult = await storage.getEvents(updateStreamResult, {
+    offset: 1,
+    limit: 1,
+  });
+
+  t.deepEqual(
+    getEventsByOffsetResult.map((event) => event.offset),
+    [1],
+  );
+
+  const getEventsByTypeResult = await storage.getEvents(updateStreamResult, {
+    types: ["updated"],
+    limit: 10,
+  });
+
+  t.deepEqual(
+    getEventsByTypeResult.map((event) => event.offset),
+    [1, 2],
+  );
+
+  const getEventsByTimeResult = await storage.getEvents(updateStreamResult, {
+    from: new Date(Date.now() + 60000),
+    limit: 10,
+  });
+
+  t.is(getEventsByTimeResult.length, 0);
+
+  const getEventsBeforeResult = await storage.getEvents(updateStreamResult, {
+    to: new Date(Date.now() + 60000),
+    limit: 10,
+  });
+
+  t.is(getEventsBeforeResult.length, 3);
+
+  // Append events concurrently
+  const concurrentResults = await Promise.all(
+    Array.from({ length: 5 }, () =>
+      storage.appendEvents(updateStreamResult, [
+        { type: "created" },
+        { type: "updated" },
+      ]),
+    ),
+  );
+
+  t.deepEqual(
+    concurrentResults
+      .flat()
+      .map((event) => event.offset)
+      .sort((a, b) => a - b),
+    [3, 4, 5, 6, 7, 8, 9, 10, 11, 12],
+  );
+  t.true(
+    concurrentResults.every(
+      ([created, updated]) => updated?.offset === (created?.offset ?? 0) + 1,
+    ),
+  );
+  t.is((await storage.getStream("test"))?.nextOffset, 13);
+  t.is(
+    (await storage.getEvents(updateStreamResult, { offset: 3, limit: 100 }))
+      .length,
+    10,
+  );
+
+  // Create consumer group
+  const group = await storage.upsertConsumerGroup(updateStreamResult, {
+    name: "group",
+    offset: 0,
+  });
+
+  t.is(group.name, "group");
+  t.is(group.stream, "test");
+
+  // Get consumer groups
+  const getGroupResult = await storage.getConsumerGroup(
+    updateStreamResult,
+    "group",
+  );
+
+  t.is(getGroupResult?.offset, 0);
+
+  const dontGetGroupResult = await storage.getConsumerGroup(
+    updateStreamResult,
+    "other",
+  );
+
+  t.is(dontGetGroupResult, null);
+  t.is((await storage.getConsumerGroups(updateStreamResult)).length, 1);
+
+  // Commit offset
+  await storage.upsertConsumerGroup(updateStreamResult, {
+    name: "group",
+    offset: 2,
+  });
+
+  t.is(
+    (await storage.getConsumerGroup(updateStreamResult, "group"))?.offset,
+    2,
+  );
+
+  // Delete consumer group
+  await storage.deleteConsumerGroup(updateStreamResult, "group");
+
+  t.is(await storage.getConsumerGroup(updateStreamResult, "group"), null);
+
+  // Delete stream
+  await storage.upsertConsumerGroup(updateStreamResult, {
+    name: "group",
+    offset: 0,
+  });
+  await storage.deleteStream("test");
+
+  t.is(await storage.getStream("test"), null);
+  t.is((await storage.getEvents(updateStreamResult, { limit: 10 })).length, 0);
+  t.is((await storage.getConsumerGroups(updateStreamResult)).length, 0);
+}
@@ -0,0 +1,491 @@
+import test from "ava";
+
+import { createTestService, makeRequest } from "./_utils";
+
+interface SuccessfulResponse {
+  status: 200;
+  success: true;
+}
+
+interface ErrorResponse {
+  status: number;
+  success: false;
+  data: null;
+  error: string;
+}
+
+interface StreamResponse {
+  name: string;
+  types: string[] | null;
+  nextOffset: number;
+}
+
+interface EventResponse {
+  stream: string;
+  offset: number;
+  type: string;
+  data: unknown;
+}
+
+interface ConsumerGroupResponse {
+  name: string;
+  stream: string;
+  offset: number;
+  lag: number;
+}
+
+// Streams
+interface StreamsGetResponse extends SuccessfulResponse {
+  data: StreamResponse[];
+}
+
+interface StreamGetResponse extends SuccessfulResponse {
+  data: StreamResponse | null;
+}
+
+interface StreamDeleteResponse extends SuccessfulResponse {
+  data: { name: string };
+}
+
+interface EventAppendResponse extends SuccessfulResponse {
+  data: EventResponse;
+}
+
+interface EventsResponse extends SuccessfulResponse {
+  data: EventResponse[];
+}
+
+test("v1 streams get all", async (t) => {
+  const service = createTestService();
+  const res = await makeRequest(service, "/v1/streams");
+
+  t.is(res.status, 200);
+
+  const result = (await res.json()) as StreamsGetResponse;
+
+  t.is(result.data.length, 1);
+  t.is(result.data[0]?.name, "test");
+});
+
+test("v1 streams get", async (t) => {
+  const service = createTestService();
+  const res1 = await makeRequest(service, "/v1/streams/test");
+
+  t.is(res1.status, 200);
+
+  const result1 = (await res1.json()) as StreamGetResponse;
+
+  t.is(result1.data?.nextOffset, 3);
+  t.deepEqual(result1.data?.types, ["created", "updated"]);
+
+  const res2 = await makeRequest(service, "/v1/streams/other");
+
+  t.is(res2.status, 404);
+
+  const result2 = (await res2.json()) as StreamGetResponse;
+
+  t.is(result2.data, null);
+});
+
+test("v1 streams upsert", async (t) => {
+  const service = createTestService();
+  const res1 = await makeRequest(service, "/v1/streams/other", {
+    method: "PUT",
+    body: {},
+  });
+
+  t.is(res1.status, 200);
+
+  const result1 = (await res1.json()) as StreamGetResponse;
+
+  t.is(result1.data?.name, "other");
+  t.is(result1.data?.types, null);
+  t.is(result1.data?.nextOffset, 0);
+
+  const res2 = await makeRequest(service, "/v1/streams/test", {
+    method: "PUT",
+    body: { types: ["created"] },
+  });
+
+  t.is(res2.status, 200);
+
+  const result2 = (await res2.json()) as StreamGetResponse;
+
+  t.deepEqual(result2.data?.types, ["created"]);
+  t.is(result2.data?.nextOffset, 3);
+});
+
+test("v1 streams upsert w/ invalid body", async (t) => {
+  const service = createTestService();
+  const res = await makeRequest(service, "/v1/streams/other", {
+    method: "PUT",
+    body: { types: [] },
+  });
+
+  t.is(res.status, 400);
+});
+
+test("v1 streams delete", async (t) => {
+  const service = createTestService();
+  const res1 = await makeRequest(service, "/v1/streams/test", {
+    method: "DELETE",
+  });
+
+  t.is(res1.status, 200);
+
+  const result1 = (await res1.json()) as StreamDeleteResponse;
+
+  t.is(result1.data.name, "test");
+
+  const res2 = await makeRequest(service, "/v1/streams/test");
+
+  t.is(res2.status, 404);
+});
+
+test("v1 streams append", async (t) => {
+  const service = createTestService();
+  const res1 = await makeRequest(service, "/v1/streams/test/events", {
+    method: "POST",
+    body: { type: "created", data: { test: 4 } },
+  });
+
+  t.is(res1.status, 200);
+
+  const result1 = (await res1.json()) as EventAppendResponse;
+
+  t.is(result1.data.offset, 3);
+  t.deepEqual(result1.data.data, { test: 4 });
+
+  const res2 = await makeRequest(service, "/v1/streams/test/events", {
+    method: "POST",
+    body: {
+      events: [
+        { type: "updated", data: { test: 5 } },
+        { type: "updated", data: { test: 6 } },
+      ],
+    },
+  });
+
+  t.is(res2.status, 200);
+
+  const result2 = (await res2.json()) as EventsResponse;
+
+  t.deepEqual(
+    result2.data.map((event) => event.offset),
+    [4, 5],
+  );
+
+  const res3 = await makeRequest(service, "/v1/streams/test");
+  const result3 = (await res3.json()) as StreamGetResponse;
+
+  t.is(result3.data?.nextOffset, 6);
+});
+
+test("v1 streams append w/ invalid type", async (t) => {
+  const service = createTestService();
+  const res1 = await makeRequest(service, "/v1/streams/test/events", {
+    method: "POST",
+    body: {
+      events: [
+        { type: "created", data: {} },
+        { type: "deleted", data: {} },
+      ],
+    },
+  });
+
+  t.is(res1.status, 400);
+
+  const result1 = (await res1.json()) as ErrorResponse;
+
+  t.is(result1.error, 'Invalid event type "deleted"');
+
+  // Nothing from the batch is appended
+  const res2 = await makeRequest(service, "/v1/streams/test");
+  const result2 = (await res2.json()) as StreamGetResponse;
+
+  t.is(result2.data?.nextOffset, 3);
+});
+
+test("v1 streams append w/ missing stream", async (t) => {
+  const service = createTestService();
+  const res = await makeRequest(service, "/v1/streams/other/events", {
+    method: "POST",
+    body: { type: "created" },
+  });
+
+  t.is(res.status, 404);
+
+  const result = (await res.json()) as ErrorResponse;
+
+  t.false(result.success);
+  t.is(result.error, "Stream not found");
+});
+
+test("v1 streams read by offset", async (t) => {
+  const service = createTestService();
+  const res1 = await makeRequest(service, "/v1/streams/test/events");
+
+  t.is(res1.status, 200);
+
+  const result1 = (await res1.json()) as EventsResponse;
+
+  t.deepEqual(
+    result1.data.map((event) => event.offset),
+    [0, 1, 2],
+  );
+
+  const res2 = await makeRequest(
+    service,
+    "/v1/streams/test/events?offset=1&limit=1",
+  );
+  const result2 = (await res2.json()) as EventsResponse;
+
+  t.deepEqual(
+    result2.data.map((event) => event.offset),
+    [1],
+  );
+
+  const res3 = await makeRequest(
+    service,
+    "/v1/streams/test/events?types=created",
+  );
+  const result3 = (await res3.json()) as EventsResponse;
+
+  t.deepEqual(
+    result3.data.map((event) => event.offset),
+    [0],
+  );
+});
+
+test("v1 streams read by time range", async (t) => {
+  const service = createTestService();
+  const from = new Date(Date.now() - 2500).toISOString();
+  const to = new Date(Date.now() - 1500).toISOString();
+  const res1 = await makeRequest(
+    service,
+    `/v1/streams/test/events?from=${from}&to=${to}`,
+  );
+
+  t.is(res1.status, 200);
+
+  const result1 = (await res1.json()) as EventsResponse;
+
+  t.deepEqual(
+    result1.data.map((event) => event.offset),
+    [1],
+  );
+
+  const res2 = await makeRequest(
+    service,
+    "/v1/streams/test/events?from=not-a-date",
+  );
+
+  t.is(res2.status, 400);
+});
+
+// Consumer groups
+interface ConsumerGroupsGetResponse extends SuccessfulResponse {
+  data: ConsumerGroupResponse[];
+}
+
+interface ConsumerGroupGetResponse extends SuccessfulResponse {
+  data: ConsumerGroupResponse | null;
+}
+
+test("v1 consumer groups get all", async (t) => {
+  const service = createTestService();
+  const res = await makeRequest(service, "/v1/streams/test/consumers");
+
+  t.is(res.status, 200);
+
+  const result = (await res.json()) as ConsumerGroupsGetResponse;
+
+  t.is(result.data.length, 1);
+  t.is(result.data[0]?.name, "group");
+  t.is(result.data[0]?.lag, 2);
+});
+
+test("v1 consumer groups get", async (t) => {
+  const service = createTestService();
+  const res1 = await makeRequest(service, "/v1/streams/test/consumers/group");
+
+  t.is(res1.status, 200);
+
+  const result1 = (await res1.json()) as ConsumerGroupGetResponse;
+
+  t.is(result1.data?.offset, 1);
+
+  const res2 = await makeRequest(service, "/v1/streams/test/consumers/other");
+
+  t.is(res2.status, 404);
+
+  const result2 = (await res2.json()) as ConsumerGroupGetResponse;
+
+  t.is(result2.data, null);
+});
+
+test("v1 consumer groups upsert", async (t) => {
+  const service = createTestService();
+  const res1 = await makeRequest(service, "/v1/streams/test/consumers/other", {
+    method: "PUT",
+    body: {},
+  });
+
+  t.is(res1.status, 200);
+
+  const result1 = (await res1.json()) as ConsumerGroupGetResponse;
+
+  t.is(result1.data?.offset, 0);
+  t.is(result1.data?.lag, 3);
+
+  const res2 = await makeRequest(service, "/v1/streams/test/consumers/other", {
+    method: "PUT",
+    body: { offset: "latest" },
+  });
+  const result2 = (await res2.json()) as ConsumerGroupGetResponse;
+
+  t.is(result2.data?.offset, 3);
+  t.is(result2.data?.lag, 0);
+
+  const res3 = await makeRequest(service, "/v1/streams/test/consumers/other", {
+    method: "PUT",
+    body: { offset: 10 },
+  });
+
+  t.is(res3.status, 400);
+});
+
+test("v1 consumer groups delete", async (t) => {
+  const service = createTestService();
+  const res1 = await makeRequest(service, "/v1/streams/test/consumers/group", {
+    method: "DELETE",
+  });
+
+  t.is(res1.status, 200);
+
+  const res2 = await makeRequest(service, "/v1/streams/test/consumers/group");
+
+  t.is(res2.status, 404);
+});
+
+test("v1 consumer groups read and commit", async (t) => {
+  const service = createTestService();
+  const res1 = await makeRequest(
+    service,
+    "/v1/streams/test/consumers/group/events?limit=1",
+  );
+
+  t.is(res1.status, 200);
+
+  const result1 = (await res1.json()) as EventsResponse;
+
+  t.deepEqual(
+    result1.data.map((event) => event.offset),
+    [1],
+  );
+
+  const res2 = await makeRequest(
+    service,
+    "/v1/streams/test/consumers/group/commit",
+    { method: "POST", body: { offset: 2 } },
+  );
+
+  t.is(res2.status, 200);
+
+  const result2 = (await res2.json()) as ConsumerGroupGetResponse;
+
+  t.is(result2.data?.offset, 2);
+  t.is(result2.data?.lag, 1);
+
+  const res3 = await makeRequest(
+    service,
+    "/v1/streams/test/consumers/group/events",
+  );
+  const result3 = (await res3.json()) as EventsResponse;
+
+  t.deepEqual(
+    result3.data.map((event) => event.offset),
+    [2],
+  );
+
+  const res4 = await makeRequest(
+    service,
+    "/v1/streams/test/consumers/group/commit",
+    { method: "POST", body: { offset: 4 } },
+  );
+
+  t.is(res4.status, 400);
+
+  const res5 = await makeRequest(
+    service,
+    "/v1/streams/test/consumers/other/commit",
+    { method: "POST", body: { offset: 1 } },
+  );
+
+  t.is(res5.status, 404);
+
+  const result5 = (await res5.json()) as ErrorResponse;
+
+  t.is(result5.error, "Consumer group not found");
+});
+
+// Admin
+interface AdminInfoResponse extends SuccessfulResponse {
+  data: {
+    endpoints: {
+      v1: {
+        streams: string;
+      };
+    };
+  };
+}
+
+interface AdminMigrateResponse extends SuccessfulResponse {
+  data: true;
+}
+
+test("v1 admin info", async (t) => {
+  const service = createTestService({
+    endpoints: {
+      v1: {
+        streams: "/custom-streams",
+      },
+    },
+  });
+  const res = await makeRequest(service, "/v1/admin/info");
+
+  t.is(res.status, 200);
+
+  const result = (await res.json()) as AdminInfoResponse;
+
+  t.is(result.data.endpoints.v1.streams, "/custom-streams");
+});
+
+test("v1 admin migrate", async (t) => {
+  const service = createTestService();
+  const res = await makeRequest(service, "/v1/admin/migrate", {
+    method: "POST",
+  });
+
+  t.is(res.status, 200);
+
+  const result = (await res.json()) as AdminMigrateResponse;
+
+  t.deepEqual(result.data, []);
+});
+
+// Public
+interface PublicResponse {
+  openapi: "3.0.0";
+}
+
+test("v1 public open-api.json", async (t) => {
+  const service = createTestService();
+  const res = await makeRequest(service, "/open-api.json");
+
+  t.is(res.status, 200);
+
+  const result = (await res.json()) as PublicResponse;
+
+  t.is(result.openapi, "3.0.0");
+});
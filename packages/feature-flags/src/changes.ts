@@ -0,0 +1,27 @@
+export interface FlagChange {
+  type: "flag" | "segment";
+  name: string;
+}
+
+type FlagChangeListener = (change: FlagChange) => void;
+
+// Notifies the `/v1/stream` subscribers of the changes made to the flags and
+// segments. This is in memory, so only the changes made via the same server
+// instance are seen
+export class FlagChangeEmitter {
+  private readonly _listeners = new Set<FlagChangeListener>();
+
+  public subscribe(listener: FlagChangeListener) {
+    this._listeners.add(listener);
+
+    return () => {
+      this._listeners.delete(listener);
+    };
+  }
+
+  public emit(change: FlagChange) {
+    for (const listener of this._listeners) {
+      listener(change);
+    }
+  }
+}
@@ -0,0 +1,247 @@
+import {
+  Client,
+  ClientError,
+  type ClientFetch,
+  type ClientOptions,
+  type Serialized,
+} from "@workertown/internal-client";
+
+import {
+  type Flag,
+  type FlagRollout,
+  type FlagRule,
+  type FlagSchedule,
+  type FlagVariants,
+  type FlagVersion,
+  type Segment,
+  type SegmentIds,
+} from "../storage/storage-adapter.js";
+import { type AskDetailsResult, type AskResult } from "../types.js";
+
+export interface FeatureFlagsClientEndpoints {
+  v1: {
+    admin: string;
+    ask: string;
+    flags: string;
+    segments: string;
+    stream: string;
+  };
+}
+
+export type FeatureFlagsClientOptions =
+  ClientOptions<FeatureFlagsClientEndpoints>;
+
+export type FeatureFlagsClientFlag = Serialized<Flag>;
+
+export type FeatureFlagsClientFlagVersion = Serialized<FlagVersion>;
+
+export interface FeatureFlagsClientFlagStats {
+  name: string;
+  count: number;
+  lastEvaluatedAt: string | null;
+  variants: { variant: string | null; count: number }[];
+  buckets: { bucket: string; variant: string | null; count: number }[];
+}
+
+export type FeatureFlagsClientSegment = Serialized<Segment>;
+
+export interface GetFlagsOptions {
+  includeDisabled?: boolean;
+  // Only returns the flags that haven't been evaluated since this date
+  staleSince?: Date;
+}
+
+export interface GetFlagStatsOptions {
+  since?: Date;
+}
+
+export interface UpsertFlagOptions {
+  description?: string;
+  enabled?: boolean;
+  conditions?: FlagRule[];
+  rollout?: FlagRollout;
+  variants?: FlagVariants;
+  schedules?: FlagSchedule[];
+}
+
+export interface UpsertSegmentOptions {
+  description?: string;
+  ids?: SegmentIds;
+  conditions?: FlagRule[];
+}
+
+export interface AskOptions {
+  flags?: string[];
+  context?: Record<string, unknown>;
+}
+
+const DEFAULT_ENDPOINTS: FeatureFlagsClientEndpoints = {
+  v1: {
+    admin: "/v1/admin",
+    ask: "/v1/ask",
+    flags: "/v1/flags",
+    segments: "/v1/segments",
+    stream: "/v1/stream",
+  },
+};
+
+export class FeatureFlagsClient extends Client<FeatureFlagsClientEndpoints> {
+  constructor(options: FeatureFlagsClientOptions = {}) {
+    super(DEFAULT_ENDPOINTS, options);
+  }
+
+  async getFlags({ includeDisabled, staleSince }: GetFlagsOptions = {}) {
+    const { data } = await this.request<FeatureFlagsClientFlag[]>(
+      "GET",
+      this.endpoints.v1.flags,
+      {
+        query: {
+          include_disabled: includeDisabled,
+          stale_since: staleSince?.toISOString(),
+        },
+      },
+    );
+
+    return data;
+  }
+
+  async getFlag(name: string) {
+    const { data } = await this.request<FeatureFlagsClientFlag | null>(
+      "GET",
+      `${this.endpoints.v1.flags}/${encodeURIComponent(name)}`,
+    );
+
+    return data;
+  }
+
+  async upsertFlag(name: string, body: UpsertFlagOptions = {}) {
+    const { data } = await this.request<FeatureFlagsClientFlag>(
+      "PUT",
+      `${this.endpoints.v1.flags}/${encodeURIComponent(name)}`,
+      { body },
+    );
+
+    return data;
+  }
+
+  async deleteFlag(name: string) {
+    const { data } = await this.request<{ name: string }>(
+      "DELETE",
+      `${this.endpoints.v1.flags}/${encodeURIComponent(name)}`,
+    );
+
+    return data;
+  }
+
+  async getFlagHistory(name: string) {
+    const { data } = await this.request<FeatureFlagsClientFlagVersion[]>(
+      "GET",
+      `${this.endpoints.v1.flags}/${encodeURIComponent(name)}/history`,
+    );
+
+    return data;
+  }
+
+  async rollbackFlag(name: string, version: number) {
+    const { data } = await this.request<FeatureFlagsClientFlag>(
+      "POST",
+      `${this.endpoints.v1.flags}/${encodeURIComponent(
+        name,
+      )}/rollback/${version}`,
+    );
+
+    return data;
+  }
+
+  async getFlagStats(name: string, { since }: GetFlagStatsOptions = {}) {
+    const { data } = await this.request<FeatureFlagsClientFlagStats>(
+      "GET",
+      `${this.endpoints.v1.flags}/${encodeURIComponent(name)}/stats`,
+      { query: { since: since?.toISOString() } },
+    );
+
+    return data;
+  }
+
+  async getSegments() {
+    const { data } = await this.request<FeatureFlagsClientSegment[]>(
+      "GET",
+      this.endpoints.v1.segments,
+    );
+
+    return data;
+  }
+
+  async getSegment(name: string) {
+    const { data } = await this.request<FeatureFlagsClientSegment | null>(
+      "GET",
+      `${this.endpoints.v1.segments}/${encodeURIComponent(name)}`,
+    );
+
+    return data;
+  }
+
+  async upsertSegment(name: string, body: UpsertSegmentOptions) {
+    const { data } = await this.request<FeatureFlagsClientSegment>(
+      "PUT",
+      `${this.endpoints.v1.segments}/${encodeURIComponent(name)}`,
+      { body },
+    );
+
+    return data;
+  }
+
+  async deleteSegment(name: string) {
+    const { data } = await this.request<{ name: string }>(
+      "DELETE",
+      `${this.endpoints.v1.segments}/${encodeURIComponent(name)}`,
+    );
+
+    return data;
+  }
+
+  async ask(body: AskOptions = {}) {
+    const { data } = await this.request<AskResult[]>(
+      "POST",
+      this.endpoints.v1.ask,
+      { body },
+    );
+
+    return data;
+  }
+
+  // The same as `ask()`, but includes the flags that weren't served, and why
+  async explain(body: AskOptions = {}) {
+    const { data } = await this.request<AskDetailsResult[]>(
+      "POST",
+      this.endpoints.v1.ask,
+      { body: { ...body, explain: true } },
+    );
+
+    return data;
+  }
+
+  async info() {
+    const { data } = await this.request<Record<string, unknown>>(
+      "GET",
+      `${this.endpoints.v1.admin}/info`,
+    );
+
+    return data;
+  }
+
+  async migrate() {
+    const { data } = await this.request<unknown[]>(
+      "POST",
+      `${this.endpoints.v1.admin}/migrate`,
+    );
+
+    return data;
+  }
+}
+
+export function createFeatureFlagsClient(options?: FeatureFlagsClientOptions) {
+  return new FeatureFlagsClient(options);
+}
+
+export { ClientError, type AskDetailsResult, type AskResult, type ClientFetch };
@@ -0,0 +1,487 @@
+import {
+  type FlagCondition,
+  type FlagRule,
+  type Segment,
+} from "./storage/storage-adapter.js";
+
+interface Semver {
+  version: [number, number, number];
+  prerelease: string[];
+}
+
+const SEMVER_REGEX =
+  /^v?(\d+)(?:\.(\d+))?(?:\.(\d+))?(?:-([0-9A-Za-z.-]+))?(?:\+[0-9A-Za-z.-]+)?$/;
+
+// Parses a (loose) semantic version, where a missing minor or patch version is
+// treated as `0`, e.g. `1.2` is `1.2.0`
+export function parseSemver(value: string): Semver | null {
+  const match = value.trim().match(SEMVER_REGEX);
+
+  if (!match) {
+    return null;
+  }
+
+  return {
+    version: [
+      parseInt(match[1] as string, 10),
+      parseInt(match[2] ?? "0", 10),
+      parseInt(match[3] ?? "0", 10),
+    ],
+    prerelease: match[4]?.split(".") ?? [],
+  };
+}
+
+function compareSemver(a: Semver, b: Semver) {
+  for (let i = 0; i < 3; i++) {
+    const difference = (a.version[i] as number) - (b.version[i] as number);
+
+    if (difference !== 0) {
+      return difference;
+    }
+  }
+
+  // A pre-release version has a lower precedence than the release itself
+  if (a.prerelease.length === 0 || b.prerelease.length === 0) {
+    return b.prerelease.length - a.prerelease.length;
+  }
+
+  for (let i = 0; i < Math.max(a.prerelease.length, b.prerelease.length); i++) {
+    const aPart = a.prerelease[i];
+    const bPart = b.prerelease[i];
+
+    if (aPart === undefined || bPart === undefined) {
+      return aPart === undefined ? -1 : 1;
+    }
+
+    const aNumeric = /^\d+$/.test(aPart);
+    const bNumeric = /^\d+$/.test(bPart);
+
+    if (aNumeric && bNumeric) {
+      const difference = parseInt(aPart, 10) - parseInt(bPart, 10);
+
+      if (difference !== 0) {
+        return difference;
+      }
+    } else if (aNumeric !== bNumeric) {
+      return aNumeric ? -1 : 1;
+    } else if (aPart !== bPart) {
+      return aPart < bPart ? -1 : 1;
+    }
+  }
+
+  return 0;
+}
+
+// Parses an ISO 8601 date string, or a timestamp in milliseconds
+export function parseDate(value: unknown) {
+  const time =
+    typeof value === "number"
+      ? value
+      : typeof value === "string"
+      ? Date.parse(value)
+      : NaN;
+
+  return Number.isNaN(time) ? null : time;
+}
+
+function parseIpv4(value: string) {
+  const parts = value.split(".");
+
+  if (parts.length !== 4 || parts.some((part) => !/^\d{1,3}$/.test(part))) {
+    return null;
+  }
+
+  const bytes = parts.map((part) => parseInt(part, 10));
+
+  return bytes.every((byte) => byte <= 255) ? bytes : null;
+}
+
+function parseIpv6(value: string) {
+  const [address = ""] = value.split("%");
+  const halves = address.split("::");
+
+  if (halves.length > 2) {
+    return null;
+  }
+
+  const toBytes = (half: string) => {
+    const bytes: number[] = [];
+
+    for (const [i, group] of half.split(":").entries()) {
+      // The last group can be an embedded IPv4 address, e.g. `::ffff:1.2.3.4`
+      if (group.includes(".") && i === half.split(":").length - 1) {
+        const ipv4 = parseIpv4(group);
+
+        if (!ipv4) {
+          return null;
+        }
+
+        bytes.push(...ipv4);
+      } else if (/^[0-9a-f]{1,4}$/i.test(group)) {
+        const word = parseInt(group, 16);
+
+        bytes.push(word >> 8, word & 0xff);
+      } else {
+        return null;
+      }
+    }
+
+    return bytes;
+  };
+  const head = halves[0] ? toBytes(halves[0]) : [];
+  const tail = halves[1] ? toBytes(halves[1]) : [];
+
+  if (!head || !tail) {
+    return null;
+  }
+
+  if (halves.length === 1) {
+    return head.length === 16 ? head : null;
+  }
+
+  const padding = 16 - head.length - tail.length;
+
+  return padding > 0
+    ? [...head, ...new Array<number>(padding).fill(0), ...tail]
+    : null;
+}
+
+// Parses an IPv4 or IPv6 address into its bytes
+function parseIp(value: string) {
+  return value.includes(":") ? parseIpv6(value) : parseIpv4(value);
+}
+
+// Parses a CIDR block, e.g. `10.0.0.0/8` or `2001:db8::/32`, a plain address is
+// treated as a block of one
+export function parseCidr(value: string) {
+  const [address = "", prefix, ...rest] = value.trim().split("/");
+  const bytes = parseIp(address);
+
+  if (!bytes || rest.length > 0) {
+    return null;
+  }
+
+  const bits = prefix === undefined ? bytes.length * 8 : Number(prefix);
+
+  if (!Number.isInteger(bits) || bits < 0 || bits > bytes.length * 8) {
+    return null;
+  }
+
+  return { bytes, bits };
+}
+
+// Long patterns (and ones with nested quantifiers, e.g. `(a+)+`) can take
+// exponentially long to match, so they aren't allowed
+export const MAX_REGEX_LENGTH = 256;
+
+const NESTED_QUANTIFIER_REGEX =
+  /\((?:[^()\\]|\\.)*[+*}](?:[^()\\]|\\.)*\)[+*{]/;
+
+const MAX_CACHED_REGEXES = 1000;
+
+// The patterns are compiled once, rather than on every evaluation. `null` is
+// cached for the ones that aren't allowed (or don't compile), so they never
+// match
+const regexCache = new Map<string, RegExp | null>();
+
+export function parseRegex(pattern: string) {
+  const cached = regexCache.get(pattern);
+
+  if (cached !== undefined) {
+    return cached;
+  }
+
+  let regex: RegExp | null = null;
+
+  if (
+    pattern.length <= MAX_REGEX_LENGTH &&
+    !NESTED_QUANTIFIER_REGEX.test(pattern)
+  ) {
+    try {
+      regex = new RegExp(pattern);
+    } catch (_) {}
+  }
+
+  if (regexCache.size >= MAX_CACHED_REGEXES) {
+    regexCache.clear();
+  }
+
+  regexCache.set(pattern, regex);
+
+  return regex;
+}
+
+function matchesCidr(ip: string, cidr: string) {
+  const address = parseIp(ip.trim());
+  const block = parseCidr(cidr);
+
+  if (!address || !block || address.length !== block.bytes.length) {
+    return false;
+  }
+
+  for (let bit = 0; bit < block.bits; bit += 8) {
+    const remaining = Math.min(8, block.bits - bit);
+    const mask = (0xff << (8 - remaining)) & 0xff;
+    const i = bit / 8;
+
+    if (
+      ((address[i] as number) & mask) !==
+      ((block.bytes[i] as number) & mask)
+    ) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+// Gets the value of a (dot separated) field from the context. A key that
+// contains dots takes precedence over the nested path, so that existing flags
+// that target such keys keep working
+function getContextValue(context: Record<string, unknown>, field: string) {
+  if (Object.prototype.hasOwnProperty.call(context, field)) {
+    return context[field];
+  }
+
+  let value: unknown = context;
+
+  for (const key of field.split(".")) {
+    if (typeof value !== "object" || value === null) {
+      return undefined;
+    }
+
+    value = (value as Record<string, unknown>)[key];
+  }
+
+  return value;
+}
+
+function validateCondition(
+  context: Record<string, unknown>,
+  flagCondition: FlagCondition,
+) {
+  const value = getContextValue(context, flagCondition.field);
+  const conditionValues = Array.isArray(flagCondition.value)
+    ? flagCondition.value
+    : [flagCondition.value];
+
+  switch (flagCondition.operator) {
+    case "eq":
+      return value === flagCondition.value;
+    case "neq":
+      return value !== flagCondition.value;
+    case "gt":
+      return (
+        typeof value === "number" &&
+        typeof flagCondition.value === "number" &&
+        value > flagCondition.value
+      );
+    case "gte":
+      return (
+        typeof value === "number" &&
+        typeof flagCondition.value === "number" &&
+        value >= flagCondition.value
+      );
+    case "lt":
+      return (
+        typeof value === "number" &&
+        typeof flagCondition.value === "number" &&
+        value < flagCondition.value
+      );
+    case "lte":
+      return (
+        typeof value === "number" &&
+        typeof flagCondition.value === "number" &&
+        value <= flagCondition.value
+      );
+    case "in":
+      return (
+        Array.isArray(flagCondition.value) &&
+        // The `as never` is because of the array union type
+        flagCondition.value.includes(value as never)
+      );
+    case "nin":
+      return (
+        Array.isArray(flagCondition.value) &&
+        // The `as never` is because of the array union type
+        !flagCondition.value.includes(value as never)
+      );
+    case "startsWith":
+      return (
+        typeof value === "string" &&
+        typeof flagCondition.value === "string" &&
+        value.startsWith(flagCondition.value)
+      );
+    case "endsWith":
+      return (
+        typeof value === "string" &&
+        typeof flagCondition.value === "string" &&
+        value.endsWith(flagCondition.value)
+      );
+    case "contains":
+      if (Array.isArray(value)) {
+        return value.includes(flagCondition.value);
+      }
+
+      return (
+        typeof value === "string" &&
+        typeof flagCondition.value === "string" &&
+        value.includes(flagCondition.value)
+      );
+    case "regex":
+      return (
+        typeof value === "string" &&
+        typeof flagCondition.value === "string" &&
+        parseRegex(flagCondition.value)?.test(value) === true
+      );
+    case "semverEq":
+    case "semverGt":
+    case "semverGte":
+    case "semverLt":
+    case "semverLte": {
+      const version =
+        typeof value === "string" ? parseSemver(value) : undefined;
+      const conditionVersion =
+        typeof flagCondition.value === "string"
+          ? parseSemver(flagCondition.value)
+          : undefined;
+
+      if (!version || !conditionVersion) {
+        return false;
+      }
+
+      const comparison = compareSemver(version, conditionVersion);
+
+      return {
+        semverEq: comparison === 0,
+        semverGt: comparison > 0,
+        semverGte: comparison >= 0,
+        semverLt: comparison < 0,
+        semverLte: comparison <= 0,
+      }[flagCondition.operator];
+    }
+    case "before":
+    case "after": {
+      const time = parseDate(value);
+      const conditionTime = parseDate(flagCondition.value);
+
+      if (time === null || conditionTime === null) {
+        return false;
+      }
+
+      return flagCondition.operator === "before"
+        ? time < conditionTime
+        : time > conditionTime;
+    }
+    case "cidr":
+      return (
+        typeof value === "string" &&
+        conditionValues.some(
+          (cidr) => typeof cidr === "string" && matchesCidr(value, cidr),
+        )
+      );
+    default:
+      return false;
+  }
+}
+
+function validateRule(
+  context: Record<string, unknown>,
+  rule: FlagRule,
+): boolean {
+  if ("all" in rule) {
+    return rule.all.every((child) => validateRule(context, child));
+  }
+
+  if ("any" in rule) {
+    return rule.any.some((child) => validateRule(context, child));
+  }
+
+  if ("not" in rule) {
+    return !validateRule(context, rule.not);
+  }
+
+  // Segments are inlined by `resolveSegments()` ahead of time, so a reference
+  // that is still here is to a segment that doesn't exist
+  if ("segment" in rule) {
+    return false;
+  }
+
+  return validateCondition(context, rule);
+}
+
+// Checks the context against the flag's rules, which must *all* be met
+export function validateContext(
+  context: Record<string, unknown>,
+  rules: FlagRule[],
+) {
+  return rules.every((rule) => validateRule(context, rule));
+}
+
+// Only the parts of a segment that are needed to resolve it
+type SegmentRules = Pick<Segment, "name" | "ids" | "conditions">;
+
+// How deeply segments can be nested in other segments' conditions, past which
+// (or in a cycle) a segment never matches
+export const MAX_SEGMENT_DEPTH = 10;
+
+function resolveRule(
+  rule: FlagRule,
+  segments: Map<string, SegmentRules>,
+  // The segments that are being resolved, from the outermost one
+  path: string[],
+): FlagRule {
+  if ("all" in rule) {
+    return { all: rule.all.map((child) => resolveRule(child, segments, path)) };
+  }
+
+  if ("any" in rule) {
+    return { any: rule.any.map((child) => resolveRule(child, segments, path)) };
+  }
+
+  if ("not" in rule) {
+    return { not: resolveRule(rule.not, segments, path) };
+  }
+
+  if (!("segment" in rule)) {
+    return rule;
+  }
+
+  const segment =
+    path.includes(rule.segment) || path.length >= MAX_SEGMENT_DEPTH
+      ? undefined
+      : segments.get(rule.segment);
+  const members: FlagRule[] = [];
+
+  if (segment?.ids) {
+    members.push({
+      field: segment.ids.key,
+      operator: "in",
+      value: segment.ids.values,
+    });
+  }
+
+  if (segment?.conditions?.length) {
+    const segmentPath = [...path, segment.name];
+
+    members.push({
+      all: segment.conditions.map((condition) =>
+        resolveRule(condition, segments, segmentPath),
+      ),
+    });
+  }
+
+  // An empty `any` never matches, which is what we want for a segment that
+  // doesn't exist (or is empty)
+  return { any: members };
+}
+
+// Replaces the segment references in the rules with the segments' own rules, so
+// that they can be evaluated (and cached) without looking the segments up again
+export function resolveSegments(rules: FlagRule[], segments: SegmentRules[]) {
+  const segmentsByName = new Map(
+    segments.map((segment) => [segment.name, segment]),
+  );
+
+  return rules.map((rule) => resolveRule(rule, segmentsByName, []));
+}
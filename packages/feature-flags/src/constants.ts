@@ -4,6 +4,8 @@ export const CACHE = {
   FLAGS: {
     ALL: "flags:all",
     ENABLED: "flags:enabled",
+    // All of the flags, with their segments resolved
+    ASK: "flags:ask",
   },
 };
 
@@ -38,6 +40,26 @@ export const OPEN_API_SPEC: OpenApiSpec = {
               type: "string",
             },
           },
+          {
+            name: "stale_since",
+            in: "query",
+            description:
+              "Only include the feature flags that haven't been evaluated since this date (an ISO 8601 date string or a timestamp in milliseconds)",
+            required: false,
+            schema: {
+              type: "string",
+            },
+          },
+          {
+            name: "If-None-Match",
+            in: "header",
+            description:
+              "The ETag of a previous response, to only get the feature flags if they have changed",
+            required: false,
+            schema: {
+              type: "string",
+            },
+          },
         ],
         responses: {
           "200": {
@@ -50,6 +72,9 @@ export const OPEN_API_SPEC: OpenApiSpec = {
               },
             },
           },
+          "304": {
+            description: "The feature flags haven't changed",
+          },
           default: {
             description: "Unexpected error",
             content: {
@@ -193,30 +218,30 @@ export const OPEN_API_SPEC: OpenApiSpec = {
         },
       },
     },
-    "/v1/ask": {
-      post: {
-        summary: "Ask if feature flag are enabled for a given context",
+    "/v1/flags/{name}/history": {
+      get: {
+        summary: "Get the change history of a feature flag",
         security: [{ BasicAuth: [] }, { BearerAuth: [] }],
-        operationId: "ask",
-        tags: ["Ask"],
-        requestBody: {
-          description: "The context to ask about",
-          required: true,
-          content: {
-            "application/json": {
-              schema: {
-                $ref: "#/components/schemas/AskBody",
-              },
+        operationId: "getFlagHistory",
+        tags: ["Flags"],
+        parameters: [
+          {
+            name: "name",
+            in: "path",
+            required: true,
+            description: "The name of the feature flag",
+            schema: {
+              type: "string",
             },
           },
-        },
+        ],
         responses: {
           "200": {
-            description: "The enabled feature flags for the context",
+            description: "The versions of the feature flag, newest first",
             content: {
               "application/json": {
                 schema: {
-                  $ref: "#/components/schemas/AskResponse",
+                  $ref: "#/components/schemas/GetFlagHistoryResponse",
                 },
               },
             },
@@ -234,19 +259,40 @@ export const OPEN_API_SPEC: OpenApiSpec = {
         },
       },
     },
-    "/v1/admin/info": {
+    "/v1/flags/{name}/stats": {
       get: {
-        summary: "Get configuration information",
+        summary: "Get the evaluation stats of a feature flag",
         security: [{ BasicAuth: [] }, { BearerAuth: [] }],
-        operationId: "adminInfo",
-        tags: ["Admin"],
+        operationId: "getFlagStats",
+        tags: ["Flags"],
+        parameters: [
+          {
+            name: "name",
+            in: "path",
+            required: true,
+            description: "The name of the feature flag",
+            schema: {
+              type: "string",
+            },
+          },
+          {
+            name: "since",
+            in: "query",
+            description:
+              "Only include the evaluations since this date (an ISO 8601 date string or a timestamp in milliseconds)",
+            required: false,
+            schema: {
+              type: "string",
+            },
+          },
+        ],
         responses: {
           "200": {
-            description: "The current configuration",
+            description: "The evaluation stats of the feature flag",
             content: {
               "application/json": {
                 schema: {
-                  $ref: "#/components/schemas/AdminInfoResponse",
+                  $ref: "#/components/schemas/GetFlagStatsResponse",
                 },
               },
             },
@@ -264,19 +310,39 @@ export const OPEN_API_SPEC: OpenApiSpec = {
         },
       },
     },
-    "/v1/admin/migrate": {
+    "/v1/flags/{name}/rollback/{version}": {
       post: {
-        summary: "Run database migrations",
+        summary: "Roll a feature flag back to a previous version",
         security: [{ BasicAuth: [] }, { BearerAuth: [] }],
-        operationId: "adminMigrate",
-        tags: ["Admin"],
+        operationId: "rollbackFlag",
+        tags: ["Flags"],
+        parameters: [
+          {
+            name: "name",
+            in: "path",
+            required: true,
+            description: "The name of the feature flag",
+            schema: {
+              type: "string",
+            },
+          },
+          {
+            name: "version",
+            in: "path",
+            required: true,
+            description: "The version of the feature flag to roll back to",
+            schema: {
+              type: "integer",
+            },
+          },
+        ],
         responses: {
           "200": {
-            description: "The successfully run migrations",
+            description: "The feature flag",
             content: {
               "application/json": {
                 schema: {
-                  $ref: "#/components/schemas/AdminMigrateResponse",
+                  $ref: "#/components/schemas/RollbackFlagResponse",
                 },
               },
             },
@@ -294,19 +360,19 @@ export const OPEN_API_SPEC: OpenApiSpec = {
         },
       },
     },
-    "/health": {
+    "/v1/segments": {
       get: {
-        summary: "Get service health",
-        security: [],
-        operationId: "health",
-        tags: ["Public"],
+        summary: "Get all segments",
+        security: [{ BasicAuth: [] }, { BearerAuth: [] }],
+        operationId: "getAllSegments",
+        tags: ["Segments"],
         responses: {
           "200": {
-            description: "The service health status",
+            description: "An array of segments",
             content: {
               "application/json": {
                 schema: {
-                  $ref: "#/components/schemas/PublicHealthResponse",
+                  $ref: "#/components/schemas/GetAllSegmentsResponse",
                 },
               },
             },
@@ -324,120 +390,642 @@ export const OPEN_API_SPEC: OpenApiSpec = {
         },
       },
     },
-  },
-  components: {
-    securitySchemes: {
-      BasicAuth: {
-        type: "http",
-        scheme: "basic",
-      },
-      BearerAuth: {
-        type: "http",
-        scheme: "bearer",
-      },
-    },
-    schemas: {
-      Flag: {
-        properties: {
-          name: {
-            type: "string",
-            example: "example_flag",
-          },
-          description: {
-            type: "string",
-            example: "An example flag",
-          },
-          enabled: {
-            type: "boolean",
-            example: true,
+    "/v1/segments/{name}": {
+      get: {
+        summary: "Get a segment",
+        security: [{ BasicAuth: [] }, { BearerAuth: [] }],
+        operationId: "getSegment",
+        tags: ["Segments"],
+        parameters: [
+          {
+            name: "name",
+            in: "path",
+            required: true,
+            description: "The name of the segment",
+            schema: {
+              type: "string",
+            },
           },
-          conditions: {
-            type: "array",
-            items: {
-              type: "object",
-              properties: {
-                field: {
-                  type: "string",
-                  example: "test",
-                },
-                operator: {
-                  type: "string",
-                  example: "eq",
-                },
-                value: {
-                  anyOf: [
-                    { type: "string" },
-                    { type: "number" },
-                    { type: "boolean" },
-                  ],
+        ],
+        responses: {
+          "200": {
+            description: "The segment",
+            content: {
+              "application/json": {
+                schema: {
+                  $ref: "#/components/schemas/GetSegmentResponse",
                 },
               },
             },
           },
-          createdAt: {
-            type: "string",
-            format: "date-time",
-            example: "2023-08-07T07:48:53.852Z",
-          },
-          updatedAt: {
-            type: "string",
-            format: "date-time",
-            example: "2023-08-07T07:48:53.852Z",
+          default: {
+            description: "Unexpected error",
+            content: {
+              "application/json": {
+                schema: {
+                  $ref: "#/components/schemas/InternalServerErrorResponse",
+                },
+              },
+            },
           },
         },
       },
-      UpsertFlagBody: {
-        properties: {
-          description: {
-            type: "string",
-            example: "An example flag",
+      put: {
+        summary: "Upsert a segment",
+        security: [{ BasicAuth: [] }, { BearerAuth: [] }],
+        operationId: "upsertSegment",
+        tags: ["Segments"],
+        parameters: [
+          {
+            name: "name",
+            in: "path",
+            required: true,
+            description: "The name of the segment",
+            schema: {
+              type: "string",
+            },
           },
-          enabled: {
-            type: "boolean",
-            example: true,
+        ],
+        requestBody: {
+          description: "The segment to upsert",
+          required: true,
+          content: {
+            "application/json": {
+              schema: {
+                $ref: "#/components/schemas/UpsertSegmentBody",
+              },
+            },
           },
-          conditions: {
-            type: "array",
-            items: {
-              type: "object",
-              properties: {
-                field: {
-                  type: "string",
-                  example: "test",
-                },
-                operator: {
-                  type: "string",
-                  example: "eq",
+        },
+        responses: {
+          "200": {
+            description: "The segment",
+            content: {
+              "application/json": {
+                schema: {
+                  $ref: "#/components/schemas/UpsertSegmentResponse",
                 },
-                value: {
-                  anyOf: [
-                    { type: "string" },
-                    { type: "number" },
-                    { type: "boolean" },
-                  ],
+              },
+            },
+          },
+          default: {
+            description: "Unexpected error",
+            content: {
+              "application/json": {
+                schema: {
+                  $ref: "#/components/schemas/InternalServerErrorResponse",
                 },
               },
             },
           },
         },
       },
-      AskBody: {
-        properties: {
-          flags: {
-            type: "array",
-            items: {
+      delete: {
+        summary: "Delete a segment",
+        security: [{ BasicAuth: [] }, { BearerAuth: [] }],
+        operationId: "deleteSegment",
+        tags: ["Segments"],
+        parameters: [
+          {
+            name: "name",
+            in: "path",
+            required: true,
+            description: "The name of the segment",
+            schema: {
               type: "string",
-              example: "example_flag",
             },
           },
-          context: {
-            type: "object",
-            allowAdditionalProperties: true,
-            example: {
-              userId: "123",
-            },
-          },
-        },
+        ],
+        responses: {
+          "200": {
+            description: "The segment",
+            content: {
+              "application/json": {
+                schema: {
+                  $ref: "#/components/schemas/DeleteSegmentResponse",
+                },
+              },
+            },
+          },
+          default: {
+            description: "Unexpected error",
+            content: {
+              "application/json": {
+                schema: {
+                  $ref: "#/components/schemas/InternalServerErrorResponse",
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    "/v1/stream": {
+      get: {
+        summary: "Stream the changes made to feature flags and segments",
+        security: [{ BasicAuth: [] }, { BearerAuth: [] }],
+        operationId: "stream",
+        tags: ["Stream"],
+        responses: {
+          "200": {
+            description:
+              "A stream of server-sent events, with a `change` event (with the type and name of what changed) every time a feature flag or segment is changed",
+            content: {
+              "text/event-stream": {
+                schema: {
+                  type: "string",
+                },
+              },
+            },
+          },
+          default: {
+            description: "Unexpected error",
+            content: {
+              "application/json": {
+                schema: {
+                  $ref: "#/components/schemas/InternalServerErrorResponse",
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    "/v1/ask": {
+      post: {
+        summary: "Ask if feature flag are enabled for a given context",
+        security: [{ BasicAuth: [] }, { BearerAuth: [] }],
+        operationId: "ask",
+        tags: ["Ask"],
+        requestBody: {
+          description: "The context to ask about",
+          required: true,
+          content: {
+            "application/json": {
+              schema: {
+                $ref: "#/components/schemas/AskBody",
+              },
+            },
+          },
+        },
+        responses: {
+          "200": {
+            description: "The enabled feature flags for the context",
+            content: {
+              "application/json": {
+                schema: {
+                  $ref: "#/components/schemas/AskResponse",
+                },
+              },
+            },
+          },
+          default: {
+            description: "Unexpected error",
+            content: {
+              "application/json": {
+                schema: {
+                  $ref: "#/components/schemas/InternalServerErrorResponse",
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    "/v1/admin/info": {
+      get: {
+        summary: "Get configuration information",
+        security: [{ BasicAuth: [] }, { BearerAuth: [] }],
+        operationId: "adminInfo",
+        tags: ["Admin"],
+        responses: {
+          "200": {
+            description: "The current configuration",
+            content: {
+              "application/json": {
+                schema: {
+                  $ref: "#/components/schemas/AdminInfoResponse",
+                },
+              },
+            },
+          },
+          default: {
+            description: "Unexpected error",
+            content: {
+              "application/json": {
+                schema: {
+                  $ref: "#/components/schemas/InternalServerErrorResponse",
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    "/v1/admin/migrate": {
+      post: {
+        summary: "Run database migrations",
+        security: [{ BasicAuth: [] }, { BearerAuth: [] }],
+        operationId: "adminMigrate",
+        tags: ["Admin"],
+        responses: {
+          "200": {
+            description: "The successfully run migrations",
+            content: {
+              "application/json": {
+                schema: {
+                  $ref: "#/components/schemas/AdminMigrateResponse",
+                },
+              },
+            },
+          },
+          default: {
+            description: "Unexpected error",
+            content: {
+              "application/json": {
+                schema: {
+                  $ref: "#/components/schemas/InternalServerErrorResponse",
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    "/health": {
+      get: {
+        summary: "Get service health",
+        security: [],
+        operationId: "health",
+        tags: ["Public"],
+        responses: {
+          "200": {
+            description: "The service health status",
+            content: {
+              "application/json": {
+                schema: {
+                  $ref: "#/components/schemas/PublicHealthResponse",
+                },
+              },
+            },
+          },
+          default: {
+            description: "Unexpected error",
+            content: {
+              "application/json": {
+                schema: {
+                  $ref: "#/components/schemas/InternalServerErrorResponse",
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+  },
+  components: {
+    securitySchemes: {
+      BasicAuth: {
+        type: "http",
+        scheme: "basic",
+      },
+      BearerAuth: {
+        type: "http",
+        scheme: "bearer",
+      },
+    },
+    schemas: {
+      Flag: {
+        properties: {
+          name: {
+            type: "string",
+            example: "example_flag",
+          },
+          description: {
+            type: "string",
+            example: "An example flag",
+          },
+          enabled: {
+            type: "boolean",
+            example: true,
+          },
+          conditions: {
+            type: "array",
+            description:
+              "Rules that must all be met, each is either a condition, a group of rules with `all`, `any` or `not`, or a `segment` reference",
+            items: {
+              type: "object",
+              properties: {
+                field: {
+                  type: "string",
+                  example: "test",
+                },
+                operator: {
+                  type: "string",
+                  enum: [
+                    "eq",
+                    "neq",
+                    "gt",
+                    "gte",
+                    "lt",
+                    "lte",
+                    "in",
+                    "nin",
+                    "startsWith",
+                    "endsWith",
+                    "contains",
+                    "regex",
+                    "semverEq",
+                    "semverGt",
+                    "semverGte",
+                    "semverLt",
+                    "semverLte",
+                    "before",
+                    "after",
+                    "cidr",
+                  ],
+                  example: "eq",
+                },
+                value: {
+                  anyOf: [
+                    { type: "string" },
+                    { type: "number" },
+                    { type: "boolean" },
+                  ],
+                },
+              },
+            },
+          },
+          rollout: {
+            type: "object",
+            properties: {
+              percentage: {
+                type: "number",
+                minimum: 0,
+                maximum: 100,
+                example: 25,
+              },
+              key: {
+                type: "string",
+                example: "userId",
+              },
+            },
+          },
+          variants: {
+            type: "object",
+            properties: {
+              key: {
+                type: "string",
+                example: "userId",
+              },
+              fallback: {
+                type: "string",
+                example: "control",
+              },
+              options: {
+                type: "array",
+                items: {
+                  type: "object",
+                  properties: {
+                    name: {
+                      type: "string",
+                      example: "control",
+                    },
+                    value: {
+                      example: { color: "blue" },
+                    },
+                    weight: {
+                      type: "number",
+                      minimum: 0,
+                      example: 1,
+                    },
+                  },
+                },
+              },
+            },
+          },
+          schedules: {
+            type: "array",
+            description:
+              "Changes to apply to the feature flag at a later time, each must change at least one of `enabled`, `conditions` or `rollout`",
+            items: {
+              type: "object",
+              properties: {
+                at: {
+                  type: "string",
+                  format: "date-time",
+                  example: "2023-08-07T09:00:00.000Z",
+                },
+                enabled: {
+                  type: "boolean",
+                  example: true,
+                },
+                conditions: {
+                  type: "array",
+                  items: {
+                    type: "object",
+                  },
+                },
+                rollout: {
+                  type: "object",
+                  properties: {
+                    percentage: {
+                      type: "number",
+                      minimum: 0,
+                      maximum: 100,
+                      example: 25,
+                    },
+                    key: {
+                      type: "string",
+                      example: "userId",
+                    },
+                  },
+                },
+              },
+            },
+          },
+          createdAt: {
+            type: "string",
+            format: "date-time",
+            example: "2023-08-07T07:48:53.852Z",
+          },
+          updatedAt: {
+            type: "string",
+            format: "date-time",
+            example: "2023-08-07T07:48:53.852Z",
+          },
+        },
+      },
+      UpsertFlagBody: {
+        properties: {
+          description: {
+            type: "string",
+            example: "An example flag",
+          },
+          enabled: {
+            type: "boolean",
+            example: true,
+          },
+          conditions: {
+            type: "array",
+            description:
+              "Rules that must all be met, each is either a condition, a group of rules with `all`, `any` or `not`, or a `segment` reference",
+            items: {
+              type: "object",
+              properties: {
+                field: {
+                  type: "string",
+                  example: "test",
+                },
+                operator: {
+                  type: "string",
+                  enum: [
+                    "eq",
+                    "neq",
+                    "gt",
+                    "gte",
+                    "lt",
+                    "lte",
+                    "in",
+                    "nin",
+                    "startsWith",
+                    "endsWith",
+                    "contains",
+                    "regex",
+                    "semverEq",
+                    "semverGt",
+                    "semverGte",
+                    "semverLt",
+                    "semverLte",
+                    "before",
+                    "after",
+                    "cidr",
+                  ],
+                  example: "eq",
+                },
+                value: {
+                  anyOf: [
+                    { type: "string" },
+                    { type: "number" },
+                    { type: "boolean" },
+                  ],
+                },
+              },
+            },
+          },
+          rollout: {
+            type: "object",
+            properties: {
+              percentage: {
+                type: "number",
+                minimum: 0,
+                maximum: 100,
+                example: 25,
+              },
+              key: {
+                type: "string",
+                example: "userId",
+              },
+            },
+          },
+          variants: {
+            type: "object",
+            properties: {
+              key: {
+                type: "string",
+                example: "userId",
+              },
+              fallback: {
+                type: "string",
+                example: "control",
+              },
+              options: {
+                type: "array",
+                items: {
+                  type: "object",
+                  properties: {
+                    name: {
+                      type: "string",
+                      example: "control",
+                    },
+                    value: {
+                      example: { color: "blue" },
+                    },
+                    weight: {
+                      type: "number",
+                      minimum: 0,
+                      example: 1,
+                    },
+                  },
+                },
+              },
+            },
+          },
+          schedules: {
+            type: "array",
+            description:
+              "Changes to apply to the feature flag at a later time, each must change at least one of `enabled`, `conditions` or `rollout`",
+            items: {
+              type: "object",
+              properties: {
+                at: {
+                  type: "string",
+                  format: "date-time",
+                  example: "2023-08-07T09:00:00.000Z",
+                },
+                enabled: {
+                  type: "boolean",
+                  example: true,
+                },
+                conditions: {
+                  type: "array",
+                  items: {
+                    type: "object",
+                  },
+                },
+                rollout: {
+                  type: "object",
+                  properties: {
+                    percentage: {
+                      type: "number",
+                      minimum: 0,
+                      maximum: 100,
+                      example: 25,
+                    },
+                    key: {
+                      type: "string",
+                      example: "userId",
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+      AskBody: {
+        properties: {
+          flags: {
+            type: "array",
+            items: {
+              type: "string",
+              example: "example_flag",
+            },
+          },
+          context: {
+            type: "object",
+            allowAdditionalProperties: true,
+            example: {
+              userId: "123",
+            },
+          },
+          explain: {
+            type: "boolean",
+            description:
+              "Whether to include the flags that weren't served, with a `served` flag and the `reason` for every flag",
+            example: false,
+          },
+        },
       },
       GetAllFlagsResponse: {
         properties: {
@@ -512,6 +1100,312 @@ export const OPEN_API_SPEC: OpenApiSpec = {
           },
         },
       },
+      FlagVersion: {
+        properties: {
+          name: {
+            type: "string",
+            example: "example_flag",
+          },
+          version: {
+            type: "integer",
+            example: 1,
+          },
+          action: {
+            type: "string",
+            enum: ["create", "update", "delete", "rollback", "schedule"],
+            example: "update",
+          },
+          flag: {
+            $ref: "#/components/schemas/UpsertFlagBody",
+            nullable: true,
+            description:
+              "The feature flag as it was after the change, or `null` if it was deleted",
+          },
+          changes: {
+            type: "object",
+            description:
+              "The fields that changed, each with their `from` and `to` values",
+            example: { enabled: { from: true, to: false } },
+          },
+          user: {
+            type: "object",
+            properties: {
+              id: {
+                type: "string",
+                example: "user_1",
+              },
+              strategy: {
+                type: "string",
+                example: "jwt",
+              },
+            },
+          },
+          createdAt: {
+            type: "string",
+            format: "date-time",
+            example: "2023-08-07T07:48:53.852Z",
+          },
+        },
+      },
+      GetFlagHistoryResponse: {
+        properties: {
+          status: {
+            type: "integer",
+            format: "int32",
+            example: 200,
+          },
+          success: {
+            type: "boolean",
+            example: true,
+          },
+          data: {
+            type: "array",
+            items: {
+              $ref: "#/components/schemas/FlagVersion",
+            },
+          },
+        },
+      },
+      FlagStats: {
+        properties: {
+          name: {
+            type: "string",
+            example: "new_checkout",
+          },
+          count: {
+            type: "integer",
+            example: 120,
+          },
+          lastEvaluatedAt: {
+            type: "string",
+            format: "date-time",
+            nullable: true,
+          },
+          variants: {
+            type: "array",
+            items: {
+              properties: {
+                variant: {
+                  type: "string",
+                  nullable: true,
+                  example: "treatment",
+                },
+                count: {
+                  type: "integer",
+                  example: 60,
+                },
+              },
+            },
+          },
+          buckets: {
+            type: "array",
+            items: {
+              properties: {
+                bucket: {
+                  type: "string",
+                  format: "date-time",
+                },
+                variant: {
+                  type: "string",
+                  nullable: true,
+                  example: "treatment",
+                },
+                count: {
+                  type: "integer",
+                  example: 10,
+                },
+              },
+            },
+          },
+        },
+      },
+      GetFlagStatsResponse: {
+        properties: {
+          status: {
+            type: "integer",
+            format: "int32",
+            example: 200,
+          },
+          success: {
+            type: "boolean",
+            example: true,
+          },
+          data: {
+            $ref: "#/components/schemas/FlagStats",
+          },
+        },
+      },
+      RollbackFlagResponse: {
+        properties: {
+          status: {
+            type: "integer",
+            format: "int32",
+            example: 200,
+          },
+          success: {
+            type: "boolean",
+            example: true,
+          },
+          data: {
+            $ref: "#/components/schemas/Flag",
+          },
+        },
+      },
+      Segment: {
+        properties: {
+          name: {
+            type: "string",
+            example: "beta_testers",
+          },
+          description: {
+            type: "string",
+            example: "An example segment",
+          },
+          ids: {
+            type: "object",
+            description:
+              "The contexts that are always members of the segment, matched on the `key` field",
+            properties: {
+              key: {
+                type: "string",
+                example: "userId",
+              },
+              values: {
+                type: "array",
+                items: {
+                  anyOf: [{ type: "string" }, { type: "number" }],
+                },
+                example: ["user_1", "user_2"],
+              },
+            },
+          },
+          conditions: {
+            type: "array",
+            description:
+              "Rules that must all be met, the same as a flag's conditions, which can reference other segments",
+            items: {
+              type: "object",
+            },
+          },
+          createdAt: {
+            type: "string",
+            format: "date-time",
+            example: "2023-08-07T07:48:53.852Z",
+          },
+          updatedAt: {
+            type: "string",
+            format: "date-time",
+            example: "2023-08-07T07:48:53.852Z",
+          },
+        },
+      },
+      UpsertSegmentBody: {
+        properties: {
+          description: {
+            type: "string",
+            example: "An example segment",
+          },
+          ids: {
+            type: "object",
+            description:
+              "The contexts that are always members of the segment, matched on the `key` field",
+            properties: {
+              key: {
+                type: "string",
+                example: "userId",
+              },
+              values: {
+                type: "array",
+                items: {
+                  anyOf: [{ type: "string" }, { type: "number" }],
+                },
+                example: ["user_1", "user_2"],
+              },
+            },
+          },
+          conditions: {
+            type: "array",
+            description:
+              "Rules that must all be met, the same as a flag's conditions, which can reference other segments",
+            items: {
+              type: "object",
+            },
+          },
+        },
+      },
+      GetAllSegmentsResponse: {
+        properties: {
+          status: {
+            type: "integer",
+            format: "int32",
+            example: 200,
+          },
+          success: {
+            type: "boolean",
+            example: true,
+          },
+          data: {
+            type: "array",
+            items: {
+              $ref: "#/components/schemas/Segment",
+            },
+          },
+        },
+      },
+      GetSegmentResponse: {
+        properties: {
+          status: {
+            type: "integer",
+            format: "int32",
+            example: 200,
+          },
+          success: {
+            type: "boolean",
+            example: true,
+          },
+          data: {
+            $ref: "#/components/schemas/Segment",
+          },
+        },
+      },
+      UpsertSegmentResponse: {
+        properties: {
+          status: {
+            type: "integer",
+            format: "int32",
+            example: 200,
+          },
+          success: {
+            type: "boolean",
+            example: true,
+          },
+          data: {
+            $ref: "#/components/schemas/Segment",
+          },
+        },
+      },
+      DeleteSegmentResponse: {
+        properties: {
+          status: {
+            type: "integer",
+            format: "int32",
+            example: 200,
+          },
+          success: {
+            type: "boolean",
+            example: true,
+          },
+          data: {
+            type: "object",
+            properties: {
+              name: {
+                type: "string",
+                example: "beta_testers",
+              },
+            },
+          },
+        },
+      },
       AskResponse: {
         properties: {
           status: {
@@ -526,8 +1420,38 @@ export const OPEN_API_SPEC: OpenApiSpec = {
           data: {
             type: "array",
             items: {
-              type: "string",
-              example: "example_flag",
+              type: "object",
+              properties: {
+                flag: {
+                  type: "string",
+                  example: "example_flag",
+                },
+                variant: {
+                  type: "string",
+                  nullable: true,
+                  example: "control",
+                },
+                value: {
+                  example: { color: "blue" },
+                },
+                served: {
+                  type: "boolean",
+                  description: "Only included when `explain` is `true`",
+                  example: true,
+                },
+                reason: {
+                  type: "string",
+                  description: "Only included when `explain` is `true`",
+                  enum: [
+                    "STATIC",
+                    "TARGETING_MATCH",
+                    "SPLIT",
+                    "DEFAULT",
+                    "DISABLED",
+                  ],
+                  example: "TARGETING_MATCH",
+                },
+              },
             },
           },
         },
@@ -0,0 +1,13 @@
+// Generates a (strong) ETag for the JSON body, so that clients polling for
+// changes (e.g. the SDK) only download it again when it has actually changed
+export async function getEtag(body: unknown) {
+  const digest = await crypto.subtle.digest(
+    "SHA-1",
+    new TextEncoder().encode(JSON.stringify(body)),
+  );
+  const hex = Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+
+  return `"${hex}"`;
+}
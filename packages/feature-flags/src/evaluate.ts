@@ -0,0 +1,159 @@
+import { resolveSegments, validateContext } from "./conditions.js";
+import { getVariant, isInRollout } from "./rollout.js";
+import { applySchedules } from "./schedules.js";
+import { type Flag, type Segment } from "./storage/storage-adapter.js";
+import {
+  type AskDetailsResult,
+  type AskReason,
+  type AskResult,
+} from "./types.js";
+
+// Only the parts of a flag that are needed to evaluate it, so that flags that
+// have been serialized (e.g. fetched by the SDK) can be evaluated too
+export type EvaluableFlag = Pick<
+  Flag,
+  "name" | "enabled" | "conditions" | "rollout" | "variants" | "schedules"
+>;
+
+export interface EvaluateOptions {
+  flags?: string[];
+  context?: Record<string, unknown>;
+}
+
+// Resolves the segments in the flag's conditions, including those that are
+// scheduled to replace them
+export function resolveFlagSegments<T extends EvaluableFlag>(
+  flag: T,
+  segments: Pick<Segment, "name" | "ids" | "conditions">[],
+): T {
+  return {
+    ...flag,
+    conditions: flag.conditions && resolveSegments(flag.conditions, segments),
+    schedules: flag.schedules?.map((schedule) =>
+      schedule.conditions
+        ? {
+            ...schedule,
+            conditions: resolveSegments(schedule.conditions, segments),
+          }
+        : schedule,
+    ),
+  };
+}
+
+// Served flags are a split if the context could have been bucketed either way
+function getServedReason(flag: EvaluableFlag): AskReason {
+  const weightedOptions =
+    flag.variants?.options.filter(({ weight }) => weight > 0) ?? [];
+
+  if (flag.rollout || weightedOptions.length > 1) {
+    return "SPLIT";
+  }
+
+  return flag.conditions?.length ? "TARGETING_MATCH" : "STATIC";
+}
+
+export function explainFlag(
+  flag: EvaluableFlag,
+  context?: Record<string, unknown>,
+): AskDetailsResult {
+  if (!flag.enabled) {
+    return {
+      flag: flag.name,
+      served: false,
+      variant: null,
+      value: null,
+      reason: "DISABLED",
+    };
+  }
+
+  const meetsConditions =
+    !flag.conditions?.length ||
+    (context !== undefined && validateContext(context, flag.conditions));
+  // The rollout only applies to the contexts that meet the conditions
+  const matches =
+    meetsConditions &&
+    (!flag.rollout || isInRollout(flag.name, flag.rollout, context));
+
+  if (!flag.variants) {
+    return matches
+      ? {
+          flag: flag.name,
+          served: true,
+          variant: null,
+          value: true,
+          reason: getServedReason(flag),
+        }
+      : {
+          flag: flag.name,
+          served: false,
+          variant: null,
+          value: null,
+          reason: "DEFAULT",
+        };
+  }
+
+  const variant = matches
+    ? getVariant(flag.name, flag.variants, context)
+    : null;
+
+  if (variant) {
+    return {
+      flag: flag.name,
+      served: true,
+      variant: variant.name,
+      value: variant.value,
+      reason: getServedReason(flag),
+    };
+  }
+
+  const { fallback, options } = flag.variants;
+  const fallbackVariant = options.find((option) => option.name === fallback);
+
+  return {
+    flag: flag.name,
+    served: fallbackVariant !== undefined,
+    variant: fallbackVariant?.name ?? null,
+    value: fallbackVariant?.value ?? null,
+    reason: "DEFAULT",
+  };
+}
+
+export function evaluateFlag(
+  flag: EvaluableFlag,
+  context?: Record<string, unknown>,
+): AskResult | null {
+  const { served, variant, value } = explainFlag(flag, context);
+
+  return served ? { flag: flag.name, variant, value } : null;
+}
+
+// Explains the result of every flag (which must already have their segments
+// resolved) for the context, including those that aren't served. The
+// schedules that are due are applied here too, so that the flags are correct
+// even if the schedules haven't been persisted yet
+export function explainFlags(
+  flags: EvaluableFlag[],
+  { flags: proposedFlags, context }: EvaluateOptions = {},
+  now = Date.now(),
+) {
+  return flags
+    .filter((flag) => !proposedFlags || proposedFlags.includes(flag.name))
+    .map((flag) => explainFlag(applySchedules(flag, now), context));
+}
+
+// Narrows the explained flags down to the `ask` results
+export function getServedResults(details: AskDetailsResult[]): AskResult[] {
+  return details
+    .filter(({ served }) => served)
+    .map(({ flag, variant, value }) => ({ flag, variant, value }));
+}
+
+// Evaluates the flags for the context. This is what both `/v1/ask` and the SDK
+// use, so that they always agree
+export function evaluateFlags(
+  flags: EvaluableFlag[],
+  options: EvaluateOptions = {},
+  now = Date.now(),
+): AskResult[] {
+  return getServedResults(explainFlags(flags, options, now));
+}
@@ -0,0 +1,45 @@
+import { type QueueMessage } from "./queue/index.js";
+import { type FlagExposure } from "./storage/storage-adapter.js";
+
+const HOUR = 60 * 60 * 1000;
+
+// Gets the start of the hour that the timestamp falls in, which is what the
+// exposures are counted by
+export function getExposureBucket(timestamp: number) {
+  return new Date(Math.floor(timestamp / HOUR) * HOUR);
+}
+
+// Combines the exposures from a batch of queue messages, so that each flag,
+// variant and bucket is only written to the storage once
+export function aggregateExposures(
+  messages: QueueMessage["body"][],
+): FlagExposure[] {
+  const exposures = new Map<string, FlagExposure>();
+
+  for (const { exposures: served, timestamp } of messages) {
+    const bucket = getExposureBucket(timestamp);
+
+    for (const { flag, variant } of served) {
+      const key = JSON.stringify([flag, variant, bucket.getTime()]);
+      const existing = exposures.get(key);
+
+      if (existing) {
+        existing.count++;
+
+        if (existing.lastEvaluatedAt.getTime() < timestamp) {
+          existing.lastEvaluatedAt = new Date(timestamp);
+        }
+      } else {
+        exposures.set(key, {
+          name: flag,
+          variant,
+          bucket,
+          count: 1,
+          lastEvaluatedAt: new Date(timestamp),
+        });
+      }
+    }
+  }
+
+  return Array.from(exposures.values());
+}
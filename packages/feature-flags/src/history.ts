@@ -0,0 +1,48 @@
+import {
+  type Flag,
+  type FlagChanges,
+  type UpsertFlagBody,
+} from "./storage/storage-adapter.js";
+
+const FIELDS = [
+  "description",
+  "enabled",
+  "conditions",
+  "rollout",
+  "variants",
+  "schedules",
+] as const;
+
+// Strips a flag down to the fields that can be set, which is what each version
+// stores, so that the flag can be rolled back to it
+export function getFlagSnapshot(flag: Flag | UpsertFlagBody): UpsertFlagBody {
+  return {
+    name: flag.name,
+    description: flag.description,
+    enabled: flag.enabled,
+    conditions: flag.conditions,
+    rollout: flag.rollout,
+    variants: flag.variants,
+    schedules: flag.schedules,
+  };
+}
+
+// Compares the flag before and after a change, where `null` means that the flag
+// didn't exist (i.e. it was created, or deleted)
+export function getFlagChanges(
+  before: UpsertFlagBody | null,
+  after: UpsertFlagBody | null,
+) {
+  const changes: FlagChanges = {};
+
+  for (const field of FIELDS) {
+    const from = before?.[field];
+    const to = after?.[field];
+
+    if (JSON.stringify(from) !== JSON.stringify(to)) {
+      (changes as Record<string, unknown>)[field] = { from, to };
+    }
+  }
+
+  return changes;
+}
@@ -2,7 +2,12 @@ import {
   type ServerOptionsOptional,
   createFeatureFlagsServer,
 } from "./server.js";
-import { type Flag, type FlagCondition } from "./storage/storage-adapter.js";
+import {
+  type Flag,
+  type FlagCondition,
+  type FlagRule,
+  type Segment,
+} from "./storage/storage-adapter.js";
 import { type RuntimeResolver } from "./types.js";
 
 export default createFeatureFlagsServer;
@@ -12,5 +17,7 @@ export {
   type ServerOptionsOptional as ServerOptions,
   type Flag,
   type FlagCondition,
+  type FlagRule,
+  type Segment,
   type RuntimeResolver,
 };
@@ -0,0 +1,126 @@
+import {
+  type EvaluationContext,
+  FlagNotFoundError,
+  type FlagValue,
+  type JsonValue,
+  type Provider,
+  type ResolutionDetails,
+  TypeMismatchError,
+} from "@openfeature/server-sdk";
+
+import {
+  FeatureFlagsClient,
+  type FeatureFlagsClientOptions,
+} from "../client/index.js";
+
+export type FeatureFlagsProviderOptions = FeatureFlagsClientOptions;
+
+// An OpenFeature (server) provider, which resolves the flags via `/v1/ask`.
+// The evaluation context is passed through as the `context`
+export class FeatureFlagsProvider implements Provider {
+  readonly metadata = { name: "Workertown Feature Flags" } as const;
+
+  readonly runsOn = "server";
+
+  private readonly _client: FeatureFlagsClient;
+
+  constructor(options: FeatureFlagsProviderOptions = {}) {
+    this._client = new FeatureFlagsClient(options);
+  }
+
+  private async _resolve<T extends FlagValue>(
+    flagKey: string,
+    defaultValue: T,
+    context: EvaluationContext,
+    isType: (value: unknown) => value is T,
+  ): Promise<ResolutionDetails<T>> {
+    const [result] = await this._client.explain({
+      flags: [flagKey],
+      context,
+    });
+
+    if (!result) {
+      throw new FlagNotFoundError(`Flag '${flagKey}' not found`);
+    }
+
+    // A flag without variants is just on or off, so it resolves to `false`
+    // (rather than the default value) when it isn't served
+    if (result.variant === null && typeof defaultValue === "boolean") {
+      return { value: result.served as T, reason: result.reason };
+    }
+
+    if (!result.served) {
+      return { value: defaultValue, reason: result.reason };
+    }
+
+    if (!isType(result.value)) {
+      throw new TypeMismatchError(
+        `Flag '${flagKey}' is not of type ${typeof defaultValue}`,
+      );
+    }
+
+    return {
+      value: result.value,
+      variant: result.variant ?? undefined,
+      reason: result.reason,
+    };
+  }
+
+  resolveBooleanEvaluation(
+    flagKey: string,
+    defaultValue: boolean,
+    context: EvaluationContext,
+  ) {
+    return this._resolve(
+      flagKey,
+      defaultValue,
+      context,
+      (value): value is boolean => typeof value === "boolean",
+    );
+  }
+
+  resolveStringEvaluation(
+    flagKey: string,
+    defaultValue: string,
+    context: EvaluationContext,
+  ) {
+    return this._resolve(
+      flagKey,
+      defaultValue,
+      context,
+      (value): value is string => typeof value === "string",
+    );
+  }
+
+  resolveNumberEvaluation(
+    flagKey: string,
+    defaultValue: number,
+    context: EvaluationContext,
+  ) {
+    return this._resolve(
+      flagKey,
+      defaultValue,
+      context,
+      (value): value is number => typeof value === "number",
+    );
+  }
+
+  resolveObjectEvaluation<T extends JsonValue>(
+    flagKey: string,
+    defaultValue: T,
+    context: EvaluationContext,
+  ) {
+    return this._resolve(
+      flagKey,
+      defaultValue,
+      context,
+      (value): value is T => typeof value === "object" && value !== null,
+    );
+  }
+}
+
+export function createFeatureFlagsProvider(
+  options?: FeatureFlagsProviderOptions,
+) {
+  return new FeatureFlagsProvider(options);
+}
@@ -0,0 +1,3 @@
+import { CfQueuesQueueAdapter } from "@workertown/internal-queue/cf-queues";
+
+export { CfQueuesQueueAdapter };
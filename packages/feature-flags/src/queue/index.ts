@@ -0,0 +1,14 @@
+import {
+  QueueAdapter,
+  type QueueMessage as BaseQueueMessage,
+  createQueueProcessor,
+} from "@workertown/internal-queue";
+
+export type QueueMessage = BaseQueueMessage<{
+  type: "exposures";
+  // The flags (and variants) that were served by a single `ask` request
+  exposures: { flag: string; variant: string | null }[];
+  timestamp: number;
+}>;
+
+export { createQueueProcessor, QueueAdapter };
@@ -0,0 +1,3 @@
+import { MemoryQueueAdapter } from "@workertown/internal-queue/memory";
+
+export { MemoryQueueAdapter };
@@ -0,0 +1,3 @@
+import { SqliteQueueAdapter } from "@workertown/internal-queue/sqlite";
+
+export { SqliteQueueAdapter };
@@ -0,0 +1,84 @@
+import {
+  type FlagRollout,
+  type FlagVariant,
+  type FlagVariants,
+} from "./storage/storage-adapter.js";
+
+// The number of buckets that contexts are spread across, allowing rollouts to
+// be set to a hundredth of a percent
+const BUCKETS = 10000;
+
+// 32-bit FNV-1a, which is stable across runtimes and cheap to compute
+function hash(value: string) {
+  let result = 0x811c9dc5;
+
+  for (let i = 0; i < value.length; i++) {
+    result ^= value.charCodeAt(i);
+    result = Math.imul(result, 0x01000193);
+  }
+
+  return result >>> 0;
+}
+
+// Places the key in a bucket from `0` to `100` (exclusive). The flag name is
+// included so that each flag buckets the same contexts independently
+export function getRolloutBucket(flag: string, key: string) {
+  return (hash(`${flag}:${key}`) % BUCKETS) / (BUCKETS / 100);
+}
+
+// A context is in the rollout if its bucket is below the percentage, so raising
+// the percentage only ever adds contexts, and never reshuffles existing ones
+function getKey(key: string, context?: Record<string, unknown>) {
+  const value = context?.[key];
+
+  return typeof value === "string" || typeof value === "number"
+    ? String(value)
+    : null;
+}
+
+export function isInRollout(
+  flag: string,
+  rollout: FlagRollout,
+  context?: Record<string, unknown>,
+) {
+  if (rollout.percentage >= 100) {
+    return true;
+  }
+
+  const key = getKey(rollout.key, context);
+
+  if (key === null || rollout.percentage <= 0) {
+    return false;
+  }
+
+  return getRolloutBucket(flag, key) < rollout.percentage;
+}
+
+// Picks a variant by its weight, using a separate bucket to the rollout so that
+// the contexts in a partial rollout are still spread across every variant.
+// Returns `null` if the context doesn't have the key to bucket by
+export function getVariant(
+  flag: string,
+  variants: FlagVariants,
+  context?: Record<string, unknown>,
+): FlagVariant | null {
+  const key = getKey(variants.key, context);
+
+  if (key === null) {
+    return null;
+  }
+
+  const total = variants.options.reduce((sum, { weight }) => sum + weight, 0);
+  const target = (getRolloutBucket(`${flag}:variants`, key) / 100) * total;
+  let cumulative = 0;
+
+  for (const variant of variants.options) {
+    cumulative += variant.weight;
+
+    if (target < cumulative) {
+      return variant;
+    }
+  }
+
+  return null;
+}
@@ -23,6 +23,7 @@ router.get("/open-api.json", (ctx) => {
   const url = new URL(ctx.req.url);
   const replacementPaths: Record<string, string | false> = {
     "/v1/flags": endpoints.v1.flags,
+    "/v1/segments": endpoints.v1.segments,
     "/v1/ask": endpoints.v1.ask,
     "/v1/admin": endpoints.v1.admin,
     "/health": endpoints.public
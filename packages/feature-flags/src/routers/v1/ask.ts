@@ -2,87 +2,16 @@ import { createRouter, validate } from "@workertown/internal-server";
 import { z } from "zod";
 
 import { CACHE } from "../../constants.js";
-import { Flag, type FlagCondition } from "../../storage/storage-adapter.js";
+import {
+  explainFlags,
+  getServedResults,
+  resolveFlagSegments,
+} from "../../evaluate.js";
+import { type Flag } from "../../storage/storage-adapter.js";
 import { type Context } from "../../types.js";
 
 const router = createRouter<Context>();
 
-function validateContext(
-  context: Record<string, unknown>,
-  conditions: FlagCondition[],
-) {
-  let result = true;
-
-  for (const flagCondition of conditions) {
-    const value = context[flagCondition.field];
-
-    switch (flagCondition.operator) {
-      case "eq":
-        result = value === flagCondition.value;
-
-        break;
-      case "neq":
-        result = value !== flagCondition.value;
-
-        break;
-      case "gt":
-        result = Boolean(
-          typeof value === "number" &&
-            typeof flagCondition.value === "number" &&
-            value > flagCondition.value,
-        );
-
-        break;
-      case "gte":
-        result = Boolean(
-          typeof value === "number" &&
-            typeof flagCondition.value === "number" &&
-            value >= flagCondition.value,
-        );
-
-        break;
-      case "lt":
-        result = Boolean(
-          typeof value === "number" &&
-            typeof flagCondition.value === "number" &&
-            value < flagCondition.value,
-        );
-
-        break;
-      case "lte":
-        result = Boolean(
-          typeof value === "number" &&
-            typeof flagCondition.value === "number" &&
-            value <= flagCondition.value,
-        );
-
-        break;
-      case "in":
-        result =
-          Array.isArray(flagCondition.value) &&
-          // The `as never` is because of the array union type
-          flagCondition.value.includes(value as never);
-
-        break;
-      case "nin":
-        result =
-          Array.isArray(flagCondition.value) &&
-          // The `as never` is because of the array union type
-          !flagCondition.value?.includes(value as never);
-
-        break;
-      default:
-        result = false;
-    }
-
-    if (!result) {
-      break;
-    }
-  }
-
-  return result;
-}
-
 router.post(
   "/",
   validate(
@@ -90,43 +19,76 @@ router.post(
     z.object({
       flags: z.array(z.string()).nonempty().optional(),
       context: z.record(z.any()).optional(),
+      // Whether to include why each flag was (or wasn't) served
+      explain: z.boolean().optional(),
     }),
   ),
   async (ctx) => {
     const cache = ctx.get("cache");
+    const queue = ctx.get("queue");
     const storage = ctx.get("storage");
-    const { flags: proposedFlags, context } = ctx.req.valid(
-      "json" as never,
-    ) as {
+    const {
+      flags: proposedFlags,
+      context,
+      explain,
+    } = ctx.req.valid("json" as never) as {
       flags?: string[];
       context?: Record<string, unknown>;
+      explain?: boolean;
     };
-    let flags: Flag[] | null = await cache.get(CACHE.FLAGS.ENABLED);
+    // The flags are cached with their segments already resolved, so that
+    // evaluating them only ever needs the one cache lookup. The disabled flags
+    // are included, as they could be scheduled to be enabled
+    let flags: Flag[] | null = await cache.get(CACHE.FLAGS.ASK);
 
     if (!flags) {
-      flags = await storage.getFlags();
+      const [allFlags, segments] = await Promise.all([
+        storage.getFlags(true),
+        storage.getSegments(),
+      ]);
 
-      await cache.set(CACHE.FLAGS.ENABLED, flags);
-    }
-
-    const applicableFlags = proposedFlags
-      ? flags.filter((flag) => proposedFlags.includes(flag.name))
-      : flags;
-    const result = applicableFlags
-      .filter((flag) => {
-        if (!flag.conditions?.length) {
-          return true;
-        }
+      flags = allFlags.map((flag) => resolveFlagSegments(flag, segments));
 
-        if (!context) {
-          return false;
-        }
+      await cache.set(CACHE.FLAGS.ASK, flags);
+    }
 
-        return validateContext(context, flag.conditions);
-      })
-      .map((flag) => flag.name);
+    const now = Date.now();
+    const details = explainFlags(flags, { flags: proposedFlags, context }, now);
+    const result = getServedResults(details);
+
+    // The exposures are written to the storage by the queue consumer, and a
+    // failure to send them shouldn't stop the flags from being returned. Where
+    // there's an execution context (e.g. Cloudflare Workers), they are sent
+    // after the response, so that they don't slow it down
+    if (queue && result.length > 0) {
+      const send = queue
+        .sendMessage({
+          type: "exposures",
+          exposures: result.map(({ flag, variant }) => ({ flag, variant })),
+          timestamp: now,
+        })
+        .catch(() => {});
+
+      let executionCtx: ExecutionContext | undefined;
+
+      try {
+        executionCtx = ctx.executionCtx;
+      } catch (_) {
+        // Hono throws when there isn't one (e.g. in NodeJS)
+      }
+
+      if (executionCtx) {
+        executionCtx.waitUntil(send);
+      } else {
+        await send;
+      }
+    }
 
-    return ctx.json({ status: 200, success: true, data: result });
+    return ctx.json({
+      status: 200,
+      success: true,
+      data: explain ? details : result,
+    });
   },
 );
 
@@ -1,25 +1,119 @@
-import { createRouter, validate } from "@workertown/internal-server";
+import { type User, createRouter, validate } from "@workertown/internal-server";
 import { z } from "zod";
 
+import {
+  MAX_REGEX_LENGTH,
+  parseCidr,
+  parseDate,
+  parseRegex,
+  parseSemver,
+} from "../../conditions.js";
 import { CACHE } from "../../constants.js";
-import { type Flag } from "../../storage/storage-adapter.js";
+import { getEtag } from "../../etag.js";
+import { getFlagChanges, getFlagSnapshot } from "../../history.js";
+import {
+  type Flag,
+  type FlagRule,
+  type FlagVariantValue,
+  type FlagVersionAction,
+  type StorageAdapter,
+  type UpsertFlagBody,
+} from "../../storage/storage-adapter.js";
 import { type Context } from "../../types.js";
 
 const router = createRouter<Context>();
 
+const VERSION_NOT_FOUND = {
+  status: 404,
+  success: false,
+  data: null,
+  error: "Version not found",
+};
+
+const VERSION_DELETED = {
+  status: 400,
+  success: false,
+  data: null,
+  error: "Can't roll back to a version that deleted the flag",
+};
+
+// Records the change as a new version of the flag, so that there's an audit
+// trail of who changed what (and when), and the flag can be rolled back
+function createFlagVersion(
+  storage: StorageAdapter,
+  user: User,
+  {
+    name,
+    action,
+    before,
+    after,
+  }: {
+    name: string;
+    action: FlagVersionAction;
+    before: Flag | null;
+    after: UpsertFlagBody | null;
+  },
+) {
+  const previous = before ? getFlagSnapshot(before) : null;
+  const flag = after ? getFlagSnapshot(after) : null;
+
+  return storage.createFlagVersion({
+    name,
+    action,
+    flag,
+    changes: getFlagChanges(previous, flag),
+    user: { id: user.id, strategy: user.strategy },
+  });
+}
+
+const FLAG_NOT_FOUND = {
+  status: 404,
+  success: false,
+  data: null,
+  error: "Flag not found",
+};
+
+// A date in a query string, as an ISO 8601 date string or a timestamp in
+// milliseconds
+const dateQuerySchema = z
+  .string()
+  .transform((val) => parseDate(/^\d+$/.test(val) ? Number(val) : val))
+  .refine((val): val is number => val !== null, "Invalid date");
+
 const getFlagsQuerySchema = z.object({
   include_disabled: z
     .enum(["1", "0", "true", "false"])
     .optional()
     .transform((val) => val === "1" || val === "true"),
+  stale_since: dateQuerySchema.optional(),
 });
 
 router.get("/", validate("query", getFlagsQuerySchema), async (ctx) => {
   const cache = ctx.get("cache");
   const storage = ctx.get("storage");
-  const { include_disabled: includeDisabled } = ctx.req.valid(
-    "query" as never,
-  ) as z.infer<typeof getFlagsQuerySchema>;
+  const { include_disabled: includeDisabled, stale_since: staleSince } =
+    ctx.req.valid("query" as never) as z.infer<typeof getFlagsQuerySchema>;
+
+  // The stale flags are the ones that haven't been evaluated since the given
+  // date (or ever), which changes with every `ask`, so they aren't cached
+  if (staleSince !== undefined) {
+    const [flags, lastEvaluated] = await Promise.all([
+      storage.getFlags(includeDisabled),
+      storage.getFlagsLastEvaluated(),
+    ]);
+    const lastEvaluatedByName = new Map(
+      lastEvaluated.map(({ name, lastEvaluatedAt }) => [
+        name,
+        lastEvaluatedAt.getTime(),
+      ]),
+    );
+    const staleFlags = flags.filter(
+      (flag) => (lastEvaluatedByName.get(flag.name) ?? 0) < staleSince,
+    );
+
+    return ctx.json({ status: 200, success: true, data: staleFlags });
+  }
+
   const cacheKey = includeDisabled ? CACHE.FLAGS.ALL : CACHE.FLAGS.ENABLED;
   let flags: Flag[] | null = await cache.get(cacheKey);
 
@@ -29,7 +123,15 @@ router.get("/", validate("query", getFlagsQuerySchema), async (ctx) => {
     await cache.set(cacheKey, flags);
   }
 
-  return ctx.json({ status: 200, success: true, data: flags });
+  const etag = await getEtag(flags);
+
+  if (ctx.req.header("If-None-Match") === etag) {
+    return ctx.body(null, 304, { ETag: etag });
+  }
+
+  return ctx.json({ status: 200, success: true, data: flags }, 200, {
+    ETag: etag,
+  });
 });
 
 router.get("/:name", async (ctx) => {
@@ -41,44 +143,287 @@ router.get("/:name", async (ctx) => {
   return ctx.json({ status, success: true, data: flag }, status);
 });
 
+router.get("/:name/history", async (ctx) => {
+  const storage = ctx.get("storage");
+  const name = ctx.req.param("name");
+  const versions = await storage.getFlagVersions(name);
+
+  return ctx.json({ status: 200, success: true, data: versions });
+});
+
+const getFlagStatsQuerySchema = z.object({
+  since: dateQuerySchema.optional(),
+});
+
+router.get(
+  "/:name/stats",
+  validate("query", getFlagStatsQuerySchema),
+  async (ctx) => {
+    const storage = ctx.get("storage");
+    const name = ctx.req.param("name");
+    const { since } = ctx.req.valid("query" as never) as z.infer<
+      typeof getFlagStatsQuerySchema
+    >;
+    const flag = await storage.getFlag(name);
+
+    if (!flag) {
+      return ctx.json(FLAG_NOT_FOUND, 404);
+    }
+
+    const exposures = await storage.getFlagExposures(
+      name,
+      since !== undefined ? new Date(since) : undefined,
+    );
+    const variants = new Map<string | null, number>();
+    let lastEvaluatedAt: Date | null = null;
+
+    for (const exposure of exposures) {
+      variants.set(
+        exposure.variant,
+        (variants.get(exposure.variant) ?? 0) + exposure.count,
+      );
+
+      if (!lastEvaluatedAt || lastEvaluatedAt < exposure.lastEvaluatedAt) {
+        lastEvaluatedAt = exposure.lastEvaluatedAt;
+      }
+    }
+
+    return ctx.json({
+      status: 200,
+      success: true,
+      data: {
+        name,
+        count: exposures.reduce((count, exposure) => count + exposure.count, 0),
+        lastEvaluatedAt,
+        variants: Array.from(variants, ([variant, count]) => ({
+          variant,
+          count,
+        })),
+        buckets: exposures.map(({ bucket, variant, count }) => ({
+          bucket,
+          variant,
+          count,
+        })),
+      },
+    });
+  },
+);
+
+const variantValueSchema: z.ZodType<FlagVariantValue> = z.lazy(() =>
+  z.union([
+    z.string(),
+    z.number(),
+    z.boolean(),
+    z.null(),
+    z.array(variantValueSchema),
+    z.record(variantValueSchema),
+  ]),
+);
+
+const conditionSchema = z
+  .object({
+    field: z.string(),
+    operator: z.enum([
+      "eq",
+      "neq",
+      "gt",
+      "gte",
+      "lt",
+      "lte",
+      "in",
+      "nin",
+      "startsWith",
+      "endsWith",
+      "contains",
+      "regex",
+      "semverEq",
+      "semverGt",
+      "semverGte",
+      "semverLt",
+      "semverLte",
+      "before",
+      "after",
+      "cidr",
+    ]),
+    value: z.union([
+      z.string(),
+      z.number(),
+      z.boolean(),
+      z.array(z.string()),
+      z.array(z.number()),
+      z.array(z.boolean()),
+    ]),
+  })
+  .superRefine(({ operator, value }, ctx) => {
+    const addIssue = (message: string) =>
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["value"], message });
+    const values = Array.isArray(value) ? value : [value];
+
+    switch (operator) {
+      case "startsWith":
+      case "endsWith":
+        if (typeof value !== "string") {
+          addIssue("Expected a string");
+        }
+
+        break;
+      case "regex":
+        if (typeof value !== "string") {
+          addIssue("Expected a string");
+
+          break;
+        }
+
+        if (value.length > MAX_REGEX_LENGTH) {
+          addIssue(`Must be at most ${MAX_REGEX_LENGTH} characters`);
+        } else if (!parseRegex(value)) {
+          addIssue("Invalid regular expression (or has nested quantifiers)");
+        }
+
+        break;
+      case "semverEq":
+      case "semverGt":
+      case "semverGte":
+      case "semverLt":
+      case "semverLte":
+        if (typeof value !== "string" || !parseSemver(value)) {
+          addIssue("Invalid semantic version");
+        }
+
+        break;
+      case "before":
+      case "after":
+        if (Array.isArray(value) || parseDate(value) === null) {
+          addIssue("Invalid date");
+        }
+
+        break;
+      case "cidr":
+        if (
+          !values.every((cidr) => typeof cidr === "string" && parseCidr(cidr))
+        ) {
+          addIssue("Invalid CIDR block");
+        }
+
+        break;
+    }
+  });
+
+const ruleSchema: z.ZodType<FlagRule> = z.lazy(() =>
+  z.union([
+    conditionSchema,
+    z.object({ all: z.array(ruleSchema).nonempty() }).strict(),
+    z.object({ any: z.array(ruleSchema).nonempty() }).strict(),
+    z.object({ not: ruleSchema }).strict(),
+    z.object({ segment: z.string() }).strict(),
+  ]),
+);
+
+const rolloutSchema = z.object({
+  percentage: z.number().min(0).max(100),
+  key: z.string(),
+});
+
+const scheduleSchema = z
+  .object({
+    at: z
+      .union([z.string(), z.number()])
+      .refine((at) => parseDate(at) !== null, "Invalid date"),
+    enabled: z.boolean().optional(),
+    // An empty array removes the conditions
+    conditions: z.array(ruleSchema).optional(),
+    rollout: rolloutSchema.optional(),
+  })
+  .strict()
+  .refine(
+    ({ enabled, conditions, rollout }) =>
+      enabled !== undefined ||
+      conditions !== undefined ||
+      rollout !== undefined,
+    "A schedule must change at least one of enabled, conditions or rollout",
+  );
+
 const createFlagBodySchema = z.object({
   description: z.string().optional(),
   enabled: z.boolean().optional().default(true),
-  conditions: z
-    .array(
-      z.object({
-        field: z.string(),
-        operator: z.enum(["eq", "neq", "gt", "gte", "lt", "lte", "in", "nin"]),
-        value: z.union([
-          z.string(),
-          z.number(),
-          z.boolean(),
-          z.array(z.string()),
-          z.array(z.number()),
-          z.array(z.boolean()),
-        ]),
-      }),
-    )
-    .nonempty()
+  conditions: z.array(ruleSchema).nonempty().optional(),
+  rollout: rolloutSchema.optional(),
+  variants: z
+    .object({
+      key: z.string(),
+      fallback: z.string().optional(),
+      options: z
+        .array(
+          z.object({
+            name: z.string(),
+            value: variantValueSchema,
+            weight: z.number().min(0),
+          }),
+        )
+        .nonempty(),
+    })
+    .superRefine((variants, ctx) => {
+      const names = variants.options.map((option) => option.name);
+
+      if (new Set(names).size !== names.length) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["options"],
+          message: "Variant names must be unique",
+        });
+      }
+
+      if (!variants.options.some((option) => option.weight > 0)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["options"],
+          message: "At least one variant must have a weight",
+        });
+      }
+
+      if (
+        variants.fallback !== undefined &&
+        !names.includes(variants.fallback)
+      ) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["fallback"],
+          message: "The fallback must be the name of a variant",
+        });
+      }
+    })
     .optional(),
+  schedules: z.array(scheduleSchema).nonempty().optional(),
 });
 
 router.put("/:name", validate("json", createFlagBodySchema), async (ctx) => {
   const cache = ctx.get("cache");
   const storage = ctx.get("storage");
   const name = ctx.req.param("name");
-  const { description, enabled, conditions } = ctx.req.valid(
-    "json" as never,
-  ) as z.infer<typeof createFlagBodySchema>;
+  const { description, enabled, conditions, rollout, variants, schedules } =
+    ctx.req.valid("json" as never) as z.infer<typeof createFlagBodySchema>;
+  const existing = await storage.getFlag(name);
   const flag = await storage.upsertFlag({
     name,
     description,
     enabled: enabled ?? true,
     conditions,
+    rollout,
+    variants,
+    schedules,
   });
 
+  await createFlagVersion(storage, ctx.get("user"), {
+    name,
+    action: existing ? "update" : "create",
+    before: existing,
+    after: flag,
+  });
   await cache.delete(CACHE.FLAGS.ALL);
   await cache.delete(CACHE.FLAGS.ENABLED);
+  await cache.delete(CACHE.FLAGS.ASK);
+
+  ctx.get("changes").emit({ type: "flag", name });
 
   return ctx.json({ status: 200, success: true, data: flag });
 });
@@ -87,12 +432,61 @@ router.delete("/:name", async (ctx) => {
   const cache = ctx.get("cache");
   const storage = ctx.get("storage");
   const name = ctx.req.param("name");
+  const existing = await storage.getFlag(name);
 
   await storage.deleteFlag(name);
+
+  if (existing) {
+    await createFlagVersion(storage, ctx.get("user"), {
+      name,
+      action: "delete",
+      before: existing,
+      after: null,
+    });
+  }
+
   await cache.delete(CACHE.FLAGS.ALL);
   await cache.delete(CACHE.FLAGS.ENABLED);
+  await cache.delete(CACHE.FLAGS.ASK);
+
+  ctx.get("changes").emit({ type: "flag", name });
 
   return ctx.json({ status: 200, success: true, data: { name } });
 });
 
-export { router };
+router.post("/:name/rollback/:version", async (ctx) => {
+  const cache = ctx.get("cache");
+  const storage = ctx.get("storage");
+  const name = ctx.req.param("name");
+  const version = Number(ctx.req.param("version"));
+  const flagVersion = Number.isInteger(version)
+    ? await storage.getFlagVersion(name, version)
+    : null;
+
+  if (!flagVersion) {
+    return ctx.json(VERSION_NOT_FOUND, 404);
+  }
+
+  if (!flagVersion.flag) {
+    return ctx.json(VERSION_DELETED, 400);
+  }
+
+  const existing = await storage.getFlag(name);
+  const flag = await storage.upsertFlag(flagVersion.flag);
+
+  await createFlagVersion(storage, ctx.get("user"), {
+    name,
+    action: "rollback",
+    before: existing,
+    after: flag,
+  });
+  await cache.delete(CACHE.FLAGS.ALL);
+  await cache.delete(CACHE.FLAGS.ENABLED);
+  await cache.delete(CACHE.FLAGS.ASK);
+
+  ctx.get("changes").emit({ type: "flag", name });
+
+  return ctx.json({ status: 200, success: true, data: flag });
+});
+
+export { router, ruleSchema };
@@ -1,5 +1,7 @@
 import { router as adminRouter } from "./admin.js";
 import { router as askRouter } from "./ask.js";
 import { router as flagsRouter } from "./flags.js";
+import { router as segmentsRouter } from "./segments.js";
+import { router as streamRouter } from "./stream.js";
 
-export { adminRouter, askRouter, flagsRouter };
+export { adminRouter, askRouter, flagsRouter, segmentsRouter, streamRouter };
@@ -0,0 +1,88 @@
+import { createRouter, validate } from "@workertown/internal-server";
+import { z } from "zod";
+
+import { CACHE } from "../../constants.js";
+import { getEtag } from "../../etag.js";
+import { type Context } from "../../types.js";
+import { ruleSchema } from "./flags.js";
+
+const router = createRouter<Context>();
+
+router.get("/", async (ctx) => {
+  const storage = ctx.get("storage");
+  const segments = await storage.getSegments();
+  const etag = await getEtag(segments);
+
+  if (ctx.req.header("If-None-Match") === etag) {
+    return ctx.body(null, 304, { ETag: etag });
+  }
+
+  return ctx.json({ status: 200, success: true, data: segments }, 200, {
+    ETag: etag,
+  });
+});
+
+router.get("/:name", async (ctx) => {
+  const storage = ctx.get("storage");
+  const name = ctx.req.param("name");
+  const segment = await storage.getSegment(name);
+  const status = segment ? 200 : 404;
+
+  return ctx.json({ status, success: true, data: segment }, status);
+});
+
+const upsertSegmentBodySchema = z
+  .object({
+    description: z.string().optional(),
+    ids: z
+      .object({
+        key: z.string(),
+        values: z.union([z.array(z.string()), z.array(z.number())]),
+      })
+      .optional(),
+    conditions: z.array(ruleSchema).nonempty().optional(),
+  })
+  .superRefine((segment, ctx) => {
+    if (!segment.ids && !segment.conditions) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: "A segment must have either ids or conditions",
+      });
+    }
+  });
+
+router.put("/:name", validate("json", upsertSegmentBodySchema), async (ctx) => {
+  const cache = ctx.get("cache");
+  const storage = ctx.get("storage");
+  const name = ctx.req.param("name");
+  const { description, ids, conditions } = ctx.req.valid(
+    "json" as never,
+  ) as z.infer<typeof upsertSegmentBodySchema>;
+  const segment = await storage.upsertSegment({
+    name,
+    description,
+    ids,
+    conditions,
+  });
+
+  await cache.delete(CACHE.FLAGS.ASK);
+
+  ctx.get("changes").emit({ type: "segment", name });
+
+  return ctx.json({ status: 200, success: true, data: segment });
+});
+
+router.delete("/:name", async (ctx) => {
+  const cache = ctx.get("cache");
+  const storage = ctx.get("storage");
+  const name = ctx.req.param("name");
+
+  await storage.deleteSegment(name);
+  await cache.delete(CACHE.FLAGS.ASK);
+
+  ctx.get("changes").emit({ type: "segment", name });
+
+  return ctx.json({ status: 200, success: true, data: { name } });
+});
+
+export { router };
@@ -0,0 +1,45 @@
+import { createRouter } from "@workertown/internal-server";
+
+import { type FlagChange } from "../../changes.js";
+import { type Context } from "../../types.js";
+
+const router = createRouter<Context>();
+
+// How often (in milliseconds) to send a comment, so that idle connections
+// aren't closed by proxies
+const KEEP_ALIVE_INTERVAL = 30 * 1000;
+
+router.get("/", (ctx) => {
+  const changes = ctx.get("changes");
+  const encoder = new TextEncoder();
+  let unsubscribe: () => void = () => {};
+  let keepAlive: ReturnType<typeof setInterval> | undefined;
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const send = (event: string, data: FlagChange | null) =>
+        controller.enqueue(
+          encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`),
+        );
+
+      unsubscribe = changes.subscribe((change) => send("change", change));
+      keepAlive = setInterval(
+        () => controller.enqueue(encoder.encode(": keep-alive\n\n")),
+        KEEP_ALIVE_INTERVAL,
+      );
+
+      send("ready", null);
+    },
+    cancel() {
+      unsubscribe();
+      clearInterval(keepAlive);
+    },
+  });
+
+  return ctx.body(stream, 200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache",
+    Connection: "keep-alive",
+  });
+});
+
+export { router };
@@ -1,6 +1,7 @@
 import { type D1Database, type KVNamespace } from "@cloudflare/workers-types";
 
 import { KVCacheAdapter } from "../cache/kv.js";
+import { CfQueuesQueueAdapter } from "../queue/cf-queues.js";
 import { D1StorageAdapter } from "../storage/d1.js";
 import {
   type GetRuntimeOptions,
@@ -15,9 +16,12 @@ export function runtime(
 ): Runtime {
   const d1 = env[config.env.db] as D1Database;
   const kv = env[config.env.cache] as KVNamespace;
+  const queue = env[config.env.queue] as Queue<unknown> | undefined;
 
   return {
     cache: options.cache ? new KVCacheAdapter({ kv }) : false,
+    // The exposures are only recorded if a queue has been bound
+    queue: queue ? new CfQueuesQueueAdapter({ queue }) : false,
     storage: new D1StorageAdapter({ d1 }),
   };
 }
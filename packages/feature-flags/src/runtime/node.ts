@@ -1,4 +1,7 @@
 import { MemoryCacheAdapter } from "../cache/memory.js";
+import { NoOpCacheAdapter } from "../cache/no-op.js";
+import { SqliteQueueAdapter } from "../queue/sqlite.js";
+import { applyFlagSchedules } from "../schedules.js";
 import { SqliteStorageAdapter } from "../storage/sqlite.js";
 import {
   type GetRuntimeOptions,
@@ -6,17 +9,38 @@ import {
   type ServerOptions,
 } from "../types.js";
 
+// How often (in milliseconds) to apply the scheduled flag changes
+const SCHEDULE_INTERVAL = 60 * 1000;
+
 export function runtime(
   config: ServerOptions,
   env: Record<string, unknown>,
   options: GetRuntimeOptions = { cache: true },
 ): Runtime {
   const db = env[config.env.db] as string;
+  const queue = env[config.env.queue] as string | undefined;
+  const cache = options.cache ? new MemoryCacheAdapter() : false;
+  const storage = new SqliteStorageAdapter(
+    db.endsWith(".sqlite") ? { db } : undefined,
+  );
+
+  // There are no cron triggers outside of Cloudflare, so the scheduled flag
+  // changes are applied on a timer instead. Any errors (e.g. the migrations
+  // not having been run yet) are ignored, as it's tried again on the next tick
+  setInterval(() => {
+    applyFlagSchedules({
+      cache: cache || new NoOpCacheAdapter(),
+      storage,
+    }).catch(() => {});
+  }, SCHEDULE_INTERVAL);
 
   return {
-    cache: options.cache ? new MemoryCacheAdapter() : false,
-    storage: new SqliteStorageAdapter(
-      db.endsWith(".sqlite") ? { db } : undefined,
-    ),
+    cache,
+    queue: queue
+      ? new SqliteQueueAdapter(
+          queue.endsWith(".sqlite") ? { db: queue } : undefined,
+        )
+      : false,
+    storage,
   };
 }
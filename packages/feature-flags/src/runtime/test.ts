@@ -1,6 +1,7 @@
 import { NoOpCacheAdapter } from "../cache/no-op.js";
+import { type QueueAdapter } from "../queue/index.js";
 import { MemoryStorageAdapter } from "../storage/memory.js";
-import { type Flag } from "../storage/storage-adapter.js";
+import { type Flag, type Segment } from "../storage/storage-adapter.js";
 import {
   type GetRuntimeOptions,
   type Runtime,
@@ -9,6 +10,8 @@ import {
 
 interface TestGetRuntimeOptions extends GetRuntimeOptions {
   initialFlags: Flag[];
+  initialSegments?: Segment[];
+  queue?: QueueAdapter;
 }
 
 export function runtime(
@@ -23,8 +26,10 @@ export function runtime(
 ): Runtime {
   return {
     cache: new NoOpCacheAdapter(),
+    queue: options.queue ?? false,
     storage: new MemoryStorageAdapter({
       initialFlags: options.initialFlags,
+      initialSegments: options.initialSegments,
     }),
   };
 }
@@ -0,0 +1,94 @@
+import { type CacheAdapter } from "./cache/index.js";
+import { parseDate } from "./conditions.js";
+import { CACHE } from "./constants.js";
+import { getFlagChanges, getFlagSnapshot } from "./history.js";
+import {
+  type Flag,
+  type FlagSchedule,
+  type StorageAdapter,
+} from "./storage/storage-adapter.js";
+
+// Who the applied schedules are recorded as in the flag's history
+const SCHEDULER_USER = { id: "scheduler", strategy: "schedule" };
+
+function isDue(schedule: FlagSchedule, now: number) {
+  const at = parseDate(schedule.at);
+
+  return at !== null && at <= now;
+}
+
+// Applies the schedules that are due to the flag (in order), removing them from
+// the flag's schedules
+export function applySchedules<T extends Pick<Flag, "schedules">>(
+  flag: T,
+  now = Date.now(),
+): T {
+  if (!flag.schedules?.some((schedule) => isDue(schedule, now))) {
+    return flag;
+  }
+
+  const schedules = [...flag.schedules].sort(
+    (a, b) => (parseDate(a.at) as number) - (parseDate(b.at) as number),
+  );
+  let result: T = flag;
+  const remaining: FlagSchedule[] = [];
+
+  for (const schedule of schedules) {
+    if (!isDue(schedule, now)) {
+      remaining.push(schedule);
+
+      continue;
+    }
+
+    const { at: _at, ...changes } = schedule;
+
+    result = { ...result, ...changes };
+  }
+
+  return {
+    ...result,
+    schedules: remaining.length > 0 ? remaining : undefined,
+  };
+}
+
+// Persists the schedules that are due, which is run periodically (e.g. by a
+// cron trigger). Evaluating the flags doesn't depend on this having run, as
+// `ask` applies the schedules itself, but it keeps the stored flags (and their
+// history) accurate
+export async function applyFlagSchedules(
+  { cache, storage }: { cache: CacheAdapter; storage: StorageAdapter },
+  now = Date.now(),
+) {
+  const flags = await storage.getFlags(true);
+  let applied = 0;
+
+  for (const flag of flags) {
+    const updated = applySchedules(flag, now);
+
+    if (updated === flag) {
+      continue;
+    }
+
+    const before = getFlagSnapshot(flag);
+    const after = getFlagSnapshot(updated);
+
+    await storage.upsertFlag(after);
+    await storage.createFlagVersion({
+      name: flag.name,
+      action: "schedule",
+      flag: after,
+      changes: getFlagChanges(before, after),
+      user: SCHEDULER_USER,
+    });
+
+    applied++;
+  }
+
+  if (applied > 0) {
+    await cache.delete(CACHE.FLAGS.ALL);
+    await cache.delete(CACHE.FLAGS.ENABLED);
+    await cache.delete(CACHE.FLAGS.ASK);
+  }
+
+  return applied;
+}
@@ -0,0 +1,241 @@
+import { type ClientResponse } from "@workertown/internal-client";
+
+import {
+  type AskOptions,
+  FeatureFlagsClient,
+  type FeatureFlagsClientFlag,
+  type FeatureFlagsClientOptions,
+  type FeatureFlagsClientSegment,
+} from "../client/index.js";
+import {
+  type EvaluableFlag,
+  evaluateFlags,
+  resolveFlagSegments,
+} from "../evaluate.js";
+import { type AskResult } from "../types.js";
+
+export interface FeatureFlagsSdkOptions extends FeatureFlagsClientOptions {
+  // How often (in milliseconds) to check for changes, or `false` to only
+  // refresh when `refresh()` is called (or a change is streamed)
+  refreshInterval?: number | false;
+  // Whether to listen for changes via the `/v1/stream` endpoint, so that they
+  // are picked up as soon as they're made
+  stream?: boolean;
+}
+
+const DEFAULT_REFRESH_INTERVAL = 30 * 1000;
+
+// How long (in milliseconds) to wait before reconnecting to the stream
+const RECONNECT_DELAY = 5 * 1000;
+
+// Evaluates the flags locally, rather than making a request to `/v1/ask` for
+// every check. The flags (and segments) are fetched up front, and kept up to
+// date by polling (which only downloads them again when their `ETag` changes)
+// and/or streaming the changes
+export class FeatureFlagsSdk extends FeatureFlagsClient {
+  private readonly _refreshInterval: number | false;
+
+  private readonly _stream: boolean;
+
+  private _rawFlags: FeatureFlagsClientFlag[] = [];
+
+  private _segments: FeatureFlagsClientSegment[] = [];
+
+  private _flags: EvaluableFlag[] = [];
+
+  private _etags: { flags?: string; segments?: string } = {};
+
+  private _refreshedAt: number | null = null;
+
+  private _started = false;
+
+  private _pollTimer?: ReturnType<typeof setTimeout>;
+
+  private _reconnectTimer?: ReturnType<typeof setTimeout>;
+
+  private _reader?: ReadableStreamDefaultReader<Uint8Array>;
+
+  constructor(options: FeatureFlagsSdkOptions = {}) {
+    const {
+      refreshInterval = DEFAULT_REFRESH_INTERVAL,
+      stream = false,
+      ...clientOptions
+    } = options;
+
+    super(clientOptions);
+
+    this._refreshInterval = refreshInterval;
+    this._stream = stream;
+  }
+
+  private async _fetchIfChanged<T>(
+    key: "flags" | "segments",
+    path: string,
+    query?: Record<string, boolean>,
+  ): Promise<T | null> {
+    const etag = this._etags[key];
+    const response = await this.fetch("GET", path, {
+      query,
+      headers: etag ? { "If-None-Match": etag } : undefined,
+    });
+
+    if (response.status === 304) {
+      return null;
+    }
+
+    const { data } = (await response.json()) as ClientResponse<T>;
+
+    this._etags[key] = response.headers.get("ETag") ?? undefined;
+
+    return data;
+  }
+
+  // Fetches the flags and segments, if they have changed since the last time.
+  // The disabled flags are included, as they could be scheduled to be enabled
+  async refresh() {
+    const [flags, segments] = await Promise.all([
+      this._fetchIfChanged<FeatureFlagsClientFlag[]>(
+        "flags",
+        this.endpoints.v1.flags,
+        { include_disabled: true },
+      ),
+      this._fetchIfChanged<FeatureFlagsClientSegment[]>(
+        "segments",
+        this.endpoints.v1.segments,
+      ),
+    ]);
+
+    if (flags) {
+      this._rawFlags = flags;
+    }
+
+    if (segments) {
+      this._segments = segments;
+    }
+
+    if (flags || segments) {
+      this._flags = this._rawFlags.map((flag) =>
+        resolveFlagSegments(flag, this._segments),
+      );
+    }
+
+    this._refreshedAt = Date.now();
+  }
+
+  // Refreshes the flags if they haven't been in the last `refreshInterval`.
+  // This is for environments that can't keep a timer running in the background
+  // (e.g. Cloudflare Workers), where it can be called at the start of every
+  // request
+  async refreshIfStale() {
+    if (
+      this._refreshedAt === null ||
+      (this._refreshInterval !== false &&
+        Date.now() - this._refreshedAt >= this._refreshInterval)
+    ) {
+      await this.refresh();
+    }
+  }
+
+  private _poll() {
+    this._pollTimer = setTimeout(async () => {
+      // The last known flags keep being used if the refresh fails
+      try {
+        await this.refresh();
+      } catch (_) {}
+
+      if (this._started) {
+        this._poll();
+      }
+    }, this._refreshInterval as number);
+  }
+
+  private async _readEvents(reader: ReadableStreamDefaultReader<Uint8Array>) {
+    const decoder = new TextDecoder();
+    let buffer = "";
+
+    while (true) {
+      const { done, value } = await reader.read();
+
+      if (done) {
+        return;
+      }
+
+      buffer += decoder.decode(value, { stream: true });
+
+      const events = buffer.split("\n\n");
+
+      buffer = events.pop() ?? "";
+
+      // Refreshing on `ready` too catches any changes that were missed while
+      // the stream was disconnected
+      if (events.some((event) => /^event: (ready|change)$/m.test(event))) {
+        try {
+          await this.refresh();
+        } catch (_) {}
+      }
+    }
+  }
+
+  private async _listen() {
+    while (this._started) {
+      try {
+        const response = await this.fetch("GET", this.endpoints.v1.stream, {
+          headers: { Accept: "text/event-stream" },
+        });
+
+        if (response.body) {
+          this._reader = response.body.getReader();
+
+          await this._readEvents(this._reader);
+        }
+      } catch (_) {}
+
+      if (this._started) {
+        await new Promise((resolve) => {
+          this._reconnectTimer = setTimeout(resolve, RECONNECT_DELAY);
+        });
+      }
+    }
+  }
+
+  // Loads the flags, and then keeps them up to date until `stop()` is called
+  async start() {
+    this._started = true;
+
+    await this.refresh();
+
+    if (this._refreshInterval !== false) {
+      this._poll();
+    }
+
+    if (this._stream) {
+      this._listen();
+    }
+  }
+
+  stop() {
+    this._started = false;
+
+    clearTimeout(this._pollTimer);
+    clearTimeout(this._reconnectTimer);
+    this._reader?.cancel().catch(() => {});
+  }
+
+  evaluate(options: AskOptions = {}): AskResult[] {
+    return evaluateFlags(this._flags, options);
+  }
+
+  evaluateFlag(name: string, context?: Record<string, unknown>) {
+    return this.evaluate({ flags: [name], context })[0] ?? null;
+  }
+
+  isEnabled(name: string, context?: Record<string, unknown>) {
+    return this.evaluateFlag(name, context) !== null;
+  }
+}
+
+export function createFeatureFlagsSdk(options?: FeatureFlagsSdkOptions) {
+  return new FeatureFlagsSdk(options);
+}
+
+export { type AskResult };
@@ -4,8 +4,12 @@ import merge from "lodash.merge";
 
 import { type CacheAdapter } from "./cache/index.js";
 import { NoOpCacheAdapter } from "./cache/no-op.js";
+import { FlagChangeEmitter } from "./changes.js";
+import { aggregateExposures } from "./exposures.js";
+import { type QueueAdapter, type QueueMessage } from "./queue/index.js";
 import { publicRouter, v1 } from "./routers/index.js";
 import { runtime as cloudflareWorkersRuntime } from "./runtime/cloudflare-workers.js";
+import { applyFlagSchedules } from "./schedules.js";
 import { type StorageAdapter } from "./storage/storage-adapter.js";
 import { type Context, type ServerOptions } from "./types.js";
 
@@ -38,12 +42,15 @@ const DEFAULT_OPTIONS: ServerOptions = {
       admin: "/v1/admin",
       ask: "/v1/ask",
       flags: "/v1/flags",
+      segments: "/v1/segments",
+      stream: "/v1/stream",
     },
     public: "/",
   },
   env: {
     cache: "FLAGS_CACHE",
     db: "FLAGS_DB",
+    queue: "FLAGS_QUEUE",
   },
 };
 
@@ -60,17 +67,28 @@ export function createFeatureFlagsServer(
   const server = createServer<Context>(baseConfig);
   let storage: StorageAdapter;
   let cache: CacheAdapter | false;
+  let queue: QueueAdapter | false;
+  const changes = new FlagChangeEmitter();
 
-  server.use("*", async (ctx, next) => {
+  function initRuntime(env: Record<string, unknown>) {
     if (!cache && !storage) {
-      ({ cache, storage } =
-        typeof runtime === "function"
-          ? runtime(config, ctx.env)
-          : runtime ?? cloudflareWorkersRuntime(config, ctx.env));
+      ({
+        cache,
+        queue = false,
+        storage,
+      } = typeof runtime === "function"
+        ? runtime(config, env)
+        : runtime ?? cloudflareWorkersRuntime(config, env));
     }
+  }
+
+  server.use("*", async (ctx, next) => {
+    initRuntime(ctx.env);
 
     ctx.set("cache", cache || new NoOpCacheAdapter());
+    ctx.set("changes", changes);
     ctx.set("config", config);
+    ctx.set("queue", queue);
     ctx.set("storage", storage);
 
     return next();
@@ -88,9 +106,51 @@ export function createFeatureFlagsServer(
     server.route(endpoints.v1.flags, v1.flagsRouter);
   }
 
+  if (endpoints.v1.segments !== false) {
+    server.route(endpoints.v1.segments, v1.segmentsRouter);
+  }
+
+  if (endpoints.v1.stream !== false) {
+    server.route(endpoints.v1.stream, v1.streamRouter);
+  }
+
   if (endpoints.public !== false) {
     server.route(endpoints.public, publicRouter);
   }
 
+  // Applies the scheduled flag changes when run by a cron trigger
+  server.scheduled = async (_controller, env, ctx) => {
+    initRuntime(env);
+
+    ctx.waitUntil(
+      applyFlagSchedules({ cache: cache || new NoOpCacheAdapter(), storage }),
+    );
+  };
+
+  server.scheduled = server.scheduled.bind(server);
+
+  // Records the flag exposures that were sent to the queue by `ask`
+  server.queue = async (batch, env) => {
+    initRuntime(env);
+
+    const messages = batch.messages.map(
+      (message) => (message.body as QueueMessage).body,
+    );
+
+    try {
+      await storage.recordFlagExposures(aggregateExposures(messages));
+
+      for (const message of batch.messages) {
+        message.ack();
+      }
+    } catch (_) {
+      for (const message of batch.messages) {
+        message.retry();
+      }
+    }
+  };
+
+  server.queue = server.queue.bind(server);
+
   return server;
 }
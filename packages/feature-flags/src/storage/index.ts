@@ -1,15 +1,51 @@
 import {
+  type CreateFlagVersionBody,
   type Flag,
+  type FlagChanges,
   type FlagCondition,
+  type FlagConditionGroup,
   type FlagConditionOperator,
+  type FlagExposure,
+  type FlagLastEvaluated,
+  type FlagRollout,
+  type FlagRule,
+  type FlagSchedule,
+  type FlagSegmentRule,
+  type FlagVariant,
+  type FlagVariantValue,
+  type FlagVariants,
+  type FlagVersion,
+  type FlagVersionAction,
+  type FlagVersionUser,
+  type Segment,
+  type SegmentIds,
   StorageAdapter,
   type UpsertFlagBody,
+  type UpsertSegmentBody,
 } from "./storage-adapter.js";
 
 export {
   StorageAdapter,
+  type CreateFlagVersionBody,
   type Flag,
+  type FlagChanges,
   type FlagCondition,
+  type FlagConditionGroup,
   type FlagConditionOperator,
+  type FlagExposure,
+  type FlagLastEvaluated,
+  type FlagRollout,
+  type FlagRule,
+  type FlagSchedule,
+  type FlagSegmentRule,
+  type FlagVariant,
+  type FlagVariants,
+  type FlagVariantValue,
+  type FlagVersion,
+  type FlagVersionAction,
+  type FlagVersionUser,
+  type Segment,
+  type SegmentIds,
   type UpsertFlagBody,
+  type UpsertSegmentBody,
 };
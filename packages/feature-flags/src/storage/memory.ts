@@ -1,13 +1,20 @@
 import { MemoryStorageAdapter as BaseMemoryStorageAdapter } from "@workertown/internal-storage/memory";
 
 import {
+  type CreateFlagVersionBody,
   type Flag,
+  type FlagExposure,
+  type FlagLastEvaluated,
+  type FlagVersion,
+  type Segment,
   StorageAdapter,
   type UpsertFlagBody,
+  type UpsertSegmentBody,
 } from "./storage-adapter.js";
 
 interface MemoryStorageAdapterOptions {
   initialFlags?: Flag[];
+  initialSegments?: Segment[];
 }
 
 export class MemoryStorageAdapter
@@ -16,14 +23,24 @@ export class MemoryStorageAdapter
 {
   private readonly _flagStore = new Map<string, Flag>();
 
+  private readonly _versionStore = new Map<string, FlagVersion[]>();
+
+  private readonly _segmentStore = new Map<string, Segment>();
+
+  private _exposureStore: FlagExposure[] = [];
+
   constructor(options: MemoryStorageAdapterOptions = {}) {
     super();
 
-    const { initialFlags = [] } = options;
+    const { initialFlags = [], initialSegments = [] } = options;
 
     initialFlags.forEach((flag) => {
       this._flagStore.set(flag.name, flag);
     });
+
+    initialSegments.forEach((segment) => {
+      this._segmentStore.set(segment.name, segment);
+    });
   }
 
   public async getFlags(disabled = false): Promise<Flag[]> {
@@ -71,4 +88,112 @@ export class MemoryStorageAdapter
   public async deleteFlag(name: string): Promise<void> {
     this._flagStore.delete(name);
   }
+
+  public async getFlagVersions(name: string): Promise<FlagVersion[]> {
+    return [...(this._versionStore.get(name) ?? [])].reverse();
+  }
+
+  public async getFlagVersion(
+    name: string,
+    version: number,
+  ): Promise<FlagVersion | null> {
+    return (
+      this._versionStore
+        .get(name)
+        ?.find((flagVersion) => flagVersion.version === version) ?? null
+    );
+  }
+
+  public async createFlagVersion(
+    flagVersion: CreateFlagVersionBody,
+  ): Promise<FlagVersion> {
+    const versions = this._versionStore.get(flagVersion.name) ?? [];
+    const versionRecord = {
+      ...flagVersion,
+      version: versions.length + 1,
+      createdAt: new Date(),
+    };
+
+    this._versionStore.set(flagVersion.name, [...versions, versionRecord]);
+
+    return versionRecord;
+  }
+
+  public async getFlagExposures(
+    name: string,
+    since?: Date,
+  ): Promise<FlagExposure[]> {
+    return this._exposureStore
+      .filter(
+        (exposure) =>
+          exposure.name === name &&
+          (!since || exposure.bucket.getTime() >= since.getTime()),
+      )
+      .sort((a, b) => a.bucket.getTime() - b.bucket.getTime());
+  }
+
+  public async getFlagsLastEvaluated(): Promise<FlagLastEvaluated[]> {
+    const lastEvaluated = new Map<string, Date>();
+
+    for (const { name, lastEvaluatedAt } of this._exposureStore) {
+      const existing = lastEvaluated.get(name);
+
+      if (!existing || existing < lastEvaluatedAt) {
+        lastEvaluated.set(name, lastEvaluatedAt);
+      }
+    }
+
+    return Array.from(lastEvaluated, ([name, lastEvaluatedAt]) => ({
+      name,
+      lastEvaluatedAt,
+    }));
+  }
+
+  public async recordFlagExposures(exposures: FlagExposure[]): Promise<void> {
+    for (const exposure of exposures) {
+      const existing = this._exposureStore.find(
+        ({ name, variant, bucket }) =>
+          name === exposure.name &&
+          variant === exposure.variant &&
+          bucket.getTime() === exposure.bucket.getTime(),
+      );
+
+      if (existing) {
+        existing.count += exposure.count;
+
+        if (existing.lastEvaluatedAt < exposure.lastEvaluatedAt) {
+          existing.lastEvaluatedAt = exposure.lastEvaluatedAt;
+        }
+      } else {
+        this._exposureStore.push({ ...exposure });
+      }
+    }
+  }
+
+  public async getSegments(): Promise<Segment[]> {
+    return Array.from(this._segmentStore.values()).sort((a, b) =>
+      a.name.localeCompare(b.name),
+    );
+  }
+
+  public async getSegment(name: string): Promise<Segment | null> {
+    return this._segmentStore.get(name) ?? null;
+  }
+
+  public async upsertSegment(segment: UpsertSegmentBody): Promise<Segment> {
+    const existing = await this.getSegment(segment.name);
+    const segmentRecord = {
+      ...segment,
+      createdAt: existing?.createdAt ?? new Date(),
+      updatedAt: new Date(),
+    };
+
+    this._segmentStore.set(segment.name, segmentRecord);
+
+    return segmentRecord;
+  }
+
+  public async deleteSegment(name: string): Promise<void> {
+    this._segmentStore.delete(name);
+  }
 }
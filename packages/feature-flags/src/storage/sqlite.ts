@@ -2,20 +2,35 @@ import {
   type ColumnType,
   type Migrations,
   type Selectable,
+  sql,
 } from "@workertown/internal-storage";
 import { SqliteStorageAdapter as BaseSqliteStorageAdapter } from "@workertown/internal-storage/sqlite";
 
 import {
+  type CreateFlagVersionBody,
   type Flag,
-  type FlagCondition,
+  type FlagChanges,
+  type FlagExposure,
+  type FlagRollout,
+  type FlagRule,
+  type FlagSchedule,
+  type FlagVariants,
+  type FlagVersion,
+  type FlagVersionAction,
+  type Segment,
+  type SegmentIds,
   StorageAdapter,
   type UpsertFlagBody,
+  type UpsertSegmentBody,
 } from "./storage-adapter.js";
 
 interface FlagTable {
   name: string;
   description: string | null;
   conditions: string | null;
+  rollout: string | null;
+  variants: string | null;
+  schedules: string | null;
   disabled_at: ColumnType<number, number, number> | null;
   created_at: ColumnType<number, number, never>;
   updated_at: ColumnType<number, number, number>;
@@ -23,8 +38,45 @@ interface FlagTable {
 
 type FlagRow = Selectable<FlagTable>;
 
+interface FlagVersionTable {
+  name: string;
+  version: number;
+  action: FlagVersionAction;
+  flag: string | null;
+  changes: string;
+  user_id: string;
+  user_strategy: string;
+  created_at: ColumnType<number, number, never>;
+}
+
+type FlagVersionRow = Selectable<FlagVersionTable>;
+
+interface FlagExposureTable {
+  name: string;
+  variant: string | null;
+  bucket: ColumnType<number, number, never>;
+  count: number;
+  last_evaluated_at: ColumnType<number, number, number>;
+}
+
+type FlagExposureRow = Selectable<FlagExposureTable>;
+
+interface SegmentTable {
+  name: string;
+  description: string | null;
+  ids: string | null;
+  conditions: string | null;
+  created_at: ColumnType<number, number, never>;
+  updated_at: ColumnType<number, number, number>;
+}
+
+type SegmentRow = Selectable<SegmentTable>;
+
 export interface DatabaseSchema {
   wt_flags_flags: FlagTable;
+  wt_flags_flag_versions: FlagVersionTable;
+  wt_flags_exposures: FlagExposureTable;
+  wt_flags_segments: SegmentTable;
 }
 
 const MIGRATIONS: Migrations = [
@@ -73,6 +125,159 @@ const MIGRATIONS: Migrations = [
       },
     },
   },
+  {
+    name: "1792349540731_add_rollout_column",
+    migration: {
+      async up(db) {
+        await db.schema
+          .alterTable("wt_flags_flags")
+          .addColumn("rollout", "text")
+          .execute();
+      },
+      async down(db) {
+        await db.schema
+          .alterTable("wt_flags_flags")
+          .dropColumn("rollout")
+          .execute();
+      },
+    },
+  },
+  {
+    name: "1792349670154_add_variants_column",
+    migration: {
+      async up(db) {
+        await db.schema
+          .alterTable("wt_flags_flags")
+          .addColumn("variants", "text")
+          .execute();
+      },
+      async down(db) {
+        await db.schema
+          .alterTable("wt_flags_flags")
+          .dropColumn("variants")
+          .execute();
+      },
+    },
+  },
+  {
+    name: "1792350046218_add_segments_table",
+    migration: {
+      async up(db) {
+        await db.schema
+          .createTable("wt_flags_segments")
+          .ifNotExists()
+          .addColumn("name", "text", (col) => col.notNull())
+          .addColumn("description", "text")
+          .addColumn("ids", "text")
+          .addColumn("conditions", "text")
+          .addColumn("created_at", "integer", (col) => col.notNull())
+          .addColumn("updated_at", "integer", (col) => col.notNull())
+          .execute();
+
+        await db.schema
+          .createIndex("wt_flags_segments_name_idx")
+          .unique()
+          .ifNotExists()
+          .on("wt_flags_segments")
+          .columns(["name"])
+          .execute();
+      },
+      async down(db) {
+        await db.schema
+          .dropIndex("wt_flags_segments_name_idx")
+          .ifExists()
+          .execute();
+
+        await db.schema.dropTable("wt_flags_segments").ifExists().execute();
+      },
+    },
+  },
+  {
+    name: "1792350250877_add_flag_versions_table",
+    migration: {
+      async up(db) {
+        await db.schema
+          .createTable("wt_flags_flag_versions")
+          .ifNotExists()
+          .addColumn("name", "text", (col) => col.notNull())
+          .addColumn("version", "integer", (col) => col.notNull())
+          .addColumn("action", "text", (col) => col.notNull())
+          .addColumn("flag", "text")
+          .addColumn("changes", "text", (col) => col.notNull())
+          .addColumn("user_id", "text", (col) => col.notNull())
+          .addColumn("user_strategy", "text", (col) => col.notNull())
+          .addColumn("created_at", "integer", (col) => col.notNull())
+          .execute();
+
+        await db.schema
+          .createIndex("wt_flags_flag_versions_name_version_idx")
+          .unique()
+          .ifNotExists()
+          .on("wt_flags_flag_versions")
+          .columns(["name", "version"])
+          .execute();
+      },
+      async down(db) {
+        await db.schema
+          .dropIndex("wt_flags_flag_versions_name_version_idx")
+          .ifExists()
+          .execute();
+
+        await db.schema
+          .dropTable("wt_flags_flag_versions")
+          .ifExists()
+          .execute();
+      },
+    },
+  },
+  {
+    name: "1792350432305_add_schedules_column",
+    migration: {
+      async up(db) {
+        await db.schema
+          .alterTable("wt_flags_flags")
+          .addColumn("schedules", "text")
+          .execute();
+      },
+      async down(db) {
+        await db.schema
+          .alterTable("wt_flags_flags")
+          .dropColumn("schedules")
+          .execute();
+      },
+    },
+  },
+  {
+    name: "1792350787640_add_exposures_table",
+    migration: {
+      async up(db) {
+        await db.schema
+          .createTable("wt_flags_exposures")
+          .ifNotExists()
+          .addColumn("name", "text", (col) => col.notNull())
+          .addColumn("variant", "text")
+          .addColumn("bucket", "integer", (col) => col.notNull())
+          .addColumn("count", "integer", (col) => col.notNull())
+          .addColumn("last_evaluated_at", "integer", (col) => col.notNull())
+          .execute();
+
+        await db.schema
+          .createIndex("wt_flags_exposures_name_bucket_idx")
+          .ifNotExists()
+          .on("wt_flags_exposures")
+          .columns(["name", "bucket"])
+          .execute();
+      },
+      async down(db) {
+        await db.schema
+          .dropIndex("wt_flags_exposures_name_bucket_idx")
+          .ifExists()
+          .execute();
+
+        await db.schema.dropTable("wt_flags_exposures").ifExists().execute();
+      },
+    },
+  },
 ];
 
 export class SqliteStorageAdapter
@@ -89,13 +294,60 @@ export class SqliteStorageAdapter
       description: flag.description === null ? undefined : flag.description,
       enabled: !flag.disabled_at,
       conditions: flag.conditions
-        ? (JSON.parse(flag.conditions) as FlagCondition[])
+        ? (JSON.parse(flag.conditions) as FlagRule[])
+        : undefined,
+      rollout: flag.rollout
+        ? (JSON.parse(flag.rollout) as FlagRollout)
+        : undefined,
+      variants: flag.variants
+        ? (JSON.parse(flag.variants) as FlagVariants)
+        : undefined,
+      schedules: flag.schedules
+        ? (JSON.parse(flag.schedules) as FlagSchedule[])
         : undefined,
       createdAt: new Date(flag.created_at),
       updatedAt: new Date(flag.updated_at),
     };
   }
 
+  private _formatFlagVersion(flagVersion: FlagVersionRow): FlagVersion {
+    return {
+      name: flagVersion.name,
+      version: flagVersion.version,
+      action: flagVersion.action,
+      flag: flagVersion.flag
+        ? (JSON.parse(flagVersion.flag) as UpsertFlagBody)
+        : null,
+      changes: JSON.parse(flagVersion.changes) as FlagChanges,
+      user: { id: flagVersion.user_id, strategy: flagVersion.user_strategy },
+      createdAt: new Date(flagVersion.created_at),
+    };
+  }
+
+  private _formatFlagExposure(exposure: FlagExposureRow): FlagExposure {
+    return {
+      name: exposure.name,
+      variant: exposure.variant,
+      bucket: new Date(exposure.bucket),
+      count: exposure.count,
+      lastEvaluatedAt: new Date(exposure.last_evaluated_at),
+    };
+  }
+
+  private _formatSegment(segment: SegmentRow): Segment {
+    return {
+      name: segment.name,
+      description:
+        segment.description === null ? undefined : segment.description,
+      ids: segment.ids ? (JSON.parse(segment.ids) as SegmentIds) : undefined,
+      conditions: segment.conditions
+        ? (JSON.parse(segment.conditions) as FlagRule[])
+        : undefined,
+      createdAt: new Date(segment.created_at),
+      updatedAt: new Date(segment.updated_at),
+    };
+  }
+
   public async getFlags(disabled = false) {
     let query = this.client.selectFrom("wt_flags_flags").selectAll();
 
@@ -139,6 +391,11 @@ export class SqliteStorageAdapter
           conditions: flag.conditions
             ? JSON.stringify(flag.conditions)
             : undefined,
+          rollout: flag.rollout ? JSON.stringify(flag.rollout) : undefined,
+          variants: flag.variants ? JSON.stringify(flag.variants) : undefined,
+          schedules: flag.schedules
+            ? JSON.stringify(flag.schedules)
+            : undefined,
           disabled_at: flag.enabled ? undefined : now.getTime(),
           created_at: now.getTime(),
           updated_at: now.getTime(),
@@ -149,11 +406,12 @@ export class SqliteStorageAdapter
         .updateTable("wt_flags_flags")
         .where("name", "=", flag.name)
         .set({
-          description: flag.description,
-          conditions: flag.conditions
-            ? JSON.stringify(flag.conditions)
-            : undefined,
-          disabled_at: flag.enabled ? undefined : now.getTime(),
+          description: flag.description ?? null,
+          conditions: flag.conditions ? JSON.stringify(flag.conditions) : null,
+          rollout: flag.rollout ? JSON.stringify(flag.rollout) : null,
+          variants: flag.variants ? JSON.stringify(flag.variants) : null,
+          schedules: flag.schedules ? JSON.stringify(flag.schedules) : null,
+          disabled_at: flag.enabled ? null : now.getTime(),
           updated_at: now.getTime(),
         })
         .execute();
@@ -172,4 +430,211 @@ export class SqliteStorageAdapter
       .where("name", "=", name)
       .execute();
   }
+
+  public async getFlagVersions(name: string) {
+    const records = await this.client
+      .selectFrom("wt_flags_flag_versions")
+      .selectAll()
+      .where("name", "=", name)
+      .orderBy("version", "desc")
+      .execute();
+
+    return records.map((record) => this._formatFlagVersion(record));
+  }
+
+  public async getFlagVersion(name: string, version: number) {
+    const record = await this.client
+      .selectFrom("wt_flags_flag_versions")
+      .selectAll()
+      .where("name", "=", name)
+      .where("version", "=", version)
+      .executeTakeFirst();
+
+    if (!record) {
+      return null;
+    }
+
+    return this._formatFlagVersion(record);
+  }
+
+  public async createFlagVersion(flagVersion: CreateFlagVersionBody) {
+    const now = new Date();
+    const latest = await this.client
+      .selectFrom("wt_flags_flag_versions")
+      .select("version")
+      .where("name", "=", flagVersion.name)
+      .orderBy("version", "desc")
+      .executeTakeFirst();
+    const version = (latest?.version ?? 0) + 1;
+
+    await this.client
+      .insertInto("wt_flags_flag_versions")
+      .values({
+        name: flagVersion.name,
+        version,
+        action: flagVersion.action,
+        flag: flagVersion.flag ? JSON.stringify(flagVersion.flag) : undefined,
+        changes: JSON.stringify(flagVersion.changes),
+        user_id: flagVersion.user.id,
+        user_strategy: flagVersion.user.strategy,
+        created_at: now.getTime(),
+      })
+      .execute();
+
+    return { ...flagVersion, version, createdAt: now };
+  }
+
+  public async getFlagExposures(name: string, since?: Date) {
+    let query = this.client
+      .selectFrom("wt_flags_exposures")
+      .selectAll()
+      .where("name", "=", name);
+
+    if (since) {
+      query = query.where("bucket", ">=", since.getTime());
+    }
+
+    const records = await query.orderBy("bucket").execute();
+
+    return records.map((record) => this._formatFlagExposure(record));
+  }
+
+  public async getFlagsLastEvaluated() {
+    const records = await this.client
+      .selectFrom("wt_flags_exposures")
+      .select(({ fn }) => [
+        "name",
+        fn.max("last_evaluated_at").as("last_evaluated_at"),
+      ])
+      .groupBy("name")
+      .execute();
+
+    return records.map((record) => ({
+      name: record.name,
+      lastEvaluatedAt: new Date(record.last_evaluated_at),
+    }));
+  }
+
+  public async recordFlagExposures(exposures: FlagExposure[]) {
+    for (const exposure of exposures) {
+      const bucket = exposure.bucket.getTime();
+      const lastEvaluatedAt = exposure.lastEvaluatedAt.getTime();
+      const existing = await this.client
+        .selectFrom("wt_flags_exposures")
+        .select("count")
+        .where("name", "=", exposure.name)
+        .where(
+          "variant",
+          exposure.variant === null ? "is" : "=",
+          exposure.variant,
+        )
+        .where("bucket", "=", bucket)
+        .executeTakeFirst();
+
+      if (!existing) {
+        await this.client
+          .insertInto("wt_flags_exposures")
+          .values({
+            name: exposure.name,
+            variant: exposure.variant,
+            bucket,
+            count: exposure.count,
+            last_evaluated_at: lastEvaluatedAt,
+          })
+          .execute();
+      } else {
+        await this.client
+          .updateTable("wt_flags_exposures")
+          .where("name", "=", exposure.name)
+          .where(
+            "variant",
+            exposure.variant === null ? "is" : "=",
+            exposure.variant,
+          )
+          .where("bucket", "=", bucket)
+          .set({
+            count: sql`${sql.ref("count")} + ${exposure.count}`,
+            last_evaluated_at: sql`max(${sql.ref(
+              "last_evaluated_at",
+            )}, ${lastEvaluatedAt})`,
+          })
+          .execute();
+      }
+    }
+  }
+
+  public async getSegments() {
+    const records = await this.client
+      .selectFrom("wt_flags_segments")
+      .selectAll()
+      .orderBy("name")
+      .execute();
+
+    return records.map((record) => this._formatSegment(record));
+  }
+
+  public async getSegment(name: string) {
+    const record = await this.client
+      .selectFrom("wt_flags_segments")
+      .selectAll()
+      .where("name", "=", name)
+      .executeTakeFirst();
+
+    if (!record) {
+      return null;
+    }
+
+    return this._formatSegment(record);
+  }
+
+  public async upsertSegment(segment: UpsertSegmentBody) {
+    const now = new Date();
+    const existing = await this.client
+      .selectFrom("wt_flags_segments")
+      .selectAll()
+      .where("name", "=", segment.name)
+      .executeTakeFirst();
+
+    if (!existing) {
+      await this.client
+        .insertInto("wt_flags_segments")
+        .values({
+          name: segment.name,
+          description: segment.description,
+          ids: segment.ids ? JSON.stringify(segment.ids) : undefined,
+          conditions: segment.conditions
+            ? JSON.stringify(segment.conditions)
+            : undefined,
+          created_at: now.getTime(),
+          updated_at: now.getTime(),
+        })
+        .execute();
+    } else {
+      await this.client
+        .updateTable("wt_flags_segments")
+        .where("name", "=", segment.name)
+        .set({
+          description: segment.description ?? null,
+          ids: segment.ids ? JSON.stringify(segment.ids) : null,
+          conditions: segment.conditions
+            ? JSON.stringify(segment.conditions)
+            : null,
+          updated_at: now.getTime(),
+        })
+        .execute();
+    }
+
+    return {
+      ...segment,
+      createdAt: existing?.created_at ? new Date(existing.created_at) : now,
+      updatedAt: now,
+    };
+  }
+
+  public async deleteSegment(name: string) {
+    await this.client
+      .deleteFrom("wt_flags_segments")
+      .where("name", "=", name)
+      .execute();
+  }
 }
@@ -8,19 +8,88 @@ export type FlagConditionOperator =
   | "lt"
   | "lte"
   | "in"
-  | "nin";
+  | "nin"
+  | "startsWith"
+  | "endsWith"
+  | "contains"
+  | "regex"
+  | "semverEq"
+  | "semverGt"
+  | "semverGte"
+  | "semverLt"
+  | "semverLte"
+  | "before"
+  | "after"
+  | "cidr";
 
 export interface FlagCondition {
+  // A (dot separated) path into the context, e.g. `user.plan`
   field: string;
   operator: FlagConditionOperator;
   value: string | number | boolean | string[] | number[] | boolean[];
 }
 
+export type FlagConditionGroup =
+  | { all: FlagRule[] }
+  | { any: FlagRule[] }
+  | { not: FlagRule };
+
+// References a segment by name, the context must be a member of the segment
+export interface FlagSegmentRule {
+  segment: string;
+}
+
+export type FlagRule = FlagCondition | FlagConditionGroup | FlagSegmentRule;
+
+export interface FlagRollout {
+  // The percentage (`0` - `100`) of contexts to enable the flag for
+  percentage: number;
+  // The context field to bucket by, e.g. `userId`
+  key: string;
+}
+
+export type FlagVariantValue =
+  | string
+  | number
+  | boolean
+  | null
+  | FlagVariantValue[]
+  | { [key: string]: FlagVariantValue };
+
+export interface FlagVariant {
+  name: string;
+  // The payload returned when the variant is picked
+  value: FlagVariantValue;
+  // The relative chance of the variant being picked
+  weight: number;
+}
+
+export interface FlagVariants {
+  // The context field to bucket by when picking a variant, e.g. `userId`
+  key: string;
+  // The variant to return when the context doesn't meet the conditions (or
+  // the rollout), if not set the flag is off for the context instead
+  fallback?: string;
+  options: FlagVariant[];
+}
+
+export interface FlagSchedule {
+  // When to apply the changes, an ISO 8601 date or a timestamp in milliseconds
+  at: string | number;
+  enabled?: boolean;
+  conditions?: FlagRule[];
+  rollout?: FlagRollout;
+}
+
 export interface Flag {
   name: string;
   description?: string;
   enabled: boolean;
-  conditions?: FlagCondition[];
+  conditions?: FlagRule[];
+  rollout?: FlagRollout;
+  variants?: FlagVariants;
+  // Changes to apply to the flag at a later time
+  schedules?: FlagSchedule[];
   createdAt: Date;
   updatedAt: Date;
 }
@@ -29,7 +98,89 @@ export interface UpsertFlagBody {
   name: string;
   description?: string;
   enabled: boolean;
-  conditions?: FlagCondition[];
+  conditions?: FlagRule[];
+  rollout?: FlagRollout;
+  variants?: FlagVariants;
+  schedules?: FlagSchedule[];
+}
+
+export type FlagVersionAction =
+  | "create"
+  | "update"
+  | "delete"
+  | "rollback"
+  | "schedule";
+
+// The fields that changed, with their values before and after the change
+export type FlagChanges = {
+  [K in keyof Omit<UpsertFlagBody, "name">]?: {
+    from?: UpsertFlagBody[K];
+    to?: UpsertFlagBody[K];
+  };
+};
+
+export interface FlagVersionUser {
+  id: string;
+  // The auth strategy the user was authenticated with, e.g. `api_key`
+  strategy: string;
+}
+
+export interface FlagVersion {
+  name: string;
+  version: number;
+  action: FlagVersionAction;
+  // The flag as it was *after* the change, or `null` if it was deleted
+  flag: UpsertFlagBody | null;
+  changes: FlagChanges;
+  user: FlagVersionUser;
+  createdAt: Date;
+}
+
+export interface CreateFlagVersionBody {
+  name: string;
+  action: FlagVersionAction;
+  flag: UpsertFlagBody | null;
+  changes: FlagChanges;
+  user: FlagVersionUser;
+}
+
+export interface FlagExposure {
+  name: string;
+  // The variant that was served, or `null` for a flag without variants
+  variant: string | null;
+  // The start of the hour that the flag was served in
+  bucket: Date;
+  count: number;
+  lastEvaluatedAt: Date;
+}
+
+export interface FlagLastEvaluated {
+  name: string;
+  lastEvaluatedAt: Date;
+}
+
+export interface SegmentIds {
+  // The context field to match against, e.g. `userId`
+  key: string;
+  values: string[] | number[];
+}
+
+export interface Segment {
+  name: string;
+  description?: string;
+  // The contexts that are *always* members of the segment
+  ids?: SegmentIds;
+  // The rules a context must *all* meet to be a member of the segment
+  conditions?: FlagRule[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface UpsertSegmentBody {
+  name: string;
+  description?: string;
+  ids?: SegmentIds;
+  conditions?: FlagRule[];
 }
 
 export class StorageAdapter extends BaseStorageAdapter {
@@ -52,4 +203,66 @@ export class StorageAdapter extends BaseStorageAdapter {
   public async deleteFlag(name: string): Promise<void> {
     throw new Error("'deleteFlag()' not implemented");
   }
+
+  // biome-ignore lint/correctness/noUnusedVariables: Stub class
+  public async getFlagVersions(name: string): Promise<FlagVersion[]> {
+    throw new Error("'getFlagVersions()' not implemented");
+  }
+
+  public async getFlagVersion(
+    // biome-ignore lint/correctness/noUnusedVariables: Stub class
+    name: string,
+    // biome-ignore lint/correctness/noUnusedVariables: Stub class
+    version: number,
+  ): Promise<FlagVersion | null> {
+    throw new Error("'getFlagVersion()' not implemented");
+  }
+
+  public async createFlagVersion(
+    // biome-ignore lint/correctness/noUnusedVariables: Stub class
+    flagVersion: CreateFlagVersionBody,
+  ): Promise<FlagVersion> {
+    throw new Error("'createFlagVersion()' not implemented");
+  }
+
+  public async getFlagExposures(
+    // biome-ignore lint/correctness/noUnusedVariables: Stub class
+    name: string,
+    // biome-ignore lint/correctness/noUnusedVariables: Stub class
+    since?: Date,
+  ): Promise<FlagExposure[]> {
+    throw new Error("'getFlagExposures()' not implemented");
+  }
+
+  public async getFlagsLastEvaluated(): Promise<FlagLastEvaluated[]> {
+    throw new Error("'getFlagsLastEvaluated()' not implemented");
+  }
+
+  // Adds the counts to any existing exposures for the same flag, variant and
+  // bucket
+  public async recordFlagExposures(
+    // biome-ignore lint/correctness/noUnusedVariables: Stub class
+    exposures: FlagExposure[],
+  ): Promise<void> {
+    throw new Error("'recordFlagExposures()' not implemented");
+  }
+
+  public async getSegments(): Promise<Segment[]> {
+    throw new Error("'getSegments()' not implemented");
+  }
+
+  // biome-ignore lint/correctness/noUnusedVariables: Stub class
+  public async getSegment(name: string): Promise<Segment | null> {
+    throw new Error("'getSegment()' not implemented");
+  }
+
+  // biome-ignore lint/correctness/noUnusedVariables: Stub class
+  public async upsertSegment(segment: UpsertSegmentBody): Promise<Segment> {
+    throw new Error("'upsertSegment()' not implemented");
+  }
+
+  // biome-ignore lint/correctness/noUnusedVariables: Stub class
+  public async deleteSegment(name: string): Promise<void> {
+    throw new Error("'deleteSegment()' not implemented");
+  }
 }
@@ -1,7 +1,12 @@
-import { type ServerOptions as BaseServerOptions } from "@workertown/internal-server";
+import {
+  type ServerOptions as BaseServerOptions,
+  type User,
+} from "@workertown/internal-server";
 
 import { type CacheAdapter } from "./cache/index.js";
-import { type StorageAdapter } from "./storage/index.js";
+import { type FlagChangeEmitter } from "./changes.js";
+import { type QueueAdapter } from "./queue/index.js";
+import { type FlagVariantValue, type StorageAdapter } from "./storage/index.js";
 
 export interface ServerOptions extends BaseServerOptions {
   endpoints: {
@@ -9,24 +14,66 @@ export interface ServerOptions extends BaseServerOptions {
       admin: string | false;
       ask: string | false;
       flags: string | false;
+      segments: string | false;
+      stream: string | false;
     };
     public: string | false;
   };
   env: {
     cache: string;
     db: string;
+    queue: string;
   };
   runtime?: RuntimeResolver;
 }
 
+export interface AskResult {
+  flag: string;
+  // The picked variant, or `null` for a flag without variants
+  variant: string | null;
+  // The variant's payload, or `true` for a flag without variants
+  value: FlagVariantValue;
+}
+
+// Why a flag was (or wasn't) served, which matches the OpenFeature resolution
+// reasons
+export type AskReason =
+  // Served to every context (no conditions or rollout)
+  | "STATIC"
+  // Served because the context met the conditions
+  | "TARGETING_MATCH"
+  // Served because of the rollout, or the variant picked by weight
+  | "SPLIT"
+  // The context didn't meet the conditions (or wasn't in the rollout), so the
+  // fallback variant was served (if there is one)
+  | "DEFAULT"
+  // The flag is disabled
+  | "DISABLED";
+
+export interface AskDetailsResult {
+  flag: string;
+  // Whether the flag would be in the `ask` results
+  served: boolean;
+  variant: string | null;
+  // The variant's payload, `true` for a flag without variants, or `null` if
+  // the flag wasn't served
+  value: FlagVariantValue;
+  reason: AskReason;
+}
+
 export type Context = {
   cache: CacheAdapter;
+  changes: FlagChangeEmitter;
   config: ServerOptions;
+  // The exposures are only recorded when there's a queue to send them to
+  queue: QueueAdapter | false;
   storage: StorageAdapter;
+  user: User;
 };
 
 export interface Runtime {
   cache: CacheAdapter | false;
+  queue?: QueueAdapter | false;
   storage: StorageAdapter;
 }
 
@@ -1,4 +1,5 @@
 import featureFlags, { type ServerOptions } from "../src";
+import { type QueueAdapter } from "../src/queue";
 import { runtime } from "../src/runtime/test";
 import { type Flag } from "../src/storage";
 
@@ -130,13 +131,14 @@ const FLAGS: Flag[] = [
 export function createTestService(
   options: ServerOptions = {},
   initialFlags: Flag[] = FLAGS,
+  queue?: QueueAdapter,
 ) {
   return featureFlags({
     ...options,
     auth: { apiKey: { apiKey: "test" } },
     logger: false,
     runtime: (config, env) =>
-      runtime(config, env, { cache: true, initialFlags }),
+      runtime(config, env, { cache: true, initialFlags, queue }),
   });
 }
 
@@ -0,0 +1,96 @@
+import test from "ava";
+
+import { ClientError, createFeatureFlagsClient } from "../src/client";
+import { createTestService } from "./_utils";
+
+function createTestClient(service = createTestService()) {
+  return createFeatureFlagsClient({ fetch: service.request, token: "test" });
+}
+
+test("client flags", async (t) => {
+  const client = createTestClient();
+  const flags = await client.getFlags();
+
+  t.is(flags.length, 9);
+  t.is(flags[0]?.name, "eq");
+});
+
+test("client flags w/ disabled", async (t) => {
+  const client = createTestClient();
+  const flags = await client.getFlags({ includeDisabled: true });
+
+  t.is(flags.length, 10);
+});
+
+test("client flags get, upsert, delete", async (t) => {
+  const client = createTestClient();
+
+  t.is(await client.getFlag("test"), null);
+
+  const flag = await client.upsertFlag("test", {
+    description: "Test flag",
+    conditions: [{ field: "test", operator: "eq", value: "test" }],
+  });
+
+  t.is(flag.name, "test");
+  t.true(flag.enabled);
+  t.is((await client.getFlag("test"))?.description, "Test flag");
+  t.is((await client.getFlagStats("test")).count, 0);
+  t.deepEqual(await client.deleteFlag("test"), { name: "test" });
+  t.is(await client.getFlag("test"), null);
+  t.is((await client.getFlagHistory("test")).length, 2);
+  t.is((await client.rollbackFlag("test", 1)).description, "Test flag");
+});
+
+test("client segments get, upsert, delete", async (t) => {
+  const client = createTestClient();
+
+  t.is(await client.getSegment("test"), null);
+
+  const segment = await client.upsertSegment("test", {
+    ids: { key: "userId", values: ["user_1"] },
+  });
+
+  t.is(segment.name, "test");
+  t.is((await client.getSegments()).length, 1);
+  t.deepEqual((await client.getSegment("test"))?.ids, {
+    key: "userId",
+    values: ["user_1"],
+  });
+  t.deepEqual(await client.deleteSegment("test"), { name: "test" });
+  t.is(await client.getSegment("test"), null);
+});
+
+test("client ask", async (t) => {
+  const client = createTestClient();
+
+  t.deepEqual(await client.ask({ flags: ["on", "off"] }), [
+    { flag: "on", variant: null, value: true },
+  ]);
+  t.deepEqual(await client.ask({ flags: ["eq"], context: { test: "test" } }), [
+    { flag: "eq", variant: null, value: true },
+  ]);
+});
+
+test("client w/ custom endpoint", async (t) => {
+  const service = createTestService({ endpoints: { v1: { ask: "/ask" } } });
+  const client = createFeatureFlagsClient({
+    fetch: service.request,
+    token: "test",
+    endpoints: { v1: { ask: "/ask" } },
+  });
+
+  t.deepEqual(await client.ask({ flags: ["on"] }), [
+    { flag: "on", variant: null, value: true },
+  ]);
+});
+
+test("client validation error", async (t) => {
+  const client = createTestClient();
+  const error = await t.throwsAsync(client.ask({ flags: [] }), {
+    instanceOf: ClientError,
+  });
+
+  t.is(error?.status, 400);
+  t.is(error?.errors[0]?.location, "body");
+});
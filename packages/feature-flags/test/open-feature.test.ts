@@ -0,0 +1,101 @@
+import { ErrorCode, OpenFeature } from "@openfeature/server-sdk";
+import test from "ava";
+
+import { createFeatureFlagsClient } from "../src/client";
+import { createFeatureFlagsProvider } from "../src/open-feature";
+import { createTestService } from "./_utils";
+
+function createTestProvider(service = createTestService()) {
+  return createFeatureFlagsProvider({ fetch: service.request, token: "test" });
+}
+
+test("open feature boolean", async (t) => {
+  const provider = createTestProvider();
+
+  t.deepEqual(await provider.resolveBooleanEvaluation("on", false, {}), {
+    value: true,
+    reason: "STATIC",
+  });
+  t.deepEqual(await provider.resolveBooleanEvaluation("off", true, {}), {
+    value: false,
+    reason: "DISABLED",
+  });
+  t.deepEqual(
+    await provider.resolveBooleanEvaluation("eq", false, { test: "test" }),
+    { value: true, reason: "TARGETING_MATCH" },
+  );
+  t.deepEqual(
+    await provider.resolveBooleanEvaluation("eq", true, { test: "other" }),
+    { value: false, reason: "DEFAULT" },
+  );
+});
+
+test("open feature variants", async (t) => {
+  const service = createTestService({}, []);
+  const client = createFeatureFlagsClient({
+    fetch: service.request,
+    token: "test",
+  });
+  const provider = createTestProvider(service);
+
+  await client.upsertFlag("theme", {
+    conditions: [{ field: "plan", operator: "eq", value: "pro" }],
+    variants: {
+      key: "userId",
+      fallback: "light",
+      options: [
+        { name: "light", value: "light", weight: 0 },
+        { name: "dark", value: "dark", weight: 1 },
+      ],
+    },
+  });
+  await client.upsertFlag("limits", {
+    variants: {
+      key: "userId",
+      options: [{ name: "default", value: { seats: 5 }, weight: 1 }],
+    },
+  });
+
+  t.deepEqual(
+    await provider.resolveStringEvaluation("theme", "none", {
+      userId: "user_1",
+      plan: "pro",
+    }),
+    { value: "dark", variant: "dark", reason: "TARGETING_MATCH" },
+  );
+  t.deepEqual(
+    await provider.resolveStringEvaluation("theme", "none", {
+      userId: "user_1",
+      plan: "free",
+    }),
+    { value: "light", variant: "light", reason: "DEFAULT" },
+  );
+  t.deepEqual(
+    await provider.resolveObjectEvaluation("limits", {}, { userId: "user_1" }),
+    { value: { seats: 5 }, variant: "default", reason: "STATIC" },
+  );
+  t.deepEqual(await provider.resolveObjectEvaluation("limits", {}, {}), {
+    value: {},
+    reason: "DEFAULT",
+  });
+});
+
+test("open feature client", async (t) => {
+  OpenFeature.setProvider(createTestProvider());
+
+  const client = OpenFeature.getClient();
+
+  t.true(await client.getBooleanValue("eq", false, { test: "test" }));
+
+  const details = await client.getNumberDetails("on", 1);
+
+  t.is(details.value, 1);
+  t.is(details.errorCode, ErrorCode.TYPE_MISMATCH);
+
+  const missing = await client.getBooleanDetails("missing", true);
+
+  t.true(missing.value);
+  t.is(missing.errorCode, ErrorCode.FLAG_NOT_FOUND);
+
+  await OpenFeature.close();
+});
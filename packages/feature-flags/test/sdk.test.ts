@@ -0,0 +1,96 @@
+import test from "ava";
+
+import { createFeatureFlagsClient } from "../src/client";
+import { createFeatureFlagsSdk } from "../src/sdk";
+import { createTestService } from "./_utils";
+
+test("sdk evaluate", async (t) => {
+  const service = createTestService();
+  const client = createFeatureFlagsClient({
+    fetch: service.request,
+    token: "test",
+  });
+  const sdk = createFeatureFlagsSdk({
+    fetch: service.request,
+    token: "test",
+    refreshInterval: false,
+  });
+
+  await sdk.refresh();
+
+  for (const context of [undefined, { test: "test" }, { test: 2 }]) {
+    t.deepEqual(sdk.evaluate({ context }), await client.ask({ context }));
+  }
+
+  t.true(sdk.isEnabled("on"));
+  t.false(sdk.isEnabled("off"));
+  t.deepEqual(sdk.evaluateFlag("eq", { test: "test" }), {
+    flag: "eq",
+    variant: null,
+    value: true,
+  });
+  t.is(sdk.evaluateFlag("eq", { test: "other" }), null);
+});
+
+test("sdk evaluate w/ segment", async (t) => {
+  const service = createTestService({}, []);
+  const sdk = createFeatureFlagsSdk({
+    fetch: service.request,
+    token: "test",
+    refreshInterval: false,
+  });
+
+  await sdk.upsertSegment("beta", {
+    ids: { key: "userId", values: ["user_1"] },
+  });
+  await sdk.upsertFlag("beta_feature", { conditions: [{ segment: "beta" }] });
+  await sdk.refresh();
+
+  t.true(sdk.isEnabled("beta_feature", { userId: "user_1" }));
+  t.false(sdk.isEnabled("beta_feature", { userId: "user_2" }));
+});
+
+test("sdk refresh", async (t) => {
+  const service = createTestService({}, []);
+  const sdk = createFeatureFlagsSdk({
+    fetch: service.request,
+    token: "test",
+    refreshInterval: 60 * 1000,
+  });
+
+  await sdk.refreshIfStale();
+  await sdk.upsertFlag("new_feature");
+
+  // The flags were refreshed less than a minute ago
+  await sdk.refreshIfStale();
+
+  t.false(sdk.isEnabled("new_feature"));
+
+  await sdk.refresh();
+
+  t.true(sdk.isEnabled("new_feature"));
+});
+
+test("sdk stream", async (t) => {
+  const service = createTestService({}, []);
+  const sdk = createFeatureFlagsSdk({
+    fetch: service.request,
+    token: "test",
+    refreshInterval: false,
+    stream: true,
+  });
+
+  await sdk.start();
+
+  t.false(sdk.isEnabled("new_feature"));
+
+  await sdk.upsertFlag("new_feature");
+
+  for (let i = 0; i < 50 && !sdk.isEnabled("new_feature"); i++) {
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+
+  sdk.stop();
+
+  t.true(sdk.isEnabled("new_feature"));
+});
@@ -21,6 +21,25 @@ export async function testStorageAdapterE2E(
           value: true,
         },
       ],
+      rollout: {
+        percentage: 50,
+        key: "userId",
+      },
+      variants: {
+        key: "userId",
+        fallback: "control",
+        options: [
+          { name: "control", value: { color: "blue" }, weight: 1 },
+          { name: "treatment", value: { color: "red" }, weight: 1 },
+        ],
+      },
+      schedules: [
+        { at: "2024-01-01T00:00:00.000Z", enabled: false },
+        {
+          at: 1704067200000,
+          rollout: { percentage: 100, key: "userId" },
+        },
+      ],
       createdAt: new Date(),
       updatedAt: new Date(),
     },
@@ -41,6 +60,7 @@ export async function testStorageAdapterE2E(
   t.is(insertResult.description, featureFlags[0].description);
   t.is(insertResult.enabled, featureFlags[0].enabled);
   t.deepEqual(insertResult.conditions, featureFlags[0].conditions);
+  t.deepEqual(insertResult.rollout, featureFlags[0].rollout);
 
   await storage.upsertFlag(featureFlags[1]);
 
@@ -59,6 +79,9 @@ export async function testStorageAdapterE2E(
   const getResult = await storage.getFlag(featureFlags[0].name);
 
   t.is(getResult?.name, featureFlags[0].name);
+  t.deepEqual(getResult?.rollout, featureFlags[0].rollout);
+  t.deepEqual(getResult?.variants, featureFlags[0].variants);
+  t.deepEqual(getResult?.schedules, featureFlags[0].schedules);
 
   // Get all flags
   const getAllResult = await storage.getFlags();
@@ -66,6 +89,12 @@ export async function testStorageAdapterE2E(
   t.is(getAllResult.length, 2);
   t.is(getAllResult[0].name, featureFlags[0].name);
 
+  // Disable and re-enable flag
+  await storage.upsertFlag({ ...featureFlags[0], enabled: false });
+  await storage.upsertFlag({ ...featureFlags[0], enabled: true });
+
+  t.is((await storage.getFlag(featureFlags[0].name))?.enabled, true);
+
   // Delete flag
   await storage.deleteFlag(featureFlags[0].name);
 
@@ -73,6 +102,132 @@ export async function testStorageAdapterE2E(
 
   t.is(dontGetResult, null);
 
+  const user = { id: "user_1", strategy: "api_key" };
+
+  // Create flag versions
+  const createVersionResult = await storage.createFlagVersion({
+    name: featureFlags[0].name,
+    action: "create",
+    flag: { name: featureFlags[0].name, enabled: true },
+    changes: { enabled: { to: true } },
+    user,
+  });
+
+  t.is(createVersionResult.version, 1);
+
+  await storage.createFlagVersion({
+    name: featureFlags[0].name,
+    action: "delete",
+    flag: null,
+    changes: { enabled: { from: true } },
+    user,
+  });
+
+  // Get flag versions
+  const getVersionsResult = await storage.getFlagVersions(featureFlags[0].name);
+
+  t.deepEqual(
+    getVersionsResult.map(({ version }) => version),
+    [2, 1],
+  );
+  t.is(getVersionsResult[0]?.flag, null);
+  t.deepEqual(getVersionsResult[0]?.user, user);
+
+  // Get flag version
+  const getVersionResult = await storage.getFlagVersion(
+    featureFlags[0].name,
+    1,
+  );
+
+  t.deepEqual(getVersionResult?.flag, {
+    name: featureFlags[0].name,
+    enabled: true,
+  });
+  t.deepEqual(getVersionResult?.changes, { enabled: { to: true } });
+  t.is(await storage.getFlagVersion(featureFlags[0].name, 3), null);
+
+  const segment = {
+    name: "segment_1",
+    description: "A test segment",
+    ids: { key: "userId", values: ["user_1", "user_2"] },
+    conditions: [
+      {
+        field: "plan",
+        operator: "in" as FlagConditionOperator,
+        value: ["pro", "team"],
+      },
+    ],
+  };
+
+  // Insert segment
+  const insertSegmentResult = await storage.upsertSegment(segment);
+
+  t.is(insertSegmentResult.name, segment.name);
+  t.deepEqual(insertSegmentResult.ids, segment.ids);
+
+  // Update segment
+  await storage.upsertSegment({ name: segment.name, ids: segment.ids });
+
+  // Get segment
+  const getSegmentResult = await storage.getSegment(segment.name);
+
+  t.is(getSegmentResult?.name, segment.name);
+  t.is(getSegmentResult?.description, undefined);
+  t.deepEqual(getSegmentResult?.ids, segment.ids);
+  t.is(getSegmentResult?.conditions, undefined);
+
+  // Get all segments
+  const getAllSegmentsResult = await storage.getSegments();
+
+  t.is(getAllSegmentsResult.length, 1);
+
+  // Delete segment
+  await storage.deleteSegment(segment.name);
+
+  t.is(await storage.getSegment(segment.name), null);
+
+  // Record exposures
+  const bucket = new Date("2024-01-01T00:00:00.000Z");
+  const lastEvaluatedAt = new Date("2024-01-01T00:30:00.000Z");
+
+  await storage.recordFlagExposures([
+    { name: "flag_1", variant: null, bucket, count: 2, lastEvaluatedAt },
+    { name: "flag_1", variant: "a", bucket, count: 1, lastEvaluatedAt },
+  ]);
+  await storage.recordFlagExposures([
+    {
+      name: "flag_1",
+      variant: null,
+      bucket,
+      count: 3,
+      lastEvaluatedAt: new Date("2024-01-01T00:45:00.000Z"),
+    },
+  ]);
+
+  // Get exposures
+  const getExposuresResult = await storage.getFlagExposures("flag_1");
+  const nullExposure = getExposuresResult.find(
+    (exposure) => exposure.variant === null,
+  );
+
+  t.is(getExposuresResult.length, 2);
+  t.is(nullExposure?.count, 5);
+  t.is(nullExposure?.bucket.getTime(), bucket.getTime());
+  t.is(
+    nullExposure?.lastEvaluatedAt.getTime(),
+    new Date("2024-01-01T00:45:00.000Z").getTime(),
+  );
+  t.is(
+    (await storage.getFlagExposures("flag_1", new Date("2024-01-02"))).length,
+    0,
+  );
+
+  // Get last evaluated
+  const getLastEvaluatedResult = await storage.getFlagsLastEvaluated();
+
+  t.is(getLastEvaluatedResult.length, 1);
+  t.is(getLastEvaluatedResult[0]?.name, "flag_1");
+
   // Drop tables
   await storage.runMigrations(true);
 }
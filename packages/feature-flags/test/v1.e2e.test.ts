@@ -1,6 +1,8 @@
 import test from "ava";
 
-import { type Flag } from "../src/storage";
+import { MemoryQueueAdapter } from "../src/queue/memory";
+import { type Flag, type FlagVersion, type Segment } from "../src/storage";
+import { type AskDetailsResult, type AskResult } from "../src/types";
 import { createTestService, makeRequest } from "./_utils";
 
 interface SuccessfulResponse {
@@ -25,6 +27,10 @@ interface DeleteFlagResponse extends SuccessfulResponse {
   data: true;
 }
 
+interface GetFlagHistoryResponse extends SuccessfulResponse {
+  data: FlagVersion[];
+}
+
 test("v1 flags", async (t) => {
   const service = createTestService();
   const res = await makeRequest(service, "/v1/flags");
@@ -66,6 +72,30 @@ test("v1 flags w/ disabled", async (t) => {
   t.is(result.data[9]?.name, "on");
 });
 
+test("v1 flags w/ etag", async (t) => {
+  const service = createTestService();
+  const res1 = await makeRequest(service, "/v1/flags");
+  const etag = res1.headers.get("ETag") as string;
+
+  t.is(res1.status, 200);
+  t.truthy(etag);
+
+  const res2 = await service.request("/v1/flags", {
+    headers: { Authorization: "Bearer test", "If-None-Match": etag },
+  });
+
+  t.is(res2.status, 304);
+
+  await makeRequest(service, "/v1/flags/new", { method: "PUT", body: {} });
+
+  const res3 = await service.request("/v1/flags", {
+    headers: { Authorization: "Bearer test", "If-None-Match": etag },
+  });
+
+  t.is(res3.status, 200);
+  t.not(res3.headers.get("ETag"), etag);
+});
+
 test("v1 flags get", async (t) => {
   const service = createTestService();
   const res = await makeRequest(service, "/v1/flags/on");
@@ -224,9 +254,97 @@ test("v1 flags delete", async (t) => {
   t.is(result3.data, null);
 });
 
+test("v1 flags history", async (t) => {
+  const service = createTestService();
+
+  await makeRequest(service, "/v1/flags/test", {
+    method: "PUT",
+    body: { description: "A test flag" },
+  });
+  await makeRequest(service, "/v1/flags/test", {
+    method: "PUT",
+    body: { description: "A test flag", enabled: false },
+  });
+  await makeRequest(service, "/v1/flags/test", { method: "DELETE" });
+
+  const res = await makeRequest(service, "/v1/flags/test/history");
+
+  t.is(res.status, 200);
+
+  const result = (await res.json()) as GetFlagHistoryResponse;
+
+  t.is(result.data.length, 3);
+  t.deepEqual(
+    result.data.map(({ version, action }) => [version, action]),
+    [
+      [3, "delete"],
+      [2, "update"],
+      [1, "create"],
+    ],
+  );
+  t.deepEqual(result.data[0]?.user, { id: "test", strategy: "api_key" });
+  t.is(result.data[0]?.flag, null);
+  t.deepEqual(result.data[1]?.changes, { enabled: { from: true, to: false } });
+  t.deepEqual(result.data[2]?.changes, {
+    description: { to: "A test flag" },
+    enabled: { to: true },
+  });
+});
+
+test("v1 flags rollback", async (t) => {
+  const service = createTestService();
+
+  await makeRequest(service, "/v1/flags/test", {
+    method: "PUT",
+    body: {
+      description: "A test flag",
+      conditions: [{ field: "test", operator: "eq", value: "test" }],
+    },
+  });
+  await makeRequest(service, "/v1/flags/test", {
+    method: "PUT",
+    body: { enabled: false },
+  });
+  await makeRequest(service, "/v1/flags/test", { method: "DELETE" });
+
+  const res1 = await makeRequest(service, "/v1/flags/test/rollback/1", {
+    method: "POST",
+  });
+
+  t.is(res1.status, 200);
+
+  const result1 = (await res1.json()) as UpsertFlagResponse;
+
+  t.is(result1.data.description, "A test flag");
+  t.is(result1.data.enabled, true);
+  t.is(result1.data.conditions?.length, 1);
+
+  const res2 = await makeRequest(service, "/v1/flags/test/history");
+  const result2 = (await res2.json()) as GetFlagHistoryResponse;
+
+  t.is(result2.data[0]?.version, 4);
+  t.is(result2.data[0]?.action, "rollback");
+
+  const res3 = await makeRequest(service, "/v1/flags/test/rollback/3", {
+    method: "POST",
+  });
+
+  t.is(res3.status, 400);
+
+  const res4 = await makeRequest(service, "/v1/flags/test/rollback/10", {
+    method: "POST",
+  });
+
+  t.is(res4.status, 404);
+});
+
 // Ask
+interface AskDetailsResponse extends SuccessfulResponse {
+  data: AskDetailsResult[];
+}
+
 interface AskResponse extends SuccessfulResponse {
-  data: string[];
+  data: AskResult[];
 }
 
 test("v1 ask", async (t) => {
@@ -241,7 +359,7 @@ test("v1 ask", async (t) => {
   const result = (await res.json()) as AskResponse;
 
   t.is(result.data.length, 1);
-  t.is(result.data[0], "on");
+  t.is(result.data[0]?.flag, "on");
 });
 
 test("v1 ask w/ on flag", async (t) => {
@@ -258,7 +376,7 @@ test("v1 ask w/ on flag", async (t) => {
   const result = (await res.json()) as AskResponse;
 
   t.is(result.data.length, 1);
-  t.is(result.data[0], "on");
+  t.is(result.data[0]?.flag, "on");
 });
 
 test("v1 ask w/ off flag", async (t) => {
@@ -291,7 +409,7 @@ test("v1 ask w/ on and off flag", async (t) => {
   const result = (await res.json()) as AskResponse;
 
   t.is(result.data.length, 1);
-  t.is(result.data[0], "on");
+  t.is(result.data[0]?.flag, "on");
 });
 
 test("v1 ask w/ eq flag", async (t) => {
@@ -311,7 +429,7 @@ test("v1 ask w/ eq flag", async (t) => {
   const result1 = (await res1.json()) as AskResponse;
 
   t.is(result1.data.length, 1);
-  t.is(result1.data[0], "eq");
+  t.is(result1.data[0]?.flag, "eq");
 
   const res2 = await makeRequest(service, "/v1/ask", {
     method: "POST",
@@ -347,7 +465,7 @@ test("v1 ask w/ neq flag", async (t) => {
   const result1 = (await res1.json()) as AskResponse;
 
   t.is(result1.data.length, 1);
-  t.is(result1.data[0], "neq");
+  t.is(result1.data[0]?.flag, "neq");
 
   const res2 = await makeRequest(service, "/v1/ask", {
     method: "POST",
@@ -383,7 +501,7 @@ test("v1 ask w/ gt flag", async (t) => {
   const result1 = (await res1.json()) as AskResponse;
 
   t.is(result1.data.length, 1);
-  t.is(result1.data[0], "gt");
+  t.is(result1.data[0]?.flag, "gt");
 
   const res2 = await makeRequest(service, "/v1/ask", {
     method: "POST",
@@ -419,7 +537,7 @@ test("v1 ask w/ gte flag", async (t) => {
   const result1 = (await res1.json()) as AskResponse;
 
   t.is(result1.data.length, 1);
-  t.is(result1.data[0], "gte");
+  t.is(result1.data[0]?.flag, "gte");
 
   const res2 = await makeRequest(service, "/v1/ask", {
     method: "POST",
@@ -455,7 +573,7 @@ test("v1 ask w/ lt flag", async (t) => {
   const result1 = (await res1.json()) as AskResponse;
 
   t.is(result1.data.length, 1);
-  t.is(result1.data[0], "lt");
+  t.is(result1.data[0]?.flag, "lt");
 
   const res2 = await makeRequest(service, "/v1/ask", {
     method: "POST",
@@ -491,7 +609,7 @@ test("v1 ask w/ lte flag", async (t) => {
   const result1 = (await res1.json()) as AskResponse;
 
   t.is(result1.data.length, 1);
-  t.is(result1.data[0], "lte");
+  t.is(result1.data[0]?.flag, "lte");
 
   const res2 = await makeRequest(service, "/v1/ask", {
     method: "POST",
@@ -527,7 +645,7 @@ test("v1 ask w/ in flag", async (t) => {
   const result1 = (await res1.json()) as AskResponse;
 
   t.is(result1.data.length, 1);
-  t.is(result1.data[0], "in");
+  t.is(result1.data[0]?.flag, "in");
 
   const res2 = await makeRequest(service, "/v1/ask", {
     method: "POST",
@@ -563,7 +681,7 @@ test("v1 ask w/ nin flag", async (t) => {
   const result1 = (await res1.json()) as AskResponse;
 
   t.is(result1.data.length, 1);
-  t.is(result1.data[0], "nin");
+  t.is(result1.data[0]?.flag, "nin");
 
   const res2 = await makeRequest(service, "/v1/ask", {
     method: "POST",
@@ -599,9 +717,850 @@ test("v1 ask w/ all flags", async (t) => {
   const result = (await res.json()) as AskResponse;
 
   t.is(result.data.length, 3);
-  t.is(result.data[0], "eq");
-  t.is(result.data[1], "in");
-  t.is(result.data[2], "on");
+  t.is(result.data[0]?.flag, "eq");
+  t.is(result.data[1]?.flag, "in");
+  t.is(result.data[2]?.flag, "on");
+});
+
+test("v1 ask w/ explain", async (t) => {
+  const service = createTestService();
+  const res = await makeRequest(service, "/v1/ask", {
+    method: "POST",
+    body: {
+      flags: ["on", "off", "eq", "neq", "missing"],
+      context: { test: "test" },
+      explain: true,
+    },
+  });
+
+  t.is(res.status, 200);
+
+  const result = (await res.json()) as AskDetailsResponse;
+
+  t.deepEqual(result.data, [
+    {
+      flag: "eq",
+      served: true,
+      variant: null,
+      value: true,
+      reason: "TARGETING_MATCH",
+    },
+    {
+      flag: "neq",
+      served: false,
+      variant: null,
+      value: null,
+      reason: "DEFAULT",
+    },
+    {
+      flag: "off",
+      served: false,
+      variant: null,
+      value: null,
+      reason: "DISABLED",
+    },
+    {
+      flag: "on",
+      served: true,
+      variant: null,
+      value: true,
+      reason: "STATIC",
+    },
+  ]);
+});
+
+test("v1 ask w/ rollout flag", async (t) => {
+  const service = createTestService({}, []);
+  const userIds = Array.from({ length: 100 }, (_, i) => `user_${i}`);
+  const ask = async (userId?: string) => {
+    const res = await makeRequest(service, "/v1/ask", {
+      method: "POST",
+      body: { context: userId ? { userId } : {} },
+    });
+    const result = (await res.json()) as AskResponse;
+
+    return result.data.some(({ flag }) => flag === "rollout");
+  };
+  const getEnabledUserIds = async () => {
+    const enabled: string[] = [];
+
+    for (const userId of userIds) {
+      if (await ask(userId)) {
+        enabled.push(userId);
+      }
+    }
+
+    return enabled;
+  };
+  const setPercentage = (percentage: number) =>
+    makeRequest(service, "/v1/flags/rollout", {
+      method: "PUT",
+      body: { rollout: { percentage, key: "userId" } },
+    });
+
+  await setPercentage(10);
+
+  const enabled10 = await getEnabledUserIds();
+
+  t.true(enabled10.length > 0 && enabled10.length < 30);
+  t.deepEqual(await getEnabledUserIds(), enabled10);
+  t.false(await ask());
+
+  await setPercentage(50);
+
+  const enabled50 = await getEnabledUserIds();
+
+  t.true(enabled50.length > 30 && enabled50.length < 70);
+  t.true(enabled10.every((userId) => enabled50.includes(userId)));
+
+  await setPercentage(100);
+
+  t.is((await getEnabledUserIds()).length, userIds.length);
+  t.true(await ask());
+});
+
+test("v1 ask w/ rollout and conditions flag", async (t) => {
+  const service = createTestService({}, [
+    {
+      name: "rollout",
+      enabled: true,
+      conditions: [{ field: "country", operator: "eq", value: "GB" }],
+      rollout: { percentage: 100, key: "userId" },
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    },
+  ]);
+  const res1 = await makeRequest(service, "/v1/ask", {
+    method: "POST",
+    body: { context: { userId: "user_1", country: "GB" } },
+  });
+  const result1 = (await res1.json()) as AskResponse;
+
+  t.deepEqual(result1.data, [{ flag: "rollout", variant: null, value: true }]);
+
+  const res2 = await makeRequest(service, "/v1/ask", {
+    method: "POST",
+    body: { context: { userId: "user_1", country: "FR" } },
+  });
+  const result2 = (await res2.json()) as AskResponse;
+
+  t.deepEqual(result2.data, []);
+});
+
+test("v1 flags upsert w/ invalid rollout", async (t) => {
+  const service = createTestService();
+  const res = await makeRequest(service, "/v1/flags/rollout", {
+    method: "PUT",
+    body: { rollout: { percentage: 150, key: "userId" } },
+  });
+
+  t.is(res.status, 400);
+});
+
+test("v1 ask w/ multivariate flag", async (t) => {
+  const service = createTestService({}, [
+    {
+      name: "experiment",
+      enabled: true,
+      conditions: [{ field: "country", operator: "eq", value: "GB" }],
+      variants: {
+        key: "userId",
+        fallback: "control",
+        options: [
+          { name: "control", value: "blue", weight: 1 },
+          { name: "treatment", value: { color: "red", size: 2 }, weight: 1 },
+        ],
+      },
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    },
+  ]);
+  const ask = async (context: Record<string, unknown>) => {
+    const res = await makeRequest(service, "/v1/ask", {
+      method: "POST",
+      body: { context },
+    });
+    const result = (await res.json()) as AskResponse;
+
+    return result.data[0];
+  };
+  const variants = new Map<string, number>();
+
+  for (let i = 0; i < 100; i++) {
+    const result = await ask({ userId: `user_${i}`, country: "GB" });
+
+    variants.set(
+      result?.variant as string,
+      (variants.get(result?.variant as string) ?? 0) + 1,
+    );
+  }
+
+  t.true((variants.get("control") ?? 0) > 30);
+  t.true((variants.get("treatment") ?? 0) > 30);
+
+  const result1 = await ask({ userId: "user_1", country: "GB" });
+
+  t.deepEqual(await ask({ userId: "user_1", country: "GB" }), result1);
+  t.deepEqual(
+    result1?.value,
+    result1?.variant === "control" ? "blue" : { color: "red", size: 2 },
+  );
+
+  t.deepEqual(await ask({ userId: "user_1", country: "FR" }), {
+    flag: "experiment",
+    variant: "control",
+    value: "blue",
+  });
+});
+
+test("v1 ask w/ multivariate flag without fallback", async (t) => {
+  const service = createTestService({}, [
+    {
+      name: "experiment",
+      enabled: true,
+      rollout: { percentage: 0, key: "userId" },
+      variants: {
+        key: "userId",
+        options: [{ name: "on", value: 1, weight: 1 }],
+      },
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    },
+  ]);
+  const res = await makeRequest(service, "/v1/ask", {
+    method: "POST",
+    body: { context: { userId: "user_1" } },
+  });
+  const result = (await res.json()) as AskResponse;
+
+  t.deepEqual(result.data, []);
+});
+
+test("v1 flags upsert w/ invalid variants", async (t) => {
+  const service = createTestService();
+  const res = await makeRequest(service, "/v1/flags/experiment", {
+    method: "PUT",
+    body: {
+      variants: {
+        key: "userId",
+        fallback: "missing",
+        options: [{ name: "control", value: true, weight: 1 }],
+      },
+    },
+  });
+
+  t.is(res.status, 400);
+});
+
+test("v1 ask w/ condition groups", async (t) => {
+  const service = createTestService({}, [
+    {
+      name: "beta",
+      enabled: true,
+      conditions: [
+        {
+          any: [
+            {
+              field: "user.email",
+              operator: "endsWith",
+              value: "@example.com",
+            },
+            {
+              all: [
+                { field: "user.plan", operator: "in", value: ["pro", "team"] },
+                { not: { field: "user.country", operator: "eq", value: "FR" } },
+              ],
+            },
+          ],
+        },
+      ],
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    },
+  ]);
+  const ask = async (user: Record<string, unknown>) => {
+    const res = await makeRequest(service, "/v1/ask", {
+      method: "POST",
+      body: { context: { user } },
+    });
+    const result = (await res.json()) as AskResponse;
+
+    return result.data.length === 1;
+  };
+
+  t.true(await ask({ email: "test@example.com", plan: "free" }));
+  t.true(await ask({ email: "test@other.com", plan: "pro", country: "GB" }));
+  t.false(await ask({ email: "test@other.com", plan: "pro", country: "FR" }));
+  t.false(await ask({ email: "test@other.com", plan: "free" }));
+});
+
+test("v1 ask w/ string, semver, date and cidr operators", async (t) => {
+  const flag = (name: string, conditions: Flag["conditions"]) => ({
+    name,
+    enabled: true,
+    conditions,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  });
+  const service = createTestService({}, [
+    flag("starts_with", [
+      { field: "path", operator: "startsWith", value: "/admin" },
+    ]),
+    flag("contains", [
+      { field: "roles", operator: "contains", value: "admin" },
+    ]),
+    flag("regex", [
+      { field: "path", operator: "regex", value: "^/admin/\\d+$" },
+    ]),
+    flag("semver", [
+      { field: "version", operator: "semverGte", value: "1.10.0" },
+      { field: "version", operator: "semverLt", value: "2.0.0" },
+    ]),
+    flag("launch", [
+      { field: "now", operator: "after", value: "2024-01-01T00:00:00Z" },
+    ]),
+    flag("office", [
+      { field: "ip", operator: "cidr", value: ["10.0.0.0/8", "2001:db8::/32"] },
+    ]),
+  ]);
+  const ask = async (context: Record<string, unknown>) => {
+    const res = await makeRequest(service, "/v1/ask", {
+      method: "POST",
+      body: { context },
+    });
+    const result = (await res.json()) as AskResponse;
+
+    return result.data.map(({ flag }) => flag);
+  };
+
+  t.deepEqual(
+    await ask({
+      path: "/admin/123",
+      roles: ["admin"],
+      version: "1.10.1",
+      now: "2024-06-01T00:00:00Z",
+      ip: "10.1.2.3",
+    }),
+    ["contains", "launch", "office", "regex", "semver", "starts_with"],
+  );
+  t.deepEqual(
+    await ask({
+      path: "/admin/users",
+      roles: ["user"],
+      version: "1.9.9",
+      now: "2023-06-01T00:00:00Z",
+      ip: "2001:db8:1::1",
+    }),
+    ["office", "starts_with"],
+  );
+  t.deepEqual(await ask({ version: "2.0.0-beta.1", ip: "192.168.0.1" }), [
+    "semver",
+  ]);
+});
+
+test("v1 flags upsert w/ invalid conditions", async (t) => {
+  const service = createTestService();
+  const invalidConditions = [
+    [{ field: "version", operator: "semverGt", value: "latest" }],
+    [{ field: "ip", operator: "cidr", value: "10.0.0.0/33" }],
+    [{ field: "path", operator: "regex", value: "(" }],
+    [{ field: "path", operator: "regex", value: "(a+)+$" }],
+    [{ field: "path", operator: "regex", value: "a".repeat(257) }],
+    [{ field: "now", operator: "before", value: "tomorrow" }],
+    [{ all: [{ field: "test", operator: "unknown", value: true }] }],
+    [{ any: [] }],
+  ];
+
+  for (const conditions of invalidConditions) {
+    const res = await makeRequest(service, "/v1/flags/invalid", {
+      method: "PUT",
+      body: { conditions },
+    });
+
+    t.is(res.status, 400);
+  }
+});
+
+test("v1 ask w/ scheduled changes", async (t) => {
+  const past = new Date(Date.now() - 60 * 1000).toISOString();
+  const future = new Date(Date.now() + 60 * 60 * 1000).toISOString();
+  const flag = (
+    name: string,
+    enabled: boolean,
+    schedules: Flag["schedules"],
+  ) => ({
+    name,
+    enabled,
+    schedules,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  });
+  const service = createTestService({}, [
+    flag("launched", false, [{ at: past, enabled: true }]),
+    flag("launching", false, [{ at: future, enabled: true }]),
+    flag("sunset", true, [
+      { at: past, enabled: true },
+      { at: future, enabled: false },
+    ]),
+    flag("ended", true, [{ at: past, enabled: false }]),
+    flag("targeted", true, [
+      {
+        at: past,
+        conditions: [{ field: "plan", operator: "eq", value: "pro" }],
+      },
+    ]),
+  ]);
+  const res = await makeRequest(service, "/v1/ask", {
+    method: "POST",
+    body: { context: { plan: "free" } },
+  });
+  const result = (await res.json()) as AskResponse;
+
+  t.deepEqual(
+    result.data.map(({ flag }) => flag),
+    ["launched", "sunset"],
+  );
+});
+
+test("v1 scheduled", async (t) => {
+  const past = new Date(Date.now() - 60 * 1000).toISOString();
+  const future = new Date(Date.now() + 60 * 60 * 1000).toISOString();
+  const service = createTestService({}, [
+    {
+      name: "launch",
+      enabled: false,
+      schedules: [
+        { at: future, enabled: false },
+        { at: past, enabled: true },
+      ],
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    },
+  ]);
+  const promises: Promise<unknown>[] = [];
+
+  await service.scheduled?.({} as never, {}, {
+    waitUntil: (promise: Promise<unknown>) => promises.push(promise),
+  } as never);
+  await Promise.all(promises);
+
+  const res1 = await makeRequest(service, "/v1/flags/launch");
+  const result1 = (await res1.json()) as GetFlagResponse;
+
+  t.is(result1.data?.enabled, true);
+  t.deepEqual(result1.data?.schedules, [{ at: future, enabled: false }]);
+
+  const res2 = await makeRequest(service, "/v1/flags/launch/history");
+  const result2 = (await res2.json()) as GetFlagHistoryResponse;
+
+  t.is(result2.data.length, 1);
+  t.is(result2.data[0]?.action, "schedule");
+  t.deepEqual(result2.data[0]?.user, { id: "scheduler", strategy: "schedule" });
+  t.deepEqual(result2.data[0]?.changes.enabled, { from: false, to: true });
+});
+
+test("v1 flags upsert w/ invalid schedules", async (t) => {
+  const service = createTestService();
+  const invalidSchedules = [
+    [{ at: "tomorrow", enabled: true }],
+    [{ at: "2024-01-01T00:00:00Z" }],
+    [{ at: "2024-01-01T00:00:00Z", description: "Not schedulable" }],
+    [],
+  ];
+
+  for (const schedules of invalidSchedules) {
+    const res = await makeRequest(service, "/v1/flags/invalid", {
+      method: "PUT",
+      body: { schedules },
+    });
+
+    t.is(res.status, 400);
+  }
+});
+
+// Stats
+interface GetFlagStatsResponse extends SuccessfulResponse {
+  data: {
+    name: string;
+    count: number;
+    lastEvaluatedAt: string | null;
+    variants: { variant: string | null; count: number }[];
+    buckets: { bucket: string; variant: string | null; count: number }[];
+  };
+}
+
+test("v1 ask w/ execution context", async (t) => {
+  const queue = new MemoryQueueAdapter();
+  const service = createTestService({}, undefined, queue);
+  const promises: Promise<unknown>[] = [];
+  const res = await service.fetch(
+    new Request("http://localhost/v1/ask", {
+      method: "POST",
+      headers: {
+        Authorization: "Bearer test",
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ flags: ["on"] }),
+    }),
+    {},
+    {
+      waitUntil: (promise: Promise<unknown>) => promises.push(promise),
+      passThroughOnException: () => {},
+    },
+  );
+
+  t.is(res.status, 200);
+  // The exposures are sent after the response
+  t.is(promises.length, 1);
+
+  await Promise.all(promises);
+
+  t.is((await queue.pullMessages()).length, 1);
+});
+
+test("v1 flags stats", async (t) => {
+  const queue = new MemoryQueueAdapter();
+  const service = createTestService({}, undefined, queue);
+
+  for (let i = 0; i < 2; i++) {
+    await makeRequest(service, "/v1/ask", {
+      method: "POST",
+      body: { flags: ["on", "eq"], context: { test: "test" } },
+    });
+  }
+
+  const messages = await queue.pullMessages();
+
+  t.is(messages.length, 2);
+
+  const acked: string[] = [];
+
+  await service.queue?.(
+    {
+      messages: messages.map((message) => ({
+        body: message,
+        ack: () => acked.push(message.id),
+        retry: () => {},
+      })),
+    } as never,
+    {},
+    {} as never,
+  );
+
+  t.is(acked.length, 2);
+
+  const res1 = await makeRequest(service, "/v1/flags/on/stats");
+
+  t.is(res1.status, 200);
+
+  const result1 = (await res1.json()) as GetFlagStatsResponse;
+
+  t.is(result1.data.count, 2);
+  t.not(result1.data.lastEvaluatedAt, null);
+  t.deepEqual(result1.data.variants, [{ variant: null, count: 2 }]);
+  t.is(result1.data.buckets.length, 1);
+
+  const res2 = await makeRequest(service, "/v1/flags/off/stats");
+  const result2 = (await res2.json()) as GetFlagStatsResponse;
+
+  t.is(result2.data.count, 0);
+  t.is(result2.data.lastEvaluatedAt, null);
+
+  const res3 = await makeRequest(service, "/v1/flags/missing/stats");
+
+  t.is(res3.status, 404);
+
+  const res4 = await makeRequest(
+    service,
+    `/v1/flags/on/stats?since=${Date.now() + 60 * 60 * 1000}`,
+  );
+  const result4 = (await res4.json()) as GetFlagStatsResponse;
+
+  t.is(result4.data.count, 0);
+});
+
+test("v1 flags w/ stale since", async (t) => {
+  const queue = new MemoryQueueAdapter();
+  const service = createTestService({}, undefined, queue);
+  const since = new Date(Date.now() - 60 * 1000).toISOString();
+
+  await makeRequest(service, "/v1/ask", {
+    method: "POST",
+    body: { flags: ["on"] },
+  });
+  await service.queue?.(
+    {
+      messages: (
+        await queue.pullMessages()
+      ).map((message) => ({
+        body: message,
+        ack: () => {},
+        retry: () => {},
+      })),
+    } as never,
+    {},
+    {} as never,
+  );
+
+  const res1 = await makeRequest(service, `/v1/flags?stale_since=${since}`);
+  const result1 = (await res1.json()) as GetFlagsResponse;
+
+  t.is(result1.data.length, 8);
+  t.false(result1.data.some((flag) => flag.name === "on"));
+
+  const res2 = await makeRequest(service, "/v1/flags?stale_since=yesterday");
+
+  t.is(res2.status, 400);
+});
+
+// Segments
+interface GetSegmentsResponse extends SuccessfulResponse {
+  data: Segment[];
+}
+
+interface GetSegmentResponse extends SuccessfulResponse {
+  data: Segment | null;
+}
+
+interface UpsertSegmentResponse extends SuccessfulResponse {
+  data: Segment;
+}
+
+interface DeleteSegmentResponse extends SuccessfulResponse {
+  data: true;
+}
+
+test("v1 segments", async (t) => {
+  const service = createTestService();
+  const res1 = await makeRequest(service, "/v1/segments/beta", {
+    method: "PUT",
+    body: {
+      description: "Beta testers",
+      ids: { key: "userId", values: ["user_1", "user_2"] },
+    },
+  });
+
+  t.is(res1.status, 200);
+
+  const result1 = (await res1.json()) as UpsertSegmentResponse;
+
+  t.is(result1.data.name, "beta");
+  t.is(result1.data.description, "Beta testers");
+  t.deepEqual(result1.data.ids, {
+    key: "userId",
+    values: ["user_1", "user_2"],
+  });
+
+  const res2 = await makeRequest(service, "/v1/segments/beta", {
+    method: "PUT",
+    body: {
+      conditions: [{ field: "plan", operator: "eq", value: "pro" }],
+    },
+  });
+
+  t.is(res2.status, 200);
+
+  const res3 = await makeRequest(service, "/v1/segments/beta");
+
+  t.is(res3.status, 200);
+
+  const result3 = (await res3.json()) as GetSegmentResponse;
+
+  t.is(result3.data?.description, undefined);
+  t.is(result3.data?.ids, undefined);
+  t.is(result3.data?.conditions?.length, 1);
+
+  const res4 = await makeRequest(service, "/v1/segments");
+
+  t.is(res4.status, 200);
+
+  const result4 = (await res4.json()) as GetSegmentsResponse;
+
+  t.is(result4.data.length, 1);
+  t.is(result4.data[0]?.name, "beta");
+
+  const res5 = await makeRequest(service, "/v1/segments/beta", {
+    method: "DELETE",
+  });
+
+  t.is(res5.status, 200);
+
+  const result5 = (await res5.json()) as DeleteSegmentResponse;
+
+  t.deepEqual(result5.data, { name: "beta" });
+
+  const res6 = await makeRequest(service, "/v1/segments/beta");
+
+  t.is(res6.status, 404);
+});
+
+test("v1 segments upsert w/ invalid body", async (t) => {
+  const service = createTestService();
+  const invalidBodies = [{}, { ids: { key: "userId", values: [true] } }];
+
+  for (const body of invalidBodies) {
+    const res = await makeRequest(service, "/v1/segments/invalid", {
+      method: "PUT",
+      body,
+    });
+
+    t.is(res.status, 400);
+  }
+});
+
+test("v1 ask w/ segment", async (t) => {
+  const service = createTestService({}, [
+    {
+      name: "beta",
+      enabled: true,
+      conditions: [
+        { segment: "beta_testers" },
+        { field: "country", operator: "neq", value: "FR" },
+      ],
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    },
+    {
+      name: "missing",
+      enabled: true,
+      conditions: [{ not: { segment: "missing" } }],
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    },
+  ]);
+
+  await makeRequest(service, "/v1/segments/beta_testers", {
+    method: "PUT",
+    body: {
+      ids: { key: "userId", values: ["user_1"] },
+      conditions: [{ field: "plan", operator: "in", value: ["pro", "team"] }],
+    },
+  });
+
+  const ask = async (context: Record<string, unknown>) => {
+    const res = await makeRequest(service, "/v1/ask", {
+      method: "POST",
+      body: { context },
+    });
+    const result = (await res.json()) as AskResponse;
+
+    return result.data.map(({ flag }) => flag);
+  };
+
+  // A segment that doesn't exist has no members
+  t.deepEqual(await ask({ userId: "user_1", plan: "free" }), [
+    "beta",
+    "missing",
+  ]);
+  t.deepEqual(await ask({ userId: "user_2", plan: "pro" }), [
+    "beta",
+    "missing",
+  ]);
+  t.deepEqual(await ask({ userId: "user_2", plan: "free" }), ["missing"]);
+  t.deepEqual(await ask({ userId: "user_1", country: "FR" }), ["missing"]);
+
+  await makeRequest(service, "/v1/segments/beta_testers", {
+    method: "DELETE",
+  });
+
+  t.deepEqual(await ask({ userId: "user_1", plan: "pro" }), ["missing"]);
+});
+
+test("v1 ask w/ nested segments", async (t) => {
+  const service = createTestService({}, [
+    {
+      name: "beta",
+      enabled: true,
+      conditions: [{ segment: "beta_testers" }],
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    },
+  ]);
+
+  await makeRequest(service, "/v1/segments/beta_testers", {
+    method: "PUT",
+    body: {
+      conditions: [
+        { segment: "paying" },
+        { field: "country", operator: "neq", value: "FR" },
+      ],
+    },
+  });
+  await makeRequest(service, "/v1/segments/paying", {
+    method: "PUT",
+    body: {
+      conditions: [{ field: "plan", operator: "in", value: ["pro", "team"] }],
+    },
+  });
+
+  const ask = async (context: Record<string, unknown>) => {
+    const res = await makeRequest(service, "/v1/ask", {
+      method: "POST",
+      body: { context },
+    });
+    const result = (await res.json()) as AskResponse;
+
+    return result.data.map(({ flag }) => flag);
+  };
+
+  t.deepEqual(await ask({ plan: "pro" }), ["beta"]);
+  t.deepEqual(await ask({ plan: "free" }), []);
+  t.deepEqual(await ask({ plan: "pro", country: "FR" }), []);
+
+  // A segment that (indirectly) contains itself never matches
+  await makeRequest(service, "/v1/segments/paying", {
+    method: "PUT",
+    body: {
+      conditions: [
+        {
+          any: [
+            { segment: "beta_testers" },
+            { field: "plan", operator: "eq", value: "pro" },
+          ],
+        },
+      ],
+    },
+  });
+
+  t.deepEqual(await ask({ plan: "pro" }), ["beta"]);
+  t.deepEqual(await ask({ plan: "free" }), []);
+});
+
+// Stream
+test("v1 stream", async (t) => {
+  const service = createTestService();
+  const res = await makeRequest(service, "/v1/stream");
+
+  t.is(res.status, 200);
+  t.is(res.headers.get("Content-Type"), "text/event-stream");
+
+  const reader = (res.body as ReadableStream<Uint8Array>).getReader();
+  const decoder = new TextDecoder();
+  const read = async () => decoder.decode((await reader.read()).value);
+
+  t.is(await read(), "event: ready\ndata: null\n\n");
+
+  await makeRequest(service, "/v1/flags/new", { method: "PUT", body: {} });
+
+  t.is(
+    await read(),
+    `event: change\ndata: ${JSON.stringify({ type: "flag", name: "new" })}\n\n`,
+  );
+
+  await makeRequest(service, "/v1/segments/beta", {
+    method: "PUT",
+    body: { ids: { key: "userId", values: ["user_1"] } },
+  });
+
+  t.is(
+    await read(),
+    `event: change\ndata: ${JSON.stringify({
+      type: "segment",
+      name: "beta",
+    })}\n\n`,
+  );
+
+  await reader.cancel();
 });
 
 // Admin
@@ -0,0 +1,156 @@
+import {
+  Client,
+  ClientError,
+  type ClientFetch,
+  type ClientOptions,
+  encodePath,
+} from "@workertown/internal-client";
+
+export interface FilesClientEndpoints {
+  v1: {
+    admin: string;
+    files: string;
+    uploads: string;
+  };
+  public: string;
+}
+
+export type FilesClientOptions = ClientOptions<FilesClientEndpoints>;
+
+export type FilesClientFile = Blob | Uint8Array | string;
+
+export interface CreateUploadUrlOptions {
+  path: string;
+  callbackUrl?: string;
+  metadata?: Record<string, string>;
+}
+
+export interface FilesClientUploadUrl {
+  id: string;
+  expiresAt: string;
+}
+
+const DEFAULT_ENDPOINTS: FilesClientEndpoints = {
+  v1: {
+    admin: "/v1/admin",
+    files: "/v1/files",
+    uploads: "/v1/uploads",
+  },
+  public: "/",
+};
+
+function toFormData(file: FilesClientFile, metadata?: Record<string, string>) {
+  const formData = new FormData();
+
+  formData.append("file", file instanceof Blob ? file : new Blob([file]));
+
+  if (metadata) {
+    formData.append("metadata", JSON.stringify(metadata));
+  }
+
+  return formData;
+}
+
+export class FilesClient extends Client<FilesClientEndpoints> {
+  constructor(options: FilesClientOptions = {}) {
+    super(DEFAULT_ENDPOINTS, options);
+  }
+
+  // Resolves with the raw file stream, or `null` if the file does not exist
+  async getFile(path: string) {
+    try {
+      const res = await this.fetch(
+        "GET",
+        `${this.endpoints.v1.files}/${encodePath(path)}`,
+      );
+
+      return res.body;
+    } catch (error) {
+      if (error instanceof ClientError && error.status === 404) {
+        return null;
+      }
+
+      throw error;
+    }
+  }
+
+  async getFileMetadata(path: string) {
+    const { data } = await this.request<{
+      metadata: Record<string, string> | null;
+    }>("GET", `${this.endpoints.v1.files}/${encodePath(path)}`, {
+      query: { metadata: true },
+    });
+
+    return data.metadata;
+  }
+
+  async putFile(
+    path: string,
+    file: FilesClientFile,
+    metadata?: Record<string, string>,
+  ) {
+    const { data } = await this.request<{ path: string }>(
+      "PUT",
+      `${this.endpoints.v1.files}/${encodePath(path)}`,
+      { body: toFormData(file, metadata) },
+    );
+
+    return data;
+  }
+
+  async deleteFile(path: string) {
+    const { data } = await this.request<{ path: string }>(
+      "DELETE",
+      `${this.endpoints.v1.files}/${encodePath(path)}`,
+    );
+
+    return data;
+  }
+
+  async createUploadUrl(body: CreateUploadUrlOptions) {
+    const { data } = await this.request<FilesClientUploadUrl>(
+      "POST",
+      this.endpoints.v1.uploads,
+      { body },
+    );
+
+    return data;
+  }
+
+  // Uses a previously created upload URL, so does not need to be authenticated
+  async upload(id: string, file: FilesClientFile) {
+    const publicPrefix =
+      this.endpoints.public === "/" ? "" : this.endpoints.public;
+    const { data } = await this.request<{ path: string }>(
+      "POST",
+      `${publicPrefix}/upload/${encodeURIComponent(id)}`,
+      { body: toFormData(file) },
+    );
+
+    return data;
+  }
+
+  async info() {
+    const { data } = await this.request<Record<string, unknown>>(
+      "GET",
+      `${this.endpoints.v1.admin}/info`,
+    );
+
+    return data;
+  }
+
+  async migrate() {
+    const { data } = await this.request<unknown[]>(
+      "POST",
+      `${this.endpoints.v1.admin}/migrate`,
+    );
+
+    return data;
+  }
+}
+
+export function createFilesClient(options?: FilesClientOptions) {
+  return new FilesClient(options);
+}
+
+export { ClientError, type ClientFetch };
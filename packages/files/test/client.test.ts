@@ -0,0 +1,40 @@
+import test from "ava";
+
+import { createFilesClient } from "../src/client";
+import { createTestService, readFile } from "./_utils";
+
+function createTestClient(service = createTestService()) {
+  return createFilesClient({ fetch: service.request, token: "test" });
+}
+
+test("client put, get, delete file", async (t) => {
+  const client = createTestClient();
+  const fileContent = "This is some test file content.";
+
+  t.is(await client.getFile("test/1.txt"), null);
+  t.deepEqual(
+    await client.putFile("test/1.txt", new Blob([fileContent]), {
+      test: "test",
+    }),
+    { path: "test/1.txt" },
+  );
+  t.is(
+    await readFile((await client.getFile("test/1.txt")) as ReadableStream),
+    fileContent,
+  );
+  t.deepEqual(await client.getFileMetadata("test/1.txt"), { test: "test" });
+  t.deepEqual(await client.deleteFile("test/1.txt"), { path: "test/1.txt" });
+  t.is(await client.getFile("test/1.txt"), null);
+});
+
+test("client create upload url, upload", async (t) => {
+  const client = createTestClient();
+  const fileContent = "This is some test file content.";
+  const { id } = await client.createUploadUrl({ path: "/test/2.txt" });
+
+  t.deepEqual(await client.upload(id, fileContent), { path: "test/2.txt" });
+  t.is(
+    await readFile((await client.getFile("test/2.txt")) as ReadableStream),
+    fileContent,
+  );
+});
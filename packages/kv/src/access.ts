@@ -0,0 +1,69 @@
+import { type User } from "@workertown/internal-server";
+
+import { type StorageAdapter } from "./storage/index.js";
+import { type KvAccess, type KvPolicy } from "./types.js";
+
+const NAMESPACE_NOT_FOUND = {
+  status: 404,
+  success: false,
+  data: null,
+  error: "Namespace not found",
+};
+
+const FORBIDDEN = {
+  status: 403,
+  success: false,
+  data: null,
+  error: "Forbidden",
+};
+
+// The first segment of a key is the namespace that it's in. Returns `null` if
+// there's nothing after the namespace
+export function getKeyAccess(
+  key: string,
+  action: "read" | "write",
+): KvAccess | null {
+  const index = key.indexOf("/");
+
+  if (index < 1 || index === key.length - 1) {
+    return null;
+  }
+
+  return { action, namespace: key.slice(0, index), key: key.slice(index + 1) };
+}
+
+// Checks that the namespaces exist (other than for the `admin` action), and then
+// that the policy (if there is one) allows all of the accesses. Returns the
+// error to respond with otherwise
+export async function authorize(
+  storage: StorageAdapter,
+  policy: KvPolicy | undefined,
+  user: User,
+  accesses: KvAccess[],
+) {
+  const namespaces = await Promise.all(
+    Array.from(
+      new Set(
+        accesses.flatMap((access) =>
+          access.action === "admin" ? [] : [access.namespace],
+        ),
+      ),
+    ).map((namespace) => storage.getNamespace(namespace)),
+  );
+
+  if (namespaces.includes(null)) {
+    return NAMESPACE_NOT_FOUND;
+  }
+
+  if (policy) {
+    const allowed = await Promise.all(
+      accesses.map((access) => policy(user, access)),
+    );
+
+    if (allowed.includes(false)) {
+      return FORBIDDEN;
+    }
+  }
+
+  return null;
+}
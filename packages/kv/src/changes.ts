@@ -0,0 +1,122 @@
+import {
+  type Change,
+  type ChangeEntry,
+  type StorageAdapter,
+} from "./storage/index.js";
+import { type KvWebhook } from "./types.js";
+
+// How long (in milliseconds) the changes are kept for, for clients to resume
+// the feed from
+export const CHANGES_RETENTION = 7 * 24 * 60 * 60 * 1000;
+
+// How long (in milliseconds) to wait for a webhook to respond
+const WEBHOOK_TIMEOUT = 10 * 1000;
+
+type ChangeListener = () => void;
+
+// Wakes up the `/v1/changes` streams when changes are recorded, so they don't
+// have to wait for their next poll. This is in memory, so only the changes
+// made via the same server instance wake them up
+export class ChangeNotifier {
+  private readonly _listeners = new Set<ChangeListener>();
+
+  public subscribe(listener: ChangeListener) {
+    this._listeners.add(listener);
+
+    return () => {
+      this._listeners.delete(listener);
+    };
+  }
+
+  public notify() {
+    for (const listener of this._listeners) {
+      listener();
+    }
+  }
+}
+
+export type ChangeFilter = { key: string } | { prefix: string };
+
+// The keys (and prefixes) are the full ones, including the namespace. Deleting
+// by a prefix is a change to any key under it
+export function matchesChange(change: Change, filter: ChangeFilter) {
+  if ("key" in filter) {
+    return change.type === "delete_prefix"
+      ? filter.key.startsWith(change.key)
+      : change.key === filter.key;
+  }
+
+  return (
+    change.key.startsWith(filter.prefix) ||
+    (change.type === "delete_prefix" && filter.prefix.startsWith(change.key))
+  );
+}
+
+export function formatChange({ sequence, type, key, createdAt }: Change) {
+  return { sequence, type, key, createdAt: createdAt.toISOString() };
+}
+
+async function sendWebhook(webhook: KvWebhook, changes: Change[]) {
+  const { endpoint, method = "POST", headers, queryParameters } = webhook;
+  const url = new URL(endpoint);
+  const reqHeaders = new Headers({ "Content-Type": "application/json" });
+
+  if (headers) {
+    for (const [key, value] of Object.entries(headers)) {
+      reqHeaders.set(key, value);
+    }
+  }
+
+  if (queryParameters) {
+    for (const [key, value] of Object.entries(queryParameters)) {
+      url.searchParams.set(key, value);
+    }
+  }
+
+  await fetch(url.toString(), {
+    method,
+    headers: reqHeaders,
+    body: JSON.stringify({ changes: changes.map(formatChange) }),
+    signal: AbortSignal.timeout(WEBHOOK_TIMEOUT),
+  });
+}
+
+// Records the changes (if the storage supports it), wakes up the streams and
+// forwards the changes to the webhooks subscribed to them. This is called once
+// the write has gone through, but failing to record the changes still fails the
+// request (and is reported like any other error), as the feed would otherwise
+// silently miss them. Webhooks are only tried once, and failures are ignored, as
+// the changes can always be read again from the feed. Where there's an
+// execution context (e.g. Cloudflare Workers), they are sent after the response
+export async function recordChanges(
+  storage: StorageAdapter,
+  notifier: ChangeNotifier,
+  webhooks: KvWebhook[],
+  entries: ChangeEntry[],
+  executionCtx?: ExecutionContext,
+) {
+  if (!storage.supportsChanges || entries.length === 0) {
+    return;
+  }
+
+  const changes = await storage.recordChanges(entries);
+
+  notifier.notify();
+
+  const send = Promise.allSettled(
+    webhooks.map((webhook) => {
+      const prefix = `${webhook.namespace}/${webhook.prefix ?? ""}`;
+      const matching = changes.filter((change) =>
+        matchesChange(change, { prefix }),
+      );
+
+      return matching.length > 0 ? sendWebhook(webhook, matching) : null;
+    }),
+  );
+
+  if (executionCtx) {
+    executionCtx.waitUntil(send);
+  } else {
+    await send;
+  }
+}
@@ -0,0 +1,416 @@
+import {
+  Client,
+  ClientError,
+  type ClientFetch,
+  type ClientOptions,
+  type ClientPage,
+  encodePath,
+} from "@workertown/internal-client";
+
+export interface KvClientEndpoints {
+  v1: {
+    admin: string;
+    changes: string;
+    kv: string;
+  };
+}
+
+export type KvClientOptions = ClientOptions<KvClientEndpoints>;
+
+export type KvValue =
+  | string
+  | number
+  | boolean
+  | Record<string, unknown>
+  | unknown[];
+
+export interface KvEntry<T extends KvValue = KvValue> {
+  key: string;
+  value?: T;
+  // Only set alongside the value. Values that aren't JSON are base64 encoded
+  contentType?: string | null;
+}
+
+export interface KvValueWithMetadata<T extends KvValue = KvValue> {
+  value: T;
+  // The remaining time to live in seconds, or `null` if it never expires
+  ttl: number | null;
+  // Goes up by one every time the value is written
+  version: number;
+}
+
+export interface SetValueOptions {
+  // In seconds
+  ttl?: number;
+  expiresAt?: Date | string | number;
+  // Only set the value if it is currently this version (or exists at all, for
+  // `*`), otherwise a `412` `ClientError` is thrown
+  version?: number | "*";
+}
+
+export interface KvBinaryValue {
+  value: ArrayBuffer;
+  contentType: string;
+  version: number;
+}
+
+export interface SetBinaryValueOptions extends SetValueOptions {
+  contentType?: string;
+}
+
+export type KvBatchOperation<T extends KvValue = KvValue> =
+  | { type: "get"; key: string }
+  | ({ type: "set"; key: string; value: T } & Omit<SetValueOptions, "version">)
+  | { type: "delete"; key: string };
+
+export type KvBatchResult<T extends KvValue = KvValue> =
+  | {
+      type: "get";
+      key: string;
+      // `null` if the value doesn't exist
+      value: T | null;
+      ttl: number | null;
+      version: number | null;
+      // `null` for JSON values. Otherwise, the value is base64 encoded
+      contentType: string | null;
+    }
+  | { type: "set"; key: string; value: T; ttl: number | null }
+  | { type: "delete"; key: string };
+
+export interface BatchOptions {
+  // Apply all of the writes or none of them. A `501` `ClientError` is thrown if
+  // the storage doesn't support it
+  atomic?: boolean;
+}
+
+export interface ListValuesOptions {
+  namespace: string;
+  // Relative to the namespace
+  prefix?: string;
+  limit?: number;
+  cursor?: string;
+  includeValues?: boolean;
+}
+
+export interface KvNamespace {
+  name: string;
+  // An ISO 8601 date string
+  createdAt: string;
+}
+
+export interface KvChange {
+  sequence: number;
+  // `delete_prefix` is for `deleteValues()`, with the prefix as the key
+  type: "set" | "delete" | "delete_prefix";
+  // Includes the namespace
+  key: string;
+  // An ISO 8601 date string
+  createdAt: string;
+}
+
+export interface WatchChangesOptions {
+  // Only one of `key` and `prefix` can be set. Both are relative to the
+  // namespace
+  key?: string;
+  prefix?: string;
+  // The sequence of the last change seen, to resume from
+  after?: number;
+  signal?: AbortSignal;
+}
+
+const DEFAULT_ENDPOINTS: KvClientEndpoints = {
+  v1: {
+    admin: "/v1/admin",
+    changes: "/v1/changes",
+    kv: "/v1/kv",
+  },
+};
+
+export class KvClient extends Client<KvClientEndpoints> {
+  constructor(options: KvClientOptions = {}) {
+    super(DEFAULT_ENDPOINTS, options);
+  }
+
+  async getValue<T extends KvValue = KvValue>(key: string) {
+    const { data } = await this.request<T | null>(
+      "GET",
+      `${this.endpoints.v1.kv}/${encodePath(key)}`,
+    );
+
+    return data;
+  }
+
+  async getValueWithMetadata<T extends KvValue = KvValue>(
+    key: string,
+  ): Promise<KvValueWithMetadata<T> | null> {
+    const { data, ttl, version } = await this.request<
+      T | null,
+      { data: T | null; ttl?: number | null; version?: number }
+    >("GET", `${this.endpoints.v1.kv}/${encodePath(key)}`);
+
+    return data === null
+      ? null
+      : { value: data, ttl: ttl ?? null, version: version ?? 0 };
+  }
+
+  async setValue<T extends KvValue = KvValue>(
+    key: string,
+    value: T,
+    { ttl, expiresAt, version }: SetValueOptions = {},
+  ) {
+    const { data } = await this.request<T>(
+      "PUT",
+      `${this.endpoints.v1.kv}/${encodePath(key)}`,
+      {
+        body: {
+          value,
+          ttl,
+          expiresAt:
+            expiresAt instanceof Date ? expiresAt.toISOString() : expiresAt,
+        },
+        headers:
+          version === undefined
+            ? undefined
+            : { "If-Match": version === "*" ? "*" : `"${version}"` },
+      },
+    );
+
+    return data;
+  }
+
+  // Gets the value as the bytes it was set with (by `setBinaryValue()`). Values
+  // that were set as JSON come back as the bytes of their JSON
+  async getBinaryValue(key: string): Promise<KvBinaryValue | null> {
+    const response = await this.fetch(
+      "GET",
+      `${this.endpoints.v1.kv}/${encodePath(key)}`,
+    );
+
+    if (response.status === 404) {
+      return null;
+    }
+
+    const etag = response.headers.get("ETag")?.replace(/"/g, "");
+    const version = etag ? parseInt(etag, 10) : 0;
+    const contentType =
+      response.headers.get("Content-Type") ?? "application/octet-stream";
+
+    if (contentType.startsWith("application/json")) {
+      const { data } = (await response.json()) as { data: KvValue };
+
+      return {
+        value: new TextEncoder().encode(JSON.stringify(data)).buffer,
+        contentType: "application/json",
+        version,
+      };
+    }
+
+    return { value: await response.arrayBuffer(), contentType, version };
+  }
+
+  // Sets the raw bytes as the value, which `GET /v1/kv/:key` then returns as
+  // they were set, with the content type
+  async setBinaryValue(
+    key: string,
+    value: ArrayBuffer | Uint8Array | Blob,
+    {
+      contentType = "application/octet-stream",
+      ttl,
+      expiresAt,
+      version,
+    }: SetBinaryValueOptions = {},
+  ) {
+    const { data } = await this.request<{ contentType: string; size: number }>(
+      "PUT",
+      `${this.endpoints.v1.kv}/${encodePath(key)}`,
+      {
+        query: {
+          ttl,
+          expires_at:
+            expiresAt instanceof Date ? expiresAt.toISOString() : expiresAt,
+        },
+        body: value,
+        headers: {
+          "Content-Type": contentType,
+          ...(version === undefined
+            ? {}
+            : { "If-Match": version === "*" ? "*" : `"${version}"` }),
+        },
+      },
+    );
+
+    return data;
+  }
+
+  // Atomically adds `by` to a numeric value, starting from `0` if it doesn't
+  // exist. A `409` `ClientError` is thrown if the value isn't a number
+  async incrementValue(key: string, by = 1) {
+    const { data } = await this.request<number>(
+      "POST",
+      `${this.endpoints.v1.kv}/${encodePath(key)}:increment`,
+      { body: { by } },
+    );
+
+    return data;
+  }
+
+  async deleteValue(key: string) {
+    const { data } = await this.request<boolean>(
+      "DELETE",
+      `${this.endpoints.v1.kv}/${encodePath(key)}`,
+    );
+
+    return data;
+  }
+
+  // Runs up to 100 operations in one request. The gets return the values from
+  // before any of the writes in the batch are applied
+  async batch<T extends KvValue = KvValue>(
+    operations: KvBatchOperation<T>[],
+    { atomic }: BatchOptions = {},
+  ) {
+    const { data } = await this.request<KvBatchResult<T>[]>(
+      "POST",
+      `${this.endpoints.v1.kv}:batch`,
+      {
+        body: {
+          operations: operations.map((operation) =>
+            operation.type === "set" && operation.expiresAt instanceof Date
+              ? { ...operation, expiresAt: operation.expiresAt.toISOString() }
+              : operation,
+          ),
+          atomic,
+        },
+      },
+    );
+
+    return data;
+  }
+
+  // The keys that are returned include the namespace
+  async listValues<T extends KvValue = KvValue>({
+    namespace,
+    prefix,
+    limit,
+    cursor,
+    includeValues,
+  }: ListValuesOptions): Promise<ClientPage<KvEntry<T>>> {
+    const { data, pagination } = await this.request<
+      KvEntry<T>[],
+      ClientPage<KvEntry<T>>
+    >("GET", `${this.endpoints.v1.kv}/${encodePath(namespace)}`, {
+      query: { prefix, limit, cursor, include_values: includeValues },
+    });
+
+    return { data, pagination };
+  }
+
+  // Iterates over every key (and value, if `includeValues` is set) with the
+  // prefix, following `endCursor` until there are no more pages
+  listAllValues<T extends KvValue = KvValue>(options: ListValuesOptions) {
+    return this.paginate(
+      (cursor) => this.listValues<T>({ ...options, cursor }),
+      options.cursor,
+    );
+  }
+
+  async deleteValues(namespace: string, prefix: string) {
+    const { data } = await this.request<{ deleted: number }>(
+      "DELETE",
+      `${this.endpoints.v1.kv}/${encodePath(namespace)}`,
+      { query: { prefix } },
+    );
+
+    return data.deleted;
+  }
+
+  // Yields the changes to the key (or the keys under the prefix) as they are
+  // made, until it is broken out of or `signal` is aborted. A `501`
+  // `ClientError` is thrown if the storage doesn't support changes
+  async *watchChanges(
+    namespace: string,
+    { key, prefix, after, signal }: WatchChangesOptions = {},
+  ): AsyncGenerator<KvChange, void, undefined> {
+    const response = await this.fetch(
+      "GET",
+      `${this.endpoints.v1.changes}/${encodePath(namespace)}`,
+      { query: { key, prefix, after }, signal },
+    );
+    const reader = (response.body as ReadableStream<Uint8Array>).getReader();
+    const decoder = new TextDecoder();
+    let buffer = "";
+
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+
+        if (done) {
+          break;
+        }
+
+        buffer += decoder.decode(value, { stream: true });
+
+        // Anything after the last blank line is an event that hasn't fully
+        // arrived yet
+        const events = buffer.split("\n\n");
+
+        buffer = events.pop() ?? "";
+
+        for (const event of events) {
+          const lines = event.split("\n");
+          const data = lines.find((line) => line.startsWith("data: "));
+
+          if (lines.includes("event: change") && data) {
+            yield JSON.parse(data.slice("data: ".length)) as KvChange;
+          }
+        }
+      }
+    } finally {
+      await reader.cancel();
+    }
+  }
+
+  async info() {
+    const { data } = await this.request<Record<string, unknown>>(
+      "GET",
+      `${this.endpoints.v1.admin}/info`,
+    );
+
+    return data;
+  }
+
+  async getNamespaces() {
+    const { data } = await this.request<KvNamespace[]>(
+      "GET",
+      `${this.endpoints.v1.admin}/namespaces`,
+    );
+
+    return data;
+  }
+
+  // A `409` `ClientError` is thrown if the namespace already exists
+  async createNamespace(name: string) {
+    const { data } = await this.request<KvNamespace>(
+      "POST",
+      `${this.endpoints.v1.admin}/namespaces`,
+      { body: { name } },
+    );
+
+    return data;
+  }
+
+  async migrate() {
+    const { data } = await this.request<unknown[]>(
+      "POST",
+      `${this.endpoints.v1.admin}/migrate`,
+    );
+
+    return data;
+  }
+}
+
+export function createKvClient(options?: KvClientOptions) {
+  return new KvClient(options);
+}
+
+export { ClientError, type ClientFetch, type ClientPage };
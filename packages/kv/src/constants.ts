@@ -15,6 +15,176 @@ export const OPEN_API_SPEC: OpenApiSpec = {
     },
   ],
   paths: {
+    "/v1/kv/{namespace}": {
+      get: {
+        summary: "List the keys in a namespace",
+        security: [{ BasicAuth: [] }, { BearerAuth: [] }],
+        operationId: "listValues",
+        tags: ["Key/Value"],
+        parameters: [
+          {
+            name: "namespace",
+            in: "path",
+            required: true,
+            description: "The namespace of the keys",
+            schema: {
+              type: "string",
+            },
+          },
+          {
+            name: "prefix",
+            in: "query",
+            required: false,
+            description:
+              "Only list the keys that start with the prefix (after the namespace)",
+            schema: {
+              type: "string",
+            },
+          },
+          {
+            name: "limit",
+            in: "query",
+            required: false,
+            description: "The maximum number of keys to return (up to 1000)",
+            schema: {
+              type: "integer",
+              default: 100,
+            },
+          },
+          {
+            name: "cursor",
+            in: "query",
+            required: false,
+            description: "The `endCursor` of the previous page",
+            schema: {
+              type: "string",
+            },
+          },
+          {
+            name: "include_values",
+            in: "query",
+            required: false,
+            description: "Whether to return the values with the keys",
+            schema: {
+              type: "boolean",
+              default: false,
+            },
+          },
+        ],
+        responses: {
+          "200": {
+            description: "The keys",
+            content: {
+              "application/json": {
+                schema: {
+                  $ref: "#/components/schemas/ListValuesResponse",
+                },
+              },
+            },
+          },
+          default: {
+            description: "Unexpected error",
+            content: {
+              "application/json": {
+                schema: {
+                  $ref: "#/components/schemas/InternalServerErrorResponse",
+                },
+              },
+            },
+          },
+        },
+      },
+      delete: {
+        summary: "Delete the values in a namespace with a prefix",
+        security: [{ BasicAuth: [] }, { BearerAuth: [] }],
+        operationId: "deleteValues",
+        tags: ["Key/Value"],
+        parameters: [
+          {
+            name: "namespace",
+            in: "path",
+            required: true,
+            description: "The namespace of the keys",
+            schema: {
+              type: "string",
+            },
+          },
+          {
+            name: "prefix",
+            in: "query",
+            required: true,
+            description:
+              "Delete the values with keys that start with the prefix (after the namespace)",
+            schema: {
+              type: "string",
+            },
+          },
+        ],
+        responses: {
+          "200": {
+            description: "The number of deleted values",
+            content: {
+              "application/json": {
+                schema: {
+                  $ref: "#/components/schemas/DeleteValuesResponse",
+                },
+              },
+            },
+          },
+          default: {
+            description: "Unexpected error",
+            content: {
+              "application/json": {
+                schema: {
+                  $ref: "#/components/schemas/InternalServerErrorResponse",
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    "/v1/kv:batch": {
+      post: {
+        summary: "Get, set and delete multiple values",
+        security: [{ BasicAuth: [] }, { BearerAuth: [] }],
+        operationId: "batch",
+        tags: ["Key/Value"],
+        requestBody: {
+          description: "The operations to run",
+          required: true,
+          content: {
+            "application/json": {
+              schema: {
+                $ref: "#/components/schemas/BatchBody",
+              },
+            },
+          },
+        },
+        responses: {
+          "200": {
+            description: "The result of each operation",
+            content: {
+              "application/json": {
+                schema: {
+                  $ref: "#/components/schemas/BatchResponse",
+                },
+              },
+            },
+          },
+          default: {
+            description: "Unexpected error",
+            content: {
+              "application/json": {
+                schema: {
+                  $ref: "#/components/schemas/InternalServerErrorResponse",
+                },
+              },
+            },
+          },
+        },
+      },
+    },
     "/v1/kv/{key}": {
       get: {
         summary: "Get a value",
@@ -26,7 +196,18 @@ export const OPEN_API_SPEC: OpenApiSpec = {
             name: "key",
             in: "path",
             required: true,
-            description: "The key for the value",
+            description:
+              "The key for the value, starting with its namespace (e.g. `users/1`)",
+            schema: {
+              type: "string",
+            },
+          },
+          {
+            name: "If-None-Match",
+            in: "header",
+            required: false,
+            description:
+              "Responds with a `304` if the value's `ETag` still matches",
             schema: {
               type: "string",
             },
@@ -34,13 +215,20 @@ export const OPEN_API_SPEC: OpenApiSpec = {
         ],
         responses: {
           "200": {
-            description: "The feature flag",
+            description:
+              "The value. Values that were set with a content type other than JSON are returned as they were set, with that content type",
             content: {
               "application/json": {
                 schema: {
                   $ref: "#/components/schemas/GetValueResponse",
                 },
               },
+              "*/*": {
+                schema: {
+                  type: "string",
+                  format: "binary",
+                },
+              },
             },
           },
           default: {
@@ -65,14 +253,46 @@ export const OPEN_API_SPEC: OpenApiSpec = {
             name: "key",
             in: "path",
             required: true,
-            description: "The key for the value",
+            description:
+              "The key for the value, starting with its namespace (e.g. `users/1`)",
+            schema: {
+              type: "string",
+            },
+          },
+          {
+            name: "If-Match",
+            in: "header",
+            required: false,
+            description:
+              "Only sets the value if its `ETag` still matches (or if it exists at all, for `*`), responding with a `412` otherwise",
+            schema: {
+              type: "string",
+            },
+          },
+          {
+            name: "ttl",
+            in: "query",
+            required: false,
+            description:
+              "The number of seconds until the value expires. Only for values that aren't JSON",
+            schema: {
+              type: "integer",
+            },
+          },
+          {
+            name: "expires_at",
+            in: "query",
+            required: false,
+            description:
+              "An ISO 8601 date (or a timestamp in milliseconds) for when the value expires. Only for values that aren't JSON",
             schema: {
               type: "string",
             },
           },
         ],
         requestBody: {
-          description: "The value to set",
+          description:
+            "The value to set. Any content type other than JSON is stored as the raw bytes of the body, and returned as they were set",
           required: true,
           content: {
             "application/json": {
@@ -80,6 +300,12 @@ export const OPEN_API_SPEC: OpenApiSpec = {
                 $ref: "#/components/schemas/SetValueBody",
               },
             },
+            "*/*": {
+              schema: {
+                type: "string",
+                format: "binary",
+              },
+            },
           },
         },
         responses: {
@@ -115,7 +341,8 @@ export const OPEN_API_SPEC: OpenApiSpec = {
             name: "key",
             in: "path",
             required: true,
-            description: "The key for the value",
+            description:
+              "The key for the value, starting with its namespace (e.g. `users/1`)",
             schema: {
               type: "string",
             },
@@ -145,6 +372,151 @@ export const OPEN_API_SPEC: OpenApiSpec = {
         },
       },
     },
+    "/v1/kv/{key}:increment": {
+      post: {
+        summary: "Increment a numeric value",
+        security: [{ BasicAuth: [] }, { BearerAuth: [] }],
+        operationId: "incrementValue",
+        tags: ["Key/Value"],
+        parameters: [
+          {
+            name: "key",
+            in: "path",
+            required: true,
+            description:
+              "The key for the value, starting with its namespace (e.g. `users/1`)",
+            schema: {
+              type: "string",
+            },
+          },
+        ],
+        requestBody: {
+          description: "How much to increment the value by",
+          required: true,
+          content: {
+            "application/json": {
+              schema: {
+                $ref: "#/components/schemas/IncrementValueBody",
+              },
+            },
+          },
+        },
+        responses: {
+          "200": {
+            description: "The incremented value",
+            content: {
+              "application/json": {
+                schema: {
+                  $ref: "#/components/schemas/SetValueResponse",
+                },
+              },
+            },
+          },
+          default: {
+            description: "Unexpected error",
+            content: {
+              "application/json": {
+                schema: {
+                  $ref: "#/components/schemas/InternalServerErrorResponse",
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    "/v1/changes/{namespace}": {
+      get: {
+        summary: "Stream the changes to the values in a namespace",
+        description:
+          "Sends a `ready` event, followed by a `change` event (with the sequence as its `id`) for each change to the key, or the keys with the prefix. Send the `id` of the last event as the `Last-Event-ID` header (or `after`) to resume from it",
+        security: [{ BasicAuth: [] }, { BearerAuth: [] }],
+        operationId: "watchChanges",
+        tags: ["Changes"],
+        parameters: [
+          {
+            name: "namespace",
+            in: "path",
+            required: true,
+            description: "The namespace of the keys",
+            schema: {
+              type: "string",
+            },
+          },
+          {
+            name: "key",
+            in: "query",
+            required: false,
+            description:
+              "Only send the changes to the key (after the namespace). Can't be set with `prefix`",
+            schema: {
+              type: "string",
+            },
+          },
+          {
+            name: "prefix",
+            in: "query",
+            required: false,
+            description:
+              "Only send the changes to the keys that start with the prefix (after the namespace)",
+            schema: {
+              type: "string",
+            },
+          },
+          {
+            name: "after",
+            in: "query",
+            required: false,
+            description:
+              "Send the changes after this sequence. Otherwise, only the changes from now on are sent",
+            schema: {
+              type: "integer",
+            },
+          },
+          {
+            name: "Last-Event-ID",
+            in: "header",
+            required: false,
+            description: "The same as `after`",
+            schema: {
+              type: "integer",
+            },
+          },
+        ],
+        responses: {
+          "200": {
+            description: "The stream of server-sent events",
+            content: {
+              "text/event-stream": {
+                schema: {
+                  $ref: "#/components/schemas/Change",
+                },
+              },
+            },
+          },
+          "501": {
+            description: "The storage doesn't support changes",
+            content: {
+              "application/json": {
+                schema: {
+                  $ref: "#/components/schemas/InternalServerErrorResponse",
+                },
+              },
+            },
+          },
+          default: {
+            description: "Unexpected error",
+            content: {
+              "application/json": {
+                schema: {
+                  $ref: "#/components/schemas/InternalServerErrorResponse",
+                },
+              },
+            },
+          },
+        },
+      },
+    },
     "/v1/admin/info": {
       get: {
         summary: "Get configuration information",
@@ -205,6 +577,75 @@ export const OPEN_API_SPEC: OpenApiSpec = {
         },
       },
     },
+    "/v1/admin/namespaces": {
+      get: {
+        summary: "List the namespaces",
+        security: [{ BasicAuth: [] }, { BearerAuth: [] }],
+        operationId: "adminGetNamespaces",
+        tags: ["Admin"],
+        responses: {
+          "200": {
+            description: "The namespaces",
+            content: {
+              "application/json": {
+                schema: {
+                  $ref: "#/components/schemas/AdminNamespacesResponse",
+                },
+              },
+            },
+          },
+          default: {
+            description: "Unexpected error",
+            content: {
+              "application/json": {
+                schema: {
+                  $ref: "#/components/schemas/InternalServerErrorResponse",
+                },
+              },
+            },
+          },
+        },
+      },
+      post: {
+        summary: "Create a namespace",
+        security: [{ BasicAuth: [] }, { BearerAuth: [] }],
+        operationId: "adminCreateNamespace",
+        tags: ["Admin"],
+        requestBody: {
+          description: "The namespace to create",
+          required: true,
+          content: {
+            "application/json": {
+              schema: {
+                $ref: "#/components/schemas/CreateNamespaceBody",
+              },
+            },
+          },
+        },
+        responses: {
+          "200": {
+            description: "The created namespace",
+            content: {
+              "application/json": {
+                schema: {
+                  $ref: "#/components/schemas/AdminNamespaceResponse",
+                },
+              },
+            },
+          },
+          default: {
+            description: "Unexpected error",
+            content: {
+              "application/json": {
+                schema: {
+                  $ref: "#/components/schemas/InternalServerErrorResponse",
+                },
+              },
+            },
+          },
+        },
+      },
+    },
     "/health": {
       get: {
         summary: "Get service health",
@@ -260,6 +701,150 @@ export const OPEN_API_SPEC: OpenApiSpec = {
             ],
             example: "value",
           },
+          ttl: {
+            type: "integer",
+            description: "The number of seconds until the value expires",
+            example: 3600,
+          },
+          expiresAt: {
+            oneOf: [
+              { type: "string", format: "date-time" },
+              { type: "integer" },
+            ],
+            description:
+              "When the value expires, as an ISO 8601 date or a timestamp in milliseconds (instead of `ttl`)",
+            example: "2024-01-01T00:00:00.000Z",
+          },
+        },
+      },
+      IncrementValueBody: {
+        properties: {
+          by: {
+            type: "number",
+            description:
+              "The amount to add to the value (which starts at `0` if it doesn't exist)",
+            default: 1,
+            example: 1,
+          },
+        },
+      },
+      BatchBody: {
+        required: ["operations"],
+        properties: {
+          operations: {
+            type: "array",
+            minItems: 1,
+            maxItems: 100,
+            description:
+              "The gets are read before any of the writes are applied",
+            items: {
+              type: "object",
+              required: ["type", "key"],
+              properties: {
+                type: {
+                  type: "string",
+                  enum: ["get", "set", "delete"],
+                  example: "set",
+                },
+                key: {
+                  type: "string",
+                  example: "users/1",
+                },
+                value: {
+                  oneOf: [
+                    { type: "string" },
+                    { type: "number" },
+                    { type: "boolean" },
+                    { type: "object" },
+                    { type: "array" },
+                  ],
+                  description: "Only for `set`",
+                  example: "value",
+                },
+                ttl: {
+                  type: "integer",
+                  description: "Only for `set`",
+                  example: 3600,
+                },
+                expiresAt: {
+                  oneOf: [
+                    { type: "string", format: "date-time" },
+                    { type: "integer" },
+                  ],
+                  description: "Only for `set`",
+                  example: "2024-01-01T00:00:00.000Z",
+                },
+              },
+            },
+          },
+          atomic: {
+            type: "boolean",
+            description:
+              "Apply all of the writes or none of them. Responds with a `501` if the storage doesn't support it",
+            default: false,
+          },
+        },
+      },
+      BatchResponse: {
+        properties: {
+          status: {
+            type: "integer",
+            format: "int32",
+            example: 200,
+          },
+          success: {
+            type: "boolean",
+            example: true,
+          },
+          data: {
+            type: "array",
+            items: {
+              type: "object",
+              required: ["type", "key"],
+              properties: {
+                type: {
+                  type: "string",
+                  enum: ["get", "set", "delete"],
+                  example: "get",
+                },
+                key: {
+                  type: "string",
+                  example: "users/1",
+                },
+                value: {
+                  oneOf: [
+                    { type: "string" },
+                    { type: "number" },
+                    { type: "boolean" },
+                    { type: "object" },
+                    { type: "array" },
+                  ],
+                  nullable: true,
+                  description:
+                    "`null` for a `get` of a value that doesn't exist",
+                  example: "value",
+                },
+                ttl: {
+                  type: "integer",
+                  nullable: true,
+                  example: 3600,
+                },
+                version: {
+                  type: "integer",
+                  nullable: true,
+                  description: "Only for `get`",
+                  example: 1,
+                },
+                contentType: {
+                  type: "string",
+                  nullable: true,
+                  description:
+                    "Only for `get`. `null` for JSON values, otherwise the value is base64 encoded",
+                  example: null,
+                },
+              },
+            },
+          },
         },
       },
       GetValueResponse: {
@@ -283,6 +868,19 @@ export const OPEN_API_SPEC: OpenApiSpec = {
             ],
             example: "value",
           },
+          ttl: {
+            type: "integer",
+            nullable: true,
+            description:
+              "The remaining number of seconds until the value expires, or `null` if it never does",
+            example: 3600,
+          },
+          version: {
+            type: "integer",
+            description:
+              "Goes up by one every time the value is written (also sent as the `ETag` header)",
+            example: 1,
+          },
         },
       },
       SetValueResponse: {
@@ -304,8 +902,23 @@ export const OPEN_API_SPEC: OpenApiSpec = {
               { type: "object" },
               { type: "array" },
             ],
+            description:
+              "The value, or its `contentType` and `size` (in bytes) for values that aren't JSON",
             example: "value",
           },
+          ttl: {
+            type: "integer",
+            nullable: true,
+            description:
+              "The remaining number of seconds until the value expires, or `null` if it never does",
+            example: 3600,
+          },
+          version: {
+            type: "integer",
+            description:
+              "Goes up by one every time the value is written (also sent as the `ETag` header)",
+            example: 1,
+          },
         },
       },
       DeleteValueResponse: {
@@ -325,6 +938,85 @@ export const OPEN_API_SPEC: OpenApiSpec = {
           },
         },
       },
+      ListValuesResponse: {
+        properties: {
+          status: {
+            type: "integer",
+            format: "int32",
+            example: 200,
+          },
+          success: {
+            type: "boolean",
+            example: true,
+          },
+          data: {
+            type: "array",
+            items: {
+              type: "object",
+              required: ["key"],
+              properties: {
+                key: {
+                  type: "string",
+                  example: "users/1",
+                },
+                value: {
+                  oneOf: [
+                    { type: "string" },
+                    { type: "number" },
+                    { type: "boolean" },
+                    { type: "object" },
+                    { type: "array" },
+                  ],
+                  example: "value",
+                },
+                contentType: {
+                  type: "string",
+                  nullable: true,
+                  description:
+                    "Only with `include_values`. `null` for JSON values, otherwise the value is base64 encoded",
+                  example: null,
+                },
+              },
+            },
+          },
+          pagination: {
+            type: "object",
+            properties: {
+              hasNextPage: {
+                type: "boolean",
+                example: true,
+              },
+              endCursor: {
+                type: "string",
+                nullable: true,
+                example: "users/1",
+              },
+            },
+          },
+        },
+      },
+      DeleteValuesResponse: {
+        properties: {
+          status: {
+            type: "integer",
+            format: "int32",
+            example: 200,
+          },
+          success: {
+            type: "boolean",
+            example: true,
+          },
+          data: {
+            type: "object",
+            properties: {
+              deleted: {
+                type: "integer",
+                example: 2,
+              },
+            },
+          },
+        },
+      },
       AdminInfoResponse: {
         properties: {
           status: {
@@ -374,6 +1066,95 @@ export const OPEN_API_SPEC: OpenApiSpec = {
           },
         },
       },
+      CreateNamespaceBody: {
+        required: ["name"],
+        properties: {
+          name: {
+            type: "string",
+            description: "Up to 64 letters, numbers, underscores and hyphens",
+            example: "users",
+          },
+        },
+      },
+      AdminNamespacesResponse: {
+        properties: {
+          status: {
+            type: "integer",
+            format: "int32",
+            example: 200,
+          },
+          success: {
+            type: "boolean",
+            example: true,
+          },
+          data: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: {
+                name: {
+                  type: "string",
+                  example: "users",
+                },
+                createdAt: {
+                  type: "string",
+                  format: "date-time",
+                },
+              },
+            },
+          },
+        },
+      },
+      AdminNamespaceResponse: {
+        properties: {
+          status: {
+            type: "integer",
+            format: "int32",
+            example: 200,
+          },
+          success: {
+            type: "boolean",
+            example: true,
+          },
+          data: {
+            type: "object",
+            properties: {
+              name: {
+                type: "string",
+                example: "users",
+              },
+              createdAt: {
+                type: "string",
+                format: "date-time",
+              },
+            },
+          },
+        },
+      },
+      Change: {
+        type: "object",
+        required: ["sequence", "type", "key", "createdAt"],
+        properties: {
+          sequence: {
+            type: "integer",
+            example: 1,
+          },
+          type: {
+            type: "string",
+            enum: ["set", "delete", "delete_prefix"],
+          },
+          key: {
+            type: "string",
+            description:
+              "The key (with the namespace). For `delete_prefix`, the prefix that was deleted",
+            example: "users/1",
+          },
+          createdAt: {
+            type: "string",
+            format: "date-time",
+          },
+        },
+      },
       PublicHealthResponse: {
         properties: {
           status: {
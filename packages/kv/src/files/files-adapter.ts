@@ -0,0 +1,3 @@
+import { FilesAdapter as BaseFilesAdapter } from "@workertown/internal-files";
+
+export class FilesAdapter extends BaseFilesAdapter {}
@@ -0,0 +1,3 @@
+import { FilesAdapter } from "./files-adapter.js";
+
+export { FilesAdapter };
@@ -0,0 +1,3 @@
+import { MemoryFilesAdapter as BaseMemoryFilesAdapter } from "@workertown/internal-files/memory";
+
+export class MemoryFilesAdapter extends BaseMemoryFilesAdapter {}
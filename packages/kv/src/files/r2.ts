@@ -0,0 +1,3 @@
+import { R2FilesAdapter as BaseR2FilesAdapter } from "@workertown/internal-files/r2";
+
+export class R2FilesAdapter extends BaseR2FilesAdapter {}
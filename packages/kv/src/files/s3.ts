@@ -0,0 +1,3 @@
+import { S3FilesAdapter as BaseS3FilesAdapter } from "@workertown/internal-files/s3";
+
+export class S3FilesAdapter extends BaseS3FilesAdapter {}
@@ -1,10 +1,18 @@
 import { type ServerOptionsOptional, createKvServer } from "./server.js";
-import { type RuntimeResolver } from "./types.js";
+import {
+  type KvAccess,
+  type KvPolicy,
+  type KvWebhook,
+  type RuntimeResolver,
+} from "./types.js";
 
 export default createKvServer;
 export {
   createKvServer,
   createKvServer as kv,
+  type KvAccess,
+  type KvPolicy,
+  type KvWebhook,
   type ServerOptionsOptional as ServerOptions,
   type RuntimeResolver,
 };
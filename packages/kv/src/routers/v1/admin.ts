@@ -1,17 +1,54 @@
-import { createRouter } from "@workertown/internal-server";
+import { createRouter, validate } from "@workertown/internal-server";
+import { z } from "zod";
 
+import { authorize } from "../../access.js";
 import { type Context } from "../../types.js";
 
 const router = createRouter<Context>();
 
-router.get("/info", (ctx) => {
+// The webhooks' headers are likely to hold the credentials for their endpoints
+router.get("/info", async (ctx) => {
   const config = ctx.get("config");
+  const denied = await authorize(
+    ctx.get("storage"),
+    config.policy,
+    ctx.get("user"),
+    [{ action: "admin", operation: "info" }],
+  );
 
-  return ctx.json({ status: 200, success: true, data: config });
+  if (denied) {
+    return ctx.json(denied, denied.status);
+  }
+
+  return ctx.json({
+    status: 200,
+    success: true,
+    data: {
+      ...config,
+      webhooks: config.webhooks?.map(({ headers, ...webhook }) => ({
+        ...webhook,
+        headers: headers
+          ? Object.fromEntries(
+              Object.keys(headers).map((header) => [header, "[REDACTED]"]),
+            )
+          : undefined,
+      })),
+    },
+  });
 });
 
 router.post("/migrate", async (ctx) => {
   const storage = ctx.get("storage");
+  const denied = await authorize(
+    storage,
+    ctx.get("config").policy,
+    ctx.get("user"),
+    [{ action: "admin", operation: "migrate" }],
+  );
+
+  if (denied) {
+    return ctx.json(denied, denied.status);
+  }
 
   try {
     const { results, error } = await storage.runMigrations();
@@ -23,4 +60,69 @@ router.post("/migrate", async (ctx) => {
   }
 });
 
+const NAMESPACE_EXISTS = {
+  status: 409,
+  success: false,
+  data: null,
+  error: "Namespace already exists",
+};
+
+router.get("/namespaces", async (ctx) => {
+  const storage = ctx.get("storage");
+  const denied = await authorize(
+    storage,
+    ctx.get("config").policy,
+    ctx.get("user"),
+    [{ action: "admin", operation: "get_namespaces" }],
+  );
+
+  if (denied) {
+    return ctx.json(denied, denied.status);
+  }
+
+  const namespaces = await storage.getNamespaces();
+
+  return ctx.json({ status: 200, success: true, data: namespaces });
+});
+
+const createNamespaceBodySchema = z.object({
+  name: z
+    .string()
+    .min(1)
+    .max(64)
+    .regex(
+      /^[A-Za-z0-9_-]+$/,
+      "Must only contain letters, numbers, underscores and hyphens",
+    ),
+});
+
+router.post(
+  "/namespaces",
+  validate("json", createNamespaceBodySchema),
+  async (ctx) => {
+    const storage = ctx.get("storage");
+    const { name } = ctx.req.valid("json" as never) as z.infer<
+      typeof createNamespaceBodySchema
+    >;
+    const denied = await authorize(
+      storage,
+      ctx.get("config").policy,
+      ctx.get("user"),
+      [{ action: "admin", operation: "create_namespace", namespace: name }],
+    );
+
+    if (denied) {
+      return ctx.json(denied, denied.status);
+    }
+
+    if (await storage.getNamespace(name)) {
+      return ctx.json(NAMESPACE_EXISTS, 409);
+    }
+
+    const namespace = await storage.createNamespace(name);
+
+    return ctx.json({ status: 200, success: true, data: namespace });
+  },
+);
+
 export { router };
@@ -0,0 +1,167 @@
+import { createRouter, validate } from "@workertown/internal-server";
+import { z } from "zod";
+
+import { authorize } from "../../access.js";
+import {
+  type ChangeFilter,
+  formatChange,
+  matchesChange,
+} from "../../changes.js";
+import { type Change } from "../../storage/index.js";
+import { type Context, type KvAccess } from "../../types.js";
+
+const router = createRouter<Context>();
+
+const CHANGES_NOT_SUPPORTED = {
+  status: 501,
+  success: false,
+  data: null,
+  error: "Changes are not supported by the storage",
+};
+
+// How often (in milliseconds) to send a comment, so that idle connections
+// aren't closed by proxies
+const KEEP_ALIVE_INTERVAL = 30 * 1000;
+
+// How often (in milliseconds) to check the storage for changes made via other
+// server instances, which the notifier doesn't know about
+const POLL_INTERVAL = 5 * 1000;
+
+const CHANGES_PAGE_SIZE = 100;
+
+const sequenceSchema = z
+  .string()
+  .regex(/^\d+$/, "Must be a sequence number")
+  .transform((val) => parseInt(val, 10));
+
+const changesQuerySchema = z
+  .object({
+    key: z.string().min(1).optional(),
+    prefix: z.string().optional(),
+    after: sequenceSchema.optional(),
+  })
+  .refine(
+    ({ key, prefix }) => key === undefined || prefix === undefined,
+    "Only one of key and prefix can be set",
+  );
+
+// Streams the changes to a key (or the keys under a prefix) in the namespace
+// as server-sent events. Each event's `id` is the change's sequence, so that
+// reconnecting with `Last-Event-ID` (or `after`) resumes where it left off.
+// Without either, only the changes from now on are sent
+router.get(
+  "/:namespace",
+  validate("query", changesQuerySchema),
+  async (ctx) => {
+    const storage = ctx.get("storage");
+    const changes = ctx.get("changes");
+    const namespace = ctx.req.param("namespace");
+    const {
+      key,
+      prefix = "",
+      after,
+    } = ctx.req.valid("query" as never) as z.infer<typeof changesQuerySchema>;
+
+    if (!storage.supportsChanges) {
+      return ctx.json(CHANGES_NOT_SUPPORTED, 501);
+    }
+
+    const access: KvAccess =
+      key !== undefined
+        ? { action: "read", namespace, key }
+        : { action: "read", namespace, prefix };
+    const denied = await authorize(
+      storage,
+      ctx.get("config").policy,
+      ctx.get("user"),
+      [access],
+    );
+
+    if (denied) {
+      return ctx.json(denied, denied.status);
+    }
+
+    const lastEventId = sequenceSchema.safeParse(
+      ctx.req.header("Last-Event-ID"),
+    );
+    let sequence =
+      after ??
+      (lastEventId.success
+        ? lastEventId.data
+        : await storage.getLastChangeSequence());
+    const filter: ChangeFilter =
+      key !== undefined
+        ? { key: `${namespace}/${key}` }
+        : { prefix: `${namespace}/${prefix}` };
+    const encoder = new TextEncoder();
+    let closed = false;
+    let unsubscribe: () => void = () => {};
+    let keepAlive: ReturnType<typeof setInterval> | undefined;
+    let poll: ReturnType<typeof setInterval> | undefined;
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        const send = (event: string, data: unknown, id?: number) => {
+          const lines = id !== undefined ? [`id: ${id}`] : [];
+
+          lines.push(`event: ${event}`, `data: ${JSON.stringify(data)}`);
+          controller.enqueue(encoder.encode(`${lines.join("\n")}\n\n`));
+        };
+        // The reads are chained, so that no change is sent twice (or out of
+        // order) when they overlap
+        let reading = Promise.resolve();
+        const read = () => {
+          reading = reading
+            .then(async () => {
+              let page: Change[];
+
+              do {
+                page = await storage.getChanges({
+                  prefix: `${namespace}/`,
+                  after: sequence,
+                  limit: CHANGES_PAGE_SIZE,
+                });
+
+                for (const change of page) {
+                  if (closed) {
+                    return;
+                  }
+
+                  if (matchesChange(change, filter)) {
+                    send("change", formatChange(change), change.sequence);
+                  }
+
+                  sequence = change.sequence;
+                }
+              } while (page.length === CHANGES_PAGE_SIZE);
+            })
+            // The next read tries again from the same sequence
+            .catch(() => {});
+        };
+
+        unsubscribe = changes.subscribe(read);
+        keepAlive = setInterval(
+          () => controller.enqueue(encoder.encode(": keep-alive\n\n")),
+          KEEP_ALIVE_INTERVAL,
+        );
+        poll = setInterval(read, POLL_INTERVAL);
+
+        send("ready", null);
+        read();
+      },
+      cancel() {
+        closed = true;
+        unsubscribe();
+        clearInterval(keepAlive);
+        clearInterval(poll);
+      },
+    });
+
+    return ctx.body(stream, 200, {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+    });
+  },
+);
+
+export { router };
@@ -1,4 +1,5 @@
 import { router as adminRouter } from "./admin.js";
-import { router as kvRouter } from "./kv.js";
+import { router as changesRouter } from "./changes.js";
+import { batchRouter as kvBatchRouter, router as kvRouter } from "./kv.js";
 
-export { adminRouter, kvRouter };
+export { adminRouter, changesRouter, kvBatchRouter, kvRouter };
@@ -1,10 +1,34 @@
 import { createRouter, validate } from "@workertown/internal-server";
 import { z } from "zod";
 
-import { type Context } from "../../types.js";
+import { authorize, getKeyAccess } from "../../access.js";
+import { recordChanges } from "../../changes.js";
+import { type FilesAdapter } from "../../files/files-adapter.js";
+import {
+  type SetValueOptions,
+  type SetValuesEntry,
+  type StorageAdapter,
+  type ValueWithMetadata,
+  type WriteOperation,
+} from "../../storage/storage-adapter.js";
+import { type Context, type KvAccess } from "../../types.js";
+import {
+  FILE_CONTENT_TYPE,
+  type Value,
+  decodeBase64,
+  deleteFiles,
+  encodeBase64,
+  getFilePointer,
+  loadValue,
+  offloadValue,
+  readFile,
+} from "../../values.js";
 
 const router = createRouter<Context>();
 
+// `POST /v1/kv:batch` isn't under `/v1/kv/`, so it is mounted separately
+const batchRouter = createRouter<Context>();
+
 function getKey(req: Request, config: Context["config"]) {
   const { kv: kvPrefix } = config.endpoints.v1;
   const url = new URL(req.url);
@@ -13,47 +37,759 @@ function getKey(req: Request, config: Context["config"]) {
   return key;
 }
 
+function getExecutionContext(ctx: { executionCtx: ExecutionContext }) {
+  try {
+    return ctx.executionCtx;
+  } catch (_) {
+    // Hono throws when there isn't one (e.g. in NodeJS)
+    return undefined;
+  }
+}
+
+const listKvQuerySchema = z.object({
+  prefix: z.string().optional(),
+  limit: z
+    .string()
+    .optional()
+    .default("100")
+    .transform((val) => {
+      const limit = parseInt(val, 10);
+
+      if (Number.isNaN(limit)) {
+        return 100;
+      }
+
+      return Math.min(Math.max(limit, 1), 1000);
+    }),
+  cursor: z.string().optional(),
+  include_values: z
+    .string()
+    .optional()
+    .transform((val) => val === "1" || val === "true"),
+});
+
+// The listing routes are on the namespaces, so they have to be registered
+// before the wildcard routes for the values. The `prefix` is relative to the
+// namespace, but the keys that are returned are not
+router.get("/:namespace", validate("query", listKvQuerySchema), async (ctx) => {
+  const storage = ctx.get("storage");
+  const namespace = ctx.req.param("namespace");
+  const {
+    prefix = "",
+    limit,
+    cursor,
+    include_values: includeValues,
+  } = ctx.req.valid("query" as never) as z.infer<typeof listKvQuerySchema>;
+  const denied = await authorize(
+    storage,
+    ctx.get("config").policy,
+    ctx.get("user"),
+    [{ action: "read", namespace, prefix }],
+  );
+
+  if (denied) {
+    return ctx.json(denied, denied.status);
+  }
+
+  const files = ctx.get("files");
+  const { values, cursor: endCursor } = await storage.listValues({
+    prefix: `${namespace}/${prefix}`,
+    limit,
+    cursor,
+    includeValues,
+  });
+
+  return ctx.json({
+    status: 200,
+    success: true,
+    data: includeValues
+      ? await Promise.all(
+          values.map(async ({ key, value, contentType = null }) => ({
+            key,
+            ...(await loadValue(files, { value, contentType })),
+          })),
+        )
+      : values,
+    pagination: {
+      hasNextPage: endCursor !== null,
+      endCursor,
+    },
+  });
+});
+
+// The prefix is required, so that a namespace can't be emptied by accident,
+// but can be empty to delete everything in it
+const deleteKvQuerySchema = z.object({
+  prefix: z.string(),
+});
+
+router.delete(
+  "/:namespace",
+  validate("query", deleteKvQuerySchema),
+  async (ctx) => {
+    const storage = ctx.get("storage");
+    const namespace = ctx.req.param("namespace");
+    const { prefix } = ctx.req.valid("query" as never) as z.infer<
+      typeof deleteKvQuerySchema
+    >;
+    const denied = await authorize(
+      storage,
+      ctx.get("config").policy,
+      ctx.get("user"),
+      [{ action: "write", namespace, prefix }],
+    );
+
+    if (denied) {
+      return ctx.json(denied, denied.status);
+    }
+
+    const deleted = await storage.deleteValuesByPrefix(
+      `${namespace}/${prefix}`,
+    );
+
+    if (deleted > 0) {
+      await recordChanges(
+        storage,
+        ctx.get("changes"),
+        ctx.get("config").webhooks ?? [],
+        [{ type: "delete_prefix", key: `${namespace}/${prefix}` }],
+        getExecutionContext(ctx),
+      );
+    }
+
+    return ctx.json({ status: 200, success: true, data: { deleted } });
+  },
+);
+
+const PRECONDITION_FAILED = {
+  status: 412,
+  success: false,
+  data: null,
+  error: "Value has been changed",
+};
+
+const NOT_A_NUMBER = {
+  status: 409,
+  success: false,
+  data: null,
+  error: "Value is not a number",
+};
+
+const INCREMENT_SUFFIX = ":increment";
+
+const VALUE_TOO_LARGE = {
+  status: 413,
+  success: false,
+  data: null,
+  error: "Value is too large for the storage",
+};
+
+const UNSUPPORTED_CONTENT_TYPE = {
+  status: 415,
+  success: false,
+  data: null,
+  error: "Content type is reserved",
+};
+
+const CONTENT_TYPE_TOO_LONG = {
+  status: 400,
+  success: false,
+  data: null,
+  error: "Content type is too long",
+};
+
+const TRANSACTIONS_NOT_SUPPORTED = {
+  status: 501,
+  success: false,
+  data: null,
+  error: "Atomic batches are not supported by the storage",
+};
+
+// DynamoDB can't write more than 100 items in a transaction
+const MAX_BATCH_OPERATIONS = 100;
+
+// The remaining time to live in seconds, or `null` if the value never expires
+function getTtl(expiresAt: Date | null) {
+  return expiresAt === null
+    ? null
+    : Math.max(Math.ceil((expiresAt.getTime() - Date.now()) / 1000), 0);
+}
+
+function getEtag(version: number) {
+  return `"${version}"`;
+}
+
+// Parses the version out of an `If-Match` header. Anything that isn't one of
+// our ETags can never match, so it becomes `-1`
+function getIfMatchVersion(header?: string) {
+  if (header === undefined) {
+    return undefined;
+  }
+
+  if (header.trim() === "*") {
+    return "*";
+  }
+
+  const version = parseInt(
+    header.trim().replace(/^W\//, "").replace(/"/g, ""),
+    10,
+  );
+
+  return Number.isNaN(version) ? -1 : version;
+}
+
+function getMetadataResponse<T>(result: ValueWithMetadata<T>) {
+  return {
+    body: {
+      status: 200,
+      success: true,
+      data: result.value,
+      ttl: getTtl(result.expiresAt),
+      version: result.version,
+    },
+    headers: { ETag: getEtag(result.version) },
+  };
+}
+
+// Values that were set with a content type other than JSON are returned as
+// they were set, rather than in the usual envelope
 router.get("/*", async (ctx) => {
   const config = ctx.get("config");
   const storage = ctx.get("storage");
+  const files = ctx.get("files");
   const key = getKey(ctx.req as unknown as Request, config);
-  const value = await storage.getValue(key);
-  const status = value === null ? 404 : 200;
+  const access = getKeyAccess(key, "read");
+
+  if (!access) {
+    return ctx.notFound();
+  }
+
+  const denied = await authorize(storage, config.policy, ctx.get("user"), [
+    access,
+  ]);
+
+  if (denied) {
+    return ctx.json(denied, denied.status);
+  }
 
-  return ctx.json({ status, success: true, data: value }, status);
+  const result = await storage.getValueWithMetadata(key);
+
+  if (!result) {
+    return ctx.json({ status: 404, success: true, data: null }, 404);
+  }
+
+  const { headers } = getMetadataResponse(result);
+
+  if (ctx.req.header("If-None-Match") === headers.ETag) {
+    return ctx.body(null, 304, headers);
+  }
+
+  const pointer = getFilePointer(result);
+  const contentType = pointer ? pointer.contentType : result.contentType;
+
+  if (contentType !== null) {
+    return ctx.body(
+      pointer
+        ? await readFile(files, pointer)
+        : decodeBase64(result.value as string),
+      200,
+      {
+        ...headers,
+        "Content-Type": contentType,
+        ...(result.expiresAt
+          ? { Expires: result.expiresAt.toUTCString() }
+          : {}),
+      },
+    );
+  }
+
+  const { body } = getMetadataResponse({
+    ...result,
+    ...(await loadValue(files, result)),
+  });
+
+  return ctx.json(body, 200, headers);
 });
 
-const createKvBodySchema = z.object({
-  value: z.union([
-    z.string(),
-    z.number(),
-    z.boolean(),
-    z.record(z.string(), z.unknown()),
-    z.array(z.unknown()),
-  ]),
+const valueSchema = z.union([
+  z.string(),
+  z.number(),
+  z.boolean(),
+  z.record(z.string(), z.unknown()),
+  z.array(z.unknown()),
+]);
+
+const expirySchema = z.object({
+  // In seconds
+  ttl: z.number().int().positive().optional(),
+  // An ISO 8601 date string or a timestamp in milliseconds
+  expiresAt: z
+    .union([z.string(), z.number()])
+    .transform((val) => (typeof val === "number" ? val : Date.parse(val)))
+    .refine(
+      (val) => !Number.isNaN(val) && val > Date.now(),
+      "Must be a date in the future",
+    )
+    .optional(),
 });
 
+function hasSingleExpiry({ ttl, expiresAt }: z.infer<typeof expirySchema>) {
+  return ttl === undefined || expiresAt === undefined;
+}
+
+function getExpiryDate({ ttl, expiresAt }: z.infer<typeof expirySchema>) {
+  return ttl !== undefined
+    ? new Date(Date.now() + ttl * 1000)
+    : expiresAt !== undefined
+    ? new Date(expiresAt)
+    : null;
+}
+
+const createKvBodySchema = expirySchema
+  .extend({ value: valueSchema })
+  .refine(hasSingleExpiry, "Only one of ttl and expiresAt can be set");
+
+// Values that aren't JSON take their expiry from the query instead
+const createRawKvQuerySchema = z
+  .object({
+    ttl: z
+      .string()
+      .regex(/^\d+$/, "Must be a positive integer")
+      .transform((val) => parseInt(val, 10))
+      .optional(),
+    expires_at: z
+      .string()
+      .transform((val) => (/^\d+$/.test(val) ? parseInt(val, 10) : val))
+      .optional(),
+  })
+  .transform(({ ttl, expires_at: expiresAt }) => ({ ttl, expiresAt }))
+  .pipe(expirySchema)
+  .refine(hasSingleExpiry, "Only one of ttl and expires_at can be set");
+
+// The content type is kept in the metadata of the value, which is limited
+// (e.g. to 1024 bytes by KV), so it can't be any longer than this
+const contentTypeSchema = z.string().max(255);
+
+// The content type without any parameters (e.g. `charset`)
+function getMediaType(contentType: string) {
+  return contentType.split(";")[0]?.trim().toLowerCase();
+}
+
+// Offloads the value if it's too large for the storage, and deletes the file
+// that the value it replaces was offloaded to (if it was)
+async function setValue(
+  storage: StorageAdapter,
+  files: FilesAdapter | null,
+  key: string,
+  value: Value,
+  options: Omit<SetValueOptions, "contentType">,
+) {
+  const stored = await offloadValue(files, storage.maxValueSize, value);
+
+  if (!stored) {
+    return VALUE_TOO_LARGE;
+  }
+
+  // Only read when there are files, as otherwise there's nothing to delete
+  const previous = files ? await storage.getValueWithMetadata(key) : null;
+  const result = await storage.setValueWithMetadata(key, stored.value, {
+    ...options,
+    contentType: stored.contentType,
+  });
+
+  await deleteFiles(files, [result ? previous : stored]);
+
+  return result ?? PRECONDITION_FAILED;
+}
+
+// Anything other than JSON is stored as the raw bytes of the body, along with
+// its content type
+router.put(
+  "/*",
+  validate("query", createRawKvQuerySchema),
+  async (ctx, next) => {
+    const config = ctx.get("config");
+    const contentType = ctx.req.header("Content-Type");
+
+    if (
+      contentType === undefined ||
+      getMediaType(contentType) === "application/json"
+    ) {
+      return next();
+    }
+
+    if (getMediaType(contentType) === FILE_CONTENT_TYPE) {
+      return ctx.json(UNSUPPORTED_CONTENT_TYPE, 415);
+    }
+
+    if (!contentTypeSchema.safeParse(contentType).success) {
+      return ctx.json(CONTENT_TYPE_TOO_LONG, 400);
+    }
+
+    const key = getKey(ctx.req as unknown as Request, config);
+    const access = getKeyAccess(key, "write");
+
+    if (!access) {
+      return ctx.notFound();
+    }
+
+    const denied = await authorize(
+      ctx.get("storage"),
+      config.policy,
+      ctx.get("user"),
+      [access],
+    );
+
+    if (denied) {
+      return ctx.json(denied, denied.status);
+    }
+
+    const expiry = ctx.req.valid("query" as never) as z.infer<
+      typeof createRawKvQuerySchema
+    >;
+    const bytes = new Uint8Array(await ctx.req.arrayBuffer());
+    const result = await setValue(
+      ctx.get("storage"),
+      ctx.get("files"),
+      key,
+      { value: encodeBase64(bytes), contentType },
+      {
+        expiresAt: getExpiryDate(expiry),
+        version: getIfMatchVersion(ctx.req.header("If-Match")),
+      },
+    );
+
+    if ("error" in result) {
+      return ctx.json(result, result.status);
+    }
+
+    await recordChanges(
+      ctx.get("storage"),
+      ctx.get("changes"),
+      config.webhooks ?? [],
+      [{ type: "set", key }],
+      getExecutionContext(ctx),
+    );
+
+    const { body, headers } = getMetadataResponse(result);
+
+    return ctx.json(
+      { ...body, data: { contentType, size: bytes.byteLength } },
+      200,
+      headers,
+    );
+  },
+);
+
+// With an `If-Match` header, the value is only set if its ETag (or, for `*`,
+// the value at all) still matches
 router.put("/*", validate("json", createKvBodySchema), async (ctx) => {
   const config = ctx.get("config");
-  const storage = ctx.get("storage");
-  const { value } = ctx.req.valid("json" as never) as z.infer<
+  const { value, ...expiry } = ctx.req.valid("json" as never) as z.infer<
     typeof createKvBodySchema
   >;
   const key = getKey(ctx.req as unknown as Request, config);
+  const access = getKeyAccess(key, "write");
+
+  if (!access) {
+    return ctx.notFound();
+  }
+
+  const denied = await authorize(
+    ctx.get("storage"),
+    config.policy,
+    ctx.get("user"),
+    [access],
+  );
+
+  if (denied) {
+    return ctx.json(denied, denied.status);
+  }
+
+  const result = await setValue(
+    ctx.get("storage"),
+    ctx.get("files"),
+    key,
+    { value, contentType: null },
+    {
+      expiresAt: getExpiryDate(expiry),
+      version: getIfMatchVersion(ctx.req.header("If-Match")),
+    },
+  );
+
+  if ("error" in result) {
+    return ctx.json(result, result.status);
+  }
+
+  await recordChanges(
+    ctx.get("storage"),
+    ctx.get("changes"),
+    config.webhooks ?? [],
+    [{ type: "set", key }],
+    getExecutionContext(ctx),
+  );
+
+  const { body, headers } = getMetadataResponse({ ...result, value });
+
+  return ctx.json(body, 200, headers);
+});
+
+const incrementKvBodySchema = z.object({
+  by: z.number().finite().optional().default(1),
+});
+
+// Only `POST /v1/kv/:key:increment` is supported, which atomically adds `by`
+// to a numeric value
+router.post("/*", validate("json", incrementKvBodySchema), async (ctx) => {
+  const config = ctx.get("config");
+  const storage = ctx.get("storage");
+  const { by } = ctx.req.valid("json" as never) as z.infer<
+    typeof incrementKvBodySchema
+  >;
+  const path = getKey(ctx.req as unknown as Request, config);
+  const key = path.slice(0, -INCREMENT_SUFFIX.length);
+  const access = getKeyAccess(key, "write");
+
+  if (!path.endsWith(INCREMENT_SUFFIX) || !access) {
+    return ctx.notFound();
+  }
+
+  const denied = await authorize(storage, config.policy, ctx.get("user"), [
+    access,
+  ]);
+
+  if (denied) {
+    return ctx.json(denied, denied.status);
+  }
+
+  const result = await storage.incrementValue(key, by);
+
+  if (!result) {
+    return ctx.json(NOT_A_NUMBER, 409);
+  }
 
-  await storage.setValue(key, value);
+  await recordChanges(
+    storage,
+    ctx.get("changes"),
+    config.webhooks ?? [],
+    [{ type: "set", key }],
+    getExecutionContext(ctx),
+  );
 
-  return ctx.json({ status: 200, success: true, data: value });
+  const { body, headers } = getMetadataResponse(result);
+
+  return ctx.json(body, 200, headers);
 });
 
 router.delete("/*", async (ctx) => {
   const config = ctx.get("config");
   const storage = ctx.get("storage");
+  const files = ctx.get("files");
   const key = getKey(ctx.req as unknown as Request, config);
+  const access = getKeyAccess(key, "write");
+
+  if (!access) {
+    return ctx.notFound();
+  }
+
+  const denied = await authorize(storage, config.policy, ctx.get("user"), [
+    access,
+  ]);
+
+  if (denied) {
+    return ctx.json(denied, denied.status);
+  }
+
+  const previous = files ? await storage.getValueWithMetadata(key) : null;
 
   await storage.deleteValue(key);
+  await deleteFiles(files, [previous]);
+  await recordChanges(
+    storage,
+    ctx.get("changes"),
+    config.webhooks ?? [],
+    [{ type: "delete", key }],
+    getExecutionContext(ctx),
+  );
 
   return ctx.json({ status: 200, success: true, data: true });
 });
 
-export { router };
+// Keys in batches aren't in the path, so they have to start with the namespace
+// explicitly
+const batchKeySchema = z
+  .string()
+  .regex(/^[^/]+\/.+/, "Must start with a namespace");
+
+const batchKvBodySchema = z.object({
+  operations: z
+    .array(
+      z.union([
+        z.object({ type: z.literal("get"), key: batchKeySchema }),
+        expirySchema
+          .extend({
+            type: z.literal("set"),
+            key: batchKeySchema,
+            value: valueSchema,
+          })
+          .refine(hasSingleExpiry, "Only one of ttl and expiresAt can be set"),
+        z.object({ type: z.literal("delete"), key: batchKeySchema }),
+      ]),
+    )
+    .min(1)
+    .max(MAX_BATCH_OPERATIONS),
+  atomic: z.boolean().optional().default(false),
+});
+
+// Applies the writes in order, with each run of sets (or deletes) written in
+// one go
+async function applyWrites(storage: StorageAdapter, writes: WriteOperation[]) {
+  for (let start = 0; start < writes.length; ) {
+    const type = writes[start]?.type;
+    let end = start;
+
+    while (writes[end]?.type === type) {
+      end++;
+    }
+
+    const run = writes.slice(start, end);
+
+    if (type === "set") {
+      await storage.setValues(run as SetValuesEntry[]);
+    } else {
+      await storage.deleteValues(run.map(({ key }) => key));
+    }
+
+    start = end;
+  }
+}
+
+// The gets are all read before any of the writes are applied, so they return
+// the values from before the batch. With `atomic`, either all of the writes
+// are applied or none of them are. Values that aren't JSON are returned base64
+// encoded, alongside their content type
+batchRouter.post("/", validate("json", batchKvBodySchema), async (ctx) => {
+  const storage = ctx.get("storage");
+  const files = ctx.get("files");
+  const { operations, atomic } = ctx.req.valid("json" as never) as z.infer<
+    typeof batchKvBodySchema
+  >;
+
+  if (atomic && !storage.supportsTransactions) {
+    return ctx.json(TRANSACTIONS_NOT_SUPPORTED, 501);
+  }
+
+  const denied = await authorize(
+    storage,
+    ctx.get("config").policy,
+    ctx.get("user"),
+    operations.map(
+      ({ type, key }) =>
+        getKeyAccess(key, type === "get" ? "read" : "write") as KvAccess,
+    ),
+  );
+
+  if (denied) {
+    return ctx.json(denied, denied.status);
+  }
+
+  const values = await Promise.all(
+    (
+      await storage.getValues(
+        operations.filter(({ type }) => type === "get").map(({ key }) => key),
+      )
+    ).map(async (result) =>
+      result ? { ...result, ...(await loadValue(files, result)) } : null,
+    ),
+  );
+  const writes: WriteOperation[] = [];
+
+  for (const operation of operations) {
+    if (operation.type === "set") {
+      // Nothing has been offloaded if this fails, as there are no files
+      const stored = await offloadValue(files, storage.maxValueSize, {
+        value: operation.value,
+        contentType: null,
+      });
+
+      if (!stored) {
+        return ctx.json(VALUE_TOO_LARGE, 413);
+      }
+
+      writes.push({
+        type: "set",
+        key: operation.key,
+        ...stored,
+        expiresAt: getExpiryDate(operation),
+      });
+    } else if (operation.type === "delete") {
+      writes.push({ type: "delete", key: operation.key });
+    }
+  }
+
+  // The values that the writes replace, so that the files they were offloaded
+  // to can be deleted afterwards
+  const previous = files
+    ? await storage.getValues(Array.from(new Set(writes.map(({ key }) => key))))
+    : [];
+
+  if (atomic) {
+    await storage.writeValues(writes);
+  } else {
+    await applyWrites(storage, writes);
+  }
+
+  await recordChanges(
+    storage,
+    ctx.get("changes"),
+    ctx.get("config").webhooks ?? [],
+    writes.map(({ type, key }) => ({ type, key })),
+    getExecutionContext(ctx),
+  );
+
+  // Earlier sets to a key in the batch are replaced by the later writes too
+  const lastWrites = new Map(writes.map((write) => [write.key, write]));
+
+  await deleteFiles(files, [
+    ...previous,
+    ...writes.flatMap((write) =>
+      write.type === "set" && lastWrites.get(write.key) !== write
+        ? [{ value: write.value, contentType: write.contentType ?? null }]
+        : [],
+    ),
+  ]);
+
+  let getIndex = 0;
+
+  return ctx.json({
+    status: 200,
+    success: true,
+    data: operations.map((operation) => {
+      switch (operation.type) {
+        case "get": {
+          const result = values[getIndex++] ?? null;
+
+          return {
+            type: operation.type,
+            key: operation.key,
+            value: result?.value ?? null,
+            ttl: result ? getTtl(result.expiresAt) : null,
+            version: result?.version ?? null,
+            contentType: result?.contentType ?? null,
+          };
+        }
+        case "set":
+          return {
+            type: operation.type,
+            key: operation.key,
+            value: operation.value,
+            ttl: getTtl(getExpiryDate(operation)),
+          };
+        default:
+          return { type: operation.type, key: operation.key };
+      }
+    }),
+  });
+});
+
+export { batchRouter, router };
@@ -1,5 +1,6 @@
-import { type KVNamespace } from "@cloudflare/workers-types";
+import { type KVNamespace, type R2Bucket } from "@cloudflare/workers-types";
 
+import { R2FilesAdapter } from "../files/r2.js";
 import { KVStorageAdapter } from "../storage/kv.js";
 import { type Runtime, type ServerOptions } from "../types.js";
 
@@ -8,8 +9,11 @@ export function runtime(
   env: Record<string, unknown>,
 ): Runtime {
   const kv = env[config.env.db] as KVNamespace;
+  // The R2 bucket is optional, and is only needed for values over 25MiB
+  const r2 = env[config.env.files] as R2Bucket | undefined;
 
   return {
+    files: r2 ? new R2FilesAdapter({ r2 }) : undefined,
     storage: new KVStorageAdapter({ kv }),
   };
 }
@@ -1,3 +1,4 @@
+import { S3FilesAdapter } from "../files/s3.js";
 import { UpstashRedisStorageAdapter } from "../storage/upstash-redis.js";
 import { type Runtime, type ServerOptions } from "../types.js";
 
@@ -5,6 +6,27 @@ function generateUrl(url: URL) {
   return `${url.protocol}//${url.host}/${url.pathname}${url.search}`;
 }
 
+// The S3 bucket is optional, and is only needed for values that are too large
+// for the storage
+function getS3FilesAdapter(s3UrlString?: string) {
+  if (!s3UrlString) {
+    return undefined;
+  }
+
+  const s3Url = new URL(s3UrlString);
+  const [region, bucket] = s3Url.pathname.split("/").slice(1);
+
+  return new S3FilesAdapter({
+    credentials: {
+      accessKeyId: s3Url.username,
+      secretAccessKey: s3Url.password,
+    },
+    region: region as string,
+    endpoint: `${s3Url.protocol}//${s3Url.host}`,
+    bucket: bucket as string,
+  });
+}
+
 export function runtime(
   config: ServerOptions,
   env: Record<string, unknown>,
@@ -13,6 +35,7 @@ export function runtime(
   const upstashRedisUrl = new URL(upstashRedisUrlString);
 
   return {
+    files: getS3FilesAdapter(env[config.env.files] as string | undefined),
     storage: new UpstashRedisStorageAdapter({
       url: generateUrl(upstashRedisUrl),
       token: upstashRedisUrl.username,
@@ -1,15 +1,34 @@
+import { CHANGES_RETENTION } from "../changes.js";
 import { SqliteStorageAdapter } from "../storage/sqlite.js";
 import { type Runtime, type ServerOptions } from "../types.js";
 
+// How often (in milliseconds) to sweep the expired values (and changes)
+const SWEEP_INTERVAL = 60 * 1000;
+
 export function runtime(
   config: ServerOptions,
   env: Record<string, unknown>,
 ): Runtime {
   const db = env[config.env.db] as string;
+  const storage = new SqliteStorageAdapter(
+    db.endsWith(".sqlite") ? { db } : undefined,
+  );
+
+  // There are no cron triggers outside of Cloudflare, so the expired values
+  // (and the old changes) are swept on a timer instead. Any errors (e.g. the
+  // migrations not having been run yet) are ignored, as it's tried again on
+  // the next tick. The timer is `unref()`'d, so that it doesn't keep the
+  // process alive on its own
+  const sweep = setInterval(() => {
+    storage.deleteExpiredValues().catch(() => {});
+    storage
+      .deleteChangesBefore(new Date(Date.now() - CHANGES_RETENTION))
+      .catch(() => {});
+  }, SWEEP_INTERVAL);
+
+  sweep.unref();
 
   return {
-    storage: new SqliteStorageAdapter(
-      db.endsWith(".sqlite") ? { db } : undefined,
-    ),
+    storage,
   };
 }
@@ -1,9 +1,12 @@
+import { MemoryFilesAdapter } from "../files/memory.js";
 import { MemoryStorageAdapter } from "../storage/memory.js";
 
 import { type Runtime, type ServerOptions } from "../types.js";
 
 interface TestGetRuntimeOptions {
   initialValues: Record<string, unknown>;
+  initialNamespaces?: string[];
+  maxValueSize?: number;
 }
 
 export function runtime(
@@ -16,8 +19,11 @@ export function runtime(
   },
 ): Runtime {
   return {
+    files: new MemoryFilesAdapter(),
     storage: new MemoryStorageAdapter({
       initialValues: options.initialValues,
+      initialNamespaces: options.initialNamespaces,
+      maxValueSize: options.maxValueSize,
     }),
   };
 }
@@ -2,6 +2,8 @@ import { type Server, createServer } from "@workertown/internal-server";
 import { type DeepPartial } from "@workertown/internal-types";
 import merge from "lodash.merge";
 
+import { CHANGES_RETENTION, ChangeNotifier } from "./changes.js";
+import { type FilesAdapter } from "./files/files-adapter.js";
 import { publicRouter, v1 } from "./routers/index.js";
 import { runtime as cloudflareWorkersRuntime } from "./runtime/cloudflare-workers.js";
 import { type StorageAdapter } from "./storage/storage-adapter.js";
@@ -34,12 +36,14 @@ const DEFAULT_OPTIONS: ServerOptions = {
   endpoints: {
     v1: {
       admin: "/v1/admin",
+      changes: "/v1/changes",
       kv: "/v1/kv",
     },
     public: "/",
   },
   env: {
     db: "KV_DB",
+    files: "KV_FILES",
   },
 };
 
@@ -54,18 +58,26 @@ export function createKvServer(
   } = config;
 
   const server = createServer<Context>(baseConfig);
+  const changes = new ChangeNotifier();
   let storage: StorageAdapter;
+  let files: FilesAdapter | undefined;
 
-  server.use("*", async (ctx, next) => {
+  function initRuntime(env: Record<string, unknown>) {
     if (!storage) {
-      ({ storage } =
+      ({ files, storage } =
         typeof runtime === "function"
-          ? runtime(config, ctx.env)
-          : runtime ?? cloudflareWorkersRuntime(config, ctx.env));
+          ? runtime(config, env)
+          : runtime ?? cloudflareWorkersRuntime(config, env));
     }
+  }
+
+  server.use("*", async (ctx, next) => {
+    initRuntime(ctx.env);
 
+    ctx.set("changes", changes);
     ctx.set("config", config);
     ctx.set("storage", storage);
+    ctx.set("files", files ?? null);
 
     return next();
   });
@@ -74,7 +86,12 @@ export function createKvServer(
     server.route(endpoints.v1.admin, v1.adminRouter);
   }
 
+  if (endpoints.v1.changes !== false) {
+    server.route(endpoints.v1.changes, v1.changesRouter);
+  }
+
   if (endpoints.v1.kv !== false) {
+    server.route(`${endpoints.v1.kv}:batch`, v1.kvBatchRouter);
     server.route(endpoints.v1.kv, v1.kvRouter);
   }
 
@@ -82,5 +99,21 @@ export function createKvServer(
     server.route(endpoints.public, publicRouter);
   }
 
+  // Sweeps the expired values (and the changes that are too old to resume
+  // from) when run by a cron trigger
+  server.scheduled = async (_controller, env, ctx) => {
+    initRuntime(env);
+
+    ctx.waitUntil(storage.deleteExpiredValues());
+
+    if (storage.supportsChanges) {
+      ctx.waitUntil(
+        storage.deleteChangesBefore(new Date(Date.now() - CHANGES_RETENTION)),
+      );
+    }
+  };
+
+  server.scheduled = server.scheduled.bind(server);
+
   return server;
 }
@@ -1,16 +1,51 @@
-import { type ColumnType, type Migrations } from "@workertown/internal-storage";
+import { type D1Database } from "@cloudflare/workers-types";
+import {
+  type ColumnType,
+  type CompiledQuery,
+  type Generated,
+  type Migrations,
+  sql,
+} from "@workertown/internal-storage";
 import { D1StorageAdapter as BaseD1StorageAdapter } from "@workertown/internal-storage/d1";
 
-import { type StorageAdapter } from "./storage-adapter.js";
+import {
+  type ChangeEntry,
+  type ChangeType,
+  type GetChangesOptions,
+  type ListValuesOptions,
+  type Namespace,
+  type SetValueOptions,
+  type SetValuesEntry,
+  type StorageAdapter,
+  type ValueWithMetadata,
+  type WriteOperation,
+} from "./storage-adapter.js";
 
 interface KeyValueTable {
   name: string;
   value: string;
+  expires_at: number | null;
+  version: ColumnType<number, number | undefined, number>;
+  content_type: string | null;
   updated_at: ColumnType<number, number, number>;
 }
 
+interface NamespaceTable {
+  name: string;
+  created_at: ColumnType<number, number, number>;
+}
+
+interface ChangeTable {
+  sequence: Generated<number>;
+  type: ChangeType;
+  key: string;
+  created_at: ColumnType<number, number, number>;
+}
+
 export interface DatabaseSchema {
   wt_kv_key_values: KeyValueTable;
+  wt_kv_namespaces: NamespaceTable;
+  wt_kv_changes: ChangeTable;
 }
 
 const MIGRATIONS: Migrations = [
@@ -44,8 +79,192 @@ const MIGRATIONS: Migrations = [
       },
     },
   },
+  {
+    name: "1792351728412_add_expires_at_column",
+    migration: {
+      async up(db) {
+        await db.schema
+          .alterTable("wt_kv_key_values")
+          .addColumn("expires_at", "integer")
+          .execute();
+
+        await db.schema
+          .createIndex("wt_kv_key_values_expires_at_idx")
+          .ifNotExists()
+          .on("wt_kv_key_values")
+          .columns(["expires_at"])
+          .execute();
+      },
+      async down(db) {
+        await db.schema
+          .dropIndex("wt_kv_key_values_expires_at_idx")
+          .ifExists()
+          .execute();
+
+        await db.schema
+          .alterTable("wt_kv_key_values")
+          .dropColumn("expires_at")
+          .execute();
+      },
+    },
+  },
+  {
+    name: "1792352136087_add_version_column",
+    migration: {
+      async up(db) {
+        await db.schema
+          .alterTable("wt_kv_key_values")
+          .addColumn("version", "integer", (col) => col.notNull().defaultTo(0))
+          .execute();
+      },
+      async down(db) {
+        await db.schema
+          .alterTable("wt_kv_key_values")
+          .dropColumn("version")
+          .execute();
+      },
+    },
+  },
+  {
+    name: "1792353306529_add_content_type_column",
+    migration: {
+      async up(db) {
+        await db.schema
+          .alterTable("wt_kv_key_values")
+          .addColumn("content_type", "text")
+          .execute();
+      },
+      async down(db) {
+        await db.schema
+          .alterTable("wt_kv_key_values")
+          .dropColumn("content_type")
+          .execute();
+      },
+    },
+  },
+  {
+    name: "1792353732264_add_namespaces_table",
+    migration: {
+      async up(db) {
+        await db.schema
+          .createTable("wt_kv_namespaces")
+          .ifNotExists()
+          .addColumn("name", "text", (col) => col.notNull())
+          .addColumn("created_at", "integer", (col) => col.notNull())
+          .execute();
+
+        await db.schema
+          .createIndex("wt_kv_namespaces_name_idx")
+          .unique()
+          .ifNotExists()
+          .on("wt_kv_namespaces")
+          .columns(["name"])
+          .execute();
+      },
+      async down(db) {
+        await db.schema
+          .dropIndex("wt_kv_namespaces_name_idx")
+          .ifExists()
+          .execute();
+
+        await db.schema.dropTable("wt_kv_namespaces").ifExists().execute();
+      },
+    },
+  },
+  {
+    name: "1792353790318_add_namespaces_for_existing_keys",
+    migration: {
+      // The keys from before there were namespaces are moved into them. Each
+      // key's first segment becomes its namespace, and the keys without one
+      // are moved into the `default` namespace. The keys that can't be moved
+      // (or wouldn't be reachable once moved) fail the migration before any
+      // are moved, so that they can be renamed or deleted first
+      async up(db) {
+        const { rows } = await sql<{ name: string }>`
+          SELECT name
+          FROM wt_kv_key_values
+          WHERE instr(name, '/') = 1
+            OR instr(name, '/') = length(name)
+            OR (
+              instr(name, '/') = 0
+              AND 'default/' || name IN (SELECT name FROM wt_kv_key_values)
+            )
+          ORDER BY name
+          LIMIT 10
+        `.execute(db);
+
+        if (rows.length > 0) {
+          const keys = rows.map(({ name }) => `'${name}'`).join(", ");
+
+          throw new Error(
+            `Can't move the keys ${keys} into namespaces (they have nothing before or after their first '/', or 'default/<key>' already exists)`,
+          );
+        }
+
+        await sql`
+          UPDATE wt_kv_key_values
+          SET name = 'default/' || name
+          WHERE instr(name, '/') = 0
+        `.execute(db);
+
+        await sql`
+          INSERT OR IGNORE INTO wt_kv_namespaces (name, created_at)
+          SELECT DISTINCT substr(name, 1, instr(name, '/') - 1), ${Date.now()}
+          FROM wt_kv_key_values
+          WHERE instr(name, '/') > 1
+        `.execute(db);
+      },
+      // The moved keys can't be told apart from the ones that have been set in
+      // the namespaces since, so they're left where they are
+      async down() {},
+    },
+  },
+  {
+    name: "1792354721946_add_changes_table",
+    migration: {
+      async up(db) {
+        await db.schema
+          .createTable("wt_kv_changes")
+          .ifNotExists()
+          .addColumn("sequence", "integer", (col) =>
+            col.primaryKey().autoIncrement(),
+          )
+          .addColumn("type", "text", (col) => col.notNull())
+          .addColumn("key", "text", (col) => col.notNull())
+          .addColumn("created_at", "integer", (col) => col.notNull())
+          .execute();
+
+        await db.schema
+          .createIndex("wt_kv_changes_created_at_idx")
+          .ifNotExists()
+          .on("wt_kv_changes")
+          .columns(["created_at"])
+          .execute();
+      },
+      async down(db) {
+        await db.schema
+          .dropIndex("wt_kv_changes_created_at_idx")
+          .ifExists()
+          .execute();
+
+        await db.schema.dropTable("wt_kv_changes").ifExists().execute();
+      },
+    },
+  },
 ];
 
+// How many times to try writing a value that keeps being changed in between
+// reading and writing it
+const MAX_WRITE_ATTEMPTS = 5;
+
+// The first string that sorts after every string that starts with the prefix,
+// so that prefix scans can use the index (`LIKE` is case insensitive in SQLite)
+function getPrefixUpperBound(prefix: string) {
+  return `${prefix.slice(0, -1)}${String.fromCharCode(
+    prefix.charCodeAt(prefix.length - 1) + 1,
+  )}`;
+}
+
 export class D1StorageAdapter
   extends BaseD1StorageAdapter<DatabaseSchema>
   implements StorageAdapter
@@ -54,48 +273,158 @@ export class D1StorageAdapter
 
   public readonly migrationsPrefix = "wt_kv";
 
+  public readonly supportsTransactions = true;
+
+  private readonly _d1: D1Database;
+
+  constructor(options: ConstructorParameters<typeof BaseD1StorageAdapter>[0]) {
+    super(options);
+
+    this._d1 = options.d1;
+  }
+
+  // D1 limits each row to 1MB, which has to fit the key and the rest of the
+  // row too
+  public readonly maxValueSize = 1000 * 1000 - 64 * 1024;
+
+  public readonly supportsChanges = true;
+
   public async getValue<T = unknown>(key: string) {
+    const result = await this.getValueWithMetadata<T>(key);
+
+    return result?.value ?? null;
+  }
+
+  public async getValueWithMetadata<T = unknown>(
+    key: string,
+  ): Promise<ValueWithMetadata<T> | null> {
     const record = await this.client
       .selectFrom("wt_kv_key_values")
       .where("name", "=", key)
-      .select("value")
+      .select(["value", "expires_at", "version", "content_type"])
       .executeTakeFirst();
 
     if (!record) {
       return null;
     }
 
-    return JSON.parse(record.value) as T;
+    // Expired values are deleted as they are read, as well as by
+    // `deleteExpiredValues()`
+    if (record.expires_at !== null && record.expires_at <= Date.now()) {
+      await this.deleteValue(key);
+
+      return null;
+    }
+
+    return {
+      value: JSON.parse(record.value) as T,
+      expiresAt:
+        record.expires_at === null ? null : new Date(record.expires_at),
+      version: record.version,
+      contentType: record.content_type,
+    };
   }
 
-  public async setValue<T = unknown>(key: string, value: T) {
-    const existing = await this.client
-      .selectFrom("wt_kv_key_values")
-      .where("name", "=", key)
-      .select("value")
-      .executeTakeFirst();
+  public async setValue<T = unknown>(
+    key: string,
+    value: T,
+    options: SetValueOptions = {},
+  ) {
+    await this.setValueWithMetadata(key, value, options);
+
+    return value;
+  }
 
-    if (existing) {
-      await this.client
-        .updateTable("wt_kv_key_values")
-        .set({
-          value: JSON.stringify(value),
-          updated_at: Date.now(),
-        })
+  // Writes the value worked out from the current one, or nothing if `update`
+  // returns `null`. D1 doesn't support transactions, so the version is used as
+  // an optimistic lock instead: the write only goes through if the version
+  // hasn't changed since the value was read, and is tried again if it has
+  private async _updateValue<T>(
+    key: string,
+    update: (current: ValueWithMetadata | null) => {
+      value: T;
+      expiresAt: Date | null;
+      contentType: string | null;
+    } | null,
+  ): Promise<ValueWithMetadata<T> | null> {
+    for (let attempt = 0; attempt < MAX_WRITE_ATTEMPTS; attempt++) {
+      const record = await this.client
+        .selectFrom("wt_kv_key_values")
         .where("name", "=", key)
-        .execute();
-    } else {
-      await this.client
-        .insertInto("wt_kv_key_values")
-        .values({
-          name: key,
-          value: JSON.stringify(value),
-          updated_at: Date.now(),
-        })
-        .execute();
+        .select(["value", "expires_at", "version", "content_type"])
+        .executeTakeFirst();
+      const next = update(
+        record && (record.expires_at === null || record.expires_at > Date.now())
+          ? {
+              value: JSON.parse(record.value),
+              expiresAt:
+                record.expires_at === null ? null : new Date(record.expires_at),
+              version: record.version,
+              contentType: record.content_type,
+            }
+          : null,
+      );
+
+      if (!next) {
+        return null;
+      }
+
+      const version = (record?.version ?? 0) + 1;
+      const values = {
+        value: JSON.stringify(next.value),
+        expires_at: next.expiresAt?.getTime() ?? null,
+        version,
+        content_type: next.contentType,
+        updated_at: Date.now(),
+      };
+      const written = record
+        ? (
+            await this.client
+              .updateTable("wt_kv_key_values")
+              .set(values)
+              .where("name", "=", key)
+              .where("version", "=", record.version)
+              .executeTakeFirst()
+          ).numUpdatedRows
+        : (
+            await this.client
+              .insertInto("wt_kv_key_values")
+              .values({ name: key, ...values })
+              .onConflict((oc) => oc.column("name").doNothing())
+              .executeTakeFirst()
+          ).numInsertedOrUpdatedRows;
+
+      if (Number(written ?? 0) > 0) {
+        return { ...next, version };
+      }
     }
 
-    return value;
+    throw new Error(`Failed to write '${key}', as it kept being changed`);
+  }
+
+  public async setValueWithMetadata<T = unknown>(
+    key: string,
+    value: T,
+    { expiresAt = null, version, contentType = null }: SetValueOptions = {},
+  ) {
+    return this._updateValue(key, (current) =>
+      version === undefined ||
+      (current !== null && (version === "*" || current.version === version))
+        ? { value, expiresAt, contentType }
+        : null,
+    );
+  }
+
+  public async incrementValue(key: string, by: number) {
+    return this._updateValue(key, (current) =>
+      current === null || typeof current.value === "number"
+        ? {
+            value: ((current?.value as number | undefined) ?? 0) + by,
+            expiresAt: current?.expiresAt ?? null,
+            contentType: null,
+          }
+        : null,
+    );
   }
 
   public async deleteValue(key: string) {
@@ -104,4 +433,279 @@ export class D1StorageAdapter
       .where("name", "=", key)
       .execute();
   }
+
+  public async getValues<T = unknown>(keys: string[]) {
+    if (keys.length === 0) {
+      return [];
+    }
+
+    const records = await this.client
+      .selectFrom("wt_kv_key_values")
+      .where("name", "in", keys)
+      .select(["name", "value", "expires_at", "version", "content_type"])
+      .execute();
+    const now = Date.now();
+    const values = new Map<string, ValueWithMetadata<T>>();
+
+    for (const record of records) {
+      if (record.expires_at === null || record.expires_at > now) {
+        values.set(record.name, {
+          value: JSON.parse(record.value) as T,
+          expiresAt:
+            record.expires_at === null ? null : new Date(record.expires_at),
+          version: record.version,
+          contentType: record.content_type,
+        });
+      }
+    }
+
+    return keys.map((key) => values.get(key) ?? null);
+  }
+
+  // Unlike `setValueWithMetadata()`, the version is bumped by the upsert itself,
+  // so there is no need to read the value first
+  private _getSetQuery<T>({
+    key,
+    value,
+    expiresAt,
+    contentType = null,
+  }: SetValuesEntry<T>) {
+    return this.client
+      .insertInto("wt_kv_key_values")
+      .values({
+        name: key,
+        value: JSON.stringify(value),
+        expires_at: expiresAt?.getTime() ?? null,
+        version: 1,
+        content_type: contentType,
+        updated_at: Date.now(),
+      })
+      .onConflict((oc) =>
+        oc.column("name").doUpdateSet((eb) => ({
+          value: eb.ref("excluded.value"),
+          expires_at: eb.ref("excluded.expires_at"),
+          version: eb("wt_kv_key_values.version", "+", 1),
+          content_type: eb.ref("excluded.content_type"),
+          updated_at: eb.ref("excluded.updated_at"),
+        })),
+      )
+      .compile();
+  }
+
+  private _getDeleteQuery(keys: string[]) {
+    return this.client
+      .deleteFrom("wt_kv_key_values")
+      .where("name", "in", keys)
+      .compile();
+  }
+
+  // D1 doesn't support transactions, but a `batch()` runs as one (and in a
+  // single round trip)
+  protected async _executeQueries(queries: CompiledQuery[]) {
+    await this._d1.batch(
+      queries.map(({ sql, parameters }) =>
+        this._d1.prepare(sql).bind(...parameters),
+      ),
+    );
+  }
+
+  public async setValues<T = unknown>(values: SetValuesEntry<T>[]) {
+    if (values.length > 0) {
+      await this._executeQueries(
+        values.map((entry) => this._getSetQuery(entry)),
+      );
+    }
+  }
+
+  public async deleteValues(keys: string[]) {
+    if (keys.length > 0) {
+      await this._executeQueries([this._getDeleteQuery(keys)]);
+    }
+  }
+
+  public async writeValues<T = unknown>(operations: WriteOperation<T>[]) {
+    if (operations.length > 0) {
+      await this._executeQueries(
+        operations.map((operation) =>
+          operation.type === "set"
+            ? this._getSetQuery(operation)
+            : this._getDeleteQuery([operation.key]),
+        ),
+      );
+    }
+  }
+
+  public async listValues<T = unknown>({
+    prefix,
+    limit,
+    cursor,
+    includeValues = false,
+  }: ListValuesOptions) {
+    let query = this.client
+      .selectFrom("wt_kv_key_values")
+      .select(["name", "value", "content_type"])
+      .where((eb) =>
+        eb.or([
+          eb("expires_at", "is", null),
+          eb("expires_at", ">", Date.now()),
+        ]),
+      )
+      .orderBy("name", "asc")
+      // The extra record tells us whether there is another page
+      .limit(limit + 1);
+
+    if (prefix) {
+      query = query
+        .where("name", ">=", prefix)
+        .where("name", "<", getPrefixUpperBound(prefix));
+    }
+
+    if (cursor) {
+      query = query.where("name", ">", cursor);
+    }
+
+    const records = await query.execute();
+    const page = records.slice(0, limit);
+
+    return {
+      values: page.map(({ name, value, content_type }) =>
+        includeValues
+          ? {
+              key: name,
+              value: JSON.parse(value) as T,
+              contentType: content_type,
+            }
+          : { key: name },
+      ),
+      cursor:
+        records.length > limit ? page[page.length - 1]?.name ?? null : null,
+    };
+  }
+
+  public async deleteValuesByPrefix(prefix: string) {
+    let query = this.client.deleteFrom("wt_kv_key_values");
+
+    if (prefix) {
+      query = query
+        .where("name", ">=", prefix)
+        .where("name", "<", getPrefixUpperBound(prefix));
+    }
+
+    const result = await query.executeTakeFirst();
+
+    return Number(result.numDeletedRows);
+  }
+
+  public async deleteExpiredValues() {
+    const result = await this.client
+      .deleteFrom("wt_kv_key_values")
+      .where("expires_at", "<=", Date.now())
+      .executeTakeFirst();
+
+    return Number(result.numDeletedRows);
+  }
+
+  public async getNamespaces() {
+    const records = await this.client
+      .selectFrom("wt_kv_namespaces")
+      .select(["name", "created_at"])
+      .orderBy("name")
+      .execute();
+
+    return records.map((record) => ({
+      name: record.name,
+      createdAt: new Date(record.created_at),
+    }));
+  }
+
+  public async getNamespace(name: string) {
+    const record = await this.client
+      .selectFrom("wt_kv_namespaces")
+      .where("name", "=", name)
+      .select(["name", "created_at"])
+      .executeTakeFirst();
+
+    return record
+      ? { name: record.name, createdAt: new Date(record.created_at) }
+      : null;
+  }
+
+  public async createNamespace(name: string) {
+    await this.client
+      .insertInto("wt_kv_namespaces")
+      .values({ name, created_at: Date.now() })
+      .onConflict((oc) => oc.column("name").doNothing())
+      .execute();
+
+    return (await this.getNamespace(name)) as Namespace;
+  }
+
+  public async recordChanges(changes: ChangeEntry[]) {
+    if (changes.length === 0) {
+      return [];
+    }
+
+    // The sequences are assigned in the order that the rows are inserted in
+    const records = await this.client
+      .insertInto("wt_kv_changes")
+      .values(
+        changes.map(({ type, key }) => ({ type, key, created_at: Date.now() })),
+      )
+      .returning(["sequence", "type", "key", "created_at"])
+      .execute();
+
+    return records
+      .sort((a, b) => a.sequence - b.sequence)
+      .map((record) => ({
+        sequence: record.sequence,
+        type: record.type,
+        key: record.key,
+        createdAt: new Date(record.created_at),
+      }));
+  }
+
+  public async getChanges({ prefix, after = 0, limit }: GetChangesOptions) {
+    let query = this.client
+      .selectFrom("wt_kv_changes")
+      .select(["sequence", "type", "key", "created_at"])
+      .where("sequence", ">", after)
+      .orderBy("sequence", "asc")
+      .limit(limit);
+
+    if (prefix) {
+      query = query
+        .where("key", ">=", prefix)
+        .where("key", "<", getPrefixUpperBound(prefix));
+    }
+
+    const records = await query.execute();
+
+    return records.map((record) => ({
+      sequence: record.sequence,
+      type: record.type,
+      key: record.key,
+      createdAt: new Date(record.created_at),
+    }));
+  }
+
+  public async getLastChangeSequence() {
+    const record = await this.client
+      .selectFrom("wt_kv_changes")
+      .select((eb) => eb.fn.max("sequence").as("sequence"))
+      .executeTakeFirst();
+
+    return Number(record?.sequence ?? 0);
+  }
+
+  // The last sequence is read from the changes, so the latest change is kept
+  public async deleteChangesBefore(date: Date) {
+    const lastSequence = await this.getLastChangeSequence();
+    const result = await this.client
+      .deleteFrom("wt_kv_changes")
+      .where("created_at", "<", date.getTime())
+      .where("sequence", "<", lastSequence)
+      .executeTakeFirst();
+
+    return Number(result.numDeletedRows);
+  }
 }
@@ -1,7 +1,16 @@
+import { UpdateTimeToLiveCommand } from "@aws-sdk/client-dynamodb";
 import {
+  BatchGetCommand,
+  type BatchGetCommandOutput,
+  BatchWriteCommand,
+  type BatchWriteCommandInput,
+  type BatchWriteCommandOutput,
   DeleteCommand,
   GetCommand,
   QueryCommand,
+  type QueryCommandOutput,
+  ScanCommand,
+  TransactWriteCommand,
   UpdateCommand,
 } from "@aws-sdk/lib-dynamodb";
 import {
@@ -10,7 +19,57 @@ import {
   type DynamoDBTableOptions,
 } from "@workertown/internal-storage/dynamodb";
 
-import { type StorageAdapter } from "./storage-adapter.js";
+import {
+  type Change,
+  type ChangeEntry,
+  type ChangeType,
+  type GetChangesOptions,
+  type KeyValue,
+  type ListValuesOptions,
+  type ListValuesResult,
+  type Namespace,
+  type SetValueOptions,
+  type SetValuesEntry,
+  type StorageAdapter,
+  type ValueWithMetadata,
+  type WriteOperation,
+} from "./storage-adapter.js";
+
+// How many times to try incrementing a value that keeps being changed in
+// between reading and writing it
+const MAX_WRITE_ATTEMPTS = 5;
+
+// The most items DynamoDB allows in a single `BatchGetItem`, `BatchWriteItem`
+// and `TransactWriteItems` request
+const MAX_BATCH_GET_ITEMS = 100;
+const MAX_BATCH_WRITE_ITEMS = 25;
+const MAX_TRANSACTION_ITEMS = 100;
+
+// Doesn't start with `wt_kv#`, so the namespaces are never listed as values
+const NAMESPACES_PARTITION_KEY = "wt_kv_namespaces";
+
+// The changes share a partition too, sorted by their sequence, which comes from
+// a counter in an item of its own
+const CHANGES_PARTITION_KEY = "wt_kv_changes";
+const CHANGES_SEQUENCE_KEY = "wt_kv_changes_sequence";
+
+// The sort keys are strings, so the sequences are padded to sort numerically
+function formatSequence(sequence: number) {
+  return String(sequence).padStart(16, "0");
+}
+
+// DynamoDB rejects batches (and transactions) that touch the same item more
+// than once, so only the last write to each key is kept, which has the same
+// end result
+function getLastWrites<T extends { key: string }>(writes: T[]) {
+  return Array.from(
+    new Map(writes.map((write) => [write.key, write])).values(),
+  );
+}
+
+type BatchWriteRequests = NonNullable<
+  BatchWriteCommandInput["RequestItems"]
+>[string];
 
 type DynamoDBStorageAdapterOptions = Omit<
   BaseDynamoDBStorageAdapterOptions,
@@ -24,6 +83,14 @@ export class DynamoDBStorageAdapter
   extends BaseDynamoDBStorageAdapter
   implements StorageAdapter
 {
+  public readonly supportsTransactions = true;
+
+  // DynamoDB limits each item to 400KB, which has to fit the key and the rest
+  // of the attributes too
+  public readonly maxValueSize = 350 * 1024;
+
+  public readonly supportsChanges = true;
+
   constructor(options: DynamoDBStorageAdapterOptions) {
     super({
       credentials: options.credentials,
@@ -41,7 +108,68 @@ export class DynamoDBStorageAdapter
     return `wt_kv#${key}`;
   }
 
+  private _getKey(primaryKey: string) {
+    return primaryKey.slice(this._getPrimaryKey("").length);
+  }
+
+  private _isExpired(item: Record<string, unknown>) {
+    return (
+      typeof item.expires_at === "number" &&
+      item.expires_at * 1000 <= Date.now()
+    );
+  }
+
+  private _parseItem<T>(
+    item: Record<string, unknown>,
+  ): ValueWithMetadata<T> | null {
+    if (!item.value || this._isExpired(item)) {
+      return null;
+    }
+
+    return {
+      value: JSON.parse(item.value as string) as T,
+      expiresAt: item.expires_at
+        ? new Date((item.expires_at as number) * 1000)
+        : null,
+      version: (item.version as number | undefined) ?? 0,
+      contentType: (item.content_type as string | undefined) ?? null,
+    };
+  }
+
+  // DynamoDB expires the items via TTL on the `expires_at` attribute. If TTL
+  // couldn't be enabled (e.g. because the table is still being created) it can
+  // be enabled manually, as the expired values are never returned either way
+  public async runMigrations(down = false) {
+    const result = await super.runMigrations(down);
+
+    if (!down) {
+      try {
+        await this.client.send(
+          new UpdateTimeToLiveCommand({
+            TableName: this.table,
+            TimeToLiveSpecification: {
+              AttributeName: "expires_at",
+              Enabled: true,
+            },
+          }),
+        );
+      } catch (_) {}
+    }
+
+    return result;
+  }
+
   public async getValue<T = unknown>(key: string) {
+    const result = await this.getValueWithMetadata<T>(key);
+
+    return result?.value ?? null;
+  }
+
+  // TTL deletes the expired items within a couple of days, rather than right
+  // away, so the expiry is checked here too
+  public async getValueWithMetadata<T = unknown>(
+    key: string,
+  ): Promise<ValueWithMetadata<T> | null> {
     const result = await this.client.send(
       new GetCommand({
         TableName: this.table,
@@ -52,28 +180,193 @@ export class DynamoDBStorageAdapter
       }),
     );
 
-    return result.Item?.value ? (JSON.parse(result.Item?.value) as T) : null;
+    return result.Item ? this._parseItem<T>(result.Item) : null;
   }
 
-  public async setValue<T = unknown>(key: string, value: T) {
-    await this.client.send(
-      new UpdateCommand({
-        TableName: this.table,
-        Key: {
-          pk: this._getPrimaryKey(key),
-          sk: this._getPrimaryKey(key),
-        },
-        UpdateExpression: "SET #value = :value",
-        ExpressionAttributeNames: {
-          "#value": "value",
-        },
-        ExpressionAttributeValues: {
-          ":value": JSON.stringify(value),
+  public async setValue<T = unknown>(
+    key: string,
+    value: T,
+    options: SetValueOptions = {},
+  ) {
+    await this.setValueWithMetadata(key, value, options);
+
+    return value;
+  }
+
+  // The attributes that aren't set are removed, so that they don't outlive the
+  // value they were set with
+  private _getUpdate(
+    key: string,
+    value: unknown,
+    expiresAt: Date | null,
+    contentType: string | null,
+  ) {
+    const remove = [
+      ...(expiresAt ? [] : ["#expires_at"]),
+      ...(contentType ? [] : ["#content_type"]),
+    ];
+
+    return {
+      TableName: this.table,
+      Key: {
+        pk: this._getPrimaryKey(key),
+        sk: this._getPrimaryKey(key),
+      },
+      UpdateExpression: [
+        `SET ${[
+          "#value = :value",
+          "#version = if_not_exists(#version, :zero) + :one",
+          ...(expiresAt ? ["#expires_at = :expires_at"] : []),
+          ...(contentType ? ["#content_type = :content_type"] : []),
+        ].join(", ")}`,
+        ...(remove.length > 0 ? [`REMOVE ${remove.join(", ")}`] : []),
+      ].join(" "),
+      ExpressionAttributeNames: {
+        "#value": "value",
+        "#version": "version",
+        "#expires_at": "expires_at",
+        "#content_type": "content_type",
+      },
+      ExpressionAttributeValues: {
+        ":value": JSON.stringify(value),
+        ":zero": 0,
+        ":one": 1,
+        // TTL wants the expiry as a UNIX timestamp in seconds
+        ...(expiresAt
+          ? { ":expires_at": Math.ceil(expiresAt.getTime() / 1000) }
+          : {}),
+        ...(contentType ? { ":content_type": contentType } : {}),
+      },
+    };
+  }
+
+  // Writes the value if the condition holds, returning the new version (or
+  // `null` if the condition didn't hold)
+  private async _writeValue(
+    key: string,
+    value: unknown,
+    expiresAt: Date | null,
+    contentType: string | null,
+    condition?: { expression: string; values: Record<string, unknown> },
+  ) {
+    const update = this._getUpdate(key, value, expiresAt, contentType);
+
+    try {
+      const result = await this.client.send(
+        new UpdateCommand({
+          ...update,
+          ConditionExpression: condition?.expression,
+          ExpressionAttributeValues: {
+            ...update.ExpressionAttributeValues,
+            ...condition?.values,
+          },
+          ReturnValues: "UPDATED_NEW",
+        }),
+      );
+
+      return result.Attributes?.version as number;
+    } catch (error) {
+      if ((error as Error).name === "ConditionalCheckFailedException") {
+        return null;
+      }
+
+      throw error;
+    }
+  }
+
+  // Values set before they were versioned don't have a `version` attribute
+  private _getVersionCondition(version: number) {
+    return {
+      expression:
+        version === 0
+          ? "attribute_not_exists(#version)"
+          : "#version = :current_version",
+      values: version === 0 ? {} : { ":current_version": version },
+    };
+  }
+
+  public async setValueWithMetadata<T = unknown>(
+    key: string,
+    value: T,
+    { expiresAt = null, contentType = null, version }: SetValueOptions = {},
+  ): Promise<ValueWithMetadata<T> | null> {
+    let condition:
+      | { expression: string; values: Record<string, unknown> }
+      | undefined;
+
+    if (version !== undefined) {
+      const versionCondition =
+        version === "*" ? undefined : this._getVersionCondition(version);
+
+      condition = {
+        expression: [
+          "attribute_exists(#value)",
+          "(attribute_not_exists(#expires_at) OR #expires_at > :now)",
+          ...(versionCondition ? [versionCondition.expression] : []),
+        ].join(" AND "),
+        values: {
+          ":now": Math.floor(Date.now() / 1000),
+          ...versionCondition?.values,
         },
-      }),
+      };
+    }
+
+    const newVersion = await this._writeValue(
+      key,
+      value,
+      expiresAt,
+      contentType,
+      condition,
     );
 
-    return value;
+    return newVersion === null
+      ? null
+      : { value, expiresAt, version: newVersion, contentType };
+  }
+
+  // The value is stored as JSON, so it can't be added to in place. Instead, it
+  // is only written if its version hasn't changed since it was read, and is
+  // tried again if it has
+  public async incrementValue(
+    key: string,
+    by: number,
+  ): Promise<ValueWithMetadata<number> | null> {
+    for (let attempt = 0; attempt < MAX_WRITE_ATTEMPTS; attempt++) {
+      const { Item: item } = await this.client.send(
+        new GetCommand({
+          TableName: this.table,
+          Key: {
+            pk: this._getPrimaryKey(key),
+            sk: this._getPrimaryKey(key),
+          },
+        }),
+      );
+      const current = item && !this._isExpired(item) ? item : undefined;
+      const value = current ? JSON.parse(current.value) : 0;
+
+      if (typeof value !== "number") {
+        return null;
+      }
+
+      const expiresAt = current?.expires_at
+        ? new Date((current.expires_at as number) * 1000)
+        : null;
+      const version = await this._writeValue(
+        key,
+        value + by,
+        expiresAt,
+        null,
+        item
+          ? this._getVersionCondition((item.version as number | undefined) ?? 0)
+          : { expression: "attribute_not_exists(#value)", values: {} },
+      );
+
+      if (version !== null) {
+        return { value: value + by, expiresAt, version, contentType: null };
+      }
+    }
+
+    throw new Error(`Failed to write '${key}', as it kept being changed`);
   }
 
   public async deleteValue(key: string) {
@@ -88,6 +381,447 @@ export class DynamoDBStorageAdapter
     );
   }
 
+  public async getValues<T = unknown>(keys: string[]) {
+    const uniqueKeys = Array.from(new Set(keys));
+    const items = new Map<string, Record<string, unknown>>();
+
+    for (let i = 0; i < uniqueKeys.length; i += MAX_BATCH_GET_ITEMS) {
+      let requestKeys: Record<string, unknown>[] | undefined = uniqueKeys
+        .slice(i, i + MAX_BATCH_GET_ITEMS)
+        .map((key) => ({
+          pk: this._getPrimaryKey(key),
+          sk: this._getPrimaryKey(key),
+        }));
+
+      // Any keys that DynamoDB didn't get around to (e.g. because the request
+      // was throttled) are requested again
+      while (requestKeys?.length) {
+        const result: BatchGetCommandOutput = await this.client.send(
+          new BatchGetCommand({
+            RequestItems: { [this.table]: { Keys: requestKeys } },
+          }),
+        );
+
+        for (const item of result.Responses?.[this.table] ?? []) {
+          items.set(this._getKey(item.pk as string), item);
+        }
+
+        requestKeys = result.UnprocessedKeys?.[this.table]?.Keys;
+      }
+    }
+
+    return keys.map((key) => {
+      const item = items.get(key);
+
+      return item ? this._parseItem<T>(item) : null;
+    });
+  }
+
+  // `BatchWriteItem` can only put whole items, which would lose the version,
+  // so the values are updated individually (but concurrently)
+  public async setValues<T = unknown>(values: SetValuesEntry<T>[]) {
+    await Promise.all(
+      getLastWrites(values).map(
+        ({ key, value, expiresAt = null, contentType = null }) =>
+          this._writeValue(key, value, expiresAt, contentType),
+      ),
+    );
+  }
+
+  // Sends the requests in as few batches as it can, retrying any that
+  // DynamoDB didn't get around to (e.g. because the request was throttled)
+  private async _batchWrite(requests: BatchWriteRequests) {
+    for (let i = 0; i < requests.length; i += MAX_BATCH_WRITE_ITEMS) {
+      let batch: BatchWriteRequests | undefined = requests.slice(
+        i,
+        i + MAX_BATCH_WRITE_ITEMS,
+      );
+
+      while (batch?.length) {
+        const result: BatchWriteCommandOutput = await this.client.send(
+          new BatchWriteCommand({ RequestItems: { [this.table]: batch } }),
+        );
+
+        batch = result.UnprocessedItems?.[this.table];
+      }
+    }
+  }
+
+  public async deleteValues(keys: string[]) {
+    await this._batchWrite(
+      Array.from(new Set(keys)).map((key) => ({
+        DeleteRequest: {
+          Key: {
+            pk: this._getPrimaryKey(key),
+            sk: this._getPrimaryKey(key),
+          },
+        },
+      })),
+    );
+  }
+
+  public async writeValues<T = unknown>(operations: WriteOperation<T>[]) {
+    const writes = getLastWrites(operations);
+
+    if (writes.length === 0) {
+      return;
+    }
+
+    if (writes.length > MAX_TRANSACTION_ITEMS) {
+      throw new Error(
+        `DynamoDB transactions can't write more than ${MAX_TRANSACTION_ITEMS} values`,
+      );
+    }
+
+    await this.client.send(
+      new TransactWriteCommand({
+        TransactItems: writes.map((write) =>
+          write.type === "set"
+            ? {
+                Update: this._getUpdate(
+                  write.key,
+                  write.value,
+                  write.expiresAt ?? null,
+                  write.contentType ?? null,
+                ),
+              }
+            : {
+                Delete: {
+                  TableName: this.table,
+                  Key: {
+                    pk: this._getPrimaryKey(write.key),
+                    sk: this._getPrimaryKey(write.key),
+                  },
+                },
+              },
+        ),
+      }),
+    );
+  }
+
+  // There's no index to query the keys by, so the table is scanned. `Limit` is
+  // applied before the prefix is filtered on, so each scan is limited to the
+  // space left in the page, which means that the last key it evaluated is
+  // always where the next page starts
+  public async listValues<T = unknown>({
+    prefix = "",
+    limit,
+    cursor,
+    includeValues = false,
+  }: ListValuesOptions): Promise<ListValuesResult<T>> {
+    const values: KeyValue<T>[] = [];
+    let startKey: Record<string, unknown> | undefined = cursor
+      ? { pk: cursor, sk: cursor }
+      : undefined;
+
+    do {
+      const result = await this.client.send(
+        new ScanCommand({
+          TableName: this.table,
+          FilterExpression:
+            "begins_with(#pk, :prefix) AND (attribute_not_exists(#expires_at) OR #expires_at > :now)",
+          ExpressionAttributeNames: {
+            "#pk": "pk",
+            "#expires_at": "expires_at",
+          },
+          ExpressionAttributeValues: {
+            ":prefix": this._getPrimaryKey(prefix),
+            ":now": Math.floor(Date.now() / 1000),
+          },
+          ExclusiveStartKey: startKey,
+          Limit: limit - values.length,
+        }),
+      );
+
+      for (const item of result.Items ?? []) {
+        const key = this._getKey(item.pk as string);
+
+        values.push(
+          includeValues
+            ? {
+                key,
+                value: JSON.parse(item.value) as T,
+                contentType: (item.content_type as string | undefined) ?? null,
+              }
+            : { key },
+        );
+      }
+
+      startKey = result.LastEvaluatedKey;
+    } while (startKey && values.length < limit);
+
+    return {
+      values,
+      cursor: startKey ? (startKey.pk as string) : null,
+    };
+  }
+
+  public async deleteValuesByPrefix(prefix: string) {
+    let deleted = 0;
+    let cursor: string | null = null;
+
+    do {
+      const page: ListValuesResult = await this.listValues({
+        prefix,
+        limit: 100,
+        cursor: cursor ?? undefined,
+      });
+
+      await Promise.all(page.values.map(({ key }) => this.deleteValue(key)));
+
+      deleted += page.values.length;
+      cursor = page.cursor;
+    } while (cursor);
+
+    return deleted;
+  }
+
+  // TTL deletes the expired items itself
+  public async deleteExpiredValues() {
+    return 0;
+  }
+
+  // The namespaces share a partition, so that they can be queried together
+  private _getNamespaceKey(name: string) {
+    return { pk: NAMESPACES_PARTITION_KEY, sk: name };
+  }
+
+  private _parseNamespace(item: Record<string, unknown>): Namespace {
+    return {
+      name: item.sk as string,
+      createdAt: new Date(item.created_at as number),
+    };
+  }
+
+  public async getNamespaces() {
+    const namespaces: Namespace[] = [];
+    let startKey: Record<string, unknown> | undefined;
+
+    do {
+      const result: QueryCommandOutput = await this.client.send(
+        new QueryCommand({
+          TableName: this.table,
+          KeyConditionExpression: "#pk = :pk",
+          ExpressionAttributeNames: { "#pk": "pk" },
+          ExpressionAttributeValues: { ":pk": NAMESPACES_PARTITION_KEY },
+          ExclusiveStartKey: startKey,
+        }),
+      );
+
+      namespaces.push(
+        ...(result.Items ?? []).map((item) => this._parseNamespace(item)),
+      );
+      startKey = result.LastEvaluatedKey;
+    } while (startKey);
+
+    return namespaces;
+  }
+
+  public async getNamespace(name: string) {
+    const result = await this.client.send(
+      new GetCommand({
+        TableName: this.table,
+        Key: this._getNamespaceKey(name),
+      }),
+    );
+
+    return result.Item ? this._parseNamespace(result.Item) : null;
+  }
+
+  public async createNamespace(name: string) {
+    const result = await this.client.send(
+      new UpdateCommand({
+        TableName: this.table,
+        Key: this._getNamespaceKey(name),
+        UpdateExpression: "SET #created_at = if_not_exists(#created_at, :now)",
+        ExpressionAttributeNames: { "#created_at": "created_at" },
+        ExpressionAttributeValues: { ":now": Date.now() },
+        ReturnValues: "ALL_NEW",
+      }),
+    );
+
+    return this._parseNamespace(result.Attributes ?? {});
+  }
+
+  private _parseChange(item: Record<string, unknown>): Change {
+    return {
+      sequence: parseInt(item.sk as string, 10),
+      type: item.type as ChangeType,
+      key: item.key as string,
+      createdAt: new Date(item.created_at as number),
+    };
+  }
+
+  // The counter and the changes are written in the same transaction, which
+  // only goes through if the counter hasn't moved since it was read (and is
+  // tried again if it has). That way, a change is never readable before the
+  // ones with lower sequences are. A transaction can only hold so many items,
+  // so larger lists are recorded over several of them
+  public async recordChanges(changes: ChangeEntry[]) {
+    const recorded: Change[] = [];
+
+    for (let i = 0; i < changes.length; i += MAX_TRANSACTION_ITEMS - 1) {
+      recorded.push(
+        ...(await this._recordChanges(
+          changes.slice(i, i + MAX_TRANSACTION_ITEMS - 1),
+        )),
+      );
+    }
+
+    return recorded;
+  }
+
+  private async _recordChanges(changes: ChangeEntry[]): Promise<Change[]> {
+    for (let attempt = 0; attempt < MAX_WRITE_ATTEMPTS; attempt++) {
+      const { Item: counter } = await this.client.send(
+        new GetCommand({
+          TableName: this.table,
+          Key: { pk: CHANGES_SEQUENCE_KEY, sk: CHANGES_SEQUENCE_KEY },
+          ConsistentRead: true,
+        }),
+      );
+      const current = (counter?.sequence as number | undefined) ?? 0;
+      const createdAt = new Date();
+      const recorded = changes.map(({ type, key }, index) => ({
+        sequence: current + index + 1,
+        type,
+        key,
+        createdAt,
+      }));
+
+      try {
+        await this.client.send(
+          new TransactWriteCommand({
+            TransactItems: [
+              {
+                Update: {
+                  TableName: this.table,
+                  Key: { pk: CHANGES_SEQUENCE_KEY, sk: CHANGES_SEQUENCE_KEY },
+                  UpdateExpression: "SET #sequence = :next",
+                  ConditionExpression: counter
+                    ? "#sequence = :current"
+                    : "attribute_not_exists(#sequence)",
+                  ExpressionAttributeNames: { "#sequence": "sequence" },
+                  ExpressionAttributeValues: {
+                    ":next": current + changes.length,
+                    ...(counter ? { ":current": current } : {}),
+                  },
+                },
+              },
+              ...recorded.map((change) => ({
+                Put: {
+                  TableName: this.table,
+                  Item: {
+                    pk: CHANGES_PARTITION_KEY,
+                    sk: formatSequence(change.sequence),
+                    type: change.type,
+                    key: change.key,
+                    created_at: createdAt.getTime(),
+                  },
+                },
+              })),
+            ],
+          }),
+        );
+
+        return recorded;
+      } catch (error) {
+        // The counter was moved by another write in the meantime
+        if ((error as Error).name !== "TransactionCanceledException") {
+          throw error;
+        }
+      }
+    }
+
+    throw new Error(
+      "Failed to record the changes, as the sequence kept moving",
+    );
+  }
+
+  // `Limit` is applied before the prefix is filtered on, so the partition is
+  // queried until there are enough changes (or there are no more)
+  public async getChanges({ prefix, after = 0, limit }: GetChangesOptions) {
+    const changes: Change[] = [];
+    let startKey: Record<string, unknown> | undefined;
+
+    do {
+      const result: QueryCommandOutput = await this.client.send(
+        new QueryCommand({
+          TableName: this.table,
+          KeyConditionExpression: "#pk = :pk AND #sk > :after",
+          FilterExpression: prefix ? "begins_with(#key, :prefix)" : undefined,
+          ExpressionAttributeNames: {
+            "#pk": "pk",
+            "#sk": "sk",
+            ...(prefix ? { "#key": "key" } : {}),
+          },
+          ExpressionAttributeValues: {
+            ":pk": CHANGES_PARTITION_KEY,
+            ":after": formatSequence(after),
+            ...(prefix ? { ":prefix": prefix } : {}),
+          },
+          ExclusiveStartKey: startKey,
+          ConsistentRead: true,
+          Limit: limit,
+        }),
+      );
+
+      changes.push(
+        ...(result.Items ?? []).map((item) => this._parseChange(item)),
+      );
+      startKey = result.LastEvaluatedKey;
+    } while (startKey && changes.length < limit);
+
+    return changes.slice(0, limit);
+  }
+
+  public async getLastChangeSequence() {
+    const result = await this.client.send(
+      new GetCommand({
+        TableName: this.table,
+        Key: { pk: CHANGES_SEQUENCE_KEY, sk: CHANGES_SEQUENCE_KEY },
+      }),
+    );
+
+    return (result.Item?.sequence as number | undefined) ?? 0;
+  }
+
+  // The changes are recorded in order, so the oldest ones are read until one
+  // that was recorded after the date
+  public async deleteChangesBefore(date: Date) {
+    let deleted = 0;
+    let startKey: Record<string, unknown> | undefined;
+
+    do {
+      const result: QueryCommandOutput = await this.client.send(
+        new QueryCommand({
+          TableName: this.table,
+          KeyConditionExpression: "#pk = :pk",
+          ExpressionAttributeNames: { "#pk": "pk" },
+          ExpressionAttributeValues: { ":pk": CHANGES_PARTITION_KEY },
+          ExclusiveStartKey: startKey,
+          Limit: 100,
+        }),
+      );
+      const items = result.Items ?? [];
+      const expired = items.filter(
+        (item) => (item.created_at as number) < date.getTime(),
+      );
+
+      await this._batchWrite(
+        expired.map((item) => ({
+          DeleteRequest: { Key: { pk: item.pk, sk: item.sk } },
+        })),
+      );
+
+      deleted += expired.length;
+      startKey =
+        expired.length === items.length ? result.LastEvaluatedKey : undefined;
+    } while (startKey);
+
+    return deleted;
+  }
+
   public async getTags(): Promise<string[]> {
     const tags = await this.client.send(
       new QueryCommand({
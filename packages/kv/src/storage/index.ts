@@ -1,3 +1,31 @@
-import { StorageAdapter } from "./storage-adapter.js";
+import {
+  type Change,
+  type ChangeEntry,
+  type ChangeType,
+  type GetChangesOptions,
+  type KeyValue,
+  type ListValuesOptions,
+  type ListValuesResult,
+  type Namespace,
+  type SetValueOptions,
+  type SetValuesEntry,
+  StorageAdapter,
+  type ValueWithMetadata,
+  type WriteOperation,
+} from "./storage-adapter.js";
 
-export { StorageAdapter };
+export {
+  StorageAdapter,
+  type Change,
+  type ChangeEntry,
+  type ChangeType,
+  type GetChangesOptions,
+  type KeyValue,
+  type ListValuesOptions,
+  type ListValuesResult,
+  type Namespace,
+  type SetValueOptions,
+  type SetValuesEntry,
+  type ValueWithMetadata,
+  type WriteOperation,
+};
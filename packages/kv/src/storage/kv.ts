@@ -1,12 +1,41 @@
 import { KVNamespace } from "@cloudflare/workers-types";
 
-import { StorageAdapter } from "./storage-adapter.js";
+import {
+  type ListValuesOptions,
+  type ListValuesResult,
+  type Namespace,
+  type SetValueOptions,
+  type SetValuesEntry,
+  StorageAdapter,
+  type ValueWithMetadata,
+} from "./storage-adapter.js";
 
 interface KVStorageAdapterOptions {
   kv: KVNamespace;
 }
 
+interface KeyMetadata {
+  key: string;
+  expiresAt?: number;
+  version?: number;
+  contentType?: string;
+}
+
+interface NamespaceMetadata {
+  createdAt: number;
+}
+
+// KV won't expire keys any sooner than 60 seconds from now
+const MIN_EXPIRATION_TTL = 60;
+
 export class KVStorageAdapter extends StorageAdapter {
+  // KV limits each value to 25MiB
+  public readonly maxValueSize = 25 * 1024 * 1024;
+
+  // KV has no way to increment a counter atomically, so the changes can't be
+  // given a sequence to resume from
+  public readonly supportsChanges = false;
+
   private readonly _kv: KVNamespace;
 
   constructor(options: KVStorageAdapterOptions) {
@@ -20,18 +49,307 @@ export class KVStorageAdapter extends StorageAdapter {
   }
 
   public async getValue<T = unknown>(key: string) {
-    const value = await this._kv.get<T>(this._formatKey(key), "json");
+    const result = await this.getValueWithMetadata<T>(key);
 
-    return value;
+    return result?.value ?? null;
   }
 
-  public async setValue<T = unknown>(key: string, value: T) {
-    await this._kv.put(this._formatKey(key), JSON.stringify(value));
+  // The expiry is kept in the metadata too, so that values with a TTL shorter
+  // than KV allows still expire on time
+  public async getValueWithMetadata<T = unknown>(
+    key: string,
+  ): Promise<ValueWithMetadata<T> | null> {
+    const { value, metadata } = await this._kv.getWithMetadata<T, KeyMetadata>(
+      this._formatKey(key),
+      "json",
+    );
+
+    if (
+      value === null ||
+      (metadata?.expiresAt !== undefined && metadata.expiresAt <= Date.now())
+    ) {
+      return null;
+    }
+
+    return {
+      value,
+      expiresAt:
+        metadata?.expiresAt !== undefined ? new Date(metadata.expiresAt) : null,
+      version: metadata?.version ?? 0,
+      contentType: metadata?.contentType ?? null,
+    };
+  }
+
+  public async setValue<T = unknown>(
+    key: string,
+    value: T,
+    options: SetValueOptions = {},
+  ) {
+    await this.setValueWithMetadata(key, value, options);
 
     return value;
   }
 
+  // The formatted key can't be turned back into the key (as both `/` and `_`
+  // become `_`), so the key is kept in the metadata for listing
+  private async _writeValue<T>(
+    key: string,
+    value: T,
+    expiresAt: Date | null,
+    version: number,
+    contentType: string | null,
+  ) {
+    const expiresAtTime = expiresAt?.getTime();
+
+    await this._kv.put(this._formatKey(key), JSON.stringify(value), {
+      expirationTtl:
+        expiresAtTime !== undefined
+          ? Math.max(
+              Math.ceil((expiresAtTime - Date.now()) / 1000),
+              MIN_EXPIRATION_TTL,
+            )
+          : undefined,
+      metadata: {
+        key,
+        expiresAt: expiresAtTime,
+        version,
+        contentType: contentType ?? undefined,
+      } satisfies KeyMetadata,
+    });
+
+    return { value, expiresAt, version, contentType };
+  }
+
+  // Only the metadata is needed, so the key is listed rather than read (which
+  // would download the whole value). The formatted key sorts before any other
+  // key that it's a prefix of, so it's the first one if it exists
+  private async _getMetadata(key: string) {
+    const name = this._formatKey(key);
+    const { keys } = await this._kv.list<KeyMetadata>({
+      prefix: name,
+      limit: 1,
+    });
+    const first = keys[0];
+
+    if (first?.name !== name) {
+      return null;
+    }
+
+    return first.metadata ?? { key };
+  }
+
+  private async _getVersion(key: string) {
+    return (await this._getMetadata(key))?.version ?? 0;
+  }
+
+  // KV has no way of writing conditionally, and is eventually consistent, so
+  // the version check (and incrementing) is only best effort
+  public async setValueWithMetadata<T = unknown>(
+    key: string,
+    value: T,
+    { expiresAt = null, contentType = null, version }: SetValueOptions = {},
+  ): Promise<ValueWithMetadata<T> | null> {
+    if (version !== undefined) {
+      const metadata = await this._getMetadata(key);
+      const currentVersion = metadata?.version ?? 0;
+
+      if (
+        !metadata ||
+        (metadata.expiresAt !== undefined &&
+          metadata.expiresAt <= Date.now()) ||
+        (version !== "*" && currentVersion !== version)
+      ) {
+        return null;
+      }
+
+      return this._writeValue(
+        key,
+        value,
+        expiresAt,
+        currentVersion + 1,
+        contentType,
+      );
+    }
+
+    return this._writeValue(
+      key,
+      value,
+      expiresAt,
+      (await this._getVersion(key)) + 1,
+      contentType,
+    );
+  }
+
+  public async incrementValue(
+    key: string,
+    by: number,
+  ): Promise<ValueWithMetadata<number> | null> {
+    const current = await this.getValueWithMetadata(key);
+
+    if (current && typeof current.value !== "number") {
+      return null;
+    }
+
+    return this._writeValue(
+      key,
+      ((current?.value as number | undefined) ?? 0) + by,
+      current?.expiresAt ?? null,
+      current ? current.version + 1 : (await this._getVersion(key)) + 1,
+      null,
+    );
+  }
+
   public async deleteValue(key: string) {
     await this._kv.delete(this._formatKey(key));
   }
+
+  // KV has no batch operations in Workers, so each value is read and written
+  // separately (but concurrently). `supportsTransactions` is left `false`, as
+  // there's no way to write them all-or-nothing either
+  public async getValues<T = unknown>(keys: string[]) {
+    return Promise.all(keys.map((key) => this.getValueWithMetadata<T>(key)));
+  }
+
+  public async setValues<T = unknown>(values: SetValuesEntry<T>[]) {
+    // Concurrent writes to the same key could land in any order, so only the
+    // last value for each key is written
+    const entries = new Map(values.map((entry) => [entry.key, entry]));
+
+    await Promise.all(
+      Array.from(entries.values()).map(
+        ({ key, value, expiresAt, contentType }) =>
+          this.setValueWithMetadata(key, value, { expiresAt, contentType }),
+      ),
+    );
+  }
+
+  public async deleteValues(keys: string[]) {
+    await Promise.all(
+      Array.from(new Set(keys)).map((key) => this.deleteValue(key)),
+    );
+  }
+
+  // The formatted prefix matches a superset of the keys, so the page is
+  // filtered down afterwards and can come back with fewer than `limit` values
+  public async listValues<T = unknown>({
+    prefix = "",
+    limit,
+    cursor,
+    includeValues = false,
+  }: ListValuesOptions): Promise<ListValuesResult<T>> {
+    const result = await this._kv.list<KeyMetadata>({
+      prefix: this._formatKey(prefix),
+      limit,
+      cursor,
+    });
+    const keys = result.keys
+      .filter(
+        ({ metadata }) =>
+          metadata?.expiresAt === undefined || metadata.expiresAt > Date.now(),
+      )
+      .map(({ name, metadata }) => ({
+        name,
+        contentType: metadata?.contentType ?? null,
+        // Values set before the key was kept in the metadata fall back to the
+        // formatted key
+        key: metadata?.key ?? name.replace(/^kv_/, ""),
+      }))
+      .filter(({ key }) => key.startsWith(prefix));
+    const values = await Promise.all(
+      keys.map(async ({ name, key, contentType }) =>
+        includeValues
+          ? {
+              key,
+              value: (await this._kv.get<T>(name, "json")) as T,
+              contentType,
+            }
+          : { key },
+      ),
+    );
+
+    return {
+      values,
+      cursor: result.list_complete ? null : result.cursor,
+    };
+  }
+
+  public async deleteValuesByPrefix(prefix: string) {
+    let deleted = 0;
+    let cursor: string | null = null;
+
+    do {
+      const page: ListValuesResult = await this.listValues({
+        prefix,
+        limit: 1000,
+        cursor: cursor ?? undefined,
+      });
+
+      await Promise.all(page.values.map(({ key }) => this.deleteValue(key)));
+
+      deleted += page.values.length;
+      cursor = page.cursor;
+    } while (cursor);
+
+    return deleted;
+  }
+
+  // KV expires the values itself
+  public async deleteExpiredValues() {
+    return 0;
+  }
+
+  // The namespaces are kept under their own prefix, which the formatted keys
+  // never start with
+  private _formatNamespaceKey(name: string) {
+    return `ns_${name}`;
+  }
+
+  public async getNamespaces() {
+    const namespaces: Namespace[] = [];
+    let cursor: string | undefined;
+
+    do {
+      const result = await this._kv.list<NamespaceMetadata>({
+        prefix: this._formatNamespaceKey(""),
+        cursor,
+      });
+
+      namespaces.push(
+        ...result.keys.map(({ name, metadata }) => ({
+          name: name.slice(this._formatNamespaceKey("").length),
+          createdAt: new Date(metadata?.createdAt ?? 0),
+        })),
+      );
+      cursor = result.list_complete ? undefined : result.cursor;
+    } while (cursor);
+
+    return namespaces;
+  }
+
+  public async getNamespace(name: string) {
+    const { value, metadata } =
+      await this._kv.getWithMetadata<NamespaceMetadata>(
+        this._formatNamespaceKey(name),
+      );
+
+    return value === null
+      ? null
+      : { name, createdAt: new Date(metadata?.createdAt ?? 0) };
+  }
+
+  public async createNamespace(name: string) {
+    const existing = await this.getNamespace(name);
+
+    if (existing) {
+      return existing;
+    }
+
+    const createdAt = Date.now();
+
+    await this._kv.put(this._formatNamespaceKey(name), name, {
+      metadata: { createdAt } satisfies NamespaceMetadata,
+    });
+
+    return { name, createdAt: new Date(createdAt) };
+  }
 }
@@ -1,43 +1,331 @@
 import { MemoryStorageAdapter as BaseMemoryStorageAdapter } from "@workertown/internal-storage/memory";
 
-import { type StorageAdapter } from "./storage-adapter.js";
+import {
+  type Change,
+  type ChangeEntry,
+  type GetChangesOptions,
+  type ListValuesOptions,
+  type ListValuesResult,
+  type Namespace,
+  type SetValueOptions,
+  type SetValuesEntry,
+  type StorageAdapter,
+  type ValueWithMetadata,
+  type WriteOperation,
+} from "./storage-adapter.js";
+
 interface MemoryStorageAdapterOptions {
   initialValues?: Record<string, unknown>;
+  initialNamespaces?: string[];
+  // Lets the offloading of large values be tested without large values
+  maxValueSize?: number;
+}
+
+interface StoredValue {
+  value: string;
+  expiresAt: number | null;
+  version: number;
+  contentType: string | null;
 }
 
 export class MemoryStorageAdapter
   extends BaseMemoryStorageAdapter
   implements StorageAdapter
 {
-  private readonly _valueStore = new Map<string, string>();
+  // Nothing else can run in between the writes
+  public readonly supportsTransactions = true;
+
+  public readonly maxValueSize: number;
+
+  public readonly supportsChanges = true;
+
+  private readonly _valueStore = new Map<string, StoredValue>();
+
+  private readonly _namespaceStore = new Map<string, Namespace>();
+
+  private _changes: Change[] = [];
+
+  private _lastChangeSequence = 0;
 
   constructor(options: MemoryStorageAdapterOptions = {}) {
     super();
 
-    const { initialValues = {} } = options;
+    const {
+      initialValues = {},
+      initialNamespaces = [],
+      maxValueSize = Infinity,
+    } = options;
+
+    this.maxValueSize = maxValueSize;
 
     Object.entries(initialValues).forEach(([key, value]) => {
-      this._valueStore.set(key, JSON.stringify(value));
+      this._valueStore.set(key, {
+        value: JSON.stringify(value),
+        expiresAt: null,
+        version: 1,
+        contentType: null,
+      });
     });
+
+    initialNamespaces.forEach((name) => {
+      this._namespaceStore.set(name, { name, createdAt: new Date() });
+    });
+  }
+
+  private _isExpired({ expiresAt }: StoredValue, now = Date.now()) {
+    return expiresAt !== null && expiresAt <= now;
+  }
+
+  // Expired values are deleted as they are read
+  private _getStoredValue(key: string) {
+    const stored = this._valueStore.get(key);
+
+    if (stored && this._isExpired(stored)) {
+      this._valueStore.delete(key);
+
+      return undefined;
+    }
+
+    return stored;
   }
 
   public async getValue<T = unknown>(key: string): Promise<T | null> {
-    const value = this._valueStore.get(key);
+    const result = await this.getValueWithMetadata<T>(key);
+
+    return result?.value ?? null;
+  }
+
+  public async getValueWithMetadata<T = unknown>(
+    key: string,
+  ): Promise<ValueWithMetadata<T> | null> {
+    const stored = this._getStoredValue(key);
 
-    if (typeof value === "undefined") {
+    if (typeof stored === "undefined") {
       return null;
     }
 
-    return JSON.parse(value) as T;
+    return {
+      value: JSON.parse(stored.value) as T,
+      expiresAt: stored.expiresAt === null ? null : new Date(stored.expiresAt),
+      version: stored.version,
+      contentType: stored.contentType,
+    };
   }
 
-  public async setValue<T = unknown>(key: string, value: T): Promise<T> {
-    this._valueStore.set(key, JSON.stringify(value));
+  public async setValue<T = unknown>(
+    key: string,
+    value: T,
+    options: SetValueOptions = {},
+  ): Promise<T> {
+    await this.setValueWithMetadata(key, value, options);
 
     return value;
   }
 
+  private _writeValue<T>(
+    key: string,
+    value: T,
+    expiresAt: number | null,
+    contentType: string | null,
+  ) {
+    const version = (this._valueStore.get(key)?.version ?? 0) + 1;
+
+    this._valueStore.set(key, {
+      value: JSON.stringify(value),
+      expiresAt,
+      version,
+      contentType,
+    });
+
+    return {
+      value,
+      expiresAt: expiresAt === null ? null : new Date(expiresAt),
+      version,
+      contentType,
+    };
+  }
+
+  public async setValueWithMetadata<T = unknown>(
+    key: string,
+    value: T,
+    { expiresAt, version, contentType = null }: SetValueOptions = {},
+  ): Promise<ValueWithMetadata<T> | null> {
+    const current = this._getStoredValue(key);
+
+    if (
+      version !== undefined &&
+      (!current || (version !== "*" && current.version !== version))
+    ) {
+      return null;
+    }
+
+    return this._writeValue(
+      key,
+      value,
+      expiresAt?.getTime() ?? null,
+      contentType,
+    );
+  }
+
+  public async incrementValue(
+    key: string,
+    by: number,
+  ): Promise<ValueWithMetadata<number> | null> {
+    const current = this._getStoredValue(key);
+    const value = current ? JSON.parse(current.value) : 0;
+
+    if (typeof value !== "number") {
+      return null;
+    }
+
+    return this._writeValue(key, value + by, current?.expiresAt ?? null, null);
+  }
+
   public async deleteValue(key: string): Promise<void> {
     this._valueStore.delete(key);
   }
+
+  public async getValues<T = unknown>(keys: string[]) {
+    return Promise.all(keys.map((key) => this.getValueWithMetadata<T>(key)));
+  }
+
+  public async setValues<T = unknown>(values: SetValuesEntry<T>[]) {
+    values.forEach(({ key, value, expiresAt, contentType = null }) =>
+      this._writeValue(key, value, expiresAt?.getTime() ?? null, contentType),
+    );
+  }
+
+  public async deleteValues(keys: string[]) {
+    keys.forEach((key) => this._valueStore.delete(key));
+  }
+
+  public async writeValues<T = unknown>(operations: WriteOperation<T>[]) {
+    operations.forEach((operation) =>
+      operation.type === "set"
+        ? this._writeValue(
+            operation.key,
+            operation.value,
+            operation.expiresAt?.getTime() ?? null,
+            operation.contentType ?? null,
+          )
+        : this._valueStore.delete(operation.key),
+    );
+  }
+
+  private _getKeys(prefix = "") {
+    return Array.from(this._valueStore.keys())
+      .filter(
+        (key) =>
+          key.startsWith(prefix) && this._getStoredValue(key) !== undefined,
+      )
+      .sort();
+  }
+
+  public async listValues<T = unknown>({
+    prefix,
+    limit,
+    cursor,
+    includeValues = false,
+  }: ListValuesOptions): Promise<ListValuesResult<T>> {
+    const keys = this._getKeys(prefix).filter((key) => !cursor || key > cursor);
+    const page = keys.slice(0, limit);
+
+    return {
+      values: page.map((key) => {
+        if (!includeValues) {
+          return { key };
+        }
+
+        const stored = this._valueStore.get(key) as StoredValue;
+
+        return {
+          key,
+          value: JSON.parse(stored.value) as T,
+          contentType: stored.contentType,
+        };
+      }),
+      cursor: keys.length > limit ? page[page.length - 1] ?? null : null,
+    };
+  }
+
+  public async deleteValuesByPrefix(prefix: string): Promise<number> {
+    const keys = this._getKeys(prefix);
+
+    keys.forEach((key) => this._valueStore.delete(key));
+
+    return keys.length;
+  }
+
+  public async deleteExpiredValues(): Promise<number> {
+    const now = Date.now();
+    let deleted = 0;
+
+    for (const [key, stored] of this._valueStore) {
+      if (this._isExpired(stored, now)) {
+        this._valueStore.delete(key);
+        deleted++;
+      }
+    }
+
+    return deleted;
+  }
+
+  public async getNamespaces(): Promise<Namespace[]> {
+    return Array.from(this._namespaceStore.values()).sort((a, b) =>
+      a.name.localeCompare(b.name),
+    );
+  }
+
+  public async getNamespace(name: string): Promise<Namespace | null> {
+    return this._namespaceStore.get(name) ?? null;
+  }
+
+  public async createNamespace(name: string): Promise<Namespace> {
+    const namespace = this._namespaceStore.get(name) ?? {
+      name,
+      createdAt: new Date(),
+    };
+
+    this._namespaceStore.set(name, namespace);
+
+    return namespace;
+  }
+
+  public async recordChanges(changes: ChangeEntry[]): Promise<Change[]> {
+    const createdAt = new Date();
+    const recorded = changes.map(({ type, key }) => ({
+      sequence: ++this._lastChangeSequence,
+      type,
+      key,
+      createdAt,
+    }));
+
+    this._changes.push(...recorded);
+
+    return recorded;
+  }
+
+  public async getChanges({
+    prefix = "",
+    after = 0,
+    limit,
+  }: GetChangesOptions): Promise<Change[]> {
+    return this._changes
+      .filter(
+        (change) => change.sequence > after && change.key.startsWith(prefix),
+      )
+      .slice(0, limit);
+  }
+
+  public async getLastChangeSequence(): Promise<number> {
+    return this._lastChangeSequence;
+  }
+
+  public async deleteChangesBefore(date: Date): Promise<number> {
+    const count = this._changes.length;
+
+    this._changes = this._changes.filter(({ createdAt }) => createdAt >= date);
+
+    return count - this._changes.length;
+  }
 }
@@ -1,16 +1,57 @@
-import { type ColumnType, type Migrations } from "@workertown/internal-storage";
+import {
+  type ColumnType,
+  type CompiledQuery,
+  type Migrations,
+  sql,
+} from "@workertown/internal-storage";
 import { PlanetscaleStorageAdapter as BasePlanetscaleStorageAdapter } from "@workertown/internal-storage/planetscale";
 
-import { type StorageAdapter } from "./storage-adapter.js";
+import {
+  type Change,
+  type ChangeEntry,
+  type ChangeType,
+  type GetChangesOptions,
+  type ListValuesOptions,
+  type Namespace,
+  type SetValueOptions,
+  type SetValuesEntry,
+  type StorageAdapter,
+  type ValueWithMetadata,
+  type WriteOperation,
+} from "./storage-adapter.js";
 
 interface KeyValueTable {
   name: string;
   value: string;
+  expires_at: ColumnType<Date | string | null, string | null, string | null>;
+  version: ColumnType<number, number | undefined, number>;
+  content_type: string | null;
   updated_at: ColumnType<Date | string, string, string>;
 }
 
+interface NamespaceTable {
+  name: string;
+  created_at: ColumnType<Date | string, string, string>;
+}
+
+interface ChangeTable {
+  sequence: ColumnType<number | string, number, number>;
+  type: ChangeType;
+  key: string;
+  created_at: ColumnType<Date | string, string, string>;
+}
+
+// A single row, holding the last sequence handed out to a change
+interface ChangeSequenceTable {
+  name: string;
+  sequence: ColumnType<number | string, number, number>;
+}
+
 export interface DatabaseSchema {
   wt_kv_key_values: KeyValueTable;
+  wt_kv_namespaces: NamespaceTable;
+  wt_kv_changes: ChangeTable;
+  wt_kv_change_sequence: ChangeSequenceTable;
 }
 
 const MIGRATIONS: Migrations = [
@@ -44,8 +85,218 @@ const MIGRATIONS: Migrations = [
       },
     },
   },
+  {
+    name: "1792351728412_add_expires_at_column",
+    migration: {
+      async up(db) {
+        await db.schema
+          .alterTable("wt_kv_key_values")
+          .addColumn("expires_at", "datetime(3)")
+          .execute();
+
+        await db.schema
+          .createIndex("wt_kv_key_values_expires_at_idx")
+          .ifNotExists()
+          .on("wt_kv_key_values")
+          .columns(["expires_at"])
+          .execute();
+      },
+      async down(db) {
+        await db.schema
+          .dropIndex("wt_kv_key_values_expires_at_idx")
+          .ifExists()
+          .execute();
+
+        await db.schema
+          .alterTable("wt_kv_key_values")
+          .dropColumn("expires_at")
+          .execute();
+      },
+    },
+  },
+  {
+    name: "1792352136087_add_version_column",
+    migration: {
+      async up(db) {
+        await db.schema
+          .alterTable("wt_kv_key_values")
+          .addColumn("version", "integer", (col) => col.notNull().defaultTo(0))
+          .execute();
+      },
+      async down(db) {
+        await db.schema
+          .alterTable("wt_kv_key_values")
+          .dropColumn("version")
+          .execute();
+      },
+    },
+  },
+  {
+    name: "1792353306529_add_content_type_column",
+    migration: {
+      async up(db) {
+        await db.schema
+          .alterTable("wt_kv_key_values")
+          .addColumn("content_type", "varchar(255)")
+          .execute();
+      },
+      async down(db) {
+        await db.schema
+          .alterTable("wt_kv_key_values")
+          .dropColumn("content_type")
+          .execute();
+      },
+    },
+  },
+  {
+    name: "1792353732264_add_namespaces_table",
+    migration: {
+      async up(db) {
+        await db.schema
+          .createTable("wt_kv_namespaces")
+          .ifNotExists()
+          .addColumn("name", "varchar(255)", (col) => col.notNull())
+          .addColumn("created_at", "timestamp", (col) => col.notNull())
+          .execute();
+
+        await db.schema
+          .createIndex("wt_kv_namespaces_name_idx")
+          .unique()
+          .ifNotExists()
+          .on("wt_kv_namespaces")
+          .columns(["name"])
+          .execute();
+      },
+      async down(db) {
+        await db.schema
+          .dropIndex("wt_kv_namespaces_name_idx")
+          .ifExists()
+          .execute();
+
+        await db.schema.dropTable("wt_kv_namespaces").ifExists().execute();
+      },
+    },
+  },
+  {
+    name: "1792353790318_add_namespaces_for_existing_keys",
+    migration: {
+      // The keys from before there were namespaces are moved into them. Each
+      // key's first segment becomes its namespace, and the keys without one
+      // are moved into the `default` namespace. The keys that can't be moved
+      // (or wouldn't be reachable once moved) fail the migration before any
+      // are moved, so that they can be renamed or deleted first
+      async up(db) {
+        const { rows } = await sql<{ name: string }>`
+          SELECT name
+          FROM wt_kv_key_values
+          WHERE LOCATE('/', name) = 1
+            OR LOCATE('/', name) = CHAR_LENGTH(name)
+            OR (
+              LOCATE('/', name) = 0
+              AND (
+                CHAR_LENGTH(name) > 255 - CHAR_LENGTH('default/')
+                OR CONCAT('default/', name) IN (SELECT name FROM wt_kv_key_values)
+              )
+            )
+          ORDER BY name
+          LIMIT 10
+        `.execute(db);
+
+        if (rows.length > 0) {
+          const keys = rows.map(({ name }) => `'${name}'`).join(", ");
+
+          throw new Error(
+            `Can't move the keys ${keys} into namespaces (they have nothing before or after their first '/', would be too long in the 'default' namespace, or 'default/<key>' already exists)`,
+          );
+        }
+
+        await sql`
+          UPDATE wt_kv_key_values
+          SET name = CONCAT('default/', name)
+          WHERE LOCATE('/', name) = 0
+        `.execute(db);
+
+        await sql`
+          INSERT IGNORE INTO wt_kv_namespaces (name, created_at)
+          SELECT DISTINCT SUBSTRING_INDEX(name, '/', 1), ${formatDate(
+            new Date(),
+          )}
+          FROM wt_kv_key_values
+          WHERE LOCATE('/', name) > 1
+        `.execute(db);
+      },
+      // The moved keys can't be told apart from the ones that have been set in
+      // the namespaces since, so they're left where they are
+      async down() {},
+    },
+  },
+  {
+    name: "1792354721946_add_changes_table",
+    migration: {
+      async up(db) {
+        await db.schema
+          .createTable("wt_kv_changes")
+          .ifNotExists()
+          .addColumn("sequence", "bigint", (col) => col.primaryKey())
+          .addColumn("type", "varchar(255)", (col) => col.notNull())
+          .addColumn("key", "varchar(255)", (col) => col.notNull())
+          .addColumn("created_at", "timestamp", (col) => col.notNull())
+          .execute();
+
+        await db.schema
+          .createIndex("wt_kv_changes_created_at_idx")
+          .ifNotExists()
+          .on("wt_kv_changes")
+          .columns(["created_at"])
+          .execute();
+
+        await db.schema
+          .createTable("wt_kv_change_sequence")
+          .ifNotExists()
+          .addColumn("name", "varchar(255)", (col) => col.primaryKey())
+          .addColumn("sequence", "bigint", (col) => col.notNull())
+          .execute();
+      },
+      async down(db) {
+        await db.schema.dropTable("wt_kv_change_sequence").ifExists().execute();
+
+        await db.schema
+          .dropIndex("wt_kv_changes_created_at_idx")
+          .ifExists()
+          .execute();
+
+        await db.schema.dropTable("wt_kv_changes").ifExists().execute();
+      },
+    },
+  },
 ];
 
+// The name of the row in `wt_kv_change_sequence`
+const CHANGES_SEQUENCE_NAME = "changes";
+
+// Planetscale (MySQL) wants dates as `YYYY-MM-DD HH:MM:SS.sss`, in UTC
+function formatDate(date: Date) {
+  return date.toISOString().substring(0, 23).replace("T", " ");
+}
+
+function parseDate(date: Date | string) {
+  return typeof date === "string"
+    ? new Date(`${date.replace(" ", "T")}Z`)
+    : date;
+}
+
+// How many times to try writing a value that keeps being changed in between
+// reading and writing it
+const MAX_WRITE_ATTEMPTS = 5;
+
+// The first string that sorts after every string that starts with the prefix,
+// so that prefix scans can use the index
+function getPrefixUpperBound(prefix: string) {
+  return `${prefix.slice(0, -1)}${String.fromCharCode(
+    prefix.charCodeAt(prefix.length - 1) + 1,
+  )}`;
+}
+
 export class PlanetscaleStorageAdapter
   extends BasePlanetscaleStorageAdapter<DatabaseSchema>
   implements StorageAdapter
@@ -54,49 +305,156 @@ export class PlanetscaleStorageAdapter
 
   public readonly migrationsPrefix = "wt_kv";
 
+  public readonly supportsTransactions = true;
+
+  // The `value` column is a `varchar(255)`
+  public readonly maxValueSize = 255;
+
+  public readonly supportsChanges = true;
+
   public async getValue<T = unknown>(key: string) {
+    const result = await this.getValueWithMetadata<T>(key);
+
+    return result?.value ?? null;
+  }
+
+  public async getValueWithMetadata<T = unknown>(
+    key: string,
+  ): Promise<ValueWithMetadata<T> | null> {
     const record = await this.client
       .selectFrom("wt_kv_key_values")
       .where("name", "=", key)
-      .select("value")
+      .select(["value", "expires_at", "version", "content_type"])
       .executeTakeFirst();
 
     if (!record) {
       return null;
     }
 
-    return JSON.parse(record.value) as T;
+    // Expired values are deleted as they are read, as well as by
+    // `deleteExpiredValues()`
+    const expiresAt =
+      record.expires_at === null ? null : parseDate(record.expires_at);
+
+    if (expiresAt !== null && expiresAt.getTime() <= Date.now()) {
+      await this.deleteValue(key);
+
+      return null;
+    }
+
+    return {
+      value: JSON.parse(record.value) as T,
+      expiresAt,
+      version: Number(record.version),
+      contentType: record.content_type,
+    };
   }
 
-  public async setValue<T = unknown>(key: string, value: T) {
-    const now = new Date();
-    const existing = await this.client
-      .selectFrom("wt_kv_key_values")
-      .where("name", "=", key)
-      .select("value")
-      .executeTakeFirst();
+  public async setValue<T = unknown>(
+    key: string,
+    value: T,
+    options: SetValueOptions = {},
+  ) {
+    await this.setValueWithMetadata(key, value, options);
 
-    if (existing) {
-      await this.client
-        .updateTable("wt_kv_key_values")
-        .set({
-          value: JSON.stringify(value),
-          updated_at: now.toISOString().substring(0, 19).replace("T", " "),
-        })
+    return value;
+  }
+
+  // Writes the value worked out from the current one, or nothing if `update`
+  // returns `null`. The version is used as an optimistic lock: the write only
+  // goes through if the version hasn't changed since the value was read, and
+  // is tried again if it has
+  private async _updateValue<T>(
+    key: string,
+    update: (current: ValueWithMetadata | null) => {
+      value: T;
+      expiresAt: Date | null;
+      contentType: string | null;
+    } | null,
+  ): Promise<ValueWithMetadata<T> | null> {
+    for (let attempt = 0; attempt < MAX_WRITE_ATTEMPTS; attempt++) {
+      const record = await this.client
+        .selectFrom("wt_kv_key_values")
         .where("name", "=", key)
-        .execute();
-    } else {
-      await this.client
-        .insertInto("wt_kv_key_values")
-        .values({
-          name: key,
-          value: JSON.stringify(value),
-          updated_at: now.toISOString().substring(0, 19).replace("T", " "),
-        })
-        .execute();
+        .select(["value", "expires_at", "version", "content_type"])
+        .executeTakeFirst();
+      const currentVersion = record ? Number(record.version) : 0;
+      const currentExpiresAt =
+        record && record.expires_at !== null
+          ? parseDate(record.expires_at)
+          : null;
+      const next = update(
+        record &&
+        (currentExpiresAt === null || currentExpiresAt.getTime() > Date.now())
+          ? {
+              value: JSON.parse(record.value),
+              expiresAt: currentExpiresAt,
+              version: currentVersion,
+              contentType: record.content_type,
+            }
+          : null,
+      );
+
+      if (!next) {
+        return null;
+      }
+
+      const version = currentVersion + 1;
+      const values = {
+        value: JSON.stringify(next.value),
+        expires_at: next.expiresAt ? formatDate(next.expiresAt) : null,
+        version,
+        content_type: next.contentType,
+        updated_at: formatDate(new Date()),
+      };
+      const written = record
+        ? (
+            await this.client
+              .updateTable("wt_kv_key_values")
+              .set(values)
+              .where("name", "=", key)
+              .where("version", "=", currentVersion)
+              .executeTakeFirst()
+          ).numUpdatedRows
+        : (
+            await this.client
+              .insertInto("wt_kv_key_values")
+              .values({ name: key, ...values })
+              .ignore()
+              .executeTakeFirst()
+          ).numInsertedOrUpdatedRows;
+
+      if (Number(written ?? 0) > 0) {
+        return { ...next, version };
+      }
     }
 
-    return value;
+    throw new Error(`Failed to write '${key}', as it kept being changed`);
+  }
+
+  public async setValueWithMetadata<T = unknown>(
+    key: string,
+    value: T,
+    { expiresAt = null, version, contentType = null }: SetValueOptions = {},
+  ) {
+    return this._updateValue(key, (current) =>
+      version === undefined ||
+      (current !== null && (version === "*" || current.version === version))
+        ? { value, expiresAt, contentType }
+        : null,
+    );
+  }
+
+  public async incrementValue(key: string, by: number) {
+    return this._updateValue(key, (current) =>
+      current === null || typeof current.value === "number"
+        ? {
+            value: ((current?.value as number | undefined) ?? 0) + by,
+            expiresAt: current?.expiresAt ?? null,
+            contentType: null,
+          }
+        : null,
+    );
   }
 
   public async deleteValue(key: string) {
@@ -105,4 +463,302 @@ export class PlanetscaleStorageAdapter
       .where("name", "=", key)
       .execute();
   }
+
+  public async getValues<T = unknown>(keys: string[]) {
+    if (keys.length === 0) {
+      return [];
+    }
+
+    const records = await this.client
+      .selectFrom("wt_kv_key_values")
+      .where("name", "in", keys)
+      .select(["name", "value", "expires_at", "version", "content_type"])
+      .execute();
+    const now = Date.now();
+    const values = new Map<string, ValueWithMetadata<T>>();
+
+    for (const record of records) {
+      const expiresAt =
+        record.expires_at === null ? null : parseDate(record.expires_at);
+
+      if (expiresAt === null || expiresAt.getTime() > now) {
+        values.set(record.name, {
+          value: JSON.parse(record.value) as T,
+          expiresAt,
+          version: Number(record.version),
+          contentType: record.content_type,
+        });
+      }
+    }
+
+    return keys.map((key) => values.get(key) ?? null);
+  }
+
+  // Unlike `setValueWithMetadata()`, the version is bumped by the upsert itself,
+  // so there is no need to read the value first
+  private _getSetQuery<T>({
+    key,
+    value,
+    expiresAt,
+    contentType = null,
+  }: SetValuesEntry<T>) {
+    return this.client
+      .insertInto("wt_kv_key_values")
+      .values({
+        name: key,
+        value: JSON.stringify(value),
+        expires_at: expiresAt ? formatDate(expiresAt) : null,
+        version: 1,
+        content_type: contentType,
+        updated_at: formatDate(new Date()),
+      })
+      .onDuplicateKeyUpdate({
+        value: sql`VALUES(value)`,
+        expires_at: sql`VALUES(expires_at)`,
+        version: sql`version + 1`,
+        content_type: sql`VALUES(content_type)`,
+        updated_at: sql`VALUES(updated_at)`,
+      })
+      .compile();
+  }
+
+  private _getDeleteQuery(keys: string[]) {
+    return this.client
+      .deleteFrom("wt_kv_key_values")
+      .where("name", "in", keys)
+      .compile();
+  }
+
+  // Runs the queries in a single transaction
+  private async _executeQueries(queries: CompiledQuery[]) {
+    await this.client.transaction().execute(async (trx) => {
+      for (const query of queries) {
+        await trx.executeQuery(query);
+      }
+    });
+  }
+
+  public async setValues<T = unknown>(values: SetValuesEntry<T>[]) {
+    if (values.length > 0) {
+      await this._executeQueries(
+        values.map((entry) => this._getSetQuery(entry)),
+      );
+    }
+  }
+
+  public async deleteValues(keys: string[]) {
+    if (keys.length > 0) {
+      await this._executeQueries([this._getDeleteQuery(keys)]);
+    }
+  }
+
+  public async writeValues<T = unknown>(operations: WriteOperation<T>[]) {
+    if (operations.length > 0) {
+      await this._executeQueries(
+        operations.map((operation) =>
+          operation.type === "set"
+            ? this._getSetQuery(operation)
+            : this._getDeleteQuery([operation.key]),
+        ),
+      );
+    }
+  }
+
+  public async listValues<T = unknown>({
+    prefix,
+    limit,
+    cursor,
+    includeValues = false,
+  }: ListValuesOptions) {
+    let query = this.client
+      .selectFrom("wt_kv_key_values")
+      .select(["name", "value", "content_type"])
+      .where((eb) =>
+        eb.or([
+          eb("expires_at", "is", null),
+          eb("expires_at", ">", formatDate(new Date())),
+        ]),
+      )
+      .orderBy("name", "asc")
+      // The extra record tells us whether there is another page
+      .limit(limit + 1);
+
+    if (prefix) {
+      query = query
+        .where("name", ">=", prefix)
+        .where("name", "<", getPrefixUpperBound(prefix));
+    }
+
+    if (cursor) {
+      query = query.where("name", ">", cursor);
+    }
+
+    const records = await query.execute();
+    const page = records.slice(0, limit);
+
+    return {
+      values: page.map(({ name, value, content_type }) =>
+        includeValues
+          ? {
+              key: name,
+              value: JSON.parse(value) as T,
+              contentType: content_type,
+            }
+          : { key: name },
+      ),
+      cursor:
+        records.length > limit ? page[page.length - 1]?.name ?? null : null,
+    };
+  }
+
+  public async deleteValuesByPrefix(prefix: string) {
+    let query = this.client.deleteFrom("wt_kv_key_values");
+
+    if (prefix) {
+      query = query
+        .where("name", ">=", prefix)
+        .where("name", "<", getPrefixUpperBound(prefix));
+    }
+
+    const result = await query.executeTakeFirst();
+
+    return Number(result.numDeletedRows);
+  }
+
+  public async deleteExpiredValues() {
+    const result = await this.client
+      .deleteFrom("wt_kv_key_values")
+      .where("expires_at", "<=", formatDate(new Date()))
+      .executeTakeFirst();
+
+    return Number(result.numDeletedRows);
+  }
+
+  public async getNamespaces() {
+    const records = await this.client
+      .selectFrom("wt_kv_namespaces")
+      .select(["name", "created_at"])
+      .orderBy("name")
+      .execute();
+
+    return records.map((record) => ({
+      name: record.name,
+      createdAt: parseDate(record.created_at),
+    }));
+  }
+
+  public async getNamespace(name: string) {
+    const record = await this.client
+      .selectFrom("wt_kv_namespaces")
+      .where("name", "=", name)
+      .select(["name", "created_at"])
+      .executeTakeFirst();
+
+    return record
+      ? { name: record.name, createdAt: parseDate(record.created_at) }
+      : null;
+  }
+
+  public async createNamespace(name: string) {
+    await this.client
+      .insertInto("wt_kv_namespaces")
+      .values({ name, created_at: formatDate(new Date()) })
+      .ignore()
+      .execute();
+
+    return (await this.getNamespace(name)) as Namespace;
+  }
+
+  // The counter is moved and the changes are inserted in one transaction.
+  // Moving the counter locks its row until the transaction commits, so the
+  // changes are committed in the order of their sequences, and a change is
+  // never readable before the ones with lower sequences are
+  public async recordChanges(changes: ChangeEntry[]) {
+    if (changes.length === 0) {
+      return [];
+    }
+
+    return this.client.transaction().execute(async (trx) => {
+      await trx
+        .insertInto("wt_kv_change_sequence")
+        .values({ name: CHANGES_SEQUENCE_NAME, sequence: changes.length })
+        .onDuplicateKeyUpdate({
+          sequence: sql`sequence + ${changes.length}`,
+        })
+        .execute();
+
+      const counter = await trx
+        .selectFrom("wt_kv_change_sequence")
+        .select("sequence")
+        .where("name", "=", CHANGES_SEQUENCE_NAME)
+        .executeTakeFirstOrThrow();
+      const first = Number(counter.sequence) - changes.length + 1;
+      const createdAt = new Date();
+      const recorded: Change[] = changes.map(({ type, key }, index) => ({
+        sequence: first + index,
+        type,
+        key,
+        createdAt,
+      }));
+
+      await trx
+        .insertInto("wt_kv_changes")
+        .values(
+          recorded.map((change) => ({
+            sequence: change.sequence,
+            type: change.type,
+            key: change.key,
+            created_at: formatDate(createdAt),
+          })),
+        )
+        .execute();
+
+      return recorded;
+    });
+  }
+
+  public async getChanges({ prefix, after = 0, limit }: GetChangesOptions) {
+    let query = this.client
+      .selectFrom("wt_kv_changes")
+      .select(["sequence", "type", "key", "created_at"])
+      .where("sequence", ">", after)
+      .orderBy("sequence", "asc")
+      .limit(limit);
+
+    if (prefix) {
+      query = query
+        .where("key", ">=", prefix)
+        .where("key", "<", getPrefixUpperBound(prefix));
+    }
+
+    const records = await query.execute();
+
+    // `bigint`s come back as strings
+    return records.map((record) => ({
+      sequence: Number(record.sequence),
+      type: record.type,
+      key: record.key,
+      createdAt: parseDate(record.created_at),
+    }));
+  }
+
+  public async getLastChangeSequence() {
+    const record = await this.client
+      .selectFrom("wt_kv_change_sequence")
+      .select("sequence")
+      .where("name", "=", CHANGES_SEQUENCE_NAME)
+      .executeTakeFirst();
+
+    // `bigint`s come back as strings
+    return Number(record?.sequence ?? 0);
+  }
+
+  public async deleteChangesBefore(date: Date) {
+    const result = await this.client
+      .deleteFrom("wt_kv_changes")
+      .where("created_at", "<", formatDate(date))
+      .executeTakeFirst();
+
+    return Number(result.numDeletedRows);
+  }
 }
@@ -1,18 +1,237 @@
 import { StorageAdapter as BaseStorageAdapter } from "@workertown/internal-storage";
 
+export interface ValueWithMetadata<T = unknown> {
+  value: T;
+  // When the value expires, or `null` if it never does
+  expiresAt: Date | null;
+  // Goes up by one every time the value is written. Values that were set
+  // before they were versioned are version `0`
+  version: number;
+  // `null` for JSON values. Otherwise, the value is the base64 encoded bytes
+  contentType: string | null;
+}
+
+export interface SetValueOptions {
+  expiresAt?: Date | null;
+  contentType?: string | null;
+  // Only set the value if it is currently this version, or if it exists at all
+  // for `*`
+  version?: number | "*";
+}
+
+export interface SetValuesEntry<T = unknown> {
+  key: string;
+  value: T;
+  expiresAt?: Date | null;
+  contentType?: string | null;
+}
+
+export type WriteOperation<T = unknown> =
+  | ({ type: "set" } & SetValuesEntry<T>)
+  | { type: "delete"; key: string };
+
+export interface KeyValue<T = unknown> {
+  key: string;
+  value?: T;
+  contentType?: string | null;
+}
+
+export interface ListValuesOptions {
+  prefix?: string;
+  limit: number;
+  cursor?: string;
+  includeValues?: boolean;
+}
+
+export interface ListValuesResult<T = unknown> {
+  values: KeyValue<T>[];
+  // The cursor to pass back in to get the next page, or `null` if there isn't
+  // one
+  cursor: string | null;
+}
+
+export interface Namespace {
+  name: string;
+  createdAt: Date;
+}
+
+// `delete_prefix` is for `deleteValuesByPrefix()`, with the prefix as the key
+export type ChangeType = "set" | "delete" | "delete_prefix";
+
+export interface ChangeEntry {
+  type: ChangeType;
+  key: string;
+}
+
+export interface Change extends ChangeEntry {
+  // Goes up by one with every change that is recorded
+  sequence: number;
+  createdAt: Date;
+}
+
+export interface GetChangesOptions {
+  prefix?: string;
+  // Only get the changes with a higher sequence than this
+  after?: number;
+  limit: number;
+}
+
 export class StorageAdapter extends BaseStorageAdapter {
+  // Whether `writeValues()` can apply the writes all-or-nothing
+  public readonly supportsTransactions: boolean = false;
+
+  // The largest value (in bytes, once serialized as JSON) that fits in a row
+  // or item. Anything larger is offloaded to the files instead
+  public readonly maxValueSize: number = Infinity;
+
+  // Whether the changes to the values can be recorded, with a sequence that
+  // can be resumed from
+  public readonly supportsChanges: boolean = false;
+
   // biome-ignore lint/correctness/noUnusedVariables: Stub class
   public async getValue<T = unknown>(key: string): Promise<T | null> {
     throw new Error("'getValue()' not implemented");
   }
 
-  // biome-ignore lint/correctness/noUnusedVariables: Stub class
-  public async setValue<T = unknown>(key: string, value: T): Promise<T> {
+  public async getValueWithMetadata<T = unknown>(
+    // biome-ignore lint/correctness/noUnusedVariables: Stub class
+    key: string,
+  ): Promise<ValueWithMetadata<T> | null> {
+    throw new Error("'getValueWithMetadata()' not implemented");
+  }
+
+  public async setValue<T = unknown>(
+    // biome-ignore lint/correctness/noUnusedVariables: Stub class
+    key: string,
+    // biome-ignore lint/correctness/noUnusedVariables: Stub class
+    value: T,
+    // biome-ignore lint/correctness/noUnusedVariables: Stub class
+    options?: SetValueOptions,
+  ): Promise<T> {
     throw new Error("'setValue()' not implemented");
   }
 
+  // Returns `null` (without setting the value) if the `version` doesn't match
+  public async setValueWithMetadata<T = unknown>(
+    // biome-ignore lint/correctness/noUnusedVariables: Stub class
+    key: string,
+    // biome-ignore lint/correctness/noUnusedVariables: Stub class
+    value: T,
+    // biome-ignore lint/correctness/noUnusedVariables: Stub class
+    options?: SetValueOptions,
+  ): Promise<ValueWithMetadata<T> | null> {
+    throw new Error("'setValueWithMetadata()' not implemented");
+  }
+
+  // Atomically adds to a numeric value (keeping its expiry), starting from `0`
+  // if it doesn't exist. Returns `null` if the value isn't a number
+  public async incrementValue(
+    // biome-ignore lint/correctness/noUnusedVariables: Stub class
+    key: string,
+    // biome-ignore lint/correctness/noUnusedVariables: Stub class
+    by: number,
+  ): Promise<ValueWithMetadata<number> | null> {
+    throw new Error("'incrementValue()' not implemented");
+  }
+
   // biome-ignore lint/correctness/noUnusedVariables: Stub class
   public async deleteValue(key: string): Promise<void> {
     throw new Error("'deleteValue()' not implemented");
   }
+
+  // The results are in the same order as the keys, with `null` for the keys
+  // that don't exist
+  public async getValues<T = unknown>(
+    // biome-ignore lint/correctness/noUnusedVariables: Stub class
+    keys: string[],
+  ): Promise<(ValueWithMetadata<T> | null)[]> {
+    throw new Error("'getValues()' not implemented");
+  }
+
+  public async setValues<T = unknown>(
+    // biome-ignore lint/correctness/noUnusedVariables: Stub class
+    values: SetValuesEntry<T>[],
+  ): Promise<void> {
+    throw new Error("'setValues()' not implemented");
+  }
+
+  // biome-ignore lint/correctness/noUnusedVariables: Stub class
+  public async deleteValues(keys: string[]): Promise<void> {
+    throw new Error("'deleteValues()' not implemented");
+  }
+
+  // Applies every write (in order) or none of them. This is only called when
+  // `supportsTransactions` is `true`
+  public async writeValues<T = unknown>(
+    // biome-ignore lint/correctness/noUnusedVariables: Stub class
+    operations: WriteOperation<T>[],
+  ): Promise<void> {
+    throw new Error("'writeValues()' not implemented");
+  }
+
+  public async listValues<T = unknown>(
+    // biome-ignore lint/correctness/noUnusedVariables: Stub class
+    options: ListValuesOptions,
+  ): Promise<ListValuesResult<T>> {
+    throw new Error("'listValues()' not implemented");
+  }
+
+  // Deletes every value with a key that starts with the prefix, returning how
+  // many were deleted
+  // biome-ignore lint/correctness/noUnusedVariables: Stub class
+  public async deleteValuesByPrefix(prefix: string): Promise<number> {
+    throw new Error("'deleteValuesByPrefix()' not implemented");
+  }
+
+  public async getNamespaces(): Promise<Namespace[]> {
+    throw new Error("'getNamespaces()' not implemented");
+  }
+
+  // biome-ignore lint/correctness/noUnusedVariables: Stub class
+  public async getNamespace(name: string): Promise<Namespace | null> {
+    throw new Error("'getNamespace()' not implemented");
+  }
+
+  // Returns the existing namespace if there already is one with the name
+  // biome-ignore lint/correctness/noUnusedVariables: Stub class
+  public async createNamespace(name: string): Promise<Namespace> {
+    throw new Error("'createNamespace()' not implemented");
+  }
+
+  // Records the changes in order, with the next sequences. This is only called
+  // when `supportsChanges` is `true`
+  public async recordChanges(
+    // biome-ignore lint/correctness/noUnusedVariables: Stub class
+    changes: ChangeEntry[],
+  ): Promise<Change[]> {
+    throw new Error("'recordChanges()' not implemented");
+  }
+
+  // The changes are in order of their sequence
+  public async getChanges(
+    // biome-ignore lint/correctness/noUnusedVariables: Stub class
+    options: GetChangesOptions,
+  ): Promise<Change[]> {
+    throw new Error("'getChanges()' not implemented");
+  }
+
+  // Returns `0` if no changes have been recorded yet
+  public async getLastChangeSequence(): Promise<number> {
+    throw new Error("'getLastChangeSequence()' not implemented");
+  }
+
+  // Deletes the changes that were recorded before the date, returning how many
+  // were deleted. The latest change can be kept back, if that's how the
+  // storage knows the last sequence
+  // biome-ignore lint/correctness/noUnusedVariables: Stub class
+  public async deleteChangesBefore(date: Date): Promise<number> {
+    throw new Error("'deleteChangesBefore()' not implemented");
+  }
+
+  // Deletes the values that have expired, returning how many were deleted.
+  // Expired values are never returned either way, but the backends without
+  // native expiry need sweeping to free up the space they take
+  public async deleteExpiredValues(): Promise<number> {
+    throw new Error("'deleteExpiredValues()' not implemented");
+  }
 }
@@ -1,13 +1,151 @@
 import { Redis } from "@upstash/redis";
 
-import { StorageAdapter } from "./storage-adapter.js";
+import {
+  type Change,
+  type ChangeEntry,
+  type ChangeType,
+  type GetChangesOptions,
+  type ListValuesOptions,
+  type ListValuesResult,
+  type Namespace,
+  type SetValueOptions,
+  type SetValuesEntry,
+  StorageAdapter,
+  type ValueWithMetadata,
+  type WriteOperation,
+} from "./storage-adapter.js";
 
 interface UpstashRedisStorageAdapterOptions {
   url: string;
   token: string;
 }
 
+// The formatted keys can't be turned back into the keys (as both `/` and `_`
+// become `_`), so a hash of the formatted keys to the keys is kept for listing
+const KEYS_KEY = "wt_kv_keys";
+
+// The versions are kept in a hash of the formatted keys too, so that they can
+// be read and written alongside the values
+const VERSIONS_KEY = "wt_kv_versions";
+
+// As are the content types of the values that aren't JSON
+const CONTENT_TYPES_KEY = "wt_kv_content_types";
+
+// A hash of the namespaces to when they were created
+const NAMESPACES_KEY = "wt_kv_namespaces";
+
+// A sorted set of the changes, scored by their sequence, which comes from a
+// counter of its own
+const CHANGES_KEY = "wt_kv_changes";
+const CHANGES_SEQUENCE_KEY = "wt_kv_changes_sequence";
+
+// How the changes are stored in the sorted set
+interface StoredChange {
+  sequence: number;
+  type: ChangeType;
+  key: string;
+  createdAt: number;
+}
+
+// Upstash is accessed over HTTP, so `WATCH` (which needs a connection) can't be
+// used. Scripts run atomically though, so the version check and writes are done
+// in one instead. Both take the keys of the value, the versions hash, the keys
+// hash and the content types hash, followed by whatever they are setting and
+// the formatted key and the key
+const SET_SCRIPT = `
+local exists = redis.call("EXISTS", KEYS[1]) == 1
+local version = tonumber(redis.call("HGET", KEYS[2], ARGV[2])) or 0
+
+if ARGV[4] ~= "" and (not exists or (ARGV[4] ~= "*" and version ~= tonumber(ARGV[4]))) then
+  return nil
+end
+
+if ARGV[5] ~= "" then
+  redis.call("SET", KEYS[1], ARGV[1], "PXAT", ARGV[5])
+else
+  redis.call("SET", KEYS[1], ARGV[1])
+end
+
+redis.call("HSET", KEYS[3], ARGV[2], ARGV[3])
+
+if ARGV[6] ~= "" then
+  redis.call("HSET", KEYS[4], ARGV[2], ARGV[6])
+else
+  redis.call("HDEL", KEYS[4], ARGV[2])
+end
+
+return redis.call("HINCRBY", KEYS[2], ARGV[2], 1)
+`;
+
+// Reserves the sequences and adds the changes to the sorted set in one go, so
+// that a change is never readable before the ones with lower sequences are.
+// It takes the sequence counter and the sorted set, followed by the changes as
+// JSON without their sequences, which are spliced in here. It returns the last
+// sequence it reserved
+const RECORD_CHANGES_SCRIPT = `
+local last = redis.call("INCRBY", KEYS[1], #ARGV)
+local first = last - #ARGV + 1
+
+for i, change in ipairs(ARGV) do
+  local sequence = first + i - 1
+
+  redis.call("ZADD", KEYS[2], sequence, '{"sequence":' .. sequence .. ',' .. string.sub(change, 2))
+end
+
+return last
+`;
+
+// Both commands keep the expiry of the value. `INCRBYFLOAT` is only used when
+// it has to be, as it can introduce rounding errors
+const INCREMENT_SCRIPT = `
+local value = redis.call("GET", KEYS[1])
+
+if value and not tonumber(value) then
+  return nil
+end
+
+local isInteger = string.match(ARGV[1], "^-?%d+$") and (not value or string.match(value, "^-?%d+$"))
+local next = redis.call(isInteger and "INCRBY" or "INCRBYFLOAT", KEYS[1], ARGV[1])
+
+redis.call("HSET", KEYS[3], ARGV[2], ARGV[3])
+redis.call("HDEL", KEYS[4], ARGV[2])
+
+return { tostring(next), redis.call("HINCRBY", KEYS[2], ARGV[2], 1), redis.call("PTTL", KEYS[1]) }
+`;
+
+// Removes the formatted keys (passed as the arguments) of the values that no
+// longer exist from the versions, keys and content types hashes (passed as the
+// keys). This is checked in a script, so that a value that's set in the
+// meantime keeps its version
+const SWEEP_SCRIPT = `
+local deleted = 0
+
+for _, key in ipairs(ARGV) do
+  if redis.call("EXISTS", key) == 0 then
+    redis.call("HDEL", KEYS[1], key)
+    redis.call("HDEL", KEYS[2], key)
+    redis.call("HDEL", KEYS[3], key)
+    deleted = deleted + 1
+  end
+end
+
+return deleted
+`;
+
+type Pipeline = ReturnType<Redis["pipeline"]>;
+
 export class UpstashRedisStorageAdapter extends StorageAdapter {
+  // The writes are sent as a `MULTI`/`EXEC` transaction. Redis doesn't roll
+  // back a transaction if one of its commands fails, but none of these can
+  // (they don't care about what was there before)
+  public readonly supportsTransactions = true;
+
+  // Upstash limits each request to 1MB, which has to fit the key and the rest
+  // of the command too
+  public readonly maxValueSize = 1000 * 1000 - 64 * 1024;
+
+  public readonly supportsChanges = true;
+
   private readonly _client: Redis;
 
   constructor(options: UpstashRedisStorageAdapterOptions) {
@@ -26,13 +164,442 @@ export class UpstashRedisStorageAdapter extends StorageAdapter {
     return (value as T) ?? null;
   }
 
-  public async setValue<T = unknown>(key: string, value: T) {
-    await this._client.set(this._formatKey(key), JSON.stringify(value));
+  public async getValueWithMetadata<T = unknown>(
+    key: string,
+  ): Promise<ValueWithMetadata<T> | null> {
+    const formattedKey = this._formatKey(key);
+    const [value, ttl, version, contentType] = await Promise.all([
+      this._client.get<T>(formattedKey),
+      this._client.pttl(formattedKey),
+      this._client.hget<number>(VERSIONS_KEY, formattedKey),
+      this._client.hget<string>(CONTENT_TYPES_KEY, formattedKey),
+    ]);
+
+    if (value === null) {
+      return null;
+    }
+
+    return {
+      value,
+      expiresAt: this._getExpiresAt(ttl),
+      version: Number(version ?? 0),
+      contentType: contentType ?? null,
+    };
+  }
+
+  // `PTTL` is negative when the key doesn't expire
+  private _getExpiresAt(ttl: number) {
+    return ttl >= 0 ? new Date(Date.now() + ttl) : null;
+  }
+
+  public async setValue<T = unknown>(
+    key: string,
+    value: T,
+    options: SetValueOptions = {},
+  ) {
+    await this.setValueWithMetadata(key, value, options);
 
     return value;
   }
 
+  public async setValueWithMetadata<T = unknown>(
+    key: string,
+    value: T,
+    { expiresAt = null, contentType = null, version }: SetValueOptions = {},
+  ): Promise<ValueWithMetadata<T> | null> {
+    const formattedKey = this._formatKey(key);
+    const newVersion = await this._client.eval<string[], number | null>(
+      SET_SCRIPT,
+      [formattedKey, VERSIONS_KEY, KEYS_KEY, CONTENT_TYPES_KEY],
+      [
+        JSON.stringify(value),
+        formattedKey,
+        key,
+        version === undefined ? "" : String(version),
+        expiresAt ? String(expiresAt.getTime()) : "",
+        contentType ?? "",
+      ],
+    );
+
+    return newVersion === null
+      ? null
+      : { value, expiresAt, version: Number(newVersion), contentType };
+  }
+
+  public async incrementValue(
+    key: string,
+    by: number,
+  ): Promise<ValueWithMetadata<number> | null> {
+    const formattedKey = this._formatKey(key);
+    const result = await this._client.eval<
+      string[],
+      [string | number, number, number] | null
+    >(
+      INCREMENT_SCRIPT,
+      [formattedKey, VERSIONS_KEY, KEYS_KEY, CONTENT_TYPES_KEY],
+      [String(by), formattedKey, key],
+    );
+
+    if (!result) {
+      return null;
+    }
+
+    const [value, version, ttl] = result;
+
+    return {
+      value: Number(value),
+      expiresAt: this._getExpiresAt(ttl),
+      version: Number(version),
+      contentType: null,
+    };
+  }
+
   public async deleteValue(key: string) {
-    await this._client.del(this._formatKey(key));
+    const formattedKey = this._formatKey(key);
+
+    await Promise.all([
+      this._client.del(formattedKey),
+      this._client.hdel(KEYS_KEY, formattedKey),
+      this._client.hdel(VERSIONS_KEY, formattedKey),
+      this._client.hdel(CONTENT_TYPES_KEY, formattedKey),
+    ]);
+  }
+
+  public async getValues<T = unknown>(keys: string[]) {
+    if (keys.length === 0) {
+      return [];
+    }
+
+    const formattedKeys = keys.map((key) => this._formatKey(key));
+    const pipeline = this._client.pipeline();
+
+    pipeline.mget(...formattedKeys);
+    pipeline.hmget(VERSIONS_KEY, ...formattedKeys);
+    pipeline.hmget(CONTENT_TYPES_KEY, ...formattedKeys);
+    formattedKeys.forEach((formattedKey) => pipeline.pttl(formattedKey));
+
+    const [values, versions, contentTypes, ...ttls] = await pipeline.exec<
+      [
+        (T | null)[],
+        Record<string, number | null> | null,
+        Record<string, string | null> | null,
+        ...number[],
+      ]
+    >();
+
+    return formattedKeys.map((formattedKey, index) => {
+      const value = values[index] ?? null;
+
+      return value === null
+        ? null
+        : {
+            value,
+            expiresAt: this._getExpiresAt(ttls[index] as number),
+            version: Number(versions?.[formattedKey] ?? 0),
+            contentType: contentTypes?.[formattedKey] ?? null,
+          };
+    });
+  }
+
+  // Queues up the same writes as `SET_SCRIPT` does, without the version check
+  private _queueSet<T>(
+    pipeline: Pipeline,
+    { key, value, expiresAt, contentType }: SetValuesEntry<T>,
+  ) {
+    const formattedKey = this._formatKey(key);
+
+    if (expiresAt) {
+      pipeline.set(formattedKey, JSON.stringify(value), {
+        pxat: expiresAt.getTime(),
+      });
+    } else {
+      pipeline.set(formattedKey, JSON.stringify(value));
+    }
+
+    pipeline.hset(KEYS_KEY, { [formattedKey]: key });
+    pipeline.hincrby(VERSIONS_KEY, formattedKey, 1);
+
+    if (contentType) {
+      pipeline.hset(CONTENT_TYPES_KEY, { [formattedKey]: contentType });
+    } else {
+      pipeline.hdel(CONTENT_TYPES_KEY, formattedKey);
+    }
+  }
+
+  private _queueDelete(pipeline: Pipeline, keys: string[]) {
+    const formattedKeys = keys.map((key) => this._formatKey(key));
+
+    pipeline.del(...formattedKeys);
+    pipeline.hdel(KEYS_KEY, ...formattedKeys);
+    pipeline.hdel(VERSIONS_KEY, ...formattedKeys);
+    pipeline.hdel(CONTENT_TYPES_KEY, ...formattedKeys);
+  }
+
+  public async setValues<T = unknown>(values: SetValuesEntry<T>[]) {
+    if (values.length > 0) {
+      const pipeline = this._client.pipeline();
+
+      values.forEach((entry) => this._queueSet(pipeline, entry));
+
+      await pipeline.exec();
+    }
+  }
+
+  public async deleteValues(keys: string[]) {
+    if (keys.length > 0) {
+      const pipeline = this._client.pipeline();
+
+      this._queueDelete(pipeline, keys);
+
+      await pipeline.exec();
+    }
+  }
+
+  public async writeValues<T = unknown>(operations: WriteOperation<T>[]) {
+    if (operations.length > 0) {
+      const transaction = this._client.multi();
+
+      operations.forEach((operation) =>
+        operation.type === "set"
+          ? this._queueSet(transaction, operation)
+          : this._queueDelete(transaction, [operation.key]),
+      );
+
+      await transaction.exec();
+    }
+  }
+
+  // `SCAN` doesn't guarantee the number of keys it returns (`COUNT` is only a
+  // hint), so the pages are roughly `limit` in size
+  public async listValues<T = unknown>({
+    prefix = "",
+    limit,
+    cursor,
+    includeValues = false,
+  }: ListValuesOptions): Promise<ListValuesResult<T>> {
+    const pattern = this._formatKey(prefix).replaceAll(/[*?[\]\\]/g, "\\$&");
+    const [nextCursor, formattedKeys] = await this._client.scan(
+      cursor ? parseInt(cursor, 10) : 0,
+      { match: `${pattern}*`, count: limit },
+    );
+    const originalKeys =
+      formattedKeys.length > 0
+        ? await this._client.hmget<Record<string, string | null>>(
+            KEYS_KEY,
+            ...formattedKeys,
+          )
+        : null;
+    const keys = formattedKeys
+      .map((formattedKey) => ({
+        formattedKey,
+        // Values set before the keys were kept in the hash fall back to the
+        // formatted key
+        key: originalKeys?.[formattedKey] ?? formattedKey.replace(/^kv_/, ""),
+      }))
+      .filter(({ key }) => key.startsWith(prefix));
+    const [values, contentTypes] =
+      includeValues && keys.length > 0
+        ? await Promise.all([
+            this._client.mget<T[]>(
+              ...keys.map(({ formattedKey }) => formattedKey),
+            ),
+            this._client.hmget<Record<string, string | null>>(
+              CONTENT_TYPES_KEY,
+              ...keys.map(({ formattedKey }) => formattedKey),
+            ),
+          ])
+        : [[], null];
+
+    return {
+      values: keys.map(({ key, formattedKey }, index) =>
+        includeValues
+          ? {
+              key,
+              value: values[index] as T,
+              contentType: contentTypes?.[formattedKey] ?? null,
+            }
+          : { key },
+      ),
+      cursor: nextCursor === 0 ? null : String(nextCursor),
+    };
+  }
+
+  public async deleteValuesByPrefix(prefix: string) {
+    let deleted = 0;
+    let cursor: string | null = null;
+
+    do {
+      const page: ListValuesResult = await this.listValues({
+        prefix,
+        limit: 100,
+        cursor: cursor ?? undefined,
+      });
+      const formattedKeys = page.values.map(({ key }) => this._formatKey(key));
+
+      if (formattedKeys.length > 0) {
+        const [count] = await Promise.all([
+          this._client.del(...formattedKeys),
+          this._client.hdel(KEYS_KEY, ...formattedKeys),
+          this._client.hdel(VERSIONS_KEY, ...formattedKeys),
+          this._client.hdel(CONTENT_TYPES_KEY, ...formattedKeys),
+        ]);
+
+        deleted += count;
+      }
+
+      cursor = page.cursor;
+    } while (cursor);
+
+    return deleted;
+  }
+
+  // Redis expires the values itself, but not their entries in the hashes, so
+  // those are swept instead. Returns how many were swept
+  public async deleteExpiredValues() {
+    let deleted = 0;
+    let cursor = 0;
+
+    do {
+      const [nextCursor, fields] = await this._client.hscan(KEYS_KEY, cursor, {
+        count: 100,
+      });
+      // The fields and values alternate, and only the fields (the formatted
+      // keys) are needed
+      const formattedKeys = fields
+        .filter((_, index) => index % 2 === 0)
+        .map(String);
+
+      if (formattedKeys.length > 0) {
+        deleted += await this._client.eval<string[], number>(
+          SWEEP_SCRIPT,
+          [VERSIONS_KEY, KEYS_KEY, CONTENT_TYPES_KEY],
+          formattedKeys,
+        );
+      }
+
+      cursor = nextCursor;
+    } while (cursor !== 0);
+
+    return deleted;
+  }
+
+  public async getNamespaces() {
+    const namespaces =
+      (await this._client.hgetall<Record<string, number>>(NAMESPACES_KEY)) ??
+      {};
+
+    return Object.entries(namespaces)
+      .map(
+        ([name, createdAt]): Namespace => ({
+          name,
+          createdAt: new Date(Number(createdAt)),
+        }),
+      )
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  public async getNamespace(name: string) {
+    const createdAt = await this._client.hget<number>(NAMESPACES_KEY, name);
+
+    return createdAt === null
+      ? null
+      : { name, createdAt: new Date(Number(createdAt)) };
+  }
+
+  public async createNamespace(name: string) {
+    await this._client.hsetnx(NAMESPACES_KEY, name, Date.now());
+
+    return (await this.getNamespace(name)) as Namespace;
+  }
+
+  private _parseChange({ createdAt, ...change }: StoredChange): Change {
+    return { ...change, createdAt: new Date(createdAt) };
+  }
+
+  public async recordChanges(changes: ChangeEntry[]) {
+    if (changes.length === 0) {
+      return [];
+    }
+
+    const createdAt = Date.now();
+    const last = await this._client.eval<string[], number>(
+      RECORD_CHANGES_SCRIPT,
+      [CHANGES_SEQUENCE_KEY, CHANGES_KEY],
+      changes.map(({ type, key }) => JSON.stringify({ type, key, createdAt })),
+    );
+
+    return changes.map(({ type, key }, index) =>
+      this._parseChange({
+        sequence: last - changes.length + 1 + index,
+        type,
+        key,
+        createdAt,
+      }),
+    );
+  }
+
+  // The changes are paged through until there are enough with the prefix (or
+  // there are no more)
+  public async getChanges({
+    prefix = "",
+    after = 0,
+    limit,
+  }: GetChangesOptions) {
+    const changes: Change[] = [];
+
+    for (let offset = 0; changes.length < limit; offset += limit) {
+      const page = await this._client.zrange<StoredChange[]>(
+        CHANGES_KEY,
+        `(${after}`,
+        "+inf",
+        { byScore: true, offset, count: limit },
+      );
+
+      changes.push(
+        ...page
+          .filter(({ key }) => key.startsWith(prefix))
+          .map((change) => this._parseChange(change)),
+      );
+
+      if (page.length < limit) {
+        break;
+      }
+    }
+
+    return changes.slice(0, limit);
+  }
+
+  public async getLastChangeSequence() {
+    return Number((await this._client.get<number>(CHANGES_SEQUENCE_KEY)) ?? 0);
+  }
+
+  // The changes are recorded in order, so the oldest ones are read until one
+  // that was recorded after the date
+  public async deleteChangesBefore(date: Date) {
+    let deleted = 0;
+
+    while (true) {
+      const page = await this._client.zrange<StoredChange[]>(
+        CHANGES_KEY,
+        0,
+        99,
+      );
+      const expired = page.filter(
+        ({ createdAt }) => createdAt < date.getTime(),
+      );
+      const last = expired[expired.length - 1];
+
+      if (last) {
+        deleted += await this._client.zremrangebyscore(
+          CHANGES_KEY,
+          0,
+          last.sequence,
+        );
+      }
+
+      if (expired.length < 100) {
+        return deleted;
+      }
+    }
   }
 }
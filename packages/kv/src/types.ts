@@ -1,27 +1,71 @@
-import { type ServerOptions as BaseServerOptions } from "@workertown/internal-server";
+import {
+  type ServerOptions as BaseServerOptions,
+  type User,
+} from "@workertown/internal-server";
 
+import { type ChangeNotifier } from "./changes.js";
+import { type FilesAdapter } from "./files/files-adapter.js";
 import { type StorageAdapter } from "./storage/index.js";
 
 export interface ServerOptions extends BaseServerOptions {
   endpoints: {
     v1: {
       admin: string | false;
+      changes: string | false;
       kv: string | false;
     };
     public: string | false;
   };
   env: {
     db: string;
+    files: string;
   };
+  policy?: KvPolicy;
   runtime?: RuntimeResolver;
+  webhooks?: KvWebhook[];
+}
+
+// The `key` or `prefix` is relative to the namespace. The `/v1/admin` endpoints
+// are the `admin` action, with the `namespace` set when creating one
+export type KvAccess =
+  | ({
+      action: "read" | "write";
+      namespace: string;
+    } & ({ key: string } | { prefix: string }))
+  | {
+      action: "admin";
+      operation: "info" | "migrate" | "get_namespaces" | "create_namespace";
+      namespace?: string;
+    };
+
+// Returns whether the user is allowed the access to the namespace
+export type KvPolicy = (
+  user: User,
+  access: KvAccess,
+) => boolean | Promise<boolean>;
+
+// Changes to the keys in the namespace (under the prefix, if there is one) are
+// sent to the endpoint as `{ changes: [...] }`
+export interface KvWebhook {
+  namespace: string;
+  prefix?: string;
+  endpoint: string;
+  method?: "POST" | "PUT" | "PATCH";
+  headers?: Record<string, string>;
+  queryParameters?: Record<string, string>;
 }
 
 export type Context = {
+  changes: ChangeNotifier;
   config: ServerOptions;
+  // `null` if the values that are too large for the storage can't be offloaded
+  files: FilesAdapter | null;
   storage: StorageAdapter;
+  user: User;
 };
 
 export interface Runtime {
+  files?: FilesAdapter;
   storage: StorageAdapter;
 }
 
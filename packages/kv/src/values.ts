@@ -0,0 +1,138 @@
+import { type FilesAdapter } from "./files/files-adapter.js";
+
+// The content type of the values that have been offloaded to the files, which
+// point at the file instead. Values can't be set with it, so that the pointers
+// can't be forged
+export const FILE_CONTENT_TYPE = "application/vnd.workertown.kv-file+json";
+
+// `btoa()` takes a string of bytes, which is built up in chunks so that the
+// arguments to `String.fromCharCode()` don't overflow the stack
+const BASE64_CHUNK_SIZE = 0x8000;
+
+export interface Value {
+  value: unknown;
+  // `null` for JSON values. Otherwise, the value is the base64 encoded bytes
+  contentType: string | null;
+}
+
+export interface FilePointer {
+  file: string;
+  // The content type of the value that was offloaded
+  contentType: string | null;
+}
+
+const encoder = new TextEncoder();
+
+const decoder = new TextDecoder();
+
+export function encodeBase64(bytes: Uint8Array) {
+  let binary = "";
+
+  for (let i = 0; i < bytes.length; i += BASE64_CHUNK_SIZE) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + BASE64_CHUNK_SIZE));
+  }
+
+  return btoa(binary);
+}
+
+export function decodeBase64(value: string) {
+  const binary = atob(value);
+  const bytes = new Uint8Array(binary.length);
+
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+
+  return bytes;
+}
+
+export function getFilePointer({ value, contentType }: Value) {
+  return contentType === FILE_CONTENT_TYPE ? (value as FilePointer) : null;
+}
+
+export async function readFile(
+  files: FilesAdapter | null,
+  { file }: FilePointer,
+) {
+  const stream = files ? await files.get(file) : null;
+
+  if (!stream) {
+    throw new Error(`File '${file}' of offloaded value not found`);
+  }
+
+  return stream;
+}
+
+// Values that are too large for the storage are offloaded to the files, and a
+// pointer to the file is stored in their place. Returns `null` if the value is
+// too large, but there are no files to offload it to
+export async function offloadValue(
+  files: FilesAdapter | null,
+  maxValueSize: number,
+  { value, contentType }: Value,
+): Promise<Value | null> {
+  const json = JSON.stringify(value);
+
+  if (encoder.encode(json).byteLength <= maxValueSize) {
+    return { value, contentType };
+  }
+
+  if (!files) {
+    return null;
+  }
+
+  const file = `wt_kv/${crypto.randomUUID()}`;
+
+  // The bytes are offloaded as they are, rather than base64 encoded
+  await files.put(
+    file,
+    contentType === null ? encoder.encode(json) : decodeBase64(value as string),
+  );
+
+  return {
+    value: { file, contentType } satisfies FilePointer,
+    contentType: FILE_CONTENT_TYPE,
+  };
+}
+
+// Reads offloaded values back from their file, so that they can be returned
+// like any other value
+export async function loadValue(
+  files: FilesAdapter | null,
+  value: Value,
+): Promise<Value> {
+  const pointer = getFilePointer(value);
+
+  if (!pointer) {
+    return value;
+  }
+
+  const bytes = new Uint8Array(
+    await new Response(await readFile(files, pointer)).arrayBuffer(),
+  );
+
+  return {
+    value:
+      pointer.contentType === null
+        ? JSON.parse(decoder.decode(bytes))
+        : encodeBase64(bytes),
+    contentType: pointer.contentType,
+  };
+}
+
+// Deletes the files that values were offloaded to, once they've been replaced
+// or deleted
+export async function deleteFiles(
+  files: FilesAdapter | null,
+  values: (Value | null)[],
+) {
+  const pointers = values.flatMap((value) => {
+    const pointer = value && getFilePointer(value);
+
+    return pointer ? [pointer] : [];
+  });
+
+  if (files && pointers.length > 0) {
+    await Promise.all(pointers.map(({ file }) => files.delete(file)));
+  }
+}
@@ -8,6 +8,8 @@ const VALUES = {
   },
 };
 
+const NAMESPACES = ["test", "other"];
+
 export function createTestService(
   options: ServerOptions = {},
   initialValues: Record<string, unknown> = VALUES,
@@ -17,7 +19,10 @@ export function createTestService(
     auth: { apiKey: { apiKey: "test" } },
     logger: false,
 
-    runtime: (config, env) => runtime(config, env, { initialValues }),
+    runtime:
+      options.runtime ??
+      ((config, env) =>
+        runtime(config, env, { initialValues, initialNamespaces: NAMESPACES })),
   });
 }
 
@@ -27,14 +32,25 @@ export function makeRequest(
   {
     method = "GET",
     body,
-  }: { method?: "GET" | "POST" | "PUT" | "DELETE"; body?: unknown } = {},
+    headers,
+  }: {
+    method?: "GET" | "POST" | "PUT" | "DELETE";
+    body?: unknown;
+    headers?: Record<string, string>;
+  } = {},
 ) {
   return service.request(path, {
     method,
     headers: {
       Authorization: "Bearer test",
       "Content-Type": "application/json",
+      ...headers,
     },
-    body: body ? JSON.stringify(body) : undefined,
+    body:
+      body instanceof Uint8Array
+        ? body
+        : body
+        ? JSON.stringify(body)
+        : undefined,
   });
 }
@@ -0,0 +1,213 @@
+import test from "ava";
+
+import { ClientError, createKvClient } from "../src/client";
+import { createTestService } from "./_utils";
+
+function createTestClient(service = createTestService()) {
+  return createKvClient({ fetch: service.request, token: "test" });
+}
+
+test("client get", async (t) => {
+  const client = createTestClient();
+
+  t.is(await client.getValue("test/1"), "test");
+  t.deepEqual(await client.getValue("test/2"), { test: true });
+  t.is(await client.getValue("test/3"), null);
+});
+
+test("client set", async (t) => {
+  const client = createTestClient();
+
+  t.deepEqual(await client.setValue("test/3", { test: 3 }), { test: 3 });
+  t.deepEqual(await client.getValue("test/3"), { test: 3 });
+});
+
+test("client set w/ ttl", async (t) => {
+  const client = createTestClient();
+
+  await client.setValue("test/3", "test", { ttl: 60 });
+
+  const result = await client.getValueWithMetadata("test/3");
+
+  t.is(result?.value, "test");
+  t.true((result?.ttl as number) > 0 && (result?.ttl as number) <= 60);
+  t.deepEqual(await client.getValueWithMetadata("test/1"), {
+    value: "test",
+    ttl: null,
+    version: 1,
+  });
+  t.is(await client.getValueWithMetadata("test/4"), null);
+});
+
+test("client set w/ version", async (t) => {
+  const client = createTestClient();
+
+  t.is(await client.setValue("test/1", "other", { version: 1 }), "other");
+
+  const error = await t.throwsAsync(
+    client.setValue("test/1", "another", { version: 1 }),
+    { instanceOf: ClientError },
+  );
+
+  t.is(error?.status, 412);
+  t.is((await client.getValueWithMetadata("test/1"))?.version, 2);
+});
+
+test("client set binary", async (t) => {
+  const client = createTestClient();
+  const bytes = new Uint8Array([0, 1, 2, 255]);
+
+  t.deepEqual(
+    await client.setBinaryValue("test/3", bytes, {
+      contentType: "application/x-protobuf",
+      ttl: 60,
+    }),
+    { contentType: "application/x-protobuf", size: 4 },
+  );
+
+  const result = await client.getBinaryValue("test/3");
+
+  t.is(result?.contentType, "application/x-protobuf");
+  t.is(result?.version, 1);
+  t.deepEqual(new Uint8Array(result?.value as ArrayBuffer), bytes);
+  t.deepEqual(
+    new TextDecoder().decode((await client.getBinaryValue("test/1"))?.value),
+    '"test"',
+  );
+  t.is(await client.getBinaryValue("test/4"), null);
+});
+
+test("client increment", async (t) => {
+  const client = createTestClient();
+
+  t.is(await client.incrementValue("test/3"), 1);
+  t.is(await client.incrementValue("test/3", 2.5), 3.5);
+  await t.throwsAsync(client.incrementValue("test/1"), {
+    instanceOf: ClientError,
+  });
+});
+
+test("client batch", async (t) => {
+  const client = createTestClient();
+  const results = await client.batch(
+    [
+      { type: "get", key: "test/1" },
+      {
+        type: "set",
+        key: "test/3",
+        value: 3,
+        expiresAt: new Date(Date.now() + 60 * 1000),
+      },
+      { type: "delete", key: "test/2" },
+    ],
+    { atomic: true },
+  );
+
+  t.is(results.length, 3);
+  t.deepEqual(results[0], {
+    type: "get",
+    key: "test/1",
+    value: "test",
+    ttl: null,
+    version: 1,
+    contentType: null,
+  });
+  t.is(await client.getValue("test/3"), 3);
+  t.is(await client.getValue("test/2"), null);
+});
+
+test("client delete", async (t) => {
+  const client = createTestClient();
+
+  t.true(await client.deleteValue("test/1"));
+  t.is(await client.getValue("test/1"), null);
+});
+
+test("client list", async (t) => {
+  const client = createTestClient();
+  const page = await client.listValues({ namespace: "test", limit: 1 });
+
+  t.deepEqual(page.data, [{ key: "test/1" }]);
+  t.true(page.pagination.hasNextPage);
+
+  const values = [];
+
+  for await (const value of client.listAllValues({
+    namespace: "test",
+    limit: 1,
+    includeValues: true,
+  })) {
+    values.push(value);
+  }
+
+  t.deepEqual(values, [
+    { key: "test/1", value: "test", contentType: null },
+    { key: "test/2", value: { test: true }, contentType: null },
+  ]);
+});
+
+test("client delete by prefix", async (t) => {
+  const client = createTestClient();
+
+  t.is(await client.deleteValues("test", "2"), 1);
+  t.is(await client.getValue("test/2"), null);
+  t.is(await client.getValue("test/1"), "test");
+});
+
+test("client namespaces", async (t) => {
+  const client = createTestClient();
+  const namespace = await client.createNamespace("new");
+
+  t.is(namespace.name, "new");
+  t.deepEqual(
+    (await client.getNamespaces()).map(({ name }) => name),
+    ["new", "other", "test"],
+  );
+
+  const error = await t.throwsAsync(client.createNamespace("new"), {
+    instanceOf: ClientError,
+  });
+
+  t.is(error?.status, 409);
+});
+
+test("client watch changes", async (t) => {
+  const client = createTestClient();
+  const changes = client.watchChanges("test", { key: "3", after: 0 });
+
+  await client.setValue("test/3", 3);
+  await client.setValue("test/4", 4);
+  await client.deleteValue("test/3");
+
+  const { value: change1 } = await changes.next();
+  const { value: change2 } = await changes.next();
+
+  t.is(change1?.sequence, 1);
+  t.is(change1?.type, "set");
+  t.is(change1?.key, "test/3");
+  t.is(change2?.sequence, 3);
+  t.is(change2?.type, "delete");
+
+  await changes.return();
+});
+
+test("client w/ custom endpoint", async (t) => {
+  const service = createTestService({ endpoints: { v1: { kv: "/kv" } } });
+  const client = createKvClient({
+    fetch: service.request,
+    token: "test",
+    endpoints: { v1: { kv: "/kv" } },
+  });
+
+  t.is(await client.getValue("test/1"), "test");
+});
+
+test("client validation error", async (t) => {
+  const client = createTestClient();
+  const error = await t.throwsAsync(client.setValue("test/3", null as never), {
+    instanceOf: ClientError,
+  });
+
+  t.is(error?.status, 400);
+  t.deepEqual(error?.errors[0]?.path, ["value"]);
+});
@@ -1,6 +1,6 @@
 import { type ExecutionContext } from "ava";
 
-import { StorageAdapter } from "../../src/storage";
+import { type ListValuesResult, StorageAdapter } from "../../src/storage";
 
 export async function testStorageAdapterE2E(
   t: ExecutionContext,
@@ -39,6 +39,308 @@ export async function testStorageAdapterE2E(
 
   t.is(deletedGetResult, null);
 
+  // Set value w/ expiry
+  const expiresAt = new Date(Date.now() + 60 * 60 * 1000);
+
+  await storage.setValue("expiring", "test", { expiresAt });
+
+  const expiringResult = await storage.getValueWithMetadata("expiring");
+
+  t.is(expiringResult?.value, "test");
+  t.true(
+    Math.abs(
+      (expiringResult?.expiresAt?.getTime() as number) - expiresAt.getTime(),
+    ) < 2000,
+  );
+
+  // Setting the value again without an expiry removes it
+  await storage.setValue("expiring", "test");
+
+  t.is((await storage.getValueWithMetadata("expiring"))?.expiresAt, null);
+
+  await storage.setValue("expired", "test", {
+    expiresAt: new Date(Date.now() - 1000),
+  });
+
+  t.is(await storage.getValue("expired"), null);
+
+  const sweptResult = await storage.deleteExpiredValues();
+
+  t.is(typeof sweptResult, "number");
+
+  await storage.deleteValue("expiring");
+
+  // Set value w/ version
+  const versionedResult = await storage.setValueWithMetadata("versioned", "1");
+
+  t.is(versionedResult?.version, 1);
+
+  const staleResult = await storage.setValueWithMetadata("versioned", "2", {
+    version: 0,
+  });
+
+  t.is(staleResult, null);
+
+  const matchingResult = await storage.setValueWithMetadata("versioned", "2", {
+    version: 1,
+  });
+
+  t.is(matchingResult?.value, "2");
+  t.is(matchingResult?.version, 2);
+  t.is((await storage.getValueWithMetadata("versioned"))?.version, 2);
+  t.is(
+    (await storage.setValueWithMetadata("versioned", "3", { version: "*" }))
+      ?.version,
+    3,
+  );
+  t.is(
+    await storage.setValueWithMetadata("unversioned", "1", { version: "*" }),
+    null,
+  );
+
+  await storage.deleteValue("versioned");
+
+  // Set value w/ content type
+  await storage.setValueWithMetadata("typed", "AAEC", {
+    contentType: "application/octet-stream",
+  });
+
+  t.is(
+    (await storage.getValueWithMetadata("typed"))?.contentType,
+    "application/octet-stream",
+  );
+  t.is(
+    (await storage.getValues(["typed"]))[0]?.contentType,
+    "application/octet-stream",
+  );
+
+  await storage.setValue("typed", "test");
+
+  t.is((await storage.getValueWithMetadata("typed"))?.contentType, null);
+
+  await storage.deleteValue("typed");
+
+  // Increment value
+  t.is((await storage.incrementValue("counter", 1))?.value, 1);
+  t.is((await storage.incrementValue("counter", 2))?.value, 3);
+  t.is(await storage.getValue("counter"), 3);
+
+  await storage.setValue("counter", "test");
+
+  t.is(await storage.incrementValue("counter", 1), null);
+
+  await storage.deleteValue("counter");
+
+  // Batch values
+  await storage.setValues([
+    { key: "batch/1", value: 1 },
+    { key: "batch/2", value: 2, expiresAt },
+  ]);
+
+  const getValuesResult = await storage.getValues([
+    "batch/2",
+    "batch/3",
+    "batch/1",
+  ]);
+
+  t.is(getValuesResult[0]?.value, 2);
+  t.is(getValuesResult[0]?.version, 1);
+  t.true(getValuesResult[0]?.expiresAt instanceof Date);
+  t.is(getValuesResult[1], null);
+  t.is(getValuesResult[2]?.value, 1);
+
+  await storage.setValues([{ key: "batch/1", value: 3 }]);
+
+  t.is((await storage.getValueWithMetadata("batch/1"))?.version, 2);
+
+  await storage.deleteValues(["batch/1", "batch/2"]);
+
+  t.deepEqual(await storage.getValues(["batch/1", "batch/2"]), [null, null]);
+
+  if (storage.supportsTransactions) {
+    await storage.writeValues([
+      { type: "set", key: "batch/1", value: 1 },
+      { type: "set", key: "batch/2", value: 2 },
+      { type: "delete", key: "batch/1" },
+    ]);
+
+    t.is(await storage.getValue("batch/1"), null);
+    t.is(await storage.getValue("batch/2"), 2);
+
+    await storage.deleteValues(["batch/2"]);
+  }
+
+  // List values
+  await storage.setValue("list/1", 1);
+  await storage.setValue("list/2", 2);
+  await storage.setValue("list/3", 3);
+  await storage.setValue("other/1", 1);
+
+  const keys: string[] = [];
+  let cursor: string | null = null;
+
+  // Not every adapter can guarantee the size of each page, so we just make sure
+  // that following the cursor gets every key
+  do {
+    const page: ListValuesResult = await storage.listValues({
+      prefix: "list/",
+      limit: 2,
+      cursor: cursor ?? undefined,
+    });
+
+    keys.push(...page.values.map(({ key }) => key));
+    cursor = page.cursor;
+  } while (cursor);
+
+  t.deepEqual(keys.sort(), ["list/1", "list/2", "list/3"]);
+
+  const listWithValuesResult = await storage.listValues({
+    prefix: "other/",
+    limit: 10,
+    includeValues: true,
+  });
+
+  t.deepEqual(listWithValuesResult.values, [
+    { key: "other/1", value: 1, contentType: null },
+  ]);
+
+  // Delete values by prefix
+  const deleteValuesByPrefixResult = await storage.deleteValuesByPrefix(
+    "list/",
+  );
+
+  t.is(deleteValuesByPrefixResult, 3);
+  t.is(await storage.getValue("list/1"), null);
+  t.is(await storage.getValue("other/1"), 1);
+
+  await storage.deleteValue("other/1");
+
+  // Create namespace
+  const createNamespaceResult = await storage.createNamespace("test");
+
+  t.is(createNamespaceResult.name, "test");
+
+  // Creating it again returns the existing namespace
+  const recreateNamespaceResult = await storage.createNamespace("test");
+
+  t.is(
+    recreateNamespaceResult.createdAt.getTime(),
+    createNamespaceResult.createdAt.getTime(),
+  );
+
+  await storage.createNamespace("other");
+
+  // Get namespaces
+  t.is((await storage.getNamespace("test"))?.name, "test");
+  t.is(await storage.getNamespace("unknown"), null);
+  t.deepEqual(
+    (await storage.getNamespaces()).map(({ name }) => name),
+    ["other", "test"],
+  );
+
+  if (storage.supportsChanges) {
+    // Record changes
+    const lastSequence = await storage.getLastChangeSequence();
+    const recordChangesResult = await storage.recordChanges([
+      { type: "set", key: "changes/1" },
+      { type: "delete", key: "other/1" },
+      { type: "delete_prefix", key: "changes/" },
+    ]);
+
+    t.deepEqual(
+      recordChangesResult.map(({ type, key }) => ({ type, key })),
+      [
+        { type: "set", key: "changes/1" },
+        { type: "delete", key: "other/1" },
+        { type: "delete_prefix", key: "changes/" },
+      ],
+    );
+    t.true(
+      recordChangesResult.every(
+        ({ sequence }, index) =>
+          sequence > (recordChangesResult[index - 1]?.sequence ?? lastSequence),
+      ),
+    );
+    t.is(
+      await storage.getLastChangeSequence(),
+      recordChangesResult[2]?.sequence,
+    );
+
+    // Get changes
+    const [first, second, third] = recordChangesResult;
+
+    t.deepEqual(
+      (await storage.getChanges({ after: lastSequence, limit: 10 })).map(
+        ({ sequence }) => sequence,
+      ),
+      [first?.sequence, second?.sequence, third?.sequence],
+    );
+    t.deepEqual(
+      (
+        await storage.getChanges({
+          prefix: "changes/",
+          after: first?.sequence,
+          limit: 10,
+        })
+      ).map(({ key }) => key),
+      ["changes/"],
+    );
+    t.is(
+      (await storage.getChanges({ after: lastSequence, limit: 1 }))[0]
+        ?.createdAt instanceof Date,
+      true,
+    );
+
+    // Delete changes
+    const deleteChangesResult = await storage.deleteChangesBefore(
+      new Date(Date.now() + 1000),
+    );
+
+    // The latest change may be kept back
+    t.true(deleteChangesResult >= 2);
+    t.true(
+      (await storage.getChanges({ after: lastSequence, limit: 10 })).every(
+        ({ sequence }) => sequence === third?.sequence,
+      ),
+    );
+    // The sequence carries on from where it was
+    t.is(
+      await storage.getLastChangeSequence(),
+      recordChangesResult[2]?.sequence,
+    );
+
+    // Record changes concurrently
+    const concurrentResults = await Promise.all(
+      Array.from({ length: 10 }, (_, index) =>
+        storage.recordChanges([
+          { type: "set", key: `concurrent/${index}` },
+          { type: "delete", key: `concurrent/${index}` },
+        ]),
+      ),
+    );
+    const sequences = concurrentResults
+      .flat()
+      .map(({ sequence }) => sequence)
+      .sort((a, b) => a - b);
+
+    t.is(new Set(sequences).size, 20);
+    t.true(
+      concurrentResults.every(
+        ([set, del]) => del?.sequence === (set?.sequence ?? 0) + 1,
+      ),
+    );
+    t.deepEqual(
+      (
+        await storage.getChanges({
+          after: recordChangesResult[2]?.sequence,
+          limit: 100,
+        })
+      ).map(({ sequence }) => sequence),
+      sequences,
+    );
+    t.is(await storage.getLastChangeSequence(), sequences[19]);
+  }
+
   // Drop tables
   await storage.runMigrations(true);
 }
@@ -12,3 +12,46 @@ test("SqliteStorageAdapter", async (t) => {
 
   await testStorageAdapterE2E(t, storage);
 });
+
+test("SqliteStorageAdapter w/ keys from before namespaces", async (t) => {
+  const storage = new SqliteStorageAdapter({ db: ":memory:" });
+
+  await storage.runMigrations();
+  await storage.setValue("users/1", "user");
+  await storage.setValue("flat", "flat");
+  await storage.setValue("default/other", "other");
+  await storage.setValue("other", "moved");
+  await storage.client.deleteFrom("wt_kv_namespaces").execute();
+
+  const namespacesMigration = storage.migrations.find(
+    ({ name }) => name === "1792353790318_add_namespaces_for_existing_keys",
+  );
+
+  // There's already a key with the name in the default namespace
+  await t.throwsAsync(
+    async () => namespacesMigration?.migration.up(storage.client),
+    { message: /other/ },
+  );
+  t.is(await storage.getValue("flat"), "flat");
+
+  await storage.deleteValue("other");
+  await storage.setValue("/leading", "leading");
+
+  // The key has nothing before its first '/'
+  await t.throwsAsync(
+    async () => namespacesMigration?.migration.up(storage.client),
+    { message: /\/leading/ },
+  );
+
+  await storage.deleteValue("/leading");
+  await namespacesMigration?.migration.up(storage.client);
+
+  t.deepEqual(
+    (await storage.getNamespaces()).map(({ name }) => name),
+    ["default", "users"],
+  );
+  t.is(await storage.getValue("users/1"), "user");
+  t.is(await storage.getValue("default/flat"), "flat");
+  t.is(await storage.getValue("flat"), null);
+  t.is(await storage.getValue("default/other"), "other");
+});
@@ -1,5 +1,7 @@
 import test from "ava";
 
+import { MemoryFilesAdapter } from "../src/files/memory";
+import { MemoryStorageAdapter } from "../src/storage/memory";
 import { createTestService, makeRequest } from "./_utils";
 
 interface SuccessfulResponse {
@@ -7,19 +9,63 @@ interface SuccessfulResponse {
   success: true;
 }
 
+interface ErrorResponse {
+  success: false;
+  error: string;
+}
+
 // KV
 interface KVGetResponse extends SuccessfulResponse {
   data: unknown;
+  ttl: number | null;
+  version: number;
 }
 
 interface KVSetResponse extends SuccessfulResponse {
   data: unknown;
+  ttl: number | null;
+  version: number;
+}
+
+interface KVSetBinaryResponse extends SuccessfulResponse {
+  data: { contentType: string; size: number };
+  ttl: number | null;
+  version: number;
+}
+
+interface KVIncrementResponse extends SuccessfulResponse {
+  data: number;
+  ttl: number | null;
+  version: number;
+}
+
+interface KVBatchResponse extends SuccessfulResponse {
+  data: {
+    type: "get" | "set" | "delete";
+    key: string;
+    value?: unknown;
+    ttl?: number | null;
+    version?: number | null;
+    contentType?: string | null;
+  }[];
 }
 
 interface KVDeleteResponse extends SuccessfulResponse {
   data: true;
 }
 
+interface KVListResponse extends SuccessfulResponse {
+  data: { key: string; value?: unknown; contentType?: string | null }[];
+  pagination: {
+    hasNextPage: boolean;
+    endCursor: string | null;
+  };
+}
+
+interface KVDeletePrefixResponse extends SuccessfulResponse {
+  data: { deleted: number };
+}
+
 test("v1 kv get", async (t) => {
   const service = createTestService();
   const res1 = await makeRequest(service, "/v1/kv/test/1");
@@ -61,6 +107,322 @@ test("v1 kv set", async (t) => {
   t.is(result2.data, "other");
 });
 
+test("v1 kv set w/ ttl", async (t) => {
+  const service = createTestService();
+  const res1 = await makeRequest(service, "/v1/kv/test/1", {
+    method: "PUT",
+    body: { value: "other", ttl: 60 },
+  });
+
+  t.is(res1.status, 200);
+
+  const result1 = (await res1.json()) as KVSetResponse;
+
+  t.is(result1.ttl, 60);
+
+  const res2 = await makeRequest(service, "/v1/kv/test/1");
+  const result2 = (await res2.json()) as KVGetResponse;
+
+  t.is(result2.data, "other");
+  t.true((result2.ttl as number) > 0 && (result2.ttl as number) <= 60);
+
+  const res3 = await makeRequest(service, "/v1/kv/test/2");
+  const result3 = (await res3.json()) as KVGetResponse;
+
+  t.is(result3.ttl, null);
+});
+
+test("v1 kv set w/ expiresAt", async (t) => {
+  const service = createTestService();
+  const res = await makeRequest(service, "/v1/kv/test/1", {
+    method: "PUT",
+    body: {
+      value: "other",
+      expiresAt: new Date(Date.now() + 60 * 60 * 1000).toISOString(),
+    },
+  });
+
+  t.is(res.status, 200);
+
+  const result = (await res.json()) as KVSetResponse;
+
+  t.true((result.ttl as number) > 3590 && (result.ttl as number) <= 3600);
+});
+
+test("v1 kv set w/ invalid expiry", async (t) => {
+  const service = createTestService();
+  const res1 = await makeRequest(service, "/v1/kv/test/1", {
+    method: "PUT",
+    body: { value: "other", ttl: 60, expiresAt: Date.now() + 60 * 1000 },
+  });
+
+  t.is(res1.status, 400);
+
+  const res2 = await makeRequest(service, "/v1/kv/test/1", {
+    method: "PUT",
+    body: { value: "other", expiresAt: Date.now() - 1000 },
+  });
+
+  t.is(res2.status, 400);
+
+  const res3 = await makeRequest(service, "/v1/kv/test/1", {
+    method: "PUT",
+    body: { value: "other", ttl: -1 },
+  });
+
+  t.is(res3.status, 400);
+});
+
+test("v1 kv get expired", async (t) => {
+  const service = createTestService();
+
+  await makeRequest(service, "/v1/kv/test/1", {
+    method: "PUT",
+    body: { value: "other", ttl: 1 },
+  });
+
+  await new Promise((resolve) => setTimeout(resolve, 1100));
+
+  const res = await makeRequest(service, "/v1/kv/test/1");
+
+  t.is(res.status, 404);
+});
+
+test("v1 kv get w/ etag", async (t) => {
+  const service = createTestService();
+  const res1 = await makeRequest(service, "/v1/kv/test/1");
+
+  t.is(res1.status, 200);
+  t.is(res1.headers.get("ETag"), '"1"');
+
+  const result1 = (await res1.json()) as KVGetResponse;
+
+  t.is(result1.version, 1);
+
+  const res2 = await makeRequest(service, "/v1/kv/test/1", {
+    headers: { "If-None-Match": '"1"' },
+  });
+
+  t.is(res2.status, 304);
+});
+
+test("v1 kv set w/ if-match", async (t) => {
+  const service = createTestService();
+  const res1 = await makeRequest(service, "/v1/kv/test/1", {
+    method: "PUT",
+    body: { value: "other" },
+    headers: { "If-Match": '"1"' },
+  });
+
+  t.is(res1.status, 200);
+  t.is(res1.headers.get("ETag"), '"2"');
+
+  const result1 = (await res1.json()) as KVSetResponse;
+
+  t.is(result1.data, "other");
+  t.is(result1.version, 2);
+
+  const res2 = await makeRequest(service, "/v1/kv/test/1", {
+    method: "PUT",
+    body: { value: "another" },
+    headers: { "If-Match": '"1"' },
+  });
+
+  t.is(res2.status, 412);
+
+  const res3 = await makeRequest(service, "/v1/kv/test/3", {
+    method: "PUT",
+    body: { value: "another" },
+    headers: { "If-Match": "*" },
+  });
+
+  t.is(res3.status, 412);
+
+  const res4 = await makeRequest(service, "/v1/kv/test/1");
+  const result4 = (await res4.json()) as KVGetResponse;
+
+  t.is(result4.data, "other");
+});
+
+test("v1 kv increment", async (t) => {
+  const service = createTestService();
+  const res1 = await makeRequest(service, "/v1/kv/test/3:increment", {
+    method: "POST",
+    body: {},
+  });
+
+  t.is(res1.status, 200);
+
+  const result1 = (await res1.json()) as KVIncrementResponse;
+
+  t.is(result1.data, 1);
+  t.is(result1.version, 1);
+
+  const res2 = await makeRequest(service, "/v1/kv/test/3:increment", {
+    method: "POST",
+    body: { by: -5 },
+  });
+
+  t.is(res2.status, 200);
+
+  const result2 = (await res2.json()) as KVIncrementResponse;
+
+  t.is(result2.data, -4);
+  t.is(result2.version, 2);
+
+  const res3 = await makeRequest(service, "/v1/kv/test/1:increment", {
+    method: "POST",
+    body: {},
+  });
+
+  t.is(res3.status, 409);
+
+  const res4 = await makeRequest(service, "/v1/kv/test/3", {
+    method: "POST",
+    body: {},
+  });
+
+  t.is(res4.status, 404);
+});
+
+test("v1 kv set binary", async (t) => {
+  const service = createTestService();
+  const bytes = new Uint8Array([0, 1, 2, 253, 254, 255]);
+  const res1 = await makeRequest(service, "/v1/kv/test/image?ttl=60", {
+    method: "PUT",
+    body: bytes,
+    headers: { "Content-Type": "image/png" },
+  });
+
+  t.is(res1.status, 200);
+
+  const result1 = (await res1.json()) as KVSetBinaryResponse;
+
+  t.deepEqual(result1.data, { contentType: "image/png", size: 6 });
+  t.true((result1.ttl as number) > 0);
+
+  const res2 = await makeRequest(service, "/v1/kv/test/image");
+
+  t.is(res2.status, 200);
+  t.is(res2.headers.get("Content-Type"), "image/png");
+  t.is(res2.headers.get("ETag"), `"${result1.version}"`);
+  t.truthy(res2.headers.get("Expires"));
+  t.deepEqual(new Uint8Array(await res2.arrayBuffer()), bytes);
+
+  const res3 = await makeRequest(
+    service,
+    "/v1/kv/test?prefix=image&include_values=1",
+  );
+  const result3 = (await res3.json()) as KVListResponse;
+
+  t.deepEqual(result3.data, [
+    { key: "test/image", value: "AAEC/f7/", contentType: "image/png" },
+  ]);
+});
+
+test("v1 kv set binary w/ reserved content type", async (t) => {
+  const service = createTestService();
+  const res = await makeRequest(service, "/v1/kv/test/1", {
+    method: "PUT",
+    body: new Uint8Array([0]),
+    headers: { "Content-Type": "application/vnd.workertown.kv-file+json" },
+  });
+
+  t.is(res.status, 415);
+});
+
+test("v1 kv set binary w/ long content type", async (t) => {
+  const service = createTestService();
+  const res = await makeRequest(service, "/v1/kv/test/1", {
+    method: "PUT",
+    body: new Uint8Array([0]),
+    headers: { "Content-Type": `application/${"x".repeat(256)}` },
+  });
+
+  t.is(res.status, 400);
+});
+
+test("v1 kv set w/ large value", async (t) => {
+  const files = new MemoryFilesAdapter();
+  const storage = new MemoryStorageAdapter({
+    initialNamespaces: ["test"],
+    maxValueSize: 16,
+  });
+  const service = createTestService({ runtime: { files, storage } });
+  const value = { test: "a value that is larger than 16 bytes" };
+  const bytes = new Uint8Array(32).map((_, index) => index);
+  const res1 = await makeRequest(service, "/v1/kv/test/large", {
+    method: "PUT",
+    body: { value },
+  });
+
+  t.is(res1.status, 200);
+  t.deepEqual(((await res1.json()) as KVSetResponse).data, value);
+
+  const { value: pointer } =
+    (await storage.getValueWithMetadata<{ file: string }>("test/large")) ?? {};
+
+  t.truthy(await files.get(pointer?.file as string));
+
+  const res2 = await makeRequest(service, "/v1/kv/test/large");
+
+  t.deepEqual(((await res2.json()) as KVGetResponse).data, value);
+
+  await makeRequest(service, "/v1/kv/test/large", {
+    method: "PUT",
+    body: bytes,
+    headers: { "Content-Type": "application/x-protobuf" },
+  });
+
+  // The file of the value it replaced is deleted
+  t.is(await files.get(pointer?.file as string), null);
+
+  const res3 = await makeRequest(service, "/v1/kv/test/large");
+
+  t.is(res3.headers.get("Content-Type"), "application/x-protobuf");
+  t.deepEqual(new Uint8Array(await res3.arrayBuffer()), bytes);
+
+  const res4 = await makeRequest(service, "/v1/kv:batch", {
+    method: "POST",
+    body: { operations: [{ type: "get", key: "test/large" }] },
+  });
+  const result4 = (await res4.json()) as KVBatchResponse;
+
+  t.is(result4.data[0]?.contentType, "application/x-protobuf");
+  t.is(result4.data[0]?.value, btoa(String.fromCharCode(...bytes)));
+});
+
+test("v1 kv set w/ large value w/o files", async (t) => {
+  const storage = new MemoryStorageAdapter({
+    initialNamespaces: ["test"],
+    maxValueSize: 16,
+  });
+  const service = createTestService({ runtime: { storage } });
+  const res1 = await makeRequest(service, "/v1/kv/test/large", {
+    method: "PUT",
+    body: { value: "a value that is larger than 16 bytes" },
+  });
+
+  t.is(res1.status, 413);
+
+  const res2 = await makeRequest(service, "/v1/kv:batch", {
+    method: "POST",
+    body: {
+      operations: [
+        { type: "set", key: "test/small", value: 1 },
+        {
+          type: "set",
+          key: "test/large",
+          value: "a value that is larger than 16 bytes",
+        },
+      ],
+    },
+  });
+
+  t.is(res2.status, 413);
+  t.is(await storage.getValue("test/small"), null);
+});
+
 test("v1 kv delete", async (t) => {
   const service = createTestService();
   const res1 = await makeRequest(service, "/v1/kv/test/1", {
@@ -82,6 +444,220 @@ test("v1 kv delete", async (t) => {
   t.is(result2.data, null);
 });
 
+test("v1 kv list", async (t) => {
+  const service = createTestService(
+    {},
+    {
+      "test/1": "test",
+      "test/2": { test: true },
+      "test/3": 3,
+      "other/1": "other",
+    },
+  );
+  const res1 = await makeRequest(service, "/v1/kv/test?limit=2");
+
+  t.is(res1.status, 200);
+
+  const result1 = (await res1.json()) as KVListResponse;
+
+  t.deepEqual(result1.data, [{ key: "test/1" }, { key: "test/2" }]);
+  t.true(result1.pagination.hasNextPage);
+
+  const res2 = await makeRequest(
+    service,
+    `/v1/kv/test?limit=2&cursor=${encodeURIComponent(
+      result1.pagination.endCursor as string,
+    )}`,
+  );
+
+  t.is(res2.status, 200);
+
+  const result2 = (await res2.json()) as KVListResponse;
+
+  t.deepEqual(result2.data, [{ key: "test/3" }]);
+  t.false(result2.pagination.hasNextPage);
+  t.is(result2.pagination.endCursor, null);
+});
+
+test("v1 kv list w/ values", async (t) => {
+  const service = createTestService();
+  const res = await makeRequest(service, "/v1/kv/test?include_values=true");
+
+  t.is(res.status, 200);
+
+  const result = (await res.json()) as KVListResponse;
+
+  t.deepEqual(result.data, [
+    { key: "test/1", value: "test", contentType: null },
+    { key: "test/2", value: { test: true }, contentType: null },
+  ]);
+});
+
+test("v1 kv delete by prefix", async (t) => {
+  const service = createTestService(
+    {},
+    {
+      "test/a/1": "test",
+      "test/a/2": { test: true },
+      "test/b/1": "test",
+      "other/a/1": "other",
+    },
+  );
+  const res1 = await makeRequest(service, "/v1/kv/test?prefix=a/", {
+    method: "DELETE",
+  });
+
+  t.is(res1.status, 200);
+
+  const result1 = (await res1.json()) as KVDeletePrefixResponse;
+
+  t.is(result1.data.deleted, 2);
+
+  const res2 = await makeRequest(service, "/v1/kv/test");
+  const result2 = (await res2.json()) as KVListResponse;
+
+  t.deepEqual(result2.data, [{ key: "test/b/1" }]);
+
+  const res3 = await makeRequest(service, "/v1/kv/other");
+  const result3 = (await res3.json()) as KVListResponse;
+
+  t.deepEqual(result3.data, [{ key: "other/a/1" }]);
+});
+
+test("v1 kv delete by empty prefix", async (t) => {
+  const service = createTestService(
+    {},
+    { "test/a/1": "test", "test/b/1": "test", "other/a/1": "other" },
+  );
+  const res1 = await makeRequest(service, "/v1/kv/test?prefix=", {
+    method: "DELETE",
+  });
+
+  t.is(res1.status, 200);
+
+  const result1 = (await res1.json()) as KVDeletePrefixResponse;
+
+  t.is(result1.data.deleted, 2);
+
+  const res2 = await makeRequest(service, "/v1/kv/other");
+  const result2 = (await res2.json()) as KVListResponse;
+
+  t.deepEqual(result2.data, [{ key: "other/a/1" }]);
+});
+
+test("v1 kv delete by empty prefix w/ policy", async (t) => {
+  const service = createTestService({
+    // Anything but emptying a namespace
+    policy: (_user, access) =>
+      access.action === "read" || !("prefix" in access) || access.prefix !== "",
+  });
+  const res1 = await makeRequest(service, "/v1/kv/test?prefix=", {
+    method: "DELETE",
+  });
+
+  t.is(res1.status, 403);
+
+  const res2 = await makeRequest(service, "/v1/kv/test/1");
+
+  t.is(res2.status, 200);
+});
+
+test("v1 kv delete by prefix w/o prefix", async (t) => {
+  const service = createTestService();
+  const res = await makeRequest(service, "/v1/kv/test", { method: "DELETE" });
+
+  t.is(res.status, 400);
+});
+
+test("v1 kv w/ unknown namespace", async (t) => {
+  const service = createTestService();
+  const res1 = await makeRequest(service, "/v1/kv/unknown/1", {
+    method: "PUT",
+    body: { value: "test" },
+  });
+
+  t.is(res1.status, 404);
+
+  const result1 = (await res1.json()) as ErrorResponse;
+
+  t.is(result1.error, "Namespace not found");
+
+  const res2 = await makeRequest(service, "/v1/kv/unknown");
+
+  t.is(res2.status, 404);
+
+  const res3 = await makeRequest(service, "/v1/kv:batch", {
+    method: "POST",
+    body: {
+      operations: [
+        { type: "get", key: "test/1" },
+        { type: "delete", key: "unknown/1" },
+      ],
+    },
+  });
+
+  t.is(res3.status, 404);
+
+  const res4 = await makeRequest(service, "/v1/kv/test");
+
+  t.is(res4.status, 200);
+});
+
+test("v1 kv w/ policy", async (t) => {
+  const service = createTestService({
+    // Read only, except for the `public/` prefix of the `other` namespace
+    policy: (user, access) =>
+      user.id === "test" &&
+      (access.action === "read" ||
+        (access.namespace === "other" &&
+          "key" in access &&
+          access.key.startsWith("public/"))),
+  });
+  const res1 = await makeRequest(service, "/v1/kv/test/1");
+
+  t.is(res1.status, 200);
+
+  const res2 = await makeRequest(service, "/v1/kv/test/1", {
+    method: "PUT",
+    body: { value: "other" },
+  });
+
+  t.is(res2.status, 403);
+
+  const result2 = (await res2.json()) as ErrorResponse;
+
+  t.is(result2.error, "Forbidden");
+
+  const res3 = await makeRequest(service, "/v1/kv/other/public/1", {
+    method: "PUT",
+    body: { value: "other" },
+  });
+
+  t.is(res3.status, 200);
+
+  const res4 = await makeRequest(service, "/v1/kv/other?prefix=public/", {
+    method: "DELETE",
+  });
+
+  t.is(res4.status, 403);
+
+  const res5 = await makeRequest(service, "/v1/kv:batch", {
+    method: "POST",
+    body: {
+      operations: [
+        { type: "get", key: "test/1" },
+        { type: "delete", key: "test/2" },
+      ],
+    },
+  });
+
+  t.is(res5.status, 403);
+
+  const res6 = await makeRequest(service, "/v1/kv/test/2");
+
+  t.is(res6.status, 200);
+});
+
 // Admin
 interface AdminInfoResponse extends SuccessfulResponse {
   data: {
@@ -97,6 +673,433 @@ interface AdminMigrateResponse extends SuccessfulResponse {
   data: true;
 }
 
+interface AdminNamespaceResponse extends SuccessfulResponse {
+  data: { name: string; createdAt: string };
+}
+
+interface AdminNamespacesResponse extends SuccessfulResponse {
+  data: { name: string; createdAt: string }[];
+}
+
+test("v1 kv batch", async (t) => {
+  const service = createTestService();
+  const res1 = await makeRequest(service, "/v1/kv:batch", {
+    method: "POST",
+    body: {
+      operations: [
+        { type: "get", key: "test/1" },
+        { type: "get", key: "test/3" },
+        { type: "set", key: "test/3", value: 3, ttl: 60 },
+        { type: "delete", key: "test/1" },
+        { type: "set", key: "test/1", value: "other" },
+      ],
+    },
+  });
+
+  t.is(res1.status, 200);
+
+  const result1 = (await res1.json()) as KVBatchResponse;
+
+  t.deepEqual(result1.data[0], {
+    type: "get",
+    key: "test/1",
+    value: "test",
+    ttl: null,
+    version: 1,
+    contentType: null,
+  });
+  t.is(result1.data[1]?.value, null);
+  t.is(result1.data[2]?.value, 3);
+  t.true((result1.data[2]?.ttl as number) > 0);
+  t.deepEqual(result1.data[3], { type: "delete", key: "test/1" });
+
+  const res2 = await makeRequest(service, "/v1/kv:batch", {
+    method: "POST",
+    body: {
+      operations: [
+        { type: "get", key: "test/1" },
+        { type: "get", key: "test/3" },
+      ],
+    },
+  });
+  const result2 = (await res2.json()) as KVBatchResponse;
+
+  t.is(result2.data[0]?.value, "other");
+  t.is(result2.data[1]?.value, 3);
+});
+
+test("v1 kv batch w/ atomic", async (t) => {
+  const service = createTestService();
+  const res1 = await makeRequest(service, "/v1/kv:batch", {
+    method: "POST",
+    body: {
+      operations: [
+        { type: "set", key: "test/3", value: 3 },
+        { type: "delete", key: "test/2" },
+      ],
+      atomic: true,
+    },
+  });
+
+  t.is(res1.status, 200);
+
+  const res2 = await makeRequest(service, "/v1/kv/test/3");
+  const result2 = (await res2.json()) as KVGetResponse;
+
+  t.is(result2.data, 3);
+
+  const res3 = await makeRequest(service, "/v1/kv/test/2");
+
+  t.is(res3.status, 404);
+});
+
+test("v1 kv batch w/ invalid operations", async (t) => {
+  const service = createTestService();
+  const res1 = await makeRequest(service, "/v1/kv:batch", {
+    method: "POST",
+    body: { operations: [] },
+  });
+
+  t.is(res1.status, 400);
+
+  const res2 = await makeRequest(service, "/v1/kv:batch", {
+    method: "POST",
+    body: { operations: [{ type: "set", key: "test/3" }] },
+  });
+
+  t.is(res2.status, 400);
+
+  const res4 = await makeRequest(service, "/v1/kv:batch", {
+    method: "POST",
+    body: { operations: [{ type: "get", key: "test" }] },
+  });
+
+  t.is(res4.status, 400);
+
+  const res3 = await makeRequest(service, "/v1/kv:batch", {
+    method: "POST",
+    body: {
+      operations: Array.from({ length: 101 }, (_, index) => ({
+        type: "get",
+        key: `test/${index}`,
+      })),
+    },
+  });
+
+  t.is(res3.status, 400);
+});
+
+// Changes
+interface KVChange {
+  sequence: number;
+  type: "set" | "delete" | "delete_prefix";
+  key: string;
+  createdAt: string;
+}
+
+// Reads the events off of the stream, one per read, without the `createdAt`
+// of the changes (which can't be known ahead of time)
+function createEventReader(res: Response) {
+  const reader = (res.body as ReadableStream<Uint8Array>).getReader();
+  const decoder = new TextDecoder();
+
+  return {
+    async read() {
+      const text = decoder.decode((await reader.read()).value);
+      const id = text.match(/^id: (.*)$/m)?.[1] ?? null;
+      const event = text.match(/^event: (.*)$/m)?.[1];
+      const data = JSON.parse(
+        text.match(/^data: (.*)$/m)?.[1] as string,
+      ) as KVChange | null;
+
+      return {
+        id,
+        event,
+        data: data && {
+          sequence: data.sequence,
+          type: data.type,
+          key: data.key,
+        },
+      };
+    },
+    cancel() {
+      return reader.cancel();
+    },
+  };
+}
+
+test("v1 changes", async (t) => {
+  const service = createTestService();
+  const res1 = await makeRequest(service, "/v1/changes/test?key=3");
+
+  t.is(res1.status, 200);
+  t.is(res1.headers.get("Content-Type"), "text/event-stream");
+
+  const events1 = createEventReader(res1);
+
+  t.deepEqual(await events1.read(), { id: null, event: "ready", data: null });
+
+  await makeRequest(service, "/v1/kv/test/2", {
+    method: "PUT",
+    body: { value: 2 },
+  });
+  await makeRequest(service, "/v1/kv/test/3", {
+    method: "PUT",
+    body: { value: 3 },
+  });
+
+  t.deepEqual(await events1.read(), {
+    id: "2",
+    event: "change",
+    data: { sequence: 2, type: "set", key: "test/3" },
+  });
+
+  await makeRequest(service, "/v1/kv/test?prefix=3", { method: "DELETE" });
+
+  t.deepEqual(await events1.read(), {
+    id: "3",
+    event: "change",
+    data: { sequence: 3, type: "delete_prefix", key: "test/3" },
+  });
+
+  await events1.cancel();
+
+  const res2 = await makeRequest(service, "/v1/changes/test?after=1");
+  const events2 = createEventReader(res2);
+
+  t.is((await events2.read()).event, "ready");
+  t.is((await events2.read()).id, "2");
+  t.is((await events2.read()).id, "3");
+
+  await events2.cancel();
+
+  const res3 = await makeRequest(service, "/v1/changes/test?prefix=2", {
+    headers: { "Last-Event-ID": "0" },
+  });
+  const events3 = createEventReader(res3);
+
+  t.is((await events3.read()).event, "ready");
+  t.deepEqual(await events3.read(), {
+    id: "1",
+    event: "change",
+    data: { sequence: 1, type: "set", key: "test/2" },
+  });
+
+  await makeRequest(service, "/v1/kv/test/2", { method: "DELETE" });
+
+  t.deepEqual(await events3.read(), {
+    id: "4",
+    event: "change",
+    data: { sequence: 4, type: "delete", key: "test/2" },
+  });
+
+  await events3.cancel();
+});
+
+test("v1 changes w/ batch", async (t) => {
+  const service = createTestService();
+  const res1 = await makeRequest(service, "/v1/changes/test");
+  const events = createEventReader(res1);
+
+  t.is((await events.read()).event, "ready");
+
+  await makeRequest(service, "/v1/kv:batch", {
+    method: "POST",
+    body: {
+      operations: [
+        { type: "get", key: "test/1" },
+        { type: "set", key: "test/3", value: 3 },
+        { type: "delete", key: "test/1" },
+      ],
+    },
+  });
+
+  t.deepEqual((await events.read()).data, {
+    sequence: 1,
+    type: "set",
+    key: "test/3",
+  });
+  t.deepEqual((await events.read()).data, {
+    sequence: 2,
+    type: "delete",
+    key: "test/1",
+  });
+
+  await events.cancel();
+});
+
+test("v1 changes w/ invalid requests", async (t) => {
+  const service = createTestService({
+    policy: (_user, access) => "key" in access,
+  });
+  const res1 = await makeRequest(service, "/v1/changes/missing");
+
+  t.is(res1.status, 404);
+
+  const res2 = await makeRequest(service, "/v1/changes/test?prefix=1");
+
+  t.is(res2.status, 403);
+
+  const res3 = await makeRequest(service, "/v1/changes/test?key=1&prefix=1");
+
+  t.is(res3.status, 400);
+
+  const res4 = await makeRequest(service, "/v1/changes/test?key=1&after=a");
+
+  t.is(res4.status, 400);
+});
+
+test("v1 changes w/o support", async (t) => {
+  class UnsupportedStorageAdapter extends MemoryStorageAdapter {
+    public readonly supportsChanges = false;
+  }
+
+  const storage = new UnsupportedStorageAdapter({
+    initialNamespaces: ["test"],
+  });
+  const service = createTestService({ runtime: { storage } });
+  const res1 = await makeRequest(service, "/v1/changes/test");
+
+  t.is(res1.status, 501);
+
+  const res2 = await makeRequest(service, "/v1/kv/test/3", {
+    method: "PUT",
+    body: { value: 3 },
+  });
+
+  t.is(res2.status, 200);
+  t.is(await storage.getLastChangeSequence(), 0);
+});
+
+// `fetch` is replaced for the whole process, so this can't run concurrently
+// with anything else that uses it
+test.serial("v1 changes w/ webhooks", async (t) => {
+  const originalFetch = globalThis.fetch;
+  const requests: { url: string; init?: RequestInit }[] = [];
+
+  globalThis.fetch = async (input: RequestInfo | URL, init?: RequestInit) => {
+    requests.push({ url: input.toString(), init });
+
+    return new Response(null, { status: 500 });
+  };
+
+  t.teardown(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  const service = createTestService({
+    webhooks: [
+      {
+        namespace: "test",
+        prefix: "config/",
+        endpoint: "https://example.com/webhook",
+        method: "PUT",
+        headers: { "X-Test": "test" },
+        queryParameters: { source: "kv" },
+      },
+    ],
+  });
+  const res1 = await makeRequest(service, "/v1/kv/test/config/1", {
+    method: "PUT",
+    body: { value: 1 },
+  });
+
+  // Failed webhooks don't fail the write
+  t.is(res1.status, 200);
+
+  await makeRequest(service, "/v1/kv/test/1", { method: "DELETE" });
+
+  t.is(requests.length, 1);
+  t.is(requests[0]?.url, "https://example.com/webhook?source=kv");
+  t.is(requests[0]?.init?.method, "PUT");
+  t.is(new Headers(requests[0]?.init?.headers).get("X-Test"), "test");
+
+  const body = JSON.parse(requests[0]?.init?.body as string) as {
+    changes: KVChange[];
+  };
+
+  t.is(body.changes.length, 1);
+  t.is(body.changes[0]?.type, "set");
+  t.is(body.changes[0]?.key, "test/config/1");
+  t.true(requests[0]?.init?.signal instanceof AbortSignal);
+});
+
+test.serial("v1 changes w/ webhooks & execution context", async (t) => {
+  const originalFetch = globalThis.fetch;
+  const requests: string[] = [];
+
+  globalThis.fetch = async (input: RequestInfo | URL) => {
+    requests.push(input.toString());
+
+    return new Response(null, { status: 200 });
+  };
+
+  t.teardown(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  const service = createTestService({
+    webhooks: [{ namespace: "test", endpoint: "https://example.com/webhook" }],
+  });
+  const promises: Promise<unknown>[] = [];
+  const res = await service.fetch(
+    new Request("http://localhost/v1/kv/test/3", {
+      method: "PUT",
+      headers: {
+        Authorization: "Bearer test",
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ value: 3 }),
+    }),
+    {},
+    {
+      waitUntil: (promise) => promises.push(promise),
+      passThroughOnException: () => {},
+    },
+  );
+
+  t.is(res.status, 200);
+  // The webhooks are sent after the response
+  t.is(promises.length, 1);
+
+  await Promise.all(promises);
+
+  t.deepEqual(requests, ["https://example.com/webhook"]);
+});
+
+// `console.error` is replaced for the whole process, so this can't run
+// concurrently with anything else that uses it
+test.serial("v1 changes w/ failed recording", async (t) => {
+  class FailingStorageAdapter extends MemoryStorageAdapter {
+    public async recordChanges(): Promise<never> {
+      throw new Error("Failed to record the changes");
+    }
+  }
+
+  const originalError = console.error;
+  const errors: unknown[] = [];
+
+  console.error = (error: unknown) => {
+    errors.push(error);
+  };
+
+  t.teardown(() => {
+    console.error = originalError;
+  });
+
+  const storage = new FailingStorageAdapter({ initialNamespaces: ["test"] });
+  const service = createTestService({ runtime: { storage } });
+  const res = await makeRequest(service, "/v1/kv/test/3", {
+    method: "PUT",
+    body: { value: 3 },
+  });
+
+  // The value was written, but the change is missing from the feed
+  t.is(res.status, 500);
+  t.is(await storage.getValue("test/3"), 3);
+  t.is(errors.length, 1);
+});
+
 test("v1 admin info", async (t) => {
   const service = createTestService({
     endpoints: {
@@ -127,6 +1130,102 @@ test("v1 admin migrate", async (t) => {
   t.deepEqual(result.data, []);
 });
 
+test("v1 admin namespaces", async (t) => {
+  const service = createTestService();
+  const res1 = await makeRequest(service, "/v1/admin/namespaces", {
+    method: "POST",
+    body: { name: "new" },
+  });
+
+  t.is(res1.status, 200);
+
+  const result1 = (await res1.json()) as AdminNamespaceResponse;
+
+  t.is(result1.data.name, "new");
+  t.false(Number.isNaN(Date.parse(result1.data.createdAt)));
+
+  const res2 = await makeRequest(service, "/v1/admin/namespaces", {
+    method: "POST",
+    body: { name: "new" },
+  });
+
+  t.is(res2.status, 409);
+
+  const res3 = await makeRequest(service, "/v1/admin/namespaces");
+  const result3 = (await res3.json()) as AdminNamespacesResponse;
+
+  t.deepEqual(
+    result3.data.map(({ name }) => name),
+    ["new", "other", "test"],
+  );
+
+  const res4 = await makeRequest(service, "/v1/kv/new/1", {
+    method: "PUT",
+    body: { value: "test" },
+  });
+
+  t.is(res4.status, 200);
+
+  const res5 = await makeRequest(service, "/v1/admin/namespaces", {
+    method: "POST",
+    body: { name: "not/valid" },
+  });
+
+  t.is(res5.status, 400);
+});
+
+test("v1 admin info w/ webhooks", async (t) => {
+  const service = createTestService({
+    webhooks: [
+      {
+        namespace: "test",
+        endpoint: "https://example.com/webhook",
+        headers: { Authorization: "Bearer secret" },
+      },
+    ],
+  });
+  const res = await makeRequest(service, "/v1/admin/info");
+  const result = (await res.json()) as AdminInfoResponse & {
+    data: { webhooks: { endpoint: string; headers: Record<string, string> }[] };
+  };
+
+  t.is(result.data.webhooks[0]?.endpoint, "https://example.com/webhook");
+  t.deepEqual(result.data.webhooks[0]?.headers, {
+    Authorization: "[REDACTED]",
+  });
+});
+
+test("v1 admin w/ policy", async (t) => {
+  const service = createTestService({
+    // Everything but managing the service
+    policy: (_user, access) => access.action !== "admin",
+  });
+  const res1 = await makeRequest(service, "/v1/admin/info");
+
+  t.is(res1.status, 403);
+
+  const res2 = await makeRequest(service, "/v1/admin/migrate", {
+    method: "POST",
+  });
+
+  t.is(res2.status, 403);
+
+  const res3 = await makeRequest(service, "/v1/admin/namespaces");
+
+  t.is(res3.status, 403);
+
+  const res4 = await makeRequest(service, "/v1/admin/namespaces", {
+    method: "POST",
+    body: { name: "new" },
+  });
+
+  t.is(res4.status, 403);
+
+  const res5 = await makeRequest(service, "/v1/kv/test/1");
+
+  t.is(res5.status, 200);
+});
+
 test("v1 admin w/ custom endpoint", async (t) => {
   const service = createTestService({
     endpoints: {
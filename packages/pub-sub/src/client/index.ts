@@ -0,0 +1,110 @@
+import {
+  Client,
+  ClientError,
+  type ClientFetch,
+  type ClientOptions,
+  type Serialized,
+} from "@workertown/internal-client";
+
+import { type Subscription } from "../storage/storage-adapter.js";
+
+export interface PubSubClientEndpoints {
+  v1: {
+    admin: string;
+    publish: string;
+    subscriptions: string;
+  };
+}
+
+export type PubSubClientOptions = ClientOptions<PubSubClientEndpoints>;
+
+export type PubSubClientSubscription = Serialized<Subscription>;
+
+export interface GetSubscriptionsOptions {
+  topic?: string;
+}
+
+export interface CreateSubscriptionOptions {
+  topic: string;
+  endpoint: string;
+  method?: Subscription["method"];
+  headers?: Record<string, string>;
+  queryParameters?: Record<string, string>;
+}
+
+const DEFAULT_ENDPOINTS: PubSubClientEndpoints = {
+  v1: {
+    admin: "/v1/admin",
+    publish: "/v1/publish",
+    subscriptions: "/v1/subscriptions",
+  },
+};
+
+export class PubSubClient extends Client<PubSubClientEndpoints> {
+  constructor(options: PubSubClientOptions = {}) {
+    super(DEFAULT_ENDPOINTS, options);
+  }
+
+  async getSubscriptions({ topic }: GetSubscriptionsOptions = {}) {
+    const { data } = await this.request<PubSubClientSubscription[]>(
+      "GET",
+      this.endpoints.v1.subscriptions,
+      { query: { topic } },
+    );
+
+    return data;
+  }
+
+  async createSubscription(body: CreateSubscriptionOptions) {
+    const { data } = await this.request<PubSubClientSubscription>(
+      "POST",
+      this.endpoints.v1.subscriptions,
+      { body },
+    );
+
+    return data;
+  }
+
+  async deleteSubscription(id: string) {
+    const { data } = await this.request<{ id: string }>(
+      "DELETE",
+      `${this.endpoints.v1.subscriptions}/${encodeURIComponent(id)}`,
+    );
+
+    return data;
+  }
+
+  async publish(topic: string, message?: Record<string, unknown>) {
+    const { data } = await this.request<boolean>(
+      "POST",
+      `${this.endpoints.v1.publish}/${encodeURIComponent(topic)}`,
+      { body: { message } },
+    );
+
+    return data;
+  }
+
+  async info() {
+    const { data } = await this.request<Record<string, unknown>>(
+      "GET",
+      `${this.endpoints.v1.admin}/info`,
+    );
+
+    return data;
+  }
+
+  async migrate() {
+    const { data } = await this.request<unknown[]>(
+      "POST",
+      `${this.endpoints.v1.admin}/migrate`,
+    );
+
+    return data;
+  }
+}
+
+export function createPubSubClient(options?: PubSubClientOptions) {
+  return new PubSubClient(options);
+}
+
+export { ClientError, type ClientFetch };
@@ -0,0 +1,49 @@
+import test from "ava";
+
+import { ClientError, createPubSubClient } from "../src/client";
+import { createTestService } from "./_utils";
+
+function createTestClient(service = createTestService()) {
+  return createPubSubClient({ fetch: service.request, token: "test" });
+}
+
+test("client subscriptions", async (t) => {
+  const client = createTestClient();
+
+  t.is((await client.getSubscriptions()).length, 1);
+  t.is((await client.getSubscriptions({ topic: "TEST" })).length, 1);
+  t.is((await client.getSubscriptions({ topic: "OTHER" })).length, 0);
+});
+
+test("client create/delete subscription", async (t) => {
+  const client = createTestClient();
+  const subscription = await client.createSubscription({
+    topic: "OTHER",
+    endpoint: "http://localhost:3000",
+  });
+
+  t.is(subscription.topic, "OTHER");
+  t.is(subscription.method, "POST");
+  t.is((await client.getSubscriptions({ topic: "OTHER" })).length, 1);
+  t.deepEqual(await client.deleteSubscription(subscription.id), {
+    id: subscription.id,
+  });
+  t.is((await client.getSubscriptions({ topic: "OTHER" })).length, 0);
+});
+
+test("client publish", async (t) => {
+  const client = createTestClient();
+
+  t.true(await client.publish("TEST", { test: true }));
+});
+
+test("client validation error", async (t) => {
+  const client = createTestClient();
+  const error = await t.throwsAsync(
+    client.createSubscription({ topic: "TEST", endpoint: "not a url" }),
+    { instanceOf: ClientError },
+  );
+
+  t.is(error?.status, 400);
+  t.deepEqual(error?.errors[0]?.path, ["endpoint"]);
+});
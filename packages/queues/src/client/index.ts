@@ -0,0 +1,217 @@
+import {
+  Client,
+  ClientError,
+  type ClientFetch,
+  type ClientOptions,
+  type Serialized,
+} from "@workertown/internal-client";
+
+import { type Queue, type QueueMessage } from "../storage/storage-adapter.js";
+
+export interface QueuesClientEndpoints {
+  v1: {
+    admin: string;
+    queues: string;
+  };
+}
+
+export type QueuesClientOptions = ClientOptions<QueuesClientEndpoints>;
+
+export type QueuesClientQueue = Serialized<Queue>;
+
+export type QueuesClientMessage<T = unknown> = Serialized<
+  Omit<QueueMessage, "body">
+> & {
+  body: T;
+};
+
+export interface UpsertQueueOptions {
+  visibilityTimeout?: number;
+  maxRetries?: number;
+}
+
+export interface SendMessageOptions {
+  delay?: number;
+}
+
+export interface PullMessagesOptions {
+  limit?: number;
+  visibilityTimeout?: number;
+}
+
+export interface NackMessageOptions {
+  delay?: number;
+}
+
+export interface GetDeadLetterMessagesOptions {
+  limit?: number;
+}
+
+const DEFAULT_ENDPOINTS: QueuesClientEndpoints = {
+  v1: {
+    admin: "/v1/admin",
+    queues: "/v1/queues",
+  },
+};
+
+export class QueuesClient extends Client<QueuesClientEndpoints> {
+  constructor(options: QueuesClientOptions = {}) {
+    super(DEFAULT_ENDPOINTS, options);
+  }
+
+  private _getQueuePath(queue: string, path = "") {
+    return `${this.endpoints.v1.queues}/${encodeURIComponent(queue)}${path}`;
+  }
+
+  async getQueues() {
+    const { data } = await this.request<QueuesClientQueue[]>(
+      "GET",
+      this.endpoints.v1.queues,
+    );
+
+    return data;
+  }
+
+  async getQueue(queue: string) {
+    const { data } = await this.request<QueuesClientQueue | null>(
+      "GET",
+      this._getQueuePath(queue),
+    );
+
+    return data;
+  }
+
+  async upsertQueue(queue: string, options: UpsertQueueOptions = {}) {
+    const { data } = await this.request<QueuesClientQueue>(
+      "PUT",
+      this._getQueuePath(queue),
+      { body: options },
+    );
+
+    return data;
+  }
+
+  async deleteQueue(queue: string) {
+    const { data } = await this.request<{ name: string }>(
+      "DELETE",
+      this._getQueuePath(queue),
+    );
+
+    return data;
+  }
+
+  async sendMessage<T = unknown>(
+    queue: string,
+    body: T,
+    options: SendMessageOptions = {},
+  ) {
+    const { data } = await this.request<QueuesClientMessage<T>>(
+      "POST",
+      this._getQueuePath(queue, "/messages"),
+      { body: { body, delay: options.delay } },
+    );
+
+    return data;
+  }
+
+  async sendMessages<T = unknown>(
+    queue: string,
+    messages: ({ body: T } & SendMessageOptions)[],
+  ) {
+    const { data } = await this.request<QueuesClientMessage<T>[]>(
+      "POST",
+      this._getQueuePath(queue, "/messages"),
+      { body: { messages } },
+    );
+
+    return data;
+  }
+
+  async pullMessages<T = unknown>(
+    queue: string,
+    options: PullMessagesOptions = {},
+  ) {
+    const { data } = await this.request<QueuesClientMessage<T>[]>(
+      "POST",
+      this._getQueuePath(queue, "/pull"),
+      { body: options },
+    );
+
+    return data;
+  }
+
+  // The `leaseId` is the one the message was pulled with
+  async ackMessage(queue: string, id: string, leaseId: string) {
+    const { data } = await this.request<{ id: string }>(
+      "POST",
+      this._getQueuePath(queue, `/messages/${encodeURIComponent(id)}/ack`),
+      { body: { leaseId } },
+    );
+
+    return data;
+  }
+
+  async nackMessage(
+    queue: string,
+    id: string,
+    leaseId: string,
+    options: NackMessageOptions = {},
+  ) {
+    const { data } = await this.request<{ id: string }>(
+      "POST",
+      this._getQueuePath(queue, `/messages/${encodeURIComponent(id)}/nack`),
+      { body: { ...options, leaseId } },
+    );
+
+    return data;
+  }
+
+  async getDeadLetterMessages<T = unknown>(
+    queue: string,
+    options: GetDeadLetterMessagesOptions = {},
+  ) {
+    const { data } = await this.request<QueuesClientMessage<T>[]>(
+      "GET",
+      this._getQueuePath(queue, "/dlq"),
+      { query: { limit: options.limit } },
+    );
+
+    return data;
+  }
+
+  // Moves dead-lettered messages back onto the queue, either all of them or
+  // just those with the given `ids`
+  async redriveMessages(queue: string, ids?: string[]) {
+    const { data } = await this.request<{ count: number }>(
+      "POST",
+      this._getQueuePath(queue, "/dlq/redrive"),
+      { body: { ids } },
+    );
+
+    return data.count;
+  }
+
+  async info() {
+    const { data } = await this.request<Record<string, unknown>>(
+      "GET",
+      `${this.endpoints.v1.admin}/info`,
+    );
+
+    return data;
+  }
+
+  async migrate() {
+    const { data } = await this.request<unknown[]>(
+      "POST",
+      `${this.endpoints.v1.admin}/migrate`,
+    );
+
+    return data;
+  }
+}
+
+export function createQueuesClient(options?: QueuesClientOptions) {
+  return new QueuesClient(options);
+}
+
+export { ClientError, type ClientFetch };
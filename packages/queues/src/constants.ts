@@ -0,0 +1,1127 @@
+import { type OpenApiSpec } from "@workertown/internal-open-api";
+
+export const OPEN_API_SPEC: OpenApiSpec = {
+  openapi: "3.0.0",
+  info: {
+    version: "1.0.0",
+    title: "Workertown Queues",
+    license: {
+      name: "MIT",
+    },
+  },
+  servers: [
+    {
+      url: "http://localhost:8787",
+    },
+  ],
+  paths: {
+    "/v1/queues": {
+      get: {
+        summary: "Get all queues",
+        security: [{ BasicAuth: [] }, { BearerAuth: [] }],
+        operationId: "getQueues",
+        tags: ["Queues"],
+        responses: {
+          "200": {
+            description: "The queues",
+            content: {
+              "application/json": {
+                schema: {
+                  $ref: "#/components/schemas/GetQueuesResponse",
+                },
+              },
+            },
+          },
+          default: {
+            description: "Unexpected error",
+            content: {
+              "application/json": {
+                schema: {
+                  $ref: "#/components/schemas/InternalServerErrorResponse",
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    "/v1/queues/{queue}": {
+      get: {
+        summary: "Get a queue",
+        security: [{ BasicAuth: [] }, { BearerAuth: [] }],
+        operationId: "getQueue",
+        tags: ["Queues"],
+        parameters: [
+          {
+            name: "queue",
+            in: "path",
+            required: true,
+            description: "The name of the queue",
+            schema: {
+              type: "string",
+            },
+          },
+        ],
+        responses: {
+          "200": {
+            description: "The queue",
+            content: {
+              "application/json": {
+                schema: {
+                  $ref: "#/components/schemas/GetQueueResponse",
+                },
+              },
+            },
+          },
+          default: {
+            description: "Unexpected error",
+            content: {
+              "application/json": {
+                schema: {
+                  $ref: "#/components/schemas/InternalServerErrorResponse",
+                },
+              },
+            },
+          },
+        },
+      },
+      put: {
+        summary: "Create or update a queue",
+        security: [{ BasicAuth: [] }, { BearerAuth: [] }],
+        operationId: "upsertQueue",
+        tags: ["Queues"],
+        parameters: [
+          {
+            name: "queue",
+            in: "path",
+            required: true,
+            description: "The name of the queue",
+            schema: {
+              type: "string",
+            },
+          },
+        ],
+        requestBody: {
+          description: "The queue options",
+          required: true,
+          content: {
+            "application/json": {
+              schema: {
+                $ref: "#/components/schemas/UpsertQueueBody",
+              },
+            },
+          },
+        },
+        responses: {
+          "200": {
+            description: "The created or updated queue",
+            content: {
+              "application/json": {
+                schema: {
+                  $ref: "#/components/schemas/UpsertQueueResponse",
+                },
+              },
+            },
+          },
+          default: {
+            description: "Unexpected error",
+            content: {
+              "application/json": {
+                schema: {
+                  $ref: "#/components/schemas/InternalServerErrorResponse",
+                },
+              },
+            },
+          },
+        },
+      },
+      delete: {
+        summary: "Delete a queue and all of its messages",
+        security: [{ BasicAuth: [] }, { BearerAuth: [] }],
+        operationId: "deleteQueue",
+        tags: ["Queues"],
+        parameters: [
+          {
+            name: "queue",
+            in: "path",
+            required: true,
+            description: "The name of the queue",
+            schema: {
+              type: "string",
+            },
+          },
+        ],
+        responses: {
+          "200": {
+            description: "The deleted queue",
+            content: {
+              "application/json": {
+                schema: {
+                  $ref: "#/components/schemas/DeleteQueueResponse",
+                },
+              },
+            },
+          },
+          default: {
+            description: "Unexpected error",
+            content: {
+              "application/json": {
+                schema: {
+                  $ref: "#/components/schemas/InternalServerErrorResponse",
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    "/v1/queues/{queue}/messages": {
+      post: {
+        summary: "Send one or more messages",
+        security: [{ BasicAuth: [] }, { BearerAuth: [] }],
+        operationId: "sendMessages",
+        tags: ["Queues"],
+        parameters: [
+          {
+            name: "queue",
+            in: "path",
+            required: true,
+            description: "The name of the queue",
+            schema: {
+              type: "string",
+            },
+          },
+        ],
+        requestBody: {
+          description: "A single message, or a batch of messages",
+          required: true,
+          content: {
+            "application/json": {
+              schema: {
+                $ref: "#/components/schemas/SendMessagesBody",
+              },
+            },
+          },
+        },
+        responses: {
+          "200": {
+            description: "The sent message(s)",
+            content: {
+              "application/json": {
+                schema: {
+                  $ref: "#/components/schemas/SendMessagesResponse",
+                },
+              },
+            },
+          },
+          default: {
+            description: "Unexpected error",
+            content: {
+              "application/json": {
+                schema: {
+                  $ref: "#/components/schemas/InternalServerErrorResponse",
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    "/v1/queues/{queue}/pull": {
+      post: {
+        summary: "Pull messages, leasing them for the visibility timeout",
+        security: [{ BasicAuth: [] }, { BearerAuth: [] }],
+        operationId: "pullMessages",
+        tags: ["Queues"],
+        parameters: [
+          {
+            name: "queue",
+            in: "path",
+            required: true,
+            description: "The name of the queue",
+            schema: {
+              type: "string",
+            },
+          },
+        ],
+        requestBody: {
+          description: "The pull options",
+          required: false,
+          content: {
+            "application/json": {
+              schema: {
+                $ref: "#/components/schemas/PullMessagesBody",
+              },
+            },
+          },
+        },
+        responses: {
+          "200": {
+            description: "The leased messages",
+            content: {
+              "application/json": {
+                schema: {
+                  $ref: "#/components/schemas/PullMessagesResponse",
+                },
+              },
+            },
+          },
+          default: {
+            description: "Unexpected error",
+            content: {
+              "application/json": {
+                schema: {
+                  $ref: "#/components/schemas/InternalServerErrorResponse",
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    "/v1/queues/{queue}/messages/{id}/ack": {
+      post: {
+        summary: "Acknowledge a message, removing it from the queue",
+        security: [{ BasicAuth: [] }, { BearerAuth: [] }],
+        operationId: "ackMessage",
+        tags: ["Queues"],
+        parameters: [
+          {
+            name: "queue",
+            in: "path",
+            required: true,
+            description: "The name of the queue",
+            schema: {
+              type: "string",
+            },
+          },
+          {
+            name: "id",
+            in: "path",
+            required: true,
+            description: "The ID of the message",
+            schema: {
+              type: "string",
+            },
+          },
+        ],
+        responses: {
+          "200": {
+            description: "The acknowledged message",
+            content: {
+              "application/json": {
+                schema: {
+                  $ref: "#/components/schemas/MessageResponse",
+                },
+              },
+            },
+          },
+          default: {
+            description: "Unexpected error",
+            content: {
+              "application/json": {
+                schema: {
+                  $ref: "#/components/schemas/InternalServerErrorResponse",
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    "/v1/queues/{queue}/messages/{id}/nack": {
+      post: {
+        summary: "Release a message back onto the queue to be retried",
+        security: [{ BasicAuth: [] }, { BearerAuth: [] }],
+        operationId: "nackMessage",
+        tags: ["Queues"],
+        parameters: [
+          {
+            name: "queue",
+            in: "path",
+            required: true,
+            description: "The name of the queue",
+            schema: {
+              type: "string",
+            },
+          },
+          {
+            name: "id",
+            in: "path",
+            required: true,
+            description: "The ID of the message",
+            schema: {
+              type: "string",
+            },
+          },
+        ],
+        requestBody: {
+          description: "The retry options",
+          required: false,
+          content: {
+            "application/json": {
+              schema: {
+                $ref: "#/components/schemas/NackMessageBody",
+              },
+            },
+          },
+        },
+        responses: {
+          "200": {
+            description: "The released message",
+            content: {
+              "application/json": {
+                schema: {
+                  $ref: "#/components/schemas/MessageResponse",
+                },
+              },
+            },
+          },
+          default: {
+            description: "Unexpected error",
+            content: {
+              "application/json": {
+                schema: {
+                  $ref: "#/components/schemas/InternalServerErrorResponse",
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    "/v1/queues/{queue}/dlq": {
+      get: {
+        summary: "Get dead-lettered messages",
+        security: [{ BasicAuth: [] }, { BearerAuth: [] }],
+        operationId: "getDeadLetterMessages",
+        tags: ["Queues"],
+        parameters: [
+          {
+            name: "queue",
+            in: "path",
+            required: true,
+            description: "The name of the queue",
+            schema: {
+              type: "string",
+            },
+          },
+          {
+            name: "limit",
+            in: "query",
+            required: false,
+            description: "The maximum number of messages to return",
+            schema: {
+              type: "integer",
+              format: "int32",
+              default: 100,
+            },
+          },
+        ],
+        responses: {
+          "200": {
+            description: "The dead-lettered messages",
+            content: {
+              "application/json": {
+                schema: {
+                  $ref: "#/components/schemas/PullMessagesResponse",
+                },
+              },
+            },
+          },
+          default: {
+            description: "Unexpected error",
+            content: {
+              "application/json": {
+                schema: {
+                  $ref: "#/components/schemas/InternalServerErrorResponse",
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    "/v1/queues/{queue}/dlq/redrive": {
+      post: {
+        summary: "Move dead-lettered messages back onto the queue",
+        security: [{ BasicAuth: [] }, { BearerAuth: [] }],
+        operationId: "redriveMessages",
+        tags: ["Queues"],
+        parameters: [
+          {
+            name: "queue",
+            in: "path",
+            required: true,
+            description: "The name of the queue",
+            schema: {
+              type: "string",
+            },
+          },
+        ],
+        requestBody: {
+          description: "The messages to redrive, or all of them if omitted",
+          required: false,
+          content: {
+            "application/json": {
+              schema: {
+                $ref: "#/components/schemas/RedriveMessagesBody",
+              },
+            },
+          },
+        },
+        responses: {
+          "200": {
+            description: "The number of redriven messages",
+            content: {
+              "application/json": {
+                schema: {
+                  $ref: "#/components/schemas/RedriveMessagesResponse",
+                },
+              },
+            },
+          },
+          default: {
+            description: "Unexpected error",
+            content: {
+              "application/json": {
+                schema: {
+                  $ref: "#/components/schemas/InternalServerErrorResponse",
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    "/v1/admin/info": {
+      get: {
+        summary: "Get configuration information",
+        security: [{ BasicAuth: [] }, { BearerAuth: [] }],
+        operationId: "adminInfo",
+        tags: ["Admin"],
+        responses: {
+          "200": {
+            description: "The current configuration",
+            content: {
+              "application/json": {
+                schema: {
+                  $ref: "#/components/schemas/AdminInfoResponse",
+                },
+              },
+            },
+          },
+          default: {
+            description: "Unexpected error",
+            content: {
+              "application/json": {
+                schema: {
+                  $ref: "#/components/schemas/InternalServerErrorResponse",
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    "/v1/admin/migrate": {
+      post: {
+        summary: "Run database migrations",
+        security: [{ BasicAuth: [] }, { BearerAuth: [] }],
+        operationId: "adminMigrate",
+        tags: ["Admin"],
+        responses: {
+          "200": {
+            description: "The successfully run migrations",
+            content: {
+              "application/json": {
+                schema: {
+                  $ref: "#/components/schemas/AdminMigrateResponse",
+                },
+              },
+            },
+          },
+          default: {
+            description: "Unexpected error",
+            content: {
+              "application/json": {
+                schema: {
+                  $ref: "#/components/schemas/InternalServerErrorResponse",
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    "/health": {
+      get: {
+        summary: "Get service health",
+        security: [],
+        operationId: "health",
+        tags: ["Public"],
+        responses: {
+          "200": {
+            description: "The service health status",
+            content: {
+              "application/json": {
+                schema: {
+                  $ref: "#/components/schemas/PublicHealthResponse",
+                },
+              },
+            },
+          },
+          default: {
+            description: "Unexpected error",
+            content: {
+              "application/json": {
+                schema: {
+                  $ref: "#/components/schemas/InternalServerErrorResponse",
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+  },
+  components: {
+    securitySchemes: {
+      BasicAuth: {
+        type: "http",
+        scheme: "basic",
+      },
+      BearerAuth: {
+        type: "http",
+        scheme: "bearer",
+      },
+    },
+    schemas: {
+      UpsertQueueBody: {
+        properties: {
+          visibilityTimeout: {
+            type: "integer",
+            format: "int32",
+            description:
+              "The number of seconds a pulled message is hidden from other consumers",
+            example: 30,
+          },
+          maxRetries: {
+            type: "integer",
+            format: "int32",
+            description:
+              "The number of times a message is retried before being dead-lettered",
+            example: 5,
+          },
+        },
+      },
+      SendMessagesBody: {
+        oneOf: [
+          {
+            type: "object",
+            required: ["body"],
+            properties: {
+              body: {
+                example: {
+                  to: "test@example.com",
+                },
+              },
+              delay: {
+                type: "integer",
+                format: "int32",
+                description:
+                  "The number of seconds to wait before the message can be pulled",
+                example: 0,
+              },
+            },
+          },
+          {
+            type: "object",
+            required: ["messages"],
+            properties: {
+              messages: {
+                type: "array",
+                items: {
+                  type: "object",
+                  required: ["body"],
+                  properties: {
+                    body: {
+                      example: {
+                        to: "test@example.com",
+                      },
+                    },
+                    delay: {
+                      type: "integer",
+                      format: "int32",
+                      description:
+                        "The number of seconds to wait before the message can be pulled",
+                      example: 0,
+                    },
+                  },
+                },
+              },
+            },
+          },
+        ],
+      },
+      PullMessagesBody: {
+        properties: {
+          limit: {
+            type: "integer",
+            format: "int32",
+            example: 1,
+          },
+          visibilityTimeout: {
+            type: "integer",
+            format: "int32",
+            example: 30,
+          },
+        },
+      },
+      NackMessageBody: {
+        properties: {
+          delay: {
+            type: "integer",
+            format: "int32",
+            description:
+              "The number of seconds to wait before the message can be pulled again",
+            example: 0,
+          },
+        },
+      },
+      RedriveMessagesBody: {
+        properties: {
+          ids: {
+            type: "array",
+            items: {
+              type: "string",
+            },
+          },
+        },
+      },
+      GetQueuesResponse: {
+        properties: {
+          status: {
+            type: "integer",
+            format: "int32",
+            example: 200,
+          },
+          success: {
+            type: "boolean",
+            example: true,
+          },
+          data: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: {
+                name: {
+                  type: "string",
+                  example: "emails",
+                },
+                visibilityTimeout: {
+                  type: "integer",
+                  format: "int32",
+                  example: 30,
+                },
+                maxRetries: {
+                  type: "integer",
+                  format: "int32",
+                  example: 5,
+                },
+                createdAt: {
+                  type: "string",
+                  format: "date-time",
+                },
+                updatedAt: {
+                  type: "string",
+                  format: "date-time",
+                },
+              },
+            },
+          },
+        },
+      },
+      GetQueueResponse: {
+        properties: {
+          status: {
+            type: "integer",
+            format: "int32",
+            example: 200,
+          },
+          success: {
+            type: "boolean",
+            example: true,
+          },
+          data: {
+            type: "object",
+            properties: {
+              name: {
+                type: "string",
+                example: "emails",
+              },
+              visibilityTimeout: {
+                type: "integer",
+                format: "int32",
+                example: 30,
+              },
+              maxRetries: {
+                type: "integer",
+                format: "int32",
+                example: 5,
+              },
+              createdAt: {
+                type: "string",
+                format: "date-time",
+              },
+              updatedAt: {
+                type: "string",
+                format: "date-time",
+              },
+            },
+          },
+        },
+      },
+      UpsertQueueResponse: {
+        properties: {
+          status: {
+            type: "integer",
+            format: "int32",
+            example: 200,
+          },
+          success: {
+            type: "boolean",
+            example: true,
+          },
+          data: {
+            type: "object",
+            properties: {
+              name: {
+                type: "string",
+                example: "emails",
+              },
+              visibilityTimeout: {
+                type: "integer",
+                format: "int32",
+                example: 30,
+              },
+              maxRetries: {
+                type: "integer",
+                format: "int32",
+                example: 5,
+              },
+              createdAt: {
+                type: "string",
+                format: "date-time",
+              },
+              updatedAt: {
+                type: "string",
+                format: "date-time",
+              },
+            },
+          },
+        },
+      },
+      DeleteQueueResponse: {
+        properties: {
+          status: {
+            type: "integer",
+            format: "int32",
+            example: 200,
+          },
+          success: {
+            type: "boolean",
+            example: true,
+          },
+          data: {
+            type: "object",
+            properties: {
+              name: {
+                type: "string",
+                example: "emails",
+              },
+            },
+          },
+        },
+      },
+      SendMessagesResponse: {
+        properties: {
+          status: {
+            type: "integer",
+            format: "int32",
+            example: 200,
+          },
+          success: {
+            type: "boolean",
+            example: true,
+          },
+          data: {
+            oneOf: [
+              {
+                type: "object",
+                properties: {
+                  id: {
+                    type: "string",
+                    example: "c8b8d4ad-1ed2-4d1e-9fd8-6e5a4f0a6d8c",
+                  },
+                  queue: {
+                    type: "string",
+                    example: "emails",
+                  },
+                  body: {
+                    example: {
+                      to: "test@example.com",
+                    },
+                  },
+                  attempts: {
+                    type: "integer",
+                    format: "int32",
+                    example: 1,
+                  },
+                  availableAt: {
+                    type: "string",
+                    format: "date-time",
+                  },
+                  createdAt: {
+                    type: "string",
+                    format: "date-time",
+                  },
+                  dlqAt: {
+                    type: "string",
+                    format: "date-time",
+                    nullable: true,
+                  },
+                },
+              },
+              {
+                type: "array",
+                items: {
+                  type: "object",
+                  properties: {
+                    id: {
+                      type: "string",
+                      example: "c8b8d4ad-1ed2-4d1e-9fd8-6e5a4f0a6d8c",
+                    },
+                    queue: {
+                      type: "string",
+                      example: "emails",
+                    },
+                    body: {
+                      example: {
+                        to: "test@example.com",
+                      },
+                    },
+                    attempts: {
+                      type: "integer",
+                      format: "int32",
+                      example: 1,
+                    },
+                    availableAt: {
+                      type: "string",
+                      format: "date-time",
+                    },
+                    createdAt: {
+                      type: "string",
+                      format: "date-time",
+                    },
+                    dlqAt: {
+                      type: "string",
+                      format: "date-time",
+                      nullable: true,
+                    },
+                  },
+                },
+              },
+            ],
+          },
+        },
+      },
+      PullMessagesResponse: {
+        properties: {
+          status: {
+            type: "integer",
+            format: "int32",
+            example: 200,
+          },
+          success: {
+            type: "boolean",
+            example: true,
+          },
+          data: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: {
+                id: {
+                  type: "string",
+                  example: "c8b8d4ad-1ed2-4d1e-9fd8-6e5a4f0a6d8c",
+                },
+                queue: {
+                  type: "string",
+                  example: "emails",
+                },
+                body: {
+                  example: {
+                    to: "test@example.com",
+                  },
+                },
+                attempts: {
+                  type: "integer",
+                  format: "int32",
+                  example: 1,
+                },
+                availableAt: {
+                  type: "string",
+                  format: "date-time",
+                },
+                createdAt: {
+                  type: "string",
+                  format: "date-time",
+                },
+                dlqAt: {
+                  type: "string",
+                  format: "date-time",
+                  nullable: true,
+                },
+              },
+            },
+          },
+        },
+      },
+      MessageResponse: {
+        properties: {
+          status: {
+            type: "integer",
+            format: "int32",
+            example: 200,
+          },
+          success: {
+            type: "boolean",
+            example: true,
+          },
+          data: {
+            type: "object",
+            properties: {
+              id: {
+                type: "string",
+                example: "c8b8d4ad-1ed2-4d1e-9fd8-6e5a4f0a6d8c",
+              },
+            },
+          },
+        },
+      },
+      RedriveMessagesResponse: {
+        properties: {
+          status: {
+            type: "integer",
+            format: "int32",
+            example: 200,
+          },
+          success: {
+            type: "boolean",
+            example: true,
+          },
+          data: {
+            type: "object",
+            properties: {
+              count: {
+                type: "integer",
+                format: "int32",
+                example: 1,
+              },
+            },
+          },
+        },
+      },
+      AdminInfoResponse: {
+        properties: {
+          status: {
+            type: "integer",
+            format: "int32",
+            example: 200,
+          },
+          success: {
+            type: "boolean",
+            example: true,
+          },
+          data: {
+            type: "object",
+          },
+        },
+      },
+      AdminMigrateResponse: {
+        properties: {
+          status: {
+            type: "integer",
+            format: "int32",
+            example: 200,
+          },
+          success: {
+            type: "boolean",
+            example: true,
+          },
+          data: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: {
+                migrationName: {
+                  type: "string",
+                  example: "1688823193041_add_initial_tables_and_indexes",
+                },
+                direction: {
+                  type: "string",
+                  example: "Up",
+                },
+                status: {
+                  type: "string",
+                  example: "Success",
+                },
+              },
+            },
+          },
+        },
+      },
+      PublicHealthResponse: {
+        properties: {
+          status: {
+            type: "integer",
+            format: "int32",
+            example: 200,
+          },
+          success: {
+            type: "boolean",
+            example: true,
+          },
+          data: {
+            type: "string",
+            example: "OK",
+          },
+        },
+      },
+      InternalServerErrorResponse: {
+        type: "object",
+        required: ["status", "success", "data", "error"],
+        properties: {
+          status: {
+            type: "integer",
+            format: "int32",
+            example: 500,
+          },
+          success: {
+            type: "boolean",
+            example: false,
+          },
+          data: {
+            type: "object",
+            example: null,
+          },
+          error: {
+            type: "string",
+            example: "Internal server error",
+          },
+        },
+      },
+    },
+  },
+};
@@ -0,0 +1,13 @@
+import { type ServerOptionsOptional, createQueuesServer } from "./server.js";
+import { type Queue, type QueueMessage } from "./storage/index.js";
+import { type RuntimeResolver } from "./types.js";
+
+export default createQueuesServer;
+export {
+  createQueuesServer,
+  createQueuesServer as queues,
+  type ServerOptionsOptional as ServerOptions,
+  type RuntimeResolver,
+  type Queue,
+  type QueueMessage,
+};
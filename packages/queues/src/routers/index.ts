@@ -0,0 +1,4 @@
+import { router as publicRouter } from "./public.js";
+import * as v1 from "./v1/index.js";
+
+export { publicRouter, v1 };
@@ -0,0 +1,4 @@
+import { router as adminRouter } from "./admin.js";
+import { router as queuesRouter } from "./queues.js";
+
+export { adminRouter, queuesRouter };
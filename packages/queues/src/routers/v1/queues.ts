@@ -0,0 +1,272 @@
+import { createRouter, validate } from "@workertown/internal-server";
+import { z } from "zod";
+
+import { type Context } from "../../types.js";
+
+const router = createRouter<Context>();
+
+const QUEUE_NOT_FOUND = {
+  status: 404,
+  success: false,
+  data: null,
+  error: "Queue not found",
+};
+
+const MESSAGE_NOT_FOUND = {
+  status: 404,
+  success: false,
+  data: null,
+  error: "Message not found",
+};
+
+const LEASE_MISMATCH = {
+  status: 409,
+  success: false,
+  data: null,
+  error: "Message is not leased by this pull",
+};
+
+// Batches are capped so that a single request can't hold the database for
+// too long
+const MAX_BATCH_SIZE = 100;
+
+router.get("/", async (ctx) => {
+  const storage = ctx.get("storage");
+  const queues = await storage.getQueues();
+
+  return ctx.json({ status: 200, success: true, data: queues });
+});
+
+router.get("/:queue", async (ctx) => {
+  const storage = ctx.get("storage");
+  const queue = await storage.getQueue(ctx.req.param("queue"));
+  const status = queue ? 200 : 404;
+
+  return ctx.json({ status, success: true, data: queue }, status);
+});
+
+const upsertQueueBodySchema = z.object({
+  visibilityTimeout: z.number().int().positive().optional(),
+  maxRetries: z.number().int().nonnegative().optional(),
+});
+
+router.put("/:queue", validate("json", upsertQueueBodySchema), async (ctx) => {
+  const config = ctx.get("config");
+  const storage = ctx.get("storage");
+  const name = ctx.req.param("queue");
+  const { visibilityTimeout, maxRetries } = ctx.req.valid(
+    "json" as never,
+  ) as z.infer<typeof upsertQueueBodySchema>;
+  const existing = await storage.getQueue(name);
+  const queue = await storage.upsertQueue({
+    name,
+    visibilityTimeout:
+      visibilityTimeout ??
+      existing?.visibilityTimeout ??
+      config.queues.visibilityTimeout,
+    maxRetries: maxRetries ?? existing?.maxRetries ?? config.queues.maxRetries,
+  });
+
+  return ctx.json({ status: 200, success: true, data: queue });
+});
+
+router.delete("/:queue", async (ctx) => {
+  const storage = ctx.get("storage");
+  const name = ctx.req.param("queue");
+
+  await storage.deleteQueue(name);
+
+  return ctx.json({ status: 200, success: true, data: { name } });
+});
+
+const messageSchema = z.object({
+  body: z.unknown(),
+  delay: z.number().int().nonnegative().optional(),
+});
+
+// The batch schema has to come first, as `{ messages: [] }` would otherwise
+// be accepted as a single message with an empty body
+const sendMessagesBodySchema = z.union([
+  z.object({
+    messages: z.array(messageSchema).nonempty().max(MAX_BATCH_SIZE),
+  }),
+  messageSchema,
+]);
+
+router.post(
+  "/:queue/messages",
+  validate("json", sendMessagesBodySchema),
+  async (ctx) => {
+    const storage = ctx.get("storage");
+    const body = ctx.req.valid("json" as never) as z.infer<
+      typeof sendMessagesBodySchema
+    >;
+    const queue = await storage.getQueue(ctx.req.param("queue"));
+
+    if (!queue) {
+      return ctx.json(QUEUE_NOT_FOUND, 404);
+    }
+
+    if ("messages" in body) {
+      const messages = await storage.sendMessages(queue, body.messages);
+
+      return ctx.json({ status: 200, success: true, data: messages });
+    }
+
+    const [message] = await storage.sendMessages(queue, [body]);
+
+    return ctx.json({ status: 200, success: true, data: message });
+  },
+);
+
+const pullMessagesBodySchema = z.object({
+  limit: z.number().int().positive().optional().default(1),
+  visibilityTimeout: z.number().int().positive().optional(),
+});
+
+router.post(
+  "/:queue/pull",
+  validate("json", pullMessagesBodySchema),
+  async (ctx) => {
+    const config = ctx.get("config");
+    const storage = ctx.get("storage");
+    const { limit, visibilityTimeout } = ctx.req.valid(
+      "json" as never,
+    ) as z.infer<typeof pullMessagesBodySchema>;
+    const queue = await storage.getQueue(ctx.req.param("queue"));
+
+    if (!queue) {
+      return ctx.json(QUEUE_NOT_FOUND, 404);
+    }
+
+    const messages = await storage.pullMessages(queue, {
+      limit: Math.min(limit, config.queues.maxPullLimit),
+      visibilityTimeout: visibilityTimeout ?? queue.visibilityTimeout,
+    });
+
+    return ctx.json({ status: 200, success: true, data: messages });
+  },
+);
+
+const ackMessageBodySchema = z.object({
+  leaseId: z.string().min(1),
+});
+
+// The message has to still be leased by the pull it came from (its `leaseId`),
+// otherwise it has either gone (404), or been handed out again since (409)
+router.post(
+  "/:queue/messages/:id/ack",
+  validate("json", ackMessageBodySchema),
+  async (ctx) => {
+    const storage = ctx.get("storage");
+    const id = ctx.req.param("id");
+    const { leaseId } = ctx.req.valid("json" as never) as z.infer<
+      typeof ackMessageBodySchema
+    >;
+    const queue = await storage.getQueue(ctx.req.param("queue"));
+
+    if (!queue) {
+      return ctx.json(QUEUE_NOT_FOUND, 404);
+    }
+
+    if (!(await storage.ackMessage(queue, id, leaseId))) {
+      return (await storage.getMessage(queue, id))
+        ? ctx.json(LEASE_MISMATCH, 409)
+        : ctx.json(MESSAGE_NOT_FOUND, 404);
+    }
+
+    return ctx.json({ status: 200, success: true, data: { id } });
+  },
+);
+
+const nackMessageBodySchema = z.object({
+  leaseId: z.string().min(1),
+  delay: z.number().int().nonnegative().optional(),
+});
+
+router.post(
+  "/:queue/messages/:id/nack",
+  validate("json", nackMessageBodySchema),
+  async (ctx) => {
+    const storage = ctx.get("storage");
+    const id = ctx.req.param("id");
+    const { leaseId, delay } = ctx.req.valid("json" as never) as z.infer<
+      typeof nackMessageBodySchema
+    >;
+    const queue = await storage.getQueue(ctx.req.param("queue"));
+
+    if (!queue) {
+      return ctx.json(QUEUE_NOT_FOUND, 404);
+    }
+
+    if (!(await storage.nackMessage(queue, id, leaseId, delay))) {
+      return (await storage.getMessage(queue, id))
+        ? ctx.json(LEASE_MISMATCH, 409)
+        : ctx.json(MESSAGE_NOT_FOUND, 404);
+    }
+
+    return ctx.json({ status: 200, success: true, data: { id } });
+  },
+);
+
+const getDeadLetterMessagesQuerySchema = z.object({
+  limit: z
+    .string()
+    .optional()
+    .default("100")
+    .transform((val) => {
+      const limit = parseInt(val, 10);
+
+      if (Number.isNaN(limit)) {
+        return 100;
+      }
+
+      return Math.min(Math.max(limit, 1), 1000);
+    }),
+});
+
+router.get(
+  "/:queue/dlq",
+  validate("query", getDeadLetterMessagesQuerySchema),
+  async (ctx) => {
+    const storage = ctx.get("storage");
+    const { limit } = ctx.req.valid("query" as never) as z.infer<
+      typeof getDeadLetterMessagesQuerySchema
+    >;
+    const queue = await storage.getQueue(ctx.req.param("queue"));
+
+    if (!queue) {
+      return ctx.json(QUEUE_NOT_FOUND, 404);
+    }
+
+    const messages = await storage.getDeadLetterMessages(queue, { limit });
+
+    return ctx.json({ status: 200, success: true, data: messages });
+  },
+);
+
+const redriveMessagesBodySchema = z.object({
+  ids: z.array(z.string()).nonempty().optional(),
+});
+
+router.post(
+  "/:queue/dlq/redrive",
+  validate("json", redriveMessagesBodySchema),
+  async (ctx) => {
+    const storage = ctx.get("storage");
+    const { ids } = ctx.req.valid("json" as never) as z.infer<
+      typeof redriveMessagesBodySchema
+    >;
+    const queue = await storage.getQueue(ctx.req.param("queue"));
+
+    if (!queue) {
+      return ctx.json(QUEUE_NOT_FOUND, 404);
+    }
+
+    const count = await storage.redriveMessages(queue, ids);
+
+    return ctx.json({ status: 200, success: true, data: { count } });
+  },
+);
+
+export { router };
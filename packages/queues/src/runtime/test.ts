@@ -0,0 +1,26 @@
+import { MemoryStorageAdapter } from "../storage/memory.js";
+import { type Queue, type QueueMessage } from "../storage/storage-adapter.js";
+import { type Runtime, type ServerOptions } from "../types.js";
+
+interface TestGetRuntimeOptions {
+  initialQueues: Queue[];
+  initialMessages: QueueMessage[];
+}
+
+export function runtime(
+  // biome-ignore lint/correctness/noUnusedVariables: not needed for this runtime
+  config: ServerOptions,
+  // biome-ignore lint/correctness/noUnusedVariables: not needed for this runtime
+  env: Record<string, unknown>,
+  options: TestGetRuntimeOptions = {
+    initialQueues: [],
+    initialMessages: [],
+  },
+): Runtime {
+  return {
+    storage: new MemoryStorageAdapter({
+      initialQueues: options.initialQueues,
+      initialMessages: options.initialMessages,
+    }),
+  };
+}
@@ -0,0 +1,91 @@
+import { type Server, createServer } from "@workertown/internal-server";
+import { type DeepPartial } from "@workertown/internal-types";
+import merge from "lodash.merge";
+
+import { publicRouter, v1 } from "./routers/index.js";
+import { runtime as cloudflareWorkersRuntime } from "./runtime/cloudflare-workers.js";
+import { type StorageAdapter } from "./storage/storage-adapter.js";
+import { type Context, type ServerOptions } from "./types.js";
+
+export type ServerOptionsOptional = DeepPartial<ServerOptions>;
+
+const DEFAULT_OPTIONS: ServerOptions = {
+  auth: {
+    apiKey: {
+      env: {
+        apiKey: "QUEUES_API_KEY",
+      },
+    },
+    basic: {
+      env: {
+        username: "QUEUES_USERNAME",
+        password: "QUEUES_PASSWORD",
+      },
+    },
+    jwt: {
+      env: {
+        jwksUrl: "QUEUES_JWKS_URL",
+        secret: "QUEUES_JWT_SECRET",
+        audience: "QUEUES_JWT_AUDIENCE",
+        issuer: "QUEUES_JWT_ISSUER",
+      },
+    },
+  },
+  endpoints: {
+    v1: {
+      admin: "/v1/admin",
+      queues: "/v1/queues",
+    },
+    public: "/",
+  },
+  env: {
+    db: "QUEUES_DB",
+  },
+  queues: {
+    visibilityTimeout: 30,
+    maxRetries: 5,
+    maxPullLimit: 100,
+  },
+};
+
+export function createQueuesServer(
+  options?: ServerOptionsOptional,
+): Server<Context> {
+  const config = merge({}, DEFAULT_OPTIONS, options);
+  const {
+    endpoints,
+    runtime = cloudflareWorkersRuntime,
+    ...baseConfig
+  } = config;
+
+  const server = createServer<Context>(baseConfig);
+  let storage: StorageAdapter;
+
+  server.use("*", async (ctx, next) => {
+    if (!storage) {
+      ({ storage } =
+        typeof runtime === "function"
+          ? runtime(config, ctx.env)
+          : runtime ?? cloudflareWorkersRuntime(config, ctx.env));
+    }
+
+    ctx.set("config", config);
+    ctx.set("storage", storage);
+
+    return next();
+  });
+
+  if (endpoints.v1.admin !== false) {
+    server.route(endpoints.v1.admin, v1.adminRouter);
+  }
+
+  if (endpoints.v1.queues !== false) {
+    server.route(endpoints.v1.queues, v1.queuesRouter);
+  }
+
+  if (endpoints.public !== false) {
+    server.route(endpoints.public, publicRouter);
+  }
+
+  return server;
+}
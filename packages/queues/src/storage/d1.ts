@@ -0,0 +1,426 @@
+import {
+  type ColumnType,
+  type Migrations,
+  type Selectable,
+  sql,
+} from "@workertown/internal-storage";
+import { D1StorageAdapter as BaseD1StorageAdapter } from "@workertown/internal-storage/d1";
+
+import {
+  type GetDeadLetterMessagesOptions,
+  type PullMessagesOptions,
+  type Queue,
+  type QueueMessage,
+  type SendMessageBody,
+  type StorageAdapter,
+  type UpsertQueueBody,
+} from "./storage-adapter.js";
+
+interface QueuesTable {
+  name: string;
+  visibility_timeout: number;
+  max_retries: number;
+  created_at: ColumnType<number, number, never>;
+  updated_at: ColumnType<number, number, number>;
+}
+
+type QueueRow = Selectable<QueuesTable>;
+
+interface MessagesTable {
+  id: string;
+  queue: string;
+  body: string;
+  attempts: number;
+  lease_id: string | null;
+  available_at: number;
+  created_at: ColumnType<number, number, never>;
+  dlq_at: number | null;
+}
+
+type MessageRow = Selectable<MessagesTable>;
+
+// Keeps the number of bound parameters per query within D1's limits
+const CHUNK_SIZE = 10;
+
+function chunk<T>(items: T[]) {
+  const chunks: T[][] = [];
+
+  for (let i = 0; i < items.length; i += CHUNK_SIZE) {
+    chunks.push(items.slice(i, i + CHUNK_SIZE));
+  }
+
+  return chunks;
+}
+
+export interface DatabaseSchema {
+  wt_queues_queues: QueuesTable;
+  wt_queues_messages: MessagesTable;
+}
+
+const MIGRATIONS: Migrations = [
+  {
+    name: "1688823193041_add_initial_tables_and_indexes",
+    migration: {
+      async up(db) {
+        await db.schema
+          .createTable("wt_queues_queues")
+          .ifNotExists()
+          .addColumn("name", "text", (col) => col.notNull())
+          .addColumn("visibility_timeout", "integer", (col) => col.notNull())
+          .addColumn("max_retries", "integer", (col) => col.notNull())
+          .addColumn("created_at", "integer", (col) => col.notNull())
+          .addColumn("updated_at", "integer", (col) => col.notNull())
+          .execute();
+
+        await db.schema
+          .createIndex("wt_queues_queues_name_idx")
+          .unique()
+          .ifNotExists()
+          .on("wt_queues_queues")
+          .columns(["name"])
+          .execute();
+
+        await db.schema
+          .createTable("wt_queues_messages")
+          .ifNotExists()
+          .addColumn("id", "text", (col) => col.notNull())
+          .addColumn("queue", "text", (col) => col.notNull())
+          .addColumn("body", "text", (col) => col.notNull())
+          .addColumn("attempts", "integer", (col) => col.notNull())
+          .addColumn("lease_id", "text")
+          .addColumn("available_at", "integer", (col) => col.notNull())
+          .addColumn("created_at", "integer", (col) => col.notNull())
+          .addColumn("dlq_at", "integer")
+          .execute();
+
+        await db.schema
+          .createIndex("wt_queues_messages_id_idx")
+          .unique()
+          .ifNotExists()
+          .on("wt_queues_messages")
+          .columns(["id"])
+          .execute();
+
+        await db.schema
+          .createIndex("wt_queues_messages_queue_dlq_at_available_at_idx")
+          .ifNotExists()
+          .on("wt_queues_messages")
+          .columns(["queue", "dlq_at", "available_at"])
+          .execute();
+
+        await db.schema
+          .createIndex("wt_queues_messages_lease_id_idx")
+          .ifNotExists()
+          .on("wt_queues_messages")
+          .columns(["lease_id"])
+          .execute();
+      },
+      async down(db) {
+        await db.schema
+          .dropIndex("wt_queues_messages_lease_id_idx")
+          .ifExists()
+          .execute();
+
+        await db.schema
+          .dropIndex("wt_queues_messages_queue_dlq_at_available_at_idx")
+          .ifExists()
+          .execute();
+
+        await db.schema
+          .dropIndex("wt_queues_messages_id_idx")
+          .ifExists()
+          .execute();
+
+        await db.schema.dropTable("wt_queues_messages").ifExists().execute();
+
+        await db.schema
+          .dropIndex("wt_queues_queues_name_idx")
+          .ifExists()
+          .execute();
+
+        await db.schema.dropTable("wt_queues_queues").ifExists().execute();
+      },
+    },
+  },
+];
+
+export class D1StorageAdapter
+  extends BaseD1StorageAdapter<DatabaseSchema>
+  implements StorageAdapter
+{
+  public readonly migrations = MIGRATIONS;
+
+  public readonly migrationsPrefix = "wt_queues";
+
+  private _formatQueue(queue: QueueRow): Queue {
+    return {
+      name: queue.name,
+      visibilityTimeout: queue.visibility_timeout,
+      maxRetries: queue.max_retries,
+      createdAt: new Date(queue.created_at),
+      updatedAt: new Date(queue.updated_at),
+    };
+  }
+
+  private _formatMessage(message: MessageRow): QueueMessage {
+    return {
+      id: message.id,
+      queue: message.queue,
+      body: JSON.parse(message.body),
+      attempts: message.attempts,
+      availableAt: new Date(message.available_at),
+      createdAt: new Date(message.created_at),
+      dlqAt: message.dlq_at ? new Date(message.dlq_at) : null,
+      leaseId: message.lease_id,
+    };
+  }
+
+  async getQueues() {
+    const records = await this.client
+      .selectFrom("wt_queues_queues")
+      .selectAll()
+      .orderBy("name", "asc")
+      .execute();
+
+    return records.map((record) => this._formatQueue(record));
+  }
+
+  async getQueue(name: string) {
+    const record = await this.client
+      .selectFrom("wt_queues_queues")
+      .selectAll()
+      .where("name", "=", name)
+      .executeTakeFirst();
+
+    if (!record) {
+      return null;
+    }
+
+    return this._formatQueue(record);
+  }
+
+  async upsertQueue(queue: UpsertQueueBody) {
+    const now = Date.now();
+    const existing = await this.getQueue(queue.name);
+
+    if (existing) {
+      await this.client
+        .updateTable("wt_queues_queues")
+        .set({
+          visibility_timeout: queue.visibilityTimeout,
+          max_retries: queue.maxRetries,
+          updated_at: now,
+        })
+        .where("name", "=", queue.name)
+        .execute();
+    } else {
+      await this.client
+        .insertInto("wt_queues_queues")
+        .values({
+          name: queue.name,
+          visibility_timeout: queue.visibilityTimeout,
+          max_retries: queue.maxRetries,
+          created_at: now,
+          updated_at: now,
+        })
+        .execute();
+    }
+
+    return {
+      ...queue,
+      createdAt: existing?.createdAt ?? new Date(now),
+      updatedAt: new Date(now),
+    };
+  }
+
+  async deleteQueue(name: string) {
+    await this.client
+      .deleteFrom("wt_queues_messages")
+      .where("queue", "=", name)
+      .execute();
+
+    await this.client
+      .deleteFrom("wt_queues_queues")
+      .where("name", "=", name)
+      .execute();
+  }
+
+  async sendMessages(queue: Queue, messages: SendMessageBody[]) {
+    const now = Date.now();
+    const records = messages.map((message) => ({
+      id: crypto.randomUUID(),
+      queue: queue.name,
+      body: JSON.stringify(message.body ?? null),
+      attempts: 0,
+      lease_id: null,
+      available_at: now + (message.delay ?? 0) * 1000,
+      created_at: now,
+      dlq_at: null,
+    }));
+
+    for (const recordsChunk of chunk(records)) {
+      await this.client
+        .insertInto("wt_queues_messages")
+        .values(recordsChunk)
+        .execute();
+    }
+
+    return records.map((record) => this._formatMessage(record));
+  }
+
+  async getMessage(queue: Queue, id: string) {
+    const record = await this.client
+      .selectFrom("wt_queues_messages")
+      .selectAll()
+      .where("queue", "=", queue.name)
+      .where("id", "=", id)
+      .executeTakeFirst();
+
+    if (!record) {
+      return null;
+    }
+
+    return this._formatMessage(record);
+  }
+
+  async pullMessages(queue: Queue, options: PullMessagesOptions) {
+    const now = Date.now();
+    const leaseId = crypto.randomUUID();
+
+    // Any message that is visible again after running out of retries has had
+    // its final lease expire without being acknowledged
+    await this.client
+      .updateTable("wt_queues_messages")
+      .set({ dlq_at: now, lease_id: null })
+      .where("queue", "=", queue.name)
+      .where("dlq_at", "is", null)
+      .where("available_at", "<=", now)
+      .where("attempts", ">", queue.maxRetries)
+      .execute();
+
+    const candidates = await this.client
+      .selectFrom("wt_queues_messages")
+      .select("id")
+      .where("queue", "=", queue.name)
+      .where("dlq_at", "is", null)
+      .where("available_at", "<=", now)
+      .orderBy("available_at", "asc")
+      .orderBy("created_at", "asc")
+      .limit(options.limit)
+      .execute();
+
+    if (candidates.length === 0) {
+      return [];
+    }
+
+    // Re-checking `available_at` means that a message leased by a concurrent
+    // pull in the meantime is not handed out twice
+    for (const candidatesChunk of chunk(candidates)) {
+      await this.client
+        .updateTable("wt_queues_messages")
+        .set({
+          attempts: sql`attempts + 1`,
+          lease_id: leaseId,
+          available_at: now + options.visibilityTimeout * 1000,
+        })
+        .where(
+          "id",
+          "in",
+          candidatesChunk.map((candidate) => candidate.id),
+        )
+        .where("dlq_at", "is", null)
+        .where("available_at", "<=", now)
+        .execute();
+    }
+
+    const records = await this.client
+      .selectFrom("wt_queues_messages")
+      .selectAll()
+      .where("lease_id", "=", leaseId)
+      .orderBy("created_at", "asc")
+      .execute();
+
+    return records.map((record) => this._formatMessage(record));
+  }
+
+  // Only the pull that holds the lease can acknowledge the message, so that
+  // one whose lease expired can't remove it from under the next consumer
+  async ackMessage(queue: Queue, id: string, leaseId: string) {
+    const result = await this.client
+      .deleteFrom("wt_queues_messages")
+      .where("queue", "=", queue.name)
+      .where("id", "=", id)
+      .where("lease_id", "=", leaseId)
+      .where("dlq_at", "is", null)
+      .executeTakeFirst();
+
+    return Number(result.numDeletedRows) > 0;
+  }
+
+  async nackMessage(queue: Queue, id: string, leaseId: string, delay = 0) {
+    const now = Date.now();
+    const dlqResult = await this.client
+      .updateTable("wt_queues_messages")
+      .set({ dlq_at: now, lease_id: null })
+      .where("queue", "=", queue.name)
+      .where("id", "=", id)
+      .where("lease_id", "=", leaseId)
+      .where("dlq_at", "is", null)
+      .where("attempts", ">", queue.maxRetries)
+      .executeTakeFirst();
+
+    // The lease is cleared when dead-lettering, so this only matches messages
+    // that still have retries left
+    const result = await this.client
+      .updateTable("wt_queues_messages")
+      .set({ lease_id: null, available_at: now + delay * 1000 })
+      .where("queue", "=", queue.name)
+      .where("id", "=", id)
+      .where("lease_id", "=", leaseId)
+      .where("dlq_at", "is", null)
+      .executeTakeFirst();
+
+    return (
+      Number(dlqResult.numUpdatedRows) > 0 || Number(result.numUpdatedRows) > 0
+    );
+  }
+
+  async getDeadLetterMessages(
+    queue: Queue,
+    options: GetDeadLetterMessagesOptions,
+  ) {
+    const records = await this.client
+      .selectFrom("wt_queues_messages")
+      .selectAll()
+      .where("queue", "=", queue.name)
+      .where("dlq_at", "is not", null)
+      .orderBy("dlq_at", "asc")
+      .limit(options.limit)
+      .execute();
+
+    return records.map((record) => this._formatMessage(record));
+  }
+
+  async redriveMessages(queue: Queue, ids?: string[]) {
+    const now = Date.now();
+    let count = 0;
+
+    for (const idsChunk of ids ? chunk(ids) : [null]) {
+      let query = this.client
+        .updateTable("wt_queues_messages")
+        .set({ attempts: 0, lease_id: null, available_at: now, dlq_at: null })
+        .where("queue", "=", queue.name)
+        .where("dlq_at", "is not", null);
+
+      if (idsChunk) {
+        query = query.where("id", "in", idsChunk);
+      }
+
+      const result = await query.executeTakeFirst();
+
+      count += Number(result.numUpdatedRows);
+    }
+
+    return count;
+  }
+}
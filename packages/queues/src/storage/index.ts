@@ -0,0 +1,19 @@
+import {
+  type GetDeadLetterMessagesOptions,
+  type PullMessagesOptions,
+  type Queue,
+  type QueueMessage,
+  type SendMessageBody,
+  StorageAdapter,
+  type UpsertQueueBody,
+} from "./storage-adapter.js";
+
+export {
+  StorageAdapter,
+  type GetDeadLetterMessagesOptions,
+  type PullMessagesOptions,
+  type Queue,
+  type QueueMessage,
+  type SendMessageBody,
+  type UpsertQueueBody,
+};
@@ -0,0 +1,204 @@
+import { MemoryStorageAdapter as BaseMemoryStorageAdapter } from "@workertown/internal-storage/memory";
+
+import {
+  type GetDeadLetterMessagesOptions,
+  type PullMessagesOptions,
+  type Queue,
+  type QueueMessage,
+  type SendMessageBody,
+  type StorageAdapter,
+  type UpsertQueueBody,
+} from "./storage-adapter.js";
+
+interface MemoryStorageAdapterOptions {
+  initialQueues?: Queue[];
+  initialMessages?: QueueMessage[];
+}
+
+export class MemoryStorageAdapter
+  extends BaseMemoryStorageAdapter
+  implements StorageAdapter
+{
+  private readonly _queueStore = new Map<string, Queue>();
+
+  private readonly _messageStore = new Map<string, QueueMessage>();
+
+  constructor(options: MemoryStorageAdapterOptions = {}) {
+    super();
+
+    const { initialQueues = [], initialMessages = [] } = options;
+
+    initialQueues.forEach((queue) => {
+      this._queueStore.set(queue.name, queue);
+    });
+
+    initialMessages.forEach((message) => {
+      this._messageStore.set(message.id, { ...message });
+    });
+  }
+
+  private _getMessages(queue: Queue) {
+    return Array.from(this._messageStore.values())
+      .filter((message) => message.queue === queue.name)
+      .sort(
+        (a, b) =>
+          a.availableAt.getTime() - b.availableAt.getTime() ||
+          a.createdAt.getTime() - b.createdAt.getTime(),
+      );
+  }
+
+  async getQueues() {
+    return Array.from(this._queueStore.values()).sort((a, b) =>
+      a.name.localeCompare(b.name),
+    );
+  }
+
+  async getQueue(name: string) {
+    return this._queueStore.get(name) ?? null;
+  }
+
+  async upsertQueue(queue: UpsertQueueBody) {
+    const now = new Date();
+    const existing = this._queueStore.get(queue.name);
+    const queueRecord = {
+      ...queue,
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now,
+    };
+
+    this._queueStore.set(queue.name, queueRecord);
+
+    return queueRecord;
+  }
+
+  async deleteQueue(name: string) {
+    for (const message of this._messageStore.values()) {
+      if (message.queue === name) {
+        this._messageStore.delete(message.id);
+      }
+    }
+
+    this._queueStore.delete(name);
+  }
+
+  async sendMessages(queue: Queue, messages: SendMessageBody[]) {
+    const now = Date.now();
+
+    return messages.map((message) => {
+      const messageRecord: QueueMessage = {
+        id: crypto.randomUUID(),
+        queue: queue.name,
+        body: message.body ?? null,
+        attempts: 0,
+        availableAt: new Date(now + (message.delay ?? 0) * 1000),
+        createdAt: new Date(now),
+        dlqAt: null,
+        leaseId: null,
+      };
+
+      this._messageStore.set(messageRecord.id, messageRecord);
+
+      return { ...messageRecord };
+    });
+  }
+
+  async getMessage(queue: Queue, id: string) {
+    const message = this._messageStore.get(id);
+
+    return message?.queue === queue.name ? { ...message } : null;
+  }
+
+  async pullMessages(queue: Queue, options: PullMessagesOptions) {
+    const now = Date.now();
+    const leaseId = crypto.randomUUID();
+    const messages: QueueMessage[] = [];
+
+    for (const message of this._getMessages(queue)) {
+      if (messages.length >= options.limit) {
+        break;
+      }
+
+      if (message.dlqAt || message.availableAt.getTime() > now) {
+        continue;
+      }
+
+      if (message.attempts > queue.maxRetries) {
+        message.dlqAt = new Date(now);
+        message.leaseId = null;
+
+        continue;
+      }
+
+      message.attempts += 1;
+      message.leaseId = leaseId;
+      message.availableAt = new Date(now + options.visibilityTimeout * 1000);
+
+      messages.push({ ...message });
+    }
+
+    return messages;
+  }
+
+  private _getLeasedMessage(queue: Queue, id: string, leaseId: string) {
+    const message = this._messageStore.get(id);
+
+    return message?.queue === queue.name &&
+      !message.dlqAt &&
+      message.leaseId === leaseId
+      ? message
+      : null;
+  }
+
+  async ackMessage(queue: Queue, id: string, leaseId: string) {
+    return (
+      this._getLeasedMessage(queue, id, leaseId) !== null &&
+      this._messageStore.delete(id)
+    );
+  }
+
+  async nackMessage(queue: Queue, id: string, leaseId: string, delay = 0) {
+    const message = this._getLeasedMessage(queue, id, leaseId);
+
+    if (!message) {
+      return false;
+    }
+
+    if (message.attempts > queue.maxRetries) {
+      message.dlqAt = new Date();
+    } else {
+      message.availableAt = new Date(Date.now() + delay * 1000);
+    }
+
+    message.leaseId = null;
+
+    return true;
+  }
+
+  async getDeadLetterMessages(
+    queue: Queue,
+    options: GetDeadLetterMessagesOptions,
+  ) {
+    return this._getMessages(queue)
+      .filter((message) => message.dlqAt)
+      .sort((a, b) => (a.dlqAt as Date).getTime() - (b.dlqAt as Date).getTime())
+      .slice(0, options.limit)
+      .map((message) => ({ ...message }));
+  }
+
+  async redriveMessages(queue: Queue, ids?: string[]) {
+    const now = new Date();
+    let count = 0;
+
+    for (const message of this._getMessages(queue)) {
+      if (message.dlqAt && (!ids || ids.includes(message.id))) {
+        message.attempts = 0;
+        message.availableAt = now;
+        message.dlqAt = null;
+        message.leaseId = null;
+        count += 1;
+      }
+    }
+
+    return count;
+  }
+}
@@ -0,0 +1,128 @@
+import { StorageAdapter as BaseStorageAdapter } from "@workertown/internal-storage";
+
+export interface Queue {
+  name: string;
+  visibilityTimeout: number;
+  maxRetries: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface QueueMessage {
+  id: string;
+  queue: string;
+  body: unknown;
+  attempts: number;
+  availableAt: Date;
+  createdAt: Date;
+  dlqAt?: Date | null;
+  // The receipt handle of the pull that currently holds the message, which is
+  // needed to ack (or nack) it
+  leaseId?: string | null;
+}
+
+export interface UpsertQueueBody {
+  name: string;
+  visibilityTimeout: number;
+  maxRetries: number;
+}
+
+export interface SendMessageBody {
+  body?: unknown;
+  delay?: number;
+}
+
+export interface PullMessagesOptions {
+  limit: number;
+  visibilityTimeout: number;
+}
+
+export interface GetDeadLetterMessagesOptions {
+  limit: number;
+}
+
+export class StorageAdapter extends BaseStorageAdapter {
+  public async getQueues(): Promise<Queue[]> {
+    throw new Error("'getQueues()' not implemented");
+  }
+
+  // biome-ignore lint/correctness/noUnusedVariables: Stub class
+  public async getQueue(name: string): Promise<Queue | null> {
+    throw new Error("'getQueue()' not implemented");
+  }
+
+  // biome-ignore lint/correctness/noUnusedVariables: Stub class
+  public async upsertQueue(queue: UpsertQueueBody): Promise<Queue> {
+    throw new Error("'upsertQueue()' not implemented");
+  }
+
+  // biome-ignore lint/correctness/noUnusedVariables: Stub class
+  public async deleteQueue(name: string): Promise<void> {
+    throw new Error("'deleteQueue()' not implemented");
+  }
+
+  public async sendMessages(
+    // biome-ignore lint/correctness/noUnusedVariables: Stub class
+    queue: Queue,
+    // biome-ignore lint/correctness/noUnusedVariables: Stub class
+    messages: SendMessageBody[],
+  ): Promise<QueueMessage[]> {
+    throw new Error("'sendMessages()' not implemented");
+  }
+
+  public async getMessage(
+    // biome-ignore lint/correctness/noUnusedVariables: Stub class
+    queue: Queue,
+    // biome-ignore lint/correctness/noUnusedVariables: Stub class
+    id: string,
+  ): Promise<QueueMessage | null> {
+    throw new Error("'getMessage()' not implemented");
+  }
+
+  public async pullMessages(
+    // biome-ignore lint/correctness/noUnusedVariables: Stub class
+    queue: Queue,
+    // biome-ignore lint/correctness/noUnusedVariables: Stub class
+    options: PullMessagesOptions,
+  ): Promise<QueueMessage[]> {
+    throw new Error("'pullMessages()' not implemented");
+  }
+
+  public async ackMessage(
+    // biome-ignore lint/correctness/noUnusedVariables: Stub class
+    queue: Queue,
+    // biome-ignore lint/correctness/noUnusedVariables: Stub class
+    id: string,
+    // biome-ignore lint/correctness/noUnusedVariables: Stub class
+    leaseId: string,
+  ): Promise<boolean> {
+    throw new Error("'ackMessage()' not implemented");
+  }
+
+  public async nackMessage(
+    // biome-ignore lint/correctness/noUnusedVariables: Stub class
+    queue: Queue,
+    // biome-ignore lint/correctness/noUnusedVariables: Stub class
+    id: string,
+    // biome-ignore lint/correctness/noUnusedVariables: Stub class
+    leaseId: string,
+    // biome-ignore lint/correctness/noUnusedVariables: Stub class
+    delay?: number,
+  ): Promise<boolean> {
+    throw new Error("'nackMessage()' not implemented");
+  }
+
+  public async getDeadLetterMessages(
+    // biome-ignore lint/correctness/noUnusedVariables: Stub class
+    queue: Queue,
+    // biome-ignore lint/correctness/noUnusedVariables: Stub class
+    options: GetDeadLetterMessagesOptions,
+  ): Promise<QueueMessage[]> {
+    throw new Error("'getDeadLetterMessages()' not implemented");
+  }
+
+  // biome-ignore lint/correctness/noUnusedVariables: Stub class
+  public async redriveMessages(queue: Queue, ids?: string[]): Promise<number> {
+    throw new Error("'redriveMessages()' not implemented");
+  }
+}
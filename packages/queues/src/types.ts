@@ -0,0 +1,37 @@
+import { type ServerOptions as BaseServerOptions } from "@workertown/internal-server";
+
+import { type StorageAdapter } from "./storage/index.js";
+
+export interface ServerOptions extends BaseServerOptions {
+  endpoints: {
+    v1: {
+      admin: string | false;
+      queues: string | false;
+    };
+    public: string | false;
+  };
+  env: {
+    db: string;
+  };
+  queues: {
+    // The defaults used when a queue is created without these options
+    visibilityTimeout: number;
+    maxRetries: number;
+    // The maximum number of messages that can be pulled in a single request
+    maxPullLimit: number;
+  };
+  runtime?: RuntimeResolver;
+}
+
+export type Context = {
+  config: ServerOptions;
+  storage: StorageAdapter;
+};
+
+export interface Runtime {
+  storage: StorageAdapter;
+}
+
+export type RuntimeResolver =
+  | Runtime
+  | ((config: ServerOptions, env: Record<string, unknown>) => Runtime);
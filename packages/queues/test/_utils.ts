@@ -0,0 +1,79 @@
+import queues, {
+  type Queue,
+  type QueueMessage,
+  type ServerOptions,
+} from "../src";
+import { runtime } from "../src/runtime/test";
+
+const QUEUES: Queue[] = [
+  {
+    name: "test",
+    visibilityTimeout: 30,
+    maxRetries: 1,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  },
+];
+
+const MESSAGES: QueueMessage[] = [
+  {
+    id: "message_1",
+    queue: "test",
+    body: { test: 1 },
+    attempts: 0,
+    availableAt: new Date(Date.now() - 2000),
+    createdAt: new Date(Date.now() - 2000),
+    dlqAt: null,
+  },
+  {
+    id: "message_2",
+    queue: "test",
+    body: { test: 2 },
+    attempts: 0,
+    availableAt: new Date(Date.now() - 1000),
+    createdAt: new Date(Date.now() - 1000),
+    dlqAt: null,
+  },
+  {
+    id: "message_3",
+    queue: "test",
+    body: { test: 3 },
+    attempts: 2,
+    availableAt: new Date(Date.now() - 1000),
+    createdAt: new Date(Date.now() - 5000),
+    dlqAt: new Date(Date.now() - 1000),
+  },
+];
+
+export function createTestService(
+  options: ServerOptions = {},
+  initialQueues: Queue[] = QUEUES,
+  initialMessages: QueueMessage[] = MESSAGES,
+) {
+  return queues({
+    ...options,
+    auth: { apiKey: { apiKey: "test" } },
+    logger: false,
+
+    runtime: (config, env) =>
+      runtime(config, env, { initialQueues, initialMessages }),
+  });
+}
+
+export function makeRequest(
+  service: ReturnType<typeof queues>,
+  path: string,
+  {
+    method = "GET",
+    body,
+  }: { method?: "GET" | "POST" | "PUT" | "DELETE"; body?: unknown } = {},
+) {
+  return service.request(path, {
+    method,
+    headers: {
+      Authorization: "Bearer test",
+      "Content-Type": "application/json",
+    },
+    body: body ? JSON.stringify(body) : undefined,
+  });
+}
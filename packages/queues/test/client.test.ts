@@ -0,0 +1,109 @@
+import test from "ava";
+
+import { ClientError, createQueuesClient } from "../src/client";
+import { createTestService } from "./_utils";
+
+function createTestClient(service = createTestService()) {
+  return createQueuesClient({ fetch: service.request, token: "test" });
+}
+
+test("client queues", async (t) => {
+  const client = createTestClient();
+  const queues = await client.getQueues();
+
+  t.is(queues.length, 1);
+  t.is(queues[0]?.name, "test");
+});
+
+test("client queues get, upsert, delete", async (t) => {
+  const client = createTestClient();
+
+  t.is(await client.getQueue("other"), null);
+
+  const queue = await client.upsertQueue("other", { maxRetries: 2 });
+
+  t.is(queue.name, "other");
+  t.is(queue.maxRetries, 2);
+  t.is((await client.getQueue("other"))?.visibilityTimeout, 30);
+  t.deepEqual(await client.deleteQueue("other"), { name: "other" });
+  t.is(await client.getQueue("other"), null);
+});
+
+test("client send, pull, ack", async (t) => {
+  const client = createTestClient(createTestService({}, undefined, []));
+  const message = await client.sendMessage("test", { test: true });
+
+  t.deepEqual(message.body, { test: true });
+
+  const messages = await client.sendMessages("test", [
+    { body: { test: 1 } },
+    { body: { test: 2 }, delay: 60 },
+  ]);
+
+  t.is(messages.length, 2);
+
+  const pulled = await client.pullMessages<{ test: boolean | number }>("test", {
+    limit: 10,
+  });
+
+  t.deepEqual(
+    pulled.map((message) => message.body.test),
+    [true, 1],
+  );
+  t.deepEqual(
+    await client.ackMessage("test", message.id, pulled[0]?.leaseId as string),
+    { id: message.id },
+  );
+});
+
+test("client nack, dlq, redrive", async (t) => {
+  const client = createTestClient();
+  const [message] = await client.pullMessages("test");
+
+  t.is(message?.id, "message_1");
+
+  await client.nackMessage(
+    "test",
+    message?.id as string,
+    message?.leaseId as string,
+    { delay: 60 },
+  );
+
+  const deadLetters = await client.getDeadLetterMessages("test", { limit: 1 });
+
+  t.is(deadLetters.length, 1);
+  t.is(deadLetters[0]?.id, "message_3");
+  t.is(await client.redriveMessages("test"), 1);
+  t.is((await client.getDeadLetterMessages("test")).length, 0);
+});
+
+test("client missing queue", async (t) => {
+  const client = createTestClient();
+  const error = await t.throwsAsync(client.pullMessages("other"), {
+    instanceOf: ClientError,
+  });
+
+  t.is(error?.status, 404);
+  t.is(error?.message, "Queue not found");
+});
+
+test("client validation error", async (t) => {
+  const client = createTestClient();
+  const error = await t.throwsAsync(client.pullMessages("test", { limit: 0 }), {
+    instanceOf: ClientError,
+  });
+
+  t.is(error?.status, 400);
+  t.is(error?.errors[0]?.location, "body");
+});
+
+test("client ack w/ invalid lease", async (t) => {
+  const client = createTestClient();
+  const [message] = await client.pullMessages("test");
+  const error = await t.throwsAsync(
+    client.ackMessage("test", message?.id as string, "other"),
+    { instanceOf: ClientError },
+  );
+
+  t.is(error?.status, 409);
+});
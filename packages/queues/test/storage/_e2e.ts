@@ -0,0 +1,168 @@
+import { type ExecutionContext } from "ava";
+
+import { StorageAdapter } from "../../src/storage";
+
+export async function testStorageAdapterE2E(
+  t: ExecutionContext,
+  storage: StorageAdapter,
+) {
+  // Create tables
+  await storage.runMigrations();
+
+  // Create queue
+  const queue = await storage.upsertQueue({
+    name: "test",
+    visibilityTimeout: 30,
+    maxRetries: 1,
+  });
+
+  t.is(queue.name, "test");
+
+  // Get queues
+  const getQueueResult = await storage.getQueue("test");
+
+  t.is(getQueueResult?.maxRetries, 1);
+
+  const dontGetQueueResult = await storage.getQueue("other");
+
+  t.is(dontGetQueueResult, null);
+
+  const getQueuesResult = await storage.getQueues();
+
+  t.is(getQueuesResult.length, 1);
+
+  // Update queue
+  const updateQueueResult = await storage.upsertQueue({
+    name: "test",
+    visibilityTimeout: 60,
+    maxRetries: 0,
+  });
+
+  t.is(updateQueueResult.visibilityTimeout, 60);
+  t.is((await storage.getQueue("test"))?.maxRetries, 0);
+
+  // Send messages
+  const sendResult = await storage.sendMessages(updateQueueResult, [
+    { body: { test: 1 } },
+    { body: { test: 2 } },
+    { body: { test: 3 }, delay: 60 },
+  ]);
+
+  t.is(sendResult.length, 3);
+  t.deepEqual(sendResult[0]?.body, { test: 1 });
+  t.is(sendResult[0]?.attempts, 0);
+
+  // Pull messages
+  const pullResult = await storage.pullMessages(updateQueueResult, {
+    limit: 10,
+    visibilityTimeout: 60,
+  });
+
+  t.is(pullResult.length, 2);
+  t.deepEqual(pullResult[0]?.body, { test: 1 });
+  t.is(pullResult[0]?.attempts, 1);
+  t.truthy(pullResult[0]?.leaseId);
+  t.is(pullResult[1]?.leaseId, pullResult[0]?.leaseId);
+
+  const leasedPullResult = await storage.pullMessages(updateQueueResult, {
+    limit: 10,
+    visibilityTimeout: 60,
+  });
+
+  t.is(leasedPullResult.length, 0);
+
+  // Get message
+  t.is(
+    (await storage.getMessage(updateQueueResult, pullResult[0]?.id as string))
+      ?.leaseId,
+    pullResult[0]?.leaseId,
+  );
+  t.is(await storage.getMessage(updateQueueResult, "other"), null);
+
+  // Ack message
+  const leaseId = pullResult[0]?.leaseId as string;
+
+  t.false(
+    await storage.ackMessage(
+      updateQueueResult,
+      pullResult[0]?.id as string,
+      "other",
+    ),
+  );
+  t.true(
+    await storage.ackMessage(
+      updateQueueResult,
+      pullResult[0]?.id as string,
+      leaseId,
+    ),
+  );
+  t.false(
+    await storage.ackMessage(
+      updateQueueResult,
+      pullResult[0]?.id as string,
+      leaseId,
+    ),
+  );
+  t.is(
+    await storage.getMessage(updateQueueResult, pullResult[0]?.id as string),
+    null,
+  );
+
+  // Nack message, which dead-letters it as it has run out of retries
+  t.false(
+    await storage.nackMessage(
+      updateQueueResult,
+      pullResult[1]?.id as string,
+      "other",
+    ),
+  );
+  t.true(
+    await storage.nackMessage(
+      updateQueueResult,
+      pullResult[1]?.id as string,
+      leaseId,
+    ),
+  );
+  t.false(
+    await storage.nackMessage(
+      updateQueueResult,
+      pullResult[1]?.id as string,
+      leaseId,
+    ),
+  );
+
+  const getDeadLetterResult = await storage.getDeadLetterMessages(
+    updateQueueResult,
+    { limit: 10 },
+  );
+
+  t.is(getDeadLetterResult.length, 1);
+  t.is(getDeadLetterResult[0]?.id, pullResult[1]?.id);
+
+  // Redrive messages
+  const redriveResult = await storage.redriveMessages(updateQueueResult);
+
+  t.is(redriveResult, 1);
+
+  const redrivenPullResult = await storage.pullMessages(updateQueueResult, {
+    limit: 10,
+    visibilityTimeout: 60,
+  });
+
+  t.is(redrivenPullResult.length, 1);
+  t.is(redrivenPullResult[0]?.id, pullResult[1]?.id);
+  t.is(redrivenPullResult[0]?.attempts, 1);
+
+  // Delete queue
+  await storage.deleteQueue("test");
+
+  t.is(await storage.getQueue("test"), null);
+  t.is(
+    (await storage.getDeadLetterMessages(updateQueueResult, { limit: 10 }))
+      .length,
+    0,
+  );
+
+  // Drop tables
+  await storage.runMigrations(true);
+}
@@ -0,0 +1,469 @@
+import test from "ava";
+
+import { createTestService, makeRequest } from "./_utils";
+
+interface SuccessfulResponse {
+  status: 200;
+  success: true;
+}
+
+interface ErrorResponse {
+  status: number;
+  success: false;
+  data: null;
+  error: string;
+}
+
+interface QueueResponse {
+  name: string;
+  visibilityTimeout: number;
+  maxRetries: number;
+}
+
+interface MessageResponse {
+  id: string;
+  body: unknown;
+  attempts: number;
+  dlqAt?: string | null;
+  leaseId?: string | null;
+}
+
+// Queues
+interface QueuesGetResponse extends SuccessfulResponse {
+  data: QueueResponse[];
+}
+
+interface QueueGetResponse extends SuccessfulResponse {
+  data: QueueResponse | null;
+}
+
+interface QueueDeleteResponse extends SuccessfulResponse {
+  data: { name: string };
+}
+
+interface MessageSendResponse extends SuccessfulResponse {
+  data: MessageResponse;
+}
+
+interface MessagesResponse extends SuccessfulResponse {
+  data: MessageResponse[];
+}
+
+interface MessageIdResponse extends SuccessfulResponse {
+  data: { id: string };
+}
+
+interface RedriveResponse extends SuccessfulResponse {
+  data: { count: number };
+}
+
+test("v1 queues get all", async (t) => {
+  const service = createTestService();
+  const res = await makeRequest(service, "/v1/queues");
+
+  t.is(res.status, 200);
+
+  const result = (await res.json()) as QueuesGetResponse;
+
+  t.is(result.data.length, 1);
+  t.is(result.data[0]?.name, "test");
+});
+
+test("v1 queues get", async (t) => {
+  const service = createTestService();
+  const res1 = await makeRequest(service, "/v1/queues/test");
+
+  t.is(res1.status, 200);
+
+  const result1 = (await res1.json()) as QueueGetResponse;
+
+  t.is(result1.data?.maxRetries, 1);
+
+  const res2 = await makeRequest(service, "/v1/queues/other");
+
+  t.is(res2.status, 404);
+
+  const result2 = (await res2.json()) as QueueGetResponse;
+
+  t.is(result2.data, null);
+});
+
+test("v1 queues upsert", async (t) => {
+  const service = createTestService();
+  const res1 = await makeRequest(service, "/v1/queues/other", {
+    method: "PUT",
+    body: {},
+  });
+
+  t.is(res1.status, 200);
+
+  const result1 = (await res1.json()) as QueueGetResponse;
+
+  t.is(result1.data?.name, "other");
+  t.is(result1.data?.visibilityTimeout, 30);
+  t.is(result1.data?.maxRetries, 5);
+
+  const res2 = await makeRequest(service, "/v1/queues/other", {
+    method: "PUT",
+    body: { maxRetries: 2 },
+  });
+
+  t.is(res2.status, 200);
+
+  const result2 = (await res2.json()) as QueueGetResponse;
+
+  t.is(result2.data?.visibilityTimeout, 30);
+  t.is(result2.data?.maxRetries, 2);
+});
+
+test("v1 queues upsert w/ invalid body", async (t) => {
+  const service = createTestService();
+  const res = await makeRequest(service, "/v1/queues/other", {
+    method: "PUT",
+    body: { visibilityTimeout: -1 },
+  });
+
+  t.is(res.status, 400);
+});
+
+test("v1 queues delete", async (t) => {
+  const service = createTestService();
+  const res1 = await makeRequest(service, "/v1/queues/test", {
+    method: "DELETE",
+  });
+
+  t.is(res1.status, 200);
+
+  const result1 = (await res1.json()) as QueueDeleteResponse;
+
+  t.is(result1.data.name, "test");
+
+  const res2 = await makeRequest(service, "/v1/queues/test");
+
+  t.is(res2.status, 404);
+});
+
+test("v1 queues send", async (t) => {
+  const service = createTestService();
+  const res1 = await makeRequest(service, "/v1/queues/test/messages", {
+    method: "POST",
+    body: { body: { test: 4 } },
+  });
+
+  t.is(res1.status, 200);
+
+  const result1 = (await res1.json()) as MessageSendResponse;
+
+  t.deepEqual(result1.data.body, { test: 4 });
+  t.is(result1.data.attempts, 0);
+
+  const res2 = await makeRequest(service, "/v1/queues/test/messages", {
+    method: "POST",
+    body: {
+      messages: [{ body: { test: 5 } }, { body: { test: 6 }, delay: 60 }],
+    },
+  });
+
+  t.is(res2.status, 200);
+
+  const result2 = (await res2.json()) as MessagesResponse;
+
+  t.is(result2.data.length, 2);
+
+  const res3 = await makeRequest(service, "/v1/queues/test/pull", {
+    method: "POST",
+    body: { limit: 10 },
+  });
+  const result3 = (await res3.json()) as MessagesResponse;
+
+  // The delayed message is not available yet
+  t.deepEqual(
+    result3.data.map((message) => message.body),
+    [{ test: 1 }, { test: 2 }, { test: 4 }, { test: 5 }],
+  );
+});
+
+test("v1 queues send w/ missing queue", async (t) => {
+  const service = createTestService();
+  const res = await makeRequest(service, "/v1/queues/other/messages", {
+    method: "POST",
+    body: { body: "test" },
+  });
+
+  t.is(res.status, 404);
+
+  const result = (await res.json()) as ErrorResponse;
+
+  t.false(result.success);
+  t.is(result.error, "Queue not found");
+});
+
+test("v1 queues pull", async (t) => {
+  const service = createTestService();
+  const res1 = await makeRequest(service, "/v1/queues/test/pull", {
+    method: "POST",
+    body: {},
+  });
+
+  t.is(res1.status, 200);
+
+  const result1 = (await res1.json()) as MessagesResponse;
+
+  t.is(result1.data.length, 1);
+  t.is(result1.data[0]?.id, "message_1");
+  t.is(result1.data[0]?.attempts, 1);
+  t.truthy(result1.data[0]?.leaseId);
+
+  const res2 = await makeRequest(service, "/v1/queues/test/pull", {
+    method: "POST",
+    body: { limit: 10 },
+  });
+  const result2 = (await res2.json()) as MessagesResponse;
+
+  // `message_1` is leased until the visibility timeout expires
+  t.is(result2.data.length, 1);
+  t.is(result2.data[0]?.id, "message_2");
+});
+
+test("v1 queues ack", async (t) => {
+  const service = createTestService();
+  const res1 = await makeRequest(service, "/v1/queues/test/pull", {
+    method: "POST",
+    body: { limit: 10, visibilityTimeout: 1 },
+  });
+  const result1 = (await res1.json()) as MessagesResponse;
+  const leaseId = result1.data[0]?.leaseId;
+  const res = await makeRequest(
+    service,
+    "/v1/queues/test/messages/message_1/ack",
+    { method: "POST", body: { leaseId } },
+  );
+
+  t.is(res.status, 200);
+
+  const result = (await res.json()) as MessageIdResponse;
+
+  t.is(result.data.id, "message_1");
+
+  await new Promise((resolve) => setTimeout(resolve, 1100));
+
+  const res2 = await makeRequest(service, "/v1/queues/test/pull", {
+    method: "POST",
+    body: { limit: 10 },
+  });
+  const result2 = (await res2.json()) as MessagesResponse;
+
+  t.deepEqual(
+    result2.data.map((message) => message.id),
+    ["message_2"],
+  );
+});
+
+test("v1 queues ack w/ invalid lease", async (t) => {
+  const service = createTestService();
+  const res1 = await makeRequest(service, "/v1/queues/test/pull", {
+    method: "POST",
+    body: {},
+  });
+  const result1 = (await res1.json()) as MessagesResponse;
+  const leaseId = result1.data[0]?.leaseId;
+
+  // The lease is required
+  const res2 = await makeRequest(
+    service,
+    "/v1/queues/test/messages/message_1/ack",
+    { method: "POST", body: {} },
+  );
+
+  t.is(res2.status, 400);
+
+  // `message_2` hasn't been pulled with this lease
+  const res3 = await makeRequest(
+    service,
+    "/v1/queues/test/messages/message_2/ack",
+    { method: "POST", body: { leaseId } },
+  );
+
+  t.is(res3.status, 409);
+
+  const result3 = (await res3.json()) as ErrorResponse;
+
+  t.is(result3.error, "Message is not leased by this pull");
+
+  const res4 = await makeRequest(
+    service,
+    "/v1/queues/test/messages/other/ack",
+    { method: "POST", body: { leaseId } },
+  );
+
+  t.is(res4.status, 404);
+
+  await makeRequest(service, "/v1/queues/test/messages/message_1/ack", {
+    method: "POST",
+    body: { leaseId },
+  });
+
+  // It has already been acknowledged
+  const res5 = await makeRequest(
+    service,
+    "/v1/queues/test/messages/message_1/ack",
+    { method: "POST", body: { leaseId } },
+  );
+
+  t.is(res5.status, 404);
+
+  const res6 = await makeRequest(
+    service,
+    "/v1/queues/test/messages/message_2/nack",
+    { method: "POST", body: { leaseId } },
+  );
+
+  t.is(res6.status, 409);
+});
+
+test("v1 queues nack", async (t) => {
+  const service = createTestService();
+  const res = await makeRequest(service, "/v1/queues/test/pull", {
+    method: "POST",
+    body: { limit: 10 },
+  });
+  const result = (await res.json()) as MessagesResponse;
+  const res1 = await makeRequest(
+    service,
+    "/v1/queues/test/messages/message_1/nack",
+    { method: "POST", body: { leaseId: result.data[0]?.leaseId } },
+  );
+
+  t.is(res1.status, 200);
+
+  const res2 = await makeRequest(service, "/v1/queues/test/pull", {
+    method: "POST",
+    body: { limit: 10 },
+  });
+  const result2 = (await res2.json()) as MessagesResponse;
+
+  t.is(result2.data.length, 1);
+  t.is(result2.data[0]?.id, "message_1");
+  t.is(result2.data[0]?.attempts, 2);
+
+  // The queue allows a single retry, so this sends it to the DLQ
+  await makeRequest(service, "/v1/queues/test/messages/message_1/nack", {
+    method: "POST",
+    body: { leaseId: result2.data[0]?.leaseId },
+  });
+
+  const res3 = await makeRequest(service, "/v1/queues/test/dlq");
+  const result3 = (await res3.json()) as MessagesResponse;
+
+  t.deepEqual(result3.data.map((message) => message.id).sort(), [
+    "message_1",
+    "message_3",
+  ]);
+});
+
+test("v1 queues dlq", async (t) => {
+  const service = createTestService();
+  const res = await makeRequest(service, "/v1/queues/test/dlq");
+
+  t.is(res.status, 200);
+
+  const result = (await res.json()) as MessagesResponse;
+
+  t.is(result.data.length, 1);
+  t.is(result.data[0]?.id, "message_3");
+  t.truthy(result.data[0]?.dlqAt);
+
+  // The limit is clamped to at least 1
+  const res2 = await makeRequest(service, "/v1/queues/test/dlq?limit=0");
+  const result2 = (await res2.json()) as MessagesResponse;
+
+  t.is(result2.data.length, 1);
+});
+
+test("v1 queues dlq redrive", async (t) => {
+  const service = createTestService();
+  const res1 = await makeRequest(service, "/v1/queues/test/dlq/redrive", {
+    method: "POST",
+    body: { ids: ["message_3"] },
+  });
+
+  t.is(res1.status, 200);
+
+  const result1 = (await res1.json()) as RedriveResponse;
+
+  t.is(result1.data.count, 1);
+
+  const res2 = await makeRequest(service, "/v1/queues/test/dlq");
+  const result2 = (await res2.json()) as MessagesResponse;
+
+  t.is(result2.data.length, 0);
+
+  const res3 = await makeRequest(service, "/v1/queues/test/pull", {
+    method: "POST",
+    body: { limit: 10 },
+  });
+  const result3 = (await res3.json()) as MessagesResponse;
+
+  t.true(result3.data.some((message) => message.id === "message_3"));
+});
+
+// Admin
+interface AdminInfoResponse extends SuccessfulResponse {
+  data: {
+    endpoints: {
+      v1: {
+        queues: string;
+      };
+    };
+  };
+}
+
+interface AdminMigrateResponse extends SuccessfulResponse {
+  data: true;
+}
+
+test("v1 admin info", async (t) => {
+  const service = createTestService({
+    endpoints: {
+      v1: {
+        queues: "/custom-queues",
+      },
+    },
+  });
+  const res = await makeRequest(service, "/v1/admin/info");
+
+  t.is(res.status, 200);
+
+  const result = (await res.json()) as AdminInfoResponse;
+
+  t.is(result.data.endpoints.v1.queues, "/custom-queues");
+});
+
+test("v1 admin migrate", async (t) => {
+  const service = createTestService();
+  const res = await makeRequest(service, "/v1/admin/migrate", {
+    method: "POST",
+  });
+
+  t.is(res.status, 200);
+
+  const result = (await res.json()) as AdminMigrateResponse;
+
+  t.deepEqual(result.data, []);
+});
+
+// Public
+interface PublicResponse {
+  openapi: "3.0.0";
+}
+
+test("v1 public open-api.json", async (t) => {
+  const service = createTestService();
+  const res = await makeRequest(service, "/open-api.json");
+
+  t.is(res.status, 200);
+
+  const result = (await res.json()) as PublicResponse;
+
+  t.is(result.openapi, "3.0.0");
+});
@@ -2,6 +2,6 @@ import { CacheAdapter as BaseCacheAdapter } from "@workertown/internal-cache";
 
 import { type SearchDocument } from "../storage/storage-adapter.js";
 
-export class CacheAdapter extends BaseCacheAdapter<SearchDocument[]> {}
+export class CacheAdapter extends BaseCacheAdapter<string[]> {}
 
 export { type SearchDocument };
@@ -1,7 +1,5 @@
 import { KVCacheAdapter as BaseKVCacheAdapter } from "@workertown/internal-cache/kv";
 
-import { type SearchDocument } from "../storage/storage-adapter.js";
-
-export class KVCacheAdapter extends BaseKVCacheAdapter<SearchDocument[]> {
+export class KVCacheAdapter extends BaseKVCacheAdapter<string[]> {
   public readonly prefix: string = "wt_search";
 }
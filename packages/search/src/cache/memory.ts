@@ -1,9 +1,5 @@
 import { MemoryCacheAdapter as BaseMemoryCacheAdapter } from "@workertown/internal-cache/memory";
 
-import { type SearchDocument } from "../storage/storage-adapter.js";
-
-export class MemoryCacheAdapter extends BaseMemoryCacheAdapter<
-  SearchDocument[]
-> {
+export class MemoryCacheAdapter extends BaseMemoryCacheAdapter<string[]> {
   public readonly prefix: string = "wt_search";
 }
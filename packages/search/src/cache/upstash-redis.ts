@@ -1,9 +1,7 @@
 import { UpstashRedisCacheAdapter as BaseUpstashRedisCacheAdapter } from "@workertown/internal-cache/upstash-redis";
 
-import { type SearchDocument } from "../storage/storage-adapter.js";
-
 export class UpstashRedisCacheAdapter extends BaseUpstashRedisCacheAdapter<
-  SearchDocument[]
+  string[]
 > {
   public readonly prefix: string = "wt_search";
 }
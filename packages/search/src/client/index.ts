@@ -0,0 +1,246 @@
+import {
+  Client,
+  ClientError,
+  type ClientFetch,
+  type ClientOptions,
+  type ClientPage,
+  type Serialized,
+} from "@workertown/internal-client";
+import { type MatchInfo, type Suggestion } from "minisearch";
+
+import { type FacetResults } from "../facets.js";
+import { type Highlights } from "../highlight.js";
+import {
+  type SearchDocument,
+  type TagCount,
+} from "../storage/storage-adapter.js";
+
+export interface SearchClientEndpoints {
+  v1: {
+    admin: string;
+    documents: string;
+    search: string;
+    suggest: string;
+    tags: string;
+  };
+}
+
+export type SearchClientOptions = ClientOptions<SearchClientEndpoints>;
+
+export type SearchClientDocument = Serialized<SearchDocument>;
+
+export interface UpsertDocumentOptions {
+  tenant: string;
+  index: string;
+  data: Record<string, unknown>;
+  tags?: string[];
+}
+
+export type BulkDocumentOperation =
+  | ({ action: "upsert"; id: string } & UpsertDocumentOptions)
+  | { action: "delete"; id: string };
+
+export interface BulkDocumentResult {
+  id: string | null;
+  action: "upsert" | "delete" | null;
+  success: boolean;
+  error?: string;
+}
+
+export interface DeleteDocumentsOptions {
+  index?: string;
+  tags?: string[];
+}
+
+export interface SearchOptions {
+  index?: string;
+  fields?: string[];
+  tags?: string[];
+  limit?: number;
+  after?: string;
+  fuzzy?: number;
+  prefix?: boolean;
+  exact?: boolean;
+  // e.g. `price >= 10 AND brand IN ("a", "b") AND NOT discontinued`
+  filter?: string;
+  // e.g. `["data.price:asc", "score:desc"]`
+  sort?: string[];
+  highlight?: boolean;
+  // e.g. `["tags", "category", "price:10|50|100"]`
+  facets?: string[];
+}
+
+export type SuggestOptions = Omit<
+  SearchOptions,
+  "after" | "sort" | "highlight" | "facets"
+>;
+
+export type SearchPage = ClientPage<SearchResult> & {
+  facets?: FacetResults;
+};
+
+export interface SearchResult {
+  id: string;
+  document: SearchClientDocument;
+  score: number;
+  terms: string[];
+  match: MatchInfo;
+  highlights?: Highlights;
+}
+
+const DEFAULT_ENDPOINTS: SearchClientEndpoints = {
+  v1: {
+    admin: "/v1/admin",
+    documents: "/v1/docs",
+    search: "/v1/search",
+    suggest: "/v1/suggest",
+    tags: "/v1/tags",
+  },
+};
+
+function getSearchPath(endpoint: string, tenant: string, index?: string) {
+  const path = `${endpoint}/${encodeURIComponent(tenant)}`;
+
+  return index ? `${path}/${encodeURIComponent(index)}` : path;
+}
+
+export class SearchClient extends Client<SearchClientEndpoints> {
+  constructor(options: SearchClientOptions = {}) {
+    super(DEFAULT_ENDPOINTS, options);
+  }
+
+  async getDocument(id: string) {
+    const { data } = await this.request<SearchClientDocument | null>(
+      "GET",
+      `${this.endpoints.v1.documents}/${encodeURIComponent(id)}`,
+    );
+
+    return data;
+  }
+
+  async upsertDocument(id: string, body: UpsertDocumentOptions) {
+    const { data } = await this.request<SearchClientDocument>(
+      "PUT",
+      `${this.endpoints.v1.documents}/${encodeURIComponent(id)}`,
+      { body },
+    );
+
+    return data;
+  }
+
+  async deleteDocument(id: string) {
+    const { data } = await this.request<{ id: string }>(
+      "DELETE",
+      `${this.endpoints.v1.documents}/${encodeURIComponent(id)}`,
+    );
+
+    return data;
+  }
+
+  async bulkDocuments(operations: BulkDocumentOperation[]) {
+    const { data } = await this.request<BulkDocumentResult[]>(
+      "POST",
+      `${this.endpoints.v1.documents}/bulk`,
+      { body: operations },
+    );
+
+    return data;
+  }
+
+  async deleteDocuments(tenant: string, options: DeleteDocumentsOptions = {}) {
+    const { data } = await this.request<{ deleted: number }>(
+      "DELETE",
+      this.endpoints.v1.documents,
+      { query: { tenant, ...options } },
+    );
+
+    return data;
+  }
+
+  async search(
+    tenant: string,
+    term: string,
+    { index, ...query }: SearchOptions = {},
+  ): Promise<SearchPage> {
+    const { data, pagination, facets } = await this.request<
+      SearchResult[],
+      SearchPage
+    >("GET", getSearchPath(this.endpoints.v1.search, tenant, index), {
+      query: { term, ...query },
+    });
+
+    return { data, pagination, facets };
+  }
+
+  // Iterates over every result for the search, following `endCursor` until
+  // there are no more pages
+  searchAll(tenant: string, term: string, options: SearchOptions = {}) {
+    return this.paginate(
+      (after) => this.search(tenant, term, { ...options, after }),
+      options.after,
+    );
+  }
+
+  async suggest(
+    tenant: string,
+    term: string,
+    { index, ...query }: SuggestOptions = {},
+  ) {
+    const { data } = await this.request<Suggestion[]>(
+      "GET",
+      getSearchPath(this.endpoints.v1.suggest, tenant, index),
+      { query: { term, ...query } },
+    );
+
+    return data;
+  }
+
+  async getTags() {
+    const { data } = await this.request<string[]>(
+      "GET",
+      this.endpoints.v1.tags,
+    );
+
+    return data;
+  }
+
+  async getTagCounts(tenant: string, index?: string) {
+    const { data } = await this.request<TagCount[]>(
+      "GET",
+      getSearchPath(this.endpoints.v1.tags, tenant, index),
+    );
+
+    return data;
+  }
+
+  async info() {
+    const { data } = await this.request<Record<string, unknown>>(
+      "GET",
+      `${this.endpoints.v1.admin}/info`,
+    );
+
+    return data;
+  }
+
+  async migrate() {
+    const { data } = await this.request<unknown[]>(
+      "POST",
+      `${this.endpoints.v1.admin}/migrate`,
+    );
+
+    return data;
+  }
+}
+
+export function createSearchClient(options?: SearchClientOptions) {
+  return new SearchClient(options);
+}
+
+export {
+  ClientError,
+  type ClientFetch,
+  type ClientPage,
+  type FacetResults,
+  type Highlights,
+  type TagCount,
+};
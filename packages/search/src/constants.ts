@@ -4,6 +4,52 @@ export const DEFAULT_SCAN_RANGE = 1000;
 
 export const DEFAULT_SORT_FIELD = "updated_at";
 
+export const DEFAULT_HIGHLIGHT_TAGS = { pre: "<mark>", post: "</mark>" };
+
+// How many tokens of context to keep either side of a highlighted term
+export const HIGHLIGHT_CONTEXT_TOKENS = 8;
+
+// Matches the default `maxFuzzy` of MiniSearch
+export const MAX_FUZZY_DISTANCE = 6;
+
+// The longest term we will persist in the index, anything longer is noise
+export const MAX_TERM_LENGTH = 255;
+
+// Caps how many indexed terms a single query can expand into via `fuzzy` and
+// `prefix`, keeping lookups within the bound parameter limits of D1
+export const MAX_LOOKUP_TERMS = 50;
+
+// How many index rows are written per insert, again for D1
+export const INDEX_TERMS_CHUNK_SIZE = 20;
+
+// Fuzzy matches have to share this many leading characters with the query term,
+// so that expanding it only has to read that range of the indexed terms
+export const FUZZY_PREFIX_LENGTH = 1;
+
+// How long (in seconds) a range of the indexed terms is cached for
+export const TERMS_CACHE_TTL = 60 * 60;
+
+// The longest `filter` that is parsed, and how many conditions it can have
+// (where each value of an `IN` counts as one), keeping the generated SQL within
+// the expression depth and (alongside the lookup terms) the bound parameter
+// limits of D1
+export const MAX_FILTER_LENGTH = 2048;
+
+export const MAX_FILTER_CONDITIONS = 40;
+
+// How many pages of candidates are read to make up the scan range, for storage
+// adapters that can't apply the whole `filter` when looking them up
+export const MAX_CANDIDATE_PAGES = 10;
+
+// How many documents are written per batch by `bulkUpsertDocuments()`
+export const DOCUMENTS_CHUNK_SIZE = 16;
+
+// The most operations that can be sent to the bulk endpoint in one request
+export const MAX_BULK_OPERATIONS = 1000;
+
+// The most values that are returned for a single (non-range) facet
+export const MAX_FACET_VALUES = 100;
+
 // Taken from: https://gist.github.com/sebleier/554280
 export const DEFAUlT_STOP_WORDS = new Set([
   "i",
@@ -193,6 +239,46 @@ export const OPEN_API_SPEC: OpenApiSpec = {
               type: "string",
             },
           },
+          {
+            name: "filter",
+            in: "query",
+            description:
+              'An expression to filter the matching documents by, e.g. `price >= 10 AND brand IN ("a", "b") AND NOT discontinued`',
+            required: false,
+            schema: {
+              type: "string",
+            },
+          },
+          {
+            name: "sort",
+            in: "query",
+            description:
+              "Comma separated list of `score` or `data.` field paths to sort the matching documents by, each with an optional `:asc` or `:desc` direction (e.g. `data.price:asc,score:desc`)",
+            required: false,
+            schema: {
+              type: "string",
+            },
+          },
+          {
+            name: "highlight",
+            in: "query",
+            description:
+              "Whether to return snippets of the matching fields with the matched terms highlighted",
+            required: false,
+            schema: {
+              type: "boolean",
+            },
+          },
+          {
+            name: "facets",
+            in: "query",
+            description:
+              "Comma separated list of fields (or `tags`) to count the matching documents by, with optional `|` separated range boundaries for numeric fields (e.g. `tags,category,price:10|50`)",
+            required: false,
+            schema: {
+              type: "string",
+            },
+          },
         ],
         responses: {
           "200": {
@@ -270,6 +356,46 @@ export const OPEN_API_SPEC: OpenApiSpec = {
               type: "string",
             },
           },
+          {
+            name: "filter",
+            in: "query",
+            description:
+              'An expression to filter the matching documents by, e.g. `price >= 10 AND brand IN ("a", "b") AND NOT discontinued`',
+            required: false,
+            schema: {
+              type: "string",
+            },
+          },
+          {
+            name: "sort",
+            in: "query",
+            description:
+              "Comma separated list of `score` or `data.` field paths to sort the matching documents by, each with an optional `:asc` or `:desc` direction (e.g. `data.price:asc,score:desc`)",
+            required: false,
+            schema: {
+              type: "string",
+            },
+          },
+          {
+            name: "highlight",
+            in: "query",
+            description:
+              "Whether to return snippets of the matching fields with the matched terms highlighted",
+            required: false,
+            schema: {
+              type: "boolean",
+            },
+          },
+          {
+            name: "facets",
+            in: "query",
+            description:
+              "Comma separated list of fields (or `tags`) to count the matching documents by, with optional `|` separated range boundaries for numeric fields (e.g. `tags,category,price:10|50`)",
+            required: false,
+            schema: {
+              type: "string",
+            },
+          },
         ],
         responses: {
           "200": {
@@ -338,6 +464,16 @@ export const OPEN_API_SPEC: OpenApiSpec = {
               type: "string",
             },
           },
+          {
+            name: "filter",
+            in: "query",
+            description:
+              'An expression to filter the matching documents by, e.g. `price >= 10 AND brand IN ("a", "b") AND NOT discontinued`',
+            required: false,
+            schema: {
+              type: "string",
+            },
+          },
         ],
         responses: {
           "200": {
@@ -415,6 +551,16 @@ export const OPEN_API_SPEC: OpenApiSpec = {
               type: "string",
             },
           },
+          {
+            name: "filter",
+            in: "query",
+            description:
+              'An expression to filter the matching documents by, e.g. `price >= 10 AND brand IN ("a", "b") AND NOT discontinued`',
+            required: false,
+            schema: {
+              type: "string",
+            },
+          },
         ],
         responses: {
           "200": {
@@ -440,6 +586,114 @@ export const OPEN_API_SPEC: OpenApiSpec = {
         },
       },
     },
+    "/v1/docs": {
+      delete: {
+        summary: "Delete all search documents matching a query",
+        security: [{ BasicAuth: [] }, { BearerAuth: [] }],
+        operationId: "deleteDocuments",
+        tags: ["Documents"],
+        parameters: [
+          {
+            name: "tenant",
+            in: "query",
+            required: true,
+            description: "The tenant to delete search documents from",
+            schema: {
+              type: "string",
+            },
+          },
+          {
+            name: "index",
+            in: "query",
+            required: false,
+            description: "The index to delete search documents from",
+            schema: {
+              type: "string",
+            },
+          },
+          {
+            name: "tags",
+            in: "query",
+            required: false,
+            description:
+              "A comma-separated list of tags that search documents must have *all* of to be deleted",
+            schema: {
+              type: "string",
+            },
+          },
+        ],
+        responses: {
+          "200": {
+            description: "The number of deleted documents",
+            content: {
+              "application/json": {
+                schema: {
+                  $ref: "#/components/schemas/DeleteDocumentsResponse",
+                },
+              },
+            },
+          },
+          default: {
+            description: "Unexpected error",
+            content: {
+              "application/json": {
+                schema: {
+                  $ref: "#/components/schemas/InternalServerError",
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    "/v1/docs/bulk": {
+      post: {
+        summary: "Upsert and delete search documents in bulk",
+        security: [{ BasicAuth: [] }, { BearerAuth: [] }],
+        operationId: "bulkDocuments",
+        tags: ["Documents"],
+        requestBody: {
+          description:
+            "The operations to run, either as a JSON array or as NDJSON (one operation per line)",
+          required: true,
+          content: {
+            "application/json": {
+              schema: {
+                $ref: "#/components/schemas/BulkDocumentsBody",
+              },
+            },
+            "application/x-ndjson": {
+              schema: {
+                $ref: "#/components/schemas/BulkDocumentOperation",
+              },
+            },
+          },
+        },
+        responses: {
+          "200": {
+            description:
+              "The result of each operation, in the order they were sent",
+            content: {
+              "application/json": {
+                schema: {
+                  $ref: "#/components/schemas/BulkDocumentsResponse",
+                },
+              },
+            },
+          },
+          default: {
+            description: "Unexpected error",
+            content: {
+              "application/json": {
+                schema: {
+                  $ref: "#/components/schemas/InternalServerError",
+                },
+              },
+            },
+          },
+        },
+      },
+    },
     "/v1/docs/{id}": {
       get: {
         summary: "Get a search document",
@@ -600,6 +854,97 @@ export const OPEN_API_SPEC: OpenApiSpec = {
         },
       },
     },
+    "/v1/tags/{tenant}": {
+      get: {
+        summary: "Get the document counts for each tag in a tenant",
+        security: [{ BasicAuth: [] }, { BearerAuth: [] }],
+        operationId: "getTenantTagCounts",
+        tags: ["Tags"],
+        parameters: [
+          {
+            name: "tenant",
+            in: "path",
+            required: true,
+            description: "The tenant to count tags within",
+            schema: {
+              type: "string",
+            },
+          },
+        ],
+        responses: {
+          "200": {
+            description: "An array of tags and their document counts",
+            content: {
+              "application/json": {
+                schema: {
+                  $ref: "#/components/schemas/TagCountsResponse",
+                },
+              },
+            },
+          },
+          default: {
+            description: "Unexpected error",
+            content: {
+              "application/json": {
+                schema: {
+                  $ref: "#/components/schemas/InternalServerError",
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    "/v1/tags/{tenant}/{index}": {
+      get: {
+        summary: "Get the document counts for each tag in a tenant and index",
+        security: [{ BasicAuth: [] }, { BearerAuth: [] }],
+        operationId: "getTenantAndIndexTagCounts",
+        tags: ["Tags"],
+        parameters: [
+          {
+            name: "tenant",
+            in: "path",
+            required: true,
+            description: "The tenant to count tags within",
+            schema: {
+              type: "string",
+            },
+          },
+          {
+            name: "index",
+            in: "path",
+            required: true,
+            description: "The index to count tags within",
+            schema: {
+              type: "string",
+            },
+          },
+        ],
+        responses: {
+          "200": {
+            description: "An array of tags and their document counts",
+            content: {
+              "application/json": {
+                schema: {
+                  $ref: "#/components/schemas/TagCountsResponse",
+                },
+              },
+            },
+          },
+          default: {
+            description: "Unexpected error",
+            content: {
+              "application/json": {
+                schema: {
+                  $ref: "#/components/schemas/InternalServerError",
+                },
+              },
+            },
+          },
+        },
+      },
+    },
     "/v1/admin/info": {
       get: {
         summary: "Get configuration information",
@@ -806,6 +1151,48 @@ export const OPEN_API_SPEC: OpenApiSpec = {
                   test: ["content"],
                 },
               },
+              highlights: {
+                type: "object",
+                additionalProperties: {
+                  type: "array",
+                  items: {
+                    type: "string",
+                  },
+                },
+                example: {
+                  content: ["Some <mark>test</mark> content"],
+                },
+              },
+            },
+          },
+          facets: {
+            type: "object",
+            additionalProperties: {
+              type: "array",
+              items: {
+                type: "object",
+                properties: {
+                  value: {
+                    type: "string",
+                    example: "test",
+                  },
+                  from: {
+                    type: "number",
+                    nullable: true,
+                    example: 10,
+                  },
+                  to: {
+                    type: "number",
+                    nullable: true,
+                    example: 50,
+                  },
+                  count: {
+                    type: "integer",
+                    format: "int32",
+                    example: 1,
+                  },
+                },
+              },
             },
           },
         },
@@ -901,6 +1288,143 @@ export const OPEN_API_SPEC: OpenApiSpec = {
           },
         },
       },
+      DeleteDocumentsResponse: {
+        properties: {
+          status: {
+            type: "integer",
+            format: "int32",
+            example: 200,
+          },
+          success: {
+            type: "boolean",
+            example: true,
+          },
+          data: {
+            type: "object",
+            properties: {
+              deleted: {
+                type: "integer",
+                format: "int32",
+                example: 1,
+              },
+            },
+          },
+        },
+      },
+      BulkDocumentOperation: {
+        properties: {
+          action: {
+            type: "string",
+            enum: ["upsert", "delete"],
+            example: "upsert",
+            required: true,
+          },
+          id: {
+            type: "string",
+            example: "1",
+            required: true,
+          },
+          tenant: {
+            type: "string",
+            example: "test",
+          },
+          index: {
+            type: "string",
+            example: "test",
+          },
+          data: {
+            type: "object",
+            additionalProperties: true,
+            example: {
+              title: "Test item 1",
+              content: "This is some test content",
+            },
+          },
+          tags: {
+            type: "array",
+            items: {
+              type: "string",
+              example: "test",
+            },
+          },
+        },
+      },
+      BulkDocumentsBody: {
+        type: "array",
+        items: {
+          $ref: "#/components/schemas/BulkDocumentOperation",
+        },
+      },
+      BulkDocumentsResponse: {
+        properties: {
+          status: {
+            type: "integer",
+            format: "int32",
+            example: 200,
+          },
+          success: {
+            type: "boolean",
+            example: true,
+          },
+          data: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: {
+                id: {
+                  type: "string",
+                  nullable: true,
+                  example: "1",
+                },
+                action: {
+                  type: "string",
+                  nullable: true,
+                  enum: ["upsert", "delete"],
+                  example: "upsert",
+                },
+                success: {
+                  type: "boolean",
+                  example: true,
+                },
+                error: {
+                  type: "string",
+                  example: "Invalid operation",
+                },
+              },
+            },
+          },
+        },
+      },
+      TagCountsResponse: {
+        properties: {
+          status: {
+            type: "integer",
+            format: "int32",
+            example: 200,
+          },
+          success: {
+            type: "boolean",
+            example: true,
+          },
+          data: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: {
+                tag: {
+                  type: "string",
+                  example: "test",
+                },
+                count: {
+                  type: "integer",
+                  format: "int32",
+                  example: 1,
+                },
+              },
+            },
+          },
+        },
+      },
       TagsResponse: {
         properties: {
           status: {
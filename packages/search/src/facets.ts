@@ -0,0 +1,141 @@
+import { MAX_FACET_VALUES } from "./constants.js";
+import { type SearchDocument } from "./storage/storage-adapter.js";
+
+export interface Facet {
+  field: string;
+  // The bucket boundaries for a numeric range facet, `null` for a term facet
+  ranges: number[] | null;
+}
+
+export interface FacetValue {
+  value: string;
+  count: number;
+}
+
+export interface FacetRange {
+  // Inclusive
+  from: number | null;
+  // Exclusive
+  to: number | null;
+  count: number;
+}
+
+export type FacetResults = Record<string, FacetValue[] | FacetRange[]>;
+
+// Parses a `facets` query parameter, e.g. `tags,category,price:10|50|100`,
+// returning `null` if any of the range boundaries are not numbers
+export function parseFacets(value: string): Facet[] | null {
+  const facets: Facet[] = [];
+
+  for (const part of value.split(/,\s?/)) {
+    const [field, ranges] = part.split(":");
+
+    if (!field) {
+      return null;
+    }
+
+    if (ranges === undefined) {
+      facets.push({ field, ranges: null });
+
+      continue;
+    }
+
+    const boundaries = ranges.split("|").map((range) => parseFloat(range));
+
+    if (boundaries.some((boundary) => Number.isNaN(boundary))) {
+      return null;
+    }
+
+    facets.push({ field, ranges: boundaries.sort((a, b) => a - b) });
+  }
+
+  return facets;
+}
+
+function getFieldValues(document: SearchDocument, field: string) {
+  let value: unknown = document.data;
+
+  if (field === "tags") {
+    value = document.tags;
+  } else {
+    for (const key of field.split(".")) {
+      value =
+        typeof value === "object" && value !== null
+          ? (value as Record<string, unknown>)[key]
+          : undefined;
+    }
+  }
+
+  return (Array.isArray(value) ? value : [value]).filter(
+    (item) =>
+      typeof item === "string" ||
+      typeof item === "number" ||
+      typeof item === "boolean",
+  ) as (string | number | boolean)[];
+}
+
+function getTermFacet(documents: SearchDocument[], field: string) {
+  const counts = new Map<string, number>();
+
+  documents.forEach((document) => {
+    new Set(getFieldValues(document, field).map(String)).forEach((value) => {
+      counts.set(value, (counts.get(value) ?? 0) + 1);
+    });
+  });
+
+  return Array.from(counts.entries())
+    .map(([value, count]) => ({ value, count }))
+    .sort((a, b) =>
+      a.count !== b.count ? b.count - a.count : a.value.localeCompare(b.value),
+    )
+    .slice(0, MAX_FACET_VALUES);
+}
+
+function getRangeFacet(
+  documents: SearchDocument[],
+  field: string,
+  boundaries: number[],
+) {
+  const ranges: FacetRange[] = [null, ...boundaries].map((from, i) => ({
+    from,
+    to: boundaries[i] ?? null,
+    count: 0,
+  }));
+
+  documents.forEach((document) => {
+    const values = getFieldValues(document, field).filter(
+      (value): value is number => typeof value === "number",
+    );
+
+    ranges.forEach((range) => {
+      const matches = values.some(
+        (value) =>
+          (range.from === null || value >= range.from) &&
+          (range.to === null || value < range.to),
+      );
+
+      if (matches) {
+        range.count++;
+      }
+    });
+  });
+
+  return ranges;
+}
+
+// Counts the documents for each facet, a document is counted once per value
+// (or range) no matter how many times it appears in the document
+export function getFacets(
+  documents: SearchDocument[],
+  facets: Facet[],
+): FacetResults {
+  const results: FacetResults = {};
+
+  facets.forEach(({ field, ranges }) => {
+    results[field] = ranges
+      ? getRangeFacet(documents, field, ranges)
+      : getTermFacet(documents, field);
+  });
+
+  return results;
+}
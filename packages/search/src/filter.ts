@@ -0,0 +1,486 @@
+import { type RawBuilder, sql } from "@workertown/internal-storage";
+
+import { MAX_FILTER_CONDITIONS, MAX_FILTER_LENGTH } from "./constants.js";
+import { type SearchDocument } from "./storage/storage-adapter.js";
+
+export type FilterValue = string | number | boolean | null;
+
+export type FilterOperator = "=" | "!=" | ">" | ">=" | "<" | "<=";
+
+export type Filter =
+  | { type: "and" | "or"; left: Filter; right: Filter }
+  | { type: "not"; filter: Filter }
+  | {
+      type: "compare";
+      field: string;
+      operator: FilterOperator;
+      value: FilterValue;
+    }
+  | { type: "in"; field: string; values: Exclude<FilterValue, null>[] }
+  | { type: "truthy"; field: string };
+
+type Token =
+  | { type: "field" | "keyword" | "operator" | "punctuation"; value: string }
+  | { type: "value"; value: FilterValue };
+
+interface PositionedToken {
+  token: Token;
+  position: number;
+}
+
+const KEYWORDS = new Set(["AND", "OR", "NOT", "IN"]);
+
+const OPERATORS: FilterOperator[] = [">=", "<=", "!=", "=", ">", "<"];
+
+const FIELD_REGEX = /^[A-Za-z_][A-Za-z0-9_]*(\.[A-Za-z0-9_]+)*/;
+
+const NUMBER_REGEX = /^-?\d+(\.\d+)?/;
+
+function tokenize(input: string) {
+  const tokens: PositionedToken[] = [];
+  let position = 0;
+
+  while (position < input.length) {
+    const rest = input.slice(position);
+    const char = rest[0] as string;
+
+    if (/\s/.test(char)) {
+      position++;
+
+      continue;
+    }
+
+    if (char === "(" || char === ")" || char === ",") {
+      tokens.push({ token: { type: "punctuation", value: char }, position });
+      position++;
+
+      continue;
+    }
+
+    const operator = OPERATORS.find((operator) => rest.startsWith(operator));
+
+    if (operator) {
+      tokens.push({ token: { type: "operator", value: operator }, position });
+      position += operator.length;
+
+      continue;
+    }
+
+    if (char === '"' || char === "'") {
+      let value = "";
+      let end = 1;
+
+      while (end < rest.length && rest[end] !== char) {
+        // Allow the quote to be escaped within the string
+        if (rest[end] === "\\" && end + 1 < rest.length) {
+          end++;
+        }
+
+        value += rest[end];
+        end++;
+      }
+
+      if (end >= rest.length) {
+        throw new SyntaxError(`Unterminated string at position ${position}`);
+      }
+
+      tokens.push({ token: { type: "value", value }, position });
+      position += end + 1;
+
+      continue;
+    }
+
+    const number = rest.match(NUMBER_REGEX);
+
+    if (number) {
+      tokens.push({
+        token: { type: "value", value: parseFloat(number[0]) },
+        position,
+      });
+      position += number[0].length;
+
+      continue;
+    }
+
+    const field = rest.match(FIELD_REGEX);
+
+    if (field) {
+      const word = field[0];
+      const upper = word.toUpperCase();
+
+      if (KEYWORDS.has(upper)) {
+        tokens.push({ token: { type: "keyword", value: upper }, position });
+      } else if (upper === "TRUE" || upper === "FALSE") {
+        tokens.push({
+          token: { type: "value", value: upper === "TRUE" },
+          position,
+        });
+      } else if (upper === "NULL") {
+        tokens.push({ token: { type: "value", value: null }, position });
+      } else {
+        tokens.push({ token: { type: "field", value: word }, position });
+      }
+
+      position += word.length;
+
+      continue;
+    }
+
+    throw new SyntaxError(`Unexpected "${char}" at position ${position}`);
+  }
+
+  return tokens;
+}
+
+class Parser {
+  private _index = 0;
+
+  private _conditions = 0;
+
+  constructor(
+    private readonly _tokens: PositionedToken[],
+    private readonly _length: number,
+  ) {}
+
+  private _peek() {
+    return this._tokens[this._index];
+  }
+
+  private _isNext(type: Token["type"], value?: string) {
+    const next = this._peek();
+
+    return (
+      next !== undefined &&
+      next.token.type === type &&
+      (value === undefined || next.token.value === value)
+    );
+  }
+
+  private _fail(expected: string): never {
+    const next = this._peek();
+
+    throw new SyntaxError(
+      `Expected ${expected} at position ${next?.position ?? this._length}`,
+    );
+  }
+
+  private _expect(type: Token["type"], value?: string) {
+    if (!this._isNext(type, value)) {
+      this._fail(value ? `"${value}"` : `a ${type}`);
+    }
+
+    return (this._tokens[this._index++] as PositionedToken).token;
+  }
+
+  public parse() {
+    const filter = this._parseOr();
+
+    if (this._peek()) {
+      this._fail('"AND", "OR" or the end of the filter');
+    }
+
+    return filter;
+  }
+
+  private _parseOr(): Filter {
+    let left = this._parseAnd();
+
+    while (this._isNext("keyword", "OR")) {
+      this._index++;
+      left = { type: "or", left, right: this._parseAnd() };
+    }
+
+    return left;
+  }
+
+  private _parseAnd(): Filter {
+    let left = this._parseNot();
+
+    while (this._isNext("keyword", "AND")) {
+      this._index++;
+      left = { type: "and", left, right: this._parseNot() };
+    }
+
+    return left;
+  }
+
+  private _parseNot(): Filter {
+    if (this._isNext("keyword", "NOT")) {
+      this._index++;
+
+      const filter = this._parseNot();
+
+      // Double negatives cancel out, so that chaining them doesn't nest the
+      // filter any deeper
+      return filter.type === "not" ? filter.filter : { type: "not", filter };
+    }
+
+    if (this._isNext("punctuation", "(")) {
+      this._index++;
+
+      const filter = this._parseOr();
+
+      this._expect("punctuation", ")");
+
+      return filter;
+    }
+
+    return this._parseCondition();
+  }
+
+  private _parseValue() {
+    const token = this._expect("value");
+
+    return token.value as FilterValue;
+  }
+
+  private _countCondition() {
+    if (++this._conditions > MAX_FILTER_CONDITIONS) {
+      throw new SyntaxError(
+        `Filter can't have more than ${MAX_FILTER_CONDITIONS} conditions`,
+      );
+    }
+  }
+
+  private _parseCondition(): Filter {
+    const field = this._expect("field").value as string;
+
+    if (this._isNext("operator")) {
+      const operator = this._expect("operator").value as FilterOperator;
+      const value = this._parseValue();
+
+      this._countCondition();
+
+      if (value === null && operator !== "=" && operator !== "!=") {
+        this._fail("a non-null value");
+      }
+
+      return { type: "compare", field, operator, value };
+    }
+
+    if (this._isNext("keyword", "IN")) {
+      this._index++;
+      this._expect("punctuation", "(");
+
+      const values: Exclude<FilterValue, null>[] = [];
+
+      do {
+        const value = this._parseValue();
+
+        if (value === null) {
+          this._fail("a non-null value");
+        }
+
+        this._countCondition();
+        values.push(value);
+      } while (this._isNext("punctuation", ",") && ++this._index);
+
+      this._expect("punctuation", ")");
+
+      return { type: "in", field, values };
+    }
+
+    this._countCondition();
+
+    return { type: "truthy", field };
+  }
+}
+
+// Parses a filter such as `price >= 10 AND brand IN ("a", "b") AND NOT
+// discontinued`, throwing a `SyntaxError` describing where it went wrong
+export function parseFilter(input: string): Filter {
+  if (input.length > MAX_FILTER_LENGTH) {
+    throw new SyntaxError(
+      `Filter can't be longer than ${MAX_FILTER_LENGTH} characters`,
+    );
+  }
+
+  return new Parser(tokenize(input), input.length).parse();
+}
+
+// A field matches if *any* of its values do, where an array (or object) field
+// has a value for each of its items, and a missing field has none. This mirrors
+// how `json_each()` behaves (e.g. a `.` never indexes into an array) so that
+// SQLite can apply the filter exactly
+function getFieldValues(data: Record<string, unknown>, field: string) {
+  let value: unknown = data;
+
+  for (const key of field.split(".")) {
+    if (
+      typeof value !== "object" ||
+      value === null ||
+      Array.isArray(value) ||
+      !Object.prototype.hasOwnProperty.call(value, key)
+    ) {
+      return [];
+    }
+
+    value = (value as Record<string, unknown>)[key];
+  }
+
+  if (value === undefined) {
+    return [];
+  }
+
+  if (typeof value === "object" && value !== null) {
+    return Object.values(value);
+  }
+
+  return [value];
+}
+
+function compare(value: unknown, operator: FilterOperator, other: FilterValue) {
+  if (other === null) {
+    return operator === "=" ? value === null : value !== null;
+  }
+
+  if (value === null) {
+    return false;
+  }
+
+  switch (operator) {
+    case "=":
+      return value === other;
+    case "!=":
+      return value !== other;
+  }
+
+  if (
+    (typeof value !== "number" || typeof other !== "number") &&
+    (typeof value !== "string" || typeof other !== "string")
+  ) {
+    return false;
+  }
+
+  switch (operator) {
+    case ">":
+      return value > other;
+    case ">=":
+      return value >= other;
+    case "<":
+      return value < other;
+    case "<=":
+      return value <= other;
+  }
+}
+
+export function matchesFilter(
+  document: Pick<SearchDocument, "data">,
+  filter: Filter,
+): boolean {
+  switch (filter.type) {
+    case "and":
+      return (
+        matchesFilter(document, filter.left) &&
+        matchesFilter(document, filter.right)
+      );
+    case "or":
+      return (
+        matchesFilter(document, filter.left) ||
+        matchesFilter(document, filter.right)
+      );
+    case "not":
+      return !matchesFilter(document, filter.filter);
+    case "compare":
+      return getFieldValues(document.data, filter.field).some((value) =>
+        compare(value, filter.operator, filter.value),
+      );
+    case "in":
+      return getFieldValues(document.data, filter.field).some((value) =>
+        filter.values.includes(value as Exclude<FilterValue, null>),
+      );
+    case "truthy":
+      return getFieldValues(document.data, filter.field).some(
+        (value) =>
+          value !== null && value !== false && value !== 0 && value !== "",
+      );
+  }
+}
+
+const SQLITE_NUMBER_TYPES = sql`('integer', 'real')`;
+
+// Matches the `json_each()` rows whose value is strictly equal to `value`
+function getSqliteEquals(value: Exclude<FilterValue, null>) {
+  switch (typeof value) {
+    case "boolean":
+      return sql<boolean>`type = ${sql.lit(String(value))}`;
+    case "number":
+      return sql<boolean>`(type in ${SQLITE_NUMBER_TYPES} and value = ${value})`;
+    default:
+      return sql<boolean>`(type = 'text' and value = ${value})`;
+  }
+}
+
+function getSqliteCondition(
+  filter: Exclude<Filter, { type: "and" | "or" | "not" }>,
+) {
+  if (filter.type === "in") {
+    return sql<boolean>`(${sql.join(
+      filter.values.map(getSqliteEquals),
+      sql` or `,
+    )})`;
+  }
+
+  if (filter.type === "truthy") {
+    return sql<boolean>`(type not in ('null', 'false') and not ${getSqliteEquals(
+      0,
+    )} and not ${getSqliteEquals("")})`;
+  }
+
+  const { operator, value } = filter;
+
+  if (value === null) {
+    return sql<boolean>`type ${sql.raw(operator === "=" ? "=" : "!=")} 'null'`;
+  }
+
+  switch (operator) {
+    case "=":
+      return getSqliteEquals(value);
+    case "!=":
+      return sql<boolean>`(type != 'null' and not ${getSqliteEquals(value)})`;
+  }
+
+  // Like `compare()`, only numbers and strings can be ordered, and only against
+  // values of the same type
+  switch (typeof value) {
+    case "boolean":
+      return sql<boolean>`0`;
+    case "number":
+      return sql<boolean>`(type in ${SQLITE_NUMBER_TYPES} and value ${sql.raw(
+        operator,
+      )} ${value})`;
+    default:
+      return sql<boolean>`(type = 'text' and value ${sql.raw(
+        operator,
+      )} ${value})`;
+  }
+}
+
+// Translates the filter into a SQLite expression over the `data` column that
+// matches exactly the documents that `matchesFilter()` would, so that it can be
+// applied before the results are limited (including under a `NOT`)
+export function getSqliteFilter(
+  filter: Filter,
+  column: string,
+): RawBuilder<boolean> {
+  switch (filter.type) {
+    case "and":
+      return sql<boolean>`(${getSqliteFilter(
+        filter.left,
+        column,
+      )} and ${getSqliteFilter(filter.right, column)})`;
+    case "or":
+      return sql<boolean>`(${getSqliteFilter(
+        filter.left,
+        column,
+      )} or ${getSqliteFilter(filter.right, column)})`;
+    case "not":
+      return sql<boolean>`(not ${getSqliteFilter(filter.filter, column)})`;
+  }
+
+  const values = sql`json_each(${sql.ref(column)}, ${`$.${filter.field}`})`;
+
+  return sql<boolean>`exists (select 1 from ${values} where ${getSqliteCondition(
+    filter,
+  )})`;
+}
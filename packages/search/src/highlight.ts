@@ -0,0 +1,91 @@
+import { type MatchInfo } from "minisearch";
+
+import { HIGHLIGHT_CONTEXT_TOKENS } from "./constants.js";
+
+export interface HighlightTags {
+  pre: string;
+  post: string;
+}
+
+export type Highlights = Record<string, string[]>;
+
+// The inverse of the tokenizer that MiniSearch uses by default
+const TOKEN_REGEX = /[^\n\r\p{Z}\p{P}]+/gu;
+
+function getSnippets(text: string, terms: Set<string>, tags: HighlightTags) {
+  const tokens = Array.from(text.matchAll(TOKEN_REGEX));
+  const windows: { start: number; end: number }[] = [];
+
+  tokens.forEach((token, i) => {
+    if (!terms.has(token[0].toLowerCase())) {
+      return;
+    }
+
+    const start = Math.max(0, i - HIGHLIGHT_CONTEXT_TOKENS);
+    const end = Math.min(tokens.length - 1, i + HIGHLIGHT_CONTEXT_TOKENS);
+    const previous = windows[windows.length - 1];
+
+    // Merge any overlapping snippets
+    if (previous && start <= previous.end + 1) {
+      previous.end = end;
+    } else {
+      windows.push({ start, end });
+    }
+  });
+
+  return windows.map(({ start, end }) => {
+    let snippet = "";
+    let cursor = (tokens[start] as RegExpMatchArray).index as number;
+
+    for (const token of tokens.slice(start, end + 1)) {
+      const index = token.index as number;
+
+      snippet += text.slice(cursor, index);
+      snippet += terms.has(token[0].toLowerCase())
+        ? `${tags.pre}${token[0]}${tags.post}`
+        : token[0];
+      cursor = index + token[0].length;
+    }
+
+    return snippet;
+  });
+}
+
+// Builds snippets of each matching field with the matched terms wrapped in the
+// given tags. `match` holds the terms as they were indexed (i.e. after any
+// fuzzy or prefix expansion), so these are what get highlighted rather than the
+// terms that were searched for
+export function getHighlights(
+  data: Record<string, unknown>,
+  match: MatchInfo,
+  tags: HighlightTags,
+): Highlights {
+  const fieldTerms = new Map<string, Set<string>>();
+  const highlights: Highlights = {};
+
+  Object.entries(match).forEach(([term, fields]) => {
+    fields.forEach((field) => {
+      if (!fieldTerms.has(field)) {
+        fieldTerms.set(field, new Set());
+      }
+
+      fieldTerms.get(field)?.add(term);
+    });
+  });
+
+  fieldTerms.forEach((terms, field) => {
+    const value = data[field];
+
+    if (value === null || value === undefined) {
+      return;
+    }
+
+    const snippets = getSnippets(String(value), terms, tags);
+
+    if (snippets.length > 0) {
+      highlights[field] = snippets;
+    }
+  });
+
+  return highlights;
+}
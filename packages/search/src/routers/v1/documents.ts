@@ -1,11 +1,237 @@
 import { createRouter, validate } from "@workertown/internal-server";
 import { z } from "zod";
 
+import { DOCUMENTS_CHUNK_SIZE, MAX_BULK_OPERATIONS } from "../../constants.js";
+import { type BulkUpsertSearchDocumentBody } from "../../storage/index.js";
 import { type Context } from "../../types.js";
 import { getCacheKey } from "../../utils.js";
 
 const router = createRouter<Context>();
 
+const bulkOperationSchema = z.discriminatedUnion("action", [
+  z.object({
+    action: z.literal("upsert"),
+    id: z.string(),
+    tenant: z.string(),
+    index: z.string(),
+    data: z.record(z.unknown()),
+    tags: z.array(z.string()).optional(),
+  }),
+  z.object({
+    action: z.literal("delete"),
+    id: z.string(),
+  }),
+]);
+
+interface BulkOperationResult {
+  id: string | null;
+  action: "upsert" | "delete" | null;
+  success: boolean;
+  error?: string;
+}
+
+function getInvalidOperationResult(
+  operation: unknown,
+  error: string,
+): BulkOperationResult {
+  const { id, action } = (
+    typeof operation === "object" && operation !== null ? operation : {}
+  ) as Record<string, unknown>;
+
+  return {
+    id: typeof id === "string" ? id : null,
+    action: action === "upsert" || action === "delete" ? action : null,
+    success: false,
+    error,
+  };
+}
+
+// Accepts either a JSON array of operations or NDJSON (one operation per line),
+// an operation that can't be parsed is reported as a failure in its position
+async function parseBulkOperations(req: Request) {
+  if (req.headers.get("Content-Type")?.includes("application/x-ndjson")) {
+    const text = await req.text();
+
+    return text
+      .split("\n")
+      .filter((line) => line.trim().length > 0)
+      .map((line) => {
+        try {
+          return JSON.parse(line) as unknown;
+        } catch (_) {
+          return undefined;
+        }
+      });
+  }
+
+  const body = await req.json();
+
+  if (!Array.isArray(body)) {
+    throw new TypeError("Expected an array of operations");
+  }
+
+  return body as unknown[];
+}
+
+router.post("/bulk", async (ctx) => {
+  const storage = ctx.get("storage");
+  const cache = ctx.get("cache");
+  let operations: unknown[];
+
+  try {
+    operations = await parseBulkOperations(ctx.req.raw);
+  } catch (_) {
+    return ctx.json(
+      {
+        status: 400,
+        success: false,
+        data: null,
+        error: "Invalid bulk operations",
+      },
+      400,
+    );
+  }
+
+  if (operations.length > MAX_BULK_OPERATIONS) {
+    return ctx.json(
+      {
+        status: 400,
+        success: false,
+        data: null,
+        error: `A maximum of ${MAX_BULK_OPERATIONS} operations can be sent at once`,
+      },
+      400,
+    );
+  }
+
+  const results: BulkOperationResult[] = [];
+  const cacheKeys = new Set<string>();
+  let batch: { position: number; document: BulkUpsertSearchDocumentBody }[] =
+    [];
+
+  // Upserts are written in batches, but never across a delete so that the
+  // operations are applied in the order they were sent
+  const flush = async () => {
+    if (batch.length === 0) {
+      return;
+    }
+
+    const documents = batch.map(({ document }) => document);
+
+    try {
+      await storage.bulkUpsertDocuments(documents);
+
+      batch.forEach(({ position, document }) => {
+        results[position] = {
+          id: document.id,
+          action: "upsert",
+          success: true,
+        };
+        cacheKeys.add(getCacheKey(document.tenant));
+        cacheKeys.add(getCacheKey(document.tenant, document.index));
+      });
+    } catch (_) {
+      batch.forEach(({ position, document }) => {
+        results[position] = {
+          id: document.id,
+          action: "upsert",
+          success: false,
+          error: "Failed to upsert document",
+        };
+      });
+    }
+
+    batch = [];
+  };
+
+  for (const [position, operation] of operations.entries()) {
+    const parsed = bulkOperationSchema.safeParse(operation);
+
+    if (!parsed.success) {
+      results[position] = getInvalidOperationResult(
+        operation,
+        "Invalid operation",
+      );
+
+      continue;
+    }
+
+    if (parsed.data.action === "upsert") {
+      const { action: _action, ...document } = parsed.data;
+
+      batch.push({ position, document });
+
+      if (batch.length >= DOCUMENTS_CHUNK_SIZE) {
+        await flush();
+      }
+
+      continue;
+    }
+
+    await flush();
+
+    const { id } = parsed.data;
+
+    try {
+      const document = await storage.getDocument(id);
+
+      if (document) {
+        await storage.deleteDocument(id);
+
+        cacheKeys.add(getCacheKey(document.tenant));
+        cacheKeys.add(getCacheKey(document.tenant, document.index));
+      }
+
+      results[position] = { id, action: "delete", success: true };
+    } catch (_) {
+      results[position] = {
+        id,
+        action: "delete",
+        success: false,
+        error: "Failed to delete document",
+      };
+    }
+  }
+
+  await flush();
+
+  for (const cacheKey of cacheKeys) {
+    await cache.delete(cacheKey);
+  }
+
+  return ctx.json({ status: 200, success: true, data: results });
+});
+
+const deleteDocumentsQuerySchema = z.object({
+  tenant: z.string(),
+  index: z.string().optional(),
+  tags: z
+    .string()
+    .optional()
+    .transform((val) => val?.split(/,\s?/)),
+});
+
+router.delete(
+  "/",
+  validate("query", deleteDocumentsQuerySchema),
+  async (ctx) => {
+    const storage = ctx.get("storage");
+    const cache = ctx.get("cache");
+    const { tenant, index, tags } = ctx.req.valid("query" as never) as z.infer<
+      typeof deleteDocumentsQuerySchema
+    >;
+    const deleted = await storage.deleteDocuments({ tenant, index, tags });
+
+    await cache.delete(getCacheKey(tenant));
+
+    if (index) {
+      await cache.delete(getCacheKey(tenant, index));
+    }
+
+    return ctx.json({ status: 200, success: true, data: { deleted } });
+  },
+);
+
 router.get("/:id", async (ctx) => {
   const id = ctx.req.param("id");
   const storage = ctx.get("storage");
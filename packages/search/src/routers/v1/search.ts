@@ -2,9 +2,13 @@ import { createRouter, validate } from "@workertown/internal-server";
 import MiniSearch, { type MatchInfo } from "minisearch";
 import { z } from "zod";
 
+import { type FacetResults, getFacets, parseFacets } from "../../facets.js";
+import { parseFilter } from "../../filter.js";
+import { type Highlights, getHighlights } from "../../highlight.js";
+import { parseSort, sortResults } from "../../sort.js";
 import { type SearchDocument } from "../../storage/index.js";
 import { type Context } from "../../types.js";
-import { getCacheKey } from "../../utils.js";
+import { getIndexedDocuments } from "../../utils.js";
 
 const router = createRouter<Context>();
 
@@ -54,6 +58,65 @@ const searchQuerySchema = z.object({
     .string()
     .optional()
     .transform((val) => val === "1" || val === "true"),
+  filter: z
+    .string()
+    .optional()
+    .transform((val, ctx) => {
+      if (val) {
+        try {
+          return parseFilter(val);
+        } catch (error) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            message: (error as Error).message,
+          });
+
+          return z.NEVER;
+        }
+      }
+    }),
+  sort: z
+    .string()
+    .optional()
+    .transform((val, ctx) => {
+      if (val) {
+        const sort = parseSort(val);
+
+        if (!sort) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            message: "Invalid sort",
+          });
+
+          return z.NEVER;
+        }
+
+        return sort;
+      }
+    }),
+  highlight: z
+    .string()
+    .optional()
+    .transform((val) => val === "1" || val === "true"),
+  facets: z
+    .string()
+    .optional()
+    .transform((val, ctx) => {
+      if (val) {
+        const facets = parseFacets(val);
+
+        if (!facets) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            message: "Invalid facets",
+          });
+
+          return z.NEVER;
+        }
+
+        return facets;
+      }
+    }),
 });
 
 router.get(
@@ -66,13 +129,26 @@ router.get(
     const {
       boostDocument,
       filterDocument,
+      highlightTags,
       scanRange: scanRangeRn,
       stopWords: stopWordsFn,
     } = search;
     const tenant = ctx.req.param("tenant") as string;
     const index = ctx.req.param("index");
-    const { term, tags, fields, limit, after, fuzzy, prefix, exact } =
-      ctx.req.valid("query" as never) as z.infer<typeof searchQuerySchema>;
+    const {
+      term,
+      tags,
+      fields,
+      limit,
+      after,
+      fuzzy,
+      prefix,
+      exact,
+      filter,
+      sort,
+      highlight,
+      facets,
+    } = ctx.req.valid("query" as never) as z.infer<typeof searchQuerySchema>;
     const scanRange =
       typeof scanRangeRn === "function"
         ? await scanRangeRn(ctx.req as unknown as Request)
@@ -91,6 +167,7 @@ router.get(
       score: number;
       terms: string[];
       match: MatchInfo;
+      highlights?: Highlights;
     }[] = [];
     const pagination: {
       hasNextPage: boolean;
@@ -101,38 +178,18 @@ router.get(
     };
 
     if (term) {
-      const cacheKey = getCacheKey(tenant, index);
-
-      if (tags?.length && tags.length > 0) {
-        const tagCacheKey = `${cacheKey}_tags_${tags.sort().join("_")}`;
-        const cachedDocuments = await cache.get(tagCacheKey);
-
-        if (cachedDocuments) {
-          documents = cachedDocuments;
-        } else {
-          documents = await storage.getDocumentsByTags(tags, {
-            tenant,
-            index,
-            limit: scanRange,
-          });
-
-          await cache.set(tagCacheKey, documents);
-        }
-      } else {
-        const cachedDocuments = await cache.get(cacheKey);
-
-        if (cachedDocuments) {
-          documents = cachedDocuments;
-        } else {
-          documents = await storage.getDocuments({
-            tenant,
-            index,
-            limit: scanRange,
-          });
-
-          await cache.set(cacheKey, documents);
-        }
-      }
+      documents = await getIndexedDocuments(storage, cache, {
+        tenant,
+        index,
+        term,
+        fields,
+        tags,
+        filter,
+        fuzzy,
+        prefix,
+        stopWords,
+        limit: scanRange,
+      });
 
       if (documents.length > 0) {
         const documentsMap = new Map<string, SearchDocument>(
@@ -185,6 +242,20 @@ router.get(
       }
     }
 
+    if (sort) {
+      results = sortResults(results, sort);
+    }
+
+    let facetResults: FacetResults | undefined;
+
+    // Facets are counted across every match, not just the current page
+    if (facets) {
+      facetResults = getFacets(
+        results.map((result) => result.document),
+        facets,
+      );
+    }
+
     const resultCount = results.length;
 
     if (resultCount > 0) {
@@ -208,7 +279,25 @@ router.get(
       pagination.endCursor = btoa(results[results.length - 1]?.id as string);
     }
 
-    return ctx.json({ status: 200, success: true, data: results, pagination });
+    // Only the current page is highlighted, as that's all that is returned
+    if (highlight) {
+      results = results.map((result) => ({
+        ...result,
+        highlights: getHighlights(
+          result.document.data,
+          result.match,
+          highlightTags,
+        ),
+      }));
+    }
+
+    return ctx.json({
+      status: 200,
+      success: true,
+      data: results,
+      pagination,
+      facets: facetResults,
+    });
   },
 );
 
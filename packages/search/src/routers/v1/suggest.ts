@@ -2,8 +2,10 @@ import { createRouter, validate } from "@workertown/internal-server";
 import MiniSearch, { type Suggestion } from "minisearch";
 import { z } from "zod";
 
+import { parseFilter } from "../../filter.js";
 import { type SearchDocument } from "../../storage/storage-adapter.js";
 import { type Context } from "../../types.js";
+import { getIndexedDocuments } from "../../utils.js";
 
 const router = createRouter<Context>();
 
@@ -52,6 +54,23 @@ const suggestQuerySchema = z.object({
     .string()
     .optional()
     .transform((val) => val === "1" || val === "true"),
+  filter: z
+    .string()
+    .optional()
+    .transform((val, ctx) => {
+      if (val) {
+        try {
+          return parseFilter(val);
+        } catch (error) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            message: (error as Error).message,
+          });
+
+          return z.NEVER;
+        }
+      }
+    }),
 });
 
 router.get(
@@ -60,6 +79,7 @@ router.get(
   async (ctx) => {
     const tenant = ctx.req.param("tenant") as string;
     const index = ctx.req.param("index");
+    const cache = ctx.get("cache");
     const storage = ctx.get("storage");
     const { search } = ctx.get("config");
     const {
@@ -68,9 +88,8 @@ router.get(
       scanRange: scanRangeFn,
       stopWords: stopWordsFn,
     } = search;
-    const { term, tags, fields, limit, fuzzy, prefix, exact } = ctx.req.valid(
-      "query" as never,
-    ) as z.infer<typeof suggestQuerySchema>;
+    const { term, tags, fields, limit, fuzzy, prefix, exact, filter } =
+      ctx.req.valid("query" as never) as z.infer<typeof suggestQuerySchema>;
     const scanRange =
       typeof scanRangeFn === "function"
         ? await scanRangeFn(ctx.req as unknown as Request)
@@ -85,19 +104,18 @@ router.get(
     let results: Suggestion[] = [];
 
     if (term) {
-      if (tags?.length && tags.length > 0) {
-        documents = await storage.getDocumentsByTags(tags, {
-          tenant,
-          index,
-          limit: scanRange,
-        });
-      } else {
-        documents = await storage.getDocuments({
-          tenant,
-          index,
-          limit: scanRange,
-        });
-      }
+      documents = await getIndexedDocuments(storage, cache, {
+        tenant,
+        index,
+        term,
+        fields,
+        tags,
+        filter,
+        fuzzy,
+        prefix,
+        stopWords,
+        limit: scanRange,
+      });
 
       if (documents.length > 0) {
         const documentsMap = new Map<string, SearchDocument>(
@@ -11,4 +11,13 @@ router.get("/", async (ctx) => {
   return ctx.json({ status: 200, success: true, data: tagRecords });
 });
 
+router.get("/:tenant/:index?", async (ctx) => {
+  const storage = ctx.get("storage");
+  const tenant = ctx.req.param("tenant") as string;
+  const index = ctx.req.param("index");
+  const tagCounts = await storage.getTagCounts({ tenant, index });
+
+  return ctx.json({ status: 200, success: true, data: tagCounts });
+});
+
 export { router };
@@ -4,7 +4,11 @@ import merge from "lodash.merge";
 
 import { type CacheAdapter } from "./cache/index.js";
 import { NoOpCacheAdapter } from "./cache/no-op.js";
-import { DEFAULT_SCAN_RANGE, DEFAUlT_STOP_WORDS } from "./constants.js";
+import {
+  DEFAULT_HIGHLIGHT_TAGS,
+  DEFAULT_SCAN_RANGE,
+  DEFAUlT_STOP_WORDS,
+} from "./constants.js";
 import { publicRouter, v1 } from "./routers/index.js";
 import { runtime as cloudflareWorkersRuntime } from "./runtime/cloudflare-workers.js";
 import { type StorageAdapter } from "./storage/storage-adapter.js";
@@ -49,6 +53,7 @@ const DEFAULT_OPTIONS: ServerOptions = {
     db: "SEARCH_DB",
   },
   search: {
+    highlightTags: DEFAULT_HIGHLIGHT_TAGS,
     scanRange: DEFAULT_SCAN_RANGE,
     stopWords: DEFAUlT_STOP_WORDS,
   },
@@ -0,0 +1,105 @@
+export type SortDirection = "asc" | "desc";
+
+export interface Sort {
+  // Either `score`, or a (dot separated) field path within the document data
+  field: "score" | `data.${string}`;
+  direction: SortDirection;
+}
+
+interface SortableResult {
+  score: number;
+  document: { data: Record<string, unknown> };
+}
+
+// Parses a `sort` query parameter, e.g. `data.price:asc,score:desc`, returning
+// `null` if any of the fields or directions are not valid. Fields sort
+// ascending by default, and `score` descending
+export function parseSort(value: string): Sort[] | null {
+  const sort: Sort[] = [];
+
+  for (const part of value.split(/,\s?/)) {
+    const [field, direction, ...rest] = part.split(":");
+
+    if (
+      rest.length > 0 ||
+      !field ||
+      (field !== "score" && !/^data\.[^.]+(\.[^.]+)*$/.test(field)) ||
+      (direction !== undefined && direction !== "asc" && direction !== "desc")
+    ) {
+      return null;
+    }
+
+    sort.push({
+      field: field as Sort["field"],
+      direction: direction ?? (field === "score" ? "desc" : "asc"),
+    });
+  }
+
+  return sort;
+}
+
+function getSortValue(result: SortableResult, field: Sort["field"]) {
+  if (field === "score") {
+    return result.score;
+  }
+
+  let value: unknown = result.document.data;
+
+  for (const key of field.slice("data.".length).split(".")) {
+    value =
+      typeof value === "object" && value !== null
+        ? (value as Record<string, unknown>)[key]
+        : undefined;
+  }
+
+  return typeof value === "string" ||
+    typeof value === "number" ||
+    typeof value === "boolean"
+    ? value
+    : null;
+}
+
+function compareValues(
+  a: string | number | boolean,
+  b: string | number | boolean,
+) {
+  if (typeof a !== typeof b) {
+    return typeof a < typeof b ? -1 : 1;
+  }
+
+  if (typeof a === "string") {
+    return a.localeCompare(b as string);
+  }
+
+  return Number(a) - Number(b);
+}
+
+// Sorts the results by each of the fields in turn, results with a missing (or
+// non-scalar) value always sort last, and ties keep their existing order
+export function sortResults<T extends SortableResult>(
+  results: T[],
+  sort: Sort[],
+) {
+  return [...results].sort((a, b) => {
+    for (const { field, direction } of sort) {
+      const aValue = getSortValue(a, field);
+      const bValue = getSortValue(b, field);
+
+      if (aValue === null || bValue === null) {
+        if (aValue !== bValue) {
+          return aValue === null ? 1 : -1;
+        }
+
+        continue;
+      }
+
+      const comparison = compareValues(aValue, bValue);
+
+      if (comparison !== 0) {
+        return direction === "asc" ? comparison : -comparison;
+      }
+    }
+
+    return 0;
+  });
+}
@@ -6,9 +6,20 @@ import {
 } from "@workertown/internal-storage";
 import { D1StorageAdapter as BaseD1StorageAdapter } from "@workertown/internal-storage/d1";
 
-import { DEFAULT_SORT_FIELD } from "../constants.js";
 import {
+  DEFAULT_SORT_FIELD,
+  DOCUMENTS_CHUNK_SIZE,
+  INDEX_TERMS_CHUNK_SIZE,
+} from "../constants.js";
+import { getSqliteFilter } from "../filter.js";
+import { getDocumentTerms, getTermWeights } from "../utils.js";
+import {
+  type BulkUpsertSearchDocumentBody,
+  type DeleteDocumentsOptions,
+  type GetDocumentsByTermsOptions,
   type GetDocumentsOptions,
+  type GetTagCountsOptions,
+  type GetTermsOptions,
   type SearchDocument,
   type StorageAdapter,
   type UpsertSearchDocumentBody,
@@ -30,9 +41,49 @@ interface SearchTagTable {
   search_document_id: string;
 }
 
+interface SearchTermTable {
+  tenant: string;
+  index: string;
+  term: string;
+  field: string;
+  search_document_id: string;
+}
+
 export interface DatabaseSchema {
   wt_search_documents: SearchDocumentTable;
   wt_search_tags: SearchTagTable;
+  wt_search_terms: SearchTermTable;
+}
+
+function getTermRows(document: UpsertSearchDocumentBody) {
+  return getDocumentTerms(document.data).map(({ field, term }) => ({
+    tenant: document.tenant,
+    index: document.index,
+    term,
+    field,
+    search_document_id: document.id,
+  }));
+}
+
+// The weights of the terms as a derived table to join on. The terms are bound as
+// parameters (as `sql.lit()` doesn't escape strings), only the weights are
+// inlined
+function getWeightsTable(weights: Map<string, number>) {
+  return sql<{ term: string; weight: number }>`(${sql.join(
+    Array.from(weights.entries()).map(
+      ([term, weight]) =>
+        sql`select ${term} as term, ${sql.lit(weight)} as weight`,
+    ),
+    sql` union all `,
+  )})`.as("wt_search_weights");
+}
+
+// The first string that sorts after every string that starts with the prefix,
+// so that prefix scans can use the index (`LIKE` is case insensitive in SQLite)
+function getPrefixUpperBound(prefix: string) {
+  return `${prefix.slice(0, -1)}${String.fromCharCode(
+    prefix.charCodeAt(prefix.length - 1) + 1,
+  )}`;
 }
 
 const MIGRATIONS: Migrations = [
@@ -115,6 +166,84 @@ const MIGRATIONS: Migrations = [
       },
     },
   },
+  {
+    name: "1792348637418_add_terms_table_and_indexes",
+    migration: {
+      async up(db) {
+        await db.schema
+          .createTable("wt_search_terms")
+          .ifNotExists()
+          .addColumn("tenant", "text", (col) => col.notNull())
+          .addColumn("index", "text", (col) => col.notNull())
+          .addColumn("term", "text", (col) => col.notNull())
+          .addColumn("field", "text", (col) => col.notNull())
+          .addColumn("search_document_id", "text", (col) => col.notNull())
+          .execute();
+
+        await db.schema
+          .createIndex("wt_search_terms_tenant_term_idx")
+          .ifNotExists()
+          .on("wt_search_terms")
+          .columns(["tenant", "term", "index"])
+          .execute();
+
+        await db.schema
+          .createIndex("wt_search_terms_search_document_id_idx")
+          .ifNotExists()
+          .on("wt_search_terms")
+          .columns(["search_document_id"])
+          .execute();
+
+        // Backfill the index for any documents written before it existed
+        let after = "";
+
+        while (true) {
+          const documents = await db
+            .selectFrom("wt_search_documents")
+            .select(["id", "tenant", "index", "data"])
+            .where("id", ">", after)
+            .orderBy("id", "asc")
+            .limit(100)
+            .execute();
+
+          for (const document of documents) {
+            const rows = getTermRows({
+              ...document,
+              data: JSON.parse(document.data),
+            });
+
+            for (let i = 0; i < rows.length; i += INDEX_TERMS_CHUNK_SIZE) {
+              await db
+                .insertInto("wt_search_terms")
+                .values(rows.slice(i, i + INDEX_TERMS_CHUNK_SIZE))
+                .execute();
+            }
+          }
+
+          const last = documents[documents.length - 1];
+
+          if (!last || documents.length < 100) {
+            break;
+          }
+
+          after = last.id;
+        }
+      },
+      async down(db) {
+        await db.schema
+          .dropIndex("wt_search_terms_search_document_id_idx")
+          .ifExists()
+          .execute();
+
+        await db.schema
+          .dropIndex("wt_search_terms_tenant_term_idx")
+          .ifExists()
+          .execute();
+
+        await db.schema.dropTable("wt_search_terms").ifExists().execute();
+      },
+    },
+  },
 ];
 
 export class D1StorageAdapter
@@ -206,6 +335,156 @@ export class D1StorageAdapter
     );
   }
 
+  public async getDocumentsByTerms(
+    terms: string[],
+    options: GetDocumentsByTermsOptions,
+  ) {
+    const weights = await this._getTermWeights(terms, options);
+
+    if (weights.size === 0) {
+      return [];
+    }
+
+    let query = this.client
+      .selectFrom("wt_search_terms")
+      .innerJoin(
+        "wt_search_documents",
+        "wt_search_documents.id",
+        "wt_search_terms.search_document_id",
+      )
+      .innerJoin(getWeightsTable(weights), (join) =>
+        join.onRef("wt_search_weights.term", "=", "wt_search_terms.term"),
+      )
+      .where("wt_search_terms.tenant", "=", options.tenant);
+
+    if (options.index) {
+      query = query.where("wt_search_terms.index", "=", options.index);
+    }
+
+    if (options.fields?.length) {
+      query = query.where("wt_search_terms.field", "in", options.fields);
+    }
+
+    if (options.tags?.length) {
+      query = query.where(
+        "wt_search_documents.id",
+        "in",
+        this.client
+          .selectFrom("wt_search_tags")
+          .select("search_document_id")
+          .where("tag", "in", options.tags)
+          .groupBy("search_document_id")
+          .having((eb) => eb.fn.countAll(), "=", options.tags.length),
+      );
+    }
+
+    if (options.filter) {
+      query = query.where(
+        getSqliteFilter(options.filter, "wt_search_documents.data"),
+      );
+    }
+
+    const records = await query
+      .select([
+        "wt_search_documents.id as id",
+        "wt_search_documents.tenant",
+        "wt_search_documents.index",
+        "wt_search_documents.data",
+        "wt_search_documents.created_at",
+        "wt_search_documents.updated_at",
+        sql<string>`(select group_concat(wt_search_tags.tag, ',') from wt_search_tags where wt_search_tags.search_document_id = wt_search_documents.id)`.as(
+          "tags",
+        ),
+        // A term counts once per field that it's found in, as it does when
+        // MiniSearch scores the candidates
+        sql<number>`sum(wt_search_weights.weight)`.as("score"),
+      ])
+      .groupBy("id")
+      .orderBy("score", "desc")
+      .orderBy("wt_search_documents.updated_at", "desc")
+      .orderBy("wt_search_documents.id", "asc")
+      .limit(options.limit)
+      .offset(options.offset ?? 0)
+      .execute();
+
+    return records.map((record) => this._formatDocument(record));
+  }
+
+  private async _getTermWeights(
+    terms: string[],
+    options: GetDocumentsByTermsOptions,
+  ) {
+    let query = this.client
+      .selectFrom("wt_search_terms")
+      .where("tenant", "=", options.tenant)
+      .where("term", "in", terms);
+
+    if (options.index) {
+      query = query.where("index", "=", options.index);
+    }
+
+    if (options.fields?.length) {
+      query = query.where("field", "in", options.fields);
+    }
+
+    const [counts, total] = await Promise.all([
+      query
+        .select([
+          "term",
+          sql<number>`count(distinct search_document_id)`.as("count"),
+        ])
+        .groupBy("term")
+        .execute(),
+      query
+        .select(sql<number>`count(distinct search_document_id)`.as("count"))
+        .executeTakeFirst(),
+    ]);
+
+    return getTermWeights(counts, Number(total?.count ?? 0));
+  }
+
+  public async getTerms(options: GetTermsOptions) {
+    let query = this.client
+      .selectFrom("wt_search_terms")
+      .select("term")
+      .distinct()
+      .where("tenant", "=", options.tenant);
+
+    if (options.index) {
+      query = query.where("index", "=", options.index);
+    }
+
+    if (options.prefix) {
+      query = query
+        .where("term", ">=", options.prefix)
+        .where("term", "<", getPrefixUpperBound(options.prefix));
+    }
+
+    const terms = await query.execute();
+
+    return terms.map(({ term }) => term);
+  }
+
+  private async _indexDocuments(documents: UpsertSearchDocumentBody[]) {
+    const rows = documents.flatMap((document) => getTermRows(document));
+
+    await this.client
+      .deleteFrom("wt_search_terms")
+      .where(
+        "search_document_id",
+        "in",
+        documents.map((document) => document.id),
+      )
+      .execute();
+
+    for (let i = 0; i < rows.length; i += INDEX_TERMS_CHUNK_SIZE) {
+      await this.client
+        .insertInto("wt_search_terms")
+        .values(rows.slice(i, i + INDEX_TERMS_CHUNK_SIZE))
+        .execute();
+    }
+  }
+
   public async getDocument(id: string) {
     const result = await this.client
       .selectFrom("wt_search_documents")
@@ -270,6 +549,8 @@ export class D1StorageAdapter
         .execute();
     }
 
+    await this._indexDocuments([document]);
+
     if (tags.length > 0) {
       const existingTags = await this.client
         .selectFrom("wt_search_tags")
@@ -312,6 +593,144 @@ export class D1StorageAdapter
     };
   }
 
+  public async bulkUpsertDocuments(documents: BulkUpsertSearchDocumentBody[]) {
+    const now = new Date();
+    const results: SearchDocument[] = [];
+
+    for (let i = 0; i < documents.length; i += DOCUMENTS_CHUNK_SIZE) {
+      const chunk = documents.slice(i, i + DOCUMENTS_CHUNK_SIZE);
+      const existing = await this.client
+        .selectFrom("wt_search_documents")
+        .select([
+          "id",
+          "created_at",
+          sql<string>`(select group_concat(wt_search_tags.tag, ',') from wt_search_tags where wt_search_tags.search_document_id = wt_search_documents.id)`.as(
+            "tags",
+          ),
+        ])
+        .where(
+          "id",
+          "in",
+          chunk.map((document) => document.id),
+        )
+        .execute();
+      const existingMap = new Map(existing.map((row) => [row.id, row]));
+
+      await this.client
+        .insertInto("wt_search_documents")
+        .values(
+          chunk.map((document) => ({
+            id: document.id,
+            tenant: document.tenant,
+            index: document.index,
+            data: JSON.stringify(document.data),
+            created_at: now.getTime(),
+            updated_at: now.getTime(),
+          })),
+        )
+        .onConflict((oc) =>
+          oc.column("id").doUpdateSet((eb) => ({
+            tenant: eb.ref("excluded.tenant"),
+            index: eb.ref("excluded.index"),
+            data: eb.ref("excluded.data"),
+            updated_at: eb.ref("excluded.updated_at"),
+          })),
+        )
+        .execute();
+
+      const tagged = chunk.filter((document) => document.tags !== undefined);
+
+      if (tagged.length > 0) {
+        const tagRows = tagged.flatMap((document) =>
+          (document.tags ?? []).map((tag) => ({
+            tag,
+            search_document_id: document.id,
+          })),
+        );
+
+        await this.client
+          .deleteFrom("wt_search_tags")
+          .where(
+            "search_document_id",
+            "in",
+            tagged.map((document) => document.id),
+          )
+          .execute();
+
+        for (let j = 0; j < tagRows.length; j += INDEX_TERMS_CHUNK_SIZE) {
+          await this.client
+            .insertInto("wt_search_tags")
+            .values(tagRows.slice(j, j + INDEX_TERMS_CHUNK_SIZE))
+            .execute();
+        }
+      }
+
+      await this._indexDocuments(chunk);
+
+      chunk.forEach(({ tags, ...document }) => {
+        const existingDocument = existingMap.get(document.id);
+
+        results.push({
+          ...document,
+          tags:
+            tags ??
+            (existingDocument?.tags ? existingDocument.tags.split(",") : []),
+          createdAt: existingDocument
+            ? new Date(existingDocument.created_at)
+            : now,
+          updatedAt: now,
+        });
+      });
+    }
+
+    return results;
+  }
+
+  public async deleteDocuments(options: DeleteDocumentsOptions) {
+    let query = this.client
+      .selectFrom("wt_search_documents")
+      .select("id")
+      .where("tenant", "=", options.tenant);
+
+    if (options.index) {
+      query = query.where("index", "=", options.index);
+    }
+
+    if (options.tags?.length) {
+      query = query.where(
+        "id",
+        "in",
+        this.client
+          .selectFrom("wt_search_tags")
+          .select("search_document_id")
+          .where("tag", "in", options.tags)
+          .groupBy("search_document_id")
+          .having((eb) => eb.fn.countAll(), "=", options.tags.length),
+      );
+    }
+
+    const ids = (await query.execute()).map(({ id }) => id);
+
+    for (let i = 0; i < ids.length; i += DOCUMENTS_CHUNK_SIZE) {
+      const chunk = ids.slice(i, i + DOCUMENTS_CHUNK_SIZE);
+
+      await this.client
+        .deleteFrom("wt_search_documents")
+        .where("id", "in", chunk)
+        .execute();
+      await this.client
+        .deleteFrom("wt_search_tags")
+        .where("search_document_id", "in", chunk)
+        .execute();
+      await this.client
+        .deleteFrom("wt_search_terms")
+        .where("search_document_id", "in", chunk)
+        .execute();
+    }
+
+    return ids.length;
+  }
+
   public async deleteDocument(id: string) {
     await this.client
       .deleteFrom("wt_search_documents")
@@ -321,6 +740,10 @@ export class D1StorageAdapter
       .deleteFrom("wt_search_tags")
       .where("search_document_id", "=", id)
       .execute();
+    await this.client
+      .deleteFrom("wt_search_terms")
+      .where("search_document_id", "=", id)
+      .execute();
   }
 
   public async getTags() {
@@ -332,4 +755,28 @@ export class D1StorageAdapter
 
     return tags.map(({ tag }) => tag);
   }
+
+  public async getTagCounts(options: GetTagCountsOptions) {
+    let query = this.client
+      .selectFrom("wt_search_tags")
+      .innerJoin(
+        "wt_search_documents",
+        "wt_search_documents.id",
+        "wt_search_tags.search_document_id",
+      )
+      .where("wt_search_documents.tenant", "=", options.tenant);
+
+    if (options.index) {
+      query = query.where("wt_search_documents.index", "=", options.index);
+    }
+
+    const counts = await query
+      .select(["wt_search_tags.tag", (eb) => eb.fn.countAll().as("count")])
+      .groupBy("wt_search_tags.tag")
+      .orderBy("count", "desc")
+      .orderBy("wt_search_tags.tag", "asc")
+      .execute();
+
+    return counts.map(({ tag, count }) => ({ tag, count: Number(count) }));
+  }
 }
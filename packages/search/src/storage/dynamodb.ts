@@ -1,7 +1,11 @@
+import { DescribeTableCommand } from "@aws-sdk/client-dynamodb";
 import {
   DeleteCommand,
   GetCommand,
+  PutCommand,
   QueryCommand,
+  type QueryCommandInput,
+  ScanCommand,
   UpdateCommand,
 } from "@aws-sdk/lib-dynamodb";
 import {
@@ -10,8 +14,16 @@ import {
   type DynamoDBTableOptions,
 } from "@workertown/internal-storage/dynamodb";
 
+import { DOCUMENTS_CHUNK_SIZE } from "../constants.js";
+import { matchesFilter } from "../filter.js";
+import { getDocumentTerms, getTermWeights } from "../utils.js";
 import {
+  type BulkUpsertSearchDocumentBody,
+  type DeleteDocumentsOptions,
+  type GetDocumentsByTermsOptions,
   type GetDocumentsOptions,
+  type GetTagCountsOptions,
+  type GetTermsOptions,
   type SearchDocument,
   type StorageAdapter,
   type UpsertSearchDocumentBody,
@@ -40,6 +52,20 @@ interface SearchDocumentItem {
   tags: string[];
 }
 
+interface SearchTermItem {
+  // Tracks the documents that contain a term in the tenant
+  pk: string;
+  // The document ID and the field that the term was found in
+  sk: string;
+  term: string;
+  index: string;
+  field: string;
+  documentId: string;
+  // When the document was last updated, so that the candidates for a search can
+  // be ranked without reading them
+  updatedAt: string;
+}
+
 type DynamoDBStorageAdapterOptions = Omit<
   BaseDynamoDBStorageAdapterOptions,
   "table" | "options"
@@ -81,6 +107,85 @@ export class DynamoDBStorageAdapter
     };
   }
 
+  private _getTermItems(
+    document: UpsertSearchDocumentBody,
+    updatedAt: Date,
+  ): SearchTermItem[] {
+    return getDocumentTerms(document.data).map(({ field, term }) => ({
+      pk: this._getPrimaryKey("term", `${document.tenant}#${term}`),
+      sk: `${document.id}#${field}`,
+      term,
+      index: document.index,
+      field,
+      documentId: document.id,
+      updatedAt: updatedAt.toISOString(),
+    }));
+  }
+
+  private async _queryAll(input: QueryCommandInput) {
+    const items: Record<string, unknown>[] = [];
+    let exclusiveStartKey: Record<string, unknown> | undefined;
+
+    do {
+      const result = await this.client.send(
+        new QueryCommand({ ...input, ExclusiveStartKey: exclusiveStartKey }),
+      );
+
+      items.push(...(result.Items ?? []));
+
+      exclusiveStartKey = result.LastEvaluatedKey;
+    } while (exclusiveStartKey);
+
+    return items;
+  }
+
+  private async _updateTermCounts(
+    tenant: string,
+    added: SearchTermItem[],
+    removed: SearchTermItem[],
+  ) {
+    await Promise.all([
+      ...added.map((item) =>
+        this.client.send(
+          new UpdateCommand({
+            TableName: this.table,
+            Key: {
+              pk: this._getPrimaryKey("terms", tenant),
+              sk: item.term,
+            },
+            UpdateExpression:
+              "SET #count = if_not_exists(#count, :zero) + :inc",
+            ExpressionAttributeNames: {
+              "#count": "count",
+            },
+            ExpressionAttributeValues: {
+              ":inc": 1,
+              ":zero": 0,
+            },
+          }),
+        ),
+      ),
+      ...removed.map((item) =>
+        this.client.send(
+          new UpdateCommand({
+            TableName: this.table,
+            Key: {
+              pk: this._getPrimaryKey("terms", tenant),
+              sk: item.term,
+            },
+            UpdateExpression: "SET #count = if_not_exists(#count, :inc) - :inc",
+            ExpressionAttributeNames: {
+              "#count": "count",
+            },
+            ExpressionAttributeValues: {
+              ":inc": 1,
+            },
+          }),
+        ),
+      ),
+    ]);
+  }
+
   public async getDocuments(options: GetDocumentsOptions) {
     const gsi = options.index ? 2 : 1;
     const key = this._getPrimaryKey(options.tenant, options.index);
@@ -153,6 +258,163 @@ export class DynamoDBStorageAdapter
     );
   }
 
+  // The candidates are ranked from the term items alone, so that only as many
+  // documents are read as it takes to fill the page
+  public async getDocumentsByTerms(
+    terms: string[],
+    options: GetDocumentsByTermsOptions,
+  ) {
+    const { offset = 0, limit } = options;
+    // The number of fields each term is found in, per candidate
+    const candidates = new Map<
+      string,
+      { updatedAt: string; matches: Map<string, number> }
+    >();
+    const filters: string[] = [];
+    const expressionAttributeNames: Record<string, string> = {
+      "#pk": "pk",
+      "#documentId": "documentId",
+      "#updatedAt": "updatedAt",
+    };
+    const expressionAttributeValues: Record<string, unknown> = {};
+
+    if (options.index) {
+      filters.push("#index = :index");
+      expressionAttributeNames["#index"] = "index";
+      expressionAttributeValues[":index"] = options.index;
+    }
+
+    if (options.fields?.length) {
+      filters.push(
+        `#field IN (${options.fields.map((_, i) => `:field_${i + 1}`)})`,
+      );
+      expressionAttributeNames["#field"] = "field";
+      options.fields.forEach((field, i) => {
+        expressionAttributeValues[`:field_${i + 1}`] = field;
+      });
+    }
+
+    await Promise.all(
+      terms.map(async (term) => {
+        const items = await this._queryAll({
+          TableName: this.table,
+          Select: "SPECIFIC_ATTRIBUTES",
+          ProjectionExpression: "#documentId, #updatedAt",
+          KeyConditionExpression: "#pk = :pk",
+          FilterExpression: filters.length ? filters.join(" AND ") : undefined,
+          ExpressionAttributeNames: expressionAttributeNames,
+          ExpressionAttributeValues: {
+            ...expressionAttributeValues,
+            ":pk": this._getPrimaryKey("term", `${options.tenant}#${term}`),
+          },
+        });
+
+        items.forEach((item) => {
+          const { documentId, updatedAt = "" } =
+            item as unknown as SearchTermItem;
+
+          if (!candidates.has(documentId)) {
+            candidates.set(documentId, { updatedAt, matches: new Map() });
+          }
+
+          const { matches } = candidates.get(documentId) as {
+            matches: Map<string, number>;
+          };
+
+          matches.set(term, (matches.get(term) ?? 0) + 1);
+        });
+      }),
+    );
+
+    const weights = getTermWeights(
+      terms.map((term) => ({
+        term,
+        count: Array.from(candidates.values()).filter(({ matches }) =>
+          matches.has(term),
+        ).length,
+      })),
+      candidates.size,
+    );
+    const ranked = Array.from(candidates.entries())
+      .map(([id, { updatedAt, matches }]) => ({
+        id,
+        updatedAt,
+        score: Array.from(matches.entries()).reduce(
+          (score, [term, count]) => score + (weights.get(term) ?? 0) * count,
+          0,
+        ),
+      }))
+      .sort((a, b) => {
+        if (a.score !== b.score) {
+          return b.score - a.score;
+        }
+
+        if (a.updatedAt !== b.updatedAt) {
+          return a.updatedAt < b.updatedAt ? 1 : -1;
+        }
+
+        return a.id < b.id ? -1 : 1;
+      });
+    const documents: SearchDocument[] = [];
+    let skipped = 0;
+
+    for (
+      let i = 0;
+      i < ranked.length && documents.length < limit;
+      i += DOCUMENTS_CHUNK_SIZE
+    ) {
+      const chunk = await Promise.all(
+        ranked
+          .slice(i, i + DOCUMENTS_CHUNK_SIZE)
+          .map(({ id }) => this.getDocument(id)),
+      );
+
+      for (const document of chunk) {
+        if (
+          document === null ||
+          (options.tags?.length &&
+            !options.tags.every((tag) => document.tags.includes(tag))) ||
+          (options.filter && !matchesFilter(document, options.filter))
+        ) {
+          continue;
+        }
+
+        if (skipped < offset) {
+          skipped++;
+        } else if (documents.length < limit) {
+          documents.push(document);
+        }
+      }
+    }
+
+    return documents;
+  }
+
+  // The terms are tracked across the whole tenant, so the index is ignored and
+  // the result may include terms from other indexes
+  public async getTerms(options: GetTermsOptions) {
+    const items = await this._queryAll({
+      TableName: this.table,
+      Select: "ALL_ATTRIBUTES",
+      KeyConditionExpression: options.prefix
+        ? "#pk = :pk AND begins_with(#sk, :prefix)"
+        : "#pk = :pk",
+      FilterExpression: "#count > :zero",
+      ExpressionAttributeNames: {
+        "#pk": "pk",
+        "#count": "count",
+        ...(options.prefix ? { "#sk": "sk" } : {}),
+      },
+      ExpressionAttributeValues: {
+        ":pk": this._getPrimaryKey("terms", options.tenant),
+        ":zero": 0,
+        ...(options.prefix ? { ":prefix": options.prefix } : {}),
+      },
+    });
+
+    return items.map((item) => item.sk as string);
+  }
+
   public async getDocument(id: string) {
     const result = await this.client.send(
       new GetCommand({
@@ -258,6 +520,52 @@ export class DynamoDBStorageAdapter
       ),
     ]);
 
+    const existingTermItems = existing
+      ? this._getTermItems(existing, existing.updatedAt)
+      : [];
+    const termItems = this._getTermItems(item, now);
+    const existingTermKeys = new Set(
+      existingTermItems.map(({ pk, sk }) => `${pk}|${sk}`),
+    );
+    const termKeys = new Set(termItems.map(({ pk, sk }) => `${pk}|${sk}`));
+    const termItemsToAdd = termItems.filter(
+      ({ pk, sk }) => !existingTermKeys.has(`${pk}|${sk}`),
+    );
+    const termItemsToRemove = existingTermItems.filter(
+      ({ pk, sk }) => !termKeys.has(`${pk}|${sk}`),
+    );
+
+    // Every term item is re-written in case the document changed index
+    await Promise.all([
+      ...termItems.map((termItem) =>
+        this.client.send(
+          new PutCommand({
+            TableName: this.table,
+            Item: termItem,
+          }),
+        ),
+      ),
+      ...termItemsToRemove.map(({ pk, sk }) =>
+        this.client.send(
+          new DeleteCommand({
+            TableName: this.table,
+            Key: { pk, sk },
+          }),
+        ),
+      ),
+    ]);
+
+    if (existing && existing.tenant !== item.tenant) {
+      await this._updateTermCounts(existing.tenant, [], termItemsToRemove);
+      await this._updateTermCounts(item.tenant, termItemsToAdd, []);
+    } else {
+      await this._updateTermCounts(
+        item.tenant,
+        termItemsToAdd,
+        termItemsToRemove,
+      );
+    }
+
     return {
       id: newItem.id as string,
       tenant: newItem.tenant as string,
@@ -269,7 +577,76 @@ export class DynamoDBStorageAdapter
     };
   }
 
+  public async bulkUpsertDocuments(documents: BulkUpsertSearchDocumentBody[]) {
+    const results: SearchDocument[] = [];
+
+    for (let i = 0; i < documents.length; i += DOCUMENTS_CHUNK_SIZE) {
+      const chunk = documents.slice(i, i + DOCUMENTS_CHUNK_SIZE);
+
+      results.push(
+        ...(await Promise.all(
+          chunk.map(async ({ tags, ...document }) => {
+            const existingTags =
+              tags === undefined
+                ? (await this.getDocument(document.id))?.tags
+                : undefined;
+
+            return this.upsertDocument(document, tags ?? existingTags ?? []);
+          }),
+        )),
+      );
+    }
+
+    return results;
+  }
+
+  public async deleteDocuments(options: DeleteDocumentsOptions) {
+    const gsi = options.index ? 2 : 1;
+    const expressionAttributeNames: Record<string, string> = {
+      "#pk": this.getGsiKey(gsi, "pk"),
+    };
+    const expressionAttributeValues: Record<string, unknown> = {
+      ":pk": this._getPrimaryKey(options.tenant, options.index),
+    };
+
+    if (options.tags?.length) {
+      expressionAttributeNames["#tags"] = "tags";
+      options.tags.forEach((tag, i) => {
+        expressionAttributeValues[`:tag_${i + 1}`] = tag;
+      });
+    }
+
+    const items = await this._queryAll({
+      TableName: this.table,
+      IndexName: this.getGsiName(gsi),
+      Select: "ALL_ATTRIBUTES",
+      KeyConditionExpression: "#pk = :pk",
+      FilterExpression: options.tags?.length
+        ? options.tags
+            .map((_, i) => `contains (#tags, :tag_${i + 1})`)
+            .join(" AND ")
+        : undefined,
+      ExpressionAttributeNames: expressionAttributeNames,
+      ExpressionAttributeValues: expressionAttributeValues,
+    });
+    const ids = items.map(
+      (item) => (item as unknown as SearchDocumentItem).data.id,
+    );
+
+    for (let i = 0; i < ids.length; i += DOCUMENTS_CHUNK_SIZE) {
+      await Promise.all(
+        ids
+          .slice(i, i + DOCUMENTS_CHUNK_SIZE)
+          .map((id) => this.deleteDocument(id)),
+      );
+    }
+
+    return ids.length;
+  }
+
   public async deleteDocument(id: string) {
+    const existing = await this.getDocument(id);
+
     await this.client.send(
       new DeleteCommand({
         TableName: this.table,
@@ -279,6 +656,22 @@ export class DynamoDBStorageAdapter
         },
       }),
     );
+
+    if (existing) {
+      const termItems = this._getTermItems(existing, existing.updatedAt);
+
+      await Promise.all(
+        termItems.map(({ pk, sk }) =>
+          this.client.send(
+            new DeleteCommand({
+              TableName: this.table,
+              Key: { pk, sk },
+            }),
+          ),
+        ),
+      );
+      await this._updateTermCounts(existing.tenant, [], termItems);
+    }
   }
 
   public async getTags() {
@@ -301,4 +694,154 @@ export class DynamoDBStorageAdapter
 
     return tags.Items?.map((item) => item.sk as string) ?? [];
   }
+
+  // Tags are only counted globally, so the documents in the tenant (or index)
+  // are read to count them
+  public async getTagCounts(options: GetTagCountsOptions) {
+    const gsi = options.index ? 2 : 1;
+    const items = await this._queryAll({
+      TableName: this.table,
+      IndexName: this.getGsiName(gsi),
+      Select: "ALL_ATTRIBUTES",
+      KeyConditionExpression: "#pk = :pk",
+      ExpressionAttributeNames: {
+        "#pk": this.getGsiKey(gsi, "pk"),
+      },
+      ExpressionAttributeValues: {
+        ":pk": this._getPrimaryKey(options.tenant, options.index),
+      },
+    });
+    const counts = new Map<string, number>();
+
+    items.forEach((item) => {
+      (item as unknown as SearchDocumentItem).tags.forEach((tag) => {
+        counts.set(tag, (counts.get(tag) ?? 0) + 1);
+      });
+    });
+
+    return Array.from(counts.entries())
+      .map(([tag, count]) => ({ tag, count }))
+      .sort((a, b) =>
+        a.count !== b.count ? b.count - a.count : a.tag.localeCompare(b.tag),
+      );
+  }
+
+  // The documents written before the terms were indexed are indexed (and the
+  // terms counted) on the first run of the migrations after upgrading. The
+  // counts are set rather than incremented, so that a run that failed part way
+  // through can safely be repeated
+  public async runMigrations(down = false) {
+    let exists = false;
+
+    if (!down) {
+      try {
+        await this.client.send(
+          new DescribeTableCommand({ TableName: this.table }),
+        );
+
+        exists = true;
+      } catch (_) {}
+    }
+
+    const result = await super.runMigrations(down);
+
+    if (exists) {
+      await this._indexExistingDocuments();
+    }
+
+    return result;
+  }
+
+  private async _indexExistingDocuments() {
+    const key = { pk: this._getPrimaryKey("migrations"), sk: "terms" };
+    const migration = await this.client.send(
+      new GetCommand({ TableName: this.table, Key: key }),
+    );
+
+    if (migration.Item) {
+      return;
+    }
+
+    const counts = new Map<string, Map<string, number>>();
+    let exclusiveStartKey: Record<string, unknown> | undefined;
+
+    do {
+      const result = await this.client.send(
+        new ScanCommand({
+          TableName: this.table,
+          FilterExpression: "attribute_exists(#gsi1pk)",
+          ExpressionAttributeNames: {
+            "#gsi1pk": this.getGsiKey(1, "pk"),
+          },
+          ExclusiveStartKey: exclusiveStartKey,
+        }),
+      );
+      const documents = (result.Items ?? []).map((item) =>
+        this._formatDocument(item as unknown as SearchDocumentItem),
+      );
+      const termItems = documents.flatMap((document) => {
+        const documentTermItems = this._getTermItems(
+          document,
+          document.updatedAt,
+        );
+
+        if (!counts.has(document.tenant)) {
+          counts.set(document.tenant, new Map<string, number>());
+        }
+
+        const tenantCounts = counts.get(document.tenant) as Map<string, number>;
+
+        documentTermItems.forEach(({ term }) => {
+          tenantCounts.set(term, (tenantCounts.get(term) ?? 0) + 1);
+        });
+
+        return documentTermItems;
+      });
+
+      for (let i = 0; i < termItems.length; i += DOCUMENTS_CHUNK_SIZE) {
+        await Promise.all(
+          termItems
+            .slice(i, i + DOCUMENTS_CHUNK_SIZE)
+            .map((termItem) =>
+              this.client.send(
+                new PutCommand({ TableName: this.table, Item: termItem }),
+              ),
+            ),
+        );
+      }
+
+      exclusiveStartKey = result.LastEvaluatedKey;
+    } while (exclusiveStartKey);
+
+    const updates = Array.from(counts.entries()).flatMap(
+      ([tenant, tenantCounts]) =>
+        Array.from(tenantCounts.entries()).map(([term, count]) => ({
+          tenant,
+          term,
+          count,
+        })),
+    );
+
+    for (let i = 0; i < updates.length; i += DOCUMENTS_CHUNK_SIZE) {
+      await Promise.all(
+        updates
+          .slice(i, i + DOCUMENTS_CHUNK_SIZE)
+          .map(({ tenant, term, count }) =>
+            this.client.send(
+              new UpdateCommand({
+                TableName: this.table,
+                Key: { pk: this._getPrimaryKey("terms", tenant), sk: term },
+                UpdateExpression: "SET #count = :count",
+                ExpressionAttributeNames: { "#count": "count" },
+                ExpressionAttributeValues: { ":count": count },
+              }),
+            ),
+          ),
+      );
+    }
+
+    await this.client.send(
+      new PutCommand({ TableName: this.table, Item: key }),
+    );
+  }
 }
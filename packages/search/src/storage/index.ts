@@ -1,13 +1,27 @@
 import {
+  type BulkUpsertSearchDocumentBody,
+  type DeleteDocumentsOptions,
+  type DocumentTerm,
+  type GetDocumentsByTermsOptions,
   type GetDocumentsOptions,
+  type GetTagCountsOptions,
+  type GetTermsOptions,
   type SearchDocument,
   StorageAdapter,
+  type TagCount,
   type UpsertSearchDocumentBody,
 } from "./storage-adapter.js";
 
 export {
   StorageAdapter,
+  type BulkUpsertSearchDocumentBody,
+  type DeleteDocumentsOptions,
+  type DocumentTerm,
+  type GetDocumentsByTermsOptions,
   type GetDocumentsOptions,
+  type GetTagCountsOptions,
+  type GetTermsOptions,
+  type TagCount,
   type UpsertSearchDocumentBody,
   type SearchDocument,
 };
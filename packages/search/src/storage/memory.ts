@@ -1,9 +1,18 @@
 import { MemoryStorageAdapter as BaseMemoryStorageAdapter } from "@workertown/internal-storage/memory";
 
+import { matchesFilter } from "../filter.js";
+import { getDocumentTerms, getTermWeights } from "../utils.js";
 import {
+  type BulkUpsertSearchDocumentBody,
+  type DeleteDocumentsOptions,
+  type DocumentTerm,
+  type GetDocumentsByTermsOptions,
   type GetDocumentsOptions,
+  type GetTagCountsOptions,
+  type GetTermsOptions,
   type SearchDocument,
   type StorageAdapter,
+  type TagCount,
   type UpsertSearchDocumentBody,
 } from "./storage-adapter.js";
 
@@ -29,6 +38,10 @@ export class MemoryStorageAdapter
 
   private readonly _deleted = new Set<string>();
 
+  private readonly _terms = new Map<string, Set<string>>();
+
+  private readonly _documentTerms = new Map<string, DocumentTerm[]>();
+
   constructor(options: MemoryStorageAdapterOptions = {}) {
     super();
 
@@ -67,6 +80,32 @@ export class MemoryStorageAdapter
       `${document.updatedAt.getTime()}_${document.id}`,
       document.id,
     );
+
+    this._indexDocument(document);
+  }
+
+  private _indexDocument(document: Omit<SearchDocument, "tags">) {
+    this._documentTerms.get(document.id)?.forEach(({ term }) => {
+      this._terms.get(term)?.delete(document.id);
+    });
+
+    const terms = getDocumentTerms(document.data);
+
+    terms.forEach(({ term }) => {
+      if (!this._terms.has(term)) {
+        this._terms.set(term, new Set<string>());
+      }
+
+      this._terms.get(term)?.add(document.id);
+    });
+
+    this._documentTerms.set(document.id, terms);
+  }
+
+  private _getDocumentTags(id: string) {
+    return Array.from(this._tags.entries())
+      .filter(([, ids]) => ids.has(id))
+      .map(([tag]) => tag);
   }
 
   private _getSortedDocuments() {
@@ -104,7 +143,7 @@ export class MemoryStorageAdapter
         if (document && index !== -1) {
           bucket[index] = {
             ...document,
-            tags: Array.from(this._tags.get(id) ?? []),
+            tags: this._getDocumentTags(id),
           };
         }
       }
@@ -149,7 +188,7 @@ export class MemoryStorageAdapter
         if (document && index !== -1) {
           bucket[index] = {
             ...document,
-            tags: Array.from(this._tags.get(id) ?? []),
+            tags: this._getDocumentTags(id),
           };
         }
       }
@@ -158,6 +197,112 @@ export class MemoryStorageAdapter
     return bucket.filter((document) => document !== null).slice(0, limit);
   }
 
+  public async getDocumentsByTerms(
+    terms: string[],
+    options: GetDocumentsByTermsOptions,
+  ): Promise<SearchDocument[]> {
+    const { index, tenant, fields, tags, filter, limit, offset = 0 } = options;
+    // The number of fields each term is found in, per candidate
+    const candidates = new Map<string, Map<string, number>>();
+
+    terms.forEach((term) => {
+      this._terms.get(term)?.forEach((id) => {
+        const document = this._documentStore.get(id);
+
+        if (
+          !document ||
+          this._deleted.has(id) ||
+          document.tenant !== tenant ||
+          (index && document.index !== index)
+        ) {
+          return;
+        }
+
+        const matchingFields = (this._documentTerms.get(id) ?? []).filter(
+          (documentTerm) =>
+            documentTerm.term === term &&
+            (!fields?.length || fields.includes(documentTerm.field)),
+        ).length;
+
+        if (matchingFields > 0) {
+          if (!candidates.has(id)) {
+            candidates.set(id, new Map<string, number>());
+          }
+
+          candidates.get(id)?.set(term, matchingFields);
+        }
+      });
+    });
+
+    const weights = getTermWeights(
+      terms.map((term) => ({
+        term,
+        count: Array.from(candidates.values()).filter((matches) =>
+          matches.has(term),
+        ).length,
+      })),
+      candidates.size,
+    );
+
+    return Array.from(candidates.entries())
+      .filter(
+        ([id]) =>
+          (!tags?.length ||
+            tags.every((tag) => this._tags.get(tag)?.has(id))) &&
+          (!filter ||
+            matchesFilter(
+              this._documentStore.get(id) as Omit<SearchDocument, "tags">,
+              filter,
+            )),
+      )
+      .map(([id, matches]) => ({
+        document: this._documentStore.get(id) as Omit<SearchDocument, "tags">,
+        score: Array.from(matches.entries()).reduce(
+          (score, [term, count]) => score + (weights.get(term) ?? 0) * count,
+          0,
+        ),
+      }))
+      .sort((a, b) => {
+        if (a.score !== b.score) {
+          return b.score - a.score;
+        }
+
+        if (a.document.updatedAt.getTime() !== b.document.updatedAt.getTime()) {
+          return (
+            b.document.updatedAt.getTime() - a.document.updatedAt.getTime()
+          );
+        }
+
+        return a.document.id < b.document.id ? -1 : 1;
+      })
+      .slice(offset, offset + limit)
+      .map(({ document }) => ({
+        ...document,
+        tags: this._getDocumentTags(document.id),
+      }));
+  }
+
+  public async getTerms(options: GetTermsOptions): Promise<string[]> {
+    const { index, tenant, prefix } = options;
+
+    return Array.from(this._terms.entries())
+      .filter(
+        ([term, ids]) =>
+          (!prefix || term.startsWith(prefix)) &&
+          Array.from(ids).some((id) => {
+            const document = this._documentStore.get(id);
+
+            return (
+              document &&
+              !this._deleted.has(id) &&
+              document.tenant === tenant &&
+              (!index || document.index === index)
+            );
+          }),
+      )
+      .map(([term]) => term);
+  }
+
   public async getDocument(id: string): Promise<SearchDocument | null> {
     const document = this._documentStore.get(id);
 
@@ -165,7 +310,7 @@ export class MemoryStorageAdapter
       return null;
     }
 
-    return { ...document, tags: Array.from(this._tags.get(id) ?? []) };
+    return { ...document, tags: this._getDocumentTags(id) };
   }
 
   public async upsertDocument(
@@ -202,6 +347,45 @@ export class MemoryStorageAdapter
     return { ...searchDocument, tags };
   }
 
+  public async bulkUpsertDocuments(
+    documents: BulkUpsertSearchDocumentBody[],
+  ): Promise<SearchDocument[]> {
+    const results: SearchDocument[] = [];
+
+    for (const { tags, ...document } of documents) {
+      if (tags !== undefined) {
+        this._tags.forEach((ids) => ids.delete(document.id));
+      }
+
+      const result = await this.upsertDocument(document, tags);
+
+      results.push({ ...result, tags: this._getDocumentTags(document.id) });
+    }
+
+    return results;
+  }
+
+  public async deleteDocuments(
+    options: DeleteDocumentsOptions,
+  ): Promise<number> {
+    const { index, tenant, tags } = options;
+    let count = 0;
+
+    this._documentStore.forEach((document, id) => {
+      if (
+        !this._deleted.has(id) &&
+        document.tenant === tenant &&
+        (!index || document.index === index) &&
+        (!tags?.length || tags.every((tag) => this._tags.get(tag)?.has(id)))
+      ) {
+        this._deleted.add(id);
+        count++;
+      }
+    });
+
+    return count;
+  }
+
   public async deleteDocument(id: string): Promise<void> {
     this._deleted.add(id);
   }
@@ -210,11 +394,36 @@ export class MemoryStorageAdapter
     return Array.from(this._tags.keys());
   }
 
+  public async getTagCounts(options: GetTagCountsOptions): Promise<TagCount[]> {
+    const { index, tenant } = options;
+
+    return Array.from(this._tags.entries())
+      .map(([tag, ids]) => ({
+        tag,
+        count: Array.from(ids).filter((id) => {
+          const document = this._documentStore.get(id);
+
+          return (
+            document &&
+            !this._deleted.has(id) &&
+            document.tenant === tenant &&
+            (!index || document.index === index)
+          );
+        }).length,
+      }))
+      .filter(({ count }) => count > 0)
+      .sort((a, b) =>
+        a.count !== b.count ? b.count - a.count : a.tag.localeCompare(b.tag),
+      );
+  }
+
   public reset() {
     this._documentStore.clear();
     this._tenantIndex.clear();
     this._updatedIndex.clear();
     this._tags.clear();
     this._deleted.clear();
+    this._terms.clear();
+    this._documentTerms.clear();
   }
 }
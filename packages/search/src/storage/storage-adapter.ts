@@ -1,11 +1,38 @@
 import { StorageAdapter as BaseStorageAdapter } from "@workertown/internal-storage";
 
+import { type Filter } from "../filter.js";
+
 export interface GetDocumentsOptions {
   limit: number;
   index?: string;
   tenant: string;
 }
 
+export interface GetDocumentsByTermsOptions extends GetDocumentsOptions {
+  fields?: string[];
+  tags?: string[];
+  filter?: Filter;
+  // How many of the best matching documents to skip, for paging through them
+  offset?: number;
+}
+
+export interface GetTermsOptions extends Omit<GetDocumentsOptions, "limit"> {
+  // Only returns the terms that start with the prefix
+  prefix?: string;
+}
+
+export type GetTagCountsOptions = Omit<GetDocumentsOptions, "limit">;
+
+export interface TagCount {
+  tag: string;
+  count: number;
+}
+
+export interface DocumentTerm {
+  field: string;
+  term: string;
+}
+
 export interface SearchDocument {
   id: string;
   tenant: string;
@@ -23,6 +50,17 @@ export interface UpsertSearchDocumentBody {
   data: Record<string, unknown>;
 }
 
+export interface BulkUpsertSearchDocumentBody extends UpsertSearchDocumentBody {
+  // Replaces the document's tags when set, otherwise they are left untouched
+  tags?: string[];
+}
+
+export interface DeleteDocumentsOptions {
+  tenant: string;
+  index?: string;
+  tags?: string[];
+}
+
 export class StorageAdapter extends BaseStorageAdapter {
   public async getDocuments(
     // biome-ignore lint/correctness/noUnusedVariables: Stub class
@@ -40,6 +78,20 @@ export class StorageAdapter extends BaseStorageAdapter {
     throw new TypeError("'getDocumentsByTags()' not implemented");
   }
 
+  public async getDocumentsByTerms(
+    // biome-ignore lint/correctness/noUnusedVariables: Stub class
+    terms: string[],
+    // biome-ignore lint/correctness/noUnusedVariables: Stub class
+    options: GetDocumentsByTermsOptions,
+  ): Promise<SearchDocument[]> {
+    throw new TypeError("'getDocumentsByTerms()' not implemented");
+  }
+
+  // biome-ignore lint/correctness/noUnusedVariables: Stub class
+  public async getTerms(options: GetTermsOptions): Promise<string[]> {
+    throw new TypeError("'getTerms()' not implemented");
+  }
+
   // biome-ignore lint/correctness/noUnusedVariables: Stub class
   public async getDocument(id: string): Promise<SearchDocument | null> {
     throw new TypeError("'getDocument()' not implemented");
@@ -54,6 +106,20 @@ export class StorageAdapter extends BaseStorageAdapter {
     throw new TypeError("'upsertDocument()' not implemented");
   }
 
+  public async bulkUpsertDocuments(
+    // biome-ignore lint/correctness/noUnusedVariables: Stub class
+    documents: BulkUpsertSearchDocumentBody[],
+  ): Promise<SearchDocument[]> {
+    throw new TypeError("'bulkUpsertDocuments()' not implemented");
+  }
+
+  public async deleteDocuments(
+    // biome-ignore lint/correctness/noUnusedVariables: Stub class
+    options: DeleteDocumentsOptions,
+  ): Promise<number> {
+    throw new TypeError("'deleteDocuments()' not implemented");
+  }
+
   // biome-ignore lint/correctness/noUnusedVariables: Stub class
   public async deleteDocument(id: string): Promise<void> {
     throw new TypeError("'deleteDocument()' not implemented");
@@ -62,4 +128,11 @@ export class StorageAdapter extends BaseStorageAdapter {
   public async getTags(): Promise<string[]> {
     throw new TypeError("'getTags()' not implemented");
   }
+
+  public async getTagCounts(
+    // biome-ignore lint/correctness/noUnusedVariables: Stub class
+    options: GetTagCountsOptions,
+  ): Promise<TagCount[]> {
+    throw new TypeError("'getTagCounts()' not implemented");
+  }
 }
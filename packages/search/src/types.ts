@@ -2,6 +2,7 @@ import { type ServerOptions as BaseServerOptions } from "@workertown/internal-se
 import { type SearchResult } from "minisearch";
 
 import { type CacheAdapter } from "./cache/index.js";
+import { type HighlightTags } from "./highlight.js";
 import { type SearchDocument, type StorageAdapter } from "./storage/index.js";
 
 export interface ServerOptions extends BaseServerOptions {
@@ -26,6 +27,7 @@ export interface ServerOptions extends BaseServerOptions {
       document: SearchDocument,
       result: SearchResult,
     ) => boolean;
+    highlightTags: HighlightTags;
     scanRange: number | ((req: Request) => number | Promise<number>);
     stopWords:
       | string[]
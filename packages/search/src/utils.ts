@@ -1,3 +1,301 @@
+import MiniSearch from "minisearch";
+
+import { type CacheAdapter } from "./cache/index.js";
+import {
+  FUZZY_PREFIX_LENGTH,
+  MAX_CANDIDATE_PAGES,
+  MAX_FUZZY_DISTANCE,
+  MAX_LOOKUP_TERMS,
+  MAX_TERM_LENGTH,
+  TERMS_CACHE_TTL,
+} from "./constants.js";
+import { type Filter, matchesFilter } from "./filter.js";
+import {
+  type DocumentTerm,
+  type GetTermsOptions,
+  type SearchDocument,
+  type StorageAdapter,
+} from "./storage/storage-adapter.js";
+
+const tokenize = MiniSearch.getDefault("tokenize") as (
+  text: string,
+) => string[];
+
+// The cache holds the indexed terms of a tenant (and optionally index), which
+// are needed to expand `fuzzy` and `prefix` queries. They are cached a range at
+// a time under the current "generation" held at this key, so that deleting it
+// is enough to clear every range
 export function getCacheKey(tenant: string, index?: string) {
-  return `documents_${tenant}_${index ?? "ALL"}`;
+  return `terms_${tenant}_${index ?? "ALL"}`;
+}
+
+// Mirrors how MiniSearch extracts and tokenizes fields so that the persisted
+// index and the in-memory index agree on what a "term" is
+export function getDocumentTerms(data: Record<string, unknown>) {
+  const terms = new Map<string, DocumentTerm>();
+
+  for (const [field, value] of Object.entries(data)) {
+    if (
+      value === null ||
+      value === undefined ||
+      (typeof value === "object" && !Array.isArray(value))
+    ) {
+      continue;
+    }
+
+    for (const token of tokenize(String(value))) {
+      const term = token.toLowerCase();
+
+      if (term.length > 0 && term.length <= MAX_TERM_LENGTH) {
+        terms.set(`${field}:${term}`, { field, term });
+      }
+    }
+  }
+
+  return Array.from(terms.values());
+}
+
+export function getQueryTerms(query: string, stopWords: Set<string>) {
+  const terms = tokenize(query)
+    .filter((term) => term.length > 0 && !stopWords.has(term))
+    .map((term) => term.toLowerCase());
+
+  return Array.from(new Set(terms));
+}
+
+function getEditDistance(a: string, b: string, maxDistance: number) {
+  if (Math.abs(a.length - b.length) > maxDistance) {
+    return maxDistance + 1;
+  }
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      const distance = Math.min(
+        (previous[j] as number) + 1,
+        (current[j - 1] as number) + 1,
+        (previous[j - 1] as number) + cost,
+      );
+
+      current[j] = distance;
+      rowMin = Math.min(rowMin, distance);
+    }
+
+    if (rowMin > maxDistance) {
+      return maxDistance + 1;
+    }
+
+    previous = current;
+  }
+
+  return previous[b.length] as number;
+}
+
+function getMaxDistance(queryTerm: string, fuzzy?: number) {
+  return fuzzy
+    ? Math.min(
+        MAX_FUZZY_DISTANCE,
+        fuzzy < 1 ? Math.round(queryTerm.length * fuzzy) : fuzzy,
+      )
+    : 0;
+}
+
+// The prefix shared by every indexed term that the query term can expand into
+function getTermsRange(queryTerm: string, fuzzy?: number) {
+  return getMaxDistance(queryTerm, fuzzy) > 0
+    ? Array.from(queryTerm).slice(0, FUZZY_PREFIX_LENGTH).join("")
+    : queryTerm;
+}
+
+interface ExpandQueryTermsOptions {
+  fuzzy?: number;
+  prefix?: boolean;
+  limit: number;
+}
+
+// Expands the query terms into the indexed terms that MiniSearch would
+// consider a match for them, closest matches first
+export function expandQueryTerms(
+  queryTerms: string[],
+  vocabulary: string[],
+  options: ExpandQueryTermsOptions,
+) {
+  const { fuzzy, prefix, limit } = options;
+  const expanded = new Map<string, number>();
+
+  for (const queryTerm of queryTerms) {
+    const maxDistance = getMaxDistance(queryTerm, fuzzy);
+    const range = getTermsRange(queryTerm, fuzzy);
+
+    for (const term of vocabulary) {
+      let distance: number | null = null;
+
+      if (term === queryTerm) {
+        distance = 0;
+      } else if (prefix && term.startsWith(queryTerm)) {
+        distance = term.length - queryTerm.length;
+      } else if (maxDistance > 0 && term.startsWith(range)) {
+        const editDistance = getEditDistance(queryTerm, term, maxDistance);
+
+        if (editDistance <= maxDistance) {
+          distance = editDistance;
+        }
+      }
+
+      if (distance !== null) {
+        expanded.set(term, Math.min(distance, expanded.get(term) ?? distance));
+      }
+    }
+  }
+
+  return Array.from(expanded.entries())
+    .sort(([, a], [, b]) => a - b)
+    .slice(0, limit)
+    .map(([term]) => term);
+}
+
+interface GetIndexedDocumentsOptions {
+  tenant: string;
+  index?: string;
+  term: string;
+  fields?: string[];
+  tags?: string[];
+  filter?: Filter;
+  fuzzy?: number;
+  prefix?: boolean;
+  stopWords: Set<string>;
+  limit: number;
+}
+
+// Reads the ranges (i.e. the terms starting with each prefix) of the index
+async function getVocabulary(
+  storage: StorageAdapter,
+  cache: CacheAdapter,
+  options: Omit<GetTermsOptions, "prefix">,
+  ranges: string[],
+) {
+  const { tenant, index } = options;
+  const cacheKey = getCacheKey(tenant, index);
+  let [generation] = (await cache.get(cacheKey)) ?? [];
+
+  if (!generation) {
+    generation = crypto.randomUUID();
+
+    await cache.set(cacheKey, [generation]);
+  }
+
+  const vocabularies = await Promise.all(
+    ranges.map(async (range) => {
+      const rangeCacheKey = `${cacheKey}_${generation}_${range}`;
+      let terms = await cache.get(rangeCacheKey);
+
+      if (!terms) {
+        terms = await storage.getTerms({ tenant, index, prefix: range });
+
+        await cache.set(rangeCacheKey, terms, TERMS_CACHE_TTL);
+      }
+
+      return terms;
+    }),
+  );
+
+  return Array.from(new Set(vocabularies.flat()));
+}
+
+// Weighs each of the matched terms by how rare it is amongst the candidates
+// (like the IDF of BM25), so that the storage adapters can rank the candidates
+// by the terms that set them apart rather than by how many of them they match
+export function getTermWeights(
+  counts: { term: string; count: number }[],
+  total: number,
+) {
+  return new Map(
+    counts.map(({ term, count }) => [
+      term,
+      Math.log(1 + total / Math.max(Number(count), 1)),
+    ]),
+  );
+}
+
+// Looks up the best candidates for the query in the persisted index (ranked by
+// the weights of the terms that they match), so that MiniSearch only has to
+// score up to `limit` of them
+export async function getIndexedDocuments(
+  storage: StorageAdapter,
+  cache: CacheAdapter,
+  options: GetIndexedDocumentsOptions,
+) {
+  const {
+    tenant,
+    index,
+    term,
+    fields,
+    tags,
+    filter,
+    fuzzy,
+    prefix,
+    stopWords,
+    limit,
+  } = options;
+  const queryTerms = getQueryTerms(term, stopWords).slice(0, MAX_LOOKUP_TERMS);
+  let terms = queryTerms;
+
+  if (queryTerms.length > 0 && (fuzzy || prefix)) {
+    // Only the ranges of the index that the query terms can expand into are
+    // read, rather than every term in it
+    const ranges = new Set(
+      queryTerms.map((queryTerm) => getTermsRange(queryTerm, fuzzy)),
+    );
+    const vocabulary = await getVocabulary(
+      storage,
+      cache,
+      { tenant, index },
+      Array.from(ranges),
+    );
+
+    terms = expandQueryTerms(queryTerms, vocabulary, {
+      fuzzy,
+      prefix,
+      limit: MAX_LOOKUP_TERMS,
+    });
+  }
+
+  if (terms.length === 0) {
+    return [];
+  }
+
+  const documents: SearchDocument[] = [];
+
+  for (let page = 0; page < MAX_CANDIDATE_PAGES; page++) {
+    const candidates = await storage.getDocumentsByTerms(terms, {
+      tenant,
+      index,
+      fields,
+      tags,
+      filter,
+      limit,
+      offset: page * limit,
+    });
+
+    // Not every storage adapter can apply the whole filter (if any of it), so
+    // make sure that the results match it exactly
+    documents.push(
+      ...(filter
+        ? candidates.filter((document) => matchesFilter(document, filter))
+        : candidates),
+    );
+
+    // Only the adapters that can't apply the filter need another page to make
+    // up the numbers
+    if (documents.length >= limit || candidates.length < limit) {
+      break;
+    }
+  }
+
+  return documents.slice(0, limit);
 }
@@ -0,0 +1,182 @@
+import test from "ava";
+
+import { ClientError, createSearchClient } from "../src/client";
+import { createTestService } from "./_utils";
+
+function createTestClient(service = createTestService()) {
+  return createSearchClient({ fetch: service.request, token: "test" });
+}
+
+test("client search", async (t) => {
+  const client = createTestClient();
+  const { data, pagination } = await client.search("test", "test", {
+    fields: ["content"],
+  });
+
+  t.is(data.length, 2);
+  t.is(data[0]?.id, "document_1");
+  t.is(data[1]?.id, "document_2");
+  t.false(pagination.hasNextPage);
+});
+
+test("client search w/ index, pagination", async (t) => {
+  const client = createTestClient();
+  const page = await client.search("test", "test", {
+    index: "test",
+    fields: ["content", "title"],
+    limit: 1,
+  });
+
+  t.is(page.data.length, 1);
+  t.is(page.data[0]?.id, "document_1");
+  t.true(page.pagination.hasNextPage);
+
+  const nextPage = await client.search("test", "test", {
+    index: "test",
+    fields: ["content", "title"],
+    limit: 1,
+    after: page.pagination.endCursor as string,
+  });
+
+  t.is(nextPage.data[0]?.id, "document_2");
+});
+
+test("client searchAll", async (t) => {
+  const client = createTestClient();
+  const ids: string[] = [];
+
+  for await (const result of client.searchAll("test", "test", {
+    fields: ["content", "title"],
+    limit: 1,
+  })) {
+    ids.push(result.id);
+  }
+
+  t.deepEqual(ids, ["document_1", "document_2", "document_3", "document_4"]);
+});
+
+test("client suggest", async (t) => {
+  const client = createTestClient();
+  const suggestions = await client.suggest("test", "test", {
+    fields: ["content"],
+  });
+
+  t.is(suggestions.length, 1);
+  t.is(suggestions[0]?.suggestion, "test");
+});
+
+test("client documents", async (t) => {
+  const client = createTestClient();
+  const document = await client.upsertDocument("document_6", {
+    tenant: "test",
+    index: "test",
+    data: { title: "Test document 6" },
+    tags: ["test"],
+  });
+
+  t.is(document.id, "document_6");
+  t.is((await client.getDocument("document_6"))?.id, "document_6");
+  t.deepEqual(await client.deleteDocument("document_6"), { id: "document_6" });
+  t.is(await client.getDocument("document_6"), null);
+});
+
+test("client bulk documents", async (t) => {
+  const client = createTestClient();
+  const results = await client.bulkDocuments([
+    {
+      action: "upsert",
+      id: "document_6",
+      tenant: "test",
+      index: "test",
+      data: { title: "Test document 6" },
+    },
+    { action: "delete", id: "document_1" },
+  ]);
+
+  t.true(results.every((result) => result.success));
+  t.is(await client.getDocument("document_1"), null);
+  t.deepEqual(await client.deleteDocuments("test", { index: "test" }), {
+    deleted: 3,
+  });
+  t.is(await client.getDocument("document_6"), null);
+});
+
+test("client tags", async (t) => {
+  const client = createTestClient();
+  const tags = await client.getTags();
+
+  t.deepEqual(tags.sort(), ["other", "test"]);
+  t.deepEqual(await client.getTagCounts("test", "test"), [
+    { tag: "test", count: 2 },
+  ]);
+});
+
+test("client search w/ facets", async (t) => {
+  const client = createTestClient();
+  const { facets } = await client.search("test", "test", {
+    index: "test",
+    fields: ["content"],
+    facets: ["tags"],
+  });
+
+  t.deepEqual(facets?.tags, [{ value: "test", count: 1 }]);
+});
+
+test("client search w/ highlight", async (t) => {
+  const client = createTestClient();
+  const { data } = await client.search("test", "tst", {
+    index: "test",
+    fields: ["content"],
+    fuzzy: 1,
+    highlight: true,
+  });
+
+  t.deepEqual(data[0]?.highlights, {
+    content: ["This is some <mark>test</mark> content"],
+  });
+});
+
+test("client w/ custom endpoint", async (t) => {
+  const service = createTestService({
+    endpoints: { v1: { search: "/search" } },
+  });
+  const client = createSearchClient({
+    fetch: service.request,
+    token: "test",
+    endpoints: { v1: { search: "/search" } },
+  });
+  const { data } = await client.search("test", "test", {
+    fields: ["content"],
+  });
+
+  t.is(data.length, 2);
+});
+
+test("client validation error", async (t) => {
+  const client = createTestClient();
+  const error = await t.throwsAsync(
+    client.upsertDocument("document_6", {
+      tenant: "test",
+    } as never),
+    { instanceOf: ClientError },
+  );
+
+  t.is(error?.status, 400);
+  t.true((error?.errors.length ?? 0) > 0);
+});
+
+test("client not found error", async (t) => {
+  const service = createTestService();
+  const client = createSearchClient({
+    fetch: service.request,
+    token: "test",
+    endpoints: { v1: { tags: "/v2/tags" } },
+  });
+  const error = await t.throwsAsync(client.getTags(), {
+    instanceOf: ClientError,
+  });
+
+  t.is(error?.status, 404);
+  t.is(error?.message, "Not found");
+  t.is(error?.hint, "The requested resource was not found");
+});
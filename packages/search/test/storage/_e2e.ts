@@ -1,5 +1,6 @@
 import { type ExecutionContext } from "ava";
 
+import { parseFilter } from "../../src/filter";
 import { StorageAdapter } from "../../src/storage";
 
 export async function testStorageAdapterE2E(
@@ -95,11 +96,112 @@ export async function testStorageAdapterE2E(
 
   t.is(dontGetByTagResult.length, 0);
 
+  // Get search document by terms
+  const getByTermsResult = await storage.getDocumentsByTerms(
+    ["other", "again"],
+    {
+      tenant: searchDocuments[0].tenant,
+      limit: 100,
+    },
+  );
+
+  t.is(getByTermsResult.length, 2);
+  t.deepEqual(
+    getByTermsResult.find((document) => document.id === searchDocuments[0].id)
+      ?.tags,
+    ["test"],
+  );
+
+  const getByTermsAndFieldsResult = await storage.getDocumentsByTerms(
+    ["other", "again"],
+    {
+      tenant: searchDocuments[0].tenant,
+      index: searchDocuments[0].index,
+      fields: ["title"],
+      limit: 100,
+    },
+  );
+
+  t.is(getByTermsAndFieldsResult.length, 0);
+
+  // Page through the search documents by terms
+  const getByTermsPageResult = await storage.getDocumentsByTerms(
+    ["other", "again"],
+    {
+      tenant: searchDocuments[0].tenant,
+      limit: 1,
+      offset: 1,
+    },
+  );
+
+  t.is(getByTermsPageResult.length, 1);
+  t.is(getByTermsPageResult[0].id, getByTermsResult[1].id);
+
+  // The documents that match the rarest terms are ranked first
+  const getByRarerTermsResult = await storage.getDocumentsByTerms(
+    ["test", "other"],
+    {
+      tenant: searchDocuments[0].tenant,
+      limit: 1,
+    },
+  );
+
+  t.is(getByRarerTermsResult.length, 1);
+  t.is(getByRarerTermsResult[0].id, searchDocuments[1].id);
+
+  const getByTermsAndTagsResult = await storage.getDocumentsByTerms(["test"], {
+    tenant: searchDocuments[0].tenant,
+    tags: ["test"],
+    limit: 100,
+  });
+
+  t.is(getByTermsAndTagsResult.length, 1);
+  t.is(getByTermsAndTagsResult[0].id, searchDocuments[0].id);
+
+  // Adapters are allowed to return documents that don't match the filter, as
+  // it is always re-applied, but never to leave out ones that do
+  const getByTermsAndFilterResult = await storage.getDocumentsByTerms(
+    ["test"],
+    {
+      tenant: searchDocuments[0].tenant,
+      filter: parseFilter('title = "Test document 2" OR title IN ("other")'),
+      limit: 100,
+    },
+  );
+
+  t.true(
+    getByTermsAndFilterResult.some(
+      (document) => document.id === searchDocuments[1].id,
+    ),
+  );
+
+  // Get terms
+  const getTermsResult = await storage.getTerms({
+    tenant: searchDocuments[0].tenant,
+  });
+
+  t.true(getTermsResult.includes("again"));
+  t.false(getTermsResult.includes("Again"));
+
+  const getTermsByPrefixResult = await storage.getTerms({
+    tenant: searchDocuments[0].tenant,
+    prefix: "ag",
+  });
+
+  t.deepEqual(getTermsByPrefixResult, ["again"]);
+
   // Get tags
   const getTagsResult = await storage.getTags();
 
   t.deepEqual(getTagsResult, ["test"]);
 
+  const getTagCountsResult = await storage.getTagCounts({
+    tenant: searchDocuments[0].tenant,
+    index: searchDocuments[0].index,
+  });
+
+  t.deepEqual(getTagCountsResult, [{ tag: "test", count: 1 }]);
+
   // Delete search document
   await storage.deleteDocument(searchDocuments[0].id);
 
@@ -107,6 +209,62 @@ export async function testStorageAdapterE2E(
 
   t.is(dontGetResult, null);
 
+  const dontGetByTermsResult = await storage.getDocumentsByTerms(["again"], {
+    tenant: searchDocuments[0].tenant,
+    limit: 100,
+  });
+
+  t.is(dontGetByTermsResult.length, 0);
+
+  // Bulk upsert search documents
+  const bulkUpsertResult = await storage.bulkUpsertDocuments([
+    {
+      id: "document_3",
+      tenant: "test",
+      index: "other",
+      data: { title: "Test document 3", content: "Some bulk content" },
+      tags: ["bulk"],
+    },
+    {
+      id: "document_4",
+      tenant: "test",
+      index: "other",
+      data: { title: "Test document 4", content: "Some more bulk content" },
+    },
+    { ...searchDocuments[1], tags: ["bulk"] },
+  ]);
+
+  t.is(bulkUpsertResult.length, 3);
+  t.deepEqual(bulkUpsertResult[0].tags, ["bulk"]);
+  t.deepEqual(bulkUpsertResult[1].tags, []);
+  t.is((await storage.getDocument("document_4"))?.index, "other");
+  t.deepEqual((await storage.getDocument("document_2"))?.tags, ["bulk"]);
+
+  const getByBulkTermResult = await storage.getDocumentsByTerms(["bulk"], {
+    tenant: "test",
+    index: "other",
+    limit: 100,
+  });
+
+  t.is(getByBulkTermResult.length, 2);
+
+  // Delete search documents by query
+  const deleteByTagsResult = await storage.deleteDocuments({
+    tenant: "test",
+    tags: ["bulk"],
+  });
+
+  t.is(deleteByTagsResult, 2);
+  t.is(await storage.getDocument("document_2"), null);
+
+  const deleteByIndexResult = await storage.deleteDocuments({
+    tenant: "test",
+    index: "other",
+  });
+
+  t.is(deleteByIndexResult, 1);
+  t.is(await storage.getDocument("document_4"), null);
+
   // Drop tables
   await storage.runMigrations(true);
 }
@@ -1,5 +1,6 @@
 import test from "ava";
 
+import { parseFilter } from "../../src/filter";
 import { type StorageAdapter } from "../../src/storage";
 import { SqliteStorageAdapter } from "../../src/storage/sqlite";
 import { testStorageAdapterE2E } from "./_e2e";
@@ -12,3 +13,49 @@ test("SqliteStorageAdapter", async (t) => {
 
   await testStorageAdapterE2E(t, storage);
 });
+
+test("SqliteStorageAdapter w/ filter", async (t) => {
+  // @ts-ignore - weird test TS issues
+  const storage = new SqliteStorageAdapter({
+    db: ":memory:",
+  }) as unknown as StorageAdapter;
+
+  await storage.runMigrations();
+  await storage.bulkUpsertDocuments(
+    [
+      { title: "Red shirt", discontinued: true, sizes: ["s", "m"] },
+      { title: "Red hat", discontinued: false, sizes: ["m"] },
+      { title: "Red scarf", sizes: [] },
+      { title: "Red socks", discontinued: 0, sizes: ["s"] },
+    ].map((data, i) => ({
+      id: `product_${i + 1}`,
+      tenant: "shop",
+      index: "products",
+      data,
+    })),
+  );
+
+  // The whole filter (including any `NOT`) is applied before the limit, so
+  // every page is full of matching documents
+  const getIds = async (filter: string, limit = 100) =>
+    (
+      await storage.getDocumentsByTerms(["red"], {
+        tenant: "shop",
+        filter: parseFilter(filter),
+        limit,
+      })
+    )
+      .map(({ id }) => id)
+      .sort();
+
+  t.deepEqual(await getIds("NOT discontinued"), [
+    "product_2",
+    "product_3",
+    "product_4",
+  ]);
+  t.is((await getIds("NOT discontinued", 1)).length, 1);
+  t.deepEqual(await getIds('NOT sizes = "m"'), ["product_3", "product_4"]);
+  t.deepEqual(await getIds('NOT (sizes = "s" OR discontinued = false)'), [
+    "product_3",
+  ]);
+});
@@ -150,6 +150,355 @@ test("v1 search w/ tenant, index, single field, fuzzy", async (t) => {
   t.is(result.data[1].id, "document_2");
 });
 
+test("v1 search w/ tenant, index, single field, prefix", async (t) => {
+  const service = createTestService();
+  const res = await makeRequest(
+    service,
+    "/v1/search/test/test?term=tes&fields=content&prefix=true",
+  );
+
+  t.is(res.status, 200);
+
+  const result = (await res.json()) as SearchResponse;
+
+  t.is(result.data.length, 2);
+  t.is(result.data[0].id, "document_1");
+  t.is(result.data[1].id, "document_2");
+});
+
+test("v1 search w/ documents outside of the scan range", async (t) => {
+  const service = createTestService({ search: { scanRange: 1 } });
+  const res = await makeRequest(
+    service,
+    "/v1/search/test/test?term=2&fields=title",
+  );
+
+  t.is(res.status, 200);
+
+  const result = (await res.json()) as SearchResponse;
+
+  t.is(result.data.length, 1);
+  t.is(result.data[0].id, "document_2");
+});
+
+test("v1 search w/ more matches than the scan range", async (t) => {
+  const service = createTestService({ search: { scanRange: 1 } });
+  const res = await makeRequest(
+    service,
+    "/v1/search/test/test?term=tes&fields=content&prefix=true",
+  );
+
+  t.is(res.status, 200);
+
+  const result = (await res.json()) as SearchResponse;
+
+  t.is(result.data.length, 1);
+});
+
+interface FacetsResponse extends SearchResponse {
+  facets: Record<
+    string,
+    {
+      value?: string;
+      from?: number | null;
+      to?: number | null;
+      count: number;
+    }[]
+  >;
+}
+
+test("v1 search w/ facets", async (t) => {
+  const now = new Date();
+  const service = createTestService(
+    {},
+    [
+      {
+        id: "product_1",
+        tenant: "shop",
+        index: "products",
+        data: { title: "Red shirt", category: "shirts", price: 20 },
+        tags: [],
+        createdAt: now,
+        updatedAt: now,
+      },
+      {
+        id: "product_2",
+        tenant: "shop",
+        index: "products",
+        data: { title: "Blue shirt", category: "shirts", price: 45 },
+        tags: [],
+        createdAt: now,
+        updatedAt: now,
+      },
+      {
+        id: "product_3",
+        tenant: "shop",
+        index: "products",
+        data: { title: "Red hat", category: "hats", price: 80 },
+        tags: [],
+        createdAt: now,
+        updatedAt: now,
+      },
+    ],
+    { sale: ["product_1", "product_3"] },
+  );
+  const res1 = await makeRequest(
+    service,
+    "/v1/search/shop/products?term=red&fields=title&limit=1&facets=tags,category,price:25|50",
+  );
+
+  t.is(res1.status, 200);
+
+  const result1 = (await res1.json()) as FacetsResponse;
+
+  t.is(result1.data.length, 1);
+  t.deepEqual(result1.facets.tags, [{ value: "sale", count: 2 }]);
+  t.deepEqual(result1.facets.category, [
+    { value: "hats", count: 1 },
+    { value: "shirts", count: 1 },
+  ]);
+  t.deepEqual(result1.facets.price, [
+    { from: null, to: 25, count: 1 },
+    { from: 25, to: 50, count: 0 },
+    { from: 50, to: null, count: 1 },
+  ]);
+
+  const res2 = await makeRequest(
+    service,
+    "/v1/search/shop/products?term=red&fields=title&facets=price:cheap",
+  );
+
+  t.is(res2.status, 400);
+});
+
+interface ErrorResponse {
+  status: 400;
+  success: false;
+  data: null;
+  errors: {
+    location: string;
+    path: (string | number)[];
+    message: string;
+  }[];
+}
+
+function createFilterTestService() {
+  const now = new Date();
+
+  return createTestService({}, [
+    {
+      id: "product_1",
+      tenant: "shop",
+      index: "products",
+      data: {
+        title: "Red shirt",
+        brand: "acme",
+        price: 20,
+        discontinued: false,
+        details: { sizes: ["s", "m"] },
+      },
+      tags: [],
+      createdAt: now,
+      updatedAt: now,
+    },
+    {
+      id: "product_2",
+      tenant: "shop",
+      index: "products",
+      data: {
+        title: "Red hat",
+        brand: "globex",
+        price: 5,
+        discontinued: false,
+        details: { sizes: ["m"] },
+      },
+      tags: [],
+      createdAt: now,
+      updatedAt: now,
+    },
+    {
+      id: "product_3",
+      tenant: "shop",
+      index: "products",
+      data: {
+        title: "Red scarf",
+        brand: "globex",
+        price: 30,
+        discontinued: true,
+        details: { sizes: ["l"] },
+      },
+      tags: [],
+      createdAt: now,
+      updatedAt: now,
+    },
+  ]);
+}
+
+test("v1 search w/ filter", async (t) => {
+  const service = createFilterTestService();
+  const res1 = await makeRequest(
+    service,
+    `/v1/search/shop/products?term=red&fields=title&filter=${encodeURIComponent(
+      'price >= 10 AND brand IN ("acme", "globex") AND NOT discontinued',
+    )}`,
+  );
+
+  t.is(res1.status, 200);
+
+  const result1 = (await res1.json()) as SearchResponse;
+
+  t.deepEqual(
+    result1.data.map((result) => result.id),
+    ["product_1"],
+  );
+
+  const res2 = await makeRequest(
+    service,
+    `/v1/search/shop/products?term=red&fields=title&filter=${encodeURIComponent(
+      'details.sizes = "m" OR (brand != "acme" AND price > 25)',
+    )}`,
+  );
+
+  t.is(res2.status, 200);
+
+  const result2 = (await res2.json()) as SearchResponse;
+
+  t.deepEqual(result2.data.map((result) => result.id).sort(), [
+    "product_1",
+    "product_2",
+    "product_3",
+  ]);
+});
+
+test("v1 search w/ invalid filter", async (t) => {
+  const service = createFilterTestService();
+  const res = await makeRequest(
+    service,
+    `/v1/search/shop/products?term=red&fields=title&filter=${encodeURIComponent(
+      "price >= AND brand",
+    )}`,
+  );
+
+  t.is(res.status, 400);
+
+  const result = (await res.json()) as ErrorResponse;
+
+  t.is(result.success, false);
+  t.deepEqual(result.errors, [
+    {
+      location: "query",
+      path: ["filter"],
+      message: "Expected a value at position 9",
+    },
+  ]);
+});
+
+test("v1 search w/ too large filter", async (t) => {
+  const service = createFilterTestService();
+  const filters = [
+    [
+      Array.from({ length: 41 }, (_, i) => `price != ${i}`).join(" AND "),
+      "Filter can't have more than 40 conditions",
+    ],
+    [
+      `brand IN (${Array.from({ length: 41 }, (_, i) => i).join(", ")})`,
+      "Filter can't have more than 40 conditions",
+    ],
+    [
+      `${"NOT ".repeat(600)}discontinued`,
+      "Filter can't be longer than 2048 characters",
+    ],
+  ];
+
+  for (const [filter, message] of filters) {
+    const res = await makeRequest(
+      service,
+      `/v1/search/shop/products?term=red&fields=title&filter=${encodeURIComponent(
+        filter as string,
+      )}`,
+    );
+
+    t.is(res.status, 400);
+
+    const result = (await res.json()) as ErrorResponse;
+
+    t.deepEqual(result.errors, [
+      { location: "query", path: ["filter"], message },
+    ]);
+  }
+
+  // Double negatives don't nest the filter any deeper
+  const res = await makeRequest(
+    service,
+    `/v1/search/shop/products?term=red&fields=title&filter=${encodeURIComponent(
+      `${"NOT ".repeat(501)}discontinued`,
+    )}`,
+  );
+
+  t.is(res.status, 200);
+});
+
+interface HighlightResponse extends SearchResponse {
+  data: (SearchResponse["data"][number] & {
+    highlights: Record<string, string[]>;
+  })[];
+}
+
+test("v1 search w/ sort", async (t) => {
+  const service = createFilterTestService();
+  const res1 = await makeRequest(
+    service,
+    "/v1/search/shop/products?term=red&fields=title&sort=data.price:desc",
+  );
+
+  t.is(res1.status, 200);
+
+  const result1 = (await res1.json()) as SearchResponse;
+
+  t.deepEqual(
+    result1.data.map((result) => result.id),
+    ["product_3", "product_1", "product_2"],
+  );
+
+  const res2 = await makeRequest(
+    service,
+    "/v1/search/shop/products?term=red&fields=title&sort=data.brand,data.price:desc&limit=1",
+  );
+  const result2 = (await res2.json()) as SearchResponse;
+
+  t.deepEqual(
+    result2.data.map((result) => result.id),
+    ["product_1"],
+  );
+
+  const res3 = await makeRequest(
+    service,
+    "/v1/search/shop/products?term=red&fields=title&sort=price:up",
+  );
+
+  t.is(res3.status, 400);
+});
+
+test("v1 search w/ highlight", async (t) => {
+  const service = createTestService({
+    search: { highlightTags: { pre: "[", post: "]" } },
+  });
+  const res = await makeRequest(
+    service,
+    "/v1/search/test/test?term=conte&fields=title,content&prefix=1&highlight=1",
+  );
+
+  t.is(res.status, 200);
+
+  const result = (await res.json()) as HighlightResponse;
+
+  t.is(result.data.length, 2);
+  t.deepEqual(
+    result.data.find((item) => item.id === "document_2")?.highlights,
+    { content: ["This is some more test [content]"] },
+  );
+});
+
 test("v1 search w/ custom endpoint", async (t) => {
   const service = createTestService({
     endpoints: {
@@ -300,6 +649,23 @@ test("v1 suggest w/ tenant, index, single field, fuzzy", async (t) => {
   t.is(result.data[0].terms[0], "test");
 });
 
+test("v1 suggest w/ filter", async (t) => {
+  const service = createFilterTestService();
+  const res = await makeRequest(
+    service,
+    `/v1/suggest/shop/products?term=red&fields=title&filter=${encodeURIComponent(
+      "price < 10",
+    )}`,
+  );
+
+  t.is(res.status, 200);
+
+  const result = (await res.json()) as SuggestResponse;
+
+  t.is(result.data.length, 1);
+  t.is(result.data[0].suggestion, "red");
+});
+
 test("v1 suggest w/ custom endpoint", async (t) => {
   const service = createTestService({
     endpoints: {
@@ -456,6 +822,152 @@ test("v1 delete document", async (t) => {
   t.is(result3.data, null);
 });
 
+interface BulkResponse extends SuccessfulResponse {
+  data: {
+    id: string | null;
+    action: "upsert" | "delete" | null;
+    success: boolean;
+    error?: string;
+  }[];
+}
+
+test("v1 bulk documents", async (t) => {
+  const service = createTestService();
+  const res1 = await makeRequest(service, "/v1/docs/bulk", {
+    method: "POST",
+    body: [
+      {
+        action: "upsert",
+        id: "document_6",
+        tenant: "test",
+        index: "test",
+        data: { title: "Bulk document 6", content: "Bulky content" },
+        tags: ["test"],
+      },
+      { action: "delete", id: "document_1" },
+      { action: "upsert", id: "document_7" },
+      {
+        action: "upsert",
+        id: "document_8",
+        tenant: "test",
+        index: "test",
+        data: { title: "Bulk document 8", content: "Bulky content" },
+      },
+    ],
+  });
+
+  t.is(res1.status, 200);
+
+  const result1 = (await res1.json()) as BulkResponse;
+
+  t.deepEqual(
+    result1.data.map((result) => result.success),
+    [true, true, false, true],
+  );
+  t.is(result1.data[2].id, "document_7");
+  t.is(result1.data[2].error, "Invalid operation");
+
+  const res2 = await makeRequest(service, "/v1/docs/document_1");
+
+  t.is(res2.status, 404);
+
+  const res3 = await makeRequest(
+    service,
+    "/v1/search/test/test?term=bulky&fields=content",
+  );
+  const result3 = (await res3.json()) as SearchResponse;
+
+  t.deepEqual(result3.data.map((result) => result.id).sort(), [
+    "document_6",
+    "document_8",
+  ]);
+});
+
+test("v1 bulk documents w/ ndjson", async (t) => {
+  const service = createTestService();
+  const res1 = await service.request("/v1/docs/bulk", {
+    method: "POST",
+    headers: {
+      Authorization: "Bearer test",
+      "Content-Type": "application/x-ndjson",
+    },
+    body: [
+      JSON.stringify({
+        action: "upsert",
+        id: "document_6",
+        tenant: "test",
+        index: "test",
+        data: { title: "Bulk document 6" },
+      }),
+      "{not json",
+      JSON.stringify({ action: "delete", id: "document_2" }),
+      "",
+    ].join("\n"),
+  });
+
+  t.is(res1.status, 200);
+
+  const result1 = (await res1.json()) as BulkResponse;
+
+  t.deepEqual(
+    result1.data.map((result) => result.success),
+    [true, false, true],
+  );
+  t.is(result1.data[1].id, null);
+
+  const res2 = await makeRequest(service, "/v1/docs/document_6");
+
+  t.is(res2.status, 200);
+});
+
+test("v1 bulk documents w/ invalid body", async (t) => {
+  const service = createTestService();
+  const res = await makeRequest(service, "/v1/docs/bulk", {
+    method: "POST",
+    body: { action: "delete", id: "document_1" },
+  });
+
+  t.is(res.status, 400);
+});
+
+interface DeleteDocumentsResponse extends SuccessfulResponse {
+  data: {
+    deleted: number;
+  };
+}
+
+test("v1 delete documents by query", async (t) => {
+  const service = createTestService();
+  const res1 = await makeRequest(service, "/v1/docs?tenant=test&index=other", {
+    method: "DELETE",
+  });
+
+  t.is(res1.status, 200);
+
+  const result1 = (await res1.json()) as DeleteDocumentsResponse;
+
+  t.is(result1.data.deleted, 1);
+
+  const res2 = await makeRequest(service, "/v1/docs/document_4");
+
+  t.is(res2.status, 404);
+
+  const res3 = await makeRequest(service, "/v1/docs?tenant=test&tags=test", {
+    method: "DELETE",
+  });
+  const result3 = (await res3.json()) as DeleteDocumentsResponse;
+
+  t.is(result3.data.deleted, 2);
+
+  const res4 = await makeRequest(service, "/v1/docs/document_2");
+
+  t.is(res4.status, 200);
+
+  const res5 = await makeRequest(service, "/v1/docs", { method: "DELETE" });
+
+  t.is(res5.status, 400);
+});
+
 test("v1 documents w/ custom endpoint", async (t) => {
   const service = createTestService({
     endpoints: {
@@ -505,6 +1017,29 @@ test("v1 tags", async (t) => {
   t.is(result.data[1], "other");
 });
 
+interface TagCountsResponse extends SuccessfulResponse {
+  data: { tag: string; count: number }[];
+}
+
+test("v1 tags w/ tenant, index", async (t) => {
+  const service = createTestService();
+  const res1 = await makeRequest(service, "/v1/tags/test");
+
+  t.is(res1.status, 200);
+
+  const result1 = (await res1.json()) as TagCountsResponse;
+
+  t.deepEqual(result1.data, [
+    { tag: "test", count: 2 },
+    { tag: "other", count: 1 },
+  ]);
+
+  const res2 = await makeRequest(service, "/v1/tags/test/test");
+  const result2 = (await res2.json()) as TagCountsResponse;
+
+  t.deepEqual(result2.data, [{ tag: "test", count: 2 }]);
+});
+
 test("v1 tags w/ custom endpoint", async (t) => {
   const service = createTestService({
     endpoints: {
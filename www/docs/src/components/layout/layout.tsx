@@ -40,13 +40,30 @@ export const navigation: {
       { title: "REST", href: "/docs/core-concepts/rest" },
     ],
   },
+  {
+    title: "Auth",
+    links: [
+      {
+        title: "Introduction",
+        href: "/docs/packages/auth/introduction",
+      },
+      {
+        title: "Using the API",
+        href: "/docs/packages/auth/using-the-api",
+      },
+    ],
+  },
   {
     title: "Events",
     links: [
       {
-        title: "Coming soon...",
+        title: "Introduction",
         href: "/docs/packages/events/introduction",
       },
+      {
+        title: "Using the API",
+        href: "/docs/packages/events/using-the-api",
+      },
     ],
   },
   {
@@ -145,9 +162,13 @@ export const navigation: {
     title: "Queues",
     links: [
       {
-        title: "Coming soon...",
+        title: "Introduction",
         href: "/docs/packages/queues/introduction",
       },
+      {
+        title: "Using the API",
+        href: "/docs/packages/queues/using-the-api",
+      },
     ],
   },
   {